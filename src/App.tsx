@@ -5,12 +5,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/lib/auth";
+import { OrganizationProvider } from "@/components/OrganizationProvider";
 
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import UploadInvoice from "./pages/UploadInvoice";
 import Invoices from "./pages/Invoices";
+import CreateInvoice from "./pages/CreateInvoice";
 import Reports from "./pages/Reports";
 import Chat from "./pages/Chat";
 import Admin from "./pages/Admin";
@@ -21,9 +23,13 @@ import FraudCenter from "./pages/FraudCenter";
 import SpendAnalytics from "./pages/SpendAnalytics";
 import ESGDashboard from "./pages/ESGDashboard";
 import Payments from "./pages/Payments";
+import Policies from "./pages/Policies";
 import OpenBanking from "./pages/OpenBanking";
 import Cards from "./pages/Cards";
 import Reimbursements from "./pages/Reimbursements";
+import Approvals from "./pages/Approvals";
+import Clarify from "./pages/Clarify";
+import Organization from "./pages/Organization";
 
 import { Loader2 } from "lucide-react";
 
@@ -97,6 +103,15 @@ function AppRoutes() {
           }
         />
 
+        <Route
+          path="/dashboard/invoices/new"
+          element={
+            <ProtectedRoute>
+              <CreateInvoice />
+            </ProtectedRoute>
+          }
+        />
+
         <Route
           path="/dashboard/reports"
           element={
@@ -133,6 +148,15 @@ function AppRoutes() {
           }
         />
 
+        <Route
+          path="/dashboard/policies"
+          element={
+            <ProtectedRoute>
+              <Policies />
+            </ProtectedRoute>
+          }
+        />
+
         <Route
           path="/dashboard/payments"
           element={
@@ -169,6 +193,15 @@ function AppRoutes() {
           }
         />
 
+        <Route
+          path="/dashboard/approvals"
+          element={
+            <ProtectedRoute>
+              <Approvals />
+            </ProtectedRoute>
+          }
+        />
+
         <Route
           path="/dashboard/chat"
           element={
@@ -187,6 +220,15 @@ function AppRoutes() {
           }
         />
 
+        <Route
+          path="/dashboard/organization"
+          element={
+            <ProtectedRoute>
+              <Organization />
+            </ProtectedRoute>
+          }
+        />
+
         <Route
           path="/dashboard/profile"
           element={
@@ -205,6 +247,9 @@ function AppRoutes() {
           }
         />
 
+        {/* Vendors answer invoice clarifications without an account */}
+        <Route path="/clarify/:token" element={<Clarify />} />
+
         <Route path="*" element={<NotFound />} />
       </Routes>
     </Suspense>
@@ -218,7 +263,9 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <AppRoutes />
+          <OrganizationProvider>
+            <AppRoutes />
+          </OrganizationProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { CAPABILITIES, Organization, OrganizationContext, OrgCapability, OrgRole } from '@/lib/organization';
+
+export function OrganizationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setOrganizations([]);
+      setActiveId(null);
+      setLoading(false);
+      return;
+    }
+
+    const [members, profile] = await Promise.all([
+      supabase.from('organization_members').select('organization_id, role').eq('user_id', user.id).order('created_at'),
+      supabase.from('profiles').select('active_organization_id').eq('user_id', user.id).maybeSingle(),
+    ]);
+    const ids = (members.data || []).map((m) => m.organization_id);
+    const { data: orgs } = ids.length
+      ? await supabase.from('organizations').select('id, name').in('id', ids)
+      : { data: [] as { id: string; name: string }[] };
+    const names = new Map((orgs || []).map((o) => [o.id, o.name]));
+
+    const list = (members.data || []).map((m) => ({
+      id: m.organization_id,
+      name: names.get(m.organization_id) || 'Organization',
+      role: m.role as OrgRole,
+    }));
+    const preferred = profile.data?.active_organization_id;
+    setOrganizations(list);
+    setActiveId(list.some((o) => o.id === preferred) ? preferred! : list[0]?.id ?? null);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  // The profile remembers the choice so uploads made elsewhere (edge functions, imports) land in the same workspace;
+  // if it cannot be saved the switch is undone, so the page never shows one workspace while writes go to another
+  const switchOrganization = async (id: string) => {
+    if (!user || id === activeId) return;
+    const previousId = activeId;
+    setActiveId(id);
+    const { error } = await supabase.from('profiles').update({ active_organization_id: id }).eq('user_id', user.id);
+    if (error) {
+      setActiveId(previousId);
+      toast({ variant: 'destructive', title: 'Could not switch organization', description: error.message });
+    }
+  };
+
+  const organization = organizations.find((o) => o.id === activeId) ?? null;
+  const can = (capability: OrgCapability) =>
+    !!organization && (CAPABILITIES[capability] as OrgRole[]).includes(organization.role);
+
+  return (
+    <OrganizationContext.Provider value={{ organizations, organization, loading, can, switchOrganization, refresh }}>
+      {children}
+    </OrganizationContext.Provider>
+  );
+}
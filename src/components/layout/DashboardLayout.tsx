@@ -1,6 +1,7 @@
 import { ReactNode } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
+import { ORG_ROLE_LABELS, useOrganization, type OrgCapability } from '@/lib/organization';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
@@ -11,8 +12,12 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select';
 import {
+  Building2,
   FileText,
+  FileCheck,
+  FilePlus,
   LayoutDashboard,
   Upload,
   BarChart3,
@@ -24,6 +29,7 @@ import {
   Landmark,
   Receipt,
   Wallet,
+  Scale,
   Shield,
   LogOut,
   User,
@@ -37,18 +43,23 @@ interface DashboardLayoutProps {
   children: ReactNode;
 }
 
-const navItems = [
+// `capability`: only shown to organization roles that have it (see lib/organization)
+const navItems: { href: string; icon: typeof FileText; label: string; capability?: OrgCapability }[] = [
   { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
-  { href: '/dashboard/upload', icon: Upload, label: 'Upload Invoice' },
+  { href: '/dashboard/upload', icon: Upload, label: 'Upload Invoice', capability: 'submit' },
   { href: '/dashboard/invoices', icon: FileText, label: 'Invoices' },
+  { href: '/dashboard/invoices/new', icon: FilePlus, label: 'Create Invoice', capability: 'submit' },
+  { href: '/dashboard/approvals', icon: FileCheck, label: 'My Approvals' },
   { href: '/dashboard/reports', icon: BarChart3, label: 'Reports' },
   { href: '/dashboard/spend', icon: BarChart3, label: 'Spend Analytics' },
   { href: '/dashboard/fraud', icon: ShieldAlert, label: 'Fraud Center' },
   { href: '/dashboard/esg', icon: Leaf, label: 'ESG' },
-  { href: '/dashboard/payments', icon: Wallet, label: 'Payments' },
-  { href: '/dashboard/open-banking', icon: Landmark, label: 'Open Banking' },
+  { href: '/dashboard/policies', icon: Scale, label: 'Policies' },
+  { href: '/dashboard/payments', icon: Wallet, label: 'Payments', capability: 'viewBooks' },
+  { href: '/dashboard/open-banking', icon: Landmark, label: 'Open Banking', capability: 'viewBooks' },
   { href: '/dashboard/cards', icon: CreditCard, label: 'Corporate Cards' },
   { href: '/dashboard/reimbursements', icon: Receipt, label: 'Reimbursements' },
+  { href: '/dashboard/organization', icon: Building2, label: 'Organization' },
   { href: '/dashboard/chat', icon: MessageSquare, label: 'AI Assistant' },
 ];
 
@@ -56,8 +67,35 @@ const adminItems = [
   { href: '/dashboard/admin', icon: Shield, label: 'Admin Panel' },
 ];
 
+function OrganizationSwitcher({ className }: { className?: string }) {
+  const { organizations, organization, switchOrganization } = useOrganization();
+  if (!organization) return null;
+
+  return (
+    <Select value={organization.id} onValueChange={switchOrganization}>
+      <SelectTrigger className={cn('h-auto py-2', className)}>
+        <div className="flex items-center gap-2 min-w-0">
+          <Building2 className="h-4 w-4 shrink-0" />
+          <div className="flex flex-col items-start min-w-0">
+            <span className="text-sm font-medium truncate max-w-[9rem]">{organization.name}</span>
+            <span className="text-xs opacity-60">{ORG_ROLE_LABELS[organization.role]}</span>
+          </div>
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {organizations.map((o) => (
+          <SelectItem key={o.id} value={o.id}>
+            {o.name} · {ORG_ROLE_LABELS[o.role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const { user, isAdmin, signOut } = useAuth();
+  const { can } = useOrganization();
   const location = useLocation();
   const navigate = useNavigate();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -71,6 +109,8 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
     return email.slice(0, 2).toUpperCase();
   };
 
+  const visibleNavItems = navItems.filter((item) => !item.capability || can(item.capability));
+
   return (
     <div className="min-h-screen bg-background">
       {/* Sidebar - Desktop */}
@@ -86,9 +126,14 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
             </span>
           </div>
 
+          {/* Organization */}
+          <div className="px-4 pt-4">
+            <OrganizationSwitcher className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground" />
+          </div>
+
           {/* Navigation */}
           <nav className="flex-1 space-y-1 p-4">
-            {navItems.map((item) => {
+            {visibleNavItems.map((item) => {
               const isActive = location.pathname === item.href;
               return (
                 <Link
@@ -203,7 +248,8 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
         {/* Mobile menu */}
         {mobileMenuOpen && (
           <nav className="border-t border-border bg-card p-4 space-y-1 animate-fade-in">
-            {navItems.map((item) => {
+            <OrganizationSwitcher className="mb-3" />
+            {visibleNavItems.map((item) => {
               const isActive = location.pathname === item.href;
               return (
                 <Link
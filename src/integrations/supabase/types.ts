@@ -14,215 +14,1828 @@ export type Database = {
   }
   public: {
     Tables: {
+      approval_chain_steps: {
+        Row: {
+          approver_id: string | null
+          approver_type: string
+          chain_id: string
+          created_at: string
+          escalate_to: string | null
+          id: string
+          min_amount: number | null
+          name: string
+          position: number
+          sla_hours: number | null
+        }
+        Insert: {
+          approver_id?: string | null
+          approver_type?: string
+          chain_id: string
+          created_at?: string
+          escalate_to?: string | null
+          id?: string
+          min_amount?: number | null
+          name: string
+          position: number
+          sla_hours?: number | null
+        }
+        Update: {
+          approver_id?: string | null
+          approver_type?: string
+          chain_id?: string
+          created_at?: string
+          escalate_to?: string | null
+          id?: string
+          min_amount?: number | null
+          name?: string
+          position?: number
+          sla_hours?: number | null
+        }
+        Relationships: []
+      }
+      approval_chains: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          max_amount: number | null
+          min_amount: number
+          name: string
+          organization_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number
+          name: string
+          organization_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number
+          name?: string
+          organization_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      approval_delegations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          delegate_id: string
+          ends_on: string
+          id: string
+          organization_id: string | null
+          reason: string | null
+          revoked_at: string | null
+          starts_on: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          delegate_id: string
+          ends_on: string
+          id?: string
+          organization_id?: string | null
+          reason?: string | null
+          revoked_at?: string | null
+          starts_on: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          delegate_id?: string
+          ends_on?: string
+          id?: string
+          organization_id?: string | null
+          reason?: string | null
+          revoked_at?: string | null
+          starts_on?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      approvals: {
+        Row: {
+          approver_id: string | null
+          chain_id: string | null
+          created_at: string
+          cycle: number
+          decided_at: string | null
+          decided_by: string | null
+          due_at: string | null
+          escalate_to: string | null
+          escalated_at: string | null
+          escalation_level: number
+          id: string
+          invoice_id: string
+          organization_id: string | null
+          original_approver_id: string | null
+          reasons: string[] | null
+          sla_hours: number | null
+          status: Database["public"]["Enums"]["approval_status"]
+          step_index: number
+          step_name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          approver_id?: string | null
+          chain_id?: string | null
+          created_at?: string
+          cycle?: number
+          decided_at?: string | null
+          decided_by?: string | null
+          due_at?: string | null
+          escalate_to?: string | null
+          escalated_at?: string | null
+          escalation_level?: number
+          id?: string
+          invoice_id: string
+          organization_id?: string | null
+          original_approver_id?: string | null
+          reasons?: string[] | null
+          sla_hours?: number | null
+          status?: Database["public"]["Enums"]["approval_status"]
+          step_index?: number
+          step_name?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          approver_id?: string | null
+          chain_id?: string | null
+          created_at?: string
+          cycle?: number
+          decided_at?: string | null
+          decided_by?: string | null
+          due_at?: string | null
+          escalate_to?: string | null
+          escalated_at?: string | null
+          escalation_level?: number
+          id?: string
+          invoice_id?: string
+          organization_id?: string | null
+          original_approver_id?: string | null
+          reasons?: string[] | null
+          sla_hours?: number | null
+          status?: Database["public"]["Enums"]["approval_status"]
+          step_index?: number
+          step_name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_accounts: {
+        Row: {
+          bic: string | null
+          created_at: string
+          currency: string
+          holder_name: string
+          iban: string
+          id: string
+          is_default: boolean
+          name: string
+          organization_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bic?: string | null
+          created_at?: string
+          currency?: string
+          holder_name: string
+          iban: string
+          id?: string
+          is_default?: boolean
+          name: string
+          organization_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bic?: string | null
+          created_at?: string
+          currency?: string
+          holder_name?: string
+          iban?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          organization_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_connection_accounts: {
+        Row: {
+          balance_available: number | null
+          balance_booked: number | null
+          balance_date: string | null
+          connection_id: string
+          created_at: string
+          currency: string
+          external_id: string
+          iban: string | null
+          id: string
+          last_synced_at: string | null
+          name: string | null
+          organization_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          balance_available?: number | null
+          balance_booked?: number | null
+          balance_date?: string | null
+          connection_id: string
+          created_at?: string
+          currency?: string
+          external_id: string
+          iban?: string | null
+          id?: string
+          last_synced_at?: string | null
+          name?: string | null
+          organization_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          balance_available?: number | null
+          balance_booked?: number | null
+          balance_date?: string | null
+          connection_id?: string
+          created_at?: string
+          currency?: string
+          external_id?: string
+          iban?: string | null
+          id?: string
+          last_synced_at?: string | null
+          name?: string | null
+          organization_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_connections: {
+        Row: {
+          consent_created_at: string | null
+          consent_expires_at: string | null
+          consent_id: string | null
+          created_at: string
+          id: string
+          institution_name: string | null
+          last_error: string | null
+          last_sync_imported: number
+          last_synced_at: string | null
+          organization_id: string | null
+          provider: string
+          status: string
+          sync_interval_minutes: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          consent_created_at?: string | null
+          consent_expires_at?: string | null
+          consent_id?: string | null
+          created_at?: string
+          id?: string
+          institution_name?: string | null
+          last_error?: string | null
+          last_sync_imported?: number
+          last_synced_at?: string | null
+          organization_id?: string | null
+          provider: string
+          status?: string
+          sync_interval_minutes?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          consent_created_at?: string | null
+          consent_expires_at?: string | null
+          consent_id?: string | null
+          created_at?: string
+          id?: string
+          institution_name?: string | null
+          last_error?: string | null
+          last_sync_imported?: number
+          last_synced_at?: string | null
+          organization_id?: string | null
+          provider?: string
+          status?: string
+          sync_interval_minutes?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_statements: {
+        Row: {
+          account_iban: string | null
+          created_at: string
+          currency: string | null
+          duplicate_count: number
+          file_name: string
+          format: string
+          id: string
+          imported_count: number
+          issues: Json | null
+          organization_id: string | null
+          period_from: string | null
+          period_to: string | null
+          transaction_count: number
+          user_id: string
+        }
+        Insert: {
+          account_iban?: string | null
+          created_at?: string
+          currency?: string | null
+          duplicate_count?: number
+          file_name: string
+          format: string
+          id?: string
+          imported_count?: number
+          issues?: Json | null
+          organization_id?: string | null
+          period_from?: string | null
+          period_to?: string | null
+          transaction_count?: number
+          user_id: string
+        }
+        Update: {
+          account_iban?: string | null
+          created_at?: string
+          currency?: string | null
+          duplicate_count?: number
+          file_name?: string
+          format?: string
+          id?: string
+          imported_count?: number
+          issues?: Json | null
+          organization_id?: string | null
+          period_from?: string | null
+          period_to?: string | null
+          transaction_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_transactions: {
+        Row: {
+          account_iban: string | null
+          amount: number
+          bank_reference: string | null
+          booking_date: string
+          connection_id: string | null
+          counterparty_bic: string | null
+          counterparty_iban: string | null
+          counterparty_name: string | null
+          created_at: string
+          currency: string
+          dedupe_key: string
+          end_to_end_id: string | null
+          id: string
+          organization_id: string | null
+          reconciled_amount: number
+          reconciliation_status: string
+          remittance: string | null
+          statement_id: string | null
+          updated_at: string
+          user_id: string
+          value_date: string | null
+        }
+        Insert: {
+          account_iban?: string | null
+          amount: number
+          bank_reference?: string | null
+          booking_date: string
+          connection_id?: string | null
+          counterparty_bic?: string | null
+          counterparty_iban?: string | null
+          counterparty_name?: string | null
+          created_at?: string
+          currency?: string
+          dedupe_key: string
+          end_to_end_id?: string | null
+          id?: string
+          organization_id?: string | null
+          reconciled_amount?: number
+          reconciliation_status?: string
+          remittance?: string | null
+          statement_id?: string | null
+          updated_at?: string
+          user_id: string
+          value_date?: string | null
+        }
+        Update: {
+          account_iban?: string | null
+          amount?: number
+          bank_reference?: string | null
+          booking_date?: string
+          connection_id?: string | null
+          counterparty_bic?: string | null
+          counterparty_iban?: string | null
+          counterparty_name?: string | null
+          created_at?: string
+          currency?: string
+          dedupe_key?: string
+          end_to_end_id?: string | null
+          id?: string
+          organization_id?: string | null
+          reconciled_amount?: number
+          reconciliation_status?: string
+          remittance?: string | null
+          statement_id?: string | null
+          updated_at?: string
+          user_id?: string
+          value_date?: string | null
+        }
+        Relationships: []
+      }
+      card_receipt_tasks: {
+        Row: {
+          assignee_id: string
+          card_transaction_id: string
+          created_at: string
+          due_date: string | null
+          id: string
+          organization_id: string | null
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assignee_id: string
+          card_transaction_id: string
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          organization_id?: string | null
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assignee_id?: string
+          card_transaction_id?: string
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          organization_id?: string | null
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      card_transactions: {
+        Row: {
+          amount: number | null
+          card_holder_email: string | null
+          card_holder_id: string | null
+          card_holder_name: string | null
+          card_last4: string | null
+          created_at: string
+          currency: string | null
+          declaration_id: string | null
+          dedupe_key: string | null
+          description: string | null
+          id: string
+          last_reminded_at: string | null
+          match_method: string | null
+          match_reasons: string[] | null
+          match_score: number | null
+          matched_at: string | null
+          matched_invoice_id: string | null
+          merchant: string | null
+          merchant_category: string | null
+          organization_id: string | null
+          original_amount: number | null
+          original_currency: string | null
+          posted_date: string | null
+          raw: Json | null
+          receipt_required: boolean
+          reminder_count: number
+          source: string | null
+          suggested_invoice_id: string | null
+          txn_date: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          card_holder_email?: string | null
+          card_holder_id?: string | null
+          card_holder_name?: string | null
+          card_last4?: string | null
+          created_at?: string
+          currency?: string | null
+          declaration_id?: string | null
+          dedupe_key?: string | null
+          description?: string | null
+          id?: string
+          last_reminded_at?: string | null
+          match_method?: string | null
+          match_reasons?: string[] | null
+          match_score?: number | null
+          matched_at?: string | null
+          matched_invoice_id?: string | null
+          merchant?: string | null
+          merchant_category?: string | null
+          organization_id?: string | null
+          original_amount?: number | null
+          original_currency?: string | null
+          posted_date?: string | null
+          raw?: Json | null
+          receipt_required?: boolean
+          reminder_count?: number
+          source?: string | null
+          suggested_invoice_id?: string | null
+          txn_date?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          card_holder_email?: string | null
+          card_holder_id?: string | null
+          card_holder_name?: string | null
+          card_last4?: string | null
+          created_at?: string
+          currency?: string | null
+          declaration_id?: string | null
+          dedupe_key?: string | null
+          description?: string | null
+          id?: string
+          last_reminded_at?: string | null
+          match_method?: string | null
+          match_reasons?: string[] | null
+          match_score?: number | null
+          matched_at?: string | null
+          matched_invoice_id?: string | null
+          merchant?: string | null
+          merchant_category?: string | null
+          organization_id?: string | null
+          original_amount?: number | null
+          original_currency?: string | null
+          posted_date?: string | null
+          raw?: Json | null
+          receipt_required?: boolean
+          reminder_count?: number
+          source?: string | null
+          suggested_invoice_id?: string | null
+          txn_date?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       chat_messages: {
         Row: {
-          content: string
+          content: string
+          created_at: string
+          id: string
+          organization_id: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invoice_clarification_messages: {
+        Row: {
+          author_id: string | null
+          author_kind: string
+          body: string | null
+          clarification_id: string
+          created_at: string
+          document_name: string | null
+          document_path: string | null
+          field_values: Json | null
+          id: string
+          invoice_id: string
+          result: Json | null
+        }
+        Insert: {
+          author_id?: string | null
+          author_kind: string
+          body?: string | null
+          clarification_id: string
+          created_at?: string
+          document_name?: string | null
+          document_path?: string | null
+          field_values?: Json | null
+          id?: string
+          invoice_id: string
+          result?: Json | null
+        }
+        Update: {
+          author_id?: string | null
+          author_kind?: string
+          body?: string | null
+          clarification_id?: string
+          created_at?: string
+          document_name?: string | null
+          document_path?: string | null
+          field_values?: Json | null
+          id?: string
+          invoice_id?: string
+          result?: Json | null
+        }
+        Relationships: []
+      }
+      invoice_clarifications: {
+        Row: {
+          created_at: string
+          id: string
+          invoice_id: string
+          organization_id: string | null
+          recipient: string
+          recipient_email: string | null
+          requested_by: string | null
+          requested_fields: string[]
+          resolved_at: string | null
+          status: string
+          token_expires_at: string | null
+          token_hash: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invoice_id: string
+          organization_id?: string | null
+          recipient?: string
+          recipient_email?: string | null
+          requested_by?: string | null
+          requested_fields?: string[]
+          resolved_at?: string | null
+          status?: string
+          token_expires_at?: string | null
+          token_hash?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          organization_id?: string | null
+          recipient?: string
+          recipient_email?: string | null
+          requested_by?: string | null
+          requested_fields?: string[]
+          resolved_at?: string | null
+          status?: string
+          token_expires_at?: string | null
+          token_hash?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invoice_line_items: {
+        Row: {
+          created_at: string
+          description: string | null
+          gl_account: string | null
+          id: string
+          invoice_id: string
+          line_index: number
+          net_amount: number | null
+          organization_id: string | null
+          quantity: number | null
+          source: string
+          unit_code: string | null
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+          vat_category: string | null
+          vat_rate: number | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          gl_account?: string | null
+          id?: string
+          invoice_id: string
+          line_index?: number
+          net_amount?: number | null
+          organization_id?: string | null
+          quantity?: number | null
+          source?: string
+          unit_code?: string | null
+          unit_price?: number | null
+          updated_at?: string
+          user_id: string
+          vat_category?: string | null
+          vat_rate?: number | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          gl_account?: string | null
+          id?: string
+          invoice_id?: string
+          line_index?: number
+          net_amount?: number | null
+          organization_id?: string | null
+          quantity?: number | null
+          source?: string
+          unit_code?: string | null
+          unit_price?: number | null
+          updated_at?: string
+          user_id?: string
+          vat_category?: string | null
+          vat_rate?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_line_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          agent_processing: Json | null
+          compliance_status:
+            | Database["public"]["Enums"]["compliance_status"]
+            | null
+          created_at: string
+          currency: string | null
+          file_name: string
+          file_type: string
+          file_url: string
+          flag_reason: string | null
+          id: string
+          invoice_date: string | null
+          invoice_number: string | null
+          invoice_type: Database["public"]["Enums"]["invoice_type"] | null
+          is_duplicate: boolean | null
+          is_flagged: boolean | null
+          language: string | null
+          ocr_data: Json | null
+          organization_id: string | null
+          risk_score: Database["public"]["Enums"]["risk_level"] | null
+          tax_amount: number | null
+          total_amount: number | null
+          updated_at: string
+          user_id: string
+          vendor_name: string | null
+        
+          anomaly_flags: Json | null
+          approval: Database["public"]["Enums"]["approval_status"] | null
+          approval_confidence: number | null
+          approval_reasons: string[] | null
+          approved_by: string | null
+          category: string | null
+          co2e_estimate: number | null
+          compliance_issues: Json | null
+          direction: Database["public"]["Enums"]["direction_type"] | null
+          direction_confidence: number | null
+          doc_class: Database["public"]["Enums"]["doc_type"] | null
+          doc_class_confidence: number | null
+          document_hash: string | null
+          due_date: string | null
+          extracted_text: string | null
+          emissions_confidence: number | null
+          esg_category: string | null
+          field_confidence: Json | null
+          fraud_score: number | null
+          jurisdiction: string | null
+          needs_info_fields: string[] | null
+          payment_payload: Json | null
+          payment_qr_string: string | null
+          payment_terms: string | null
+          project_code: string | null
+          vat_amount_computed: number | null
+          vat_rate: number | null
+          seller: Json | null
+          buyer: Json | null
+          buyer_reference: string | null
+          invoice_note: string | null
+          einvoice_format: string | null
+          einvoice_xml_path: string | null
+          einvoice_validation: Json | null
+          supplier_vat_id: string | null
+          buyer_vat_id: string | null
+          supplier_vat_id_valid: boolean | null
+          buyer_vat_id_valid: boolean | null
+          vat_id_check: Json | null
+          vat_breakdown: Json | null
+          vat_treatment: string | null
+          iban: string | null
+          iban_valid: boolean | null
+          bic: string | null
+          bic_valid: boolean | null
+          account_holder: string | null
+          payment_reference: string | null
+          sort_code: string | null
+          account_number: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"] | null
+          paid_at: string | null
+          payment_terms_parsed: Json | null
+          discount_percent: number | null
+          discount_due_date: string | null
+          paid_amount: number
+          reconciliation_status: string | null
+}
+        Insert: {
+          agent_processing?: Json | null
+          compliance_status?:
+            | Database["public"]["Enums"]["compliance_status"]
+            | null
+          created_at?: string
+          currency?: string | null
+          file_name: string
+          file_type: string
+          file_url: string
+          flag_reason?: string | null
+          id?: string
+          invoice_date?: string | null
+          invoice_number?: string | null
+          invoice_type?: Database["public"]["Enums"]["invoice_type"] | null
+          is_duplicate?: boolean | null
+          is_flagged?: boolean | null
+          language?: string | null
+          ocr_data?: Json | null
+          organization_id?: string | null
+          risk_score?: Database["public"]["Enums"]["risk_level"] | null
+          tax_amount?: number | null
+          total_amount?: number | null
+          updated_at?: string
+          user_id: string
+          vendor_name?: string | null
+        
+          anomaly_flags?: Json | null
+          approval?: Database["public"]["Enums"]["approval_status"] | null
+          approval_confidence?: number | null
+          approval_reasons?: string[] | null
+          approved_by?: string | null
+          category?: string | null
+          co2e_estimate?: number | null
+          compliance_issues?: Json | null
+          direction?: Database["public"]["Enums"]["direction_type"] | null
+          direction_confidence?: number | null
+          doc_class?: Database["public"]["Enums"]["doc_type"] | null
+          doc_class_confidence?: number | null
+          document_hash?: string | null
+          due_date?: string | null
+          extracted_text?: string | null
+          emissions_confidence?: number | null
+          esg_category?: string | null
+          field_confidence?: Json | null
+          fraud_score?: number | null
+          jurisdiction?: string | null
+          needs_info_fields?: string[] | null
+          payment_payload?: Json | null
+          payment_qr_string?: string | null
+          payment_terms?: string | null
+          project_code?: string | null
+          vat_amount_computed?: number | null
+          vat_rate?: number | null
+          seller?: Json | null
+          buyer?: Json | null
+          buyer_reference?: string | null
+          invoice_note?: string | null
+          einvoice_format?: string | null
+          einvoice_xml_path?: string | null
+          einvoice_validation?: Json | null
+          supplier_vat_id?: string | null
+          buyer_vat_id?: string | null
+          supplier_vat_id_valid?: boolean | null
+          buyer_vat_id_valid?: boolean | null
+          vat_id_check?: Json | null
+          vat_breakdown?: Json | null
+          vat_treatment?: string | null
+          iban?: string | null
+          iban_valid?: boolean | null
+          bic?: string | null
+          bic_valid?: boolean | null
+          account_holder?: string | null
+          payment_reference?: string | null
+          sort_code?: string | null
+          account_number?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"] | null
+          paid_at?: string | null
+          payment_terms_parsed?: Json | null
+          discount_percent?: number | null
+          discount_due_date?: string | null
+          paid_amount?: number
+          reconciliation_status?: string | null
+}
+        Update: {
+          agent_processing?: Json | null
+          compliance_status?:
+            | Database["public"]["Enums"]["compliance_status"]
+            | null
+          created_at?: string
+          currency?: string | null
+          file_name?: string
+          file_type?: string
+          file_url?: string
+          flag_reason?: string | null
+          id?: string
+          invoice_date?: string | null
+          invoice_number?: string | null
+          invoice_type?: Database["public"]["Enums"]["invoice_type"] | null
+          is_duplicate?: boolean | null
+          is_flagged?: boolean | null
+          language?: string | null
+          ocr_data?: Json | null
+          organization_id?: string | null
+          risk_score?: Database["public"]["Enums"]["risk_level"] | null
+          tax_amount?: number | null
+          total_amount?: number | null
+          updated_at?: string
+          user_id?: string
+          vendor_name?: string | null
+        
+          anomaly_flags?: Json | null
+          approval?: Database["public"]["Enums"]["approval_status"] | null
+          approval_confidence?: number | null
+          approval_reasons?: string[] | null
+          approved_by?: string | null
+          category?: string | null
+          co2e_estimate?: number | null
+          compliance_issues?: Json | null
+          direction?: Database["public"]["Enums"]["direction_type"] | null
+          direction_confidence?: number | null
+          doc_class?: Database["public"]["Enums"]["doc_type"] | null
+          doc_class_confidence?: number | null
+          document_hash?: string | null
+          due_date?: string | null
+          extracted_text?: string | null
+          emissions_confidence?: number | null
+          esg_category?: string | null
+          field_confidence?: Json | null
+          fraud_score?: number | null
+          jurisdiction?: string | null
+          needs_info_fields?: string[] | null
+          payment_payload?: Json | null
+          payment_qr_string?: string | null
+          payment_terms?: string | null
+          project_code?: string | null
+          vat_amount_computed?: number | null
+          vat_rate?: number | null
+          seller?: Json | null
+          buyer?: Json | null
+          buyer_reference?: string | null
+          invoice_note?: string | null
+          einvoice_format?: string | null
+          einvoice_xml_path?: string | null
+          einvoice_validation?: Json | null
+          supplier_vat_id?: string | null
+          buyer_vat_id?: string | null
+          supplier_vat_id_valid?: boolean | null
+          buyer_vat_id_valid?: boolean | null
+          vat_id_check?: Json | null
+          vat_breakdown?: Json | null
+          vat_treatment?: string | null
+          iban?: string | null
+          iban_valid?: boolean | null
+          bic?: string | null
+          bic_valid?: boolean | null
+          account_holder?: string | null
+          payment_reference?: string | null
+          sort_code?: string | null
+          account_number?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"] | null
+          paid_at?: string | null
+          payment_terms_parsed?: Json | null
+          discount_percent?: number | null
+          discount_due_date?: string | null
+          paid_amount?: number
+          reconciliation_status?: string | null
+}
+        Relationships: []
+      }
+      missing_receipt_declarations: {
+        Row: {
+          amount: number
+          business_purpose: string
+          card_transaction_id: string
+          created_at: string
+          currency: string
+          declared_by: string
+          id: string
+          merchant: string | null
+          organization_id: string | null
+          reason: string
+          signature_hash: string
+          signature_name: string
+          signed_at: string
+          statement: string
+          txn_date: string | null
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          business_purpose: string
+          card_transaction_id: string
+          created_at?: string
+          currency?: string
+          declared_by: string
+          id?: string
+          merchant?: string | null
+          organization_id?: string | null
+          reason: string
+          signature_hash: string
+          signature_name: string
+          signed_at?: string
+          statement: string
+          txn_date?: string | null
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          business_purpose?: string
+          card_transaction_id?: string
+          created_at?: string
+          currency?: string
+          declared_by?: string
+          id?: string
+          merchant?: string | null
+          organization_id?: string | null
+          reason?: string
+          signature_hash?: string
+          signature_name?: string
+          signed_at?: string
+          statement?: string
+          txn_date?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      mileage_rates: {
+        Row: {
+          country: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          effective_from: string
+          id: string
+          notes: string | null
+          rate: number
+          unit: string
+          vehicle_type: string
+        }
+        Insert: {
+          country: string
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          effective_from: string
+          id?: string
+          notes?: string | null
+          rate: number
+          unit?: string
+          vehicle_type: string
+        }
+        Update: {
+          country?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          effective_from?: string
+          id?: string
+          notes?: string | null
+          rate?: number
+          unit?: string
+          vehicle_type?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          created_by: string | null
+          entity_id: string | null
+          entity_type: string | null
+          id: string
+          kind: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          created_by?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          kind: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          created_by?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          kind?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["payment_status"] | null
+          id: string
+          invoice_id: string | null
+          metadata: Json | null
+          organization_id: string | null
+          payment_id: string
+          reason: string | null
+          to_status: Database["public"]["Enums"]["payment_status"]
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["payment_status"] | null
+          id?: string
+          invoice_id?: string | null
+          metadata?: Json | null
+          organization_id?: string | null
+          payment_id: string
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["payment_status"]
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["payment_status"] | null
+          id?: string
+          invoice_id?: string | null
+          metadata?: Json | null
+          organization_id?: string | null
+          payment_id?: string
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["payment_status"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payment_runs: {
+        Row: {
+          control_sum: number
+          created_at: string
+          currency: string
+          file_path: string | null
+          id: string
+          message_id: string
+          organization_id: string | null
+          payment_count: number
+          status: string
+          summary: Json | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          control_sum?: number
+          created_at?: string
+          currency?: string
+          file_path?: string | null
+          id?: string
+          message_id: string
+          organization_id?: string | null
+          payment_count?: number
+          status?: string
+          summary?: Json | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          control_sum?: number
+          created_at?: string
+          currency?: string
+          file_path?: string | null
+          id?: string
+          message_id?: string
+          organization_id?: string | null
+          payment_count?: number
+          status?: string
+          summary?: Json | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number | null
+          created_at: string
+          creditor_bic: string | null
+          creditor_iban: string | null
+          creditor_name: string | null
+          currency: string | null
+          debtor_account_id: string | null
+          end_to_end_id: string | null
+          execution_date: string | null
+          id: string
+          invoice_id: string | null
+          organization_id: string | null
+          payload: Json | null
+          payment_run_id: string | null
+          provider: string | null
+          provider_reference: string | null
+          remittance: string | null
+          status: Database["public"]["Enums"]["payment_status"]
+          status_changed_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          creditor_bic?: string | null
+          creditor_iban?: string | null
+          creditor_name?: string | null
+          currency?: string | null
+          debtor_account_id?: string | null
+          end_to_end_id?: string | null
+          execution_date?: string | null
+          id?: string
+          invoice_id?: string | null
+          organization_id?: string | null
+          payload?: Json | null
+          payment_run_id?: string | null
+          provider?: string | null
+          provider_reference?: string | null
+          remittance?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          status_changed_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          creditor_bic?: string | null
+          creditor_iban?: string | null
+          creditor_name?: string | null
+          currency?: string | null
+          debtor_account_id?: string | null
+          end_to_end_id?: string | null
+          execution_date?: string | null
+          id?: string
+          invoice_id?: string | null
+          organization_id?: string | null
+          payload?: Json | null
+          payment_run_id?: string | null
+          provider?: string | null
+          provider_reference?: string | null
+          remittance?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          status_changed_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      per_diem_rates: {
+        Row: {
+          breakfast_deduction_pct: number
+          city: string | null
+          country: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          dinner_deduction_pct: number
+          effective_from: string
+          full_day: number
+          id: string
+          lunch_deduction_pct: number
+          min_partial_hours: number
+          notes: string | null
+          partial_day: number
+        }
+        Insert: {
+          breakfast_deduction_pct?: number
+          city?: string | null
+          country: string
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          dinner_deduction_pct?: number
+          effective_from: string
+          full_day: number
+          id?: string
+          lunch_deduction_pct?: number
+          min_partial_hours?: number
+          notes?: string | null
+          partial_day: number
+        }
+        Update: {
+          breakfast_deduction_pct?: number
+          city?: string | null
+          country?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          dinner_deduction_pct?: number
+          effective_from?: string
+          full_day?: number
+          id?: string
+          lunch_deduction_pct?: number
+          min_partial_hours?: number
+          notes?: string | null
+          partial_day?: number
+        }
+        Relationships: []
+      }
+      policies: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          jurisdiction: string | null
+          max_amount: number | null
+          name: string
+          organization_id: string | null
+          raw: Json | null
+          require_invoice_number: boolean | null
+          require_vat_id: boolean | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          jurisdiction?: string | null
+          max_amount?: number | null
+          name: string
+          organization_id?: string | null
+          raw?: Json | null
+          require_invoice_number?: boolean | null
+          require_vat_id?: boolean | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          jurisdiction?: string | null
+          max_amount?: number | null
+          name?: string
+          organization_id?: string | null
+          raw?: Json | null
+          require_invoice_number?: boolean | null
+          require_vat_id?: boolean | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          active_organization_id: string | null
+          avatar_url: string | null
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          manager_id: string | null
+          payout_bic: string | null
+          payout_iban: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          active_organization_id?: string | null
+          avatar_url?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          manager_id?: string | null
+          payout_bic?: string | null
+          payout_iban?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          active_organization_id?: string | null
+          avatar_url?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          manager_id?: string | null
+          payout_bic?: string | null
+          payout_iban?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reconciliation_allocations: {
+        Row: {
+          amount: number
           created_at: string
           id: string
-          role: string
+          invoice_amount: number
+          invoice_id: string
+          match_id: string
+          organization_id: string | null
+          transaction_id: string
           user_id: string
         }
         Insert: {
-          content: string
+          amount: number
           created_at?: string
           id?: string
-          role: string
+          invoice_amount: number
+          invoice_id: string
+          match_id: string
+          organization_id?: string | null
+          transaction_id: string
           user_id: string
         }
         Update: {
-          content?: string
+          amount?: number
           created_at?: string
           id?: string
-          role?: string
+          invoice_amount?: number
+          invoice_id?: string
+          match_id?: string
+          organization_id?: string | null
+          transaction_id?: string
           user_id?: string
         }
         Relationships: []
       }
-      invoices: {
+      reconciliation_matches: {
         Row: {
-          agent_processing: Json | null
-          compliance_status:
-            | Database["public"]["Enums"]["compliance_status"]
-            | null
+          auto: boolean
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          id: string
+          kind: string
+          organization_id: string | null
+          reasons: string[] | null
+          score: number
+          signals: Json | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto?: boolean
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          kind: string
+          organization_id?: string | null
+          reasons?: string[] | null
+          score?: number
+          signals?: Json | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto?: boolean
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          kind?: string
+          organization_id?: string | null
+          reasons?: string[] | null
+          score?: number
+          signals?: Json | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reimbursement_items: {
+        Row: {
+          amount: number
+          converted_amount: number | null
+          created_at: string
+          currency: string
+          description: string | null
+          details: Json | null
+          expense_date: string | null
+          fx_rate: number | null
+          id: string
+          invoice_id: string | null
+          item_type: string
+          organization_id: string | null
+          rate_id: string | null
+          reimbursement_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          converted_amount?: number | null
+          created_at?: string
+          currency?: string
+          description?: string | null
+          details?: Json | null
+          expense_date?: string | null
+          fx_rate?: number | null
+          id?: string
+          invoice_id?: string | null
+          item_type?: string
+          organization_id?: string | null
+          rate_id?: string | null
+          reimbursement_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          converted_amount?: number | null
+          created_at?: string
+          currency?: string
+          description?: string | null
+          details?: Json | null
+          expense_date?: string | null
+          fx_rate?: number | null
+          id?: string
+          invoice_id?: string | null
+          item_type?: string
+          organization_id?: string | null
+          rate_id?: string | null
+          reimbursement_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reimbursements: {
+        Row: {
+          amount: number | null
+          approver_id: string | null
           created_at: string
           currency: string | null
-          file_name: string
-          file_type: string
-          file_url: string
-          flag_reason: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          exported_at: string | null
           id: string
-          invoice_date: string | null
-          invoice_number: string | null
-          invoice_type: Database["public"]["Enums"]["invoice_type"] | null
-          is_duplicate: boolean | null
-          is_flagged: boolean | null
-          language: string | null
-          ocr_data: Json | null
-          risk_score: Database["public"]["Enums"]["risk_level"] | null
-          tax_amount: number | null
-          total_amount: number | null
+          invoice_id: string | null
+          notes: string | null
+          organization_id: string | null
+          paid_at: string | null
+          payout_run_id: string | null
+          status: Database["public"]["Enums"]["approval_status"]
+          submitted_at: string | null
+          title: string | null
           updated_at: string
           user_id: string
-          vendor_name: string | null
-        
-          anomaly_flags: Json | null
-          approval: Database["public"]["Enums"]["approval_status"] | null
-          approval_confidence: number | null
-          approval_reasons: string[] | null
-          category: string | null
-          co2e_estimate: number | null
-          compliance_issues: Json | null
-          direction: Database["public"]["Enums"]["direction_type"] | null
-          direction_confidence: number | null
-          doc_class: Database["public"]["Enums"]["doc_type"] | null
-          doc_class_confidence: number | null
-          document_hash: string | null
-          due_date: string | null
-          emissions_confidence: number | null
-          esg_category: string | null
-          field_confidence: Json | null
-          fraud_score: number | null
-          jurisdiction: string | null
-          needs_info_fields: string[] | null
-          payment_payload: Json | null
-          payment_qr_string: string | null
-          payment_terms: string | null
-          project_code: string | null
-          vat_amount_computed: number | null
-          vat_rate: number | null
-}
+        }
         Insert: {
-          agent_processing?: Json | null
-          compliance_status?:
-            | Database["public"]["Enums"]["compliance_status"]
-            | null
+          amount?: number | null
+          approver_id?: string | null
           created_at?: string
           currency?: string | null
-          file_name: string
-          file_type: string
-          file_url: string
-          flag_reason?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          exported_at?: string | null
           id?: string
-          invoice_date?: string | null
-          invoice_number?: string | null
-          invoice_type?: Database["public"]["Enums"]["invoice_type"] | null
-          is_duplicate?: boolean | null
-          is_flagged?: boolean | null
-          language?: string | null
-          ocr_data?: Json | null
-          risk_score?: Database["public"]["Enums"]["risk_level"] | null
-          tax_amount?: number | null
-          total_amount?: number | null
+          invoice_id?: string | null
+          notes?: string | null
+          organization_id?: string | null
+          paid_at?: string | null
+          payout_run_id?: string | null
+          status?: Database["public"]["Enums"]["approval_status"]
+          submitted_at?: string | null
+          title?: string | null
           updated_at?: string
           user_id: string
-          vendor_name?: string | null
-        
-          anomaly_flags?: Json | null
-          approval?: Database["public"]["Enums"]["approval_status"] | null
-          approval_confidence?: number | null
-          approval_reasons?: string[] | null
-          category?: string | null
-          co2e_estimate?: number | null
-          compliance_issues?: Json | null
-          direction?: Database["public"]["Enums"]["direction_type"] | null
-          direction_confidence?: number | null
-          doc_class?: Database["public"]["Enums"]["doc_type"] | null
-          doc_class_confidence?: number | null
-          document_hash?: string | null
-          due_date?: string | null
-          emissions_confidence?: number | null
-          esg_category?: string | null
-          field_confidence?: Json | null
-          fraud_score?: number | null
-          jurisdiction?: string | null
-          needs_info_fields?: string[] | null
-          payment_payload?: Json | null
-          payment_qr_string?: string | null
-          payment_terms?: string | null
-          project_code?: string | null
-          vat_amount_computed?: number | null
-          vat_rate?: number | null
-}
+        }
         Update: {
-          agent_processing?: Json | null
-          compliance_status?:
-            | Database["public"]["Enums"]["compliance_status"]
-            | null
+          amount?: number | null
+          approver_id?: string | null
           created_at?: string
           currency?: string | null
-          file_name?: string
-          file_type?: string
-          file_url?: string
-          flag_reason?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          exported_at?: string | null
           id?: string
-          invoice_date?: string | null
-          invoice_number?: string | null
-          invoice_type?: Database["public"]["Enums"]["invoice_type"] | null
-          is_duplicate?: boolean | null
-          is_flagged?: boolean | null
-          language?: string | null
-          ocr_data?: Json | null
-          risk_score?: Database["public"]["Enums"]["risk_level"] | null
-          tax_amount?: number | null
-          total_amount?: number | null
+          invoice_id?: string | null
+          notes?: string | null
+          organization_id?: string | null
+          paid_at?: string | null
+          payout_run_id?: string | null
+          status?: Database["public"]["Enums"]["approval_status"]
+          submitted_at?: string | null
+          title?: string | null
           updated_at?: string
           user_id?: string
-          vendor_name?: string | null
-        
-          anomaly_flags?: Json | null
-          approval?: Database["public"]["Enums"]["approval_status"] | null
-          approval_confidence?: number | null
-          approval_reasons?: string[] | null
-          category?: string | null
-          co2e_estimate?: number | null
-          compliance_issues?: Json | null
-          direction?: Database["public"]["Enums"]["direction_type"] | null
-          direction_confidence?: number | null
-          doc_class?: Database["public"]["Enums"]["doc_type"] | null
-          doc_class_confidence?: number | null
-          document_hash?: string | null
-          due_date?: string | null
-          emissions_confidence?: number | null
-          esg_category?: string | null
-          field_confidence?: Json | null
-          fraud_score?: number | null
-          jurisdiction?: string | null
-          needs_info_fields?: string[] | null
-          payment_payload?: Json | null
-          payment_qr_string?: string | null
-          payment_terms?: string | null
-          project_code?: string | null
-          vat_amount_computed?: number | null
-          vat_rate?: number | null
-}
+        }
         Relationships: []
       }
-      profiles: {
+      sod_rules: {
         Row: {
-          avatar_url: string | null
+          block_approver_release: boolean
+          block_self_approval: boolean
           created_at: string
-          email: string | null
-          full_name: string | null
+          created_by: string | null
           id: string
+          is_active: boolean
+          max_amount: number | null
+          min_amount: number
+          name: string
+          organization_id: string | null
           updated_at: string
-          user_id: string
         }
         Insert: {
-          avatar_url?: string | null
+          block_approver_release?: boolean
+          block_self_approval?: boolean
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          created_by?: string | null
           id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number
+          name: string
+          organization_id?: string | null
           updated_at?: string
-          user_id: string
         }
         Update: {
-          avatar_url?: string | null
+          block_approver_release?: boolean
+          block_self_approval?: boolean
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          created_by?: string | null
           id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number
+          name?: string
+          organization_id?: string | null
           updated_at?: string
+        }
+        Relationships: []
+      }
+      sod_violations: {
+        Row: {
+          action: string
+          amount_eur: number | null
+          created_at: string
+          id: string
+          invoice_id: string | null
+          kind: string
+          message: string
+          rule_id: string | null
+          user_id: string
+        }
+        Insert: {
+          action: string
+          amount_eur?: number | null
+          created_at?: string
+          id?: string
+          invoice_id?: string | null
+          kind: string
+          message: string
+          rule_id?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: string
+          amount_eur?: number | null
+          created_at?: string
+          id?: string
+          invoice_id?: string | null
+          kind?: string
+          message?: string
+          rule_id?: string | null
           user_id?: string
         }
         Relationships: []
@@ -253,6 +1866,33 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      active_organization_id: {
+        Args: {
+          _user_id: string
+        }
+        Returns: string
+      }
+      approval_chain_open: {
+        Args: {
+          _invoice_id: string
+        }
+        Returns: boolean
+      }
+      create_personal_organization: {
+        Args: {
+          _email: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      has_org_role: {
+        Args: {
+          _organization_id: string
+          _roles: string[]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -260,6 +1900,27 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_org_member: {
+        Args: {
+          _organization_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_invoice_approver: {
+        Args: {
+          _invoice_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      sod_blocks_self_approval_for_amount: {
+        Args: {
+          _amount: number
+          _organization_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -269,7 +1930,14 @@ export type Database = {
       doc_type: "invoice" | "receipt" | "offer" | "prescription" | "sick_note" | "other"
       direction_type: "incoming" | "outgoing" | "unknown"
       approval_status: "pass" | "fail" | "needs_info" | "pending"
-      payment_status: "draft" | "queued" | "processing" | "paid" | "failed" | "canceled"
+      payment_status:
+        | "draft"
+        | "queued"
+        | "processing"
+        | "paid"
+        | "failed"
+        | "canceled"
+        | "pending"
     }
     CompositeTypes: {
       [_ in never]: never
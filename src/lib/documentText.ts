@@ -0,0 +1,49 @@
+const PDFJS_SRC = "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js";
+const PDFJS_WORKER_SRC = "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js";
+
+/** Loads the same PDF.js build UploadInvoice uses, once per page load. */
+async function loadPdfJs() {
+  if (window.pdfjsLib) return window.pdfjsLib;
+  const script = document.createElement("script");
+  script.src = PDFJS_SRC;
+  document.head.appendChild(script);
+  await new Promise<void>((resolve, reject) => {
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error("Failed to load PDF.js"));
+    setTimeout(() => reject(new Error("PDF.js load timeout")), 15000);
+  });
+  window.pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
+  return window.pdfjsLib;
+}
+
+/**
+ * A corrected document as the invoice-clarifications function takes it: the file as base64 plus whatever
+ * text the browser can read without OCR (e-invoice XML, the text layer of the first PDF pages).
+ * Scans and photos come back without text; the answer's field values still apply.
+ */
+export async function readClarificationDocument(f: File) {
+  const buf = await f.arrayBuffer();
+  let binary = "";
+  const bytes = new Uint8Array(buf);
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+
+  let text = "";
+  if (/\.xml$/i.test(f.name) || f.type.includes("xml")) {
+    text = new TextDecoder("utf-8").decode(buf);
+  } else if (f.type === "application/pdf") {
+    try {
+      const pdf = await (await loadPdfJs()).getDocument({ data: buf.slice(0) }).promise;
+      for (let i = 1; i <= Math.min(pdf.numPages, 3); i++) {
+        const content = await (await pdf.getPage(i)).getTextContent();
+        text += content.items.map((item) => item.str).join(" ") + "\n";
+      }
+    } catch (e) {
+      console.warn("PDF text extraction skipped:", e);
+    }
+  }
+
+  // A PDF with (almost) no text layer is a scan; a few stray characters would only mislead the pipeline
+  if (f.type === "application/pdf" && text.trim().length < 50) text = "";
+
+  return { fileName: f.name, fileType: f.type || "application/octet-stream", dataBase64: btoa(binary), text: text.trim() };
+}
@@ -0,0 +1,49 @@
+import { createContext, useContext } from 'react';
+
+export type OrgRole = 'owner' | 'accountant' | 'approver' | 'submitter' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrgRole;
+}
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  owner: 'Owner',
+  accountant: 'Accountant',
+  approver: 'Approver',
+  submitter: 'Submitter',
+  viewer: 'Viewer',
+};
+
+// What each organization role may do in the app; the RLS policies enforce the same split
+export const CAPABILITIES = {
+  submit: ['owner', 'accountant', 'submitter'],
+  viewBooks: ['owner', 'accountant', 'approver', 'viewer'],
+  keepBooks: ['owner', 'accountant'],
+  approve: ['owner', 'approver'],
+  manage: ['owner'],
+} satisfies Record<string, OrgRole[]>;
+
+export type OrgCapability = keyof typeof CAPABILITIES;
+
+export interface OrganizationContextType {
+  organizations: Organization[];
+  organization: Organization | null;
+  loading: boolean;
+  can: (capability: OrgCapability) => boolean;
+  switchOrganization: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// Provided by OrganizationProvider (src/components/OrganizationProvider.tsx)
+export const OrganizationContext = createContext<OrganizationContextType>({
+  organizations: [],
+  organization: null,
+  loading: true,
+  can: () => false,
+  switchOrganization: async () => {},
+  refresh: async () => {},
+});
+
+export const useOrganization = () => useContext(OrganizationContext);
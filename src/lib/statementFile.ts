@@ -0,0 +1,9 @@
+/** Statement exports are UTF-8 or, from older German banking software, Windows-1252. */
+export async function readStatementFile(f: File): Promise<string> {
+  const buf = await f.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buf);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buf);
+  }
+}
@@ -3,6 +3,9 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Table,
   TableBody,
@@ -12,8 +15,10 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
+import { useOrganization } from '@/lib/organization';
 import { useToast } from '@/hooks/use-toast';
 import {
   Users,
@@ -24,6 +29,8 @@ import {
   CheckCircle2,
   Loader2,
   Shield,
+  Plus,
+  Scale,
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -33,6 +40,7 @@ interface UserProfile {
   email: string;
   full_name: string;
   created_at: string;
+  manager_id: string | null;
 }
 
 interface Invoice {
@@ -46,12 +54,49 @@ interface Invoice {
   profiles?: { email: string; full_name: string } | null;
 }
 
+interface SodRule {
+  id: string;
+  name: string;
+  min_amount: number;
+  max_amount: number | null;
+  block_self_approval: boolean;
+  block_approver_release: boolean;
+  is_active: boolean;
+}
+
+interface SodViolation {
+  id: string;
+  user_id: string;
+  invoice_id: string | null;
+  rule_id: string | null;
+  kind: 'self_approval' | 'approver_release';
+  action: string;
+  amount_eur: number | null;
+  message: string;
+  created_at: string;
+}
+
+const SOD_KINDS: Record<SodViolation['kind'], string> = {
+  self_approval: 'Uploader approved',
+  approver_release: 'Approver released payment',
+};
+
 export default function Admin() {
   const { isAdmin } = useAuth();
+  const { organization } = useOrganization();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [sodRules, setSodRules] = useState<SodRule[]>([]);
+  const [violations, setViolations] = useState<SodViolation[]>([]);
+  const [newRule, setNewRule] = useState({
+    name: '',
+    min_amount: '',
+    max_amount: '',
+    block_self_approval: true,
+    block_approver_release: true,
+  });
   const [stats, setStats] = useState({
     totalUsers: 0,
     totalInvoices: 0,
@@ -62,7 +107,8 @@ export default function Admin() {
     if (isAdmin) {
       fetchData();
     }
-  }, [isAdmin]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAdmin, organization?.id]);
 
   const fetchData = async () => {
     try {
@@ -83,8 +129,25 @@ export default function Admin() {
         .select('*', { count: 'exact', head: true })
         .eq('is_flagged', true);
 
+      // Segregation-of-duties rules of the active organization and the attempts they blocked
+      const { data: rulesData } = organization
+        ? await supabase
+            .from('sod_rules')
+            .select('*')
+            .eq('organization_id', organization.id)
+            .order('min_amount')
+        : { data: [] };
+
+      const { data: violationsData } = await supabase
+        .from('sod_violations')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
       setUsers(profilesData || []);
       setInvoices(invoicesData || []);
+      setSodRules((rulesData as SodRule[]) || []);
+      setViolations((violationsData as SodViolation[]) || []);
       setStats({
         totalUsers: profilesData?.length || 0,
         totalInvoices: invoicesData?.length || 0,
@@ -108,6 +171,20 @@ export default function Admin() {
     }
   };
 
+  const handleSetManager = async (profile: UserProfile, managerId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ manager_id: managerId })
+        .eq('id', profile.id);
+      if (error) throw error;
+      setUsers(users.map((u) => (u.id === profile.id ? { ...u, manager_id: managerId } : u)));
+      toast({ title: 'Manager updated' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Update failed', description: (error as Error).message });
+    }
+  };
+
   const handleToggleFlag = async (id: string, currentFlag: boolean) => {
     try {
       const { error } = await supabase
@@ -124,6 +201,63 @@ export default function Admin() {
     }
   };
 
+  const handleAddRule = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sod_rules')
+        .insert({
+          organization_id: organization?.id,
+          name: newRule.name.trim(),
+          min_amount: Number(newRule.min_amount || 0),
+          max_amount: newRule.max_amount ? Number(newRule.max_amount) : null,
+          block_self_approval: newRule.block_self_approval,
+          block_approver_release: newRule.block_approver_release,
+        })
+        .select('*')
+        .single();
+      if (error) throw error;
+      setSodRules([...sodRules, data as SodRule].sort((a, b) => a.min_amount - b.min_amount));
+      setNewRule({ name: '', min_amount: '', max_amount: '', block_self_approval: true, block_approver_release: true });
+      toast({ title: 'Rule added' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could not add rule', description: (error as Error).message });
+    }
+  };
+
+  const handleUpdateRule = async (rule: SodRule, patch: Partial<SodRule>) => {
+    try {
+      const { error } = await supabase.from('sod_rules').update(patch).eq('id', rule.id);
+      if (error) throw error;
+      setSodRules(sodRules.map((r) => (r.id === rule.id ? { ...r, ...patch } : r)));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Update failed', description: (error as Error).message });
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      const { error } = await supabase.from('sod_rules').delete().eq('id', id);
+      if (error) throw error;
+      setSodRules(sodRules.filter((r) => r.id !== id));
+      toast({ title: 'Rule deleted' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Delete failed', description: (error as Error).message });
+    }
+  };
+
+  const userLabel = (id: string) => {
+    const u = users.find((x) => x.user_id === id);
+    return u?.full_name || u?.email || id.slice(0, 8);
+  };
+
+  const invoiceLabel = (id: string | null) => {
+    const inv = id ? invoices.find((x) => x.id === id) : null;
+    return inv ? inv.vendor_name || inv.file_name : id ? id.slice(0, 8) : '-';
+  };
+
+  const band = (min: number, max: number | null) =>
+    max === null ? `from €${Number(min).toLocaleString()}` : `€${Number(min).toLocaleString()} – €${Number(max).toLocaleString()}`;
+
   if (!isAdmin) {
     return (
       <DashboardLayout>
@@ -206,6 +340,14 @@ export default function Admin() {
           <TabsList>
             <TabsTrigger value="invoices">All Invoices</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="sod">
+              Segregation of Duties
+              {violations.length > 0 && (
+                <Badge variant="destructive" className="ml-2">
+                  {violations.length}
+                </Badge>
+              )}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="invoices" className="mt-6">
@@ -306,6 +448,7 @@ export default function Admin() {
                       <TableRow>
                         <TableHead>Name</TableHead>
                         <TableHead>Email</TableHead>
+                        <TableHead>Manager</TableHead>
                         <TableHead>Joined</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -316,6 +459,26 @@ export default function Admin() {
                             {user.full_name || 'No name'}
                           </TableCell>
                           <TableCell>{user.email}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={user.manager_id || 'none'}
+                              onValueChange={(v) => handleSetManager(user, v === 'none' ? null : v)}
+                            >
+                              <SelectTrigger className="h-8 w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No manager (admins approve)</SelectItem>
+                                {users
+                                  .filter((m) => m.user_id !== user.user_id)
+                                  .map((m) => (
+                                    <SelectItem key={m.user_id} value={m.user_id}>
+                                      {m.full_name || m.email}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
                           <TableCell>
                             {format(new Date(user.created_at), 'MMM d, yyyy')}
                           </TableCell>
@@ -327,6 +490,161 @@ export default function Admin() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="sod" className="mt-6 space-y-6">
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle>Rules per amount band{organization ? ` — ${organization.name}` : ''}</CardTitle>
+                <CardDescription>
+                  Uploaders cannot approve their own invoices and approvers cannot release the payment. Amount bands (EUR)
+                  without an active rule keep both checks; a rule can relax them for its band.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {sodRules.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Band</TableHead>
+                          <TableHead>Block self-approval</TableHead>
+                          <TableHead>Block approver release</TableHead>
+                          <TableHead>Active</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sodRules.map((rule) => (
+                          <TableRow key={rule.id}>
+                            <TableCell className="font-medium">{rule.name}</TableCell>
+                            <TableCell>{band(rule.min_amount, rule.max_amount)}</TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={rule.block_self_approval}
+                                onCheckedChange={(v) => handleUpdateRule(rule, { block_self_approval: v })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={rule.block_approver_release}
+                                onCheckedChange={(v) => handleUpdateRule(rule, { block_approver_release: v })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Switch checked={rule.is_active} onCheckedChange={(v) => handleUpdateRule(rule, { is_active: v })} />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="icon" onClick={() => handleDeleteRule(rule.id)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1 flex-1 min-w-40">
+                    <Label>Name</Label>
+                    <Input
+                      value={newRule.name}
+                      onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                      placeholder="e.g. Petty cash"
+                    />
+                  </div>
+                  <div className="space-y-1 w-28">
+                    <Label>From (EUR)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={newRule.min_amount}
+                      onChange={(e) => setNewRule({ ...newRule, min_amount: e.target.value })}
+                      placeholder="0"
+                    />
+                  </div>
+                  <div className="space-y-1 w-28">
+                    <Label>Below (EUR)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={newRule.max_amount}
+                      onChange={(e) => setNewRule({ ...newRule, max_amount: e.target.value })}
+                      placeholder="no limit"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 h-10">
+                    <Switch
+                      checked={newRule.block_self_approval}
+                      onCheckedChange={(v) => setNewRule({ ...newRule, block_self_approval: v })}
+                    />
+                    <Label>Block self-approval</Label>
+                  </div>
+                  <div className="flex items-center gap-2 h-10">
+                    <Switch
+                      checked={newRule.block_approver_release}
+                      onCheckedChange={(v) => setNewRule({ ...newRule, block_approver_release: v })}
+                    />
+                    <Label>Block approver release</Label>
+                  </div>
+                  <Button onClick={handleAddRule} disabled={!organization || !newRule.name.trim()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add rule
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle>Blocked attempts</CardTitle>
+                <CardDescription>Approvals and payment releases refused by the rules above</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {violations.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-10 text-muted-foreground">
+                    <Scale className="h-8 w-8 mb-2" />
+                    <p>No violations recorded</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>When</TableHead>
+                          <TableHead>User</TableHead>
+                          <TableHead>Invoice</TableHead>
+                          <TableHead>Violation</TableHead>
+                          <TableHead>Via</TableHead>
+                          <TableHead>Amount</TableHead>
+                          <TableHead>Rule</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {violations.map((v) => (
+                          <TableRow key={v.id}>
+                            <TableCell>{format(new Date(v.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                            <TableCell>{userLabel(v.user_id)}</TableCell>
+                            <TableCell>{invoiceLabel(v.invoice_id)}</TableCell>
+                            <TableCell>
+                              <Badge className="bg-warning/10 text-warning" title={v.message}>
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                {SOD_KINDS[v.kind] || v.kind}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">{v.action}</TableCell>
+                            <TableCell>{v.amount_eur != null ? `€${Number(v.amount_eur).toLocaleString()}` : '-'}</TableCell>
+                            <TableCell>{v.rule_id ? sodRules.find((r) => r.id === v.rule_id)?.name || 'Deleted rule' : 'Default'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </DashboardLayout>
@@ -0,0 +1,756 @@
+import { useEffect, useMemo, useState } from "react";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useOrganization } from "@/lib/organization";
+import { useToast } from "@/hooks/use-toast";
+import { AlarmClock, Check, ExternalLink, HelpCircle, Loader2, Plane, Plus, RefreshCw, Trash2, X } from "lucide-react";
+
+type ApprovalStep = {
+  id: string;
+  invoice_id: string;
+  user_id: string;
+  chain_id: string | null;
+  cycle: number;
+  step_index: number;
+  step_name: string | null;
+  approver_id: string | null;
+  status: "pass" | "fail" | "needs_info" | "pending";
+  reasons: string[] | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  due_at: string | null;
+  original_approver_id: string | null;
+  escalation_level: number;
+  created_at: string;
+};
+
+type Invoice = {
+  id: string;
+  user_id: string;
+  vendor_name: string | null;
+  invoice_number: string | null;
+  invoice_date: string | null;
+  total_amount: number | null;
+  total_eur: number | null;
+  currency: string | null;
+  file_url: string | null;
+  approval: string | null;
+  approval_reasons: string[] | null;
+};
+
+type Chain = {
+  id: string;
+  name: string;
+  description: string | null;
+  min_amount: number;
+  max_amount: number | null;
+  is_active: boolean;
+};
+
+type ChainStep = {
+  id: string;
+  chain_id: string;
+  position: number;
+  name: string;
+  approver_type: "manager" | "user" | "admin";
+  approver_id: string | null;
+  min_amount: number | null;
+  sla_hours: number | null;
+  escalate_to: string | null;
+};
+
+type Delegation = {
+  id: string;
+  user_id: string;
+  delegate_id: string;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  revoked_at: string | null;
+};
+
+type StepForm = {
+  name: string;
+  approver_type: ChainStep["approver_type"];
+  approver_id: string;
+  min_amount: string;
+  sla_hours: string;
+  escalate_to: string;
+};
+
+const EMPTY_STEP: StepForm = { name: "", approver_type: "admin", approver_id: "", min_amount: "", sla_hours: "", escalate_to: "" };
+
+type Profile = { user_id: string; full_name: string | null; email: string | null };
+
+const STATUS_BADGES: Record<ApprovalStep["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  pass: "default",
+  fail: "destructive",
+  needs_info: "secondary",
+};
+
+const APPROVER_TYPES: Record<ChainStep["approver_type"], string> = {
+  manager: "Uploader's manager",
+  user: "Specific user",
+  admin: "Any admin",
+};
+
+// Mirrors activeStep() in supabase/functions/_shared/approvalChains.ts
+const activeStep = (rows: ApprovalStep[]) => {
+  const cycle = Math.max(0, ...rows.map((r) => r.cycle));
+  const latest = rows.filter((r) => r.cycle === cycle).sort((a, b) => a.step_index - b.step_index);
+  if (latest.some((r) => r.status === "fail" || r.status === "needs_info")) return null;
+  return latest.find((r) => r.status === "pending") ?? null;
+};
+
+const money = (currency: string | null, amount: number | null) =>
+  `${currency || ""} ${Number(amount ?? 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}`.trim();
+
+export default function Approvals() {
+  const { user, isAdmin } = useAuth();
+  const { organization, can } = useOrganization();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [steps, setSteps] = useState<ApprovalStep[]>([]);
+  const [invoices, setInvoices] = useState<Record<string, Invoice>>({});
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [chains, setChains] = useState<Chain[]>([]);
+  const [chainSteps, setChainSteps] = useState<ChainStep[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [newChain, setNewChain] = useState({ name: "", min_amount: "", max_amount: "" });
+  const [newStep, setNewStep] = useState<Record<string, StepForm>>({});
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [away, setAway] = useState({ delegate: "", starts_on: "", ends_on: "", reason: "" });
+
+  const load = async () => {
+    if (!user || !organization) return;
+    setLoading(true);
+
+    // RLS returns the chains of invoices the user owns, takes part in or (admins, organization members) all of them
+    const a = await supabase
+      .from("approvals")
+      .select("*")
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: false })
+      .limit(1000);
+    const rows = (a.data as ApprovalStep[]) || [];
+    const invoiceIds = [...new Set(rows.map((r) => r.invoice_id))];
+    const inv = invoiceIds.length
+      ? await supabase
+          .from("invoices")
+          .select("id,user_id,vendor_name,invoice_number,invoice_date,total_amount,total_eur,currency,file_url,approval,approval_reasons")
+          .in("id", invoiceIds)
+      : { data: [], error: null };
+    // Chains, delegations and the people to pick as approvers or substitutes are the organization's
+    const c = await supabase.from("approval_chains").select("*").eq("organization_id", organization.id).order("min_amount");
+    const chainIds = ((c.data as Chain[]) || []).map((x) => x.id);
+    const cs = chainIds.length
+      ? await supabase.from("approval_chain_steps").select("*").in("chain_id", chainIds).order("position")
+      : { data: [], error: null };
+    const m = await supabase.functions.invoke("organizations", { body: { action: "members", organizationId: organization.id } });
+    const d = await supabase
+      .from("approval_delegations")
+      .select("*")
+      .eq("organization_id", organization.id)
+      .order("starts_on", { ascending: false })
+      .limit(200);
+
+    if (a.error) toast({ variant: "destructive", title: "Failed to load approvals", description: a.error.message });
+    if (inv.error) toast({ variant: "destructive", title: "Failed to load invoices", description: inv.error.message });
+
+    setSteps(rows);
+    setInvoices(Object.fromEntries(((inv.data as Invoice[]) || []).map((x) => [x.id, x])));
+    setChains((c.data as Chain[]) || []);
+    setChainSteps((cs.data as ChainStep[]) || []);
+    setProfiles(Object.fromEntries((((m.data as { members?: Profile[] } | null)?.members) || []).map((x) => [x.user_id, x])));
+    setDelegations((d.data as Delegation[]) || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, organization?.id]);
+
+  const stepsByInvoice = useMemo(() => {
+    const out: Record<string, ApprovalStep[]> = {};
+    for (const s of steps) (out[s.invoice_id] ||= []).push(s);
+    return out;
+  }, [steps]);
+
+  const waiting = useMemo(
+    () =>
+      Object.values(stepsByInvoice)
+        .map((rows) => activeStep(rows))
+        .filter(
+          (s): s is ApprovalStep =>
+            !!s &&
+            (s.approver_id
+              ? s.approver_id === user?.id || s.original_approver_id === user?.id
+              : isAdmin || (can("approve") && s.user_id !== user?.id)),
+        )
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [stepsByInvoice, user, isAdmin, can],
+  );
+  const decided = steps.filter((s) => s.decided_by === user?.id).sort((a, b) => String(b.decided_at).localeCompare(String(a.decided_at)));
+
+  const person = (id: string | null) =>
+    !id ? "Any admin" : id === user?.id ? "You" : profiles[id]?.full_name || profiles[id]?.email || id.slice(0, 8);
+
+  const invoke = async (fn: string, body: Record<string, unknown>, failTitle: string) => {
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+    const { data, error } = await supabase.functions.invoke(fn, {
+      body,
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: failTitle, description: detail?.error || error.message });
+      return null;
+    }
+    return data;
+  };
+
+  const decide = async (step: ApprovalStep, status: "pass" | "fail" | "needs_info") => {
+    setBusy(step.id);
+    const note = notes[step.id]?.trim();
+    const data = await invoke("set-approval", { invoiceId: step.invoice_id, status, reasons: note ? [note] : [] }, "Decision failed");
+    setBusy(null);
+    if (!data) return;
+    toast({ title: status === "pass" ? "Step approved" : status === "fail" ? "Invoice rejected" : "Returned for more information" });
+    setNotes((n) => ({ ...n, [step.id]: "" }));
+    await load();
+  };
+
+  const chainTimeline = (invoiceId: string, cycle: number) => (
+    <div className="flex flex-wrap items-center gap-2">
+      {(stepsByInvoice[invoiceId] || [])
+        .filter((s) => s.cycle === cycle)
+        .sort((a, b) => a.step_index - b.step_index)
+        .map((s, i) => (
+          <span key={s.id} className="flex items-center gap-2 text-sm">
+            {i > 0 && <span className="text-muted-foreground">→</span>}
+            <Badge variant={STATUS_BADGES[s.status]} title={(s.reasons || []).join("\n") || undefined}>
+              {s.step_name || `Step ${s.step_index + 1}`} · {s.status === "pending" ? person(s.approver_id) : s.status.replace("_", " ")}
+            </Badge>
+          </span>
+        ))}
+    </div>
+  );
+
+  const delegate = async () => {
+    setBusy("delegate");
+    const data = await invoke(
+      "approval-routing",
+      {
+        action: "delegate",
+        organizationId: organization?.id,
+        delegateId: away.delegate,
+        startsOn: away.starts_on,
+        endsOn: away.ends_on,
+        reason: away.reason,
+      },
+      "Could not set up the delegation",
+    );
+    setBusy(null);
+    if (!data) return;
+    toast({ title: "Delegation saved", description: data.moved ? `${data.moved} open step(s) moved to your substitute.` : undefined });
+    setAway({ delegate: "", starts_on: "", ends_on: "", reason: "" });
+    await load();
+  };
+
+  const revoke = async (d: Delegation) => {
+    setBusy(d.id);
+    const data = await invoke("approval-routing", { action: "revoke", delegationId: d.id }, "Could not revoke the delegation");
+    setBusy(null);
+    if (data) await load();
+  };
+
+  const escalateNow = async () => {
+    setBusy("escalate");
+    const data = await invoke("approval-routing", { action: "escalate" }, "Escalation failed");
+    setBusy(null);
+    if (!data) return;
+    toast({ title: "Escalation run", description: `${data.escalated || 0} overdue step(s) escalated.` });
+    await load();
+  };
+
+  const stepFlags = (s: ApprovalStep) => {
+    const overdue = !!s.due_at && s.due_at < new Date().toISOString();
+    return (
+      <>
+        {s.due_at && (
+          <Badge variant={overdue ? "destructive" : "outline"}>
+            <AlarmClock className="h-3 w-3 mr-1" />
+            {overdue ? "overdue since" : "due"} {s.due_at.slice(0, 16).replace("T", " ")}
+          </Badge>
+        )}
+        {s.original_approver_id && (
+          <Badge variant="secondary">
+            {s.escalation_level > 0 ? "escalated" : "delegated"} from {person(s.original_approver_id)}
+          </Badge>
+        )}
+      </>
+    );
+  };
+
+  const failed = (title: string, message: string) => toast({ variant: "destructive", title, description: message });
+
+  const createChain = async () => {
+    if (!user || !newChain.name.trim()) return;
+    if (!organization) return;
+    const { error } = await supabase.from("approval_chains").insert({
+      organization_id: organization.id,
+      name: newChain.name.trim(),
+      min_amount: Number(newChain.min_amount) || 0,
+      max_amount: newChain.max_amount ? Number(newChain.max_amount) : null,
+      created_by: user.id,
+    });
+    if (error) return failed("Could not create chain", error.message);
+    setNewChain({ name: "", min_amount: "", max_amount: "" });
+    await load();
+  };
+
+  const toggleChain = async (chain: Chain, active: boolean) => {
+    const { error } = await supabase.from("approval_chains").update({ is_active: active }).eq("id", chain.id);
+    if (error) return failed("Update failed", error.message);
+    await load();
+  };
+
+  const deleteChain = async (chain: Chain) => {
+    const { error } = await supabase.from("approval_chains").delete().eq("id", chain.id);
+    if (error) return failed("Delete failed", error.message);
+    await load();
+  };
+
+  const addStep = async (chain: Chain) => {
+    const form = newStep[chain.id];
+    if (!form?.name.trim()) return;
+    const existing = chainSteps.filter((s) => s.chain_id === chain.id);
+    const { error } = await supabase.from("approval_chain_steps").insert({
+      chain_id: chain.id,
+      position: existing.length ? Math.max(...existing.map((s) => s.position)) + 1 : 0,
+      name: form.name.trim(),
+      approver_type: form.approver_type,
+      approver_id: form.approver_type === "user" ? form.approver_id || null : null,
+      min_amount: form.min_amount ? Number(form.min_amount) : null,
+      sla_hours: form.sla_hours ? Number(form.sla_hours) : null,
+      escalate_to: form.escalate_to || null,
+    });
+    if (error) return failed("Could not add step", error.message);
+    setNewStep((s) => ({ ...s, [chain.id]: EMPTY_STEP }));
+    await load();
+  };
+
+  const deleteStep = async (step: ChainStep) => {
+    const { error } = await supabase.from("approval_chain_steps").delete().eq("id", step.id);
+    if (error) return failed("Delete failed", error.message);
+    await load();
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">My Approvals</h1>
+            <p className="text-muted-foreground mt-1">Invoices waiting for your step in their approval chain.</p>
+          </div>
+          <Button variant="outline" onClick={load}>
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </Button>
+        </div>
+
+        <Tabs defaultValue="waiting">
+          <TabsList>
+            <TabsTrigger value="waiting">Waiting for me ({waiting.length})</TabsTrigger>
+            <TabsTrigger value="decided">Decided by me</TabsTrigger>
+            <TabsTrigger value="away">Out of office</TabsTrigger>
+            {(isAdmin || can("manage")) && <TabsTrigger value="chains">Approval chains</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="waiting" className="mt-6 space-y-4">
+            {loading ? (
+              <div className="flex items-center justify-center py-10">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : waiting.length === 0 ? (
+              <div className="text-muted-foreground">Nothing is waiting for your approval.</div>
+            ) : (
+              waiting.map((step) => {
+                const inv = invoices[step.invoice_id];
+                return (
+                  <Card key={step.id} className="glass-card">
+                    <CardContent className="p-4 space-y-4">
+                      <div className="flex flex-wrap items-start justify-between gap-4">
+                        <div>
+                          <h3 className="font-semibold">
+                            {inv?.vendor_name || "Unknown vendor"}
+                            {inv?.invoice_number ? ` • ${inv.invoice_number}` : ""}
+                          </h3>
+                          <p className="text-sm text-muted-foreground">
+                            Uploaded by {person(step.user_id)}
+                            {inv?.invoice_date ? ` • dated ${inv.invoice_date}` : ""} • your step: {step.step_name || `step ${step.step_index + 1}`}
+                          </p>
+                          <div className="flex flex-wrap gap-2 mt-1">{stepFlags(step)}</div>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-xl font-bold">{money(inv?.currency ?? null, inv?.total_amount ?? null)}</p>
+                          {inv?.total_eur != null && inv.currency !== "EUR" && (
+                            <p className="text-sm text-muted-foreground">≈ {money("EUR", inv.total_eur)}</p>
+                          )}
+                        </div>
+                      </div>
+                      {chainTimeline(step.invoice_id, step.cycle)}
+                      {!!inv?.approval_reasons?.length && (
+                        <ul className="text-sm text-muted-foreground list-disc pl-5">
+                          {inv.approval_reasons.map((r, i) => (
+                            <li key={i}>{r}</li>
+                          ))}
+                        </ul>
+                      )}
+                      <div className="flex flex-wrap items-center gap-2">
+                        {inv?.file_url && (
+                          <Button variant="outline" asChild>
+                            <a href={inv.file_url} target="_blank" rel="noreferrer">
+                              <ExternalLink className="h-4 w-4 mr-1" /> Document
+                            </a>
+                          </Button>
+                        )}
+                        <Input
+                          className="flex-1 min-w-56"
+                          value={notes[step.id] || ""}
+                          onChange={(e) => setNotes((n) => ({ ...n, [step.id]: e.target.value }))}
+                          placeholder="Reason (required to reject or ask for information)"
+                        />
+                        <Button onClick={() => decide(step, "pass")} disabled={busy === step.id}>
+                          <Check className="h-4 w-4 mr-1" /> Approve
+                        </Button>
+                        <Button variant="outline" onClick={() => decide(step, "needs_info")} disabled={busy === step.id || !notes[step.id]?.trim()}>
+                          <HelpCircle className="h-4 w-4 mr-1" /> Needs info
+                        </Button>
+                        <Button variant="destructive" onClick={() => decide(step, "fail")} disabled={busy === step.id || !notes[step.id]?.trim()}>
+                          <X className="h-4 w-4 mr-1" /> Reject
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </TabsContent>
+
+          <TabsContent value="decided" className="mt-6">
+            <Card className="glass-card">
+              <CardContent className="p-4">
+                {decided.length === 0 ? (
+                  <p className="text-muted-foreground">You have not decided any approval steps yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Decided</TableHead>
+                        <TableHead>Invoice</TableHead>
+                        <TableHead>Step</TableHead>
+                        <TableHead>Decision</TableHead>
+                        <TableHead>Chain now</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {decided.map((s) => {
+                        const inv = invoices[s.invoice_id];
+                        return (
+                          <TableRow key={s.id}>
+                            <TableCell>{s.decided_at?.slice(0, 10)}</TableCell>
+                            <TableCell>
+                              {inv?.vendor_name || "Unknown vendor"} • {money(inv?.currency ?? null, inv?.total_amount ?? null)}
+                            </TableCell>
+                            <TableCell>{s.step_name || `Step ${s.step_index + 1}`}</TableCell>
+                            <TableCell>
+                              <Badge variant={STATUS_BADGES[s.status]} className="capitalize">
+                                {s.status.replace("_", " ")}
+                              </Badge>
+                              {!!s.reasons?.length && <p className="text-xs text-muted-foreground">{s.reasons.join("; ")}</p>}
+                            </TableCell>
+                            <TableCell>{chainTimeline(s.invoice_id, s.cycle)}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="away" className="mt-6 space-y-4">
+            <Card className="glass-card">
+              <CardContent className="p-4 space-y-4">
+                <div>
+                  <h3 className="font-semibold">Out of office</h3>
+                  <p className="text-sm text-muted-foreground">
+                    While you are away, approval steps that reach you go to your substitute, and steps already waiting for you are moved to them.
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1 w-64">
+                    <Label>Substitute</Label>
+                    <Select value={away.delegate} onValueChange={(v) => setAway((a) => ({ ...a, delegate: v }))}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(profiles)
+                          .filter((p) => p.user_id !== user?.id)
+                          .map((p) => (
+                            <SelectItem key={p.user_id} value={p.user_id}>
+                              {p.full_name || p.email || p.user_id.slice(0, 8)}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>From</Label>
+                    <Input type="date" value={away.starts_on} onChange={(e) => setAway((a) => ({ ...a, starts_on: e.target.value }))} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Until</Label>
+                    <Input type="date" value={away.ends_on} onChange={(e) => setAway((a) => ({ ...a, ends_on: e.target.value }))} />
+                  </div>
+                  <div className="space-y-1 flex-1 min-w-40">
+                    <Label>Reason</Label>
+                    <Input value={away.reason} onChange={(e) => setAway((a) => ({ ...a, reason: e.target.value }))} placeholder="e.g. Holiday" />
+                  </div>
+                  <Button onClick={delegate} disabled={!away.delegate || !away.starts_on || !away.ends_on || busy === "delegate"}>
+                    <Plane className="h-4 w-4 mr-2" /> Delegate
+                  </Button>
+                </div>
+                {delegations.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Approver</TableHead>
+                        <TableHead>Substitute</TableHead>
+                        <TableHead>Period</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {delegations.map((d) => (
+                        <TableRow key={d.id} className={d.revoked_at ? "opacity-50" : undefined}>
+                          <TableCell>{person(d.user_id)}</TableCell>
+                          <TableCell>{person(d.delegate_id)}</TableCell>
+                          <TableCell>
+                            {d.starts_on} – {d.ends_on}
+                          </TableCell>
+                          <TableCell>{d.revoked_at ? "Revoked" : d.reason || ""}</TableCell>
+                          <TableCell className="text-right">
+                            {!d.revoked_at && (d.user_id === user?.id || isAdmin) && (
+                              <Button size="sm" variant="ghost" disabled={busy === d.id} onClick={() => revoke(d)}>
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {(isAdmin || can("manage")) && (
+            <TabsContent value="chains" className="mt-6 space-y-4">
+              {isAdmin && (
+                <div className="flex justify-end">
+                  <Button variant="outline" onClick={escalateNow} disabled={busy === "escalate"}>
+                    {busy === "escalate" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <AlarmClock className="h-4 w-4 mr-2" />}
+                    Escalate overdue steps now
+                  </Button>
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                An invoice goes through the active chain whose EUR amount band contains its total; the narrowest (highest lower bound) wins. Steps run
+                in order and a step with a minimum amount is skipped below it. Without a matching chain, the uploader's own decision applies.
+              </p>
+              <Card className="glass-card">
+                <CardContent className="p-4 flex flex-wrap items-end gap-4">
+                  <div className="space-y-2 flex-1 min-w-56">
+                    <Label htmlFor="chain-name">New chain</Label>
+                    <Input
+                      id="chain-name"
+                      value={newChain.name}
+                      onChange={(e) => setNewChain((c) => ({ ...c, name: e.target.value }))}
+                      placeholder="e.g. Standard purchase invoices"
+                    />
+                  </div>
+                  <div className="space-y-2 w-32">
+                    <Label>From (EUR)</Label>
+                    <Input type="number" min="0" value={newChain.min_amount} onChange={(e) => setNewChain((c) => ({ ...c, min_amount: e.target.value }))} placeholder="0" />
+                  </div>
+                  <div className="space-y-2 w-32">
+                    <Label>Below (EUR)</Label>
+                    <Input type="number" min="0" value={newChain.max_amount} onChange={(e) => setNewChain((c) => ({ ...c, max_amount: e.target.value }))} placeholder="no limit" />
+                  </div>
+                  <Button onClick={createChain} disabled={!newChain.name.trim()}>
+                    <Plus className="h-4 w-4 mr-2" /> Create chain
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {chains.map((chain) => {
+                const form = newStep[chain.id] || EMPTY_STEP;
+                const setForm = (patch: Partial<typeof form>) => setNewStep((s) => ({ ...s, [chain.id]: { ...form, ...patch } }));
+                const rows = chainSteps.filter((s) => s.chain_id === chain.id);
+                return (
+                  <Card key={chain.id} className="glass-card">
+                    <CardContent className="p-4 space-y-4">
+                      <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div>
+                          <h3 className="font-semibold">{chain.name}</h3>
+                          <p className="text-sm text-muted-foreground">
+                            {money("EUR", chain.min_amount)} {chain.max_amount != null ? `to below ${money("EUR", chain.max_amount)}` : "and above"}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                          <div className="flex items-center gap-2">
+                            <Switch checked={chain.is_active} onCheckedChange={(v) => toggleChain(chain, v)} />
+                            <span className="text-sm">{chain.is_active ? "Active" : "Inactive"}</span>
+                          </div>
+                          <Button variant="ghost" size="sm" onClick={() => deleteChain(chain)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      {rows.length > 0 && (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>#</TableHead>
+                              <TableHead>Step</TableHead>
+                              <TableHead>Approver</TableHead>
+                              <TableHead>Only from</TableHead>
+                              <TableHead>SLA</TableHead>
+                              <TableHead />
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {rows.map((s, i) => (
+                              <TableRow key={s.id}>
+                                <TableCell>{i + 1}</TableCell>
+                                <TableCell>{s.name}</TableCell>
+                                <TableCell>{s.approver_type === "user" ? person(s.approver_id) : APPROVER_TYPES[s.approver_type]}</TableCell>
+                                <TableCell>{s.min_amount != null ? money("EUR", s.min_amount) : "—"}</TableCell>
+                                <TableCell>
+                                  {s.sla_hours ? `${s.sla_hours} h, then ${s.escalate_to ? person(s.escalate_to) : "approver's manager"}` : "—"}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  <Button size="sm" variant="ghost" onClick={() => deleteStep(s)}>
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      )}
+
+                      <div className="flex flex-wrap items-end gap-2">
+                        <div className="space-y-1 flex-1 min-w-40">
+                          <Label>Step name</Label>
+                          <Input value={form.name} onChange={(e) => setForm({ name: e.target.value })} placeholder="e.g. Department head" />
+                        </div>
+                        <div className="space-y-1 w-48">
+                          <Label>Approver</Label>
+                          <Select value={form.approver_type} onValueChange={(v) => setForm({ approver_type: v as ChainStep["approver_type"] })}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(APPROVER_TYPES) as ChainStep["approver_type"][]).map((t) => (
+                                <SelectItem key={t} value={t}>
+                                  {APPROVER_TYPES[t]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {form.approver_type === "user" && (
+                          <div className="space-y-1 w-56">
+                            <Label>User</Label>
+                            <Select value={form.approver_id} onValueChange={(v) => setForm({ approver_id: v })}>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose a user" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.values(profiles).map((p) => (
+                                  <SelectItem key={p.user_id} value={p.user_id}>
+                                    {p.full_name || p.email || p.user_id.slice(0, 8)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                        <div className="space-y-1 w-32">
+                          <Label>Only from (EUR)</Label>
+                          <Input type="number" min="0" value={form.min_amount} onChange={(e) => setForm({ min_amount: e.target.value })} placeholder="always" />
+                        </div>
+                        <div className="space-y-1 w-24">
+                          <Label>SLA (hours)</Label>
+                          <Input type="number" min="1" value={form.sla_hours} onChange={(e) => setForm({ sla_hours: e.target.value })} placeholder="none" />
+                        </div>
+                        {form.sla_hours && (
+                          <div className="space-y-1 w-56">
+                            <Label>Then escalate to</Label>
+                            <Select value={form.escalate_to || "manager"} onValueChange={(v) => setForm({ escalate_to: v === "manager" ? "" : v })}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="manager">Approver's manager</SelectItem>
+                                {Object.values(profiles).map((p) => (
+                                  <SelectItem key={p.user_id} value={p.user_id}>
+                                    {p.full_name || p.email || p.user_id.slice(0, 8)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                        <Button
+                          variant="outline"
+                          onClick={() => addStep(chain)}
+                          disabled={!form.name.trim() || (form.approver_type === "user" && !form.approver_id)}
+                        >
+                          <Plus className="h-4 w-4 mr-1" /> Add step
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  );
+}
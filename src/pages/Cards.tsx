@@ -1,18 +1,608 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useOrganization } from "@/lib/organization";
+import { readStatementFile } from "@/lib/statementFile";
+import { useToast } from "@/hooks/use-toast";
+import { BellRing, Check, ClipboardList, FileSignature, FileUp, Link2, Loader2, RefreshCw, Sparkles, Unlink, Upload } from "lucide-react";
+
+type CardTransaction = {
+  id: string;
+  txn_date: string | null;
+  merchant: string | null;
+  amount: number | null;
+  currency: string | null;
+  original_amount: number | null;
+  original_currency: string | null;
+  card_last4: string | null;
+  card_holder_name: string | null;
+  card_holder_id: string | null;
+  receipt_required: boolean;
+  matched_invoice_id: string | null;
+  declaration_id: string | null;
+  suggested_invoice_id: string | null;
+  match_score: number | null;
+  match_reasons: string[] | null;
+  match_method: string | null;
+  reminder_count: number;
+  last_reminded_at: string | null;
+};
+
+type Receipt = {
+  id: string;
+  vendor_name: string | null;
+  total_amount: number | null;
+  currency: string | null;
+  invoice_date: string | null;
+};
+
+type ReceiptTask = {
+  id: string;
+  card_transaction_id: string;
+  due_date: string | null;
+};
+
+type Notification = {
+  id: string;
+  title: string;
+  body: string | null;
+  created_at: string;
+};
+
+const money = (currency: string | null, amount: number | null) =>
+  `${currency || ""} ${Number(amount ?? 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}`.trim();
+
+const needsReceipt = (t: CardTransaction) => t.receipt_required && !t.matched_invoice_id && !t.declaration_id && Number(t.amount) > 0;
+
+const emptyDeclaration = { businessPurpose: "", reason: "", signatureName: "" };
 
 export default function CorporateCards() {
+  const { user } = useAuth();
+  const { organization, can } = useOrganization();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<CardTransaction[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [requests, setRequests] = useState<Notification[]>([]);
+  const [tasks, setTasks] = useState<ReceiptTask[]>([]);
+  const [declaring, setDeclaring] = useState<CardTransaction | null>(null);
+  const [declaration, setDeclaration] = useState(emptyDeclaration);
+  const [manualLink, setManualLink] = useState<Record<string, string>>({});
+
+  const load = async () => {
+    if (!user || !organization) return;
+    setLoading(true);
+
+    // Accountants work the whole organization's cards; everyone else sees their own imports plus
+    // transactions on cards they hold
+    let cardQuery = supabase
+      .from("card_transactions")
+      .select(
+        "id,txn_date,merchant,amount,currency,original_amount,original_currency,card_last4,card_holder_name,card_holder_id,receipt_required,matched_invoice_id,declaration_id,suggested_invoice_id,match_score,match_reasons,match_method,reminder_count,last_reminded_at",
+      )
+      .eq("organization_id", organization.id);
+    if (!can("keepBooks")) cardQuery = cardQuery.or(`user_id.eq.${user.id},card_holder_id.eq.${user.id}`);
+    const t = await cardQuery.order("txn_date", { ascending: false }).limit(500);
+
+    const r = await supabase
+      .from("invoices")
+      .select("id,vendor_name,total_amount,currency,invoice_date")
+      .eq("organization_id", organization.id)
+      .eq("doc_class", "receipt")
+      .order("created_at", { ascending: false })
+      .limit(500);
+
+    const n = await supabase
+      .from("notifications")
+      .select("id,title,body,created_at")
+      .eq("user_id", user.id)
+      .in("kind", ["card_receipt_missing", "card_receipt_task"])
+      .is("read_at", null)
+      .order("created_at", { ascending: false });
+
+    const k = await supabase
+      .from("card_receipt_tasks")
+      .select("id,card_transaction_id,due_date")
+      .eq("assignee_id", user.id)
+      .eq("status", "open")
+      .order("due_date", { ascending: true });
+
+    if (t.error) toast({ variant: "destructive", title: "Failed to load card transactions", description: t.error.message });
+    if (r.error) toast({ variant: "destructive", title: "Failed to load receipts", description: r.error.message });
+
+    setTransactions((t.data as CardTransaction[]) || []);
+    setReceipts((r.data as Receipt[]) || []);
+    setRequests((n.data as Notification[]) || []);
+    setTasks((k.data as ReceiptTask[]) || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, organization?.id]);
+
+  const transactionById = useMemo(() => Object.fromEntries(transactions.map((t) => [t.id, t])), [transactions]);
+  const receiptById = useMemo(() => Object.fromEntries(receipts.map((r) => [r.id, r])), [receipts]);
+  const linkedReceipts = useMemo(() => new Set(transactions.map((t) => t.matched_invoice_id).filter(Boolean)), [transactions]);
+  const missing = transactions.filter(needsReceipt);
+  const missingTotals = missing.reduce<Record<string, number>>((acc, t) => {
+    const cur = t.currency || "EUR";
+    acc[cur] = (acc[cur] || 0) + Number(t.amount || 0);
+    return acc;
+  }, {});
+
+  const invoke = async (fn: string, body: Record<string, unknown>, failTitle: string) => {
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+    const { data, error } = await supabase.functions.invoke(fn, {
+      body,
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: failTitle, description: detail?.error || error.message });
+      return null;
+    }
+    return data;
+  };
+
+  const importStatement = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    if (f.size > 10 * 1024 * 1024) {
+      toast({ variant: "destructive", title: "File too large", description: "Statements up to 10MB are supported." });
+      return;
+    }
+
+    setBusy("import");
+    const content = await readStatementFile(f);
+    const data = await invoke("card-import", { fileName: f.name, content }, "Import failed");
+    setBusy(null);
+    if (!data) return;
+
+    toast({
+      title: "Card statement imported",
+      description:
+        `${data.imported ?? 0} new transaction(s)${data.duplicates ? `, ${data.duplicates} already imported` : ""}.` +
+        (data.matching ? ` ${data.matching.matched} receipt(s) matched automatically.` : ""),
+    });
+    await load();
+  };
+
+  const runMatching = async () => {
+    setBusy("match");
+    const data = await invoke("card-receipts", { action: "match" }, "Matching failed");
+    setBusy(null);
+    if (!data) return;
+    toast({ title: "Matching complete", description: `${data.matched ?? 0} matched, ${data.suggested ?? 0} suggested.` });
+    await load();
+  };
+
+  const remind = async (transactionIds?: string[]) => {
+    setBusy(transactionIds?.[0] ?? "remind");
+    const data = await invoke("card-receipts", { action: "remind", transactionIds }, "Reminder failed");
+    setBusy(null);
+    if (!data) return;
+    toast({
+      title: data.transactions ? "Reminders sent" : "Nothing to remind",
+      description: data.transactions
+        ? `${data.transactions} transaction(s) across ${data.holders} card holder(s).`
+        : "Card holders were reminded recently or no receipts are missing.",
+    });
+    await load();
+  };
+
+  const createTasks = async () => {
+    setBusy("tasks");
+    const data = await invoke("card-receipts", { action: "tasks" }, "Creating tasks failed");
+    setBusy(null);
+    if (!data) return;
+    toast({
+      title: data.created ? "Receipt tasks created" : "No new tasks",
+      description: data.created
+        ? `${data.created} task(s) for ${data.assignees} card holder(s).`
+        : "No transaction is overdue without a receipt task.",
+    });
+    await load();
+  };
+
+  const submitDeclaration = async () => {
+    if (!declaring) return;
+    setBusy("declare");
+    const data = await invoke("card-receipts", { action: "declare", transactionId: declaring.id, ...declaration }, "Declaration failed");
+    setBusy(null);
+    if (!data) return;
+    toast({ title: "Declaration signed", description: "The missing-receipt declaration was stored with the transaction." });
+    setDeclaring(null);
+    setDeclaration(emptyDeclaration);
+    await load();
+  };
+
+  const link = async (transactionId: string, invoiceId: string) => {
+    setBusy(transactionId);
+    const data = await invoke("card-receipts", { action: "link", transactionId, invoiceId }, "Link failed");
+    setBusy(null);
+    if (!data) return;
+    toast({ title: "Receipt linked" });
+    await load();
+  };
+
+  const unlink = async (transactionId: string) => {
+    setBusy(transactionId);
+    const data = await invoke("card-receipts", { action: "unlink", transactionId }, "Unlink failed");
+    setBusy(null);
+    if (!data) return;
+    toast({ title: "Receipt unlinked" });
+    await load();
+  };
+
+  const markRead = async (id: string) => {
+    const { error } = await supabase.from("notifications").update({ read_at: new Date().toISOString() }).eq("id", id);
+    if (error) {
+      toast({ variant: "destructive", title: "Update failed", description: error.message });
+      return;
+    }
+    setRequests((prev) => prev.filter((n) => n.id !== id));
+  };
+
+  const receiptLabel = (r: Receipt | undefined) =>
+    r ? `${r.vendor_name || "Unknown vendor"} • ${money(r.currency, r.total_amount)}${r.invoice_date ? ` • ${r.invoice_date}` : ""}` : "—";
+
   return (
     <DashboardLayout>
-      
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-display font-bold">Corporate Cards</h1>
-          <p className="text-muted-foreground mt-1">View corporate card transactions (skeleton page).</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Corporate Cards</h1>
+            <p className="text-muted-foreground mt-1">Import card statements and match every transaction to a receipt.</p>
+          </div>
+          <Button variant="outline" onClick={load}>
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </Button>
         </div>
-        <Card className="glass-card"><CardContent className="p-6 text-muted-foreground">Uses public.card_transactions table. Add a sync function to ingest from provider APIs.</CardContent></Card>
-      </div>
 
+        {requests.length > 0 && (
+          <Card className="glass-card border-destructive/40">
+            <CardContent className="p-4 space-y-2">
+              <h3 className="font-semibold">Receipts requested from you</h3>
+              {requests.map((n) => (
+                <div key={n.id} className="p-3 rounded-lg border bg-card flex items-start justify-between gap-4">
+                  <div className="text-sm">
+                    <p className="font-medium">{n.title}</p>
+                    {n.body && <p className="text-muted-foreground whitespace-pre-line">{n.body}</p>}
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => markRead(n.id)}>
+                    <Check className="h-4 w-4 mr-1" /> Done
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {tasks.length > 0 && (
+          <Card className="glass-card">
+            <CardContent className="p-4 space-y-2">
+              <h3 className="font-semibold flex items-center gap-2">
+                <ClipboardList className="h-4 w-4" /> My receipt tasks ({tasks.length})
+              </h3>
+              {tasks.map((task) => {
+                const t = transactionById[task.card_transaction_id];
+                const overdue = !!task.due_date && task.due_date < new Date().toISOString().slice(0, 10);
+                return (
+                  <div key={task.id} className="p-3 rounded-lg border bg-card flex flex-wrap items-center justify-between gap-4">
+                    <div className="text-sm">
+                      <p className="font-medium">
+                        {t ? `${t.merchant || "Unknown merchant"} • ${money(t.currency, t.amount)}` : "Card transaction"}
+                      </p>
+                      <p className="text-muted-foreground">
+                        {t?.txn_date}
+                        {t?.card_last4 ? ` • •••• ${t.card_last4}` : ""}
+                        {task.due_date ? ` • due ${task.due_date}` : ""}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {overdue && <Badge variant="destructive">overdue</Badge>}
+                      <Button size="sm" asChild>
+                        <Link to={`/dashboard/upload?cardTransaction=${task.card_transaction_id}`}>
+                          <Upload className="h-4 w-4 mr-1" /> Upload receipt
+                        </Link>
+                      </Button>
+                      <Button size="sm" variant="outline" disabled={!t} onClick={() => t && setDeclaring(t)}>
+                        <FileSignature className="h-4 w-4 mr-1" /> No receipt
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="glass-card">
+          <CardContent className="p-4 flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h3 className="font-semibold">Card statement import</h3>
+              <p className="text-sm text-muted-foreground">
+                Issuer CSV exports or OFX/QFX files. Receipts (documents classified as receipt) are matched on merchant, amount and date.
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <input type="file" accept=".csv,.txt,.ofx,.qfx" onChange={importStatement} className="hidden" id="card-statement-upload" />
+              <Button asChild disabled={busy === "import" || !user}>
+                <label htmlFor="card-statement-upload" className="cursor-pointer">
+                  {busy === "import" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+                  Import statement
+                </label>
+              </Button>
+              <Button variant="outline" onClick={runMatching} disabled={busy === "match" || !user}>
+                {busy === "match" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+                Match receipts
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="missing">
+          <TabsList>
+            <TabsTrigger value="missing">Needs receipt ({missing.length})</TabsTrigger>
+            <TabsTrigger value="all">All transactions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="missing" className="mt-6">
+            <Card className="glass-card">
+              <CardContent className="p-4 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    {missing.length
+                      ? `Missing receipts: ${Object.entries(missingTotals)
+                          .map(([cur, total]) => money(cur, total))
+                          .join(", ")}`
+                      : "Every card transaction has a receipt."}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={createTasks} disabled={!missing.length || busy === "tasks"}>
+                      {busy === "tasks" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ClipboardList className="h-4 w-4 mr-2" />}
+                      Create overdue tasks
+                    </Button>
+                    <Button variant="outline" onClick={() => remind()} disabled={!missing.length || busy === "remind"}>
+                      {busy === "remind" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BellRing className="h-4 w-4 mr-2" />}
+                      Remind card holders
+                    </Button>
+                  </div>
+                </div>
+
+                {loading ? (
+                  <div className="flex items-center justify-center py-10">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : missing.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Merchant</TableHead>
+                        <TableHead>Card holder</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Receipt</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {missing.map((t) => {
+                        const suggested = t.suggested_invoice_id ? receiptById[t.suggested_invoice_id] : undefined;
+                        return (
+                          <TableRow key={t.id}>
+                            <TableCell>{t.txn_date}</TableCell>
+                            <TableCell className="font-medium">{t.merchant || "—"}</TableCell>
+                            <TableCell>
+                              <p>{t.card_holder_name || "—"}</p>
+                              {t.card_last4 && <p className="text-xs text-muted-foreground">•••• {t.card_last4}</p>}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <p className="font-medium">{money(t.currency, t.amount)}</p>
+                              {t.original_currency && (
+                                <p className="text-xs text-muted-foreground">{money(t.original_currency, t.original_amount)}</p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm min-w-64">
+                              {suggested ? (
+                                <div className="space-y-1">
+                                  <p>
+                                    {receiptLabel(suggested)}{" "}
+                                    <Badge variant="outline">{Math.round(Number(t.match_score) * 100)}%</Badge>
+                                  </p>
+                                  <Button size="sm" onClick={() => link(t.id, suggested.id)} disabled={busy === t.id}>
+                                    <Link2 className="h-4 w-4 mr-1" /> Link suggestion
+                                  </Button>
+                                </div>
+                              ) : (
+                                <div className="flex gap-2">
+                                  <Select value={manualLink[t.id] || ""} onValueChange={(v) => setManualLink((m) => ({ ...m, [t.id]: v }))}>
+                                    <SelectTrigger className="h-8">
+                                      <SelectValue placeholder="Pick a receipt" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {receipts
+                                        .filter((r) => !linkedReceipts.has(r.id))
+                                        .map((r) => (
+                                          <SelectItem key={r.id} value={r.id}>
+                                            {receiptLabel(r)}
+                                          </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <Button size="sm" variant="outline" disabled={!manualLink[t.id] || busy === t.id} onClick={() => link(t.id, manualLink[t.id])}>
+                                    <Link2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              <Button size="sm" variant="ghost" asChild title="Upload receipt">
+                                <Link to={`/dashboard/upload?cardTransaction=${t.id}`}>
+                                  <Upload className="h-4 w-4" />
+                                </Link>
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => setDeclaring(t)} title="Missing-receipt declaration">
+                                <FileSignature className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => remind([t.id])} disabled={busy === t.id}>
+                                <BellRing className="h-4 w-4 mr-1" />
+                                {t.reminder_count ? `Reminded ${t.reminder_count}×` : "Remind"}
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="all" className="mt-6">
+            <Card className="glass-card">
+              <CardContent className="p-4">
+                {loading ? (
+                  <div className="flex items-center justify-center py-10">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : transactions.length === 0 ? (
+                  <div className="text-muted-foreground">No card transactions yet. Import a statement to get started.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Merchant</TableHead>
+                        <TableHead>Card</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Receipt</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {transactions.map((t) => (
+                        <TableRow key={t.id}>
+                          <TableCell>{t.txn_date}</TableCell>
+                          <TableCell className="font-medium">{t.merchant || "—"}</TableCell>
+                          <TableCell>{t.card_last4 ? `•••• ${t.card_last4}` : "—"}</TableCell>
+                          <TableCell className={`text-right font-medium ${Number(t.amount) < 0 ? "text-muted-foreground" : ""}`}>
+                            {money(t.currency, t.amount)}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {t.matched_invoice_id ? (
+                              <span>
+                                {receiptLabel(receiptById[t.matched_invoice_id])}{" "}
+                                <Badge variant="secondary">{t.match_method === "auto" ? "auto" : "manual"}</Badge>
+                              </span>
+                            ) : t.declaration_id ? (
+                              <Badge variant="secondary">declared missing</Badge>
+                            ) : needsReceipt(t) ? (
+                              <Badge variant="destructive">missing</Badge>
+                            ) : (
+                              <Badge variant="outline">not required</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {t.matched_invoice_id && (
+                              <Button size="sm" variant="ghost" onClick={() => unlink(t.id)} disabled={busy === t.id}>
+                                <Unlink className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <Dialog
+          open={!!declaring}
+          onOpenChange={(open) => {
+            if (!open) {
+              setDeclaring(null);
+              setDeclaration(emptyDeclaration);
+            }
+          }}
+        >
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Missing receipt declaration</DialogTitle>
+              <DialogDescription>
+                {declaring
+                  ? `${declaring.txn_date} • ${declaring.merchant || "Unknown merchant"} • ${money(declaring.currency, declaring.amount)}`
+                  : ""}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="decl-purpose">Business purpose</Label>
+                <Input
+                  id="decl-purpose"
+                  value={declaration.businessPurpose}
+                  onChange={(e) => setDeclaration((d) => ({ ...d, businessPurpose: e.target.value }))}
+                  placeholder="e.g. Taxi to customer workshop"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="decl-reason">Why is the receipt missing?</Label>
+                <Textarea
+                  id="decl-reason"
+                  value={declaration.reason}
+                  onChange={(e) => setDeclaration((d) => ({ ...d, reason: e.target.value }))}
+                  placeholder="e.g. Lost, merchant could not issue a duplicate"
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                I declare that this expense was incurred for business purposes, that no receipt can be obtained, and that it has not been and
+                will not be claimed elsewhere.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="decl-signature">Sign with your full name</Label>
+                <Input
+                  id="decl-signature"
+                  value={declaration.signatureName}
+                  onChange={(e) => setDeclaration((d) => ({ ...d, signatureName: e.target.value }))}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={submitDeclaration}
+                disabled={
+                  busy === "declare" || !declaration.businessPurpose.trim() || !declaration.reason.trim() || !declaration.signatureName.trim()
+                }
+              >
+                {busy === "declare" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSignature className="h-4 w-4 mr-2" />}
+                Sign declaration
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
     </DashboardLayout>
   );
 }
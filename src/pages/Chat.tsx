@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
+import { useOrganization } from '@/lib/organization';
 import { useToast } from '@/hooks/use-toast';
 import {
   Send,
@@ -47,6 +48,7 @@ const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
 
 export default function Chat() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const { toast } = useToast();
 
   const [messages, setMessages] = useState<Message[]>([]);
@@ -65,13 +67,13 @@ export default function Chat() {
 
   // ---------- Load chat history ----------
   useEffect(() => {
-    if (user) {
+    if (user && organization) {
       loadChatHistory();
       loadInvoiceStats();
     }
     return () => abortRef.current?.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id]);
+  }, [user?.id, organization?.id]);
 
   // ---------- Scroll detection + button ----------
   useEffect(() => {
@@ -104,14 +106,16 @@ export default function Chat() {
     el.scrollTo({ top: el.scrollHeight, behavior: 'smooth' });
   };
 
+  // Conversations stay private but are kept per workspace
   const loadChatHistory = async () => {
-    if (!user) return;
+    if (!user || !organization) return;
     setLoadingHistory(true);
 
     const { data, error } = await supabase
       .from('chat_messages')
       .select('id, role, content, created_at')
       .eq('user_id', user.id)
+      .eq('organization_id', organization.id)
       .order('created_at', { ascending: true })
       .limit(50);
 
@@ -126,13 +130,13 @@ export default function Chat() {
 
   // ---------- Invoice quick stats ----------
   const loadInvoiceStats = async () => {
-    if (!user) return;
+    if (!user || !organization) return;
 
     // count
     const { count, error: countErr } = await supabase
       .from('invoices')
       .select('id', { count: 'exact', head: true })
-      .eq('user_id', user.id);
+      .eq('organization_id', organization.id);
 
     if (countErr) return;
 
@@ -140,7 +144,7 @@ export default function Chat() {
     const { data, error } = await supabase
       .from('invoices')
       .select('total_amount')
-      .eq('user_id', user.id)
+      .eq('organization_id', organization.id)
       .limit(500);
 
     if (error) return;
@@ -151,11 +155,15 @@ export default function Chat() {
 
   // ---------- Clear history ----------
   const clearHistory = async () => {
-    if (!user || messages.length === 0) return;
+    if (!user || !organization || messages.length === 0) return;
 
     abortRef.current?.abort();
 
-    const { error } = await supabase.from('chat_messages').delete().eq('user_id', user.id);
+    const { error } = await supabase
+      .from('chat_messages')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('organization_id', organization.id);
     if (error) {
       toast({ variant: 'destructive', title: 'Error', description: error.message });
       return;
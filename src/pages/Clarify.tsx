@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { readClarificationDocument } from "@/lib/documentText";
+import { format } from "date-fns";
+import { CheckCircle2, FileText, Loader2, Send } from "lucide-react";
+
+// What the invoice-clarifications function shows a vendor for their link (no account needed)
+type ClarificationView = {
+  clarification: { id: string; requested_fields: string[]; status: string; expires_at: string | null };
+  invoice: { vendor_name: string | null; invoice_number: string | null; invoice_date: string | null; total_amount: number | null; currency: string | null };
+  fields: Record<string, { label: string; value: unknown }>;
+  messages: { id: string; author_kind: string; body: string | null; field_values: Record<string, unknown> | null; document_name: string | null; created_at: string }[];
+};
+
+const AUTHOR_LABELS: Record<string, string> = {
+  requester: "Accounts payable",
+  submitter: "Accounts payable",
+  vendor: "You",
+  system: "Automatic check",
+};
+
+export default function Clarify() {
+  const { token } = useParams();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [view, setView] = useState<ClarificationView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+
+  const call = async <T,>(body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke("invoice-clarifications", { body: { token, ...body } });
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      throw new Error(detail?.error || error.message);
+    }
+    return data as T;
+  };
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setView(await call<ClarificationView>({ action: "view" }));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  const send = async () => {
+    setSending(true);
+    try {
+      const res = await call<{ rerun?: { resolved: boolean } | null }>({
+        action: "respond",
+        values,
+        message: note,
+        document: file ? await readClarificationDocument(file) : undefined,
+      });
+      setValues({});
+      setNote("");
+      setFile(null);
+      if (res?.rerun?.resolved) {
+        setDone(true);
+        return;
+      }
+      toast({ title: "Thank you", description: res?.rerun ? "Some information is still missing — see below." : "Your message was sent." });
+      await load();
+    } catch (e) {
+      toast({ variant: "destructive", title: "Could not send", description: (e as Error).message });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex justify-center p-4 md:p-10">
+      <Card className="glass-card w-full max-w-2xl h-fit">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-primary" />
+            Information requested for your invoice
+          </CardTitle>
+          {view && (
+            <CardDescription>
+              {view.invoice.vendor_name || "Invoice"}
+              {view.invoice.invoice_number ? ` · ${view.invoice.invoice_number}` : ""}
+              {view.invoice.invoice_date ? ` · ${view.invoice.invoice_date}` : ""}
+              {view.invoice.total_amount != null ? ` · ${Number(view.invoice.total_amount).toFixed(2)} ${view.invoice.currency || ""}` : ""}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : done ? (
+            <div className="flex flex-col items-center text-center py-10 gap-2">
+              <CheckCircle2 className="h-10 w-10 text-success" />
+              <p className="font-medium">Thank you — the invoice is complete now.</p>
+              <p className="text-sm text-muted-foreground">You can close this page.</p>
+            </div>
+          ) : error || !view ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">{error || "This link is not valid"}</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {view.messages.map((m) => (
+                  <div key={m.id} className={`text-sm rounded-md p-3 ${m.author_kind === "vendor" ? "border" : "bg-muted/40"}`}>
+                    <p className="text-xs text-muted-foreground">
+                      {AUTHOR_LABELS[m.author_kind] || m.author_kind} · {format(new Date(m.created_at), "MMM d, yyyy HH:mm")}
+                    </p>
+                    {m.body && <p className="whitespace-pre-line">{m.body}</p>}
+                    {m.field_values && (
+                      <ul className="text-xs mt-1">
+                        {Object.entries(m.field_values).map(([k, v]) => (
+                          <li key={k}>
+                            {view.fields[k]?.label || k}: <span className="font-medium">{String(v)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {m.document_name && <p className="text-xs mt-1">Attached: {m.document_name}</p>}
+                  </div>
+                ))}
+              </div>
+
+              {Object.keys(view.fields).length > 0 && (
+                <div className="grid gap-3 md:grid-cols-2">
+                  {Object.entries(view.fields).map(([f, { label, value }]) => (
+                    <div key={f} className="space-y-1">
+                      <Label>{label}</Label>
+                      <Input
+                        type={f.endsWith("_date") ? "date" : "text"}
+                        placeholder={value != null ? String(value) : ""}
+                        value={values[f] || ""}
+                        onChange={(e) => setValues((v) => ({ ...v, [f]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label>Message</Label>
+                <Textarea rows={3} value={note} onChange={(e) => setNote(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Corrected invoice (optional)</Label>
+                <Input type="file" accept=".pdf,.png,.jpg,.jpeg,.xml" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+              </div>
+              <Button onClick={send} disabled={sending || (!note.trim() && !file && !Object.values(values).some((v) => v.trim()))}>
+                {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Send
+              </Button>
+              {view.clarification.expires_at && (
+                <p className="text-xs text-muted-foreground">This link is valid until {format(new Date(view.clarification.expires_at), "MMM d, yyyy")}.</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,455 @@
+import { useMemo, useState } from "react";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, FileCode, FileText, Loader2, Plus, ShieldCheck, Trash2 } from "lucide-react";
+
+type Format = "xrechnung" | "peppol";
+
+type Party = {
+  name: string;
+  street: string;
+  postcode: string;
+  city: string;
+  country: string;
+  vat_id: string;
+  email: string;
+  phone: string;
+  contact_name: string;
+  iban?: string;
+  bic?: string;
+};
+
+type DraftLine = {
+  description: string;
+  quantity: string;
+  unit_code: string;
+  unit_price: string;
+  vat_rate: string; // percent, as typed
+  vat_category: string;
+};
+
+type ValidationIssue = { rule: string; message: string; severity: "error" | "warning" };
+
+type GenerateResult = {
+  ok: boolean;
+  validation?: { valid: boolean; issues: ValidationIssue[] };
+  xml?: string;
+  xml_url?: string;
+  pdf_url?: string;
+};
+
+// The seller block rarely changes between invoices, so keep the last one locally
+const SELLER_STORAGE_KEY = "outgoing_invoice_seller";
+
+const emptyParty: Party = { name: "", street: "", postcode: "", city: "", country: "DE", vat_id: "", email: "", phone: "", contact_name: "" };
+const emptyLine: DraftLine = { description: "", quantity: "1", unit_code: "C62", unit_price: "", vat_rate: "19", vat_category: "S" };
+
+const VAT_CATEGORIES = [
+  { value: "S", label: "S – Standard" },
+  { value: "Z", label: "Z – Zero rated" },
+  { value: "E", label: "E – Exempt" },
+  { value: "AE", label: "AE – Reverse charge" },
+  { value: "K", label: "K – Intra-EU supply" },
+  { value: "G", label: "G – Export" },
+  { value: "O", label: "O – Out of scope" },
+];
+
+const num = (s: string) => {
+  const n = Number(String(s).replace(",", "."));
+  return Number.isFinite(n) ? n : 0;
+};
+const r2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+function loadSeller(): Party {
+  try {
+    const raw = localStorage.getItem(SELLER_STORAGE_KEY);
+    return raw ? { ...emptyParty, ...JSON.parse(raw) } : { ...emptyParty, iban: "", bic: "" };
+  } catch {
+    return { ...emptyParty, iban: "", bic: "" };
+  }
+}
+
+function PartyFields({ title, party, onChange, withBank }: { title: string; party: Party; onChange: (p: Party) => void; withBank?: boolean }) {
+  const field = (key: keyof Party, label: string, placeholder?: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input value={party[key] ?? ""} placeholder={placeholder} onChange={(e) => onChange({ ...party, [key]: e.target.value })} />
+    </div>
+  );
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">{field("name", "Name")}</div>
+        <div className="col-span-2">{field("street", "Street")}</div>
+        {field("postcode", "Postcode")}
+        {field("city", "City")}
+        {field("country", "Country (ISO)", "DE")}
+        {field("vat_id", "VAT ID", "DE123456789")}
+        {field("email", "Electronic address (email)")}
+        {field("phone", "Phone")}
+        <div className="col-span-2">{field("contact_name", "Contact name")}</div>
+        {withBank && (
+          <>
+            {field("iban", "IBAN")}
+            {field("bic", "BIC")}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CreateInvoice() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [format, setFormat] = useState<Format>("xrechnung");
+  const [seller, setSeller] = useState<Party>(loadSeller);
+  const [buyer, setBuyer] = useState<Party>({ ...emptyParty });
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [issueDate, setIssueDate] = useState(new Date().toISOString().slice(0, 10));
+  const [dueDate, setDueDate] = useState("");
+  const [currency, setCurrency] = useState("EUR");
+  const [buyerReference, setBuyerReference] = useState("");
+  const [paymentTerms, setPaymentTerms] = useState("");
+  const [note, setNote] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([{ ...emptyLine }]);
+
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [issues, setIssues] = useState<ValidationIssue[] | null>(null);
+  const [result, setResult] = useState<GenerateResult | null>(null);
+
+  // Preview only; generate-einvoice recomputes the authoritative totals per EN 16931
+  const totals = useMemo(() => {
+    const groups = new Map<string, { rate: number; taxable: number }>();
+    let net = 0;
+    for (const l of lines) {
+      const lineNet = r2(num(l.quantity) * num(l.unit_price));
+      net += lineNet;
+      const key = `${l.vat_category}|${l.vat_rate}`;
+      const g = groups.get(key) ?? { rate: num(l.vat_rate) / 100, taxable: 0 };
+      g.taxable += lineNet;
+      groups.set(key, g);
+    }
+    const tax = Array.from(groups.values()).reduce((s, g) => s + r2(g.taxable * g.rate), 0);
+    return { net: r2(net), tax: r2(tax), gross: r2(net + tax) };
+  }, [lines]);
+
+  const updateLine = (i: number, patch: Partial<DraftLine>) =>
+    setLines((prev) => prev.map((l, idx) => (idx === i ? { ...l, ...patch } : l)));
+
+  const invoke = async (body: Record<string, unknown>): Promise<GenerateResult> => {
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+    const { data, error } = await supabase.functions.invoke("generate-einvoice", {
+      body,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    if (error) throw error;
+    return data as GenerateResult;
+  };
+
+  const saveDraft = async (): Promise<string> => {
+    if (!user) throw new Error("Not signed in");
+    const { iban, bic, ...sellerParty } = seller;
+    const payload = {
+      user_id: user.id,
+      direction: "outgoing" as const,
+      doc_class: "invoice" as const,
+      file_name: `${invoiceNumber || "draft"}.pdf`,
+      file_type: "application/pdf",
+      file_url: "",
+      vendor_name: seller.name || null,
+      invoice_number: invoiceNumber || null,
+      invoice_date: issueDate || null,
+      due_date: dueDate || null,
+      currency: currency.toUpperCase(),
+      total_amount: totals.gross,
+      tax_amount: totals.tax,
+      payment_terms: paymentTerms || null,
+      seller: { ...sellerParty, iban: iban || null, bic: bic || null },
+      buyer,
+      buyer_reference: buyerReference || null,
+      invoice_note: note || null,
+    };
+
+    let id = draftId;
+    if (id) {
+      const upd = await supabase.from("invoices").update(payload).eq("id", id);
+      if (upd.error) throw upd.error;
+      const del = await supabase.from("invoice_line_items").delete().eq("invoice_id", id);
+      if (del.error) throw del.error;
+    } else {
+      const ins = await supabase.from("invoices").insert(payload).select("id").single();
+      if (ins.error) throw ins.error;
+      id = ins.data.id;
+      setDraftId(id);
+    }
+
+    const rows = lines.map((l, idx) => ({
+      invoice_id: id as string,
+      user_id: user.id,
+      line_index: idx,
+      description: l.description,
+      quantity: num(l.quantity),
+      unit_code: l.unit_code || "C62",
+      unit_price: num(l.unit_price),
+      net_amount: r2(num(l.quantity) * num(l.unit_price)),
+      vat_rate: num(l.vat_rate) / 100,
+      vat_category: l.vat_category,
+      source: "manual",
+    }));
+    const li = await supabase.from("invoice_line_items").insert(rows);
+    if (li.error) throw li.error;
+
+    localStorage.setItem(SELLER_STORAGE_KEY, JSON.stringify(seller));
+    return id as string;
+  };
+
+  const run = async (generate: boolean) => {
+    setBusy(true);
+    setResult(null);
+    try {
+      const invoiceId = await saveDraft();
+      const check = await invoke({ invoiceId, format, dryRun: true });
+      setIssues(check.validation?.issues ?? []);
+      if (!check.ok) {
+        toast({ variant: "destructive", title: "EN 16931 validation failed", description: "Fix the listed rules and try again." });
+        return;
+      }
+      if (!generate) {
+        toast({ title: "Valid", description: "The invoice passes the EN 16931 checks." });
+        return;
+      }
+
+      const res = await invoke({ invoiceId, format });
+      setResult(res);
+      toast({ title: "E-invoice generated", description: `${format === "xrechnung" ? "XRechnung" : "Peppol BIS 3.0"} XML and PDF saved.` });
+    } catch (e) {
+      toast({ variant: "destructive", title: "E-invoice generation failed", description: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadXml = () => {
+    if (!result?.xml) return;
+    const blob = new Blob([result.xml], { type: "application/xml" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `${invoiceNumber || "invoice"}.xml`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  const resetForm = () => {
+    setDraftId(null);
+    setBuyer({ ...emptyParty });
+    setInvoiceNumber("");
+    setDueDate("");
+    setBuyerReference("");
+    setNote("");
+    setLines([{ ...emptyLine }]);
+    setIssues(null);
+    setResult(null);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Create Invoice</h1>
+            <p className="text-muted-foreground mt-1">Issue outgoing invoices as XRechnung or Peppol BIS 3.0 (UBL) with a PDF copy.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={format} onValueChange={(v) => setFormat(v as Format)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xrechnung">XRechnung 3.0</SelectItem>
+                <SelectItem value="peppol">Peppol BIS Billing 3.0</SelectItem>
+              </SelectContent>
+            </Select>
+            {draftId && (
+              <Button variant="outline" onClick={resetForm}>
+                New invoice
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <PartyFields title="Seller (you)" party={seller} onChange={setSeller} withBank />
+          <PartyFields title="Buyer" party={buyer} onChange={setBuyer} />
+        </div>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-base">Invoice details</CardTitle>
+          </CardHeader>
+          <CardContent className="grid md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Invoice number</Label>
+              <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Issue date</Label>
+              <Input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Due date</Label>
+              <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Currency</Label>
+              <Input value={currency} maxLength={3} onChange={(e) => setCurrency(e.target.value.toUpperCase())} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Buyer reference {format === "xrechnung" ? "(Leitweg-ID)" : ""}</Label>
+              <Input value={buyerReference} onChange={(e) => setBuyerReference(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Payment terms</Label>
+              <Input value={paymentTerms} placeholder="30 days net" onChange={(e) => setPaymentTerms(e.target.value)} />
+            </div>
+            <div className="md:col-span-3 space-y-1">
+              <Label className="text-xs">Note (e.g. exemption / reverse-charge reason)</Label>
+              <Textarea rows={2} value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-base">Lines</CardTitle>
+            <Button variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, { ...emptyLine }])}>
+              <Plus className="h-4 w-4 mr-1" /> Add line
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {lines.map((l, i) => (
+              <div key={i} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-12 md:col-span-4 space-y-1">
+                  {i === 0 && <Label className="text-xs">Description</Label>}
+                  <Input value={l.description} onChange={(e) => updateLine(i, { description: e.target.value })} />
+                </div>
+                <div className="col-span-3 md:col-span-1 space-y-1">
+                  {i === 0 && <Label className="text-xs">Qty</Label>}
+                  <Input value={l.quantity} inputMode="decimal" onChange={(e) => updateLine(i, { quantity: e.target.value })} />
+                </div>
+                <div className="col-span-3 md:col-span-1 space-y-1">
+                  {i === 0 && <Label className="text-xs">Unit</Label>}
+                  <Input value={l.unit_code} onChange={(e) => updateLine(i, { unit_code: e.target.value.toUpperCase() })} />
+                </div>
+                <div className="col-span-6 md:col-span-2 space-y-1">
+                  {i === 0 && <Label className="text-xs">Unit price</Label>}
+                  <Input value={l.unit_price} inputMode="decimal" onChange={(e) => updateLine(i, { unit_price: e.target.value })} />
+                </div>
+                <div className="col-span-4 md:col-span-1 space-y-1">
+                  {i === 0 && <Label className="text-xs">VAT %</Label>}
+                  <Input value={l.vat_rate} inputMode="decimal" onChange={(e) => updateLine(i, { vat_rate: e.target.value })} />
+                </div>
+                <div className="col-span-6 md:col-span-2 space-y-1">
+                  {i === 0 && <Label className="text-xs">VAT category</Label>}
+                  <Select value={l.vat_category} onValueChange={(v) => updateLine(i, { vat_category: v, vat_rate: v === "S" ? l.vat_rate : "0" })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VAT_CATEGORIES.map((c) => (
+                        <SelectItem key={c.value} value={c.value}>
+                          {c.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 md:col-span-1 flex justify-end">
+                  <Button variant="ghost" size="icon" disabled={lines.length === 1} onClick={() => setLines((prev) => prev.filter((_, idx) => idx !== i))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex justify-end pt-2">
+              <div className="text-sm space-y-1 text-right">
+                <p>
+                  Net: {currency} {totals.net.toFixed(2)}
+                </p>
+                <p>
+                  VAT: {currency} {totals.tax.toFixed(2)}
+                </p>
+                <p className="font-semibold">
+                  Amount due: {currency} {totals.gross.toFixed(2)}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {issues && issues.length > 0 && (
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-base">EN 16931 validation</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {issues.map((iss, i) => (
+                <div key={i} className="flex items-start gap-2 text-sm">
+                  <Badge variant={iss.severity === "error" ? "destructive" : "secondary"}>{iss.rule}</Badge>
+                  <span>{iss.message}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {result?.ok && (
+          <Card className="glass-card">
+            <CardContent className="p-4 flex flex-wrap items-center gap-3">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              <span className="text-sm">E-invoice {invoiceNumber} generated.</span>
+              {result.pdf_url && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={result.pdf_url} target="_blank" rel="noreferrer">
+                    <FileText className="h-4 w-4 mr-1" /> PDF
+                  </a>
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={downloadXml}>
+                <FileCode className="h-4 w-4 mr-1" /> Download XML
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" disabled={busy} onClick={() => run(false)}>
+            {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+            Save & validate
+          </Button>
+          <Button disabled={busy} onClick={() => run(true)}>
+            {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileCode className="h-4 w-4 mr-2" />}
+            Generate e-invoice
+          </Button>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
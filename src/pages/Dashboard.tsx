@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/lib/auth";
+import { useOrganization } from "@/lib/organization";
 import { useToast } from "@/hooks/use-toast";
 import {
   AlertCircle,
@@ -53,6 +54,7 @@ function toEUR(total: number, currency: string | null) {
 
 export default function Dashboard() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -69,7 +71,7 @@ export default function Dashboard() {
 
   useEffect(() => {
     const loadDashboard = async () => {
-      if (!user) return;
+      if (!user || !organization) return;
       setLoading(true);
 
       const res = await supabase
@@ -77,7 +79,7 @@ export default function Dashboard() {
         .select(
           "id,vendor_name,invoice_number,invoice_date,total_amount,currency,is_flagged,flag_reason,approval,approval_reasons,co2e_estimate,created_at",
         )
-        .eq("user_id", user.id)
+        .eq("organization_id", organization.id)
         .order("created_at", { ascending: false });
 
       if (res.error) {
@@ -137,7 +139,7 @@ export default function Dashboard() {
 
     loadDashboard();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+  }, [user, organization?.id]);
 
   const topFlagged = useMemo(() => invoices.filter((i) => !!i.is_flagged).slice(0, 6), [invoices]);
   const topNeedsAction = useMemo(
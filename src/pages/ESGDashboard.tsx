@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Loader2, Leaf, RefreshCw } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/lib/auth";
+import { useOrganization } from "@/lib/organization";
 import { useToast } from "@/hooks/use-toast";
 
 type Row = {
@@ -18,17 +19,18 @@ type Row = {
 
 export default function ESGDashboard() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [rows, setRows] = useState<Row[]>([]);
 
   const load = async () => {
-    if (!user) return;
+    if (!user || !organization) return;
     setLoading(true);
     const { data, error } = await supabase
       .from("invoices")
       .select("id,vendor_name,total_amount,currency,esg_category,co2e_estimate")
-      .eq("user_id", user.id)
+      .eq("organization_id", organization.id)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -42,7 +44,7 @@ export default function ESGDashboard() {
   useEffect(() => {
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+  }, [user, organization?.id]);
 
   const mapOne = async (invoiceId: string) => {
     const { error } = await supabase.functions.invoke("esg-map", { body: { invoiceId } });
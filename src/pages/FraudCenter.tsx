@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/lib/auth";
+import { useOrganization } from "@/lib/organization";
 import { Loader2, AlertTriangle, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
@@ -21,17 +22,18 @@ type Row = {
 
 export default function FraudCenter() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const { toast } = useToast();
   const [rows, setRows] = useState<Row[]>([]);
   const [loading, setLoading] = useState(true);
 
   const load = async () => {
-    if (!user) return;
+    if (!user || !organization) return;
     setLoading(true);
     const { data, error } = await supabase
       .from("invoices")
       .select("id,vendor_name,invoice_number,total_amount,currency,fraud_score,anomaly_flags,created_at")
-      .eq("user_id", user.id)
+      .eq("organization_id", organization.id)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -46,7 +48,7 @@ export default function FraudCenter() {
   useEffect(() => {
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+  }, [user, organization?.id]);
 
   const runRisk = async (invoiceId: string) => {
     const { error } = await supabase.functions.invoke("risk-check", { body: { invoiceId } });
@@ -3,15 +3,20 @@ import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import {  Table,  TableBody,  TableCell,  TableHead,  TableHeader,  TableRow,} from "@/components/ui/table";
 import {  Dialog,  DialogContent,  DialogDescription,  DialogHeader,  DialogTitle,} from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/lib/auth";
-import {  Search,  FileText,  Download,  Eye,  Trash2,  AlertTriangle,  CheckCircle2,  Clock,  Loader2,  ExternalLink,} from "lucide-react";
+import { useOrganization } from "@/lib/organization";
+import {  Search,  FileText,  Download,  Eye,  Trash2,  AlertTriangle,  CheckCircle2,  Clock,  Loader2,  ExternalLink,  MessageSquare,  Send,  Copy,} from "lucide-react";
 import { useSearchParams } from "react-router-dom";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { readClarificationDocument } from "@/lib/documentText";
 
 interface Invoice {
   id: string;
@@ -30,20 +35,116 @@ interface Invoice {
 
   risk_score: string | null;
   compliance_status: string | null;
+  compliance_issues?: unknown;
+  supplier_vat_id?: string | null;
+  buyer_vat_id?: string | null;
+  supplier_vat_id_valid?: boolean | null;
+  buyer_vat_id_valid?: boolean | null;
+  vat_amount_computed?: number | null;
+  vat_treatment?: string | null;
+  vat_breakdown?: unknown;
+  iban?: string | null;
+  iban_valid?: boolean | null;
+  bic?: string | null;
+  bic_valid?: boolean | null;
+  account_holder?: string | null;
+  payment_reference?: string | null;
 
   is_flagged: boolean;
   flag_reason: string | null;
 
   // Approval/workflow (align with DB enum)
-  approval?: "pass" | "fail" | "needs_info" | "human_approval" | null;
+  approval?: "pass" | "fail" | "needs_info" | "human_approval" | "pending" | null;
   approval_confidence?: number | null;
   needs_human_approval?: boolean | null;
+  needs_info_fields?: string[] | null;
 
   created_at: string;
 }
 
+interface ApprovalStep {
+  id: string;
+  cycle: number;
+  step_index: number;
+  step_name: string | null;
+  status: "pass" | "fail" | "needs_info" | "pending";
+  reasons: string[] | null;
+  decided_at: string | null;
+}
+
+interface Clarification {
+  id: string;
+  requested_by: string | null;
+  recipient: "submitter" | "vendor";
+  recipient_email: string | null;
+  requested_fields: string[];
+  status: "open" | "resolved" | "canceled";
+  token_expires_at: string | null;
+  created_at: string;
+}
+
+interface ClarificationMessage {
+  id: string;
+  clarification_id: string;
+  author_kind: "requester" | "submitter" | "vendor" | "system";
+  body: string | null;
+  field_values: Record<string, unknown> | null;
+  document_path: string | null;
+  document_name: string | null;
+  created_at: string;
+}
+
+// Mirrors CLARIFIABLE_FIELDS in supabase/functions/_shared/clarifications.ts
+const CLARIFIABLE_FIELDS: Record<string, string> = {
+  vendor_name: "Vendor name",
+  invoice_number: "Invoice number",
+  invoice_date: "Invoice date",
+  total_amount: "Total amount",
+  tax_amount: "VAT amount",
+  currency: "Currency",
+  supplier_vat_id: "Supplier VAT ID",
+  buyer_vat_id: "Buyer VAT ID",
+  iban: "IBAN",
+  bic: "BIC",
+  account_holder: "Account holder",
+  payment_reference: "Payment reference",
+  due_date: "Due date",
+  payment_terms: "Payment terms",
+};
+
+const AUTHOR_LABELS: Record<ClarificationMessage["author_kind"], string> = {
+  requester: "Request",
+  submitter: "Submitter",
+  vendor: "Vendor",
+  system: "System",
+};
+
+interface ComplianceIssue {
+  code: string;
+  message: string;
+  severity: "info" | "warning" | "error";
+  legal_ref?: string;
+}
+
+interface VatBreakdownRow {
+  rate: number;
+  net: number;
+  vat: number;
+}
+
+interface LineItem {
+  id: string;
+  line_index: number;
+  description: string | null;
+  quantity: number | null;
+  unit_price: number | null;
+  net_amount: number | null;
+  vat_rate: number | null;
+}
+
 export default function Invoices() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const { toast } = useToast();
   const invokeAuthed = async <T,>(fn: string, body?: unknown, method: string = "POST") => {
     const { data: s, error: sErr } = await supabase.auth.getSession();
@@ -73,11 +174,25 @@ export default function Invoices() {
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [savingApproval, setSavingApproval] = useState(false);
+  const [lineItems, setLineItems] = useState<LineItem[]>([]);
+  const [approvalSteps, setApprovalSteps] = useState<ApprovalStep[]>([]);
+  const [clarifications, setClarifications] = useState<Clarification[]>([]);
+  const [thread, setThread] = useState<ClarificationMessage[]>([]);
+  const [answer, setAnswer] = useState<{ values: Record<string, string>; note: string; file: File | null }>({ values: {}, note: "", file: null });
+  const [clarRequest, setClarRequest] = useState<{ open: boolean; recipient: "submitter" | "vendor"; email: string; fields: string[]; message: string }>({
+    open: false,
+    recipient: "vendor",
+    email: "",
+    fields: [],
+    message: "",
+  });
+  const [vendorLink, setVendorLink] = useState<string | null>(null);
+  const [clarBusy, setClarBusy] = useState(false);
 
   useEffect(() => {
-    if (user) fetchInvoices();
+    if (user && organization) fetchInvoices();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+  }, [user, organization?.id]);
 
   // Allow quick links like /dashboard/invoices?flagged=1
   useEffect(() => {
@@ -91,13 +206,70 @@ export default function Invoices() {
     else setView("all");
   }, [searchParams]);
 
+  const loadClarifications = async (invoiceId: string) => {
+    const c = await supabase
+      .from("invoice_clarifications")
+      .select("id,requested_by,recipient,recipient_email,requested_fields,status,token_expires_at,created_at")
+      .eq("invoice_id", invoiceId)
+      .order("created_at", { ascending: false });
+    const m = await supabase
+      .from("invoice_clarification_messages")
+      .select("id,clarification_id,author_kind,body,field_values,document_path,document_name,created_at")
+      .eq("invoice_id", invoiceId)
+      .order("created_at", { ascending: true });
+    if (c.error) console.warn("Failed to load clarifications:", c.error);
+    setClarifications((c.data as Clarification[]) || []);
+    setThread((m.data as ClarificationMessage[]) || []);
+  };
+
+  useEffect(() => {
+    setLineItems([]);
+    setApprovalSteps([]);
+    setClarifications([]);
+    setThread([]);
+    setAnswer({ values: {}, note: "", file: null });
+    setVendorLink(null);
+    setClarRequest((r) => ({ ...r, open: false }));
+    if (!selectedInvoice) return;
+    loadClarifications(selectedInvoice.id);
+
+    let cancelled = false;
+    supabase
+      .from("invoice_line_items")
+      .select("id,line_index,description,quantity,unit_price,net_amount,vat_rate")
+      .eq("invoice_id", selectedInvoice.id)
+      .order("line_index", { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.warn("Failed to load line items:", error);
+        setLineItems((data as LineItem[]) || []);
+      });
+
+    // Latest approval chain cycle, if the invoice went through one
+    supabase
+      .from("approvals")
+      .select("id,cycle,step_index,step_name,status,reasons,decided_at")
+      .eq("invoice_id", selectedInvoice.id)
+      .order("cycle", { ascending: false })
+      .order("step_index", { ascending: true })
+      .then(({ data }) => {
+        if (cancelled) return;
+        const rows = (data as ApprovalStep[]) || [];
+        setApprovalSteps(rows.filter((r) => r.cycle === rows[0]?.cycle));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedInvoice]);
+
   const fetchInvoices = async () => {
     setLoading(true);
     try {
       const { data, error } = await supabase
         .from("invoices")
         .select("*")
-        .eq("user_id", user!.id)
+        .eq("organization_id", organization!.id)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -138,6 +310,80 @@ export default function Invoices() {
     }
   };
 
+  const openClarification = clarifications.find((c) => c.status === "open") ?? null;
+
+  const functionError = async (error: unknown) => {
+    const ctx = (error as { context?: Response }).context;
+    const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+    return detail?.error || (error as Error).message;
+  };
+
+  const refreshInvoice = async (invoiceId: string) => {
+    const { data } = await supabase.from("invoices").select("*").eq("id", invoiceId).maybeSingle();
+    if (!data) return;
+    setInvoices((prev) => prev.map((inv) => (inv.id === invoiceId ? (data as Invoice) : inv)));
+    setSelectedInvoice((prev) => (prev && prev.id === invoiceId ? (data as Invoice) : prev));
+  };
+
+  const requestClarification = async (invoice: Invoice) => {
+    setClarBusy(true);
+    try {
+      const { data, error } = await invokeAuthed<{ token?: string | null }>("invoice-clarifications", {
+        action: "request",
+        invoiceId: invoice.id,
+        recipient: clarRequest.recipient,
+        recipientEmail: clarRequest.recipient === "vendor" ? clarRequest.email : undefined,
+        fields: clarRequest.fields,
+        message: clarRequest.message,
+      });
+      if (error) throw new Error(await functionError(error));
+      // The vendor link is only shown now: the server keeps just a hash of its token
+      setVendorLink(data?.token ? `${window.location.origin}/clarify/${data.token}` : null);
+      setClarRequest((r) => ({ ...r, open: false, message: "" }));
+      toast({ title: "Information requested", description: data?.token ? "Send the link below to the vendor." : undefined });
+      await loadClarifications(invoice.id);
+    } catch (e) {
+      toast({ variant: "destructive", title: "Request failed", description: (e as Error).message });
+    } finally {
+      setClarBusy(false);
+    }
+  };
+
+  const answerClarification = async (invoice: Invoice, clarification: Clarification) => {
+    setClarBusy(true);
+    try {
+      const { data, error } = await invokeAuthed<{ rerun?: { approval: string; resolved: boolean } | null }>("invoice-clarifications", {
+        action: "respond",
+        clarificationId: clarification.id,
+        values: answer.values,
+        message: answer.note,
+        document: answer.file ? await readClarificationDocument(answer.file) : undefined,
+      });
+      if (error) throw new Error(await functionError(error));
+      setAnswer({ values: {}, note: "", file: null });
+      toast({
+        title: data?.rerun ? (data.rerun.resolved ? "Invoice re-checked" : "Still missing information") : "Message sent",
+        description: data?.rerun ? `Status: ${data.rerun.approval.replace("_", " ")}` : undefined,
+      });
+      await loadClarifications(invoice.id);
+      if (data?.rerun) await refreshInvoice(invoice.id);
+    } catch (e) {
+      toast({ variant: "destructive", title: "Answer failed", description: (e as Error).message });
+    } finally {
+      setClarBusy(false);
+    }
+  };
+
+  const cancelClarification = async (invoice: Invoice, clarification: Clarification) => {
+    const { error } = await invokeAuthed("invoice-clarifications", { action: "cancel", clarificationId: clarification.id });
+    if (error) {
+      toast({ variant: "destructive", title: "Could not close the request", description: await functionError(error) });
+      return;
+    }
+    setVendorLink(null);
+    await loadClarifications(invoice.id);
+  };
+
   // approval values must match your DB enum (recommended: pass | fail | needs_info | human_approval)
   const setApproval = async (
     invoiceId: string,
@@ -153,13 +399,26 @@ export default function Invoices() {
           ? ((selectedInvoice as any)?.approval_reasons as string[] | undefined) ?? ["policy_violation"]
           : [];
 
-      await invokeAuthed("set-approval", { invoiceId, status, reasons });
+      const { data, error } = await invokeAuthed<{ status?: Invoice["approval"]; chain?: { name: string } | null }>("set-approval", {
+        invoiceId,
+        status,
+        reasons,
+      });
+      if (error) {
+        const ctx = (error as { context?: Response }).context;
+        const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+        throw new Error(detail?.error || error.message);
+      }
 
-      // Optimistically update list + selected invoice
-      setInvoices((prev) => prev.map((inv) => (inv.id === invoiceId ? { ...inv, approval: status } : inv)));
-      setSelectedInvoice((prev) => (prev && prev.id === invoiceId ? ({ ...prev, approval: status } as any) : prev));
+      // With an approval chain the resulting status can differ from the one requested (e.g. pass -> pending)
+      const next = data?.status || status;
+      setInvoices((prev) => prev.map((inv) => (inv.id === invoiceId ? { ...inv, approval: next } : inv)));
+      setSelectedInvoice((prev) => (prev && prev.id === invoiceId ? ({ ...prev, approval: next } as any) : prev));
 
-      toast({ title: "Updated", description: `Invoice status set to ${status}.` });
+      toast({
+        title: "Updated",
+        description: data?.chain ? `Invoice sent for approval (${data.chain.name}).` : `Invoice status set to ${String(next).replace("_", " ")}.`,
+      });
     } catch (e: any) {
       toast({ variant: "destructive", title: "Approval update failed", description: e?.message || "Unknown error" });
     } finally {
@@ -585,10 +844,129 @@ export default function Invoices() {
                     <p className="text-sm text-muted-foreground">VAT rate</p>
                     <p className="font-medium">
                       {(selectedInvoice as any).vat_rate != null ? `${(Number((selectedInvoice as any).vat_rate) * 100).toFixed(2)}%` : "—"}
+                      {Array.isArray(selectedInvoice.vat_breakdown) && selectedInvoice.vat_breakdown.length > 1 && (
+                        <span className="text-xs text-muted-foreground ml-2">
+                          ({(selectedInvoice.vat_breakdown as VatBreakdownRow[]).map((b) => `${(Number(b.rate) * 100).toFixed(1)}% on ${Number(b.net).toFixed(2)}`).join(" + ")})
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">VAT treatment</p>
+                    <p className="font-medium capitalize">{String(selectedInvoice.vat_treatment || "—").replace("_", " ")}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">VAT computed</p>
+                    <p className="font-medium">
+                      {selectedInvoice.vat_amount_computed != null ? Number(selectedInvoice.vat_amount_computed).toFixed(2) : "—"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Supplier VAT ID</p>
+                    <p className="font-medium font-mono">
+                      {selectedInvoice.supplier_vat_id || "—"}
+                      {selectedInvoice.supplier_vat_id && selectedInvoice.supplier_vat_id_valid === false && (
+                        <Badge variant="destructive" className="ml-2">invalid</Badge>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Buyer VAT ID</p>
+                    <p className="font-medium font-mono">
+                      {selectedInvoice.buyer_vat_id || "—"}
+                      {selectedInvoice.buyer_vat_id && selectedInvoice.buyer_vat_id_valid === false && (
+                        <Badge variant="destructive" className="ml-2">invalid</Badge>
+                      )}
                     </p>
                   </div>
                 </div>
 
+                {(selectedInvoice.iban || selectedInvoice.account_holder) && (
+                  <div className="grid grid-cols-2 gap-4 p-3 rounded-lg bg-muted/40 border">
+                    <div className="col-span-2">
+                      <p className="text-sm text-muted-foreground">IBAN</p>
+                      <p className="font-medium font-mono">
+                        {selectedInvoice.iban ? selectedInvoice.iban.replace(/(.{4})/g, "$1 ").trim() : "—"}
+                        {selectedInvoice.iban && selectedInvoice.iban_valid === false && (
+                          <Badge variant="destructive" className="ml-2">invalid</Badge>
+                        )}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">BIC</p>
+                      <p className="font-medium font-mono">
+                        {selectedInvoice.bic || "—"}
+                        {selectedInvoice.bic && selectedInvoice.bic_valid === false && (
+                          <Badge variant="destructive" className="ml-2">invalid</Badge>
+                        )}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Account holder</p>
+                      <p className="font-medium">{selectedInvoice.account_holder || "—"}</p>
+                    </div>
+                    <div className="col-span-2">
+                      <p className="text-sm text-muted-foreground">Payment reference</p>
+                      <p className="font-medium break-all">{selectedInvoice.payment_reference || "—"}</p>
+                    </div>
+                  </div>
+                )}
+
+                {lineItems.length > 0 && (
+                  <div className="pt-2">
+                    <p className="text-sm text-muted-foreground mb-1">Line items</p>
+                    <div className="rounded-lg border max-h-48 overflow-y-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Description</TableHead>
+                            <TableHead className="text-right">Qty</TableHead>
+                            <TableHead className="text-right">Unit</TableHead>
+                            <TableHead className="text-right">Net</TableHead>
+                            <TableHead className="text-right">VAT</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {lineItems.map((li) => (
+                            <TableRow key={li.id}>
+                              <TableCell className="text-xs">{li.description || "-"}</TableCell>
+                              <TableCell className="text-xs text-right tabular-nums">{li.quantity ?? "-"}</TableCell>
+                              <TableCell className="text-xs text-right tabular-nums">
+                                {li.unit_price != null ? Number(li.unit_price).toFixed(2) : "-"}
+                              </TableCell>
+                              <TableCell className="text-xs text-right tabular-nums">
+                                {li.net_amount != null ? Number(li.net_amount).toFixed(2) : "-"}
+                              </TableCell>
+                              <TableCell className="text-xs text-right tabular-nums">
+                                {li.vat_rate != null ? `${(Number(li.vat_rate) * 100).toFixed(0)}%` : "-"}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+
+                {Array.isArray(selectedInvoice.compliance_issues) && selectedInvoice.compliance_issues.length > 0 && (
+                  <div className="pt-2">
+                    <p className="text-sm text-muted-foreground mb-1">Compliance issues</p>
+                    <div className="space-y-1 max-h-48 overflow-y-auto">
+                      {(selectedInvoice.compliance_issues as ComplianceIssue[]).map((iss, idx) => (
+                        <div key={`${iss.code}-${idx}`} className="flex items-start gap-2 text-xs">
+                          <Badge variant={iss.severity === "error" ? "destructive" : "secondary"} className="shrink-0">
+                            {iss.code}
+                          </Badge>
+                          <span>
+                            {iss.message}
+                            {iss.legal_ref && <span className="text-muted-foreground"> ({iss.legal_ref})</span>}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="pt-2 space-y-2">
                   <p className="text-sm text-muted-foreground">Approval actions</p>
                   <div className="flex flex-wrap gap-2">
@@ -620,6 +998,190 @@ export default function Invoices() {
                     </Button>
                   </div>
 
+                  {approvalSteps.length > 0 && (
+                    <div className="p-3 rounded-lg border space-y-2">
+                      <p className="text-sm font-medium">Approval chain</p>
+                      {approvalSteps.map((s) => (
+                        <div key={s.id} className="flex items-start justify-between gap-2 text-sm">
+                          <span>
+                            {s.step_index + 1}. {s.step_name || "Approval"}
+                            {!!s.reasons?.length && <span className="block text-xs text-muted-foreground">{s.reasons.join("; ")}</span>}
+                          </span>
+                          <Badge
+                            variant={s.status === "pass" ? "default" : s.status === "fail" ? "destructive" : "secondary"}
+                            className="capitalize shrink-0"
+                          >
+                            {s.status.replace("_", " ")}
+                            {s.decided_at ? ` · ${s.decided_at.slice(0, 10)}` : ""}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="p-3 rounded-lg border space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        <MessageSquare className="h-4 w-4" />
+                        Clarification
+                      </p>
+                      {openClarification ? (
+                        <Badge variant="secondary">
+                          waiting for {openClarification.recipient === "vendor" ? openClarification.recipient_email || "vendor" : "submitter"}
+                        </Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            setClarRequest((r) => ({
+                              ...r,
+                              open: !r.open,
+                              fields: selectedInvoice.needs_info_fields?.filter((f) => f in CLARIFIABLE_FIELDS) ?? [],
+                            }))
+                          }
+                        >
+                          Request information
+                        </Button>
+                      )}
+                    </div>
+
+                    {thread.length > 0 && (
+                      <div className="space-y-2 max-h-64 overflow-y-auto">
+                        {thread.map((m) => (
+                          <div key={m.id} className={`text-sm rounded-md p-2 ${m.author_kind === "system" ? "bg-muted/40" : "border"}`}>
+                            <p className="text-xs text-muted-foreground">
+                              {AUTHOR_LABELS[m.author_kind]} · {format(new Date(m.created_at), "MMM d, yyyy HH:mm")}
+                            </p>
+                            {m.body && <p className="whitespace-pre-line">{m.body}</p>}
+                            {m.field_values && (
+                              <ul className="text-xs mt-1">
+                                {Object.entries(m.field_values).map(([k, v]) => (
+                                  <li key={k}>
+                                    {CLARIFIABLE_FIELDS[k] || k}: <span className="font-medium">{String(v)}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {m.document_path && (
+                              <button
+                                type="button"
+                                className="text-xs underline mt-1"
+                                onClick={() => openFile(supabase.storage.from("invoices").getPublicUrl(m.document_path!).data.publicUrl)}
+                              >
+                                {m.document_name || "Document"}
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {vendorLink && (
+                      <div className="flex items-center gap-2">
+                        <Input readOnly value={vendorLink} className="text-xs" />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={async () => {
+                            await navigator.clipboard.writeText(vendorLink);
+                            toast({ title: "Copied", description: "Link copied to clipboard." });
+                          }}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+
+                    {clarRequest.open && !openClarification && (
+                      <div className="space-y-2">
+                        <div className="flex flex-wrap gap-2">
+                          <Select
+                            value={clarRequest.recipient}
+                            onValueChange={(v) => setClarRequest((r) => ({ ...r, recipient: v as "submitter" | "vendor" }))}
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="vendor">Vendor (link)</SelectItem>
+                              <SelectItem value="submitter">Submitter</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {clarRequest.recipient === "vendor" && (
+                            <Input
+                              type="email"
+                              className="flex-1 min-w-40"
+                              placeholder="Vendor email (for your reference)"
+                              value={clarRequest.email}
+                              onChange={(e) => setClarRequest((r) => ({ ...r, email: e.target.value }))}
+                            />
+                          )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-1">
+                          {Object.entries(CLARIFIABLE_FIELDS).map(([f, label]) => (
+                            <label key={f} className="flex items-center gap-2 text-xs">
+                              <Checkbox
+                                checked={clarRequest.fields.includes(f)}
+                                onCheckedChange={(v) =>
+                                  setClarRequest((r) => ({ ...r, fields: v ? [...r.fields, f] : r.fields.filter((x) => x !== f) }))
+                                }
+                              />
+                              {label}
+                            </label>
+                          ))}
+                        </div>
+                        <Textarea
+                          rows={2}
+                          placeholder="Message (defaults to the missing fields and the review reasons)"
+                          value={clarRequest.message}
+                          onChange={(e) => setClarRequest((r) => ({ ...r, message: e.target.value }))}
+                        />
+                        <Button size="sm" disabled={clarBusy} onClick={() => requestClarification(selectedInvoice)}>
+                          {clarBusy ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+                          Send request
+                        </Button>
+                      </div>
+                    )}
+
+                    {openClarification && (
+                      <div className="space-y-2">
+                        {openClarification.requested_fields.length > 0 && (
+                          <div className="grid grid-cols-2 gap-2">
+                            {openClarification.requested_fields.map((f) => (
+                              <Input
+                                key={f}
+                                placeholder={CLARIFIABLE_FIELDS[f] || f}
+                                value={answer.values[f] || ""}
+                                onChange={(e) => setAnswer((a) => ({ ...a, values: { ...a.values, [f]: e.target.value } }))}
+                              />
+                            ))}
+                          </div>
+                        )}
+                        <Textarea
+                          rows={2}
+                          placeholder="Reply"
+                          value={answer.note}
+                          onChange={(e) => setAnswer((a) => ({ ...a, note: e.target.value }))}
+                        />
+                        <Input
+                          type="file"
+                          accept=".pdf,.png,.jpg,.jpeg,.xml"
+                          onChange={(e) => setAnswer((a) => ({ ...a, file: e.target.files?.[0] ?? null }))}
+                        />
+                        <div className="flex gap-2">
+                          <Button size="sm" disabled={clarBusy} onClick={() => answerClarification(selectedInvoice, openClarification)}>
+                            {clarBusy ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+                            Send answer
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => cancelClarification(selectedInvoice, openClarification)}>
+                            Close request
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
                   {(selectedInvoice as any).payment_qr_string && (
                     <div className="p-3 rounded-lg bg-muted/40 border">
                       <p className="text-sm font-medium mb-1">Payment payload</p>
@@ -1,18 +1,571 @@
+import { useEffect, useState } from "react";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useOrganization } from "@/lib/organization";
+import { readStatementFile } from "@/lib/statementFile";
+import { useToast } from "@/hooks/use-toast";
+import { Check, FileUp, GitMerge, Landmark, Loader2, RefreshCw, Unplug, X } from "lucide-react";
+
+type BankStatement = {
+  id: string;
+  file_name: string;
+  format: string;
+  account_iban: string | null;
+  period_from: string | null;
+  period_to: string | null;
+  transaction_count: number;
+  imported_count: number;
+  duplicate_count: number;
+  created_at: string;
+};
+
+type BankConnection = {
+  id: string;
+  provider: string;
+  institution_name: string | null;
+  status: string;
+  consent_expires_at: string | null;
+  last_synced_at: string | null;
+  last_sync_imported: number;
+  last_error: string | null;
+};
+
+type ConnectionAccount = {
+  id: string;
+  connection_id: string;
+  iban: string | null;
+  name: string | null;
+  currency: string;
+  balance_booked: number | null;
+  balance_available: number | null;
+  balance_date: string | null;
+};
+
+type BankTransaction = {
+  id: string;
+  booking_date: string;
+  amount: number;
+  currency: string;
+  counterparty_name: string | null;
+  counterparty_iban: string | null;
+  remittance: string | null;
+  reconciled_amount: number;
+  reconciliation_status: string;
+};
+
+type MatchInvoice = {
+  id: string;
+  vendor_name: string | null;
+  invoice_number: string | null;
+  total_amount: number | null;
+  currency: string | null;
+};
+
+type ReviewMatch = {
+  id: string;
+  kind: string;
+  score: number;
+  reasons: string[] | null;
+  allocations: { transaction_id: string; invoice_id: string; amount: number; invoice_amount: number }[];
+};
+
+const FORMAT_LABELS: Record<string, string> = {
+  camt053: "camt.053",
+  mt940: "MT940",
+  csv: "CSV",
+};
+
+const CONNECTION_BADGES: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  active: "default",
+  expired: "destructive",
+  error: "destructive",
+  revoked: "outline",
+};
+
+const CONSENT_WARNING_DAYS = 14;
+
+const daysUntil = (iso: string) => Math.ceil((new Date(iso).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+const KIND_LABELS: Record<string, string> = {
+  one_to_one: "1:1",
+  one_to_many: "Combined payment",
+  many_to_one: "Instalments",
+  partial: "Partial",
+};
+
+const RECON_BADGES: Record<string, "default" | "secondary" | "outline"> = {
+  matched: "default",
+  partial: "secondary",
+  suggested: "outline",
+};
+
+const money = (currency: string | null, amount: number | null) =>
+  `${currency || ""} ${Number(amount ?? 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}`.trim();
 
 export default function OpenBanking() {
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [connections, setConnections] = useState<BankConnection[]>([]);
+  const [connectionAccounts, setConnectionAccounts] = useState<ConnectionAccount[]>([]);
+  const [syncing, setSyncing] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [matches, setMatches] = useState<ReviewMatch[]>([]);
+  const [matchTx, setMatchTx] = useState<Record<string, BankTransaction>>({});
+  const [matchInvoices, setMatchInvoices] = useState<Record<string, MatchInvoice>>({});
+  const [matching, setMatching] = useState(false);
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const load = async () => {
+    if (!user || !organization) return;
+    setLoading(true);
+
+    const c = await supabase
+      .from("bank_connections")
+      .select("id,provider,institution_name,status,consent_expires_at,last_synced_at,last_sync_imported,last_error")
+      .eq("organization_id", organization.id)
+      .neq("status", "revoked")
+      .order("created_at", { ascending: false });
+
+    const ca = await supabase
+      .from("bank_connection_accounts")
+      .select("id,connection_id,iban,name,currency,balance_booked,balance_available,balance_date")
+      .eq("organization_id", organization.id);
+
+    const s = await supabase
+      .from("bank_statements")
+      .select("id,file_name,format,account_iban,period_from,period_to,transaction_count,imported_count,duplicate_count,created_at")
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: false });
+
+    const t = await supabase
+      .from("bank_transactions")
+      .select("id,booking_date,amount,currency,counterparty_name,counterparty_iban,remittance,reconciled_amount,reconciliation_status")
+      .eq("organization_id", organization.id)
+      .order("booking_date", { ascending: false })
+      .limit(200);
+
+    const m = await supabase
+      .from("reconciliation_matches")
+      .select("id,kind,score,reasons")
+      .eq("organization_id", organization.id)
+      .eq("status", "suggested")
+      .order("score", { ascending: false })
+      .limit(100);
+
+    if (c.error) toast({ variant: "destructive", title: "Failed to load bank connections", description: c.error.message });
+    if (s.error) toast({ variant: "destructive", title: "Failed to load statements", description: s.error.message });
+    if (t.error) toast({ variant: "destructive", title: "Failed to load transactions", description: t.error.message });
+
+    setConnections((c.data as BankConnection[]) || []);
+    setConnectionAccounts((ca.data as ConnectionAccount[]) || []);
+    setStatements((s.data as BankStatement[]) || []);
+    if (m.error) toast({ variant: "destructive", title: "Failed to load matches", description: m.error.message });
+
+    setTransactions((t.data as BankTransaction[]) || []);
+    await loadMatchDetails(m.data || []);
+    setLoading(false);
+  };
+
+  const loadMatchDetails = async (rows: Omit<ReviewMatch, "allocations">[]) => {
+    const ids = rows.map((r) => r.id);
+    const a = ids.length
+      ? await supabase.from("reconciliation_allocations").select("match_id,transaction_id,invoice_id,amount,invoice_amount").in("match_id", ids)
+      : { data: [] };
+    const allocs = a.data || [];
+
+    const txIds = [...new Set(allocs.map((x) => x.transaction_id))];
+    const invIds = [...new Set(allocs.map((x) => x.invoice_id))];
+    const tx = txIds.length
+      ? await supabase
+          .from("bank_transactions")
+          .select("id,booking_date,amount,currency,counterparty_name,counterparty_iban,remittance,reconciled_amount,reconciliation_status")
+          .in("id", txIds)
+      : { data: [] };
+    const inv = invIds.length
+      ? await supabase.from("invoices").select("id,vendor_name,invoice_number,total_amount,currency").in("id", invIds)
+      : { data: [] };
+
+    setMatches(rows.map((r) => ({ ...r, allocations: allocs.filter((x) => x.match_id === r.id) })));
+    setMatchTx(Object.fromEntries(((tx.data as BankTransaction[]) || []).map((x) => [x.id, x])));
+    setMatchInvoices(Object.fromEntries(((inv.data as MatchInvoice[]) || []).map((x) => [x.id, x])));
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, organization?.id]);
+
+  const invokeBankSync = async (body: { action: "connect" | "sync" | "disconnect"; provider?: string; connectionId?: string }) => {
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+    const { data, error } = await supabase.functions.invoke("bank-sync", {
+      body,
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: "Bank connection failed", description: detail?.error || error.message });
+      return null;
+    }
+    return data;
+  };
+
+  const connectSandbox = async () => {
+    setSyncing("connect");
+    const data = await invokeBankSync({ action: "connect", provider: "sandbox" });
+    setSyncing(null);
+    if (!data) return;
+    toast({ title: "Bank connected", description: `${data.result?.imported ?? 0} transaction(s) imported.` });
+    await load();
+  };
+
+  const syncConnection = async (connectionId: string) => {
+    setSyncing(connectionId);
+    const data = await invokeBankSync({ action: "sync", connectionId });
+    setSyncing(null);
+    if (!data) return;
+    const failed = (data.results as { error?: string }[] | undefined)?.find((r) => r.error);
+    if (failed) toast({ variant: "destructive", title: "Sync failed", description: failed.error });
+    else toast({ title: "Sync complete", description: `${data.imported ?? 0} new transaction(s).` });
+    await load();
+  };
+
+  const disconnect = async (connectionId: string) => {
+    setSyncing(connectionId);
+    const data = await invokeBankSync({ action: "disconnect", connectionId });
+    setSyncing(null);
+    if (!data) return;
+    toast({ title: "Bank disconnected", description: "Imported transactions were kept." });
+    await load();
+  };
+
+  const invokeReconcile = async (body: { action: "run" | "confirm" | "reject"; matchId?: string }) => {
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+    const { data, error } = await supabase.functions.invoke("reconcile", {
+      body,
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: "Reconciliation failed", description: detail?.error || error.message });
+      return null;
+    }
+    return data;
+  };
+
+  const runMatching = async () => {
+    setMatching(true);
+    const data = await invokeReconcile({ action: "run" });
+    setMatching(false);
+    if (!data) return;
+    toast({
+      title: "Matching complete",
+      description: `${data.auto_confirmed ?? 0} auto-confirmed, ${data.suggested ?? 0} awaiting review.`,
+    });
+    await load();
+  };
+
+  const decide = async (matchId: string, action: "confirm" | "reject") => {
+    setDeciding(matchId);
+    const data = await invokeReconcile({ action, matchId });
+    setDeciding(null);
+    if (!data) return;
+    toast({ title: action === "confirm" ? "Match confirmed" : "Match rejected" });
+    await load();
+  };
+
+  const importStatement = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    if (f.size > 10 * 1024 * 1024) {
+      toast({ variant: "destructive", title: "File too large", description: "Statements up to 10MB are supported." });
+      return;
+    }
+
+    setImporting(true);
+    const content = await readStatementFile(f);
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+
+    const { data, error } = await supabase.functions.invoke("bank-import", {
+      body: { fileName: f.name, content },
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    setImporting(false);
+
+    if (error) {
+      // 422 explains why the file could not be read
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: "Import failed", description: detail?.error || error.message });
+      return;
+    }
+
+    const recon = data?.reconciliation as { suggested: number; auto_confirmed: number } | null | undefined;
+    toast({
+      title: "Statement imported",
+      description:
+        `${data?.imported ?? 0} new transaction(s)${data?.duplicates ? `, ${data.duplicates} already imported` : ""}.` +
+        (recon ? ` ${recon.auto_confirmed} reconciled automatically, ${recon.suggested} to review.` : ""),
+    });
+    await load();
+  };
+
   return (
-    
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-display font-bold">Open Banking</h1>
-          <p className="text-muted-foreground mt-1">Sync transactions and reconcile invoices (skeleton page).</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Open Banking</h1>
+            <p className="text-muted-foreground mt-1">Connect banks, import statements and reconcile invoices.</p>
+          </div>
+          <Button variant="outline" onClick={load}>
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </Button>
         </div>
-        <Card className="glass-card"><CardContent className="p-6 text-muted-foreground">Integration skeleton: implement bank connector in a Supabase Edge Function and store transactions.</CardContent></Card>
+
+        <Card className="glass-card">
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h3 className="font-semibold">Bank connections</h3>
+                <p className="text-sm text-muted-foreground">
+                  Connected accounts sync balances and new transactions automatically. Consents must be renewed when they expire.
+                </p>
+              </div>
+              <Button onClick={connectSandbox} disabled={syncing === "connect" || !user}>
+                {syncing === "connect" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Landmark className="h-4 w-4 mr-2" />}
+                Connect sandbox bank
+              </Button>
+            </div>
+
+            {connections.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No bank connected.</div>
+            ) : (
+              <div className="space-y-2">
+                {connections.map((c) => {
+                  const days = c.consent_expires_at ? daysUntil(c.consent_expires_at) : null;
+                  return (
+                    <div key={c.id} className="p-3 rounded-lg border bg-card space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="text-sm">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{c.institution_name || c.provider}</p>
+                            <Badge variant={CONNECTION_BADGES[c.status] || "outline"}>{c.status}</Badge>
+                          </div>
+                          <p className="text-muted-foreground">
+                            Last sync: {c.last_synced_at ? new Date(c.last_synced_at).toLocaleString() : "never"}
+                            {c.last_synced_at ? ` (${c.last_sync_imported} new)` : ""}
+                            {days !== null && (
+                              <span className={days <= CONSENT_WARNING_DAYS ? "text-destructive" : ""}>
+                                {" "}
+                                • {days > 0 ? `Consent expires in ${days} day(s)` : "Consent expired"}
+                              </span>
+                            )}
+                          </p>
+                          {c.last_error && <p className="text-xs text-destructive">{c.last_error}</p>}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => syncConnection(c.id)} disabled={syncing === c.id}>
+                            {syncing === c.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+                            Sync now
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => disconnect(c.id)} disabled={syncing === c.id}>
+                            <Unplug className="h-4 w-4 mr-1" /> Disconnect
+                          </Button>
+                        </div>
+                      </div>
+                      {connectionAccounts
+                        .filter((a) => a.connection_id === c.id)
+                        .map((a) => (
+                          <div key={a.id} className="flex items-center justify-between text-sm">
+                            <span>
+                              {a.name || "Account"} <span className="text-muted-foreground">{a.iban}</span>
+                            </span>
+                            <span className="font-medium">
+                              {money(a.currency, a.balance_booked)}
+                              {a.balance_available !== null && a.balance_available !== a.balance_booked && (
+                                <span className="text-muted-foreground font-normal"> ({money(a.currency, a.balance_available)} available)</span>
+                              )}
+                            </span>
+                          </div>
+                        ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h3 className="font-semibold">Statement import</h3>
+                <p className="text-sm text-muted-foreground">
+                  ISO 20022 camt.053 XML, SWIFT MT940 or CSV exports. Overlapping statements are de-duplicated.
+                </p>
+              </div>
+              <input
+                type="file"
+                accept=".xml,.sta,.mt940,.940,.txt,.csv"
+                onChange={importStatement}
+                className="hidden"
+                id="statement-upload"
+              />
+              <Button asChild disabled={importing || !user}>
+                <label htmlFor="statement-upload" className="cursor-pointer">
+                  {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+                  Import statement
+                </label>
+              </Button>
+            </div>
+
+            {statements.length > 0 && (
+              <div className="space-y-2">
+                {statements.slice(0, 10).map((st) => (
+                  <div key={st.id} className="p-3 rounded-lg border bg-card flex items-center justify-between gap-4">
+                    <div className="text-sm">
+                      <p className="font-medium">{st.file_name}</p>
+                      <p className="text-muted-foreground">
+                        {st.account_iban || "Unknown account"} • {st.period_from || "?"} – {st.period_to || "?"} •{" "}
+                        {st.imported_count} new, {st.duplicate_count} duplicate
+                      </p>
+                    </div>
+                    <Badge variant="secondary">{FORMAT_LABELS[st.format] || st.format}</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h3 className="font-semibold">Review queue</h3>
+                <p className="text-sm text-muted-foreground">
+                  Suggested invoice matches below the auto-confirm threshold. Confirming books the payment against the invoice.
+                </p>
+              </div>
+              <Button variant="outline" onClick={runMatching} disabled={matching || !user}>
+                {matching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+                Run matching
+              </Button>
+            </div>
+
+            {matches.length === 0 ? (
+              <div className="text-sm text-muted-foreground">Nothing to review.</div>
+            ) : (
+              <div className="space-y-2">
+                {matches.map((m) => {
+                  const txIds = [...new Set(m.allocations.map((a) => a.transaction_id))];
+                  const invIds = [...new Set(m.allocations.map((a) => a.invoice_id))];
+                  return (
+                    <div key={m.id} className="p-3 rounded-lg border bg-card space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">{KIND_LABELS[m.kind] || m.kind}</Badge>
+                          <span className="text-sm font-medium">{Math.round(Number(m.score) * 100)}% confidence</span>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => decide(m.id, "confirm")} disabled={deciding === m.id}>
+                            <Check className="h-4 w-4 mr-1" /> Confirm
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => decide(m.id, "reject")} disabled={deciding === m.id}>
+                            <X className="h-4 w-4 mr-1" /> Reject
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="grid gap-2 md:grid-cols-2 text-sm">
+                        <div>
+                          {txIds.map((id) => {
+                            const tx = matchTx[id];
+                            return (
+                              <p key={id}>
+                                {tx ? `${tx.booking_date} • ${tx.counterparty_name || "—"} • ${money(tx.currency, tx.amount)}` : id}
+                              </p>
+                            );
+                          })}
+                        </div>
+                        <div>
+                          {invIds.map((id) => {
+                            const inv = matchInvoices[id];
+                            return (
+                              <p key={id}>
+                                {inv ? `${inv.vendor_name || "Unknown vendor"} • ${inv.invoice_number || "no number"} • ${money(inv.currency, inv.total_amount)}` : id}
+                              </p>
+                            );
+                          })}
+                        </div>
+                      </div>
+                      {m.reasons && m.reasons.length > 0 && <p className="text-xs text-muted-foreground">{m.reasons.join(" • ")}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardContent className="p-4">
+            <h3 className="font-semibold mb-2">Transactions</h3>
+            {loading ? (
+              <div className="flex items-center justify-center py-10">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : transactions.length === 0 ? (
+              <div className="text-muted-foreground">No transactions yet. Import a statement to get started.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Counterparty</TableHead>
+                    <TableHead>Remittance</TableHead>
+                    <TableHead>Reconciliation</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map((tx) => (
+                    <TableRow key={tx.id}>
+                      <TableCell>{tx.booking_date}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{tx.counterparty_name || "—"}</p>
+                        {tx.counterparty_iban && <p className="text-xs text-muted-foreground">{tx.counterparty_iban}</p>}
+                      </TableCell>
+                      <TableCell className="text-xs max-w-80">{tx.remittance || "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={RECON_BADGES[tx.reconciliation_status] || "outline"}>{tx.reconciliation_status}</Badge>
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${Number(tx.amount) < 0 ? "text-destructive" : ""}`}>
+                        {tx.currency} {Number(tx.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </DashboardLayout>
-
   );
 }
@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { ORG_ROLE_LABELS, OrgRole, useOrganization } from "@/lib/organization";
+import { useToast } from "@/hooks/use-toast";
+import { Building2, Loader2, Plus, RefreshCw, Save, Trash2, UserPlus } from "lucide-react";
+
+type Member = {
+  id: string;
+  user_id: string;
+  role: OrgRole;
+  email: string | null;
+  full_name: string | null;
+  created_at: string;
+};
+
+const ROLE_HINTS: Record<OrgRole, string> = {
+  owner: "Manages members and keeps the books",
+  accountant: "Keeps the books: payments, banking, policies",
+  approver: "Approves other members' invoices",
+  submitter: "Uploads invoices and claims, sees only their own",
+  viewer: "Read-only access to the books",
+};
+
+export default function Organization() {
+  const { user } = useAuth();
+  const { organization, organizations, can, refresh, switchOrganization } = useOrganization();
+  const { toast } = useToast();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [name, setName] = useState("");
+  const [invite, setInvite] = useState<{ email: string; role: OrgRole }>({ email: "", role: "submitter" });
+  const [newName, setNewName] = useState("");
+
+  const isOwner = can("manage");
+
+  const call = async <T,>(body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke("organizations", {
+      body: { organizationId: organization?.id, ...body },
+    });
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      throw new Error(detail?.error || error.message);
+    }
+    return data as T;
+  };
+
+  const load = async () => {
+    if (!user) return;
+    if (!organization) {
+      setMembers([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await call<{ members: Member[] }>({ action: "members" });
+      setMembers(res.members || []);
+    } catch (e) {
+      toast({ variant: "destructive", title: "Could not load members", description: (e as Error).message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setName(organization?.name || "");
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, organization?.id]);
+
+  const run = async (action: string, body: Record<string, unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await call({ action, ...body });
+      toast({ title: success });
+      return true;
+    } catch (e) {
+      toast({ variant: "destructive", title: "Action failed", description: (e as Error).message });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rename = async () => {
+    if (await run("rename", { name }, "Organization renamed")) await refresh();
+  };
+
+  const addMember = async () => {
+    if (await run("add_member", invite, `${invite.email} added`)) {
+      setInvite({ email: "", role: "submitter" });
+      await load();
+    }
+  };
+
+  const changeRole = async (m: Member, role: OrgRole) => {
+    if (await run("update_member", { memberId: m.id, role }, "Role updated")) {
+      await load();
+      if (m.user_id === user?.id) await refresh();
+    }
+  };
+
+  const removeMember = async (m: Member) => {
+    const leaving = m.user_id === user?.id;
+    if (!confirm(leaving ? `Leave ${organization?.name}?` : `Remove ${m.email || "this member"} from ${organization?.name}?`)) return;
+    if (await run("remove_member", { memberId: m.id }, leaving ? "You left the organization" : "Member removed")) {
+      if (leaving) await refresh();
+      else await load();
+    }
+  };
+
+  const create = async () => {
+    if (await run("create", { name: newName }, `${newName} created`)) {
+      setNewName("");
+      await refresh();
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Organization</h1>
+            <p className="text-muted-foreground mt-1">
+              Invoices, payments and banking belong to the organization; members see and change them according to their role.
+            </p>
+          </div>
+          <Button variant="outline" onClick={load} disabled={!organization}>
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </Button>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="glass-card lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Building2 className="h-4 w-4 text-primary" />
+                {organization?.name || "No organization"}
+              </CardTitle>
+              {organization && (
+                <CardDescription>
+                  You are {ORG_ROLE_LABELS[organization.role].toLowerCase()} — {ROLE_HINTS[organization.role].toLowerCase()}.
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isOwner && (
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label>Name</Label>
+                    <Input value={name} onChange={(e) => setName(e.target.value)} />
+                  </div>
+                  <Button variant="outline" onClick={rename} disabled={busy || !name.trim() || name === organization?.name}>
+                    <Save className="h-4 w-4 mr-2" /> Rename
+                  </Button>
+                </div>
+              )}
+
+              {loading ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members.map((m) => (
+                      <TableRow key={m.id}>
+                        <TableCell>
+                          <p className="font-medium">
+                            {m.full_name || m.email || m.user_id}
+                            {m.user_id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                          </p>
+                          {m.full_name && m.email && <p className="text-xs text-muted-foreground">{m.email}</p>}
+                        </TableCell>
+                        <TableCell>
+                          {isOwner ? (
+                            <Select value={m.role} onValueChange={(v) => changeRole(m, v as OrgRole)} disabled={busy}>
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(ORG_ROLE_LABELS) as OrgRole[]).map((r) => (
+                                  <SelectItem key={r} value={r}>
+                                    {ORG_ROLE_LABELS[r]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant="outline">{ORG_ROLE_LABELS[m.role]}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {(isOwner || m.user_id === user?.id) && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title={m.user_id === user?.id ? "Leave" : "Remove"}
+                              onClick={() => removeMember(m)}
+                              disabled={busy}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {isOwner && (
+              <Card className="glass-card">
+                <CardHeader>
+                  <CardTitle className="text-base">Add member</CardTitle>
+                  <CardDescription>They need an account already.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="space-y-1">
+                    <Label>Email</Label>
+                    <Input type="email" value={invite.email} onChange={(e) => setInvite((i) => ({ ...i, email: e.target.value }))} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Role</Label>
+                    <Select value={invite.role} onValueChange={(v) => setInvite((i) => ({ ...i, role: v as OrgRole }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ORG_ROLE_LABELS) as OrgRole[]).map((r) => (
+                          <SelectItem key={r} value={r}>
+                            {ORG_ROLE_LABELS[r]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">{ROLE_HINTS[invite.role]}</p>
+                  </div>
+                  <Button onClick={addMember} disabled={busy || !invite.email.trim()}>
+                    <UserPlus className="h-4 w-4 mr-2" /> Add
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle className="text-base">Your organizations</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {organizations.map((o) => (
+                  <div
+                    key={o.id}
+                    className={`p-3 rounded-lg border bg-card cursor-pointer ${o.id === organization?.id ? "border-primary" : ""}`}
+                    onClick={() => switchOrganization(o.id)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium">{o.name}</p>
+                      <Badge variant="outline">{ORG_ROLE_LABELS[o.role]}</Badge>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-end gap-2 pt-2">
+                  <div className="flex-1 space-y-1">
+                    <Label>New organization</Label>
+                    <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Acme GmbH" />
+                  </div>
+                  <Button variant="outline" onClick={create} disabled={busy || !newName.trim()}>
+                    <Plus className="h-4 w-4 mr-2" /> Create
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
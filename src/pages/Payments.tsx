@@ -3,9 +3,17 @@ import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/lib/auth";
-import { Loader2, QrCode, RefreshCw } from "lucide-react";
+import { useOrganization } from "@/lib/organization";
+import { CalendarClock, Download, FileCode, History, Loader2, Plus, QrCode, RefreshCw } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
 import { useToast } from "@/hooks/use-toast";
 
 type Payment = {
@@ -17,6 +25,43 @@ type Payment = {
   created_at: string;
 };
 
+type PaymentEvent = {
+  id: string;
+  payment_id: string;
+  actor_id: string | null;
+  from_status: string | null;
+  to_status: string;
+  reason: string | null;
+  created_at: string;
+};
+
+type ScheduleItem = {
+  invoice_id: string;
+  vendor_name: string | null;
+  invoice_number: string | null;
+  currency: string;
+  amount: number;
+  payment_terms: string | null;
+  due_date: string | null;
+  pay_date: string | null;
+  discount_percent: number | null;
+  discount_deadline: string | null;
+  discount_amount: number;
+  pay_amount: number;
+  annualized_rate: number | null;
+  status: "discount" | "due" | "overdue" | "no_terms";
+  reason: string;
+};
+
+type ScheduleTotals = Record<string, { count: number; outstanding: number; savings: number; pay_amount: number; overdue: number }>;
+
+const SCHEDULE_BADGES: Record<ScheduleItem["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  discount: "default",
+  due: "secondary",
+  overdue: "destructive",
+  no_terms: "outline",
+};
+
 type Invoice = {
   id: string;
   vendor_name: string | null;
@@ -24,43 +69,185 @@ type Invoice = {
   total_amount: number | null;
   currency: string | null;
   payment_qr_string: string | null;
+  payment_status: string | null;
+  approval: string | null;
+  iban: string | null;
+};
+
+type BankAccount = {
+  id: string;
+  name: string;
+  holder_name: string;
+  iban: string;
+  bic: string | null;
+  is_default: boolean;
 };
 
+type PaymentRun = {
+  id: string;
+  message_id: string;
+  status: string;
+  payment_count: number;
+  control_sum: number;
+  currency: string;
+  file_path: string | null;
+  created_at: string;
+};
+
+// Mirrors PAYMENT_TRANSITIONS in the payment-status function; the server has the final say
+const NEXT_STATUSES: Record<string, string[]> = {
+  draft: ["pending", "queued", "canceled"],
+  pending: ["draft", "queued", "canceled"],
+  queued: ["processing", "paid", "failed", "canceled"],
+  processing: ["paid", "failed"],
+  failed: ["draft", "queued", "canceled"],
+  paid: ["failed"],
+  canceled: [],
+};
+
+const TRANSITION_LABELS: Record<string, string> = {
+  draft: "Back to draft",
+  pending: "Hold",
+  queued: "Queue",
+  processing: "Processing",
+  paid: "Mark paid",
+  failed: "Mark failed",
+  canceled: "Cancel",
+};
+
+function downloadXml(xml: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([xml], { type: "application/xml" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const QR_LABELS: Record<string, string> = {
+  epc: "GiroCode (SEPA)",
+  spc: "Swiss QR-bill",
+  ukfp: "UK Faster Payments details",
+};
+
+// Swiss QR-bills carry the Swiss cross (7 mm on a 46 mm code) in the centre
+const SWISS_CROSS =
+  "data:image/svg+xml;utf8," +
+  encodeURIComponent(
+    "<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 19.8 19.8'><rect width='19.8' height='19.8' fill='white'/><rect x='0.7' y='0.7' width='18.4' height='18.4' fill='black'/><rect x='8.3' y='4' width='3.3' height='11' fill='white'/><rect x='4.4' y='7.9' width='11' height='3.3' fill='white'/></svg>",
+  );
+
+function qrFormatOf(qr: string): keyof typeof QR_LABELS | null {
+  if (qr.startsWith("BCD\n")) return "epc";
+  if (qr.startsWith("SPC\n")) return "spc";
+  if (qr.startsWith("UKFP\n")) return "ukfp";
+  return null;
+}
+
+function PaymentQr({ value }: { value: string }) {
+  const format = qrFormatOf(value);
+  if (!format) return <p className="text-xs text-muted-foreground break-all mt-2">{value}</p>;
+
+  const size = 144;
+  const ukLines = format === "ukfp" ? value.split("\n") : [];
+  return (
+    <div className="mt-3 space-y-1">
+      {/* EPC069-12 and the Swiss QR-bill both require error correction level M */}
+      <div className="inline-block rounded-md bg-white p-2">
+        <QRCodeSVG
+          value={value}
+          size={size}
+          level="M"
+          imageSettings={
+            format === "spc" ? { src: SWISS_CROSS, height: Math.round(size * 0.152), width: Math.round(size * 0.152), excavate: true } : undefined
+          }
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">{QR_LABELS[format]}</p>
+      {format === "ukfp" && (
+        <p className="text-xs text-muted-foreground">
+          Sort code {ukLines[3]} • Account {ukLines[4]} {ukLines[6] ? `• Ref ${ukLines[6]}` : ""}
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default function Payments() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [runs, setRuns] = useState<PaymentRun[]>([]);
+  const [events, setEvents] = useState<PaymentEvent[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [transitioning, setTransitioning] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [accountId, setAccountId] = useState<string>("");
+  const [executionDate, setExecutionDate] = useState<string>("");
+  const [exporting, setExporting] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
+  const [scheduleTotals, setScheduleTotals] = useState<ScheduleTotals>({});
+  const [costOfCapital, setCostOfCapital] = useState("8");
+  const [scheduling, setScheduling] = useState(false);
+  const [newAccount, setNewAccount] = useState({ name: "", holder_name: "", iban: "", bic: "" });
 
   const load = async () => {
-    if (!user) return;
+    if (!user || !organization) return;
     setLoading(true);
 
     const p = await supabase
       .from("payments")
       .select("id,invoice_id,status,amount,currency,created_at")
-      .eq("user_id", user.id)
+      .eq("organization_id", organization.id)
       .order("created_at", { ascending: false });
 
     const i = await supabase
       .from("invoices")
-      .select("id,vendor_name,invoice_number,total_amount,currency,payment_qr_string")
-      .eq("user_id", user.id)
+      .select("id,vendor_name,invoice_number,total_amount,currency,payment_qr_string,payment_status,approval,iban")
+      .eq("organization_id", organization.id)
+      .neq("direction", "outgoing")
       .order("created_at", { ascending: false });
 
+    const a = await supabase
+      .from("bank_accounts")
+      .select("id,name,holder_name,iban,bic,is_default")
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: true });
+
+    const r = await supabase
+      .from("payment_runs")
+      .select("id,message_id,status,payment_count,control_sum,currency,file_path,created_at")
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: false });
+
+    const e = await supabase
+      .from("payment_events")
+      .select("id,payment_id,actor_id,from_status,to_status,reason,created_at")
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: true });
+
     if (p.error) toast({ variant: "destructive", title: "Failed to load payments", description: p.error.message });
     if (i.error) toast({ variant: "destructive", title: "Failed to load invoices", description: i.error.message });
+    if (a.error) toast({ variant: "destructive", title: "Failed to load bank accounts", description: a.error.message });
 
+    const loadedAccounts = (a.data as BankAccount[]) || [];
     setPayments((p.data as Payment[]) || []);
     setInvoices((i.data as Invoice[]) || []);
+    setAccounts(loadedAccounts);
+    setRuns((r.data as PaymentRun[]) || []);
+    setEvents((e.data as PaymentEvent[]) || []);
+    setAccountId((cur) => cur || loadedAccounts.find((x) => x.is_default)?.id || loadedAccounts[0]?.id || "");
     setLoading(false);
   };
 
   useEffect(() => {
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+  }, [user, organization?.id]);
 
   const generateQR = async (invoiceId: string) => {
     // Ensure JWT is explicitly attached (fix 401 on Edge Function)
@@ -68,20 +255,138 @@ export default function Payments() {
     const token = sess.session?.access_token || null;
 
     const { data, error } = await supabase.functions.invoke("generate-qr", {
-      body: { invoiceId, method: "sepa" },
+      // The function picks GiroCode, Swiss QR-bill or UK Faster Payments from currency/jurisdiction
+      body: { invoiceId, method: "auto" },
       headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
     });
 
     if (error) {
-      toast({ variant: "destructive", title: "QR generation failed", description: error.message });
+      // 422 means the invoice lacks valid bank details; surface the server's reason
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: "QR generation failed", description: detail?.error || error.message });
       return;
     }
 
-    toast({ title: "QR generated", description: "Payment payload stored on invoice." });
+    const label = QR_LABELS[String(data?.qrFormat || "")] || "Payment payload";
+    toast({ title: "QR generated", description: `${label} stored on invoice.` });
     await load();
     return data;
   };
 
+  // Only payments that may still move to "queued" can go into a payment run
+  const lockedInvoices = new Set(payments.filter((p) => !NEXT_STATUSES[p.status]?.includes("queued")).map((p) => p.invoice_id));
+  const payable = invoices.filter((inv) => inv.approval === "pass" && inv.iban && !lockedInvoices.has(inv.id));
+
+  const toggle = (id: string, on: boolean) =>
+    setSelected((cur) => {
+      const next = new Set(cur);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const transition = async (payment: Payment, status: string) => {
+    setTransitioning(payment.id);
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+
+    const { error } = await supabase.functions.invoke("payment-status", {
+      body: { paymentId: payment.id, status },
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    setTransitioning(null);
+
+    if (error) {
+      // 409 carries the reason the transition is not allowed
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: "Status change failed", description: detail?.error || error.message });
+      return;
+    }
+
+    toast({ title: "Payment updated", description: `${payment.status} → ${status}` });
+    setExpanded(payment.id);
+    await load();
+  };
+
+  const loadSchedule = async () => {
+    setScheduling(true);
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+
+    const { data, error } = await supabase.functions.invoke("payment-schedule", {
+      body: { costOfCapital: Number(costOfCapital) / 100 },
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    setScheduling(false);
+
+    if (error) {
+      toast({ variant: "destructive", title: "Failed to load schedule", description: error.message });
+      return;
+    }
+    setSchedule((data?.items as ScheduleItem[]) || []);
+    setScheduleTotals((data?.totals as ScheduleTotals) || {});
+  };
+
+  const addAccount = async () => {
+    if (!user) return;
+    const { error } = await supabase.from("bank_accounts").insert({
+      user_id: user.id,
+      name: newAccount.name.trim() || "Main account",
+      holder_name: newAccount.holder_name.trim(),
+      iban: newAccount.iban.replace(/\s/g, "").toUpperCase(),
+      bic: newAccount.bic.trim().toUpperCase() || null,
+      is_default: accounts.length === 0,
+    });
+    if (error) {
+      toast({ variant: "destructive", title: "Could not add bank account", description: error.message });
+      return;
+    }
+    setNewAccount({ name: "", holder_name: "", iban: "", bic: "" });
+    await load();
+  };
+
+  const exportRun = async () => {
+    if (!selected.size) return;
+    setExporting(true);
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+
+    const { data, error } = await supabase.functions.invoke("payment-run", {
+      body: { invoiceIds: Array.from(selected), debtorAccountId: accountId || undefined, executionDate: executionDate || undefined },
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    setExporting(false);
+
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: "Payment run failed", description: detail?.error || error.message });
+      return;
+    }
+
+    const run = data?.run as PaymentRun;
+    downloadXml(String(data?.xml || ""), `${run.message_id}.xml`);
+    const skipped = Array.isArray(data?.skipped) ? data.skipped.length : 0;
+    toast({
+      title: "Payment run exported",
+      description: `${run.payment_count} payment(s), EUR ${Number(run.control_sum).toLocaleString()}${skipped ? ` • ${skipped} skipped` : ""}`,
+    });
+    setSelected(new Set());
+    await load();
+  };
+
+  const downloadRun = async (run: PaymentRun) => {
+    if (!run.file_path) return;
+    const { data, error } = await supabase.storage.from("invoices").download(run.file_path);
+    if (error || !data) {
+      toast({ variant: "destructive", title: "Download failed", description: error?.message || "File not found" });
+      return;
+    }
+    downloadXml(await data.text(), `${run.message_id}.xml`);
+  };
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -95,64 +400,326 @@ export default function Payments() {
           </Button>
         </div>
 
-        <Card className="glass-card">
-          <CardContent className="p-4">
-            {loading ? (
-              <div className="flex items-center justify-center py-10">
-                <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              </div>
-            ) : (
-              <div className="grid md:grid-cols-2 gap-6">
-                <div>
-                  <h3 className="font-semibold mb-2">Invoices (Generate QR)</h3>
-                  <div className="space-y-3">
-                    {invoices.slice(0, 15).map((inv) => (
-                      <div key={inv.id} className="p-4 rounded-lg border bg-card flex items-start justify-between gap-4">
-                        <div>
-                          <p className="font-medium">{inv.vendor_name || "Unknown Vendor"}</p>
-                          <p className="text-sm text-muted-foreground">
-                            #{inv.invoice_number || "-"} • {(inv.currency || "EUR")}{" "}
-                            {Number(inv.total_amount ?? 0).toLocaleString()}
-                          </p>
-                          {inv.payment_qr_string && (
-                            <p className="text-xs text-muted-foreground break-all mt-2">{inv.payment_qr_string}</p>
-                          )}
-                        </div>
-                        <Button size="sm" onClick={() => generateQR(inv.id)} disabled={!user}>
-                          <QrCode className="h-4 w-4 mr-2" /> QR
-                        </Button>
+        <Tabs defaultValue="payments" onValueChange={(v) => v === "schedule" && loadSchedule()}>
+          <TabsList>
+            <TabsTrigger value="payments">Payments</TabsTrigger>
+            <TabsTrigger value="schedule">Schedule</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="payments" className="mt-6 space-y-6">
+            <Card className="glass-card">
+              <CardContent className="p-4">
+                {loading ? (
+                  <div className="flex items-center justify-center py-10">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : (
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <div>
+                      <h3 className="font-semibold mb-2">Invoices (Generate QR)</h3>
+                      <div className="space-y-3">
+                        {invoices.slice(0, 15).map((inv) => (
+                          <div key={inv.id} className="p-4 rounded-lg border bg-card flex items-start justify-between gap-4">
+                            <div>
+                              <p className="font-medium">{inv.vendor_name || "Unknown Vendor"}</p>
+                              <p className="text-sm text-muted-foreground">
+                                #{inv.invoice_number || "-"} • {(inv.currency || "EUR")}{" "}
+                                {Number(inv.total_amount ?? 0).toLocaleString()}
+                              </p>
+                              {inv.payment_status && (
+                                <Badge variant={inv.payment_status === "paid" ? "default" : "outline"} className="capitalize mt-1">
+                                  {inv.payment_status}
+                                </Badge>
+                              )}
+                              {inv.payment_qr_string && <PaymentQr value={inv.payment_qr_string} />}
+                            </div>
+                            <Button size="sm" onClick={() => generateQR(inv.id)} disabled={!user}>
+                              <QrCode className="h-4 w-4 mr-2" /> QR
+                            </Button>
+                          </div>
+                        ))}
                       </div>
-                    ))}
+                    </div>
+
+                    <div>
+                      <h3 className="font-semibold mb-2">Payment Records</h3>
+                      <div className="space-y-3">
+                        {payments.length === 0 ? (
+                          <div className="text-muted-foreground">No payment records yet.</div>
+                        ) : (
+                          payments.slice(0, 15).map((p) => {
+                            const timeline = events.filter((ev) => ev.payment_id === p.id);
+                            return (
+                              <div key={p.id} className="p-4 rounded-lg border bg-card space-y-3">
+                                <div className="flex items-start justify-between gap-4">
+                                  <div>
+                                    <p className="font-medium">Payment</p>
+                                    <p className="text-sm text-muted-foreground">
+                                      {(p.currency || "EUR")} {Number(p.amount ?? 0).toLocaleString()} • Invoice:{" "}
+                                      {p.invoice_id || "—"}
+                                    </p>
+                                  </div>
+                                  <Badge variant="secondary" className="capitalize">
+                                    {p.status}
+                                  </Badge>
+                                </div>
+
+                                <div className="flex flex-wrap gap-2">
+                                  {(NEXT_STATUSES[p.status] || []).map((next) => (
+                                    <Button
+                                      key={next}
+                                      size="sm"
+                                      variant={next === "canceled" || next === "failed" ? "outline" : "secondary"}
+                                      disabled={transitioning === p.id}
+                                      onClick={() => transition(p, next)}
+                                    >
+                                      {TRANSITION_LABELS[next] || next}
+                                    </Button>
+                                  ))}
+                                  <Button size="sm" variant="ghost" onClick={() => setExpanded(expanded === p.id ? null : p.id)}>
+                                    <History className="h-4 w-4 mr-2" /> Timeline ({timeline.length})
+                                  </Button>
+                                </div>
+
+                                {expanded === p.id && (
+                                  <ol className="border-l pl-4 space-y-2">
+                                    {timeline.length === 0 ? (
+                                      <li className="text-xs text-muted-foreground">No recorded transitions.</li>
+                                    ) : (
+                                      timeline.map((ev) => (
+                                        <li key={ev.id} className="text-xs">
+                                          <span className="font-medium capitalize">
+                                            {ev.from_status ? `${ev.from_status} → ${ev.to_status}` : ev.to_status}
+                                          </span>
+                                          <span className="text-muted-foreground">
+                                            {" "}
+                                            • {new Date(ev.created_at).toLocaleString()} •{" "}
+                                            {ev.actor_id === user?.id ? "you" : ev.actor_id ? ev.actor_id.slice(0, 8) : "system"}
+                                          </span>
+                                          {ev.reason && <p className="text-muted-foreground">{ev.reason}</p>}
+                                        </li>
+                                      ))
+                                    )}
+                                  </ol>
+                                )}
+                              </div>
+                            );
+                          })
+                        )}
+                      </div>
+                    </div>
                   </div>
-                </div>
+                )}
+              </CardContent>
+            </Card>
 
+            <Card className="glass-card">
+              <CardContent className="p-4 space-y-6">
                 <div>
-                  <h3 className="font-semibold mb-2">Payment Records</h3>
+                  <h3 className="font-semibold">Payment run (SEPA pain.001)</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Export approved invoices as an ISO 20022 credit transfer file for upload to your bank.
+                  </p>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Debtor account</Label>
+                      {accounts.length > 0 ? (
+                        <Select value={accountId} onValueChange={setAccountId}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select account" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {accounts.map((acc) => (
+                              <SelectItem key={acc.id} value={acc.id}>
+                                {acc.name} • {acc.iban}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No bank account yet. Add the account payments are sent from.</p>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input placeholder="Account name" value={newAccount.name} onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })} />
+                      <Input
+                        placeholder="Account holder"
+                        value={newAccount.holder_name}
+                        onChange={(e) => setNewAccount({ ...newAccount, holder_name: e.target.value })}
+                      />
+                      <Input placeholder="IBAN" value={newAccount.iban} onChange={(e) => setNewAccount({ ...newAccount, iban: e.target.value })} />
+                      <Input placeholder="BIC (optional)" value={newAccount.bic} onChange={(e) => setNewAccount({ ...newAccount, bic: e.target.value })} />
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={addAccount}
+                      disabled={!user || !newAccount.holder_name.trim() || !newAccount.iban.trim()}
+                    >
+                      <Plus className="h-4 w-4 mr-2" /> Add account
+                    </Button>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="execution-date">Execution date</Label>
+                      <Input id="execution-date" type="date" value={executionDate} onChange={(e) => setExecutionDate(e.target.value)} />
+                      <p className="text-xs text-muted-foreground">Leave empty for the next business day.</p>
+                    </div>
+                  </div>
+
                   <div className="space-y-3">
-                    {payments.length === 0 ? (
-                      <div className="text-muted-foreground">No payment records yet.</div>
+                    <h4 className="font-medium">Approved invoices</h4>
+                    {payable.length === 0 ? (
+                      <div className="text-muted-foreground text-sm">No approved invoices with bank details awaiting payment.</div>
                     ) : (
-                      payments.slice(0, 15).map((p) => (
-                        <div key={p.id} className="p-4 rounded-lg border bg-card flex items-start justify-between gap-4">
-                          <div>
-                            <p className="font-medium">Payment</p>
-                            <p className="text-sm text-muted-foreground">
-                              {(p.currency || "EUR")} {Number(p.amount ?? 0).toLocaleString()} • Invoice:{" "}
-                              {p.invoice_id || "—"}
+                      payable.slice(0, 30).map((inv) => (
+                        <label key={inv.id} className="p-3 rounded-lg border bg-card flex items-center gap-3 cursor-pointer">
+                          <Checkbox checked={selected.has(inv.id)} onCheckedChange={(v) => toggle(inv.id, v === true)} />
+                          <div className="text-sm">
+                            <p className="font-medium">{inv.vendor_name || "Unknown Vendor"}</p>
+                            <p className="text-muted-foreground">
+                              #{inv.invoice_number || "-"} • {(inv.currency || "EUR")} {Number(inv.total_amount ?? 0).toLocaleString()}
                             </p>
                           </div>
-                          <Badge variant="secondary" className="capitalize">
-                            {p.status}
-                          </Badge>
-                        </div>
+                        </label>
                       ))
                     )}
+                    <Button onClick={exportRun} disabled={!user || exporting || !selected.size || !accounts.length}>
+                      {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileCode className="h-4 w-4 mr-2" />}
+                      Export pain.001 ({selected.size})
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="font-medium mb-2">Payment runs</h4>
+                  {runs.length === 0 ? (
+                    <div className="text-muted-foreground text-sm">No payment runs yet.</div>
+                  ) : (
+                    <div className="space-y-2">
+                      {runs.slice(0, 15).map((run) => (
+                        <div key={run.id} className="p-3 rounded-lg border bg-card flex items-center justify-between gap-4">
+                          <div className="text-sm">
+                            <p className="font-medium">{run.message_id}</p>
+                            <p className="text-muted-foreground">
+                              {run.payment_count} payment(s) • {run.currency} {Number(run.control_sum).toLocaleString()} •{" "}
+                              {new Date(run.created_at).toLocaleString()}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="secondary" className="capitalize">
+                              {run.status}
+                            </Badge>
+                            <Button size="sm" variant="outline" onClick={() => downloadRun(run)} disabled={!run.file_path}>
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="schedule" className="mt-6 space-y-6">
+            <Card className="glass-card">
+              <CardContent className="p-4 space-y-4">
+                <div className="flex flex-wrap items-end justify-between gap-4">
+                  <div>
+                    <h3 className="font-semibold">Payment schedule</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Proposed pay dates from due dates and payment terms, taking early-payment discounts when they pay off.
+                    </p>
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="cost-of-capital">Cost of capital (% p.a.)</Label>
+                      <Input
+                        id="cost-of-capital"
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        className="w-32"
+                        value={costOfCapital}
+                        onChange={(e) => setCostOfCapital(e.target.value)}
+                      />
+                    </div>
+                    <Button variant="outline" onClick={loadSchedule} disabled={scheduling}>
+                      {scheduling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarClock className="h-4 w-4 mr-2" />}
+                      Recalculate
+                    </Button>
                   </div>
                 </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+
+                {Object.keys(scheduleTotals).length > 0 && (
+                  <div className="grid sm:grid-cols-3 gap-4">
+                    {Object.entries(scheduleTotals).map(([cur, t]) => (
+                      <div key={cur} className="p-4 rounded-lg border bg-card">
+                        <p className="text-sm text-muted-foreground">Cash saved by discounts ({cur})</p>
+                        <p className="text-2xl font-bold">{t.savings.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {t.count} open • pay {t.pay_amount.toLocaleString()} of {t.outstanding.toLocaleString()}
+                          {t.overdue ? ` • ${t.overdue} overdue` : ""}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {scheduling && schedule.length === 0 ? (
+                  <div className="flex items-center justify-center py-10">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : schedule.length === 0 ? (
+                  <div className="text-muted-foreground text-sm">No open invoices to schedule.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Vendor</TableHead>
+                        <TableHead>Terms</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Due</TableHead>
+                        <TableHead>Discount until</TableHead>
+                        <TableHead>Pay on</TableHead>
+                        <TableHead>Saving</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {schedule.map((it) => (
+                        <TableRow key={it.invoice_id}>
+                          <TableCell>
+                            <p className="font-medium">{it.vendor_name || "Unknown Vendor"}</p>
+                            <p className="text-xs text-muted-foreground">#{it.invoice_number || "-"}</p>
+                          </TableCell>
+                          <TableCell className="text-xs max-w-48">{it.payment_terms || "—"}</TableCell>
+                          <TableCell>
+                            {it.currency} {it.amount.toLocaleString()}
+                          </TableCell>
+                          <TableCell>{it.due_date || "—"}</TableCell>
+                          <TableCell>{it.discount_deadline ? `${it.discount_deadline} (${it.discount_percent}%)` : "—"}</TableCell>
+                          <TableCell className="font-medium">{it.pay_date || "—"}</TableCell>
+                          <TableCell>{it.discount_amount ? `${it.currency} ${it.discount_amount.toLocaleString()}` : "—"}</TableCell>
+                          <TableCell>
+                            <Badge variant={SCHEDULE_BADGES[it.status]} className="capitalize" title={it.reason}>
+                              {it.status.replace("_", " ")}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,387 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/layout/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/lib/auth";
+import { useOrganization } from "@/lib/organization";
+import { useToast } from "@/hooks/use-toast";
+import { FlaskConical, Loader2, Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+
+type Policy = {
+  id: string;
+  name: string;
+  description: string | null;
+  jurisdiction: string | null;
+  max_amount: number | null;
+  require_invoice_number: boolean | null;
+  require_vat_id: boolean | null;
+  raw: Json | null;
+  is_active: boolean;
+};
+
+type Draft = {
+  id: string | null;
+  name: string;
+  description: string;
+  jurisdiction: string;
+  max_amount: string;
+  require_invoice_number: boolean;
+  require_vat_id: boolean;
+  rules: string; // JSON array, see _shared/policyEngine.ts PolicyRule
+  is_active: boolean;
+};
+
+type TestRow = {
+  invoice_id: string;
+  vendor_name: string | null;
+  invoice_number: string | null;
+  total_amount: number | null;
+  currency: string;
+  previous_decision: string | null;
+  decision: string;
+  reasons: string[];
+  changed: boolean;
+};
+
+type TestResult = { tested: number; changed: number; summary: Record<string, number>; results: TestRow[] };
+
+// Same behaviour as the built-in default policy, as a starting point for editing
+const DEFAULT_RULES = [
+  {
+    id: "eu_vat_required",
+    kind: "condition",
+    when: [
+      { any: [{ field: "jurisdiction", op: "in", value: ["EU", "DE", "FR", "IT", "ES", "NL", "BE", "AT"] }, { field: "currency", op: "eq", value: "EUR" }] },
+      { any: [{ field: "tax_amount", op: "missing" }, { field: "tax_amount", op: "lte", value: 0 }] },
+    ],
+    outcome: "needs_info",
+    code: "VAT_MISSING",
+    message: "VAT missing or invalid (EU).",
+    fields: ["tax_amount"],
+  },
+  { id: "human_approval_5000_eur", kind: "amount_threshold", max: 5000, currency: "EUR", outcome: "human_approval" },
+  { id: "min_confidence", kind: "confidence_threshold", min: 0.65 },
+];
+
+const emptyDraft: Draft = {
+  id: null,
+  name: "",
+  description: "",
+  jurisdiction: "",
+  max_amount: "",
+  require_invoice_number: true,
+  require_vat_id: false,
+  rules: JSON.stringify(DEFAULT_RULES, null, 2),
+  is_active: true,
+};
+
+const decisionVariant = (d: string | null) =>
+  d === "PASS" ? "default" : d === "FAIL" ? "destructive" : "secondary";
+
+function toDraft(p: Policy): Draft {
+  const raw = (p.raw && typeof p.raw === "object" && !Array.isArray(p.raw) ? p.raw : {}) as { rules?: unknown };
+  return {
+    id: p.id,
+    name: p.name,
+    description: p.description || "",
+    jurisdiction: p.jurisdiction || "",
+    max_amount: p.max_amount === null ? "" : String(p.max_amount),
+    require_invoice_number: !!p.require_invoice_number,
+    require_vat_id: !!p.require_vat_id,
+    rules: JSON.stringify(Array.isArray(raw.rules) ? raw.rules : [], null, 2),
+    is_active: p.is_active,
+  };
+}
+
+export default function Policies() {
+  const { user } = useAuth();
+  const { organization } = useOrganization();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [policies, setPolicies] = useState<Policy[]>([]);
+  const [draft, setDraft] = useState<Draft>({ ...emptyDraft });
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [test, setTest] = useState<TestResult | null>(null);
+
+  const load = async () => {
+    if (!user || !organization) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("policies")
+      .select("id,name,description,jurisdiction,max_amount,require_invoice_number,require_vat_id,raw,is_active")
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: true });
+    if (error) toast({ variant: "destructive", title: "Failed to load policies", description: error.message });
+    setPolicies((data as Policy[]) || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, organization?.id]);
+
+  const parseRules = (): Json[] | null => {
+    try {
+      const rules = JSON.parse(draft.rules || "[]");
+      if (!Array.isArray(rules)) throw new Error("Rules must be a JSON array.");
+      return rules as Json[];
+    } catch (e) {
+      toast({ variant: "destructive", title: "Invalid rules JSON", description: e instanceof Error ? e.message : String(e) });
+      return null;
+    }
+  };
+
+  const toRow = (rules: Json[]) => ({
+    name: draft.name.trim(),
+    description: draft.description.trim() || null,
+    jurisdiction: draft.jurisdiction.trim().toUpperCase() || null,
+    max_amount: draft.max_amount.trim() ? Number(draft.max_amount) : null,
+    require_invoice_number: draft.require_invoice_number,
+    require_vat_id: draft.require_vat_id,
+    raw: { rules },
+    is_active: draft.is_active,
+  });
+
+  const save = async () => {
+    if (!user) return;
+    if (!draft.name.trim()) {
+      toast({ variant: "destructive", title: "Name required", description: "Give the policy a name." });
+      return;
+    }
+    const rules = parseRules();
+    if (!rules) return;
+
+    setSaving(true);
+    const row = toRow(rules);
+    const res = draft.id
+      ? await supabase.from("policies").update(row).eq("id", draft.id).select("id").single()
+      : await supabase.from("policies").insert({ ...row, user_id: user.id }).select("id").single();
+    setSaving(false);
+
+    if (res.error) {
+      toast({ variant: "destructive", title: "Save failed", description: res.error.message });
+      return;
+    }
+    setDraft((d) => ({ ...d, id: res.data.id }));
+    toast({ title: "Policy saved", description: draft.is_active ? "It applies to new invoices from now on." : "Saved as inactive." });
+    await load();
+  };
+
+  const toggleActive = async (p: Policy) => {
+    const { error } = await supabase.from("policies").update({ is_active: !p.is_active }).eq("id", p.id);
+    if (error) toast({ variant: "destructive", title: "Update failed", description: error.message });
+    await load();
+  };
+
+  const remove = async (p: Policy) => {
+    const { error } = await supabase.from("policies").delete().eq("id", p.id);
+    if (error) {
+      toast({ variant: "destructive", title: "Delete failed", description: error.message });
+      return;
+    }
+    if (draft.id === p.id) setDraft({ ...emptyDraft });
+    await load();
+  };
+
+  const runTest = async () => {
+    const rules = parseRules();
+    if (!rules) return;
+
+    setTesting(true);
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+    const { data, error } = await supabase.functions.invoke("policy-test", {
+      body: { policy: { id: draft.id || "draft", ...toRow(rules), name: draft.name || "Draft policy" }, limit: 50 },
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    setTesting(false);
+
+    if (error) {
+      toast({ variant: "destructive", title: "Policy test failed", description: error.message });
+      return;
+    }
+    setTest(data as TestResult);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Policies</h1>
+            <p className="text-muted-foreground mt-1">
+              Approval rules applied by the invoice pipeline. Invoices no active policy applies to get the default (€5000 human approval, 0.65 confidence, EU VAT).
+            </p>
+          </div>
+          <Button variant="outline" onClick={load}>
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </Button>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="glass-card">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-base">Your policies</CardTitle>
+              <Button size="sm" variant="outline" onClick={() => { setDraft({ ...emptyDraft }); setTest(null); }}>
+                <Plus className="h-4 w-4 mr-1" /> New
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {loading ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : policies.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No policies yet — the default policy applies.</p>
+              ) : (
+                policies.map((p) => (
+                  <div
+                    key={p.id}
+                    className={`p-3 rounded-lg border bg-card cursor-pointer ${draft.id === p.id ? "border-primary" : ""}`}
+                    onClick={() => { setDraft(toDraft(p)); setTest(null); }}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium">{p.name}</p>
+                      <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                        <Switch checked={p.is_active} onCheckedChange={() => toggleActive(p)} />
+                        <Button size="icon" variant="ghost" onClick={() => remove(p)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {p.jurisdiction || "All jurisdictions"}
+                      {p.max_amount !== null ? ` • human approval above €${p.max_amount}` : ""}
+                    </p>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base">{draft.id ? "Edit policy" : "New policy"}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Jurisdiction (empty = all)</Label>
+                  <Input value={draft.jurisdiction} placeholder="EU, DE, UK, UAE, KSA…" onChange={(e) => setDraft({ ...draft, jurisdiction: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Human approval above (EUR)</Label>
+                  <Input value={draft.max_amount} inputMode="decimal" onChange={(e) => setDraft({ ...draft, max_amount: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Description</Label>
+                <Input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+              </div>
+
+              <div className="flex flex-wrap gap-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={draft.require_invoice_number} onCheckedChange={(v) => setDraft({ ...draft, require_invoice_number: v })} />
+                  Require invoice number
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={draft.require_vat_id} onCheckedChange={(v) => setDraft({ ...draft, require_vat_id: v })} />
+                  Require supplier VAT ID
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={draft.is_active} onCheckedChange={(v) => setDraft({ ...draft, is_active: v })} />
+                  Active
+                </label>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">
+                  Rules (JSON) — kinds: condition, require_fields, amount_threshold, confidence_threshold; outcomes: fail, needs_info, human_approval, warn, info
+                </Label>
+                <Textarea
+                  className="font-mono text-xs"
+                  rows={16}
+                  value={draft.rules}
+                  onChange={(e) => setDraft({ ...draft, rules: e.target.value })}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" disabled={testing} onClick={runTest}>
+                  {testing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+                  Test against past invoices
+                </Button>
+                <Button disabled={saving} onClick={save}>
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Save policy
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {test && (
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-base">
+                Test results — {test.tested} invoices, {test.changed} decisions would change
+              </CardTitle>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(test.summary).map(([k, v]) => (
+                  <Badge key={k} variant={decisionVariant(k)}>
+                    {k}: {v}
+                  </Badge>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Invoice #</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>With policy</TableHead>
+                    <TableHead>Reasons</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {test.results.map((r) => (
+                    <TableRow key={r.invoice_id} className={r.changed ? "bg-amber-500/10" : ""}>
+                      <TableCell>{r.vendor_name || "Unknown Vendor"}</TableCell>
+                      <TableCell>{r.invoice_number || "-"}</TableCell>
+                      <TableCell>
+                        {r.currency} {Number(r.total_amount ?? 0).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{r.previous_decision ? <Badge variant={decisionVariant(r.previous_decision)}>{r.previous_decision}</Badge> : "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant={decisionVariant(r.decision)}>{r.decision}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{r.reasons.join(" | ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -8,13 +8,15 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
 import { useToast } from '@/hooks/use-toast';
-import { User, Mail, Calendar, Loader2, Save } from 'lucide-react';
+import { User, Mail, Calendar, Loader2, Save, Landmark } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface Profile {
   full_name: string;
   email: string;
   created_at: string;
+  payout_iban: string;
+  payout_bic: string;
 }
 
 export default function Profile() {
@@ -26,6 +28,8 @@ export default function Profile() {
     full_name: '',
     email: '',
     created_at: '',
+    payout_iban: '',
+    payout_bic: '',
   });
 
   useEffect(() => {
@@ -47,6 +51,8 @@ export default function Profile() {
           full_name: data.full_name || '',
           email: data.email || user?.email || '',
           created_at: data.created_at,
+          payout_iban: data.payout_iban || '',
+          payout_bic: data.payout_bic || '',
         });
       }
     } catch (error) {
@@ -61,7 +67,11 @@ export default function Profile() {
     try {
       const { error } = await supabase
         .from('profiles')
-        .update({ full_name: profile.full_name })
+        .update({
+          full_name: profile.full_name,
+          payout_iban: profile.payout_iban.replace(/\s/g, '').toUpperCase() || null,
+          payout_bic: profile.payout_bic.replace(/\s/g, '').toUpperCase() || null,
+        })
         .eq('user_id', user!.id);
 
       if (error) throw error;
@@ -157,6 +167,31 @@ export default function Profile() {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="payout_iban">Reimbursement account</Label>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="relative col-span-2">
+                  <Landmark className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="payout_iban"
+                    value={profile.payout_iban}
+                    onChange={(e) => setProfile({ ...profile, payout_iban: e.target.value })}
+                    className="pl-10"
+                    placeholder="IBAN"
+                  />
+                </div>
+                <Input
+                  id="payout_bic"
+                  value={profile.payout_bic}
+                  onChange={(e) => setProfile({ ...profile, payout_bic: e.target.value })}
+                  placeholder="BIC (optional)"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Approved expense claims are paid to this account
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label>Member Since</Label>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
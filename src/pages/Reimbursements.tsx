@@ -1,18 +1,1077 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useOrganization } from "@/lib/organization";
+import { useToast } from "@/hooks/use-toast";
+import { Banknote, Car, Check, Download, HelpCircle, Loader2, Plane, Plus, RefreshCw, Send, Trash2, Upload, X } from "lucide-react";
+
+type Claim = {
+  id: string;
+  user_id: string;
+  title: string | null;
+  status: "pass" | "fail" | "needs_info" | "pending" | "needs_human";
+  amount: number | null;
+  currency: string | null;
+  notes: string | null;
+  submitted_at: string | null;
+  approver_id: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  exported_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+};
+
+type ClaimItem = {
+  id: string;
+  reimbursement_id: string;
+  item_type: "receipt" | "mileage" | "per_diem";
+  invoice_id: string | null;
+  description: string | null;
+  expense_date: string | null;
+  amount: number;
+  currency: string;
+  fx_rate: number | null;
+  converted_amount: number | null;
+  details: Record<string, unknown> | null;
+};
+
+type MileageRate = {
+  id: string;
+  country: string;
+  vehicle_type: string;
+  rate: number;
+  unit: "km" | "mi";
+  currency: string;
+  effective_from: string;
+  notes: string | null;
+};
+
+type PerDiemRate = {
+  id: string;
+  country: string;
+  city: string | null;
+  full_day: number;
+  partial_day: number;
+  min_partial_hours: number;
+  currency: string;
+  effective_from: string;
+  notes: string | null;
+};
+
+type Meals = { breakfast?: boolean; lunch?: boolean; dinner?: boolean };
+
+type TripForm = {
+  claimId: string;
+  kind: "mileage" | "per_diem";
+  description: string;
+  country: string;
+  date: string; // mileage
+  distance: string;
+  unit: "km" | "mi";
+  vehicleType: string;
+  city: string; // per diem
+  departure: string;
+  return: string;
+  meals: Record<string, Meals>;
+};
+
+type Receipt = {
+  id: string;
+  vendor_name: string | null;
+  total_amount: number | null;
+  currency: string | null;
+  invoice_date: string | null;
+};
+
+type Profile = { user_id: string; full_name: string | null; email: string | null };
+
+type Stage = "draft" | "submitted" | "needs_info" | "approved" | "rejected" | "exported" | "paid";
+
+// Mirrors claimStage() in supabase/functions/_shared/reimbursements.ts
+const stageOf = (c: Claim): Stage =>
+  c.paid_at
+    ? "paid"
+    : c.exported_at
+      ? "exported"
+      : c.status === "pass"
+        ? "approved"
+        : c.status === "fail"
+          ? "rejected"
+          : c.status === "needs_info"
+            ? "needs_info"
+            : c.submitted_at
+              ? "submitted"
+              : "draft";
+
+const STAGE_BADGES: Record<Stage, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  submitted: "secondary",
+  needs_info: "destructive",
+  approved: "default",
+  rejected: "destructive",
+  exported: "secondary",
+  paid: "default",
+};
+
+const CURRENCIES = ["EUR", "USD", "GBP", "CHF", "SEK", "DKK", "NOK", "PLN", "CZK"];
+
+const ITEM_LABELS: Record<ClaimItem["item_type"], string> = { receipt: "Receipt", mileage: "Mileage", per_diem: "Per diem" };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Calendar days covered by a trip, used to ask which meals were provided on each one
+const tripDays = (departure: string, ret: string) => {
+  const from = departure.slice(0, 10);
+  const to = ret.slice(0, 10);
+  if (!from || !to || to < from) return [];
+  const out: string[] = [];
+  for (let t = Date.parse(`${from}T00:00:00Z`); t <= Date.parse(`${to}T00:00:00Z`) && out.length <= 366; t += 86400000) {
+    out.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return out;
+};
+
+const itemBreakdown = (it: ClaimItem) => {
+  const d = it.details || {};
+  if (it.item_type === "mileage") {
+    return `${d.distance} ${d.unit} by ${d.vehicle_type} × ${d.rate} ${it.currency}/${d.rate_unit} (${d.country}, rate from ${d.rate_effective_from})`;
+  }
+  if (it.item_type === "per_diem") {
+    const days = (d.days as { kind: string; deduction: number }[]) || [];
+    const full = days.filter((x) => x.kind === "full").length;
+    const partial = days.filter((x) => x.kind === "partial").length;
+    const deducted = days.reduce((s, x) => s + Number(x.deduction || 0), 0);
+    return `${d.city ? `${d.city}, ` : ""}${d.country}: ${full} full, ${partial} partial day(s)${deducted ? `, meals −${deducted.toFixed(2)}` : ""}`;
+  }
+  return null;
+};
+
+const money = (currency: string | null, amount: number | null) =>
+  `${currency || ""} ${Number(amount ?? 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}`.trim();
+
+function download(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
 export default function Reimbursements() {
+  const { user, isAdmin } = useAuth();
+  const { organization, can } = useOrganization();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [items, setItems] = useState<ClaimItem[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [newTitle, setNewTitle] = useState("");
+  const [newCurrency, setNewCurrency] = useState("EUR");
+  const [attach, setAttach] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [mileageRates, setMileageRates] = useState<MileageRate[]>([]);
+  const [perDiemRates, setPerDiemRates] = useState<PerDiemRate[]>([]);
+  const [trip, setTrip] = useState<TripForm | null>(null);
+  const [newMileage, setNewMileage] = useState({ country: "", vehicle_type: "car", rate: "", unit: "km", currency: "EUR", effective_from: today() });
+  const [newPerDiem, setNewPerDiem] = useState({ country: "", city: "", full_day: "", partial_day: "", currency: "EUR", effective_from: today() });
+
+  const load = async () => {
+    if (!user || !organization) return;
+    setLoading(true);
+
+    // Own claims, claims assigned for approval and, for admins and accountants, every claim of the organization (RLS decides)
+    const c = await supabase
+      .from("reimbursements")
+      .select("*")
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: false })
+      .limit(500);
+    const rows = (c.data as Claim[]) || [];
+    const ids = rows.map((r) => r.id);
+    const i = ids.length
+      ? await supabase.from("reimbursement_items").select("*").in("reimbursement_id", ids).order("expense_date", { ascending: true })
+      : { data: [], error: null };
+    const r = await supabase
+      .from("invoices")
+      .select("id,vendor_name,total_amount,currency,invoice_date")
+      .eq("organization_id", organization.id)
+      .eq("doc_class", "receipt")
+      .order("created_at", { ascending: false })
+      .limit(500);
+    const others = [...new Set(rows.map((x) => x.user_id).filter((id) => id !== user.id))];
+    const p = others.length ? await supabase.from("profiles").select("user_id,full_name,email").in("user_id", others) : { data: [] };
+    const mr = await supabase.from("mileage_rates").select("*").order("country").order("effective_from", { ascending: false });
+    const pr = await supabase.from("per_diem_rates").select("*").order("country").order("effective_from", { ascending: false });
+
+    if (c.error) toast({ variant: "destructive", title: "Failed to load claims", description: c.error.message });
+    if (i.error) toast({ variant: "destructive", title: "Failed to load claim items", description: i.error.message });
+
+    setClaims(rows);
+    setItems((i.data as ClaimItem[]) || []);
+    setReceipts((r.data as Receipt[]) || []);
+    setProfiles(Object.fromEntries(((p.data as Profile[]) || []).map((x) => [x.user_id, x])));
+    setMileageRates((mr.data as MileageRate[]) || []);
+    setPerDiemRates((pr.data as PerDiemRate[]) || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, organization?.id]);
+
+  const itemsByClaim = useMemo(() => {
+    const out: Record<string, ClaimItem[]> = {};
+    for (const it of items) (out[it.reimbursement_id] ||= []).push(it);
+    return out;
+  }, [items]);
+  const claimedReceipts = useMemo(() => new Set(items.map((it) => it.invoice_id).filter(Boolean)), [items]);
+  const mileageCountries = useMemo(() => [...new Set(mileageRates.map((r) => r.country))].sort(), [mileageRates]);
+  const perDiemCountries = useMemo(() => [...new Set(perDiemRates.map((r) => r.country))].sort(), [perDiemRates]);
+
+  const mine = claims.filter((c) => c.user_id === user?.id);
+  const toApprove = claims.filter(
+    (c) => c.user_id !== user?.id && stageOf(c) === "submitted" && (c.approver_id === user?.id || (isAdmin && !c.approver_id)),
+  );
+  // Owners and accountants pay out their organization's claims; finance admins any organization's
+  const canPayOut = isAdmin || can("keepBooks");
+  const awaitingPayout = claims.filter((c) => stageOf(c) === "approved");
+  const exported = claims.filter((c) => stageOf(c) === "exported");
+
+  const invoke = async (body: Record<string, unknown>, failTitle: string) => {
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token || null;
+    const { data, error } = await supabase.functions.invoke("reimbursements", {
+      body: { organizationId: organization?.id, ...body },
+      headers: token ? { Authorization: `Bearer ${token}`, authorization: `Bearer ${token}` } : {},
+    });
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const detail = ctx && typeof ctx.json === "function" ? ((await ctx.json().catch(() => null)) as { error?: string } | null) : null;
+      toast({ variant: "destructive", title: failTitle, description: detail?.error || error.message });
+      return null;
+    }
+    return data;
+  };
+
+  const run = async (key: string, body: Record<string, unknown>, failTitle: string, success?: string) => {
+    setBusy(key);
+    const data = await invoke(body, failTitle);
+    setBusy(null);
+    if (!data) return null;
+    if (success) toast({ title: success });
+    await load();
+    return data;
+  };
+
+  const createClaim = async () => {
+    if (!user || !newTitle.trim()) return;
+    setBusy("create");
+    const { error } = await supabase
+      .from("reimbursements")
+      .insert({ user_id: user.id, title: newTitle.trim(), currency: newCurrency, amount: 0, status: "pending" });
+    setBusy(null);
+    if (error) {
+      toast({ variant: "destructive", title: "Could not create claim", description: error.message });
+      return;
+    }
+    setNewTitle("");
+    await load();
+  };
+
+  const changeCurrency = async (claim: Claim, currency: string) => {
+    const { error } = await supabase.from("reimbursements").update({ currency }).eq("id", claim.id);
+    if (error) {
+      toast({ variant: "destructive", title: "Update failed", description: error.message });
+      return;
+    }
+    await run(claim.id, { action: "recalculate", claimId: claim.id }, "Recalculation failed");
+  };
+
+  const deleteClaim = async (claim: Claim) => {
+    const { error } = await supabase.from("reimbursements").delete().eq("id", claim.id);
+    if (error) {
+      toast({ variant: "destructive", title: "Delete failed", description: error.message });
+      return;
+    }
+    await load();
+  };
+
+  const openTrip = (claimId: string, kind: TripForm["kind"]) =>
+    setTrip({
+      claimId,
+      kind,
+      description: "",
+      country: (kind === "mileage" ? mileageCountries : perDiemCountries)[0] || "",
+      date: today(),
+      distance: "",
+      unit: "km",
+      vehicleType: "car",
+      city: "",
+      departure: "",
+      return: "",
+      meals: {},
+    });
+
+  const saveTrip = async () => {
+    if (!trip) return;
+    const body =
+      trip.kind === "mileage"
+        ? {
+            action: "add_mileage",
+            claimId: trip.claimId,
+            date: trip.date,
+            distance: Number(trip.distance),
+            unit: trip.unit,
+            vehicleType: trip.vehicleType,
+            country: trip.country,
+            description: trip.description.trim() || null,
+          }
+        : {
+            action: "add_per_diem",
+            claimId: trip.claimId,
+            country: trip.country,
+            city: trip.city || null,
+            departure: trip.departure,
+            return: trip.return,
+            meals: tripDays(trip.departure, trip.return).map((date) => ({ date, ...trip.meals[date] })),
+            description: trip.description.trim() || null,
+          };
+    const ok = await run(trip.claimId, body, trip.kind === "mileage" ? "Could not add mileage" : "Could not add per diem");
+    if (ok) setTrip(null);
+  };
+
+  const addRate = async (kind: "mileage" | "per_diem") => {
+    if (!user) return;
+    setBusy(`rate-${kind}`);
+    const { error } =
+      kind === "mileage"
+        ? await supabase.from("mileage_rates").insert({
+            ...newMileage,
+            country: newMileage.country.trim().toUpperCase(),
+            vehicle_type: newMileage.vehicle_type.trim().toLowerCase(),
+            rate: Number(newMileage.rate),
+            created_by: user.id,
+          })
+        : await supabase.from("per_diem_rates").insert({
+            ...newPerDiem,
+            country: newPerDiem.country.trim().toUpperCase(),
+            city: newPerDiem.city.trim() || null,
+            full_day: Number(newPerDiem.full_day),
+            partial_day: Number(newPerDiem.partial_day),
+            created_by: user.id,
+          });
+    setBusy(null);
+    if (error) {
+      toast({ variant: "destructive", title: "Could not add rate", description: error.message });
+      return;
+    }
+    toast({ title: "Rate version added" });
+    await load();
+  };
+
+  const deleteRate = async (table: "mileage_rates" | "per_diem_rates", id: string) => {
+    const { data, error } = await supabase.from(table).delete().eq("id", id).select("id");
+    if (error || !data?.length) {
+      toast({ variant: "destructive", title: "Could not delete rate", description: error?.message || "Rates used by a claim are kept; add a newer version instead." });
+      return;
+    }
+    await load();
+  };
+
+  const decide = (claim: Claim, decision: "pass" | "fail" | "needs_info") =>
+    run(
+      claim.id,
+      { action: "decide", claimId: claim.id, decision, note: notes[claim.id] || null },
+      "Decision failed",
+      decision === "pass" ? "Claim approved" : decision === "fail" ? "Claim rejected" : "Claim returned to the employee",
+    );
+
+  const exportPayout = async () => {
+    setBusy("payout");
+    const data = await invoke({ action: "payout", claimIds: awaitingPayout.map((c) => c.id) }, "Payout export failed");
+    setBusy(null);
+    if (!data) return;
+    const stamp = new Date().toISOString().slice(0, 10);
+    download(String(data.csv || ""), `reimbursement-payout-${stamp}.csv`, "text/csv");
+    if (data.xml) download(String(data.xml), `${data.run?.message_id || `reimbursements-${stamp}`}.xml`, "application/xml");
+    const manual = (data.lines || []).filter((l: { method: string }) => l.method === "manual").length;
+    toast({
+      title: "Payout exported",
+      description: `${(data.lines || []).length} claim(s)${manual ? `, ${manual} to pay manually (see CSV)` : ""}.`,
+    });
+    await load();
+  };
+
+  const employee = (c: Claim) =>
+    c.user_id === user?.id ? "You" : profiles[c.user_id]?.full_name || profiles[c.user_id]?.email || c.user_id.slice(0, 8);
+
+  const itemsTable = (claim: Claim, editable: boolean) => {
+    const rows = itemsByClaim[claim.id] || [];
+    if (!rows.length) return <p className="text-sm text-muted-foreground">No expenses added yet.</p>;
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead className="text-right">In {claim.currency}</TableHead>
+            {editable && <TableHead />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((it) => (
+            <TableRow key={it.id}>
+              <TableCell>{it.expense_date || "—"}</TableCell>
+              <TableCell>
+                <Badge variant="outline">{ITEM_LABELS[it.item_type] || it.item_type}</Badge>
+              </TableCell>
+              <TableCell>
+                {it.description || (it.item_type === "receipt" ? "—" : null)}
+                {itemBreakdown(it) && <p className="text-xs text-muted-foreground">{itemBreakdown(it)}</p>}
+              </TableCell>
+              <TableCell className="text-right">{money(it.currency, it.amount)}</TableCell>
+              <TableCell className="text-right">
+                {it.converted_amount === null ? (
+                  <Badge variant="destructive">no rate</Badge>
+                ) : (
+                  <span title={it.fx_rate && it.currency !== claim.currency ? `1 ${it.currency} = ${it.fx_rate} ${claim.currency}` : undefined}>
+                    {money(claim.currency, it.converted_amount)}
+                  </span>
+                )}
+              </TableCell>
+              {editable && (
+                <TableCell className="text-right">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busy === it.id}
+                    onClick={() => run(it.id, { action: "remove_item", itemId: it.id }, "Could not remove item")}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const header = (claim: Claim) => {
+    const stage = stageOf(claim);
+    return (
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold">{claim.title || "Expense claim"}</h3>
+          <p className="text-sm text-muted-foreground">
+            {employee(claim)} • created {claim.created_at.slice(0, 10)}
+            {claim.submitted_at ? ` • submitted ${claim.submitted_at.slice(0, 10)}` : ""}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-xl font-bold">{money(claim.currency, claim.amount)}</p>
+          <Badge variant={STAGE_BADGES[stage]} className="capitalize">
+            {stage.replace("_", " ")}
+          </Badge>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <DashboardLayout>
-
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-display font-bold">Reimbursements</h1>
-          <p className="text-muted-foreground mt-1">Submit and approve employee reimbursements (skeleton page).</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold">Reimbursements</h1>
+            <p className="text-muted-foreground mt-1">Claim out-of-pocket expenses, approve your team's claims and pay them out.</p>
+          </div>
+          <Button variant="outline" onClick={load}>
+            <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+          </Button>
         </div>
-        <Card className="glass-card"><CardContent className="p-6 text-muted-foreground">Uses public.reimbursements table. Add UI for creating claims + approval workflow.</CardContent></Card>
+
+        <Tabs defaultValue="mine">
+          <TabsList>
+            <TabsTrigger value="mine">My claims</TabsTrigger>
+            <TabsTrigger value="approve">To approve ({toApprove.length})</TabsTrigger>
+            {canPayOut && <TabsTrigger value="payout">Payouts ({awaitingPayout.length})</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="rates">Travel rates</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="mine" className="mt-6 space-y-4">
+            <Card className="glass-card">
+              <CardContent className="p-4 flex flex-wrap items-end gap-4">
+                <div className="space-y-2 flex-1 min-w-56">
+                  <Label htmlFor="claim-title">New claim</Label>
+                  <Input id="claim-title" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} placeholder="e.g. Customer visit Munich, March" />
+                </div>
+                <div className="space-y-2 w-32">
+                  <Label>Currency</Label>
+                  <Select value={newCurrency} onValueChange={setNewCurrency}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map((c) => (
+                        <SelectItem key={c} value={c}>
+                          {c}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={createClaim} disabled={!newTitle.trim() || busy === "create"}>
+                  <Plus className="h-4 w-4 mr-2" /> Create claim
+                </Button>
+              </CardContent>
+            </Card>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-10">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : mine.length === 0 ? (
+              <div className="text-muted-foreground">No claims yet.</div>
+            ) : (
+              mine.map((claim) => {
+                const stage = stageOf(claim);
+                const editable = stage === "draft" || stage === "needs_info";
+                const available = receipts.filter((r) => !claimedReceipts.has(r.id));
+                return (
+                  <Card key={claim.id} className="glass-card">
+                    <CardContent className="p-4 space-y-4">
+                      {header(claim)}
+                      {claim.decision_note && (
+                        <p className="text-sm p-3 rounded-lg border bg-card">
+                          <span className="font-medium">Approver note:</span> {claim.decision_note}
+                        </p>
+                      )}
+                      {itemsTable(claim, editable)}
+                      {editable && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Select value={attach[claim.id] || ""} onValueChange={(v) => setAttach((a) => ({ ...a, [claim.id]: v }))}>
+                            <SelectTrigger className="w-72">
+                              <SelectValue placeholder={available.length ? "Attach an uploaded receipt" : "No unclaimed receipts"} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {available.map((r) => (
+                                <SelectItem key={r.id} value={r.id}>
+                                  {`${r.vendor_name || "Unknown vendor"} • ${money(r.currency, r.total_amount)}${r.invoice_date ? ` • ${r.invoice_date}` : ""}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="outline"
+                            disabled={!attach[claim.id] || busy === claim.id}
+                            onClick={async () => {
+                              const ok = await run(claim.id, { action: "add_receipt", claimId: claim.id, invoiceId: attach[claim.id] }, "Could not attach receipt");
+                              if (ok) setAttach((a) => ({ ...a, [claim.id]: "" }));
+                            }}
+                          >
+                            <Plus className="h-4 w-4 mr-1" /> Attach
+                          </Button>
+                          <Button variant="outline" asChild>
+                            <Link to={`/dashboard/upload?reimbursement=${claim.id}`}>
+                              <Upload className="h-4 w-4 mr-1" /> Upload receipt
+                            </Link>
+                          </Button>
+                          <Button variant="outline" onClick={() => openTrip(claim.id, "mileage")} disabled={!mileageRates.length}>
+                            <Car className="h-4 w-4 mr-1" /> Mileage
+                          </Button>
+                          <Button variant="outline" onClick={() => openTrip(claim.id, "per_diem")} disabled={!perDiemRates.length}>
+                            <Plane className="h-4 w-4 mr-1" /> Per diem
+                          </Button>
+                          <Select value={claim.currency || "EUR"} onValueChange={(v) => changeCurrency(claim, v)}>
+                            <SelectTrigger className="w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CURRENCIES.map((c) => (
+                                <SelectItem key={c} value={c}>
+                                  {c}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="flex-1" />
+                          {stage === "draft" && !claim.decided_at && (
+                            <Button variant="ghost" onClick={() => deleteClaim(claim)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            onClick={() => run(claim.id, { action: "submit", claimId: claim.id }, "Submit failed", "Claim submitted for approval")}
+                            disabled={!(itemsByClaim[claim.id] || []).length || busy === claim.id}
+                          >
+                            {busy === claim.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                            Submit
+                          </Button>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </TabsContent>
+
+          <TabsContent value="approve" className="mt-6 space-y-4">
+            {toApprove.length === 0 ? (
+              <div className="text-muted-foreground">No claims are waiting for your approval.</div>
+            ) : (
+              toApprove.map((claim) => (
+                <Card key={claim.id} className="glass-card">
+                  <CardContent className="p-4 space-y-4">
+                    {header(claim)}
+                    {itemsTable(claim, false)}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        className="flex-1 min-w-56"
+                        value={notes[claim.id] || ""}
+                        onChange={(e) => setNotes((n) => ({ ...n, [claim.id]: e.target.value }))}
+                        placeholder="Note (required to reject or ask for information)"
+                      />
+                      <Button onClick={() => decide(claim, "pass")} disabled={busy === claim.id}>
+                        <Check className="h-4 w-4 mr-1" /> Approve
+                      </Button>
+                      <Button variant="outline" onClick={() => decide(claim, "needs_info")} disabled={busy === claim.id || !notes[claim.id]?.trim()}>
+                        <HelpCircle className="h-4 w-4 mr-1" /> Needs info
+                      </Button>
+                      <Button variant="destructive" onClick={() => decide(claim, "fail")} disabled={busy === claim.id || !notes[claim.id]?.trim()}>
+                        <X className="h-4 w-4 mr-1" /> Reject
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          {canPayOut && (
+            <TabsContent value="payout" className="mt-6 space-y-4">
+              <Card className="glass-card">
+                <CardContent className="p-4 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                      <h3 className="font-semibold">Approved claims</h3>
+                      <p className="text-sm text-muted-foreground">
+                        EUR claims to employees with a payout IBAN go into a SEPA pain.001 file; everything else is listed in the CSV for manual payment.
+                      </p>
+                    </div>
+                    <Button onClick={exportPayout} disabled={!awaitingPayout.length || busy === "payout"}>
+                      {busy === "payout" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                      Export payout
+                    </Button>
+                  </div>
+                  {awaitingPayout.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Employee</TableHead>
+                          <TableHead>Claim</TableHead>
+                          <TableHead>Approved</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {awaitingPayout.map((c) => (
+                          <TableRow key={c.id}>
+                            <TableCell>{employee(c)}</TableCell>
+                            <TableCell>{c.title || "Expense claim"}</TableCell>
+                            <TableCell>{c.decided_at?.slice(0, 10)}</TableCell>
+                            <TableCell className="text-right font-medium">{money(c.currency, c.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {exported.length > 0 && (
+                <Card className="glass-card">
+                  <CardContent className="p-4 space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                      <h3 className="font-semibold">Exported, awaiting payment</h3>
+                      <Button
+                        variant="outline"
+                        disabled={busy === "paid"}
+                        onClick={() => run("paid", { action: "mark_paid", claimIds: exported.map((c) => c.id) }, "Update failed", "Claims marked as paid")}
+                      >
+                        <Banknote className="h-4 w-4 mr-2" /> Mark all paid
+                      </Button>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Employee</TableHead>
+                          <TableHead>Claim</TableHead>
+                          <TableHead>Exported</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {exported.map((c) => (
+                          <TableRow key={c.id}>
+                            <TableCell>{employee(c)}</TableCell>
+                            <TableCell>{c.title || "Expense claim"}</TableCell>
+                            <TableCell>{c.exported_at?.slice(0, 10)}</TableCell>
+                            <TableCell className="text-right font-medium">{money(c.currency, c.amount)}</TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={busy === c.id}
+                                onClick={() => run(c.id, { action: "mark_paid", claimIds: [c.id] }, "Update failed", "Claim marked as paid")}
+                              >
+                                <Banknote className="h-4 w-4 mr-1" /> Paid
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+          )}
+
+          {isAdmin && (
+            <TabsContent value="rates" className="mt-6 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Rates are versioned by effective date: to change a rate, add a new version. Claims keep the version that applied on the day of travel.
+              </p>
+              <Card className="glass-card">
+                <CardContent className="p-4 space-y-4">
+                  <h3 className="font-semibold">Mileage rates</h3>
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-1 w-20">
+                      <Label>Country</Label>
+                      <Input value={newMileage.country} onChange={(e) => setNewMileage((m) => ({ ...m, country: e.target.value }))} placeholder="DE" />
+                    </div>
+                    <div className="space-y-1 w-32">
+                      <Label>Vehicle</Label>
+                      <Input value={newMileage.vehicle_type} onChange={(e) => setNewMileage((m) => ({ ...m, vehicle_type: e.target.value }))} />
+                    </div>
+                    <div className="space-y-1 w-24">
+                      <Label>Rate</Label>
+                      <Input type="number" step="0.01" value={newMileage.rate} onChange={(e) => setNewMileage((m) => ({ ...m, rate: e.target.value }))} />
+                    </div>
+                    <div className="space-y-1 w-20">
+                      <Label>Per</Label>
+                      <Select value={newMileage.unit} onValueChange={(v) => setNewMileage((m) => ({ ...m, unit: v }))}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="km">km</SelectItem>
+                          <SelectItem value="mi">mi</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1 w-24">
+                      <Label>Currency</Label>
+                      <Select value={newMileage.currency} onValueChange={(v) => setNewMileage((m) => ({ ...m, currency: v }))}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.map((c) => (
+                            <SelectItem key={c} value={c}>
+                              {c}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Effective from</Label>
+                      <Input type="date" value={newMileage.effective_from} onChange={(e) => setNewMileage((m) => ({ ...m, effective_from: e.target.value }))} />
+                    </div>
+                    <Button
+                      onClick={() => addRate("mileage")}
+                      disabled={!newMileage.country.trim() || !newMileage.vehicle_type.trim() || !newMileage.rate || busy === "rate-mileage"}
+                    >
+                      <Plus className="h-4 w-4 mr-1" /> Add version
+                    </Button>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Country</TableHead>
+                        <TableHead>Vehicle</TableHead>
+                        <TableHead className="text-right">Rate</TableHead>
+                        <TableHead>Effective from</TableHead>
+                        <TableHead>Notes</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {mileageRates.map((r) => (
+                        <TableRow key={r.id}>
+                          <TableCell>{r.country}</TableCell>
+                          <TableCell className="capitalize">{r.vehicle_type}</TableCell>
+                          <TableCell className="text-right">{`${Number(r.rate).toFixed(2)} ${r.currency}/${r.unit}`}</TableCell>
+                          <TableCell>{r.effective_from}</TableCell>
+                          <TableCell className="text-muted-foreground">{r.notes || ""}</TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="ghost" onClick={() => deleteRate("mileage_rates", r.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card className="glass-card">
+                <CardContent className="p-4 space-y-4">
+                  <h3 className="font-semibold">Per-diem rates</h3>
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-1 w-20">
+                      <Label>Country</Label>
+                      <Input value={newPerDiem.country} onChange={(e) => setNewPerDiem((m) => ({ ...m, country: e.target.value }))} placeholder="DE" />
+                    </div>
+                    <div className="space-y-1 w-32">
+                      <Label>City</Label>
+                      <Input value={newPerDiem.city} onChange={(e) => setNewPerDiem((m) => ({ ...m, city: e.target.value }))} placeholder="All cities" />
+                    </div>
+                    <div className="space-y-1 w-24">
+                      <Label>Full day</Label>
+                      <Input type="number" step="0.01" value={newPerDiem.full_day} onChange={(e) => setNewPerDiem((m) => ({ ...m, full_day: e.target.value }))} />
+                    </div>
+                    <div className="space-y-1 w-24">
+                      <Label>Partial day</Label>
+                      <Input type="number" step="0.01" value={newPerDiem.partial_day} onChange={(e) => setNewPerDiem((m) => ({ ...m, partial_day: e.target.value }))} />
+                    </div>
+                    <div className="space-y-1 w-24">
+                      <Label>Currency</Label>
+                      <Select value={newPerDiem.currency} onValueChange={(v) => setNewPerDiem((m) => ({ ...m, currency: v }))}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.map((c) => (
+                            <SelectItem key={c} value={c}>
+                              {c}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Effective from</Label>
+                      <Input type="date" value={newPerDiem.effective_from} onChange={(e) => setNewPerDiem((m) => ({ ...m, effective_from: e.target.value }))} />
+                    </div>
+                    <Button
+                      onClick={() => addRate("per_diem")}
+                      disabled={!newPerDiem.country.trim() || !newPerDiem.full_day || !newPerDiem.partial_day || busy === "rate-per_diem"}
+                    >
+                      <Plus className="h-4 w-4 mr-1" /> Add version
+                    </Button>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Location</TableHead>
+                        <TableHead className="text-right">Full day</TableHead>
+                        <TableHead className="text-right">Partial day</TableHead>
+                        <TableHead>Effective from</TableHead>
+                        <TableHead>Notes</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {perDiemRates.map((r) => (
+                        <TableRow key={r.id}>
+                          <TableCell>{r.city ? `${r.city}, ${r.country}` : r.country}</TableCell>
+                          <TableCell className="text-right">{money(r.currency, r.full_day)}</TableCell>
+                          <TableCell className="text-right" title={`After ${r.min_partial_hours} h on one-day trips`}>
+                            {money(r.currency, r.partial_day)}
+                          </TableCell>
+                          <TableCell>{r.effective_from}</TableCell>
+                          <TableCell className="text-muted-foreground">{r.notes || ""}</TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="ghost" onClick={() => deleteRate("per_diem_rates", r.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+        </Tabs>
+
+        <Dialog open={!!trip} onOpenChange={(open) => !open && setTrip(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{trip?.kind === "mileage" ? "Add mileage" : "Add per diem"}</DialogTitle>
+            </DialogHeader>
+            {trip && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Country</Label>
+                    <Select
+                      value={trip.country}
+                      onValueChange={(v) => {
+                        const vehicles = mileageRates.filter((r) => r.country === v).map((r) => r.vehicle_type);
+                        setTrip({ ...trip, country: v, vehicleType: vehicles.includes(trip.vehicleType) ? trip.vehicleType : vehicles[0] || "car" });
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Country" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(trip.kind === "mileage" ? mileageCountries : perDiemCountries).map((c) => (
+                          <SelectItem key={c} value={c}>
+                            {c}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {trip.kind === "mileage" ? (
+                    <div className="space-y-2">
+                      <Label>Vehicle</Label>
+                      <Select value={trip.vehicleType} onValueChange={(v) => setTrip({ ...trip, vehicleType: v })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[...new Set(mileageRates.filter((r) => r.country === trip.country).map((r) => r.vehicle_type))].map((v) => (
+                            <SelectItem key={v} value={v} className="capitalize">
+                              {v}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label>City (optional)</Label>
+                      <Input value={trip.city} onChange={(e) => setTrip({ ...trip, city: e.target.value })} placeholder="Uses the country rate if no city rate exists" />
+                    </div>
+                  )}
+                </div>
+
+                {trip.kind === "mileage" ? (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Date</Label>
+                      <Input type="date" value={trip.date} onChange={(e) => setTrip({ ...trip, date: e.target.value })} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Distance</Label>
+                      <Input type="number" min="0" step="0.1" value={trip.distance} onChange={(e) => setTrip({ ...trip, distance: e.target.value })} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Unit</Label>
+                      <Select value={trip.unit} onValueChange={(v) => setTrip({ ...trip, unit: v as TripForm["unit"] })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="km">km</SelectItem>
+                          <SelectItem value="mi">mi</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Departure</Label>
+                        <Input type="datetime-local" value={trip.departure} onChange={(e) => setTrip({ ...trip, departure: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Return</Label>
+                        <Input type="datetime-local" value={trip.return} onChange={(e) => setTrip({ ...trip, return: e.target.value })} />
+                      </div>
+                    </div>
+                    {tripDays(trip.departure, trip.return).length > 0 && (
+                      <div className="space-y-2">
+                        <Label>Meals provided</Label>
+                        <div className="max-h-48 overflow-y-auto space-y-1">
+                          {tripDays(trip.departure, trip.return).map((date) => (
+                            <div key={date} className="flex items-center gap-4 text-sm">
+                              <span className="w-24">{date}</span>
+                              {(["breakfast", "lunch", "dinner"] as const).map((meal) => (
+                                <label key={meal} className="flex items-center gap-1 capitalize">
+                                  <Checkbox
+                                    checked={!!trip.meals[date]?.[meal]}
+                                    onCheckedChange={(v) =>
+                                      setTrip({ ...trip, meals: { ...trip.meals, [date]: { ...trip.meals[date], [meal]: v === true } } })
+                                    }
+                                  />
+                                  {meal}
+                                </label>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Description</Label>
+                  <Input value={trip.description} onChange={(e) => setTrip({ ...trip, description: e.target.value })} placeholder="e.g. Office → customer site and back" />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setTrip(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={saveTrip}
+                disabled={
+                  !trip ||
+                  !trip.country ||
+                  busy === trip.claimId ||
+                  (trip.kind === "mileage" ? !(Number(trip.distance) > 0) : !trip.departure || !trip.return)
+                }
+              >
+                {busy === trip?.claimId && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Add
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
-      
     </DashboardLayout>
   );
 }
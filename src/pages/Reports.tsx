@@ -1,9 +1,10 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
+import { useOrganization } from '@/lib/organization';
 import {
   BarChart,
   Bar,
@@ -36,6 +37,7 @@ const COLORS = ['hsl(239, 84%, 67%)', 'hsl(172, 66%, 50%)', 'hsl(38, 92%, 50%)',
 
 export default function Reports() {
   const { user } = useAuth();
+  const { organization } = useOrganization();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [reportData, setReportData] = useState<ReportData>({
@@ -48,18 +50,14 @@ export default function Reports() {
     invoiceCount: 0,
   });
 
-  useEffect(() => {
-    if (user) {
-      fetchReportData();
-    }
-  }, [user]);
+  const organizationId = organization?.id;
 
-  const fetchReportData = async () => {
+  const fetchReportData = useCallback(async () => {
     try {
       const { data: invoices } = await supabase
         .from('invoices')
         .select('*')
-        .eq('user_id', user!.id);
+        .eq('organization_id', organizationId!);
 
       if (!invoices) return;
 
@@ -133,14 +131,20 @@ export default function Reports() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (user && organizationId) {
+      fetchReportData();
+    }
+  }, [user, organizationId, fetchReportData]);
 
   const exportToCSV = async () => {
     try {
       const { data: invoices } = await supabase
         .from('invoices')
         .select('*')
-        .eq('user_id', user!.id)
+        .eq('organization_id', organization!.id)
         .order('created_at', { ascending: false });
 
       if (!invoices || invoices.length === 0) {
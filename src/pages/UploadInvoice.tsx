@@ -21,6 +21,7 @@ import {
   MessageCircle,
   Send,
 } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 
@@ -69,11 +70,21 @@ const corsSafeError = (err: any) => {
   return String(msg);
 };
 
+const isXmlFile = (f: File) =>
+  f.type === "application/xml" || f.type === "text/xml" || /\.xml$/i.test(f.name);
+
 const isValidFileType = (f: File) => {
   const validTypes = ["application/pdf", "image/jpeg", "image/png", "image/jpg"];
-  return validTypes.includes(f.type);
+  return validTypes.includes(f.type) || isXmlFile(f);
 };
 
+// CII (ZUGFeRD / Factur-X / XRechnung CII) or UBL (XRechnung UBL / Peppol)
+const looksLikeEInvoice = (xml: string) =>
+  /CrossIndustryInvoice|urn:oasis:names:specification:ubl:schema:xsd:(Invoice|CreditNote)-2/.test(xml.slice(0, 4000));
+
+// Attachment names mandated by the ZUGFeRD / Factur-X / XRechnung specs, in order of preference
+const EINVOICE_ATTACHMENT_NAMES = ["factur-x.xml", "zugferd-invoice.xml", "xrechnung.xml"];
+
 function safeNum(x: string) {
   const cleaned = (x || "").replace(/[^\d.,-]/g, "").replace(",", ".");
   const n = Number(cleaned);
@@ -171,9 +182,8 @@ function extractHeuristic(text: string, fileName: string): ExtractedData {
 }
 
 // -----------------------------
-// Normalization + policy helpers
+// Normalization helpers
 // -----------------------------
-const CONF_THRESHOLD = 0.7; // below this => NEEDS_INFO
 
 type PipelineNormalized = {
   vendor_name?: string;
@@ -196,6 +206,16 @@ type PipelineNormalized = {
   human_review_required?: boolean;
 };
 
+type PipelineLineItem = {
+  line_index?: number;
+  description?: string | null;
+  quantity?: number | null;
+  unit_price?: number | null;
+  net_amount?: number | null;
+  vat_rate?: number | null;
+  source?: string;
+};
+
 const firstDefined = <T,>(...vals: T[]) =>
   vals.find((v) => v !== undefined && v !== null && String(v).trim() !== "");
 
@@ -264,7 +284,8 @@ const normalizePipeline = (p: any): PipelineNormalized => {
     Number.isFinite(Number(p?.fx?.total_eur)) ? Number(p.fx.total_eur) :
     null;
 
-  const human_review_required = total_eur !== null && Number.isFinite(total_eur) && total_eur > 5000;
+  // The organization's policies (or the default one) decide this in process-invoice
+  const human_review_required = String(p.decision || "").toUpperCase() === "HUMAN_APPROVAL";
 
   return {
     vendor_name,
@@ -286,55 +307,28 @@ const normalizePipeline = (p: any): PipelineNormalized => {
   };
 };
 
-const hasEvidence = (p: PipelineNormalized) => {
-  const c = Array.isArray(p.citations) ? p.citations.length : 0;
-  const e = Array.isArray(p.evidence) ? p.evidence.length : 0;
-  return c > 0 || e > 0;
-};
-
-const enforcePolicy = (p: PipelineNormalized) => {
-  const out: PipelineNormalized = { ...p };
-  const reasons = Array.isArray(out.approval_reasons) ? [...out.approval_reasons] : [];
-
-  if ((out.approval || "").toLowerCase() === "pass" && !hasEvidence(out)) {
-    out.approval = "needs_info";
-    reasons.push("No evidence/citations available from the document, so invoice cannot be auto-approved.");
-  }
-
-  if (Number.isFinite(out.approval_confidence as any) && (out.approval_confidence as number) < CONF_THRESHOLD) {
-    out.approval = "needs_info";
-    reasons.push(`Low confidence (${(out.approval_confidence as number).toFixed(2)}) — requesting additional info.`);
-  }
-
-  const compliance = (out.compliance_status || "").toLowerCase();
-  if (compliance === "fail") {
-    out.approval = "fail";
-    reasons.push("Compliance checks failed.");
-  }
-  const risk = (out.risk_score || "").toLowerCase();
-  if (risk === "high") {
-    out.approval = "fail";
-    reasons.push("High fraud/anomaly risk detected.");
-  }
-
-  const taxNum = typeof out.tax_amount === "string" ? Number(out.tax_amount) : Number(out.tax_amount ?? 0);
-  if ((out.currency === "EUR" || out.currency === "€") && (!Number.isFinite(taxNum) || taxNum <= 0)) {
-    out.approval = out.approval === "fail" ? "fail" : "needs_info";
-    out.needs_info_fields = Array.from(new Set([...(out.needs_info_fields || []), "tax_amount"]));
-    reasons.push("VAT/tax is missing or invalid — requesting clarification.");
+// process-invoice's decision → approval_status, as in _shared/clarifications.ts
+const approvalFromDecision = (decision: unknown): "pass" | "fail" | "needs_human" | "needs_info" => {
+  switch (String(decision || "").toUpperCase()) {
+    case "PASS":
+      return "pass";
+    case "FAIL":
+      return "fail";
+    case "HUMAN_APPROVAL":
+      return "needs_human";
+    default:
+      return "needs_info";
   }
-
-  if (out.human_review_required) {
-    if ((out.approval || "").toLowerCase() === "pass") out.approval = "needs_human";
-    reasons.push("Invoice total exceeds €5000 equivalent — human approval required.");
-  }
-
-  out.approval_reasons = Array.from(new Set(reasons));
-  return out;
 };
 
 export default function UploadInvoice() {
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Set when the upload is the receipt for a corporate card transaction or a reimbursement claim
+  const cardTransactionId = searchParams.get("cardTransaction");
+  const reimbursementId = searchParams.get("reimbursement");
+  const isReceipt = !!(cardTransactionId || reimbursementId);
 
   const [session, setSession] = useState<any>(null);
   const [providerToken, setProviderToken] = useState<string | null>(null);
@@ -474,7 +468,7 @@ export default function UploadInvoice() {
       setShareUrl("");
       setPipelineMeta(null);
     } else {
-      toast({ variant: "destructive", title: "Invalid file", description: "Only PDF, JPG, PNG allowed." });
+      toast({ variant: "destructive", title: "Invalid file", description: "Only PDF, JPG, PNG or e-invoice XML allowed." });
     }
   };
 
@@ -645,7 +639,7 @@ export default function UploadInvoice() {
     return res?.data?.text || "";
   }, []);
 
-  const runInvoicePipeline = async (text: string, f: File) => {
+  const runInvoicePipeline = async (text: string, f: File, vision?: Record<string, unknown> | null) => {
     if (!isAuthenticated) return null;
 
     const currencyGuess = detectCurrency(text);
@@ -655,6 +649,8 @@ export default function UploadInvoice() {
       fileType: f.type,
       extractedText: text,
       jurisdiction: currencyGuess === "EUR" ? "EU" : undefined,
+      // vision output (incl. line_items) lets the pipeline prefer layout-aware values
+      vision: vision && !vision.error ? vision : undefined,
     });
 
     if (error) {
@@ -683,6 +679,81 @@ export default function UploadInvoice() {
     return data as any;
   };
 
+  const findEInvoiceXml = async (f: File): Promise<string | null> => {
+    if (isXmlFile(f)) {
+      const xml = await f.text();
+      return looksLikeEInvoice(xml) ? xml : null;
+    }
+    if (f.type !== "application/pdf" || !window.pdfjsLib) return null;
+
+    const pdf = await window.pdfjsLib.getDocument({ data: await f.arrayBuffer() }).promise;
+    const attachments = await pdf.getAttachments();
+    if (!attachments) return null;
+
+    const rank = (name: string) => {
+      const i = EINVOICE_ATTACHMENT_NAMES.indexOf(name.toLowerCase());
+      return i < 0 ? EINVOICE_ATTACHMENT_NAMES.length : i;
+    };
+    const xmlFiles = Object.values(attachments)
+      .filter((a) => /\.xml$/i.test(a.filename))
+      .sort((a, b) => rank(a.filename) - rank(b.filename));
+
+    for (const a of xmlFiles) {
+      const xml = new TextDecoder("utf-8").decode(a.content);
+      if (looksLikeEInvoice(xml)) return xml;
+    }
+    return null;
+  };
+
+  // Structured e-invoices (standalone XML or XML embedded in a PDF/A-3) skip OCR and vision entirely.
+  // Returns false when the file is not an e-invoice so the caller continues with OCR.
+  const runStructuredImport = async (f: File): Promise<boolean> => {
+    let xml: string | null = null;
+    try {
+      xml = await findEInvoiceXml(f);
+    } catch (e) {
+      console.warn("e-invoice detection failed, falling back to OCR:", e);
+    }
+    if (!xml) {
+      if (isXmlFile(f)) throw new Error("XML file is not a supported e-invoice (expected CII / ZUGFeRD / Factur-X or UBL / XRechnung).");
+      return false;
+    }
+
+    setExtractedText(xml);
+    setProcessingSteps([
+      { step: "Detected structured e-invoice (XML)", status: "complete" },
+      { step: "Parsing e-invoice XML...", status: "processing" },
+      { step: "Validating & policy checks...", status: "pending" },
+    ]);
+
+    const { data, error } = await invokeAuthed<Record<string, unknown>>("process-invoice", {
+      fileName: f.name,
+      fileType: f.type || "application/xml",
+      einvoiceXml: xml,
+    });
+    if (error || !data) {
+      if (isXmlFile(f)) throw error || new Error("process-invoice returned empty response");
+      console.warn("e-invoice import failed, falling back to OCR:", error);
+      return false;
+    }
+
+    const norm = normalizePipeline(data);
+    setPipelineMeta({ ...data, ...norm });
+    setExtractedData({
+      vendor_name: String(norm.vendor_name ?? ""),
+      invoice_number: String(norm.invoice_number ?? ""),
+      invoice_date: String(norm.invoice_date ?? ""),
+      total_amount: norm.total_amount != null ? String(norm.total_amount) : "",
+      tax_amount: norm.tax_amount != null ? String(norm.tax_amount) : "",
+      currency: String(norm.currency ?? "EUR"),
+    });
+    setProcessingSteps((prev) => prev.map((st) => ({ ...st, status: "complete" })));
+
+    const format = (data.einvoice as { format?: string } | null)?.format || "E-invoice";
+    toast({ title: "E-invoice imported", description: `${format} parsed from XML — OCR skipped.` });
+    return true;
+  };
+
   const resetForm = () => {
     setFile(null);
     setExtractedData(null);
@@ -717,7 +788,7 @@ export default function UploadInvoice() {
         setShareUrl("");
         setPipelineMeta(null);
       } else {
-        toast({ variant: "destructive", title: "Invalid file", description: "Only PDF, JPG, PNG allowed." });
+        toast({ variant: "destructive", title: "Invalid file", description: "Only PDF, JPG, PNG or e-invoice XML allowed." });
       }
     },
     [toast],
@@ -731,7 +802,7 @@ export default function UploadInvoice() {
       setShareUrl("");
       setPipelineMeta(null);
     } else {
-      toast({ variant: "destructive", title: "Invalid file", description: "Only PDF, JPG, PNG allowed." });
+      toast({ variant: "destructive", title: "Invalid file", description: "Only PDF, JPG, PNG or e-invoice XML allowed." });
     }
   };
 
@@ -755,6 +826,7 @@ export default function UploadInvoice() {
 
     try {
       await loadLibraries();
+      if (await runStructuredImport(file)) return;
 
       let text = "";
       if (file.type === "application/pdf") text = await extractTextFromPDF(file);
@@ -765,17 +837,6 @@ export default function UploadInvoice() {
         prev.map((s, i) => (i === 1 ? { ...s, status: "complete" } : i === 2 ? { ...s, status: "processing" } : s)),
       );
 
-      let pipelineRaw: any = null;
-      let pipelineNorm: PipelineNormalized = {};
-      try {
-        pipelineRaw = await runInvoicePipeline(text, file);
-        pipelineNorm = enforcePolicy(normalizePipeline(pipelineRaw));
-        setPipelineMeta({ ...pipelineRaw, ...pipelineNorm });
-      } catch (e) {
-        console.warn("process-invoice failed, fallback to heuristic:", e);
-        setPipelineMeta(null);
-      }
-
       let visionRaw: any = null;
       let visionNorm: PipelineNormalized = {};
       try {
@@ -785,6 +846,17 @@ export default function UploadInvoice() {
         console.warn("vision-extract skipped:", e);
       }
 
+      let pipelineRaw: any = null;
+      let pipelineNorm: PipelineNormalized = {};
+      try {
+        pipelineRaw = await runInvoicePipeline(text, file, visionRaw);
+        pipelineNorm = normalizePipeline(pipelineRaw);
+        setPipelineMeta({ ...pipelineRaw, ...pipelineNorm });
+      } catch (e) {
+        console.warn("process-invoice failed, fallback to heuristic:", e);
+        setPipelineMeta(null);
+      }
+
       const local = extractHeuristic(text, file.name);
 
       const merged: ExtractedData = {
@@ -915,6 +987,7 @@ export default function UploadInvoice() {
       );
 
       await loadLibraries();
+      if (await runStructuredImport(downloadedFile)) return;
 
       let text = "";
       if (downloadedFile.type === "application/pdf") text = await extractTextFromPDF(downloadedFile);
@@ -926,17 +999,6 @@ export default function UploadInvoice() {
         prev.map((s, i) => (i === 1 ? { ...s, status: "complete" } : i === 2 ? { ...s, status: "processing" } : s)),
       );
 
-      let pipelineRaw: any = null;
-      let pipelineNorm: PipelineNormalized = {};
-      try {
-        pipelineRaw = await runInvoicePipeline(text, downloadedFile);
-        pipelineNorm = enforcePolicy(normalizePipeline(pipelineRaw));
-        setPipelineMeta({ ...pipelineRaw, ...pipelineNorm });
-      } catch (e) {
-        console.warn("process-invoice failed for Drive file, fallback to heuristic:", e);
-        setPipelineMeta(null);
-      }
-
       let visionRaw: any = null;
       let visionNorm: PipelineNormalized = {};
       try {
@@ -946,6 +1008,17 @@ export default function UploadInvoice() {
         console.warn("vision-extract skipped for Drive:", e);
       }
 
+      let pipelineRaw: any = null;
+      let pipelineNorm: PipelineNormalized = {};
+      try {
+        pipelineRaw = await runInvoicePipeline(text, downloadedFile, visionRaw);
+        pipelineNorm = normalizePipeline(pipelineRaw);
+        setPipelineMeta({ ...pipelineRaw, ...pipelineNorm });
+      } catch (e) {
+        console.warn("process-invoice failed for Drive file, fallback to heuristic:", e);
+        setPipelineMeta(null);
+      }
+
       const local = extractHeuristic(text, downloadedFile.name);
 
       const merged: ExtractedData = {
@@ -1068,6 +1141,7 @@ export default function UploadInvoice() {
       );
 
       await loadLibraries();
+      if (await runStructuredImport(downloadedFile)) return;
 
       let text = "";
       if (downloadedFile.type === "application/pdf") text = await extractTextFromPDF(downloadedFile);
@@ -1079,17 +1153,6 @@ export default function UploadInvoice() {
         prev.map((s, i) => (i === 1 ? { ...s, status: "complete" } : i === 2 ? { ...s, status: "processing" } : s)),
       );
 
-      let pipelineRaw: any = null;
-      let pipelineNorm: PipelineNormalized = {};
-      try {
-        pipelineRaw = await runInvoicePipeline(text, downloadedFile);
-        pipelineNorm = enforcePolicy(normalizePipeline(pipelineRaw));
-        setPipelineMeta({ ...pipelineRaw, ...pipelineNorm });
-      } catch (e) {
-        console.warn("process-invoice failed for Gmail attachment, fallback to heuristic:", e);
-        setPipelineMeta(null);
-      }
-
       let visionRaw: any = null;
       let visionNorm: PipelineNormalized = {};
       try {
@@ -1099,6 +1162,17 @@ export default function UploadInvoice() {
         console.warn("vision-extract skipped for Gmail:", e);
       }
 
+      let pipelineRaw: any = null;
+      let pipelineNorm: PipelineNormalized = {};
+      try {
+        pipelineRaw = await runInvoicePipeline(text, downloadedFile, visionRaw);
+        pipelineNorm = normalizePipeline(pipelineRaw);
+        setPipelineMeta({ ...pipelineRaw, ...pipelineNorm });
+      } catch (e) {
+        console.warn("process-invoice failed for Gmail attachment, fallback to heuristic:", e);
+        setPipelineMeta(null);
+      }
+
       const local = extractHeuristic(text, downloadedFile.name);
 
       const merged: ExtractedData = {
@@ -1198,6 +1272,11 @@ export default function UploadInvoice() {
         return;
       }
 
+      // An approving pipeline outcome is only a proposal: the invoice is saved as pending and set-approval
+      // decides (approval chain, four-eyes) below
+      const proposed = approvalFromDecision(pipelineMeta?.decision);
+      const awaitsApproval = ["pass", "needs_human"].includes(proposed);
+
       const basePayload: any = {
         user_id: userId,
         file_name: file.name,
@@ -1212,16 +1291,45 @@ export default function UploadInvoice() {
         tax_amount: Number(extractedData.tax_amount),
         currency: extractedData.currency || null,
 
-        is_flagged: pipelineMeta?.approval === "fail" || false,
-        approval: pipelineMeta?.approval || "needs_info",
+        is_flagged: proposed === "fail",
+        approval: awaitsApproval ? "pending" : proposed,
         approval_reasons: pipelineMeta?.approval_reasons ?? null,
         needs_info_fields: pipelineMeta?.needs_info_fields ?? null,
         citations: pipelineMeta?.evidence?.citations ?? pipelineMeta?.citations ?? null,
         confidence: pipelineMeta?.approval_confidence ?? pipelineMeta?.decision_confidence ?? null,
+        compliance_issues: pipelineMeta?.compliance_issues ?? [],
+        compliance_status: pipelineMeta?.compliance_status ?? null,
+        jurisdiction: pipelineMeta?.jurisdiction ?? null,
+        supplier_vat_id: pipelineMeta?.supplier_vat_id ?? null,
+        buyer_vat_id: pipelineMeta?.buyer_vat_id ?? null,
+        supplier_vat_id_valid: pipelineMeta?.supplier_vat_id_valid ?? null,
+        buyer_vat_id_valid: pipelineMeta?.buyer_vat_id_valid ?? null,
+        vat_id_check: pipelineMeta?.vat_id_check ?? null,
+        vat_rate: pipelineMeta?.vat_rate ?? null,
+        vat_amount_computed: pipelineMeta?.vat_amount_computed ?? null,
+        vat_breakdown: pipelineMeta?.vat_breakdown ?? null,
+        vat_treatment: pipelineMeta?.vat_treatment ?? null,
+        iban: pipelineMeta?.iban ?? null,
+        iban_valid: pipelineMeta?.iban_valid ?? null,
+        bic: pipelineMeta?.bic ?? null,
+        bic_valid: pipelineMeta?.bic_valid ?? null,
+        account_holder: pipelineMeta?.account_holder ?? null,
+        payment_reference: pipelineMeta?.payment_reference ?? null,
+        sort_code: pipelineMeta?.sort_code ?? null,
+        account_number: pipelineMeta?.account_number ?? null,
+        seller: pipelineMeta?.einvoice?.seller ?? null,
+        due_date: pipelineMeta?.due_date ?? null,
+        payment_terms: pipelineMeta?.payment_terms ?? null,
+        payment_terms_parsed: pipelineMeta?.payment_terms_parsed ?? null,
+        discount_percent: pipelineMeta?.discount_percent ?? null,
+        discount_due_date: pipelineMeta?.discount_due_date ?? null,
         total_eur: pipelineMeta?.total_eur ?? null,
+        // kept so a clarification answer can re-run the pipeline without the original file
+        extracted_text: extractedText || null,
+        ...(isReceipt ? { doc_class: "receipt" } : {}),
       };
 
-      const ins = await supabase.from("invoices").insert(basePayload);
+      const ins = await supabase.from("invoices").insert(basePayload).select("id").single();
 
       if (ins.error && (ins.error as any).code === "23505") {
         toast({ title: "Already saved", description: "This invoice was already saved (duplicate hash)." });
@@ -1230,6 +1338,89 @@ export default function UploadInvoice() {
       }
       if (ins.error) throw ins.error;
 
+      const lineItems: PipelineLineItem[] = Array.isArray(pipelineMeta?.line_items) ? pipelineMeta.line_items : [];
+      if (ins.data?.id && lineItems.length) {
+        const { error: liErr } = await supabase.from("invoice_line_items").insert(
+          lineItems.map((li, idx) => ({
+            invoice_id: ins.data.id,
+            user_id: userId,
+            line_index: li.line_index ?? idx,
+            description: li.description ?? null,
+            quantity: li.quantity ?? null,
+            unit_price: li.unit_price ?? null,
+            net_amount: li.net_amount ?? null,
+            vat_rate: li.vat_rate ?? null,
+            source: li.source || "text",
+          })),
+        );
+        if (liErr) console.warn("line items not saved:", liErr);
+      }
+
+      if (cardTransactionId && ins.data?.id) {
+        const { error: linkErr } = await invokeAuthed("card-receipts", {
+          action: "link",
+          transactionId: cardTransactionId,
+          invoiceId: ins.data.id,
+        });
+        if (linkErr) {
+          toast({ variant: "destructive", title: "Receipt saved but not linked", description: corsSafeError(linkErr) });
+          return;
+        }
+        toast({ title: "Receipt saved", description: "The receipt was linked to the card transaction." });
+        resetForm();
+        navigate("/dashboard/cards");
+        return;
+      }
+
+      if (reimbursementId && ins.data?.id) {
+        const { error: addErr } = await invokeAuthed("reimbursements", {
+          action: "add_receipt",
+          claimId: reimbursementId,
+          invoiceId: ins.data.id,
+        });
+        if (addErr) {
+          toast({ variant: "destructive", title: "Receipt saved but not added to the claim", description: corsSafeError(addErr) });
+          return;
+        }
+        toast({ title: "Receipt saved", description: "The receipt was added to your reimbursement claim." });
+        resetForm();
+        navigate("/dashboard/reimbursements");
+        return;
+      }
+
+      // Invoices the pipeline would approve go through the configured approval chain, if one applies
+      if (ins.data?.id && awaitsApproval) {
+        const { data: sub, error: subErr } = await invokeAuthed<{ chain?: { name: string } | null; status?: string }>("set-approval", {
+          action: "submit",
+          invoiceId: ins.data.id,
+          status: proposed,
+        });
+        if (subErr) {
+          toast({ variant: "destructive", title: "Invoice saved but not sent for approval", description: corsSafeError(subErr) });
+          resetForm();
+          return;
+        }
+        if (sub?.chain) {
+          toast({ title: "Saved", description: `Invoice saved and sent for approval (${sub.chain.name}).` });
+          resetForm();
+          return;
+        }
+        if (sub?.status === "needs_human") {
+          toast({ title: "Saved", description: "Invoice saved. Someone other than you needs to approve it." });
+          resetForm();
+          return;
+        }
+      }
+
+      // Missing fields open a clarification listing them; it is answered from the invoice (or by the vendor)
+      if (ins.data?.id && basePayload.approval === "needs_info") {
+        const { error: clarErr } = await invokeAuthed("invoice-clarifications", { action: "request", invoiceId: ins.data.id });
+        if (clarErr) console.warn("clarification not opened:", clarErr);
+        toast({ title: "Saved", description: "Invoice saved. Some information is missing — answer the request on the invoice." });
+        resetForm();
+        return;
+      }
+
       toast({ title: "Saved", description: "Invoice saved successfully!" });
       resetForm();
     } catch (e: any) {
@@ -1245,8 +1436,14 @@ export default function UploadInvoice() {
       <div className="max-w-3xl mx-auto space-y-8">
         <div className="flex justify-between items-start">
           <div>
-            <h1 className="text-3xl font-bold">Upload Invoice</h1>
-            <p className="text-gray-600 mt-1">Upload invoices via file, Google Drive, or email</p>
+            <h1 className="text-3xl font-bold">{isReceipt ? "Upload Receipt" : "Upload Invoice"}</h1>
+            <p className="text-gray-600 mt-1">
+              {cardTransactionId
+                ? "The receipt is read like an invoice and linked to your card transaction when saved"
+                : reimbursementId
+                  ? "The receipt is read like an invoice and added to your reimbursement claim when saved"
+                : "Upload invoices via file, Google Drive, or email"}
+            </p>
           </div>
 
           {isAuthenticated ? (
@@ -1326,12 +1523,12 @@ export default function UploadInvoice() {
                       </div>
                       <div>
                         <p className="font-medium">Drop your invoice here</p>
-                        <p className="text-sm text-gray-600">or click to browse • PDF, JPG, PNG up to 10MB</p>
+                        <p className="text-sm text-gray-600">or click to browse • PDF, JPG, PNG, XML up to 10MB</p>
                       </div>
 
                       <input
                         type="file"
-                        accept=".pdf,.jpg,.jpeg,.png"
+                        accept=".pdf,.jpg,.jpeg,.png,.xml"
                         onChange={handleFileSelect}
                         className="hidden"
                         id="file-upload"
@@ -1659,7 +1856,13 @@ export default function UploadInvoice() {
 
                       {pipelineMeta.human_review_required && (
                         <span className="inline-flex items-center rounded-md border px-2 py-0.5 text-xs font-medium">
-                          Human approval required (&gt; €5000 equivalent)
+                          Human approval required
+                        </span>
+                      )}
+
+                      {Array.isArray(pipelineMeta.policy_evaluation?.policies) && pipelineMeta.policy_evaluation.policies.length > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          Policies: {pipelineMeta.policy_evaluation.policies.map((pol: { name: string }) => pol.name).join(", ")}
                         </span>
                       )}
 
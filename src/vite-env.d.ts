@@ -16,6 +16,8 @@ interface PDFPage {
 interface PDFDocument {
   numPages: number;
   getPage: (pageNum: number) => Promise<PDFPage>;
+  // PDF/A-3 embedded files (ZUGFeRD / Factur-X XML), keyed by file name
+  getAttachments: () => Promise<Record<string, { filename: string; content: Uint8Array }> | null>;
 }
 
 declare global {
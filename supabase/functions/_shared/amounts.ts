@@ -0,0 +1,43 @@
+// supabase/functions/_shared/amounts.ts
+// Locale-tolerant amount parsing shared by the invoice functions.
+
+/**
+ * Parses "1,234.56", "1.234,56", "1 234,56", "€ 99" or "-12.5" into a number.
+ * The last "." or "," followed by 1-2 digits is treated as the decimal separator.
+ */
+export function parseAmount(x: unknown): number | null {
+  if (x === null || x === undefined) return null;
+  if (typeof x === "number") return Number.isFinite(x) ? x : null;
+
+  let s = String(x).trim().replace(/[^\d,.-]/g, "");
+  if (!s || !/\d/.test(s)) return null;
+
+  const neg = s.startsWith("-");
+  s = s.replace(/-/g, "");
+
+  const lastDot = s.lastIndexOf(".");
+  const lastComma = s.lastIndexOf(",");
+  const sepIdx = Math.max(lastDot, lastComma);
+  const decimals = sepIdx >= 0 ? s.length - sepIdx - 1 : 0;
+
+  let normalized: string;
+  if (sepIdx >= 0 && decimals > 0 && decimals <= 2) {
+    normalized = s.slice(0, sepIdx).replace(/[.,]/g, "") + "." + s.slice(sepIdx + 1);
+  } else {
+    normalized = s.replace(/[.,]/g, "");
+  }
+
+  const n = Number(normalized);
+  if (!Number.isFinite(n)) return null;
+  return neg ? -n : n;
+}
+
+export const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+/** Rates may arrive as 19, "19%", 0.19 or "0,19" — always returns a fraction (0.19). */
+export function normalizeRate(x: unknown): number | null {
+  const n = parseAmount(x);
+  if (n === null || n < 0) return null;
+  const r = n > 1 ? n / 100 : n;
+  return r > 1 ? null : Math.round(r * 10000) / 10000;
+}
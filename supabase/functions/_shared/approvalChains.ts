@@ -0,0 +1,467 @@
+// supabase/functions/_shared/approvalChains.ts
+// Multi-step invoice approval: picks the configured chain for an invoice, stores each step in public.approvals
+// and moves the invoice to pass only when every required step of the current cycle has passed.
+// Steps follow their approver's out-of-office delegation and escalate when their SLA lapses. Chains,
+// delegations and every approver belong to the invoice's organization.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { memberIds } from "./organizations.ts";
+
+type Db = ReturnType<typeof createClient>;
+type Row = Record<string, unknown>;
+
+export type ApproverType = "manager" | "user" | "admin";
+export type StepDecision = "pass" | "fail" | "needs_info";
+
+export type ChainStep = {
+  id: string;
+  chain_id: string;
+  position: number;
+  name: string;
+  approver_type: ApproverType;
+  approver_id: string | null;
+  min_amount: number | null;
+  sla_hours: number | null;
+  escalate_to: string | null;
+};
+
+export type Chain = {
+  id: string;
+  organization_id: string | null;
+  name: string;
+  min_amount: number;
+  max_amount: number | null;
+  is_active: boolean;
+  created_at: string;
+  approval_chain_steps?: ChainStep[];
+};
+
+export type ApprovalStep = {
+  id: string;
+  invoice_id: string;
+  user_id: string;
+  chain_id: string | null;
+  cycle: number;
+  step_index: number;
+  step_name: string | null;
+  approver_id: string | null;
+  status: "pending" | "pass" | "fail" | "needs_info" | "needs_human";
+  reasons: string[] | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  sla_hours: number | null;
+  escalate_to: string | null;
+  due_at: string | null;
+  original_approver_id: string | null;
+  escalation_level: number;
+  escalated_at: string | null;
+};
+
+export type Delegation = {
+  id: string;
+  organization_id: string | null;
+  user_id: string;
+  delegate_id: string;
+  starts_on: string; // YYYY-MM-DD, inclusive
+  ends_on: string;
+  revoked_at: string | null;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Chain thresholds are in EUR; invoices without a converted total fall back to their own amount. */
+export const invoiceAmountEur = (inv: Row) => {
+  const eur = inv.total_eur == null ? NaN : Number(inv.total_eur);
+  return Number.isFinite(eur) ? eur : Number(inv.total_amount ?? 0) || 0;
+};
+
+/** The active chain whose amount band contains `amount`; the highest lower bound wins when bands overlap. */
+export function pickChain(chains: Chain[], amount: number): Chain | null {
+  const fits = chains.filter(
+    (c) => c.is_active && amount >= Number(c.min_amount || 0) && (c.max_amount === null || amount < Number(c.max_amount)),
+  );
+  fits.sort((a, b) => Number(b.min_amount || 0) - Number(a.min_amount || 0) || b.created_at.localeCompare(a.created_at));
+  return fits[0] ?? null;
+}
+
+export const requiredSteps = (steps: ChainStep[], amount: number) =>
+  [...steps].sort((a, b) => a.position - b.position).filter((s) => s.min_amount === null || amount >= Number(s.min_amount));
+
+export const latestCycle = (rows: ApprovalStep[]) => {
+  const cycle = Math.max(0, ...rows.map((r) => r.cycle));
+  return rows.filter((r) => r.cycle === cycle).sort((a, b) => a.step_index - b.step_index);
+};
+
+/** The step waiting for a decision, or null once the latest cycle passed, failed or went back for information. */
+export function activeStep(rows: ApprovalStep[]): ApprovalStep | null {
+  const cycle = latestCycle(rows);
+  if (cycle.some((r) => r.status === "fail" || r.status === "needs_info")) return null;
+  return cycle.find((r) => r.status === "pending") ?? null;
+}
+
+/** The assignee, or whoever the step was delegated or escalated away from; "any admin" steps take any admin. */
+export const canDecideStep = (step: ApprovalStep, actor: { id: string; admin: boolean }) =>
+  step.approver_id ? step.approver_id === actor.id || step.original_approver_id === actor.id : actor.admin;
+
+/**
+ * Who acts for `userId` on `date`: follows delegations (a substitute may be away too) and stops at the
+ * first person without one, or where the trail loops back.
+ */
+export function delegateFor(delegations: Delegation[], userId: string, date: string): string {
+  const seen = new Set([userId]);
+  let current = userId;
+  for (;;) {
+    const d = delegations.find((x) => x.user_id === current && !x.revoked_at && x.starts_on <= date && x.ends_on >= date);
+    if (!d || seen.has(d.delegate_id)) return current;
+    seen.add(d.delegate_id);
+    current = d.delegate_id;
+  }
+}
+
+/** Delegations running on `date`; with `organizationId` only that organization's. */
+export async function loadDelegations(db: Db, date: string, organizationId?: string | null): Promise<Delegation[]> {
+  let query = db
+    .from("approval_delegations")
+    .select("id,organization_id,user_id,delegate_id,starts_on,ends_on,revoked_at")
+    .is("revoked_at", null)
+    .lte("starts_on", date)
+    .gte("ends_on", date);
+  if (organizationId) query = query.eq("organization_id", organizationId);
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data || []) as Delegation[];
+}
+
+async function loadInvoice(db: Db, invoiceId: string) {
+  const { data, error } = await db
+    .from("invoices")
+    .select("id,user_id,organization_id,vendor_name,invoice_number,total_amount,total_eur,currency,approval")
+    .eq("id", invoiceId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Invoice not found");
+  return data as Row;
+}
+
+export async function loadApprovalSteps(db: Db, invoiceId: string): Promise<ApprovalStep[]> {
+  const { data, error } = await db.from("approvals").select("*").eq("invoice_id", invoiceId).order("cycle").order("step_index");
+  if (error) throw new Error(error.message);
+  return (data || []) as ApprovalStep[];
+}
+
+const invoiceLabel = (inv: Row) =>
+  `${inv.vendor_name || "Unknown vendor"}${inv.invoice_number ? ` ${inv.invoice_number}` : ""} (${Number(inv.total_amount ?? 0).toFixed(2)} ${inv.currency || ""})`.trim();
+
+/** Tells the step's approver (every admin for "any admin" steps) that an invoice is waiting for them. */
+async function notifyApprovers(db: Db, step: ApprovalStep, inv: Row, actorId: string, note?: string) {
+  let recipients = step.approver_id ? [step.approver_id] : [];
+  if (!step.approver_id) {
+    const { data } = await db.from("user_roles").select("user_id").eq("role", "admin");
+    recipients = (data || []).map((r: Row) => String(r.user_id));
+  }
+  const rows = recipients
+    .filter((id) => id !== inv.user_id)
+    .map((id) => ({
+      user_id: id,
+      created_by: actorId,
+      kind: "approval_requested",
+      title: `Invoice to approve (${step.step_name || `step ${step.step_index + 1}`}): ${invoiceLabel(inv)}`,
+      body: [note, step.due_at ? `Due ${step.due_at.slice(0, 16).replace("T", " ")} UTC` : null].filter(Boolean).join("\n") || null,
+      link: "/dashboard/approvals",
+      entity_type: "invoice",
+      entity_id: inv.id,
+    }));
+  if (rows.length) await db.from("notifications").insert(rows);
+}
+
+async function audit(db: Db, actorId: string, invoiceId: unknown, step: string, payload: Row) {
+  try {
+    await db.from("audit_logs").insert({ user_id: actorId, invoice_id: invoiceId, step, payload });
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Makes a step the one waiting for a decision: hands it to its approver's substitute when they are
+ * away today, starts its SLA clock and notifies whoever now has it.
+ */
+async function activateStep(db: Db, step: ApprovalStep, inv: Row, actorId: string, now = new Date()) {
+  const patch: Row = { due_at: step.sla_hours ? new Date(now.getTime() + step.sla_hours * HOUR_MS).toISOString() : null };
+  let note: string | undefined;
+  if (step.approver_id) {
+    const today = now.toISOString().slice(0, 10);
+    const delegate = delegateFor(await loadDelegations(db, today, inv.organization_id as string | null), step.approver_id, today);
+    if (delegate !== step.approver_id && (await memberIds(db, inv.organization_id as string | null)).has(delegate)) {
+      patch.approver_id = delegate;
+      patch.original_approver_id = step.original_approver_id ?? step.approver_id;
+      note = "You are the substitute of an approver who is out of office.";
+      await audit(db, actorId, inv.id, "approval_delegated", {
+        approval_id: step.id,
+        step: step.step_name,
+        from: step.approver_id,
+        to: delegate,
+        reason: "out_of_office",
+      });
+    }
+  }
+
+  const { data, error } = await db.from("approvals").update(patch).eq("id", step.id).select("*").single();
+  if (error) throw new Error(error.message);
+  await notifyApprovers(db, data as ApprovalStep, inv, actorId, note);
+  return data as ApprovalStep;
+}
+
+/**
+ * Starts a new approval cycle for an invoice from the chain matching its EUR amount.
+ * Returns null when no active chain applies, leaving the invoice's approval untouched.
+ * Manager steps resolve to the uploader's profiles.manager_id; without one, or when the manager or a named
+ * approver is not a member of the invoice's organization, they fall to any admin.
+ */
+export async function startApprovalChain(writer: Db, invoiceId: string, actorId: string) {
+  const inv = await loadInvoice(writer, invoiceId);
+  const existing = await loadApprovalSteps(writer, invoiceId);
+  if (activeStep(existing)) throw new Error("Invoice is already going through its approval chain");
+
+  if (!inv.organization_id) return null;
+  const { data: chains, error: cErr } = await writer
+    .from("approval_chains")
+    .select("*, approval_chain_steps(*)")
+    .eq("organization_id", inv.organization_id)
+    .eq("is_active", true);
+  if (cErr) throw new Error(cErr.message);
+  const amount = invoiceAmountEur(inv);
+  const chain = pickChain((chains || []) as Chain[], amount);
+  if (!chain) return null;
+  const steps = requiredSteps(chain.approval_chain_steps || [], amount);
+  if (!steps.length) return null;
+
+  const members = await memberIds(writer, inv.organization_id as string);
+  const member = (id: string | null | undefined) => (id && members.has(id) ? id : null);
+  let managerId: string | null = null;
+  if (steps.some((s) => s.approver_type === "manager")) {
+    const { data: profile } = await writer.from("profiles").select("manager_id").eq("user_id", inv.user_id).maybeSingle();
+    managerId = profile?.manager_id && profile.manager_id !== inv.user_id ? member(String(profile.manager_id)) : null;
+  }
+
+  const cycle = Math.max(0, ...existing.map((r) => r.cycle)) + 1;
+  const { data: inserted, error } = await writer
+    .from("approvals")
+    .insert(
+      steps.map((s, i) => ({
+        invoice_id: invoiceId,
+        user_id: inv.user_id,
+        chain_id: chain.id,
+        cycle,
+        step_index: i,
+        step_name: s.name,
+        approver_id: s.approver_type === "manager" ? managerId : s.approver_type === "user" ? member(s.approver_id) : null,
+        sla_hours: s.sla_hours ?? null,
+        escalate_to: member(s.escalate_to),
+        status: "pending",
+      })),
+    )
+    .select("*");
+  if (error) throw new Error(error.message);
+
+  const { error: invErr } = await writer
+    .from("invoices")
+    .update({ approval: "pending", approved_by: null, updated_at: new Date().toISOString() })
+    .eq("id", invoiceId);
+  if (invErr) throw new Error(invErr.message);
+
+  const rows = ((inserted || []) as ApprovalStep[]).sort((a, b) => a.step_index - b.step_index);
+  if (rows[0]) rows[0] = await activateStep(writer, rows[0], inv, actorId);
+
+  await audit(writer, actorId, invoiceId, "approval_chain_started", {
+    chain_id: chain.id,
+    chain: chain.name,
+    cycle,
+    amount_eur: amount,
+    steps: rows.map((r) => ({ name: r.step_name, approver_id: r.approver_id })),
+  });
+  return { chain: { id: chain.id, name: chain.name }, cycle, steps: rows };
+}
+
+/**
+ * Records the actor's decision on the invoice's active step. A rejection or a request for information
+ * ends the cycle and is written straight to the invoice; a pass moves on to the next step, and the
+ * invoice becomes pass only after the last one.
+ */
+export async function decideApprovalStep(
+  writer: Db,
+  actor: { id: string; admin: boolean },
+  invoiceId: string,
+  decision: StepDecision,
+  reasons: string[],
+) {
+  const inv = await loadInvoice(writer, invoiceId);
+  const steps = await loadApprovalSteps(writer, invoiceId);
+  const step = activeStep(steps);
+  if (!step) throw new Error("Invoice has no approval step waiting for a decision");
+  if (!canDecideStep(step, actor)) throw new Error(`You are not the approver of step "${step.step_name || step.step_index + 1}"`);
+  if (decision !== "pass" && !reasons.length) throw new Error("Give a reason when rejecting or asking for information");
+
+  const now = new Date().toISOString();
+  const { data: updated, error } = await writer
+    .from("approvals")
+    .update({ status: decision, reasons, decided_by: actor.id, decided_at: now })
+    .eq("id", step.id)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!updated) throw new Error("This step was already decided");
+
+  const cycle = latestCycle(steps);
+  let next = decision === "pass" ? cycle.find((r) => r.step_index > step.step_index && r.status === "pending") ?? null : null;
+  const outcome = decision !== "pass" ? decision : next ? "pending" : "pass";
+
+  if (outcome !== "pending") {
+    const { error: invErr } = await writer
+      .from("invoices")
+      .update({ approval: outcome, updated_at: now, ...(outcome === "fail" ? { is_flagged: true } : {}) })
+      .eq("id", invoiceId);
+    if (invErr) throw new Error(invErr.message);
+
+    const verdict = outcome === "pass" ? "approved" : outcome === "fail" ? "rejected" : "returned for more information";
+    await writer.from("notifications").insert({
+      user_id: inv.user_id,
+      created_by: actor.id,
+      kind: "invoice_approval_decided",
+      title: `Invoice ${verdict}: ${invoiceLabel(inv)}`,
+      body: reasons.join("\n") || null,
+      link: "/dashboard/invoices",
+      entity_type: "invoice",
+      entity_id: invoiceId,
+    });
+  } else if (next) {
+    next = await activateStep(writer, next, inv, actor.id);
+  }
+
+  await audit(writer, actor.id, invoiceId, "approval_step_decided", {
+    approval_id: step.id,
+    cycle: step.cycle,
+    step: step.step_name,
+    decision,
+    reasons,
+    invoice_approval: outcome,
+  });
+  return { step: updated as ApprovalStep, next, approval: outcome };
+}
+
+/**
+ * Active steps assigned to `userId` on the organization's invoices, with the invoices (one query per
+ * invoice, bounded by the approver's queue).
+ */
+async function activeStepsOf(db: Db, organizationId: string, userId: string) {
+  const { data, error } = await db.from("approvals").select("invoice_id").eq("approver_id", userId).eq("status", "pending");
+  if (error) throw new Error(error.message);
+  const out: { step: ApprovalStep; inv: Row }[] = [];
+  for (const invoiceId of new Set((data || []).map((r: Row) => String(r.invoice_id)))) {
+    const step = activeStep(await loadApprovalSteps(db, invoiceId));
+    if (step?.approver_id !== userId) continue;
+    const inv = await loadInvoice(db, invoiceId);
+    if (inv.organization_id === organizationId) out.push({ step, inv });
+  }
+  return out;
+}
+
+/**
+ * Moves the open steps an approver who is out of office today has in the organization to their substitute.
+ * Called when a delegation is created; steps that become active later pick the delegation up in activateStep.
+ */
+export async function applyDelegation(db: Db, organizationId: string, userId: string, actorId: string, now = new Date()) {
+  const today = now.toISOString().slice(0, 10);
+  const delegate = delegateFor(await loadDelegations(db, today, organizationId), userId, today);
+  if (delegate === userId || !(await memberIds(db, organizationId)).has(delegate)) return { moved: 0 };
+
+  let moved = 0;
+  for (const { step, inv } of await activeStepsOf(db, organizationId, userId)) {
+    if (delegate === inv.user_id) continue; // never hand an invoice to its own uploader
+    const { data } = await db
+      .from("approvals")
+      .update({ approver_id: delegate, original_approver_id: step.original_approver_id ?? userId })
+      .eq("id", step.id)
+      .eq("status", "pending")
+      .select("*")
+      .maybeSingle();
+    if (!data) continue;
+    moved++;
+    await audit(db, actorId, inv.id, "approval_delegated", { approval_id: step.id, step: step.step_name, from: userId, to: delegate, reason: "out_of_office" });
+    await notifyApprovers(db, data as ApprovalStep, inv, actorId, "You are the substitute of an approver who is out of office.");
+  }
+  return { moved };
+}
+
+/**
+ * Escalates active steps whose SLA has lapsed: to the step's escalate_to, else the current approver's
+ * manager, else any admin (following delegations, and only to members of the invoice's organization).
+ * "Any admin" steps cannot go higher; their admins are reminded once and the step stops escalating.
+ */
+export async function escalateOverdueSteps(db: Db, actorId: string | null, now = new Date()) {
+  const { data, error } = await db
+    .from("approvals")
+    .select("invoice_id")
+    .eq("status", "pending")
+    .not("due_at", "is", null)
+    .lt("due_at", now.toISOString())
+    .limit(500);
+  if (error) throw new Error(error.message);
+
+  const today = now.toISOString().slice(0, 10);
+  const delegations = await loadDelegations(db, today);
+  let checked = 0;
+  let escalated = 0;
+  for (const invoiceId of new Set((data || []).map((r: Row) => String(r.invoice_id)))) {
+    const step = activeStep(await loadApprovalSteps(db, invoiceId));
+    if (!step?.due_at || step.due_at >= now.toISOString()) continue;
+    checked++;
+    const inv = await loadInvoice(db, invoiceId);
+    const by = actorId ?? String(inv.user_id); // scheduled runs are attributed to the invoice owner
+    const from = step.approver_id;
+
+    let to: string | null = null;
+    if (from) {
+      if (step.escalate_to && step.escalate_to !== from) {
+        to = step.escalate_to;
+      } else {
+        const { data: profile } = await db.from("profiles").select("manager_id").eq("user_id", from).maybeSingle();
+        to = profile?.manager_id && profile.manager_id !== from ? String(profile.manager_id) : null;
+      }
+      if (to) to = delegateFor(delegations.filter((d) => d.organization_id === inv.organization_id), to, today);
+      if (to && !(await memberIds(db, inv.organization_id as string | null)).has(to)) to = null;
+      if (to === inv.user_id || to === from) to = null;
+    }
+
+    const patch: Row = {
+      escalation_level: Number(step.escalation_level || 0) + 1,
+      escalated_at: now.toISOString(),
+      due_at: from && step.sla_hours ? new Date(now.getTime() + step.sla_hours * HOUR_MS).toISOString() : null,
+    };
+    if (from) {
+      patch.approver_id = to;
+      patch.original_approver_id = step.original_approver_id ?? from;
+    }
+    const { data: updated } = await db.from("approvals").update(patch).eq("id", step.id).eq("status", "pending").select("*").maybeSingle();
+    if (!updated) continue;
+    escalated++;
+
+    await audit(db, by, invoiceId, "approval_escalated", {
+      approval_id: step.id,
+      step: step.step_name,
+      from,
+      to: from ? to : null,
+      level: patch.escalation_level,
+      due_at: step.due_at,
+      sla_hours: step.sla_hours,
+    });
+    await notifyApprovers(
+      db,
+      updated as ApprovalStep,
+      inv,
+      by,
+      from ? "Escalated: the previous approver did not decide within the SLA." : "Overdue: this step is past its SLA.",
+    );
+  }
+  return { checked, escalated };
+}
@@ -0,0 +1,10 @@
+// supabase/functions/_shared/auth.ts
+// Role checks for edge functions, read through the caller's own client (user_roles RLS lets users see their roles).
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+
+type Db = ReturnType<typeof createClient>;
+
+export async function isAdmin(supabase: Db, userId: string): Promise<boolean> {
+  const { data } = await supabase.from("user_roles").select("role").eq("user_id", userId).eq("role", "admin").maybeSingle();
+  return !!data;
+}
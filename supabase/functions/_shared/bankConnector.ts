@@ -0,0 +1,146 @@
+// supabase/functions/_shared/bankConnector.ts
+// Open-banking access behind a provider-agnostic connector (consent, accounts, balances, transactions).
+// "sandbox" serves a JSON fixture (BANK_SANDBOX_FILE, else ./sandbox/bankSandbox.json); live providers plug into getBankConnector.
+import defaultSandbox from "./sandbox/bankSandbox.json" with { type: "json" };
+import type { BankTransaction } from "./bankStatement.ts";
+import { addDays } from "./paymentTerms.ts";
+
+export type BankConsent = {
+  consent_id: string;
+  created_at: string;
+  expires_at: string;
+};
+
+export type ConnectorAccount = {
+  external_id: string;
+  iban: string | null;
+  name: string | null;
+  currency: string;
+};
+
+export type ConnectorBalance = {
+  booked: number | null;
+  available: number | null;
+  currency: string;
+  date: string; // YYYY-MM-DD
+};
+
+export type DateRange = { from: string; to: string }; // inclusive, YYYY-MM-DD
+
+export interface BankConnector {
+  readonly provider: string;
+  readonly institutionName: string;
+  createConsent(now?: Date): Promise<BankConsent>;
+  listAccounts(consent: BankConsent): Promise<ConnectorAccount[]>;
+  getBalance(consent: BankConsent, account: ConnectorAccount): Promise<ConnectorBalance>;
+  listTransactions(consent: BankConsent, account: ConnectorAccount, range: DateRange): Promise<BankTransaction[]>;
+}
+
+export const consentExpired = (consent: { expires_at: string | null }, now = new Date()) =>
+  !!consent.expires_at && new Date(consent.expires_at).getTime() <= now.getTime();
+
+type SandboxTransaction = {
+  days_ago: number; // relative to consent creation; negative values appear in later syncs
+  amount: number;
+  counterparty_name?: string | null;
+  counterparty_iban?: string | null;
+  counterparty_bic?: string | null;
+  remittance?: string | null;
+  end_to_end_id?: string | null;
+};
+
+type SandboxAccount = ConnectorAccount & {
+  balance: number;
+  available?: number;
+  transactions: SandboxTransaction[];
+};
+
+export type SandboxData = {
+  institution: string;
+  consent_valid_days?: number;
+  accounts: SandboxAccount[];
+};
+
+/** Fixture-backed bank for development; bookings are dated relative to the consent so syncs stay stable. */
+export class SandboxBankConnector implements BankConnector {
+  readonly provider = "sandbox";
+
+  constructor(private data: SandboxData) {}
+
+  get institutionName() {
+    return this.data.institution;
+  }
+
+  async createConsent(now = new Date()): Promise<BankConsent> {
+    const days = this.data.consent_valid_days ?? 90;
+    return {
+      consent_id: `sandbox-${crypto.randomUUID()}`,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString(),
+    };
+  }
+
+  private account(consent: BankConsent, externalId: string): SandboxAccount {
+    if (consentExpired(consent)) throw new Error("Consent expired; reconnect the bank.");
+    const acc = this.data.accounts.find((a) => a.external_id === externalId);
+    if (!acc) throw new Error(`Unknown sandbox account "${externalId}"`);
+    return acc;
+  }
+
+  async listAccounts(consent: BankConsent): Promise<ConnectorAccount[]> {
+    if (consentExpired(consent)) throw new Error("Consent expired; reconnect the bank.");
+    return this.data.accounts.map(({ external_id, iban, name, currency }) => ({ external_id, iban, name, currency }));
+  }
+
+  async getBalance(consent: BankConsent, account: ConnectorAccount): Promise<ConnectorBalance> {
+    const acc = this.account(consent, account.external_id);
+    return {
+      booked: acc.balance,
+      available: acc.available ?? acc.balance,
+      currency: acc.currency,
+      date: new Date().toISOString().slice(0, 10),
+    };
+  }
+
+  async listTransactions(consent: BankConsent, account: ConnectorAccount, range: DateRange): Promise<BankTransaction[]> {
+    const acc = this.account(consent, account.external_id);
+    const anchor = consent.created_at.slice(0, 10);
+    const today = new Date().toISOString().slice(0, 10);
+    return acc.transactions
+      .map((t) => {
+        const booking = addDays(anchor, -t.days_ago);
+        return {
+          account_iban: acc.iban,
+          booking_date: booking,
+          value_date: booking,
+          amount: t.amount,
+          currency: acc.currency,
+          counterparty_name: t.counterparty_name ?? null,
+          counterparty_iban: t.counterparty_iban ?? null,
+          counterparty_bic: t.counterparty_bic ?? null,
+          remittance: t.remittance ?? null,
+          end_to_end_id: t.end_to_end_id ?? null,
+          bank_reference: null,
+        };
+      })
+      .filter((t) => t.booking_date >= range.from && t.booking_date <= range.to && t.booking_date <= today)
+      .sort((a, b) => a.booking_date.localeCompare(b.booking_date));
+  }
+}
+
+async function loadSandboxData(): Promise<SandboxData> {
+  const file = Deno.env.get("BANK_SANDBOX_FILE");
+  if (!file) return defaultSandbox as SandboxData;
+  return JSON.parse(await Deno.readTextFile(file)) as SandboxData;
+}
+
+export const BANK_PROVIDERS = ["sandbox"] as const;
+
+export async function getBankConnector(provider: string): Promise<BankConnector | null> {
+  switch (provider) {
+    case "sandbox":
+      return new SandboxBankConnector(await loadSandboxData());
+    default:
+      return null;
+  }
+}
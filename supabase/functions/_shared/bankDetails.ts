@@ -0,0 +1,154 @@
+// supabase/functions/_shared/bankDetails.ts
+// IBAN / BIC / account holder / payment reference extraction and validation.
+
+export type BankDetails = {
+  iban: string | null;
+  iban_valid: boolean | null;
+  bic: string | null;
+  bic_valid: boolean | null;
+  account_holder: string | null;
+  payment_reference: string | null;
+  // UK domestic details, when printed instead of (or next to) an IBAN
+  sort_code: string | null;
+  account_number: string | null;
+  source: "xml" | "vision" | "text" | null;
+};
+
+// IBAN lengths per the SWIFT IBAN registry
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29, BY: 28, CH: 21, CR: 22, CY: 28,
+  CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18,
+  GR: 27, GT: 28, HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32,
+  LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24,
+  PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24, SC: 31, SE: 24, SI: 19, SK: 24, SM: 27, ST: 25, SV: 28,
+  TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20,
+};
+
+export const normalizeIban = (raw: string) => String(raw || "").toUpperCase().replace(/[\s\-.]/g, "");
+
+/** Letters become 10..35, then the whole string is taken mod 97 in chunks. */
+function mod97(s: string): number {
+  let r = 0;
+  for (const ch of s) {
+    const v = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const d of v) r = (r * 10 + Number(d)) % 97;
+  }
+  return r;
+}
+
+export function validateIban(raw: string): boolean {
+  const iban = normalizeIban(raw);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(iban)) return false;
+  const len = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (len && iban.length !== len) return false;
+  return mod97(iban.slice(4) + iban.slice(0, 4)) === 1;
+}
+
+export const normalizeBic = (raw: string) => String(raw || "").toUpperCase().replace(/\s/g, "");
+
+/** ISO 9362: bank (4 letters) + country (2 letters) + location (2) + optional branch (3). */
+export function validateBic(raw: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(normalizeBic(raw));
+}
+
+/** ISO 11649 creditor reference ("RF18 5390 0754 7034"). */
+export function validateCreditorReference(raw: string): boolean {
+  const ref = normalizeIban(raw);
+  if (!/^RF\d{2}[A-Z0-9]{1,21}$/.test(ref)) return false;
+  return mod97(ref.slice(4) + ref.slice(0, 4)) === 1;
+}
+
+/** Formats an IBAN in groups of four, as printed on invoices. */
+export const formatIban = (iban: string) => normalizeIban(iban).replace(/(.{4})/g, "$1 ").trim();
+
+const IBAN_CANDIDATE = /\b([A-Z]{2}\d{2}(?:[ -]?[A-Z0-9]{1,4}){3,8})\b/g;
+const BIC_LABELLED = /\b(?:BIC|SWIFT(?:\s*code)?|SWIFT\/BIC|BIC\/SWIFT)\s*[:#]?\s*([A-Z]{4}\s?[A-Z]{2}\s?[A-Z0-9]{2}(?:\s?[A-Z0-9]{3})?)\b/i;
+const HOLDER_LABELLED =
+  /\b(?:Kontoinhaber(?:in)?|Account\s*(?:holder|name)|Beneficiary(?:\s*name)?|Zahlungsempfänger|Empfänger|Titulaire(?:\s+du\s+compte)?|Bénéficiaire|Intestatario)\s*[:#]?\s*([^\n]{2,70})/i;
+const REFERENCE_LABELLED =
+  /\b(?:Verwendungszweck|Zahlungsreferenz|Payment\s*reference|Reference|Referenz|Référence(?:\s+de\s+paiement)?|Causale)\s*[:#]?\s*([^\n]{2,70})/i;
+const CREDITOR_REFERENCE = /\bRF\d{2}(?:\s?[A-Z0-9]{1,4}){1,6}\b/i;
+const SORT_CODE = /\bsort\s*code\s*[:#]?\s*(\d{2}[\s-]?\d{2}[\s-]?\d{2})\b/i;
+const ACCOUNT_NUMBER = /\b(?:account\s*(?:number|no\.?)|acc(?:ount)?\s*no\.?|a\/c(?:\s*no\.?)?)\s*[:#]?\s*(\d{6,8})\b/i;
+
+function firstValidIban(text: string): { iban: string; valid: boolean } | null {
+  let fallback: string | null = null;
+  for (const m of text.toUpperCase().matchAll(IBAN_CANDIDATE)) {
+    const candidate = normalizeIban(m[1]);
+    if (!IBAN_LENGTHS[candidate.slice(0, 2)]) continue;
+    // Greedy grouping may swallow the next token; trim back to the registry length
+    const len = IBAN_LENGTHS[candidate.slice(0, 2)];
+    const iban = candidate.length > len ? candidate.slice(0, len) : candidate;
+    if (validateIban(iban)) return { iban, valid: true };
+    fallback ??= iban;
+  }
+  return fallback ? { iban: fallback, valid: false } : null;
+}
+
+export function extractBankDetails(text: string): BankDetails {
+  const t = String(text || "");
+  const iban = firstValidIban(t);
+  const bic = t.match(BIC_LABELLED)?.[1] ?? null;
+  const holder = t.match(HOLDER_LABELLED)?.[1]?.trim() ?? null;
+  const rf = t.match(CREDITOR_REFERENCE)?.[0] ?? null;
+  const reference = rf && validateCreditorReference(rf) ? normalizeIban(rf) : t.match(REFERENCE_LABELLED)?.[1]?.trim() ?? null;
+  const sortCode = t.match(SORT_CODE)?.[1]?.replace(/\D/g, "") ?? null;
+  const accountNumber = t.match(ACCOUNT_NUMBER)?.[1] ?? null;
+
+  return {
+    iban: iban?.iban ?? null,
+    iban_valid: iban ? iban.valid : null,
+    bic: bic ? normalizeBic(bic) : null,
+    bic_valid: bic ? validateBic(bic) : null,
+    account_holder: holder,
+    payment_reference: reference,
+    sort_code: sortCode,
+    account_number: accountNumber,
+    source: iban || bic || sortCode ? "text" : null,
+  };
+}
+
+/**
+ * Merges candidate sources (first non-empty value wins per field) and re-validates the result.
+ */
+export function resolveBankDetails(
+  sources: Array<
+    | {
+        source: BankDetails["source"];
+        iban?: unknown;
+        bic?: unknown;
+        account_holder?: unknown;
+        payment_reference?: unknown;
+        sort_code?: unknown;
+        account_number?: unknown;
+      }
+    | null
+  >,
+): BankDetails {
+  const pick = (k: "iban" | "bic" | "account_holder" | "payment_reference" | "sort_code" | "account_number") => {
+    for (const s of sources) {
+      if (!s) continue;
+      const v = s[k];
+      if (typeof v === "string" && v.trim()) return { value: v.trim(), source: s.source };
+    }
+    return null;
+  };
+  const iban = pick("iban");
+  const bic = pick("bic");
+  const holder = pick("account_holder");
+  const reference = pick("payment_reference");
+  const sortCode = pick("sort_code");
+  const accountNumber = pick("account_number");
+
+  return {
+    iban: iban ? normalizeIban(iban.value) : null,
+    iban_valid: iban ? validateIban(iban.value) : null,
+    bic: bic ? normalizeBic(bic.value) : null,
+    bic_valid: bic ? validateBic(bic.value) : null,
+    account_holder: holder?.value ?? null,
+    payment_reference: reference?.value ?? null,
+    sort_code: sortCode ? sortCode.value.replace(/\D/g, "") : null,
+    account_number: accountNumber ? accountNumber.value.replace(/\D/g, "") : null,
+    source: iban?.source ?? bic?.source ?? sortCode?.source ?? null,
+  };
+}
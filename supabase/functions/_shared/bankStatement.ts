@@ -0,0 +1,454 @@
+// supabase/functions/_shared/bankStatement.ts
+// Bank statement import: ISO 20022 camt.053 (also camt.052/054), SWIFT MT940 and bank CSV exports
+// normalised to one transaction shape, with a fingerprint to de-duplicate overlapping imports.
+import { XMLParser } from "https://esm.sh/fast-xml-parser@4.5.0";
+import { parseAmount, round2 } from "./amounts.ts";
+import { normalizeBic, normalizeIban, validateIban } from "./bankDetails.ts";
+
+export type StatementFormat = "camt053" | "mt940" | "csv";
+
+export type BankTransaction = {
+  account_iban: string | null;
+  booking_date: string; // YYYY-MM-DD
+  value_date: string | null;
+  amount: number; // signed: credits positive, debits negative
+  currency: string;
+  counterparty_name: string | null;
+  counterparty_iban: string | null;
+  counterparty_bic: string | null;
+  remittance: string | null;
+  end_to_end_id: string | null;
+  bank_reference: string | null;
+};
+
+export type StatementIssue = { line: number | null; message: string; severity: "error" | "warning" };
+
+export type ParsedStatement = {
+  format: StatementFormat;
+  account_iban: string | null;
+  currency: string | null;
+  transactions: BankTransaction[];
+  issues: StatementIssue[];
+};
+
+type XmlNode = Record<string, unknown>;
+
+const clean = (s: unknown) => {
+  const t = String(s ?? "").replace(/\s+/g, " ").trim();
+  return t || null;
+};
+
+const ibanOrNull = (raw: unknown) => {
+  const iban = normalizeIban(String(raw ?? ""));
+  return iban && validateIban(iban) ? iban : null;
+};
+
+export function detectStatementFormat(content: string, fileName = ""): StatementFormat | null {
+  const head = String(content || "").slice(0, 4000);
+  if (/camt\.05[234]|<BkToCstmr(Stmt|AcctRpt|DbtCdtNtfctn)\b/.test(head)) return "camt053";
+  if (/^:20:/m.test(head) && /^:61:/m.test(content)) return "mt940";
+  if (/\.(sta|mt940|940)$/i.test(fileName)) return "mt940";
+  if (/\.(csv|txt)$/i.test(fileName) || /[;,\t]/.test(head.split(/\r?\n/)[0] || "")) return "csv";
+  return null;
+}
+
+// ---------- camt.053 ----------
+
+const camtParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ["Stmt", "Rpt", "Ntfctn", "Ntry", "NtryDtls", "TxDtls", "Ustrd", "Strd"].includes(name),
+});
+
+const first = (v: unknown): unknown => (Array.isArray(v) ? v[0] : v);
+const asArray = (v: unknown): unknown[] => (v === undefined || v === null ? [] : Array.isArray(v) ? v : [v]);
+
+function get(node: unknown, path: string[]): unknown {
+  let cur: unknown = node;
+  for (const key of path) {
+    cur = first(cur);
+    if (!cur || typeof cur !== "object") return undefined;
+    cur = (cur as XmlNode)[key];
+  }
+  return cur;
+}
+
+function text(v: unknown): string | null {
+  const n = first(v);
+  if (n === null || n === undefined) return null;
+  if (typeof n === "object") return clean((n as XmlNode)["#text"]);
+  return clean(n);
+}
+
+const attr = (v: unknown, name: string): string | null => {
+  const n = first(v);
+  return n && typeof n === "object" ? clean((n as XmlNode)[`@_${name}`]) : null;
+};
+
+const camtDate = (node: unknown) => (text(get(node, ["Dt"])) ?? text(get(node, ["DtTm"])))?.slice(0, 10) ?? null;
+
+/** camt.053.001.02 names parties directly (Dbtr/Nm); .001.08+ wraps them in Pty. */
+const partyName = (p: unknown) => text(get(p, ["Nm"])) ?? text(get(p, ["Pty", "Nm"]));
+const agentBic = (a: unknown) => {
+  const bic = text(get(a, ["FinInstnId", "BICFI"])) ?? text(get(a, ["FinInstnId", "BIC"]));
+  return bic ? normalizeBic(bic) : null;
+};
+
+export function parseCamt053(xml: string): ParsedStatement {
+  const doc = camtParser.parse(xml) as XmlNode;
+  const root = first(get(doc, ["Document"])) as XmlNode | undefined;
+  const body = (root?.BkToCstmrStmt ?? root?.BkToCstmrAcctRpt ?? root?.BkToCstmrDbtCdtNtfctn) as XmlNode | undefined;
+  if (!body) throw new Error("Not a camt.052/053/054 document");
+
+  const issues: StatementIssue[] = [];
+  const transactions: BankTransaction[] = [];
+  const statements = [...asArray(body.Stmt), ...asArray(body.Rpt), ...asArray(body.Ntfctn)];
+  let accountIban: string | null = null;
+  let accountCurrency: string | null = null;
+
+  for (const stmt of statements) {
+    const iban = ibanOrNull(text(get(stmt, ["Acct", "Id", "IBAN"])));
+    const ccy = text(get(stmt, ["Acct", "Ccy"]));
+    accountIban ??= iban;
+    accountCurrency ??= ccy;
+
+    for (const ntry of asArray(get(stmt, ["Ntry"]))) {
+      const status = text(get(ntry, ["Sts", "Cd"])) ?? text(get(ntry, ["Sts"]));
+      if (status && status !== "BOOK") {
+        issues.push({ line: null, message: `Skipped ${status} entry ${text(get(ntry, ["AcctSvcrRef"])) ?? ""}`.trim(), severity: "warning" });
+        continue;
+      }
+      const sign = text(get(ntry, ["CdtDbtInd"])) === "DBIT" ? -1 : 1;
+      const reversal = text(get(ntry, ["RvslInd"])) === "true" ? -1 : 1;
+      const bookingDate = camtDate(get(ntry, ["BookgDt"])) ?? camtDate(get(ntry, ["ValDt"]));
+      if (!bookingDate) {
+        issues.push({ line: null, message: "Entry without booking date skipped.", severity: "warning" });
+        continue;
+      }
+      const entryAmount = parseAmount(text(get(ntry, ["Amt"]))) ?? 0;
+      const entryCcy = attr(get(ntry, ["Amt"]), "Ccy") ?? ccy ?? "EUR";
+      const entryRef = text(get(ntry, ["AcctSvcrRef"]));
+      const txs = asArray(get(ntry, ["NtryDtls"])).flatMap((d) => asArray(get(d, ["TxDtls"])));
+
+      // Batch bookings list each transfer in TxDtls; single bookings may have none at all
+      for (const [i, tx] of (txs.length ? txs : [null]).entries()) {
+        const txAmount = tx ? parseAmount(text(get(tx, ["Amt"])) ?? text(get(tx, ["AmtDtls", "TxAmt", "Amt"]))) : null;
+        const counterparty = sign > 0 ? "Dbtr" : "Cdtr";
+        const ustrd = asArray(get(tx, ["RmtInf", "Ustrd"])).map(text).filter(Boolean).join(" ");
+        const strd = text(get(tx, ["RmtInf", "Strd", "CdtrRefInf", "Ref"]));
+        const e2e = text(get(tx, ["Refs", "EndToEndId"]));
+        transactions.push({
+          account_iban: iban,
+          booking_date: bookingDate,
+          value_date: camtDate(get(ntry, ["ValDt"])),
+          amount: round2(sign * reversal * (txs.length > 1 && txAmount !== null ? txAmount : entryAmount)),
+          currency: entryCcy.toUpperCase(),
+          counterparty_name: tx ? partyName(get(tx, ["RltdPties", counterparty])) : null,
+          counterparty_iban: tx ? ibanOrNull(text(get(tx, ["RltdPties", `${counterparty}Acct`, "Id", "IBAN"]))) : null,
+          counterparty_bic: tx ? agentBic(get(tx, ["RltdAgts", `${counterparty}Agt`])) : null,
+          remittance: clean([strd, ustrd].filter(Boolean).join(" ")) ?? text(get(ntry, ["AddtlNtryInf"])),
+          end_to_end_id: e2e && e2e !== "NOTPROVIDED" ? e2e : null,
+          bank_reference: text(get(tx, ["Refs", "AcctSvcrRef"])) ?? (entryRef ? (txs.length > 1 ? `${entryRef}/${i + 1}` : entryRef) : null),
+        });
+      }
+    }
+  }
+
+  return { format: "camt053", account_iban: accountIban, currency: accountCurrency, transactions, issues };
+}
+
+// ---------- MT940 ----------
+
+const mtDate = (yymmdd: string) => `${Number(yymmdd.slice(0, 2)) < 80 ? "20" : "19"}${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+
+/** German statements identify the account as "BLZ/Kontonummer"; the IBAN is derived from both. */
+function germanIban(blz: string, account: string): string | null {
+  if (!/^\d{8}$/.test(blz) || !/^\d{1,10}$/.test(account)) return null;
+  const bban = `${blz}${account.padStart(10, "0")}`;
+  const digits = `${bban}131400`; // "DE00" moved to the end, D=13 E=14
+  let rem = 0;
+  for (const d of digits) rem = (rem * 10 + Number(d)) % 97;
+  return `DE${String(98 - rem).padStart(2, "0")}${bban}`;
+}
+
+// :61: value date, optional entry date (MMDD), debit/credit mark, funds code, amount, type, refs
+const MT61 = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})([NSF][A-Z0-9]{3})([^/\n]*?)(?:\/\/([^\n]*))?(?:\n(.*))?$/s;
+
+/** German banks structure :86: as ?xx subfields with SEPA keywords (EREF+, SVWZ+, ...). */
+function parseMt86(raw: string) {
+  const joined = raw.replace(/\r?\n/g, "");
+  if (!/^\d{3}\?/.test(joined) && !/\?2\d/.test(joined)) {
+    const flat = clean(raw.replace(/\r?\n/g, " "));
+    const iban = flat?.match(/\b[A-Z]{2}\d{2}[A-Z0-9]{11,30}\b/)?.[0] ?? null;
+    return { name: null, iban: ibanOrNull(iban), bic: null, remittance: flat, e2e: null };
+  }
+
+  const fields = new Map<string, string>();
+  for (const m of joined.matchAll(/\?(\d{2})([^?]*)/g)) fields.set(m[1], (fields.get(m[1]) ?? "") + m[2]);
+  const purpose = ["20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "60", "61", "62", "63"]
+    .map((k) => fields.get(k) ?? "")
+    .join("");
+  const sepa = new Map<string, string>();
+  const parts = purpose.split(/(EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE|IBAN|BIC)\+/);
+  for (let i = 1; i < parts.length; i += 2) sepa.set(parts[i], parts[i + 1]);
+
+  const e2e = clean(sepa.get("EREF"));
+  return {
+    name: clean(`${fields.get("32") ?? ""}${fields.get("33") ?? ""}`),
+    iban: ibanOrNull(fields.get("31")),
+    bic: fields.get("30") ? normalizeBic(fields.get("30") as string) : null,
+    remittance: clean(sepa.get("SVWZ") ?? (parts.length > 1 ? parts[0] : purpose)),
+    e2e: e2e && e2e !== "NOTPROVIDED" ? e2e : null,
+  };
+}
+
+export function parseMt940(content: string): ParsedStatement {
+  // Split into tags; continuation lines belong to the previous tag
+  const tags: { tag: string; value: string; line: number }[] = [];
+  String(content || "")
+    .replace(/\{[1-3]:[^}]*\}/g, "")
+    .split(/\r?\n/)
+    .forEach((line, idx) => {
+      const m = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (m) tags.push({ tag: m[1], value: m[2], line: idx + 1 });
+      else if (tags.length && !/^-\}?$/.test(line.trim()) && !/^\{4:/.test(line)) tags[tags.length - 1].value += `\n${line}`;
+    });
+
+  const issues: StatementIssue[] = [];
+  const transactions: BankTransaction[] = [];
+  let accountIban: string | null = null;
+  let account: string | null = null;
+  let currency: string | null = null;
+
+  for (const { tag, value, line } of tags) {
+    if (tag === "25") {
+      const [blz, acct] = value.trim().split("/");
+      account = acct === undefined ? ibanOrNull(blz) : germanIban(blz, acct.replace(/\D.*$/, "")) ?? ibanOrNull(acct);
+      accountIban ??= account;
+    } else if (tag === "60F" || tag === "60M") {
+      currency = value.trim().slice(7, 10) || currency;
+    } else if (tag === "61") {
+      const m = value.trim().match(MT61);
+      if (!m) {
+        issues.push({ line, message: `Unreadable :61: statement line "${value.slice(0, 40)}"`, severity: "error" });
+        continue;
+      }
+      const valueDate = mtDate(m[1]);
+      let bookingDate = valueDate;
+      if (m[2]) {
+        // Entry date carries no year; it can fall into the previous/next year around New Year
+        const year = Number(valueDate.slice(0, 4));
+        const candidates = [year - 1, year, year + 1].map((y) => `${y}-${m[2].slice(0, 2)}-${m[2].slice(2, 4)}`);
+        bookingDate = candidates.reduce((a, b) =>
+          Math.abs(Date.parse(b) - Date.parse(valueDate)) < Math.abs(Date.parse(a) - Date.parse(valueDate)) ? b : a,
+        );
+      }
+      const debit = m[3] === "D" || m[3] === "RC";
+      const amount = parseAmount(m[5]) ?? 0;
+      const customerRef = clean(m[7]);
+      transactions.push({
+        account_iban: account,
+        booking_date: bookingDate,
+        value_date: valueDate,
+        amount: round2(debit ? -amount : amount),
+        currency: currency ?? "EUR",
+        counterparty_name: null,
+        counterparty_iban: null,
+        counterparty_bic: null,
+        remittance: null,
+        end_to_end_id: customerRef && customerRef !== "NONREF" ? customerRef : null,
+        bank_reference: clean(m[8]),
+      });
+    } else if (tag === "86" && transactions.length) {
+      const tx = transactions[transactions.length - 1];
+      const info = parseMt86(value);
+      tx.counterparty_name = info.name;
+      tx.counterparty_iban = info.iban;
+      tx.counterparty_bic = info.bic;
+      tx.remittance = info.remittance;
+      tx.end_to_end_id = info.e2e ?? tx.end_to_end_id;
+    }
+  }
+
+  return { format: "mt940", account_iban: accountIban, currency, transactions, issues };
+}
+
+// ---------- CSV ----------
+
+// Header synonyms of common EN/DE online-banking exports, matched on lowercase, accent-free names
+const CSV_COLUMNS: Record<keyof BankTransaction | "debit" | "credit" | "direction", RegExp> = {
+  booking_date: /^(booking ?date|date|transaction ?date|posted|posting ?date|buchungstag|buchungsdatum|datum)$/,
+  value_date: /^(value ?date|valuta|valutadatum|wertstellung)$/,
+  amount: /^(amount|betrag|umsatz|betrag \(eur\)|amount \(eur\))$/,
+  debit: /^(debit|soll|ausgang|withdrawal|paid out)$/,
+  credit: /^(credit|haben|eingang|deposit|paid in)$/,
+  direction: /^(s\/h|soll\/haben|debit\/credit|cr\/dr)$/,
+  currency: /^(currency|wahrung|waehrung|ccy)$/,
+  counterparty_name: /^(counterparty|name|payee|payer|beguenstigter|begunstigter|zahlungspflichtiger|beguenstigter\/zahlungspflichtiger|begunstigter\/zahlungspflichtiger|empfanger|auftraggeber|name zahlungsbeteiligter)$/,
+  counterparty_iban: /^(iban|counterparty iban|kontonummer|kontonummer\/iban|iban zahlungsbeteiligter)$/,
+  counterparty_bic: /^(bic|bic \(swift-code\)|bic zahlungsbeteiligter)$/,
+  remittance: /^(reference|remittance|purpose|memo|details|description|verwendungszweck|buchungstext|narrative)$/,
+  end_to_end_id: /^(end ?to ?end ?(id|reference)|eref)$/,
+  bank_reference: /^(bank ?reference|transaction ?id|id|kundenreferenz|referenz)$/,
+  account_iban: /^(account|account iban|auftragskonto|iban auftragskonto)$/,
+};
+
+export const headerKey = (h: string) =>
+  h.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/"/g, "").replace(/\s+/g, " ").trim();
+
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      out.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur);
+  return out.map((c) => c.trim());
+}
+
+/** dd.mm.yyyy, dd/mm/yyyy, yyyy-mm-dd, dd.mm.yy; slashes are read day-first unless that is impossible. */
+export function csvDate(raw: string): string | null {
+  const s = String(raw || "").trim();
+  let m = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = s.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/);
+  if (!m) return null;
+  let [d, mo] = [Number(m[1]), Number(m[2])];
+  if (mo > 12 && d <= 12) [d, mo] = [mo, d];
+  const y = m[3].length === 2 ? `20${m[3]}` : m[3];
+  if (mo < 1 || mo > 12 || d < 1 || d > 31) return null;
+  return `${y}-${String(mo).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+export const csvAmount = (raw: string | undefined) => {
+  const s = String(raw ?? "").trim();
+  if (!s) return null;
+  const n = parseAmount(s.replace(/\s/g, ""));
+  return n === null ? null : /-\s*$/.test(s) && n > 0 ? -n : n; // "12,50-"
+};
+
+export function parseCsvStatement(content: string): ParsedStatement {
+  const lines = String(content || "").replace(/^\uFEFF/, "").split(/\r?\n/);
+  const issues: StatementIssue[] = [];
+
+  // Exports often start with account metadata; the header is the first row naming a date and an amount
+  let headerIdx = -1;
+  let delimiter = ";";
+  let columns: Partial<Record<keyof typeof CSV_COLUMNS, number>> = {};
+  let accountIban: string | null = null;
+  for (let i = 0; i < Math.min(lines.length, 40) && headerIdx < 0; i++) {
+    accountIban ??= ibanOrNull(lines[i].match(/\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){3,7}(?:\s?[A-Z0-9]{1,3})?\b/)?.[0]);
+    for (const d of [";", ",", "\t"]) {
+      const cells = splitCsvLine(lines[i], d).map(headerKey);
+      if (cells.length < 2) continue;
+      const found: typeof columns = {};
+      for (const [key, re] of Object.entries(CSV_COLUMNS) as [keyof typeof CSV_COLUMNS, RegExp][]) {
+        const idx = cells.findIndex((c) => re.test(c));
+        if (idx >= 0 && !Object.values(found).includes(idx)) found[key] = idx;
+      }
+      if (found.booking_date !== undefined && (found.amount !== undefined || found.debit !== undefined || found.credit !== undefined)) {
+        headerIdx = i;
+        delimiter = d;
+        columns = found;
+        break;
+      }
+    }
+  }
+  if (headerIdx < 0) throw new Error("CSV header with a date and an amount column not found");
+
+  const transactions: BankTransaction[] = [];
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cells = splitCsvLine(lines[i], delimiter);
+    const col = (k: keyof typeof CSV_COLUMNS) => (columns[k] === undefined ? undefined : cells[columns[k] as number]);
+
+    const bookingDate = csvDate(col("booking_date") ?? "");
+    if (!bookingDate) {
+      issues.push({ line: i + 1, message: "Row without a readable booking date skipped.", severity: "warning" });
+      continue;
+    }
+    let amount = csvAmount(col("amount"));
+    if (amount === null) {
+      const debit = csvAmount(col("debit"));
+      const credit = csvAmount(col("credit"));
+      if (debit !== null || credit !== null) amount = (credit ?? 0) - Math.abs(debit ?? 0);
+    }
+    if (amount === null) {
+      issues.push({ line: i + 1, message: "Row without a readable amount skipped.", severity: "warning" });
+      continue;
+    }
+    if (/^(s|d|dr|soll|debit)$/i.test(col("direction") ?? "") && amount > 0) amount = -amount;
+
+    transactions.push({
+      account_iban: ibanOrNull(col("account_iban")) ?? accountIban,
+      booking_date: bookingDate,
+      value_date: csvDate(col("value_date") ?? ""),
+      amount: round2(amount),
+      currency: (clean(col("currency")) ?? "EUR").toUpperCase(),
+      counterparty_name: clean(col("counterparty_name")),
+      counterparty_iban: ibanOrNull(col("counterparty_iban")),
+      counterparty_bic: clean(col("counterparty_bic")) ? normalizeBic(col("counterparty_bic") as string) : null,
+      remittance: clean(col("remittance")),
+      end_to_end_id: clean(col("end_to_end_id")),
+      bank_reference: clean(col("bank_reference")),
+    });
+  }
+
+  const currencies = new Set(transactions.map((t) => t.currency));
+  return {
+    format: "csv",
+    account_iban: accountIban ?? transactions.find((t) => t.account_iban)?.account_iban ?? null,
+    currency: currencies.size === 1 ? [...currencies][0] : null,
+    transactions,
+    issues,
+  };
+}
+
+export function parseStatement(content: string, fileName = "", format?: StatementFormat | null): ParsedStatement {
+  const fmt = format ?? detectStatementFormat(content, fileName);
+  if (fmt === "camt053") return parseCamt053(content);
+  if (fmt === "mt940") return parseMt940(content);
+  if (fmt === "csv") return parseCsvStatement(content);
+  throw new Error("Unrecognised statement format (expected camt.053 XML, MT940 or CSV)");
+}
+
+export async function sha256(s: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(s));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Stable key for de-duplication across overlapping imports. Identical transactions on the same
+ * day are told apart by their order in the file.
+ */
+export async function fingerprintTransactions(txs: BankTransaction[]): Promise<string[]> {
+  const seen = new Map<string, number>();
+  const keys: string[] = [];
+  for (const t of txs) {
+    const base = [
+      t.account_iban ?? "",
+      t.booking_date,
+      t.amount.toFixed(2),
+      t.currency,
+      t.counterparty_iban ?? "",
+      (t.remittance ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 60),
+    ].join("|");
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    keys.push(await sha256(`${base}|${n}`));
+  }
+  return keys;
+}
@@ -0,0 +1,140 @@
+// supabase/functions/_shared/bankSync.ts
+// Opens bank connections and syncs them: balances per account and new booked transactions into bank_transactions.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { consentExpired, getBankConnector, type BankConsent } from "./bankConnector.ts";
+import { fingerprintTransactions } from "./bankStatement.ts";
+import { addDays } from "./paymentTerms.ts";
+
+type Db = ReturnType<typeof createClient>;
+type Row = Record<string, unknown>;
+
+const CHUNK = 500;
+const INITIAL_DAYS = 90; // PSD2 lets a fresh consent read 90 days back
+const OVERLAP_DAYS = 3; // late bookings; re-reads are de-duplicated by fingerprint
+
+export type SyncResult = {
+  connection_id: string;
+  user_id: string;
+  organization_id: string | null;
+  status: "active" | "expired" | "error" | "revoked";
+  accounts: number;
+  fetched: number;
+  imported: number;
+  error?: string;
+};
+
+export async function createConnection(supabase: Db, userId: string, provider: string) {
+  const connector = await getBankConnector(provider);
+  if (!connector) throw new Error(`Unknown bank provider "${provider}"`);
+  const consent = await connector.createConsent();
+
+  const { data, error } = await supabase
+    .from("bank_connections")
+    .insert({
+      user_id: userId,
+      provider,
+      institution_name: connector.institutionName,
+      consent_id: consent.consent_id,
+      consent_created_at: consent.created_at,
+      consent_expires_at: consent.expires_at,
+      status: "active",
+    })
+    .select("*")
+    .single();
+  if (error || !data) throw new Error(error?.message || "Could not store bank connection");
+  return data;
+}
+
+/** Interval elapsed. Connections whose consent lapsed since the last run are still due, so they get marked expired. */
+export function isSyncDue(connection: Row, now = new Date()): boolean {
+  if (connection.status === "revoked" || connection.status === "expired") return false;
+  if (!connection.last_synced_at) return true;
+  const interval = Number(connection.sync_interval_minutes ?? 360) * 60 * 1000;
+  return new Date(String(connection.last_synced_at)).getTime() + interval <= now.getTime();
+}
+
+export async function syncConnection(supabase: Db, connection: Row): Promise<SyncResult> {
+  const result: SyncResult = {
+    connection_id: String(connection.id),
+    user_id: String(connection.user_id),
+    organization_id: (connection.organization_id as string | null) ?? null,
+    status: "active",
+    accounts: 0,
+    fetched: 0,
+    imported: 0,
+  };
+  if (connection.status === "revoked") return { ...result, status: "revoked" };
+
+  const consent: BankConsent = {
+    consent_id: String(connection.consent_id ?? ""),
+    created_at: String(connection.consent_created_at ?? connection.created_at),
+    expires_at: String(connection.consent_expires_at ?? ""),
+  };
+  if (consentExpired({ expires_at: (connection.consent_expires_at as string | null) ?? null })) {
+    const message = "Consent expired; reconnect the bank.";
+    await supabase.from("bank_connections").update({ status: "expired", last_error: message }).eq("id", connection.id);
+    return { ...result, status: "expired", error: message };
+  }
+
+  try {
+    const connector = await getBankConnector(String(connection.provider));
+    if (!connector) throw new Error(`Unknown bank provider "${connection.provider}"`);
+
+    const now = new Date().toISOString();
+    const today = now.slice(0, 10);
+    const from = connection.last_synced_at
+      ? addDays(String(connection.last_synced_at).slice(0, 10), -OVERLAP_DAYS)
+      : addDays(today, -INITIAL_DAYS);
+
+    const accounts = await connector.listAccounts(consent);
+    for (const account of accounts) {
+      const balance = await connector.getBalance(consent, account);
+      await supabase.from("bank_connection_accounts").upsert(
+        {
+          connection_id: connection.id,
+          user_id: connection.user_id,
+          organization_id: connection.organization_id,
+          external_id: account.external_id,
+          iban: account.iban,
+          name: account.name,
+          currency: account.currency,
+          balance_booked: balance.booked,
+          balance_available: balance.available,
+          balance_date: balance.date,
+          last_synced_at: now,
+        },
+        { onConflict: "connection_id,external_id" },
+      );
+
+      const txs = await connector.listTransactions(consent, account, { from, to: today });
+      const keys = await fingerprintTransactions(txs);
+      const rows = txs.map((t, i) => ({
+        ...t,
+        user_id: connection.user_id,
+        organization_id: connection.organization_id,
+        connection_id: connection.id,
+        dedupe_key: keys[i],
+      }));
+      for (let i = 0; i < rows.length; i += CHUNK) {
+        const { data, error } = await supabase
+          .from("bank_transactions")
+          .upsert(rows.slice(i, i + CHUNK), { onConflict: "user_id,dedupe_key", ignoreDuplicates: true })
+          .select("id");
+        if (error) throw new Error(error.message);
+        result.imported += data?.length ?? 0;
+      }
+      result.fetched += txs.length;
+      result.accounts++;
+    }
+
+    await supabase
+      .from("bank_connections")
+      .update({ status: "active", last_synced_at: now, last_sync_imported: result.imported, last_error: null })
+      .eq("id", connection.id);
+    return result;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    await supabase.from("bank_connections").update({ status: "error", last_error: message }).eq("id", connection.id);
+    return { ...result, status: "error", error: message };
+  }
+}
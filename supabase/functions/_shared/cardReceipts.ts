@@ -0,0 +1,219 @@
+// supabase/functions/_shared/cardReceipts.ts
+// Links receipts to card transactions (automatic and manual) and reminds card holders about missing receipts.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import type { FxRates } from "./reconcile.ts";
+import { AUTO_MATCH_SCORE, matchReceipts, type CardTxnForMatch, type ReceiptForMatch } from "./receiptMatch.ts";
+import { canActOnTransaction, completeReceiptTasks } from "./receiptTasks.ts";
+
+type Db = ReturnType<typeof createClient>;
+type Row = Record<string, unknown>;
+
+const MAX_ROWS = 1000;
+export const REMINDER_COOLDOWN_DAYS = 3;
+
+export type ReceiptMatchingRun = { matched: number; suggested: number };
+
+export async function runReceiptMatching(supabase: Db, userId: string, opts: { fx?: FxRates } = {}): Promise<ReceiptMatchingRun> {
+  // Suggestions are recomputed; confirmed links are kept
+  await supabase
+    .from("card_transactions")
+    .update({ suggested_invoice_id: null, match_score: null, match_reasons: null })
+    .eq("user_id", userId)
+    .is("matched_invoice_id", null);
+
+  const { data: txRows, error: txErr } = await supabase
+    .from("card_transactions")
+    .select("id,txn_date,merchant,amount,currency,original_amount,original_currency")
+    .eq("user_id", userId)
+    .is("matched_invoice_id", null)
+    .is("declaration_id", null)
+    .eq("receipt_required", true)
+    .gt("amount", 0)
+    .order("txn_date", { ascending: false })
+    .limit(MAX_ROWS);
+  if (txErr) throw new Error(txErr.message);
+
+  const { data: linked } = await supabase.from("card_transactions").select("matched_invoice_id").eq("user_id", userId).not("matched_invoice_id", "is", null);
+  const taken = new Set((linked || []).map((l: Row) => String(l.matched_invoice_id)));
+
+  const { data: receiptRows, error: rErr } = await supabase
+    .from("invoices")
+    .select("id,vendor_name,total_amount,currency,invoice_date")
+    .eq("user_id", userId)
+    .eq("doc_class", "receipt")
+    .order("created_at", { ascending: false })
+    .limit(MAX_ROWS);
+  if (rErr) throw new Error(rErr.message);
+
+  const transactions: CardTxnForMatch[] = (txRows || [])
+    .filter((t: Row) => t.txn_date)
+    .map((t: Row) => ({
+      id: String(t.id),
+      txn_date: String(t.txn_date),
+      merchant: (t.merchant as string | null) ?? null,
+      amount: Number(t.amount),
+      currency: String(t.currency || "EUR").toUpperCase(),
+      original_amount: t.original_amount === null ? null : Number(t.original_amount),
+      original_currency: (t.original_currency as string | null) ?? null,
+    }));
+  const receipts: ReceiptForMatch[] = (receiptRows || [])
+    .filter((r: Row) => !taken.has(String(r.id)))
+    .map((r: Row) => ({
+      id: String(r.id),
+      vendor_name: (r.vendor_name as string | null) ?? null,
+      total_amount: r.total_amount === null ? null : Number(r.total_amount),
+      currency: (r.currency as string | null) ?? null,
+      invoice_date: (r.invoice_date as string | null) ?? null,
+    }));
+
+  const run: ReceiptMatchingRun = { matched: 0, suggested: 0 };
+  const now = new Date().toISOString();
+  for (const m of matchReceipts({ transactions, receipts, fx: opts.fx })) {
+    const auto = m.score >= AUTO_MATCH_SCORE;
+    await supabase
+      .from("card_transactions")
+      .update(
+        auto
+          ? { matched_invoice_id: m.invoice_id, match_method: "auto", matched_at: now, match_score: m.score, match_reasons: m.reasons }
+          : { suggested_invoice_id: m.invoice_id, match_score: m.score, match_reasons: m.reasons },
+      )
+      .eq("id", m.transaction_id)
+      .is("matched_invoice_id", null);
+
+    if (auto) {
+      run.matched++;
+      await completeReceiptTasks(supabase, [m.transaction_id], "receipt", userId);
+      try {
+        await supabase.from("audit_logs").insert({
+          user_id: userId,
+          invoice_id: m.invoice_id,
+          step: "card_receipt_matched",
+          payload: { card_transaction_id: m.transaction_id, score: m.score, reasons: m.reasons, method: "auto" },
+        });
+      } catch {
+        // ignore
+      }
+    } else run.suggested++;
+  }
+  return run;
+}
+
+/** Owner or card holder links a receipt they uploaded; holders go through the service client since RLS only lets them read. */
+export async function linkReceipt(supabase: Db, userId: string, transactionId: string, invoiceId: string) {
+  const { data: tx } = await supabase.from("card_transactions").select("id,user_id,card_holder_id").eq("id", transactionId).maybeSingle();
+  if (!tx || !canActOnTransaction(tx, userId)) throw new Error("Card transaction not found");
+
+  const { data: receipt } = await supabase.from("invoices").select("id,user_id").eq("id", invoiceId).maybeSingle();
+  if (!receipt || (receipt.user_id !== userId && receipt.user_id !== tx.user_id)) throw new Error("Receipt not found");
+
+  const { data: other } = await supabase.from("card_transactions").select("id").eq("matched_invoice_id", invoiceId).neq("id", transactionId).limit(1);
+  if (other?.length) throw new Error("Receipt is already linked to another card transaction");
+
+  const { data, error } = await supabase
+    .from("card_transactions")
+    .update({
+      matched_invoice_id: invoiceId,
+      match_method: "manual",
+      matched_at: new Date().toISOString(),
+      suggested_invoice_id: null,
+    })
+    .eq("id", transactionId)
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Card transaction not found");
+  await completeReceiptTasks(supabase, [transactionId], "receipt", userId);
+
+  try {
+    await supabase.from("audit_logs").insert({
+      user_id: userId,
+      invoice_id: invoiceId,
+      step: "card_receipt_matched",
+      payload: { card_transaction_id: transactionId, method: "manual" },
+    });
+  } catch {
+    // ignore
+  }
+  return data;
+}
+
+export async function unlinkReceipt(supabase: Db, userId: string, transactionId: string) {
+  const { data, error } = await supabase
+    .from("card_transactions")
+    .update({ matched_invoice_id: null, match_method: null, matched_at: null, match_score: null, match_reasons: null })
+    .eq("id", transactionId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Card transaction not found");
+
+  // The holder owes a receipt again unless a declaration covers the transaction
+  if (!data.declaration_id) {
+    await supabase
+      .from("card_receipt_tasks")
+      .update({ status: "open", resolution: null, resolved_by: null, resolved_at: null })
+      .eq("card_transaction_id", transactionId)
+      .eq("resolution", "receipt");
+  }
+  return data;
+}
+
+/** One notification per card holder covering all of their unmatched spend; recently reminded rows are skipped. */
+export async function sendReceiptReminders(supabase: Db, userId: string, opts: { transactionIds?: string[] } = {}) {
+  const cutoff = new Date(Date.now() - REMINDER_COOLDOWN_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  let query = supabase
+    .from("card_transactions")
+    .select("id,txn_date,merchant,amount,currency,card_holder_id,reminder_count,last_reminded_at")
+    .eq("user_id", userId)
+    .is("matched_invoice_id", null)
+    .is("declaration_id", null)
+    .eq("receipt_required", true)
+    .gt("amount", 0)
+    .or(`last_reminded_at.is.null,last_reminded_at.lt.${cutoff}`)
+    .limit(MAX_ROWS);
+  if (opts.transactionIds?.length) query = query.in("id", opts.transactionIds);
+  const { data: rows, error } = await query;
+  if (error) throw new Error(error.message);
+  if (!rows?.length) return { holders: 0, transactions: 0 };
+
+  const byHolder = new Map<string, Row[]>();
+  for (const r of rows) {
+    const holder = String(r.card_holder_id || userId);
+    byHolder.set(holder, [...(byHolder.get(holder) ?? []), r]);
+  }
+
+  const now = new Date().toISOString();
+  for (const [holder, txs] of byHolder) {
+    const lines = txs
+      .slice(0, 10)
+      .map((t) => `${t.txn_date} ${t.merchant || "Unknown merchant"} ${Number(t.amount).toFixed(2)} ${t.currency || ""}`.trim());
+    await supabase.from("notifications").insert({
+      user_id: holder,
+      created_by: userId,
+      kind: "card_receipt_missing",
+      title: `${txs.length} card transaction(s) need a receipt`,
+      body: lines.join("\n") + (txs.length > lines.length ? `\n… and ${txs.length - lines.length} more` : ""),
+      link: "/dashboard/cards",
+      entity_type: txs.length === 1 ? "card_transaction" : null,
+      entity_id: txs.length === 1 ? txs[0].id : null,
+    });
+    for (const t of txs) {
+      await supabase
+        .from("card_transactions")
+        .update({ reminder_count: Number(t.reminder_count ?? 0) + 1, last_reminded_at: now })
+        .eq("id", t.id);
+    }
+  }
+
+  try {
+    await supabase.from("audit_logs").insert({
+      user_id: userId,
+      step: "card_receipt_reminders_sent",
+      payload: { holders: byHolder.size, transactions: rows.length },
+    });
+  } catch {
+    // ignore
+  }
+  return { holders: byHolder.size, transactions: rows.length };
+}
@@ -0,0 +1,260 @@
+// supabase/functions/_shared/cardStatement.ts
+// Corporate card statement import: issuer CSV exports and OFX (1.x SGML and 2.x XML) normalised to one shape.
+import { round2 } from "./amounts.ts";
+import { csvAmount, csvDate, headerKey, sha256, splitCsvLine, type StatementIssue } from "./bankStatement.ts";
+
+export type CardStatementFormat = "csv" | "ofx";
+
+export type CardTransaction = {
+  txn_date: string; // YYYY-MM-DD, date of purchase
+  posted_date: string | null;
+  merchant: string | null;
+  description: string | null;
+  merchant_category: string | null; // MCC or issuer category
+  amount: number; // billing currency; spend positive, refunds and card payments negative
+  currency: string;
+  original_amount: number | null; // foreign-currency purchases, as charged by the merchant
+  original_currency: string | null;
+  card_last4: string | null;
+  card_holder_name: string | null;
+  card_holder_email: string | null;
+  reference: string | null; // issuer transaction id (OFX FITID)
+};
+
+export type ParsedCardStatement = {
+  format: CardStatementFormat;
+  currency: string | null;
+  transactions: CardTransaction[];
+  issues: StatementIssue[];
+};
+
+const clean = (s: unknown) => {
+  const t = String(s ?? "").replace(/\s+/g, " ").trim();
+  return t || null;
+};
+
+const last4 = (raw: unknown) => {
+  const digits = String(raw ?? "").replace(/[^0-9]/g, "");
+  return digits.length >= 4 ? digits.slice(-4) : null;
+};
+
+export function detectCardFormat(content: string, fileName = ""): CardStatementFormat | null {
+  const head = String(content || "").replace(/^\uFEFF/, "").slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head) || /\.(ofx|qfx)$/i.test(fileName)) return "ofx";
+  if (/\.(csv|txt)$/i.test(fileName) || /[;,\t]/.test(head.split(/\r?\n/)[0] ?? "")) return "csv";
+  return null;
+}
+
+// Header synonyms of common issuer exports (Amex, Visa/Mastercard portals, DE card statements)
+const CARD_COLUMNS: Record<
+  "txn_date" | "posted_date" | "merchant" | "description" | "merchant_category" | "amount" | "debit" | "credit" | "currency" |
+    "original_amount" | "original_currency" | "card" | "card_holder_name" | "card_holder_email" | "reference",
+  RegExp
+> = {
+  txn_date: /^(date|transaction ?date|trans\.? ?date|purchase ?date|belegdatum|umsatzdatum|kaufdatum|datum)$/,
+  posted_date: /^(post(ed|ing)? ?date|booking ?date|buchungsdatum|buchungstag)$/,
+  merchant: /^(merchant|merchant ?name|payee|vendor|handler|handlername|akzeptanzstelle|handler \/ akzeptanzstelle)$/,
+  description: /^(description|details|memo|transaction ?details|beschreibung|umsatzbeschreibung|verwendungszweck)$/,
+  merchant_category: /^(category|mcc|merchant ?category|kategorie|branche)$/,
+  amount: /^(amount|billing ?amount|betrag|umsatz|betrag in eur|amount \(eur\)|betrag \(eur\))$/,
+  debit: /^(debit|charges?|belastung|soll)$/,
+  credit: /^(credit|credits|gutschrift|haben)$/,
+  currency: /^(currency|billing ?currency|wahrung|waehrung)$/,
+  original_amount: /^(original ?amount|foreign ?amount|local ?amount|originalbetrag|betrag in fremdwahrung|fremdwahrungsbetrag)$/,
+  original_currency: /^(original ?currency|foreign ?currency|local ?currency|originalwahrung|fremdwahrung)$/,
+  card: /^(card|card ?number|card ?no\.?|card ?last ?4|account|account ?#|kartennummer|karte)$/,
+  card_holder_name: /^(card ?holder|cardholder|card ?member|name on card|employee|karteninhaber|karteninhaberin)$/,
+  card_holder_email: /^(e-?mail|card ?holder ?e-?mail|employee ?e-?mail)$/,
+  reference: /^(reference|transaction ?id|id|referenz|belegnummer)$/,
+};
+
+/** US issuers write MM/DD/YYYY; the file is month-first when some date only makes sense that way. */
+function monthFirst(values: (string | undefined)[]): boolean {
+  let month = false;
+  for (const v of values) {
+    const m = String(v ?? "").trim().match(/^(\d{1,2})\/(\d{1,2})\/\d{2,4}$/);
+    if (!m) continue;
+    if (Number(m[1]) > 12) return false;
+    if (Number(m[2]) > 12) month = true;
+  }
+  return month;
+}
+
+const swapDayMonth = (raw: string | undefined) => String(raw ?? "").trim().replace(/^(\d{1,2})\/(\d{1,2})\//, "$2/$1/");
+
+export function parseCardCsv(content: string): ParsedCardStatement {
+  const lines = String(content || "").replace(/^\uFEFF/, "").split(/\r?\n/);
+  const issues: StatementIssue[] = [];
+
+  let headerIdx = -1;
+  let delimiter = ",";
+  let columns: Partial<Record<keyof typeof CARD_COLUMNS, number>> = {};
+  for (let i = 0; i < Math.min(lines.length, 40) && headerIdx < 0; i++) {
+    for (const d of [",", ";", "\t"]) {
+      const cells = splitCsvLine(lines[i], d).map(headerKey);
+      if (cells.length < 2) continue;
+      const found: typeof columns = {};
+      for (const [key, re] of Object.entries(CARD_COLUMNS) as [keyof typeof CARD_COLUMNS, RegExp][]) {
+        const idx = cells.findIndex((c) => re.test(c));
+        if (idx >= 0 && !Object.values(found).includes(idx)) found[key] = idx;
+      }
+      const hasDate = found.txn_date !== undefined || found.posted_date !== undefined;
+      const hasAmount = found.amount !== undefined || found.debit !== undefined || found.credit !== undefined;
+      if (hasDate && hasAmount) {
+        headerIdx = i;
+        delimiter = d;
+        columns = found;
+        break;
+      }
+    }
+  }
+  if (headerIdx < 0) throw new Error("CSV header with a date and an amount column not found");
+
+  const rows = lines.slice(headerIdx + 1).map((l) => (l.trim() ? splitCsvLine(l, delimiter) : null));
+  const dateCells = rows.flatMap((cells) =>
+    cells ? [columns.txn_date, columns.posted_date].map((idx) => (idx === undefined ? undefined : cells[idx])) : [],
+  );
+  const usDates = monthFirst(dateCells);
+  const readDate = (raw: string | undefined) => csvDate(usDates ? swapDayMonth(raw) : String(raw ?? ""));
+
+  const transactions: CardTransaction[] = [];
+  rows.forEach((cells, r) => {
+    if (!cells) return;
+    const i = headerIdx + 1 + r;
+    const col = (k: keyof typeof CARD_COLUMNS) => (columns[k] === undefined ? undefined : cells[columns[k] as number]);
+
+    const posted = readDate(col("posted_date"));
+    const txnDate = readDate(col("txn_date")) ?? posted;
+    if (!txnDate) {
+      issues.push({ line: i + 1, message: "Row without a readable date skipped.", severity: "warning" });
+      return;
+    }
+    let amount = csvAmount(col("amount"));
+    if (amount === null) {
+      const debit = csvAmount(col("debit"));
+      const credit = csvAmount(col("credit"));
+      if (debit !== null || credit !== null) amount = Math.abs(debit ?? 0) - Math.abs(credit ?? 0);
+    }
+    if (amount === null) {
+      issues.push({ line: i + 1, message: "Row without a readable amount skipped.", severity: "warning" });
+      return;
+    }
+
+    const description = clean(col("description"));
+    transactions.push({
+      txn_date: txnDate,
+      posted_date: posted,
+      merchant: clean(col("merchant")) ?? description,
+      description,
+      merchant_category: clean(col("merchant_category")),
+      amount: round2(amount),
+      currency: (clean(col("currency")) ?? "EUR").toUpperCase(),
+      original_amount: csvAmount(col("original_amount")),
+      original_currency: clean(col("original_currency"))?.toUpperCase() ?? null,
+      card_last4: last4(col("card")),
+      card_holder_name: clean(col("card_holder_name")),
+      card_holder_email: clean(col("card_holder_email"))?.toLowerCase() ?? null,
+      reference: clean(col("reference")),
+    });
+  });
+
+  // Some issuers export purchases as negative numbers; spend is stored positive
+  const negatives = transactions.filter((t) => t.amount < 0).length;
+  if (negatives > transactions.length / 2) {
+    for (const t of transactions) t.amount = -t.amount;
+  }
+  for (const t of transactions) {
+    if (t.original_amount !== null) t.original_amount = Math.abs(t.original_amount);
+  }
+
+  const currencies = new Set(transactions.map((t) => t.currency));
+  return { format: "csv", currency: currencies.size === 1 ? [...currencies][0] : null, transactions, issues };
+}
+
+const ofxTag = (block: string, tag: string) => {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return m ? clean(m[1]) : null;
+};
+
+// OFX numbers always carry a decimal point (or comma), never thousands separators
+const ofxNumber = (raw: string | null | undefined) => {
+  const n = Number(String(raw ?? "").trim().replace(",", "."));
+  return raw && Number.isFinite(n) ? n : null;
+};
+
+const ofxDate = (raw: string | null) => {
+  const m = String(raw ?? "").match(/^(\d{4})(\d{2})(\d{2})/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+};
+
+export function parseOfx(content: string): ParsedCardStatement {
+  const text = String(content || "");
+  const issues: StatementIssue[] = [];
+  const currency = ofxTag(text, "CURDEF")?.toUpperCase() ?? null;
+  const account = text.match(/<CCACCTFROM>[\s\S]*?<ACCTID>([^<\r\n]*)/i)?.[1] ?? ofxTag(text, "ACCTID");
+  const card = last4(account);
+
+  // SGML OFX leaves elements unclosed, so a transaction runs until the next one or the end of the list
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map((b) => b.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+  const transactions: CardTransaction[] = [];
+  blocks.forEach((block, i) => {
+    const posted = ofxDate(ofxTag(block, "DTPOSTED"));
+    const txnDate = ofxDate(ofxTag(block, "DTUSER")) ?? posted;
+    const amount = ofxNumber(ofxTag(block, "TRNAMT"));
+    if (!txnDate || amount === null) {
+      issues.push({ line: null, message: `Transaction ${i + 1} without a date or amount skipped.`, severity: "warning" });
+      return;
+    }
+    const name = ofxTag(block, "NAME");
+    const memo = ofxTag(block, "MEMO");
+    // <ORIGCURRENCY>: CURRATE converts the merchant currency into the statement currency
+    const origCurrency = block.match(/<ORIGCURRENCY>[\s\S]*?<CURSYM>([A-Z]{3})/i)?.[1] ?? null;
+    const rate = ofxNumber(block.match(/<ORIGCURRENCY>[\s\S]*?<CURRATE>([^<\r\n]*)/i)?.[1]);
+
+    transactions.push({
+      txn_date: txnDate,
+      posted_date: posted,
+      merchant: name ?? memo,
+      description: memo,
+      merchant_category: ofxTag(block, "SIC"),
+      amount: round2(-amount), // OFX credit-card statements book purchases as debits
+      currency: currency ?? "EUR",
+      original_amount: origCurrency && rate ? round2(Math.abs(amount) / rate) : null,
+      original_currency: origCurrency?.toUpperCase() ?? null,
+      card_last4: card,
+      card_holder_name: null,
+      card_holder_email: null,
+      reference: ofxTag(block, "FITID"),
+    });
+  });
+
+  return { format: "ofx", currency, transactions, issues };
+}
+
+export function parseCardStatement(content: string, fileName = "", format?: CardStatementFormat | null): ParsedCardStatement {
+  const fmt = format ?? detectCardFormat(content, fileName);
+  if (fmt === "ofx") return parseOfx(content);
+  if (fmt === "csv") return parseCardCsv(content);
+  throw new Error("Unrecognised card statement format (expected CSV or OFX)");
+}
+
+/** Issuer ids are used when present; otherwise the content, with same-day duplicates told apart by order. */
+export async function fingerprintCardTransactions(txs: CardTransaction[]): Promise<string[]> {
+  const seen = new Map<string, number>();
+  const keys: string[] = [];
+  for (const t of txs) {
+    const base = t.reference
+      ? ["ref", t.card_last4 ?? "", t.reference].join("|")
+      : [
+          t.card_last4 ?? "",
+          t.txn_date,
+          t.amount.toFixed(2),
+          t.currency,
+          (t.merchant ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 40),
+        ].join("|");
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    keys.push(await sha256(`${base}|${n}`));
+  }
+  return keys;
+}
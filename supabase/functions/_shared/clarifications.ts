@@ -0,0 +1,331 @@
+// supabase/functions/_shared/clarifications.ts
+// Needs-info loop for invoices: opens a clarification listing the missing fields, records every message of
+// the thread and applies a process-invoice re-run to the invoice once the submitter or vendor has answered.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { sha256 } from "./bankStatement.ts";
+import { invoiceAmountEur, startApprovalChain } from "./approvalChains.ts";
+import { checkApproval, loadSodRules, pickSodRule } from "./segregationOfDuties.ts";
+
+type Db = ReturnType<typeof createClient>;
+type Row = Record<string, unknown>;
+
+export type ClarificationRecipient = "submitter" | "vendor";
+export type AuthorKind = "requester" | "submitter" | "vendor" | "system";
+
+export type Clarification = {
+  id: string;
+  invoice_id: string;
+  user_id: string;
+  requested_by: string | null;
+  recipient: ClarificationRecipient;
+  recipient_email: string | null;
+  requested_fields: string[];
+  status: "open" | "resolved" | "canceled";
+  token_expires_at: string | null;
+};
+
+/** Fields a clarification can ask for, with the labels shown to submitters and vendors. */
+export const CLARIFIABLE_FIELDS: Record<string, string> = {
+  vendor_name: "Vendor name",
+  invoice_number: "Invoice number",
+  invoice_date: "Invoice date",
+  total_amount: "Total amount",
+  tax_amount: "VAT amount",
+  currency: "Currency",
+  supplier_vat_id: "Supplier VAT ID",
+  buyer_vat_id: "Buyer VAT ID",
+  iban: "IBAN",
+  bic: "BIC",
+  account_holder: "Account holder",
+  payment_reference: "Payment reference",
+  due_date: "Due date",
+  payment_terms: "Payment terms",
+};
+
+const AMOUNT_FIELDS = new Set(["total_amount", "tax_amount"]);
+const DATE_FIELDS = new Set(["invoice_date", "due_date"]);
+const TOKEN_DAYS = 14;
+
+export const fieldLabel = (f: string) => CLARIFIABLE_FIELDS[f] || f.replace(/_/g, " ");
+
+/** Payment details a clarification answer may not change without someone approving the invoice again. */
+const BANK_FIELDS = ["iban", "bic", "account_holder"];
+
+/**
+ * Keeps the known, non-empty values of an answer: amounts become numbers (decimal comma allowed),
+ * dates must be YYYY-MM-DD. Returns the problems instead of throwing so they can be shown per field.
+ * `allowed` limits the answer to those fields (vendors may only fill what was asked for).
+ */
+export function cleanFieldValues(raw: unknown, allowed?: string[]): { values: Row; errors: string[] } {
+  const values: Row = {};
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") return { values, errors };
+  for (const [k, v] of Object.entries(raw as Row)) {
+    if (!(k in CLARIFIABLE_FIELDS) || (allowed && !allowed.includes(k))) continue;
+    const s = String(v ?? "").trim();
+    if (!s) continue;
+    if (AMOUNT_FIELDS.has(k)) {
+      const n = Number(s.replace(/\s/g, "").replace(/,(\d{1,2})$/, ".$1").replace(/,/g, ""));
+      if (!Number.isFinite(n) || n < 0) errors.push(`${fieldLabel(k)} must be a positive amount`);
+      else values[k] = Math.round(n * 100) / 100;
+    } else if (DATE_FIELDS.has(k)) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) errors.push(`${fieldLabel(k)} must be a date (YYYY-MM-DD)`);
+      else values[k] = s;
+    } else {
+      values[k] = k === "currency" ? s.toUpperCase() : k === "iban" || k === "bic" ? s.replace(/\s/g, "").toUpperCase() : s;
+    }
+  }
+  return { values, errors };
+}
+
+/** process-invoice decisions as stored in invoices.approval */
+export function approvalFromDecision(decision: unknown): "pass" | "fail" | "needs_human" | "needs_info" {
+  switch (String(decision || "").toUpperCase()) {
+    case "PASS":
+      return "pass";
+    case "FAIL":
+      return "fail";
+    case "HUMAN_APPROVAL":
+      return "needs_human";
+    default:
+      return "needs_info";
+  }
+}
+
+/** What the invoice already knows plus the answer, handed to process-invoice as `vision` so the answer wins. */
+export function pipelineFields(inv: Row, values: Row): Row {
+  const known: Row = {};
+  for (const f of Object.keys(CLARIFIABLE_FIELDS)) {
+    if (inv[f] !== null && inv[f] !== undefined && inv[f] !== "") known[f] = inv[f];
+  }
+  return { ...known, ...values };
+}
+
+/** Invoices saved before their text was kept: a plain rendering of the stored fields gives the pipeline something to read. */
+export function fallbackText(inv: Row, values: Row): string {
+  const merged = pipelineFields(inv, values);
+  return Object.entries(merged)
+    .map(([k, v]) => `${fieldLabel(k)}: ${v}`)
+    .join("\n");
+}
+
+export const looksLikeEInvoiceXml = (text: string) => /^\s*(<\?xml|<)[\s\S]*(CrossIndustryInvoice|<(\w+:)?Invoice\b|<(\w+:)?CreditNote\b)/.test(text);
+
+export function requestMessage(fields: string[], reasons: string[]): string {
+  const lines: string[] = [];
+  if (fields.length) lines.push(`Please provide: ${fields.map(fieldLabel).join(", ")}.`);
+  lines.push(...reasons.filter(Boolean));
+  return lines.join("\n") || "Please review this invoice and send the missing information.";
+}
+
+const invoiceLabel = (inv: Row) =>
+  `${inv.vendor_name || "Unknown vendor"}${inv.invoice_number ? ` ${inv.invoice_number}` : ""}`;
+
+async function audit(db: Db, actorId: string, invoiceId: unknown, step: string, payload: Row) {
+  try {
+    await db.from("audit_logs").insert({ user_id: actorId, invoice_id: invoiceId, step, payload });
+  } catch {
+    // ignore
+  }
+}
+
+async function notify(db: Db, userId: unknown, actorId: string | null, inv: Row, kind: string, title: string, body: string | null) {
+  if (!userId || userId === actorId) return;
+  await db.from("notifications").insert({
+    user_id: userId,
+    created_by: actorId,
+    kind,
+    title,
+    body,
+    link: "/dashboard/invoices",
+    entity_type: "invoice",
+    entity_id: inv.id,
+  });
+}
+
+export async function addMessage(
+  writer: Db,
+  c: Pick<Clarification, "id" | "invoice_id">,
+  msg: { author_kind: AuthorKind; author_id?: string | null; body?: string | null; field_values?: Row | null; document_path?: string | null; document_name?: string | null; result?: Row | null },
+) {
+  const { data, error } = await writer
+    .from("invoice_clarification_messages")
+    .insert({ clarification_id: c.id, invoice_id: c.invoice_id, ...msg })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data as Row;
+}
+
+/**
+ * Opens a clarification for the invoice (closing any earlier open one) with a first message that lists the
+ * missing fields. Vendor requests get a fresh link token; only its hash is stored, so the token is returned
+ * once. `writer` must be a service-role client.
+ */
+export async function openClarification(
+  writer: Db,
+  inv: Row,
+  opts: { requestedBy: string; recipient: ClarificationRecipient; recipientEmail?: string | null; fields?: string[]; message?: string | null },
+) {
+  const fields = [...new Set((opts.fields ?? ((inv.needs_info_fields as string[] | null) || [])).map(String).filter(Boolean))];
+  const reasons = ((inv.approval_reasons as string[] | null) || []).map(String);
+  const body = opts.message?.trim() || requestMessage(fields, reasons);
+
+  let token: string | null = null;
+  let tokenHash: string | null = null;
+  if (opts.recipient === "vendor") {
+    token = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+    tokenHash = await sha256(token);
+  }
+
+  const now = new Date();
+  const { error: closeErr } = await writer
+    .from("invoice_clarifications")
+    .update({ status: "canceled", token_hash: null })
+    .eq("invoice_id", inv.id)
+    .eq("status", "open");
+  if (closeErr) throw new Error(closeErr.message);
+
+  const { data, error } = await writer
+    .from("invoice_clarifications")
+    .insert({
+      invoice_id: inv.id,
+      user_id: inv.user_id,
+      requested_by: opts.requestedBy,
+      recipient: opts.recipient,
+      recipient_email: opts.recipientEmail?.trim() || null,
+      requested_fields: fields,
+      status: "open",
+      token_hash: tokenHash,
+      token_expires_at: token ? new Date(now.getTime() + TOKEN_DAYS * 86400_000).toISOString() : null,
+    })
+    .select("id,invoice_id,user_id,requested_by,recipient,recipient_email,requested_fields,status,token_expires_at")
+    .single();
+  if (error) throw new Error(error.message);
+  const clarification = data as Clarification;
+
+  await addMessage(writer, clarification, { author_kind: "requester", author_id: opts.requestedBy, body });
+  if (opts.recipient === "submitter") {
+    await notify(writer, inv.user_id, opts.requestedBy, inv, "clarification_requested", `Information needed: ${invoiceLabel(inv)}`, body);
+  }
+  await audit(writer, opts.requestedBy, inv.id, "clarification_requested", {
+    clarification_id: clarification.id,
+    recipient: opts.recipient,
+    recipient_email: clarification.recipient_email,
+    fields,
+  });
+  return { clarification, token };
+}
+
+/** The open clarification a vendor link points to, or why it cannot be used. */
+export async function findByToken(writer: Db, token: string): Promise<Clarification> {
+  const { data, error } = await writer
+    .from("invoice_clarifications")
+    .select("id,invoice_id,user_id,requested_by,recipient,recipient_email,requested_fields,status,token_expires_at")
+    .eq("token_hash", await sha256(token))
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  const c = data as Clarification | null;
+  if (!c) throw new Error("This link is not valid");
+  if (c.status !== "open") throw new Error("This request has already been answered or closed");
+  if (c.token_expires_at && c.token_expires_at < new Date().toISOString()) throw new Error("This link has expired");
+  return c;
+}
+
+/**
+ * Writes a process-invoice re-run back to the invoice and the thread: updated fields and decision, a system
+ * message with the outcome, and the clarification resolved unless fields are still missing. Invoices the
+ * pipeline now approves go through their approval chain and the segregation-of-duties rules like a fresh
+ * upload; changed bank details always need a person to approve again.
+ */
+export async function applyPipelineResult(writer: Db, c: Clarification, inv: Row, result: Row, actorId: string | null, text: string | null) {
+  let approval = approvalFromDecision(result.decision);
+  const reasons = ((result.approval_reasons as string[] | null) || (result.reasons as string[] | null) || []).map(String);
+  const bankChanged = BANK_FIELDS.filter(
+    (f) => result[f] !== undefined && result[f] !== null && result[f] !== "" && String(result[f]) !== String(inv[f] ?? ""),
+  );
+  if (bankChanged.length && approval === "pass") {
+    approval = "needs_human";
+    reasons.push(`${bankChanged.map(fieldLabel).join(", ")} changed in the clarification — approve the invoice again.`);
+  }
+  const missing = ((result.needs_info_fields as string[] | null) || []).map(String);
+  const now = new Date().toISOString();
+
+  // Like a fresh upload, an approving outcome is held as pending until the chain or the SoD rules have spoken
+  const proposing = approval === "pass" || approval === "needs_human";
+  const patch: Row = {
+    approval: proposing ? "pending" : approval,
+    approval_reasons: reasons,
+    approval_confidence: result.approval_confidence ?? null,
+    needs_info_fields: missing,
+    is_flagged: approval !== "pass",
+    flag_reason: reasons.join(" | ") || null,
+    updated_at: now,
+  };
+  for (const f of Object.keys(CLARIFIABLE_FIELDS)) {
+    if (result[f] !== undefined && result[f] !== null && result[f] !== "") patch[f] = result[f];
+  }
+  for (const f of ["total_eur", "iban_valid", "bic_valid", "supplier_vat_id_valid", "buyer_vat_id_valid"]) {
+    if (result[f] !== undefined) patch[f] = result[f];
+  }
+  if (text) patch.extracted_text = text;
+
+  const { error } = await writer.from("invoices").update(patch).eq("id", inv.id);
+  if (error) throw new Error(error.message);
+
+  let chain: Row | null = null;
+  let running = false;
+  if (proposing) {
+    try {
+      const started = await startApprovalChain(writer, String(inv.id), String(inv.user_id));
+      chain = started ? started.chain : null;
+    } catch {
+      // a chain that is already running keeps its own state
+      running = true;
+    }
+  }
+
+  if (proposing && !chain && !running) {
+    // Without a chain the uploader's submission approves, as in set-approval, unless the band blocks self-approval
+    const violation =
+      approval === "pass" ? checkApproval(pickSodRule(await loadSodRules(writer, inv.organization_id as string | null), invoiceAmountEur({ ...inv, ...patch })), inv, String(inv.user_id)) : null;
+    if (violation) {
+      approval = "needs_human";
+      reasons.push(violation.message);
+    }
+    const { error: decErr } = await writer
+      .from("invoices")
+      .update({
+        approval,
+        approved_by: approval === "pass" ? inv.user_id : null,
+        approval_reasons: reasons,
+        is_flagged: approval !== "pass",
+        flag_reason: reasons.join(" | ") || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", inv.id);
+    if (decErr) throw new Error(decErr.message);
+  }
+
+  const resolved = approval !== "needs_info";
+  const { error: cErr } = await writer
+    .from("invoice_clarifications")
+    .update(resolved ? { status: "resolved", resolved_at: now, token_hash: null } : { requested_fields: missing })
+    .eq("id", c.id);
+  if (cErr) throw new Error(cErr.message);
+
+  const outcome = { approval: chain || running ? "pending" : approval, reasons, needs_info_fields: missing, chain };
+  await addMessage(writer, c, {
+    author_kind: "system",
+    body: resolved
+      ? `Re-checked: ${chain ? `sent for approval (${chain.name})` : outcome.approval.replace("_", " ")}.`
+      : requestMessage(missing, reasons),
+    result: outcome,
+  });
+
+  const title = `${resolved ? "Clarification resolved" : "Clarification answered"}: ${invoiceLabel({ ...inv, ...patch })}`;
+  await notify(writer, inv.user_id, actorId, inv, "clarification_answered", title, null);
+  if (c.requested_by !== inv.user_id) await notify(writer, c.requested_by, actorId, inv, "clarification_answered", title, null);
+  await audit(writer, actorId ?? String(inv.user_id), inv.id, "clarification_rerun", { clarification_id: c.id, ...outcome });
+  return { resolved, ...outcome };
+}
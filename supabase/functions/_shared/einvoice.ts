@@ -0,0 +1,328 @@
+// supabase/functions/_shared/einvoice.ts
+// Deterministic parsing of structured e-invoices:
+// - UN/CEFACT CII (ZUGFeRD 2.x / Factur-X / XRechnung CII)
+// - OASIS UBL 2.1 Invoice/CreditNote (XRechnung UBL / Peppol BIS 3.0)
+import { XMLParser } from "https://esm.sh/fast-xml-parser@4.5.0";
+import type { LineItem } from "./lineItems.ts";
+import { normalizeRate } from "./amounts.ts";
+
+export type EInvoiceSyntax = "CII" | "UBL";
+
+export type EInvoiceCitation = {
+  field: string;
+  line_index: number; // always -1: the value comes from XML, not from a text line
+  text: string;
+  match: string; // XML path of the value
+  score: number;
+};
+
+export type EInvoiceParty = {
+  name: string | null;
+  vat_id: string | null;
+  street: string | null;
+  city: string | null;
+  postcode: string | null;
+  country: string | null;
+};
+
+export type EInvoice = {
+  syntax: EInvoiceSyntax;
+  profile: string | null; // CustomizationID / guideline parameter
+  document_type: string | null; // 380 invoice, 381 credit note, ...
+  invoice_number: string | null;
+  invoice_date: string | null;
+  due_date: string | null;
+  currency: string | null;
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+  buyer_reference: string | null;
+  net_amount: number | null;
+  tax_amount: number | null;
+  total_amount: number | null;
+  payable_amount: number | null;
+  payment_terms: string | null;
+  iban: string | null;
+  bic: string | null;
+  payment_reference: string | null;
+  qr_payload: string | null; // ZATCA (KSA) UBL invoices embed the Base64 TLV QR as a document reference
+  line_items: LineItem[];
+  citations: EInvoiceCitation[];
+};
+
+type XmlNode = Record<string, unknown>;
+
+// Elements that may repeat; parsed as arrays even when they occur once
+const ARRAY_TAGS = new Set([
+  "IncludedSupplyChainTradeLineItem",
+  "InvoiceLine",
+  "CreditNoteLine",
+  "TaxTotal",
+  "PaymentMeans",
+  "SpecifiedTaxRegistration",
+  "ApplicableTradeTax",
+  "PartyTaxScheme",
+  "SpecifiedTradeSettlementPaymentMeans",
+  "AdditionalDocumentReference",
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ARRAY_TAGS.has(name),
+});
+
+const first = (v: unknown): unknown => (Array.isArray(v) ? v[0] : v);
+
+function get(node: unknown, path: string[]): unknown {
+  let cur: unknown = node;
+  for (const key of path) {
+    cur = first(cur);
+    if (!cur || typeof cur !== "object") return undefined;
+    cur = (cur as XmlNode)[key];
+  }
+  return cur;
+}
+
+function text(v: unknown): string | null {
+  const n = first(v);
+  if (n === null || n === undefined) return null;
+  if (typeof n === "object") {
+    const t = (n as XmlNode)["#text"];
+    return t === undefined || t === null ? null : String(t).trim() || null;
+  }
+  return String(n).trim() || null;
+}
+
+const attr = (v: unknown, name: string): string | null => {
+  const n = first(v);
+  if (!n || typeof n !== "object") return null;
+  const a = (n as XmlNode)[`@_${name}`];
+  return a === undefined ? null : String(a);
+};
+
+const asArray = (v: unknown): unknown[] => (v === undefined || v === null ? [] : Array.isArray(v) ? v : [v]);
+
+/** XML amounts/quantities are canonical decimals ("20.0000"), never localized. */
+function xmlNumber(s: string | null): number | null {
+  if (s === null) return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** CII dates use format 102 (YYYYMMDD); UBL uses ISO dates. */
+function xmlDate(v: unknown): string | null {
+  const s = text(v);
+  if (!s) return null;
+  const m102 = s.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (m102) return `${m102[1]}-${m102[2]}-${m102[3]}`;
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return iso ? `${iso[1]}-${iso[2]}-${iso[3]}` : null;
+}
+
+export function detectEInvoiceSyntax(xml: string): EInvoiceSyntax | null {
+  const head = (xml || "").slice(0, 4000);
+  if (/CrossIndustryInvoice/.test(head)) return "CII";
+  if (/urn:oasis:names:specification:ubl:schema:xsd:(Invoice|CreditNote)-2/.test(head)) return "UBL";
+  return null;
+}
+
+class CitationCollector {
+  readonly items: EInvoiceCitation[] = [];
+  add(field: string, value: unknown, path: string) {
+    if (value === null || value === undefined || String(value).trim() === "") return;
+    this.items.push({ field, line_index: -1, text: String(value), match: path, score: 1 });
+  }
+}
+
+function parseCII(root: XmlNode): EInvoice {
+  const P = "/rsm:CrossIndustryInvoice";
+  const c = new CitationCollector();
+  const doc = get(root, ["ExchangedDocument"]);
+  const tx = get(root, ["SupplyChainTradeTransaction"]);
+  const agreement = get(tx, ["ApplicableHeaderTradeAgreement"]);
+  const settlement = get(tx, ["ApplicableHeaderTradeSettlement"]);
+  const sums = get(settlement, ["SpecifiedTradeSettlementHeaderMonetarySummation"]);
+  const TX = `${P}/rsm:SupplyChainTradeTransaction`;
+  const SETTLE = `${TX}/ram:ApplicableHeaderTradeSettlement`;
+  const SUMS = `${SETTLE}/ram:SpecifiedTradeSettlementHeaderMonetarySummation`;
+
+  const party = (node: unknown): EInvoiceParty => {
+    const vat = asArray(get(node, ["SpecifiedTaxRegistration"])).find((r) => attr(get(r, ["ID"]), "schemeID") === "VA");
+    const addr = get(node, ["PostalTradeAddress"]);
+    return {
+      name: text(get(node, ["Name"])),
+      vat_id: vat ? text(get(vat, ["ID"])) : null,
+      street: text(get(addr, ["LineOne"])),
+      city: text(get(addr, ["CityName"])),
+      postcode: text(get(addr, ["PostcodeCode"])),
+      country: text(get(addr, ["CountryID"])),
+    };
+  };
+
+  const seller = party(get(agreement, ["SellerTradeParty"]));
+  const buyer = party(get(agreement, ["BuyerTradeParty"]));
+  const invoice_number = text(get(doc, ["ID"]));
+  const invoice_date = xmlDate(get(doc, ["IssueDateTime", "DateTimeString"]));
+  const currency = text(get(settlement, ["InvoiceCurrencyCode"]));
+  // TaxTotalAmount may repeat per currency; take the one in invoice currency
+  const taxTotals = asArray(get(sums, ["TaxTotalAmount"]));
+  const taxNode = taxTotals.find((t) => !currency || attr(t, "currencyID") === currency) ?? taxTotals[0];
+  const tax_amount = xmlNumber(text(taxNode));
+  const net_amount = xmlNumber(text(get(sums, ["TaxBasisTotalAmount"])));
+  const total_amount = xmlNumber(text(get(sums, ["GrandTotalAmount"])));
+  const payable_amount = xmlNumber(text(get(sums, ["DuePayableAmount"])));
+  const terms = get(settlement, ["SpecifiedTradePaymentTerms"]);
+  const means = get(settlement, ["SpecifiedTradeSettlementPaymentMeans"]);
+  const iban = text(get(means, ["PayeePartyCreditorFinancialAccount", "IBANID"]));
+  const bic = text(get(means, ["PayeeSpecifiedCreditorFinancialInstitution", "BICID"]));
+
+  c.add("invoice_number", invoice_number, `${P}/rsm:ExchangedDocument/ram:ID`);
+  c.add("invoice_date", invoice_date, `${P}/rsm:ExchangedDocument/ram:IssueDateTime/udt:DateTimeString`);
+  c.add("vendor_name", seller.name, `${TX}/ram:ApplicableHeaderTradeAgreement/ram:SellerTradeParty/ram:Name`);
+  c.add("currency", currency, `${SETTLE}/ram:InvoiceCurrencyCode`);
+  c.add("tax_amount", tax_amount, `${SUMS}/ram:TaxTotalAmount`);
+  c.add("total_amount", total_amount, `${SUMS}/ram:GrandTotalAmount`);
+
+  const line_items: LineItem[] = asArray(get(tx, ["IncludedSupplyChainTradeLineItem"])).map((li, idx) => {
+    const tax = get(li, ["SpecifiedLineTradeSettlement", "ApplicableTradeTax"]);
+    return {
+      line_index: idx,
+      description: text(get(li, ["SpecifiedTradeProduct", "Name"])) || "(no description)",
+      quantity: xmlNumber(text(get(li, ["SpecifiedLineTradeDelivery", "BilledQuantity"]))),
+      unit_price: xmlNumber(text(get(li, ["SpecifiedLineTradeAgreement", "NetPriceProductTradePrice", "ChargeAmount"]))),
+      net_amount: xmlNumber(text(get(li, ["SpecifiedLineTradeSettlement", "SpecifiedTradeSettlementLineMonetarySummation", "LineTotalAmount"]))),
+      vat_rate: normalizeRate(text(get(tax, ["RateApplicablePercent"]))),
+      source: "xml",
+    };
+  });
+
+  return {
+    syntax: "CII",
+    profile: text(get(root, ["ExchangedDocumentContext", "GuidelineSpecifiedDocumentContextParameter", "ID"])),
+    document_type: text(get(doc, ["TypeCode"])),
+    invoice_number,
+    invoice_date,
+    due_date: xmlDate(get(terms, ["DueDateDateTime", "DateTimeString"])),
+    currency,
+    seller,
+    buyer,
+    buyer_reference: text(get(agreement, ["BuyerReference"])),
+    net_amount,
+    tax_amount,
+    total_amount,
+    payable_amount,
+    payment_terms: text(get(terms, ["Description"])),
+    iban,
+    bic,
+    payment_reference: text(get(settlement, ["PaymentReference"])),
+    qr_payload: null,
+    line_items,
+    citations: c.items,
+  };
+}
+
+function parseUBL(root: XmlNode, rootName: "Invoice" | "CreditNote"): EInvoice {
+  const P = `/${rootName}`;
+  const c = new CitationCollector();
+  const lineTag = rootName === "Invoice" ? "InvoiceLine" : "CreditNoteLine";
+  const qtyTag = rootName === "Invoice" ? "InvoicedQuantity" : "CreditedQuantity";
+
+  const party = (node: unknown): EInvoiceParty => {
+    const p = get(node, ["Party"]);
+    const vat = asArray(get(p, ["PartyTaxScheme"])).find((s) => text(get(s, ["TaxScheme", "ID"])) === "VAT");
+    const addr = get(p, ["PostalAddress"]);
+    return {
+      name: text(get(p, ["PartyLegalEntity", "RegistrationName"])) || text(get(p, ["PartyName", "Name"])),
+      vat_id: vat ? text(get(vat, ["CompanyID"])) : null,
+      street: text(get(addr, ["StreetName"])),
+      city: text(get(addr, ["CityName"])),
+      postcode: text(get(addr, ["PostalZone"])),
+      country: text(get(addr, ["Country", "IdentificationCode"])),
+    };
+  };
+
+  const seller = party(get(root, ["AccountingSupplierParty"]));
+  const buyer = party(get(root, ["AccountingCustomerParty"]));
+  const invoice_number = text(get(root, ["ID"]));
+  const invoice_date = xmlDate(get(root, ["IssueDate"]));
+  const currency = text(get(root, ["DocumentCurrencyCode"]));
+  const taxTotals = asArray(get(root, ["TaxTotal"]));
+  const taxNode = taxTotals.find((t) => !currency || attr(get(t, ["TaxAmount"]), "currencyID") === currency) ?? taxTotals[0];
+  const tax_amount = xmlNumber(text(get(taxNode, ["TaxAmount"])));
+  const totals = get(root, ["LegalMonetaryTotal"]);
+  const net_amount = xmlNumber(text(get(totals, ["TaxExclusiveAmount"])));
+  const total_amount = xmlNumber(text(get(totals, ["TaxInclusiveAmount"])));
+  const payable_amount = xmlNumber(text(get(totals, ["PayableAmount"])));
+  const means = get(root, ["PaymentMeans"]);
+  const qrRef = asArray(get(root, ["AdditionalDocumentReference"])).find((r) => text(get(r, ["ID"])) === "QR");
+
+  c.add("invoice_number", invoice_number, `${P}/cbc:ID`);
+  c.add("invoice_date", invoice_date, `${P}/cbc:IssueDate`);
+  c.add("vendor_name", seller.name, `${P}/cac:AccountingSupplierParty/cac:Party/cac:PartyLegalEntity/cbc:RegistrationName`);
+  c.add("currency", currency, `${P}/cbc:DocumentCurrencyCode`);
+  c.add("tax_amount", tax_amount, `${P}/cac:TaxTotal/cbc:TaxAmount`);
+  c.add("total_amount", total_amount, `${P}/cac:LegalMonetaryTotal/cbc:TaxInclusiveAmount`);
+
+  const line_items: LineItem[] = asArray(get(root, [lineTag])).map((li, idx) => ({
+    line_index: idx,
+    description: text(get(li, ["Item", "Name"])) || text(get(li, ["Item", "Description"])) || "(no description)",
+    quantity: xmlNumber(text(get(li, [qtyTag]))),
+    unit_price: xmlNumber(text(get(li, ["Price", "PriceAmount"]))),
+    net_amount: xmlNumber(text(get(li, ["LineExtensionAmount"]))),
+    vat_rate: normalizeRate(text(get(li, ["Item", "ClassifiedTaxCategory", "Percent"]))),
+    source: "xml",
+  }));
+
+  return {
+    syntax: "UBL",
+    profile: text(get(root, ["CustomizationID"])),
+    document_type: text(get(root, [rootName === "Invoice" ? "InvoiceTypeCode" : "CreditNoteTypeCode"])),
+    invoice_number,
+    invoice_date,
+    due_date: xmlDate(get(root, ["DueDate"])),
+    currency,
+    seller,
+    buyer,
+    buyer_reference: text(get(root, ["BuyerReference"])),
+    net_amount,
+    tax_amount,
+    total_amount,
+    payable_amount,
+    payment_terms: text(get(root, ["PaymentTerms", "Note"])),
+    iban: text(get(means, ["PayeeFinancialAccount", "ID"])),
+    bic: text(get(means, ["PayeeFinancialAccount", "FinancialInstitutionBranch", "ID"])),
+    payment_reference: text(get(means, ["PaymentID"])),
+    qr_payload: qrRef ? text(get(qrRef, ["Attachment", "EmbeddedDocumentBinaryObject"])) : null,
+    line_items,
+    citations: c.items,
+  };
+}
+
+/** Throws when the XML is not a CII or UBL invoice. */
+export function parseEInvoice(xml: string): EInvoice {
+  const syntax = detectEInvoiceSyntax(xml);
+  if (!syntax) throw new Error("Not a CII or UBL e-invoice");
+
+  const doc = parser.parse(xml) as XmlNode;
+  if (syntax === "CII") {
+    const root = doc.CrossIndustryInvoice as XmlNode | undefined;
+    if (!root) throw new Error("CrossIndustryInvoice root element missing");
+    return parseCII(root);
+  }
+
+  if (doc.Invoice) return parseUBL(doc.Invoice as XmlNode, "Invoice");
+  if (doc.CreditNote) return parseUBL(doc.CreditNote as XmlNode, "CreditNote");
+  throw new Error("UBL Invoice/CreditNote root element missing");
+}
+
+/** Human-readable name of the standard, e.g. for audit steps and the UI. */
+export function describeEInvoice(inv: Pick<EInvoice, "syntax" | "profile">): string {
+  const p = (inv.profile || "").toLowerCase();
+  if (p.includes("xrechnung")) return `XRechnung (${inv.syntax})`;
+  if (p.includes("peppol")) return "Peppol BIS Billing 3.0";
+  if (p.includes("factur-x") || p.includes("zugferd")) return "ZUGFeRD / Factur-X";
+  return inv.syntax === "CII" ? "UN/CEFACT CII" : "UBL 2.1";
+}
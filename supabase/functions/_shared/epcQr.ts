@@ -0,0 +1,114 @@
+// supabase/functions/_shared/epcQr.ts
+// EPC069-12 "GiroCode" payload for SEPA credit transfers (scannable by European banking apps).
+import { normalizeBic, normalizeIban, validateBic, validateCreditorReference, validateIban } from "./bankDetails.ts";
+
+export type EpcInput = {
+  beneficiary: string;
+  iban: string;
+  bic?: string | null;
+  amount: number;
+  currency?: string | null;
+  purpose?: string | null; // ISO 20022 purpose code, e.g. "GDDS"
+  reference?: string | null; // RF creditor reference (structured) or free text (unstructured)
+  information?: string | null; // note shown to the payer, not transmitted
+};
+
+export type EpcIssue = { field: string; message: string; severity: "error" | "warning" };
+
+export type EpcResult = {
+  payload: string | null;
+  issues: EpcIssue[];
+};
+
+const MAX_PAYLOAD_BYTES = 331;
+
+// Latin characters SEPA banks are guaranteed to carry; anything else is transliterated or dropped
+const SEPA_CHARSET = /[^A-Za-z0-9/?:().,'+ -]/g;
+const TRANSLITERATE: Record<string, string> = {
+  ä: "ae", ö: "oe", ü: "ue", Ä: "Ae", Ö: "Oe", Ü: "Ue", ß: "ss", "&": "+", "–": "-", "—": "-", "’": "'", "‘": "'",
+};
+
+/** Transliterates to the SEPA basic Latin set; returns the text and whether it had to change. */
+export function toSepaText(s: string): { text: string; changed: boolean } {
+  const base = String(s || "")
+    .replace(/[äöüÄÖÜß&–—’‘]/g, (c) => TRANSLITERATE[c])
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+  const text = base.replace(SEPA_CHARSET, " ").replace(/\s+/g, " ").trim();
+  return { text, changed: text !== String(s || "").replace(/\s+/g, " ").trim() };
+}
+
+/**
+ * Builds the newline-separated EPC payload (version 002, UTF-8, SCT). BIC is optional in
+ * version 002; structured (RF) and unstructured remittance are mutually exclusive.
+ */
+export function buildEpcPayload(input: EpcInput): EpcResult {
+  const issues: EpcIssue[] = [];
+  const err = (field: string, message: string) => issues.push({ field, message, severity: "error" });
+  const warn = (field: string, message: string) => issues.push({ field, message, severity: "warning" });
+
+  const clean = (field: string, raw: string | null | undefined, max: number) => {
+    const { text, changed } = toSepaText(raw || "");
+    if (changed) warn(field, `Characters outside the SEPA character set were replaced in ${field}.`);
+    if (text.length > max) {
+      warn(field, `${field} truncated to ${max} characters.`);
+      return text.slice(0, max);
+    }
+    return text;
+  };
+
+  const iban = normalizeIban(input.iban);
+  if (!validateIban(iban)) err("iban", "IBAN is missing or fails the mod-97 check.");
+
+  const bic = input.bic ? normalizeBic(input.bic) : "";
+  if (bic && !validateBic(bic)) err("bic", "BIC is not a valid ISO 9362 code.");
+
+  const name = clean("beneficiary", input.beneficiary, 70);
+  if (!name) err("beneficiary", "Beneficiary name is required.");
+
+  const currency = String(input.currency || "EUR").toUpperCase();
+  if (currency !== "EUR") err("currency", `GiroCode only supports EUR (got ${currency}).`);
+  const amount = Math.round(Number(input.amount) * 100) / 100;
+  if (!Number.isFinite(amount) || amount < 0.01 || amount > 999999999.99) {
+    err("amount", "Amount must be between EUR 0.01 and EUR 999999999.99.");
+  }
+
+  const purpose = String(input.purpose || "").toUpperCase();
+  if (purpose && !/^[A-Z0-9]{1,4}$/.test(purpose)) err("purpose", "Purpose must be a 4-character ISO 20022 code.");
+
+  let structured = "";
+  let unstructured = "";
+  const ref = String(input.reference || "").trim();
+  if (/^RF\d{2}/i.test(ref.replace(/\s/g, "")) && validateCreditorReference(ref)) {
+    structured = normalizeIban(ref);
+    if (structured.length > 35) err("reference", "Structured reference exceeds 35 characters.");
+  } else if (ref) {
+    unstructured = clean("reference", ref, 140);
+  }
+
+  const information = clean("information", input.information, 70);
+
+  const lines = [
+    "BCD",
+    "002",
+    "1", // UTF-8
+    "SCT",
+    bic,
+    name,
+    iban,
+    `EUR${amount.toFixed(2)}`,
+    purpose,
+    structured,
+    unstructured,
+    information,
+  ];
+  // Trailing empty elements may be omitted
+  while (lines.length > 8 && !lines[lines.length - 1]) lines.pop();
+  const payload = lines.join("\n");
+
+  if (new TextEncoder().encode(payload).length > MAX_PAYLOAD_BYTES) {
+    err("payload", `Payload exceeds ${MAX_PAYLOAD_BYTES} bytes.`);
+  }
+
+  return { payload: issues.some((i) => i.severity === "error") ? null : payload, issues };
+}
@@ -0,0 +1,36 @@
+// supabase/functions/_shared/fx.ts
+// FX rates from the Frankfurter API (ECB reference rates), cached for 12 hours in Edge runtime memory.
+
+let _fxCache: { ts: number; base: string; rates: Record<string, number> } | null = null;
+
+/** Rates relative to `base`: 1 base = rates[CUR] CUR. */
+export async function getFxRates(base = "EUR"): Promise<Record<string, number>> {
+  const now = Date.now();
+  if (_fxCache && _fxCache.base === base && now - _fxCache.ts < 12 * 60 * 60 * 1000) return _fxCache.rates;
+
+  const url = `https://api.frankfurter.app/latest?from=${encodeURIComponent(base)}`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`FX fetch failed: ${res.status}`);
+  const data = await res.json();
+
+  const rates = (data?.rates || {}) as Record<string, number>;
+  if (!rates || typeof rates !== "object") throw new Error("FX rates missing");
+
+  _fxCache = { ts: now, base, rates };
+  return rates;
+}
+
+export async function toEur(amount: number, currency: string): Promise<number | null> {
+  if (!Number.isFinite(amount)) return null;
+  const cur = (currency || "").toUpperCase().trim();
+  if (!cur) return null;
+  if (cur === "EUR") return amount;
+
+  // Frankfurter base EUR -> rates[cur] = 1 EUR in CUR
+  const rates = await getFxRates("EUR");
+  const r = Number(rates[cur]);
+  if (!Number.isFinite(r) || r <= 0) return null;
+
+  // If 1 EUR = r CUR => amount CUR = amount / r EUR
+  return amount / r;
+}
@@ -0,0 +1,131 @@
+// supabase/functions/_shared/invoicePdf.ts
+// Human-readable PDF rendering of an outgoing invoice (companion to the UBL XML).
+import { PDFDocument, StandardFonts, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+import { computeTotals, categoryOf, type OutgoingInvoice, type OutgoingParty } from "./ubl.ts";
+
+const PAGE_W = 595.28; // A4 portrait
+const PAGE_H = 841.89;
+const MARGIN = 50;
+
+// Standard fonts only cover WinAnsi; replace anything else so drawText never throws
+const safe = (s: unknown) =>
+  String(s ?? "").replace(/[^\x20-\x7E\xA0-\xFF€–—‘’“”•…]/g, "?");
+
+const money = (n: number, currency: string) => `${n.toFixed(2)} ${currency}`;
+
+const addressLines = (p: OutgoingParty) =>
+  [p.name, p.street, [p.postcode, p.city].filter(Boolean).join(" "), p.country, p.vat_id ? `VAT ID: ${p.vat_id}` : ""]
+    .filter((x) => x && String(x).trim());
+
+export async function renderInvoicePdf(inv: OutgoingInvoice): Promise<Uint8Array> {
+  const t = computeTotals(inv);
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Invoice ${inv.invoice_number}`);
+  pdf.setAuthor(inv.seller.name);
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let page = pdf.addPage([PAGE_W, PAGE_H]);
+  let y = PAGE_H - MARGIN;
+
+  const text = (s: unknown, x: number, size = 10, f = font) => page.drawText(safe(s), { x, y, size, font: f, color: rgb(0.1, 0.1, 0.1) });
+  const right = (s: unknown, xRight: number, size = 10, f = font) => {
+    const v = safe(s);
+    page.drawText(v, { x: xRight - f.widthOfTextAtSize(v, size), y, size, font: f, color: rgb(0.1, 0.1, 0.1) });
+  };
+  const newLine = (h = 14) => {
+    y -= h;
+    if (y < MARGIN + 40) {
+      page = pdf.addPage([PAGE_W, PAGE_H]);
+      y = PAGE_H - MARGIN;
+    }
+  };
+
+  // Header: seller (left), invoice meta (right)
+  text(inv.seller.name, MARGIN, 16, bold);
+  right("INVOICE", PAGE_W - MARGIN, 16, bold);
+  newLine(22);
+  const sellerLines = addressLines(inv.seller).slice(1);
+  const meta = [
+    `No. ${inv.invoice_number}`,
+    `Date: ${inv.issue_date}`,
+    inv.due_date ? `Due: ${inv.due_date}` : "",
+    inv.buyer_reference ? `Buyer ref.: ${inv.buyer_reference}` : "",
+  ].filter(Boolean);
+  for (let i = 0; i < Math.max(sellerLines.length, meta.length); i++) {
+    if (sellerLines[i]) text(sellerLines[i], MARGIN, 9);
+    if (meta[i]) right(meta[i], PAGE_W - MARGIN, 9);
+    newLine(12);
+  }
+
+  // Buyer address block
+  newLine(16);
+  text("Bill to", MARGIN, 9, bold);
+  newLine(13);
+  for (const l of addressLines(inv.buyer)) {
+    text(l, MARGIN, 10);
+    newLine(13);
+  }
+
+  // Line table
+  newLine(18);
+  const cols = { desc: MARGIN, qty: 330, price: 400, vat: 450, net: PAGE_W - MARGIN };
+  text("Description", cols.desc, 9, bold);
+  right("Qty", cols.qty + 30, 9, bold);
+  right("Unit price", cols.price + 40, 9, bold);
+  right("VAT", cols.vat + 30, 9, bold);
+  right("Net", cols.net, 9, bold);
+  newLine(6);
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_W - MARGIN, y }, thickness: 0.5, color: rgb(0.6, 0.6, 0.6) });
+  newLine(12);
+
+  inv.lines.forEach((l, i) => {
+    const desc = safe(l.description);
+    text(desc.length > 50 ? `${desc.slice(0, 49)}…` : desc, cols.desc, 9);
+    right(l.quantity, cols.qty + 30, 9);
+    right(l.unit_price.toFixed(2), cols.price + 40, 9);
+    right(`${Math.round(l.vat_rate * 10000) / 100}% ${categoryOf(l)}`, cols.vat + 30, 9);
+    right(t.line_net[i].toFixed(2), cols.net, 9);
+    newLine(13);
+  });
+
+  // Totals
+  newLine(4);
+  page.drawLine({ start: { x: 330, y }, end: { x: PAGE_W - MARGIN, y }, thickness: 0.5, color: rgb(0.6, 0.6, 0.6) });
+  newLine(14);
+  const totalRow = (label: string, value: number, f = font) => {
+    right(label, 450, 10, f);
+    right(money(value, inv.currency), cols.net, 10, f);
+    newLine(14);
+  };
+  totalRow("Net total", t.line_extension);
+  for (const g of t.breakdown) totalRow(`VAT ${Math.round(g.rate * 10000) / 100}% (${g.category}) on ${g.taxable.toFixed(2)}`, g.tax);
+  totalRow("Amount due", t.payable, bold);
+
+  // Payment + notes
+  newLine(16);
+  if (inv.payment_terms) {
+    text(`Payment terms: ${inv.payment_terms}`, MARGIN, 9);
+    newLine(12);
+  }
+  if (inv.iban) {
+    text(`Bank transfer to ${inv.seller.name} - IBAN ${inv.iban}${inv.bic ? ` - BIC ${inv.bic}` : ""}`, MARGIN, 9);
+    newLine(12);
+  }
+  if (inv.payment_reference) {
+    text(`Payment reference: ${inv.payment_reference}`, MARGIN, 9);
+    newLine(12);
+  }
+  if (inv.note) {
+    text(inv.note, MARGIN, 9);
+    newLine(12);
+  }
+  const contact = [inv.seller.contact_name, inv.seller.phone, inv.seller.email].filter(Boolean).join(" · ");
+  if (contact) {
+    text(contact, MARGIN, 8);
+    newLine(12);
+  }
+
+  return await pdf.save();
+}
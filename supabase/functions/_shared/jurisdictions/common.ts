@@ -0,0 +1,41 @@
+// supabase/functions/_shared/jurisdictions/common.ts
+// Types and helpers shared by the jurisdiction rule packs.
+import type { EInvoice } from "../einvoice.ts";
+import type { LineItem } from "../lineItems.ts";
+import type { PolicyIssue, Severity } from "../policyEngine.ts";
+import { parseAmount } from "../amounts.ts";
+
+export type ComplianceContext = {
+  text: string;
+  fields: Record<string, unknown>;
+  line_items: LineItem[];
+  einvoice: EInvoice | null;
+  qr_payloads: string[]; // raw QR contents decoded by the client, if any
+};
+
+export type ComplianceIssue = PolicyIssue & { jurisdiction: string; legal_ref: string };
+
+export type JurisdictionPack = {
+  code: string;
+  name: string;
+  check: (ctx: ComplianceContext) => ComplianceIssue[];
+};
+
+export function issueCollector(jurisdiction: string) {
+  const issues: ComplianceIssue[] = [];
+  const add = (code: string, message: string, legal_ref: string, severity: Severity = "warning") =>
+    issues.push({ code, message, severity, jurisdiction, legal_ref });
+  return { issues, add };
+}
+
+export const present = (v: unknown) => v !== null && v !== undefined && String(v).trim() !== "";
+
+export const num = (v: unknown) => parseAmount(v);
+
+export const hasText = (text: string, re: RegExp) => re.test(text || "");
+
+/** Rate shown either per line or as a percentage anywhere on the document. */
+export const hasTaxRate = (ctx: ComplianceContext) =>
+  ctx.line_items.some((l) => l.vat_rate !== null) || /\d{1,2}(?:[.,]\d{1,2})?\s*%/.test(ctx.text || "");
+
+export const hasSupplyDescription = (ctx: ComplianceContext) => ctx.line_items.length > 0 || !!ctx.einvoice;
@@ -0,0 +1,58 @@
+// supabase/functions/_shared/jurisdictions/de.ts
+// Germany: mandatory invoice contents per §14 Abs. 4 UStG, small-amount invoices per §33 UStDV.
+import { hasSupplyDescription, hasTaxRate, hasText, issueCollector, num, present, type JurisdictionPack } from "./common.ts";
+
+const POSTCODE_CITY = /\b\d{5}\s+[A-ZÄÖÜ][\wäöüß.-]+/g;
+const TAX_NUMBER = /\bDE\s?\d{9}\b|\b\d{2,3}\/\d{3,4}\/\d{4,5}\b/;
+const SUPPLY_DATE = /(Leistungsdatum|Lieferdatum|Liefertag|Leistungszeitraum|Leistungszeit|Lieferzeitraum|date of (supply|delivery)|delivery date|service period)/i;
+const EXEMPTION_NOTE =
+  /(steuerfrei|Steuerbefreiung|Steuerschuldnerschaft des Leistungsempfängers|reverse\s*charge|§\s*19\s*(Abs\.\s*1\s*)?UStG|Kleinunternehmer|§\s*4\s*Nr\.|innergemeinschaftliche Lieferung|§\s*13b\s*UStG)/i;
+
+// §33 UStDV: gross amount up to €250
+const SMALL_AMOUNT_LIMIT = 250;
+
+export const dePack: JurisdictionPack = {
+  code: "DE",
+  name: "Germany (§14 UStG)",
+  check(ctx) {
+    const { issues, add } = issueCollector("DE");
+    const f = ctx.fields;
+    const total = num(f.total_amount);
+    const tax = num(f.tax_amount);
+    const small = total !== null && total > 0 && total <= SMALL_AMOUNT_LIMIT && String(f.currency || "EUR").toUpperCase() === "EUR";
+    const postcodes = (ctx.text.match(POSTCODE_CITY) || []).length;
+
+    if (!present(f.vendor_name)) add("DE_SUPPLIER_NAME", "Name of the supplier is missing.", "§14 Abs. 4 Nr. 1 UStG");
+    if (!(ctx.einvoice?.seller.postcode || ctx.einvoice?.seller.city) && postcodes === 0) {
+      add("DE_SUPPLIER_ADDRESS", "Full address of the supplier not found.", small ? "§33 Satz 1 Nr. 1 UStDV" : "§14 Abs. 4 Nr. 1 UStG");
+    }
+    if (!present(f.invoice_date)) add("DE_INVOICE_DATE", "Issue date (Ausstellungsdatum) is missing.", small ? "§33 Satz 1 Nr. 2 UStDV" : "§14 Abs. 4 Nr. 3 UStG");
+    if (!hasSupplyDescription(ctx)) {
+      add("DE_SUPPLY_DESCRIPTION", "Quantity and description of the goods or services not found.", small ? "§33 Satz 1 Nr. 3 UStDV" : "§14 Abs. 4 Nr. 5 UStG");
+    }
+
+    if (tax !== null && tax > 0) {
+      if (!hasTaxRate(ctx)) add("DE_TAX_RATE", "Applicable VAT rate is not stated.", small ? "§33 Satz 1 Nr. 4 UStDV" : "§14 Abs. 4 Nr. 8 UStG");
+    } else if (!hasText(ctx.text, EXEMPTION_NOTE)) {
+      add("DE_EXEMPTION_NOTE", "No VAT charged and no reference to an exemption or reverse charge.", "§14 Abs. 4 Nr. 8 UStG, §14a Abs. 5 UStG");
+    }
+
+    // Small-amount invoices (§33 UStDV) do not need the remaining items
+    if (small) return issues;
+
+    if (!(ctx.einvoice?.buyer.name) && postcodes < 2) {
+      add("DE_RECIPIENT_ADDRESS", "Name and full address of the recipient not found.", "§14 Abs. 4 Nr. 1 UStG");
+    }
+    if (!present(f.supplier_vat_id) && !ctx.einvoice?.seller.vat_id && !hasText(ctx.text, TAX_NUMBER)) {
+      add("DE_TAX_NUMBER", "Neither Steuernummer nor USt-IdNr. of the supplier found.", "§14 Abs. 4 Nr. 2 UStG");
+    }
+    if (!present(f.invoice_number)) add("DE_INVOICE_NUMBER", "Unique sequential invoice number is missing.", "§14 Abs. 4 Nr. 4 UStG");
+    if (!ctx.einvoice && !hasText(ctx.text, SUPPLY_DATE)) {
+      add("DE_SUPPLY_DATE", "Date of supply / service period not stated.", "§14 Abs. 4 Nr. 6 UStG", "info");
+    }
+    if (total === null || tax === null) {
+      add("DE_NET_AMOUNT", "Net amount per tax rate cannot be determined.", "§14 Abs. 4 Nr. 7 UStG");
+    }
+    return issues;
+  },
+};
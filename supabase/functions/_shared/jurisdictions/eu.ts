@@ -0,0 +1,32 @@
+// supabase/functions/_shared/jurisdictions/eu.ts
+// Generic EU pack: Art. 226 VAT Directive (2006/112/EC) for member states without a dedicated pack.
+import { hasTaxRate, hasText, issueCollector, num, present, type JurisdictionPack } from "./common.ts";
+
+const EU_VAT_ID = /\b(AT|BE|BG|CY|CZ|DE|DK|EE|EL|ES|FI|FR|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK)\s?[A-Z0-9]{8,12}\b/;
+const EXEMPTION_NOTE = /(reverse\s*charge|autoliquidation|exempt|exonér|art(icle)?\.?\s*(138|194|196)|steuerfrei|intra-?community)/i;
+
+export const euPack: JurisdictionPack = {
+  code: "EU",
+  name: "EU VAT Directive",
+  check(ctx) {
+    const { issues, add } = issueCollector("EU");
+    const f = ctx.fields;
+    const tax = num(f.tax_amount);
+
+    if (!present(f.invoice_date)) add("EU_INVOICE_DATE", "Invoice date is missing.", "Art. 226(1) Directive 2006/112/EC");
+    if (!present(f.invoice_number)) add("EU_INVOICE_NUMBER", "Sequential invoice number is missing.", "Art. 226(2) Directive 2006/112/EC");
+    if (!present(f.supplier_vat_id) && !ctx.einvoice?.seller.vat_id && !hasText(ctx.text, EU_VAT_ID)) {
+      add("EU_SUPPLIER_VAT_ID", "Supplier VAT identification number not found.", "Art. 226(3) Directive 2006/112/EC");
+    }
+    if (!present(f.vendor_name)) add("EU_SUPPLIER_NAME", "Supplier name is missing.", "Art. 226(5) Directive 2006/112/EC");
+
+    if (tax === null || tax <= 0) {
+      if (!hasText(ctx.text, EXEMPTION_NOTE)) {
+        add("EU_VAT_OR_EXEMPTION", "No VAT amount and no exemption / reverse-charge reference.", "Art. 226(9)-(11a) Directive 2006/112/EC");
+      }
+    } else if (!hasTaxRate(ctx)) {
+      add("EU_VAT_RATE", "VAT rate is not stated.", "Art. 226(9) Directive 2006/112/EC");
+    }
+    return issues;
+  },
+};
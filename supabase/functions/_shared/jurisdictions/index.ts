@@ -0,0 +1,55 @@
+// supabase/functions/_shared/jurisdictions/index.ts
+// Jurisdiction rule packs: inference plus mandatory-content checks with legal references.
+// Add a pack by implementing JurisdictionPack and registering it in PACKS.
+import type { EInvoice } from "../einvoice.ts";
+import type { ComplianceContext, ComplianceIssue, JurisdictionPack } from "./common.ts";
+import { dePack } from "./de.ts";
+import { euPack } from "./eu.ts";
+import { ksaPack } from "./ksa.ts";
+import { uaePack } from "./uae.ts";
+import { ukPack } from "./uk.ts";
+
+export type { ComplianceContext, ComplianceIssue, JurisdictionPack } from "./common.ts";
+export { decodeZatcaQr } from "./ksa.ts";
+
+const PACKS: Record<string, JurisdictionPack> = {
+  DE: dePack,
+  EU: euPack,
+  UK: ukPack,
+  UAE: uaePack,
+  KSA: ksaPack,
+};
+
+const COUNTRY_TO_JURISDICTION: Record<string, string> = { DE: "DE", GB: "UK", UK: "UK", XI: "UK", AE: "UAE", SA: "KSA" };
+const EU_COUNTRIES = new Set(["AT", "BE", "BG", "CY", "CZ", "DK", "EE", "ES", "FI", "FR", "GR", "HR", "HU", "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PL", "PT", "RO", "SE", "SI", "SK"]);
+const GERMAN_MARKERS = /\b(USt-?IdNr|Umsatzsteuer|MwSt|Steuernummer|Rechnungsnummer|Rechnungsdatum)\b|\bDE\s?\d{9}\b/i;
+
+/** Seller country (e-invoice) wins, then currency, then language markers for EUR documents. */
+export function inferJurisdiction(args: { text: string; currency: string; einvoice: EInvoice | null }): string {
+  const country = String(args.einvoice?.seller.country || "").toUpperCase();
+  if (COUNTRY_TO_JURISDICTION[country]) return COUNTRY_TO_JURISDICTION[country];
+  if (EU_COUNTRIES.has(country)) return "EU";
+
+  const currency = String(args.currency || "").toUpperCase();
+  if (currency === "SAR") return "KSA";
+  if (currency === "AED") return "UAE";
+  if (currency === "GBP") return "UK";
+  if (currency === "EUR" && GERMAN_MARKERS.test(args.text || "")) return "DE";
+  return "EU";
+}
+
+export function getJurisdictionPack(jurisdiction: string): JurisdictionPack | null {
+  return PACKS[String(jurisdiction || "").toUpperCase()] ?? null;
+}
+
+export function runJurisdictionPack(jurisdiction: string, ctx: ComplianceContext): { pack: string | null; issues: ComplianceIssue[] } {
+  const pack = getJurisdictionPack(jurisdiction);
+  if (!pack) return { pack: null, issues: [] };
+  return { pack: pack.name, issues: pack.check(ctx) };
+}
+
+export function complianceStatus(issues: { severity: string }[]): "compliant" | "needs_review" | "non_compliant" {
+  if (issues.some((i) => i.severity === "error")) return "non_compliant";
+  if (issues.some((i) => i.severity === "warning")) return "needs_review";
+  return "compliant";
+}
@@ -0,0 +1,135 @@
+// supabase/functions/_shared/jurisdictions/ksa.ts
+// Saudi Arabia: tax invoice contents per Art. 53 VAT Implementing Regulations and the ZATCA
+// e-invoicing (FATOORA) QR code — Base64 TLV, tags 1-5 since Phase 1, 6-9 added in Phase 2.
+import { hasSupplyDescription, hasText, issueCollector, num, present, type ComplianceContext, type JurisdictionPack } from "./common.ts";
+
+const VAT_NUMBER = /\b3\d{13}3\b/g; // 15 digits, first and last digit 3
+const TAX_INVOICE_LABEL = /tax\s*invoice|فاتورة\s*ضريبية/i;
+const ARABIC = /[؀-ۿ]/;
+// Tag 1 encodes to "AQ" in Base64; the payload is long enough to hold tags 1-5
+const QR_IN_TEXT = /\bAQ[A-Za-z0-9+/]{40,}={0,2}/g;
+
+// Art. 53(7): simplified tax invoice for supplies below SAR 1,000
+const SIMPLIFIED_LIMIT = 1000;
+
+const QR_REF = "ZATCA E-Invoicing Regulation; XML Implementation Standard §QR code (TLV)";
+
+export type ZatcaQr = {
+  seller_name: string | null; // tag 1
+  vat_number: string | null; // tag 2
+  timestamp: string | null; // tag 3
+  total_with_vat: number | null; // tag 4
+  vat_total: number | null; // tag 5
+  has_hash: boolean; // tag 6
+  has_signature: boolean; // tag 7
+  has_public_key: boolean; // tag 8
+  has_stamp_signature: boolean; // tag 9, simplified invoices only
+};
+
+/** Decodes a ZATCA QR payload (Base64 TLV). Returns null when the payload is not valid TLV. */
+export function decodeZatcaQr(payload: string): ZatcaQr | null {
+  let bytes: Uint8Array;
+  try {
+    const bin = atob(payload.trim());
+    bytes = Uint8Array.from(bin, (ch) => ch.charCodeAt(0));
+  } catch {
+    return null;
+  }
+
+  const tags = new Map<number, Uint8Array>();
+  let i = 0;
+  while (i < bytes.length) {
+    if (i + 2 > bytes.length) return null;
+    const tag = bytes[i];
+    const len = bytes[i + 1];
+    if (tag < 1 || tag > 9 || i + 2 + len > bytes.length) return null;
+    tags.set(tag, bytes.slice(i + 2, i + 2 + len));
+    i += 2 + len;
+  }
+  if (!tags.size) return null;
+
+  const decoder = new TextDecoder();
+  const str = (t: number) => (tags.has(t) ? decoder.decode(tags.get(t)) : null);
+  const amount = (t: number) => {
+    const s = str(t);
+    const n = s === null ? NaN : Number(s);
+    return Number.isFinite(n) ? n : null;
+  };
+
+  return {
+    seller_name: str(1),
+    vat_number: str(2),
+    timestamp: str(3),
+    total_with_vat: amount(4),
+    vat_total: amount(5),
+    has_hash: tags.has(6),
+    has_signature: tags.has(7),
+    has_public_key: tags.has(8),
+    has_stamp_signature: tags.has(9),
+  };
+}
+
+function qrCandidates(ctx: ComplianceContext): string[] {
+  const fromText = ctx.text.match(QR_IN_TEXT) || [];
+  return [...ctx.qr_payloads, ...(ctx.einvoice?.qr_payload ? [ctx.einvoice.qr_payload] : []), ...fromText].filter(Boolean);
+}
+
+export const ksaPack: JurisdictionPack = {
+  code: "KSA",
+  name: "Saudi Arabia (ZATCA)",
+  check(ctx) {
+    const { issues, add } = issueCollector("KSA");
+    const f = ctx.fields;
+    const total = num(f.total_amount);
+    const tax = num(f.tax_amount);
+    const vatNumbers = Array.from(new Set(ctx.text.match(VAT_NUMBER) || []));
+    const sellerVat = ctx.einvoice?.seller.vat_id || vatNumbers[0] || null;
+    const simplified = String(f.currency || "").toUpperCase() === "SAR" && total !== null && total > 0 && total < SIMPLIFIED_LIMIT;
+
+    if (!hasText(ctx.text, TAX_INVOICE_LABEL) && !ctx.einvoice) {
+      add("KSA_TAX_INVOICE_LABEL", 'The document is not labelled "Tax Invoice" / "فاتورة ضريبية".', "Art. 53(5) VAT Implementing Regulations");
+    }
+    if (!ARABIC.test(ctx.text) && !ctx.einvoice) {
+      add("KSA_ARABIC", "Tax invoices must be issued in Arabic (other languages may be added).", "Art. 53(3) VAT Implementing Regulations", "info");
+    }
+    if (!present(f.invoice_date)) add("KSA_INVOICE_DATE", "Date of issue is missing.", "Art. 53(5)(a) VAT Implementing Regulations");
+    if (!present(f.invoice_number)) add("KSA_INVOICE_NUMBER", "Sequential invoice number is missing.", "Art. 53(5)(b) VAT Implementing Regulations");
+    if (!sellerVat) add("KSA_SUPPLIER_VAT_NUMBER", "Supplier VAT registration number (15 digits, 3…3) not found.", "Art. 53(5)(c) VAT Implementing Regulations");
+    if (!present(f.vendor_name)) add("KSA_SUPPLIER_NAME", "Supplier name is missing.", "Art. 53(5)(e) VAT Implementing Regulations");
+    if (!hasSupplyDescription(ctx)) add("KSA_SUPPLY_DESCRIPTION", "Quantity and nature of goods or services not found.", "Art. 53(5)(g) VAT Implementing Regulations");
+    if (tax === null) add("KSA_VAT_AMOUNT", "VAT amount payable is missing.", "Art. 53(5)(j) VAT Implementing Regulations");
+    if (!simplified && !ctx.einvoice?.buyer.name && vatNumbers.length < 2) {
+      add("KSA_BUYER", "Buyer name / VAT number not found (required on standard tax invoices).", "Art. 53(5)(f) VAT Implementing Regulations", "info");
+    }
+
+    const candidates = qrCandidates(ctx);
+    if (!candidates.length) {
+      add("KSA_QR_MISSING", "ZATCA QR code payload not found (mandatory on simplified invoices, expected on all e-invoices).", QR_REF, simplified ? "warning" : "info");
+      return issues;
+    }
+
+    const qr = candidates.map(decodeZatcaQr).find((q): q is ZatcaQr => q !== null) ?? null;
+    if (!qr) {
+      add("KSA_QR_INVALID", "QR payload is not valid Base64 TLV.", QR_REF, "error");
+      return issues;
+    }
+    if (!qr.seller_name || !qr.vat_number || !qr.timestamp || qr.total_with_vat === null || qr.vat_total === null) {
+      add("KSA_QR_PHASE1_TAGS", "QR is missing one of tags 1-5 (seller, VAT number, timestamp, total, VAT).", QR_REF, "error");
+    }
+    if (!qr.has_hash || !qr.has_signature || !qr.has_public_key) {
+      add("KSA_QR_PHASE2_TAGS", "QR lacks Phase 2 cryptographic tags 6-8 (invoice hash, ECDSA signature, public key).", QR_REF);
+    } else if (simplified && !qr.has_stamp_signature) {
+      add("KSA_QR_STAMP", "Simplified invoice QR lacks tag 9 (ZATCA cryptographic stamp signature).", QR_REF);
+    }
+    if (qr.vat_number && sellerVat && qr.vat_number !== sellerVat.replace(/\s/g, "")) {
+      add("KSA_QR_VAT_MISMATCH", `QR VAT number ${qr.vat_number} differs from the invoice (${sellerVat}).`, QR_REF, "error");
+    }
+    if (qr.total_with_vat !== null && total !== null && Math.abs(qr.total_with_vat - total) > 0.01) {
+      add("KSA_QR_TOTAL_MISMATCH", `QR total ${qr.total_with_vat.toFixed(2)} differs from the invoice total ${total.toFixed(2)}.`, QR_REF, "error");
+    }
+    if (qr.vat_total !== null && tax !== null && Math.abs(qr.vat_total - tax) > 0.01) {
+      add("KSA_QR_VAT_TOTAL_MISMATCH", `QR VAT ${qr.vat_total.toFixed(2)} differs from the invoice VAT ${tax.toFixed(2)}.`, QR_REF, "error");
+    }
+    return issues;
+  },
+};
@@ -0,0 +1,49 @@
+// supabase/functions/_shared/jurisdictions/uae.ts
+// United Arab Emirates: tax invoice contents per Art. 59 Executive Regulation of Federal Decree-Law No. 8 of 2017 (FTA).
+import { hasSupplyDescription, hasTaxRate, hasText, issueCollector, num, present, type JurisdictionPack } from "./common.ts";
+
+const TRN = /\b1\d{14}\b/g; // 15-digit Tax Registration Number, issued starting with 100
+const TAX_INVOICE_LABEL = /tax\s*invoice|فاتورة\s*ضريبية/i;
+
+// Art. 59(6): simplified tax invoice when the consideration does not exceed AED 10,000
+const SIMPLIFIED_LIMIT = 10000;
+
+export const uaePack: JurisdictionPack = {
+  code: "UAE",
+  name: "UAE (FTA tax invoice)",
+  check(ctx) {
+    const { issues, add } = issueCollector("UAE");
+    const f = ctx.fields;
+    const currency = String(f.currency || "").toUpperCase();
+    const total = num(f.total_amount);
+    const tax = num(f.tax_amount);
+    const trns = Array.from(new Set(ctx.text.match(TRN) || []));
+    const simplified = currency === "AED" && total !== null && total > 0 && total <= SIMPLIFIED_LIMIT;
+
+    if (!hasText(ctx.text, TAX_INVOICE_LABEL)) add("UAE_TAX_INVOICE_LABEL", 'The words "Tax Invoice" are not clearly displayed.', "Art. 59(1)(a) Executive Regulation");
+    if (!present(f.vendor_name)) add("UAE_SUPPLIER_NAME", "Supplier name is missing.", "Art. 59(1)(b) Executive Regulation");
+    if (!trns.length && !ctx.einvoice?.seller.vat_id) add("UAE_SUPPLIER_TRN", "Supplier Tax Registration Number (TRN) not found.", "Art. 59(1)(b) Executive Regulation");
+    if (!present(f.invoice_number)) add("UAE_INVOICE_NUMBER", "Sequential tax invoice number is missing.", "Art. 59(1)(d) Executive Regulation");
+    if (!present(f.invoice_date)) add("UAE_INVOICE_DATE", "Date of issue is missing.", "Art. 59(1)(e) Executive Regulation");
+    if (!hasSupplyDescription(ctx)) add("UAE_SUPPLY_DESCRIPTION", "Description of goods or services not found.", "Art. 59(1)(g) Executive Regulation");
+
+    if (tax === null) {
+      add("UAE_TAX_AMOUNT", "Tax amount payable is missing.", "Art. 59(1)(k) Executive Regulation");
+    } else if (tax > 0 && !hasTaxRate(ctx)) {
+      add("UAE_TAX_RATE", "Rate of tax charged is not stated.", "Art. 59(1)(h) Executive Regulation");
+    }
+    if (currency && currency !== "AED" && !hasText(ctx.text, /\bAED\b|درهم/i)) {
+      add("UAE_AED_AMOUNTS", "Foreign-currency invoice must show the tax amount in AED.", "Art. 59(1)(k) Executive Regulation; Art. 69 Decree-Law");
+    }
+
+    if (simplified) return issues;
+
+    if (!ctx.einvoice?.buyer.name && !hasText(ctx.text, /(bill(ed)?\s*to|customer|recipient|sold\s*to)/i)) {
+      add("UAE_RECIPIENT", "Recipient name and address not found.", "Art. 59(1)(c) Executive Regulation");
+    }
+    if (trns.length < 2 && !ctx.einvoice?.buyer.vat_id) {
+      add("UAE_RECIPIENT_TRN", "Recipient TRN not found (required when the recipient is registered).", "Art. 59(1)(c) Executive Regulation", "info");
+    }
+    return issues;
+  },
+};
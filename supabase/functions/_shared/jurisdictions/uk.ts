@@ -0,0 +1,52 @@
+// supabase/functions/_shared/jurisdictions/uk.ts
+// United Kingdom: VAT invoice contents per reg. 14 VAT Regulations 1995 (HMRC VAT Notice 700/21 §16).
+import { hasSupplyDescription, hasTaxRate, hasText, issueCollector, num, present, type JurisdictionPack } from "./common.ts";
+
+const GB_VAT_NUMBER = /\b(GB|XI)\s?\d{3}\s?\d{4}\s?\d{2}(\s?\d{3})?\b|VAT\s*(Reg(istration)?\.?\s*)?(No|Number)\.?\s*:?\s*\d{3}\s?\d{4}\s?\d{2}/i;
+const TAX_POINT = /(tax\s*point|time\s*of\s*supply|date\s*of\s*supply)/i;
+const ZERO_RATE_NOTE = /(zero[\s-]*rated|exempt|reverse\s*charge|outside the scope)/i;
+
+// reg. 16: simplified (less detailed) invoices up to £250 including VAT
+const SIMPLIFIED_LIMIT = 250;
+
+export const ukPack: JurisdictionPack = {
+  code: "UK",
+  name: "United Kingdom (VAT Regulations 1995)",
+  check(ctx) {
+    const { issues, add } = issueCollector("UK");
+    const f = ctx.fields;
+    const currency = String(f.currency || "").toUpperCase();
+    const total = num(f.total_amount);
+    const tax = num(f.tax_amount);
+    const simplified = currency === "GBP" && total !== null && total > 0 && total <= SIMPLIFIED_LIMIT;
+
+    if (!present(f.vendor_name)) add("UK_SUPPLIER_NAME", "Supplier name is missing.", simplified ? "reg. 16(1)(a) VAT Regs 1995" : "reg. 14(1)(d) VAT Regs 1995");
+    if (!ctx.einvoice?.seller.vat_id && !hasText(ctx.text, GB_VAT_NUMBER)) {
+      add("UK_VAT_NUMBER", "Supplier VAT registration number not found.", simplified ? "reg. 16(1)(b) VAT Regs 1995" : "reg. 14(1)(d) VAT Regs 1995");
+    }
+    if (!present(f.invoice_date)) add("UK_INVOICE_DATE", "Date of issue is missing.", "reg. 14(1)(c) VAT Regs 1995");
+    if (!hasText(ctx.text, TAX_POINT) && !ctx.einvoice) {
+      add("UK_TAX_POINT", "Time of supply (tax point) not stated; assumed equal to the issue date.", simplified ? "reg. 16(1)(c) VAT Regs 1995" : "reg. 14(1)(b) VAT Regs 1995", "info");
+    }
+    if (!hasSupplyDescription(ctx)) add("UK_SUPPLY_DESCRIPTION", "Description of the goods or services not found.", "reg. 14(1)(g) VAT Regs 1995");
+
+    if (tax !== null && tax > 0) {
+      if (!hasTaxRate(ctx)) add("UK_VAT_RATE", "Rate of VAT for each supply is not stated.", "reg. 14(1)(i) VAT Regs 1995");
+    } else if (!hasText(ctx.text, ZERO_RATE_NOTE)) {
+      add("UK_VAT_AMOUNT", "No VAT amount and no zero-rate / exemption indication.", "reg. 14(1)(m) VAT Regs 1995");
+    }
+
+    if (currency && currency !== "GBP" && !hasText(ctx.text, /£|\bGBP\b|sterling/i)) {
+      add("UK_VAT_IN_STERLING", "Invoice in foreign currency must show the VAT amount in sterling.", "reg. 14(1) VAT Regs 1995; VAT Notice 700/21 §16.4");
+    }
+
+    if (simplified) return issues;
+
+    if (!present(f.invoice_number)) add("UK_INVOICE_NUMBER", "Sequential invoice number is missing.", "reg. 14(1)(a) VAT Regs 1995");
+    if (!ctx.einvoice?.buyer.name && !hasText(ctx.text, /(bill(ed)?\s*to|invoice\s*to|customer|sold\s*to|ship\s*to)/i)) {
+      add("UK_CUSTOMER", "Customer name and address not found.", "reg. 14(1)(e) VAT Regs 1995");
+    }
+    if (total === null || tax === null) add("UK_TOTALS", "Total excluding VAT and total VAT cannot be determined.", "reg. 14(1)(j)-(m) VAT Regs 1995");
+    return issues;
+  },
+};
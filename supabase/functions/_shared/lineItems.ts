@@ -0,0 +1,164 @@
+// supabase/functions/_shared/lineItems.ts
+// Line-item extraction (OCR text + vision output) and reconciliation against the header totals.
+import { normalizeRate, parseAmount, round2 } from "./amounts.ts";
+
+export type LineItemSource = "vision" | "text" | "xml" | "manual";
+
+export type LineItem = {
+  line_index: number;
+  description: string;
+  quantity: number | null;
+  unit_price: number | null;
+  net_amount: number | null;
+  vat_rate: number | null; // fraction, 0.19 = 19 %
+  source: LineItemSource;
+  text?: string;
+};
+
+export type LineItemReconciliation = {
+  line_count: number;
+  net_total: number;
+  vat_total: number | null;
+  expected_total: number | null;
+  header_total: number | null;
+  difference: number | null;
+  matched: boolean;
+};
+
+// Lines that describe totals/taxes/payment info rather than goods or services
+const NON_ITEM_LINE =
+  /\b(sub\s*-?total|total|summe|gesamt|zwischensumme|amount\s+due|balance|vat|tax|mwst|ust|iban|bic|swift|invoice\s*(no|number|date)|due\s+date|page\s+\d)\b/i;
+
+const NUMBER_TOKEN = /-?\d{1,3}(?:[.,]\d{3})+(?:[.,]\d{1,2})?|-?\d+(?:[.,]\d{1,2})?/g;
+
+const closeTo = (a: number, b: number, tol = 0.02) => Math.abs(a - b) <= Math.max(tol, Math.abs(b) * 0.001);
+
+function parseTextLine(raw: string, index: number): LineItem | null {
+  const line = raw.trim();
+  if (line.length < 4 || NON_ITEM_LINE.test(line)) return null;
+  // Dates and percentages are not quantities/prices
+  const rateMatch = line.match(/(\d{1,2}(?:[.,]\d{1,2})?)\s*%/);
+  const vat_rate = rateMatch ? normalizeRate(rateMatch[1]) : null;
+  const stripped = line
+    .replace(/\b\d{1,4}[-/.]\d{1,2}[-/.]\d{2,4}\b/g, " ")
+    .replace(/(\d{1,2}(?:[.,]\d{1,2})?)\s*%/g, " ");
+
+  const firstDigit = stripped.search(/\d/);
+  if (firstDigit < 0) return null;
+
+  const tokens = Array.from(stripped.matchAll(NUMBER_TOKEN));
+  const nums = tokens.map((m) => parseAmount(m[0])).filter((n): n is number => n !== null);
+  if (nums.length < 2) return null;
+
+  const hasTimes = /\d\s*(x|×|@)\s*\d/i.test(stripped) || /\b(x|×|@)\b/i.test(stripped);
+  let quantity: number | null = null;
+  let unit_price: number | null = null;
+  let net_amount: number | null = null;
+
+  if (nums.length >= 3) {
+    const [q, u, n] = nums.slice(-3);
+    if (q !== 0 && closeTo(q * u, n)) {
+      quantity = q;
+      unit_price = u;
+      net_amount = n;
+    } else if (closeTo(nums[0] * nums[nums.length - 2], nums[nums.length - 1])) {
+      // "2 Widgets A-100 12.50 25.00" — quantity leads the description
+      quantity = nums[0];
+      unit_price = nums[nums.length - 2];
+      net_amount = nums[nums.length - 1];
+    }
+  } else if (hasTimes) {
+    const [q, u] = nums;
+    quantity = q;
+    unit_price = u;
+    net_amount = round2(q * u);
+  }
+
+  if (net_amount === null) return null;
+
+  const description = line
+    .slice(0, Math.max(0, line.search(/\s\d/) >= 0 ? line.search(/\s\d/) : line.length))
+    .replace(/^\d+\s*(x|×)?\s*/i, "")
+    .trim();
+  if (!/[a-zA-ZÀ-ÿ]{2,}/.test(description)) return null;
+
+  return { line_index: index, description, quantity, unit_price, net_amount, vat_rate, source: "text", text: line };
+}
+
+/** Best-effort table parsing from OCR/PDF text; only accepts lines whose arithmetic closes. */
+export function extractLineItemsFromText(text: string): LineItem[] {
+  const lines = (text || "").split("\n").map((l) => l.trim()).filter(Boolean);
+  const out: LineItem[] = [];
+  for (const l of lines) {
+    const item = parseTextLine(l, out.length);
+    if (item) out.push(item);
+  }
+  return out;
+}
+
+/** Normalizes the `line_items` array returned by vision-extract. */
+export function lineItemsFromVision(raw: unknown): LineItem[] {
+  if (!Array.isArray(raw)) return [];
+  const out: LineItem[] = [];
+  for (const r of raw) {
+    if (!r || typeof r !== "object") continue;
+    const o = r as Record<string, unknown>;
+    const description = String(o.description ?? o.name ?? o.item ?? "").trim();
+    const quantity = parseAmount(o.quantity ?? o.qty);
+    const unit_price = parseAmount(o.unit_price ?? o.unitPrice ?? o.price);
+    let net_amount = parseAmount(o.net_amount ?? o.netAmount ?? o.amount ?? o.line_total);
+    if (net_amount === null && quantity !== null && unit_price !== null) net_amount = round2(quantity * unit_price);
+    if (!description && net_amount === null) continue;
+
+    out.push({
+      line_index: out.length,
+      description: description || "(no description)",
+      quantity,
+      unit_price,
+      net_amount,
+      vat_rate: normalizeRate(o.vat_rate ?? o.tax_rate ?? o.vatRate),
+      source: "vision",
+    });
+  }
+  return out;
+}
+
+/**
+ * Vision lines win when present (they see the table layout); otherwise fall back to text parsing.
+ */
+export function extractLineItems(text: string, visionLines?: unknown): LineItem[] {
+  const fromVision = lineItemsFromVision(visionLines);
+  if (fromVision.length) return fromVision;
+  return extractLineItemsFromText(text);
+}
+
+/**
+ * Compares the sum of the lines with the header total. Lines are net, so the expected
+ * gross is net + VAT (from per-line rates, or the header tax when rates are missing).
+ * Gross-priced lines (net sum already equals the total) are accepted as well.
+ */
+export function reconcileLineItems(
+  items: LineItem[],
+  header: { total_amount: number | null; tax_amount: number | null },
+): LineItemReconciliation {
+  const net_total = round2(items.reduce((s, i) => s + (i.net_amount ?? 0), 0));
+  const allRated = items.length > 0 && items.every((i) => i.vat_rate !== null);
+  const vat_total = allRated
+    ? round2(items.reduce((s, i) => s + (i.net_amount ?? 0) * (i.vat_rate ?? 0), 0))
+    : header.tax_amount;
+
+  const expected_total = vat_total !== null ? round2(net_total + vat_total) : null;
+  const header_total = header.total_amount;
+  const tol = Math.max(0.05, items.length * 0.01);
+
+  let matched = false;
+  let difference: number | null = null;
+  if (header_total !== null && items.length) {
+    const candidates = [expected_total, net_total].filter((x): x is number => x !== null);
+    const diffs = candidates.map((c) => round2(header_total - c));
+    difference = diffs.reduce((best, d) => (Math.abs(d) < Math.abs(best) ? d : best), diffs[0]);
+    matched = Math.abs(difference) <= tol;
+  }
+
+  return { line_count: items.length, net_total, vat_total, expected_total, header_total, difference, matched };
+}
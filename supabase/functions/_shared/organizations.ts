@@ -0,0 +1,58 @@
+// supabase/functions/_shared/organizations.ts
+// Workspace membership for edge functions: which organization a request acts in and the caller's role there.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+
+type Db = ReturnType<typeof createClient>;
+
+export type OrgRole = "owner" | "accountant" | "approver" | "submitter" | "viewer";
+
+export const ORG_ROLES: OrgRole[] = ["owner", "accountant", "approver", "submitter", "viewer"];
+
+// Who may keep the books (payments, banking, policies) and who may decide on other members' invoices
+export const BOOKKEEPING_ROLES: OrgRole[] = ["owner", "accountant"];
+export const APPROVING_ROLES: OrgRole[] = ["owner", "approver"];
+
+export type Membership = { organizationId: string; role: OrgRole };
+
+export async function orgRole(db: Db, organizationId: string, userId: string): Promise<OrgRole | null> {
+  const { data, error } = await db
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", organizationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return ((data as { role?: OrgRole } | null)?.role ?? null);
+}
+
+/**
+ * The workspace a request acts in: `requested` when given, otherwise the one the org switcher last selected
+ * (public.active_organization_id). Null when the user is not a member of that organization (a requested
+ * one is never swapped for the active one) or has no membership at all.
+ */
+export async function resolveOrganization(db: Db, userId: string, requested?: string | null): Promise<Membership | null> {
+  let organizationId = requested ? String(requested) : "";
+  if (!organizationId) {
+    const { data, error } = await db.rpc("active_organization_id", { _user_id: userId });
+    if (error) throw new Error(error.message);
+    organizationId = (data as string | null) ?? "";
+  }
+  if (!organizationId) return null;
+  const role = await orgRole(db, organizationId, userId);
+  return role ? { organizationId, role } : null;
+}
+
+/** True when the user holds one of `roles` in the organization a row (e.g. an invoice) belongs to. */
+export async function hasOrgRoleFor(db: Db, organizationId: string | null | undefined, userId: string, roles: OrgRole[]) {
+  if (!organizationId) return false;
+  const role = await orgRole(db, organizationId, userId);
+  return !!role && roles.includes(role);
+}
+
+/** Everyone who belongs to the organization, for checks on approvers, substitutes and escalation targets. */
+export async function memberIds(db: Db, organizationId: string | null | undefined): Promise<Set<string>> {
+  if (!organizationId) return new Set();
+  const { data, error } = await db.from("organization_members").select("user_id").eq("organization_id", organizationId);
+  if (error) throw new Error(error.message);
+  return new Set(((data || []) as { user_id: string }[]).map((m) => String(m.user_id)));
+}
@@ -0,0 +1,171 @@
+// supabase/functions/_shared/pain001.ts
+// ISO 20022 pain.001.001.09 customer credit transfer initiation (SEPA), one PmtInf block per
+// debtor account and requested execution date.
+import { round2 } from "./amounts.ts";
+import { normalizeBic, normalizeIban, validateBic, validateCreditorReference, validateIban } from "./bankDetails.ts";
+import { toSepaText } from "./epcQr.ts";
+
+export type PainParty = { name: string; iban: string; bic?: string | null };
+
+export type PainPayment = {
+  end_to_end_id: string;
+  amount: number;
+  currency: string;
+  execution_date: string; // YYYY-MM-DD
+  debtor: PainParty;
+  creditor: PainParty;
+  remittance?: string | null; // RF creditor reference → structured, anything else → unstructured
+};
+
+export type PainGroup = {
+  pmt_inf_id: string;
+  debtor_iban: string;
+  execution_date: string;
+  count: number;
+  control_sum: number;
+};
+
+export type PainIssue = { end_to_end_id: string; message: string };
+
+export type PainResult = {
+  xml: string;
+  count: number;
+  control_sum: number;
+  groups: PainGroup[];
+  included: string[]; // end_to_end_ids written to the file
+  issues: PainIssue[]; // payments left out of the file
+};
+
+const esc = (v: unknown) =>
+  String(v ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const amt = (n: number) => round2(n).toFixed(2);
+const text = (s: unknown, max: number) => esc(toSepaText(String(s ?? "")).text.slice(0, max));
+
+/** SEPA ids: 1-35 chars of the restricted set, must not start or end with "/" nor contain "//". */
+export function sepaId(raw: string): string {
+  const id = toSepaText(raw).text.replace(/\s/g, "").replace(/\/{2,}/g, "/").replace(/^\/+|\/+$/g, "").slice(0, 35);
+  return id || "NOTPROVIDED";
+}
+
+function agentXml(tag: "DbtrAgt" | "CdtrAgt", bic: string | null | undefined, indent: string) {
+  const b = bic ? normalizeBic(bic) : "";
+  if (b) return `${indent}<${tag}><FinInstnId><BICFI>${b}</BICFI></FinInstnId></${tag}>`;
+  // Debtor agent is mandatory; SEPA allows "NOTPROVIDED" when the IBAN identifies the bank
+  return tag === "DbtrAgt" ? `${indent}<${tag}><FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId></${tag}>` : "";
+}
+
+function remittanceXml(remittance: string | null | undefined, indent: string) {
+  const r = String(remittance || "").trim();
+  if (!r) return "";
+  if (validateCreditorReference(r)) {
+    return [
+      `${indent}<RmtInf>`,
+      `${indent}  <Strd><CdtrRefInf><Tp><CdOrPrtry><Cd>SCOR</Cd></CdOrPrtry></Tp><Ref>${normalizeIban(r)}</Ref></CdtrRefInf></Strd>`,
+      `${indent}</RmtInf>`,
+    ].join("\n");
+  }
+  return `${indent}<RmtInf><Ustrd>${text(r, 140)}</Ustrd></RmtInf>`;
+}
+
+function validatePayment(p: PainPayment): string | null {
+  if (String(p.currency || "").toUpperCase() !== "EUR") return `SEPA credit transfers must be in EUR (got ${p.currency}).`;
+  if (!(Number(p.amount) >= 0.01 && Number(p.amount) <= 999999999.99)) return "Amount must be between 0.01 and 999999999.99.";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(p.execution_date)) return "Execution date must be YYYY-MM-DD.";
+  if (!validateIban(p.debtor.iban)) return "Debtor IBAN is invalid.";
+  if (!validateIban(p.creditor.iban)) return "Creditor IBAN is invalid.";
+  if (p.creditor.bic && !validateBic(p.creditor.bic)) return "Creditor BIC is invalid.";
+  if (!toSepaText(p.creditor.name).text) return "Creditor name is missing.";
+  return null;
+}
+
+export function buildPain001(args: {
+  message_id: string;
+  initiating_party: string;
+  created_at?: string;
+  payments: PainPayment[];
+}): PainResult {
+  const issues: PainIssue[] = [];
+  const valid = args.payments.filter((p) => {
+    const problem = validatePayment(p);
+    if (problem) issues.push({ end_to_end_id: p.end_to_end_id, message: problem });
+    return !problem;
+  });
+
+  const byGroup = new Map<string, PainPayment[]>();
+  for (const p of valid) {
+    const key = `${normalizeIban(p.debtor.iban)}|${p.execution_date}`;
+    byGroup.set(key, [...(byGroup.get(key) ?? []), p]);
+  }
+
+  const msgId = sepaId(args.message_id);
+  const groups: PainGroup[] = [];
+  const blocks: string[] = [];
+  let n = 0;
+  for (const [key, payments] of byGroup) {
+    n++;
+    const [debtorIban, date] = key.split("|");
+    const debtor = payments[0].debtor;
+    const sum = round2(payments.reduce((s, p) => s + Number(p.amount), 0));
+    const pmtInfId = sepaId(`${msgId.slice(0, 30)}-${n}`);
+    groups.push({ pmt_inf_id: pmtInfId, debtor_iban: debtorIban, execution_date: date, count: payments.length, control_sum: sum });
+
+    const txs = payments.map((p) =>
+      [
+        `      <CdtTrfTxInf>`,
+        `        <PmtId><EndToEndId>${sepaId(p.end_to_end_id)}</EndToEndId></PmtId>`,
+        `        <Amt><InstdAmt Ccy="EUR">${amt(p.amount)}</InstdAmt></Amt>`,
+        agentXml("CdtrAgt", p.creditor.bic, "        "),
+        `        <Cdtr><Nm>${text(p.creditor.name, 70)}</Nm></Cdtr>`,
+        `        <CdtrAcct><Id><IBAN>${normalizeIban(p.creditor.iban)}</IBAN></Id></CdtrAcct>`,
+        remittanceXml(p.remittance, "        "),
+        `      </CdtTrfTxInf>`,
+      ].filter(Boolean).join("\n"),
+    );
+
+    blocks.push(
+      [
+        `    <PmtInf>`,
+        `      <PmtInfId>${pmtInfId}</PmtInfId>`,
+        `      <PmtMtd>TRF</PmtMtd>`,
+        `      <BtchBookg>true</BtchBookg>`,
+        `      <NbOfTxs>${payments.length}</NbOfTxs>`,
+        `      <CtrlSum>${amt(sum)}</CtrlSum>`,
+        `      <PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>`,
+        `      <ReqdExctnDt><Dt>${date}</Dt></ReqdExctnDt>`,
+        `      <Dbtr><Nm>${text(debtor.name, 70)}</Nm></Dbtr>`,
+        `      <DbtrAcct><Id><IBAN>${debtorIban}</IBAN></Id></DbtrAcct>`,
+        agentXml("DbtrAgt", debtor.bic, "      "),
+        `      <ChrgBr>SLEV</ChrgBr>`,
+        ...txs,
+        `    </PmtInf>`,
+      ].join("\n"),
+    );
+  }
+
+  const count = valid.length;
+  const controlSum = round2(valid.reduce((s, p) => s + Number(p.amount), 0));
+  const createdAt = (args.created_at || new Date().toISOString()).replace(/\.\d{3}Z$/, "Z");
+
+  const xml = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.09" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+    `  <CstmrCdtTrfInitn>`,
+    `    <GrpHdr>`,
+    `      <MsgId>${msgId}</MsgId>`,
+    `      <CreDtTm>${createdAt}</CreDtTm>`,
+    `      <NbOfTxs>${count}</NbOfTxs>`,
+    `      <CtrlSum>${amt(controlSum)}</CtrlSum>`,
+    `      <InitgPty><Nm>${text(args.initiating_party, 70)}</Nm></InitgPty>`,
+    `    </GrpHdr>`,
+    ...blocks,
+    `  </CstmrCdtTrfInitn>`,
+    `</Document>`,
+  ].join("\n");
+
+  return { xml, count, control_sum: controlSum, groups, included: valid.map((p) => p.end_to_end_id), issues };
+}
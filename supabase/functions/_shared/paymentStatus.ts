@@ -0,0 +1,60 @@
+// supabase/functions/_shared/paymentStatus.ts
+// Payment lifecycle: which `payment_status` transitions are legal and what they mean for the invoice.
+
+export type PaymentStatus = "draft" | "pending" | "queued" | "processing" | "paid" | "failed" | "canceled";
+
+export const PAYMENT_STATUSES: PaymentStatus[] = ["draft", "pending", "queued", "processing", "paid", "failed", "canceled"];
+
+// pending = awaiting release (funds, second signature) before it can be handed to the bank
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  draft: ["pending", "queued", "canceled"],
+  pending: ["draft", "queued", "canceled"],
+  queued: ["processing", "paid", "failed", "canceled"],
+  processing: ["paid", "failed"],
+  failed: ["draft", "queued", "canceled"],
+  paid: ["failed"], // returned / recalled by the bank after settlement
+  canceled: [],
+};
+
+export const isPaymentStatus = (s: unknown): s is PaymentStatus =>
+  typeof s === "string" && (PAYMENT_STATUSES as string[]).includes(s);
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** Returns null when the transition is legal, otherwise a message suitable for a 409 response. */
+export function transitionError(from: unknown, to: unknown): string | null {
+  if (!isPaymentStatus(to)) return `Unknown payment status "${String(to)}".`;
+  if (!isPaymentStatus(from)) return `Payment has unknown status "${String(from)}".`;
+  if (from === to) return `Payment is already ${to}.`;
+  if (!canTransition(from, to)) {
+    const next = PAYMENT_TRANSITIONS[from];
+    return `Cannot move a ${from} payment to ${to}${next.length ? ` (allowed: ${next.join(", ")})` : " (final state)"}.`;
+  }
+  return null;
+}
+
+/** Shortest chain of legal transitions from `from` to `to` (excluding `from`), or null. */
+export function transitionPath(from: PaymentStatus, to: PaymentStatus): PaymentStatus[] | null {
+  const prev = new Map<PaymentStatus, PaymentStatus>();
+  const queue: PaymentStatus[] = [from];
+  while (queue.length) {
+    const cur = queue.shift() as PaymentStatus;
+    if (cur === to) break;
+    for (const next of PAYMENT_TRANSITIONS[cur]) {
+      if (next === from || prev.has(next)) continue;
+      prev.set(next, cur);
+      queue.push(next);
+    }
+  }
+  if (from === to || !prev.has(to)) return null;
+  const path: PaymentStatus[] = [];
+  for (let s: PaymentStatus = to; s !== from; s = prev.get(s) as PaymentStatus) path.unshift(s);
+  return path;
+}
+
+/** Invoice columns mirrored from the payment after a transition. */
+export function invoicePaymentUpdate(to: PaymentStatus, at: string) {
+  return { payment_status: to, paid_at: to === "paid" ? at : null };
+}
@@ -0,0 +1,200 @@
+// supabase/functions/_shared/paymentTerms.ts
+// Payment terms ("2/10 net 30", "2% 10 days, net 30 days", "14 Tage 2% Skonto, 30 Tage netto") →
+// structured terms, due and discount dates, and a proposed pay date that captures discounts when they
+// beat the cost of capital.
+import { round2 } from "./amounts.ts";
+
+export type PaymentDiscount = { percent: number; days: number };
+
+export type PaymentTerms = {
+  net_days: number | null;
+  discounts: PaymentDiscount[]; // sorted by days ascending
+  end_of_month: boolean; // days counted from the end of the invoice month
+  raw: string;
+};
+
+export type PaymentSchedule = {
+  due_date: string | null;
+  discounts: (PaymentDiscount & { deadline: string })[];
+};
+
+export type PayProposal = {
+  pay_date: string | null;
+  due_date: string | null;
+  discount_percent: number | null;
+  discount_deadline: string | null;
+  discount_amount: number;
+  pay_amount: number;
+  annualized_rate: number | null; // implied yearly return of paying early
+  status: "discount" | "due" | "overdue" | "no_terms";
+  reason: string;
+};
+
+const num = (s: string) => Number(s.replace(",", "."));
+const PCT = String.raw`(\d{1,2}(?:[.,]\d{1,2})?)\s*%`;
+const DAYS_EN = String.raw`(\d{1,3})\s*(?:calendar\s*)?days?`;
+const DAYS_DE = String.raw`(\d{1,3})\s*(?:kalender)?tag(?:e|en)?`;
+
+// [pattern, index of percent group, index of days group]
+const DISCOUNT_PATTERNS: [RegExp, number, number][] = [
+  [/(\d{1,2}(?:[.,]\d{1,2})?)\s*\/\s*(\d{1,3})\b(?=\s*,?\s*(?:n(?:et)?\b|n\s*\/))/gi, 1, 2], // 2/10 net 30, 2/10 n/30
+  [new RegExp(`${PCT}\\s*(?:cash\\s*)?discount[^.;\\n]{0,30}?(?:within|in)\\s*${DAYS_EN}`, "gi"), 1, 2],
+  [new RegExp(`(?:within|in)\\s*${DAYS_EN}[^.;\\n]{0,20}?${PCT}\\s*(?:cash\\s*)?discount`, "gi"), 2, 1],
+  [new RegExp(`${PCT}\\s*${DAYS_EN}`, "gi"), 1, 2], // 2% 10 days, net 30 days
+  [new RegExp(`${PCT}\\s*skonto[^.;\\n]{0,30}?(?:innerhalb|binnen|bis zu|in)\\s*(?:von\\s*)?${DAYS_DE}`, "gi"), 1, 2],
+  [new RegExp(`${DAYS_DE}\\s*(?:mit\\s*|abzüglich\\s*|abzgl\\.?\\s*|[,:-]\\s*)?${PCT}\\s*skonto`, "gi"), 2, 1],
+];
+
+const NET_PATTERNS: RegExp[] = [
+  /\bn(?:et)?\s*\/?\s*(\d{1,3})\b/i, // net 30, n/30, n30
+  new RegExp(`${DAYS_EN}\\s*net\\b`, "i"),
+  new RegExp(`(?:payable|due|payment)\\s*(?:with)?in\\s*${DAYS_EN}`, "i"),
+  new RegExp(`${DAYS_DE}\\s*(?:rein\\s*)?(?:netto|ohne\\s*abzug)`, "i"),
+  new RegExp(`(?:innerhalb|binnen)\\s*(?:von\\s*)?${DAYS_DE}`, "i"),
+  new RegExp(`(?:netto|ohne\\s*abzug)[^.;\\n]{0,20}?${DAYS_DE}`, "i"),
+];
+
+const IMMEDIATE = /\b(due\s*(?:up)?on\s*receipt|upon\s*receipt|payable\s*immediately|sofort\b|umgehend|ohne\s*abzug\s*sofort)/i;
+const END_OF_MONTH = /\beom\b|end\s*of\s*(?:the\s*)?month|monatsende|ende\s*des\s*monats/i;
+
+/** Returns null when the text carries no recognisable terms. */
+export function parsePaymentTerms(raw: string | null | undefined): PaymentTerms | null {
+  const text = String(raw || "").replace(/\s+/g, " ").trim();
+  if (!text) return null;
+
+  // Discounts first, then blank them out so "innerhalb 14 Tagen 2% Skonto" is not read as net 14
+  const discounts: PaymentDiscount[] = [];
+  let rest = text;
+  for (const [re, pi, di] of DISCOUNT_PATTERNS) {
+    for (const m of text.matchAll(re)) {
+      const percent = num(m[pi]);
+      const days = Number(m[di]);
+      if (!(percent > 0 && percent <= 20) || days > 365) continue;
+      if (!discounts.some((d) => d.percent === percent && d.days === days)) discounts.push({ percent, days });
+      rest = rest.replace(m[0], " ");
+    }
+  }
+  discounts.sort((a, b) => a.days - b.days);
+
+  let netDays: number | null = null;
+  if (IMMEDIATE.test(rest)) netDays = 0;
+  for (const re of NET_PATTERNS) {
+    if (netDays !== null) break;
+    const m = rest.match(re);
+    if (m && Number(m[1]) <= 365) netDays = Number(m[1]);
+  }
+  // A discount window can never be longer than the net term
+  if (netDays !== null) {
+    const net = netDays;
+    discounts.splice(0, discounts.length, ...discounts.filter((d) => d.days < net));
+  }
+
+  if (netDays === null && !discounts.length) return null;
+  return { net_days: netDays, discounts, end_of_month: END_OF_MONTH.test(text), raw: text };
+}
+
+/** Picks the sentence that looks like payment terms out of free OCR text. */
+export function findPaymentTermsText(text: string): string | null {
+  const lines = String(text || "").split(/\n|(?<=\.)\s+/).map((l) => l.trim()).filter(Boolean);
+  const hit = lines.find((l) => /payment\s*terms|zahlungsbedingung|zahlbar|skonto|\bnet\s*\d|\d\s*\/\s*\d+\s*,?\s*n(?:et)?\b|due\s*(?:up)?on\s*receipt/i.test(l));
+  return hit ? hit.slice(0, 200) : null;
+}
+
+const toDate = (iso: string) => new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+const isoDay = (d: Date) => d.toISOString().slice(0, 10);
+
+export function addDays(iso: string, days: number): string {
+  const d = toDate(iso);
+  d.setUTCDate(d.getUTCDate() + days);
+  return isoDay(d);
+}
+
+function endOfMonth(iso: string): string {
+  const d = toDate(iso);
+  return isoDay(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)));
+}
+
+/** Moves weekend dates back to the Friday before, so money leaves in time. */
+export function previousBusinessDay(iso: string): string {
+  const d = toDate(iso);
+  while (d.getUTCDay() === 0 || d.getUTCDay() === 6) d.setUTCDate(d.getUTCDate() - 1);
+  return isoDay(d);
+}
+
+const isIsoDate = (s: unknown): s is string => typeof s === "string" && /^\d{4}-\d{2}-\d{2}/.test(s);
+
+/** An explicit due date on the invoice wins over one computed from the terms. */
+export function computeSchedule(terms: PaymentTerms | null, invoiceDate: string | null, dueDate?: string | null): PaymentSchedule {
+  const base = isIsoDate(invoiceDate) ? (terms?.end_of_month ? endOfMonth(invoiceDate) : invoiceDate.slice(0, 10)) : null;
+  const due = isIsoDate(dueDate) ? dueDate.slice(0, 10) : base && terms?.net_days != null ? addDays(base, terms.net_days) : null;
+  return {
+    due_date: due,
+    discounts: base ? (terms?.discounts ?? []).map((d) => ({ ...d, deadline: addDays(base, d.days) })) : [],
+  };
+}
+
+/**
+ * Pays on the last business day that still earns the best discount, when the discount's implied
+ * annual rate beats `costOfCapital`; otherwise on the due date.
+ */
+export function proposePayDate(args: {
+  amount: number;
+  schedule: PaymentSchedule;
+  today: string;
+  costOfCapital?: number; // yearly, e.g. 0.08
+}): PayProposal {
+  const amount = round2(Number(args.amount) || 0);
+  const costOfCapital = args.costOfCapital ?? 0.08;
+  const { due_date } = args.schedule;
+  const today = args.today.slice(0, 10);
+  const base = {
+    due_date,
+    discount_percent: null,
+    discount_deadline: null,
+    discount_amount: 0,
+    pay_amount: amount,
+    annualized_rate: null,
+  };
+
+  let best: PayProposal | null = null;
+  for (const d of args.schedule.discounts) {
+    if (d.deadline < today) continue;
+    const saving = round2((amount * d.percent) / 100);
+    const daysEarly = due_date ? Math.max(1, (toDate(due_date).getTime() - toDate(d.deadline).getTime()) / 86400000) : null;
+    const rate = daysEarly ? (d.percent / (100 - d.percent)) * (365 / daysEarly) : null;
+    if (rate !== null && rate < costOfCapital) continue;
+    if (best && saving <= best.discount_amount) continue;
+    const payDate = previousBusinessDay(d.deadline);
+    best = {
+      ...base,
+      pay_date: payDate < today ? today : payDate,
+      discount_percent: d.percent,
+      discount_deadline: d.deadline,
+      discount_amount: saving,
+      pay_amount: round2(amount - saving),
+      annualized_rate: rate === null ? null : Math.round(rate * 1000) / 1000,
+      status: "discount",
+      reason: `Pay by ${d.deadline} to take ${d.percent}% discount${rate === null ? "" : ` (≈${Math.round(rate * 100)}% p.a.)`}.`,
+    };
+  }
+  if (best) return best;
+
+  if (!due_date) {
+    return { ...base, pay_date: null, status: "no_terms", reason: "No due date or payment terms found." };
+  }
+  if (due_date < today) {
+    return { ...base, pay_date: today, status: "overdue", reason: `Overdue since ${due_date}; pay now.` };
+  }
+  const missed = args.schedule.discounts.some((d) => d.deadline < today);
+  const payDate = previousBusinessDay(due_date);
+  return {
+    ...base,
+    pay_date: payDate < today ? today : payDate,
+    status: "due",
+    reason: missed
+      ? "Discount window has passed; pay on the due date."
+      : args.schedule.discounts.length
+        ? "Discount is worth less than the cost of capital; pay on the due date."
+        : "Pay on the due date.",
+  };
+}
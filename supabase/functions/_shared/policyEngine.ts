@@ -0,0 +1,347 @@
+// supabase/functions/_shared/policyEngine.ts
+// Declarative approval policies (public.policies) and the PASS / NEEDS_INFO / FAIL / HUMAN_APPROVAL decision.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { parseAmount } from "./amounts.ts";
+
+export type Decision = "PASS" | "NEEDS_INFO" | "FAIL" | "HUMAN_APPROVAL";
+
+export type Severity = "info" | "warning" | "error";
+
+export type PolicyIssue = {
+  code: string;
+  message: string;
+  severity: Severity;
+  policy_id?: string;
+  rule_id?: string;
+};
+
+export type ConditionOp =
+  | "eq" | "neq" | "gt" | "gte" | "lt" | "lte"
+  | "in" | "not_in" | "contains" | "matches" | "exists" | "missing";
+
+/** A leaf compares one context field; `all` / `any` nest. */
+export type Condition =
+  | { field: string; op: ConditionOp; value?: unknown }
+  | { all: Condition[] }
+  | { any: Condition[] };
+
+export type RuleOutcome = "fail" | "needs_info" | "human_approval" | "warn" | "info";
+
+type RuleBase = {
+  id: string;
+  description?: string;
+  when?: Condition[]; // all must hold for the rule to apply
+  enabled?: boolean;
+};
+
+export type PolicyRule =
+  | (RuleBase & { kind: "condition"; outcome: RuleOutcome; code: string; message: string; fields?: string[] })
+  | (RuleBase & { kind: "require_fields"; fields: string[] })
+  | (RuleBase & { kind: "amount_threshold"; max: number; currency?: string | null; outcome?: RuleOutcome })
+  | (RuleBase & { kind: "confidence_threshold"; min: number });
+
+export type CompiledPolicy = {
+  id: string;
+  name: string;
+  jurisdiction: string | null;
+  rules: PolicyRule[];
+};
+
+export type PolicyRow = {
+  id: string;
+  name: string;
+  jurisdiction: string | null;
+  max_amount: number | null;
+  require_invoice_number: boolean | null;
+  require_vat_id: boolean | null;
+  raw: unknown;
+  is_active?: boolean | null;
+};
+
+export type FiredRule = { policy_id: string; policy_name: string; rule_id: string; kind: PolicyRule["kind"]; outcome: RuleOutcome | "require" };
+
+export type PolicyEvaluation = {
+  issues: PolicyIssue[];
+  required_fields: string[];
+  needs_info: { reason: string; fields: string[] }[];
+  human_approval: string[];
+  min_confidence: number | null;
+  fired: FiredRule[];
+  policies: { id: string; name: string }[];
+};
+
+/** Context the rules are evaluated against: extracted fields plus pipeline signals. */
+export type PolicyContext = Record<string, unknown> & {
+  jurisdiction: string;
+  total_eur: number | null;
+  overall_confidence: number;
+  evidence_score: number;
+};
+
+const EU_JURISDICTIONS = ["EU", "DE", "FR", "IT", "ES", "NL", "BE", "AT", "IE", "PT", "FI", "LU", "PL", "SE", "DK", "CZ"];
+
+/**
+ * Used when no active policy applies to an invoice: the thresholds process-invoice applied before
+ * policies became configurable (€5000 human approval, 0.65 confidence, EU VAT present).
+ */
+export const DEFAULT_POLICY: CompiledPolicy = {
+  id: "default",
+  name: "Default policy",
+  jurisdiction: null,
+  rules: [
+    {
+      id: "eu_vat_required",
+      kind: "condition",
+      description: "EU invoices must show VAT.",
+      when: [
+        { any: [{ field: "jurisdiction", op: "in", value: EU_JURISDICTIONS }, { field: "currency", op: "eq", value: "EUR" }] },
+        { any: [{ field: "tax_amount", op: "missing" }, { field: "tax_amount", op: "lte", value: 0 }] },
+      ],
+      outcome: "needs_info",
+      code: "VAT_MISSING",
+      message: "VAT missing or invalid (EU).",
+      fields: ["tax_amount"],
+    },
+    { id: "human_approval_5000_eur", kind: "amount_threshold", max: 5000, currency: "EUR", outcome: "human_approval" },
+    { id: "min_confidence", kind: "confidence_threshold", min: 0.65 },
+  ],
+};
+
+const SEVERITY_BY_OUTCOME: Record<RuleOutcome, Severity> = {
+  fail: "error",
+  needs_info: "warning",
+  human_approval: "info",
+  warn: "warning",
+  info: "info",
+};
+
+function getPath(ctx: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>((cur, k) => (cur && typeof cur === "object" ? (cur as Record<string, unknown>)[k] : undefined), ctx);
+}
+
+const isBlank = (v: unknown) => v === null || v === undefined || (typeof v === "string" && v.trim() === "");
+
+function compare(actual: unknown, op: ConditionOp, expected: unknown): boolean {
+  if (op === "missing") return isBlank(actual);
+  if (op === "exists") return !isBlank(actual);
+  if (isBlank(actual)) return op === "neq" || op === "not_in";
+
+  const upper = (v: unknown) => String(v).trim().toUpperCase();
+  const list = Array.isArray(expected) ? expected : [expected];
+
+  switch (op) {
+    case "eq":
+      return upper(actual) === upper(expected);
+    case "neq":
+      return upper(actual) !== upper(expected);
+    case "in":
+      return list.some((e) => upper(e) === upper(actual));
+    case "not_in":
+      return !list.some((e) => upper(e) === upper(actual));
+    case "contains":
+      return upper(actual).includes(upper(expected));
+    case "matches":
+      try {
+        return new RegExp(String(expected), "i").test(String(actual));
+      } catch {
+        return false;
+      }
+    default: {
+      const a = parseAmount(actual);
+      const b = parseAmount(expected);
+      if (a === null || b === null) return false;
+      if (op === "gt") return a > b;
+      if (op === "gte") return a >= b;
+      if (op === "lt") return a < b;
+      return a <= b;
+    }
+  }
+}
+
+export function matchCondition(c: Condition, ctx: Record<string, unknown>): boolean {
+  if ("all" in c) return c.all.every((x) => matchCondition(x, ctx));
+  if ("any" in c) return c.any.some((x) => matchCondition(x, ctx));
+  return compare(getPath(ctx, c.field), c.op, c.value);
+}
+
+/** Legacy columns (max_amount, require_*) become rules; `raw.rules` holds the declarative ones. */
+export function compilePolicy(row: PolicyRow): CompiledPolicy {
+  const rules: PolicyRule[] = [];
+  const raw = (row.raw && typeof row.raw === "object" ? row.raw : {}) as { rules?: unknown };
+
+  if (row.max_amount !== null && row.max_amount !== undefined && Number.isFinite(Number(row.max_amount))) {
+    rules.push({ id: "max_amount", kind: "amount_threshold", max: Number(row.max_amount), currency: "EUR", outcome: "human_approval" });
+  }
+  if (row.require_invoice_number) rules.push({ id: "required_columns", kind: "require_fields", fields: ["invoice_number"] });
+  if (row.require_vat_id) {
+    rules.push({
+      id: "require_vat_id",
+      kind: "condition",
+      when: [{ field: "supplier_vat_id", op: "missing" }],
+      outcome: "needs_info",
+      code: "VAT_ID_MISSING",
+      message: "Supplier VAT ID is required by policy but was not found.",
+      fields: ["supplier_vat_id"],
+    });
+    rules.push({
+      id: "require_valid_vat_id",
+      kind: "condition",
+      when: [
+        { field: "supplier_vat_id", op: "exists" },
+        { field: "supplier_vat_id_valid", op: "eq", value: false },
+      ],
+      outcome: "needs_info",
+      code: "VAT_ID_INVALID",
+      message: "Supplier VAT ID fails the format/checksum check.",
+      fields: ["supplier_vat_id"],
+    });
+  }
+
+  if (Array.isArray(raw.rules)) {
+    for (const r of raw.rules) {
+      if (r && typeof r === "object" && typeof (r as PolicyRule).kind === "string" && (r as PolicyRule).enabled !== false) {
+        rules.push(r as PolicyRule);
+      }
+    }
+  }
+
+  return { id: row.id, name: row.name, jurisdiction: row.jurisdiction, rules };
+}
+
+export async function loadActivePolicies(supabase: ReturnType<typeof createClient>, organizationId: string): Promise<CompiledPolicy[]> {
+  const { data, error } = await supabase
+    .from("policies")
+    .select("id,name,jurisdiction,max_amount,require_invoice_number,require_vat_id,raw,is_active")
+    .eq("organization_id", organizationId)
+    .eq("is_active", true)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return ((data || []) as PolicyRow[]).map(compilePolicy);
+}
+
+function ruleApplies(rule: PolicyRule, ctx: PolicyContext) {
+  return (rule.when || []).every((c) => matchCondition(c, ctx));
+}
+
+function amountFor(rule: Extract<PolicyRule, { kind: "amount_threshold" }>, ctx: PolicyContext): number | null {
+  const invoiceCurrency = String(ctx.currency || "").toUpperCase();
+  const ruleCurrency = String(rule.currency || "EUR").toUpperCase();
+  const total = parseAmount(ctx.total_amount);
+  if (ruleCurrency === invoiceCurrency) return total;
+  // EUR thresholds apply to every currency through the FX-converted total
+  if (ruleCurrency === "EUR") return ctx.total_eur;
+  return null;
+}
+
+/**
+ * Evaluates the user's policies. A policy with a jurisdiction only applies to invoices of that
+ * jurisdiction; when none applies (no active policies, or only other jurisdictions') DEFAULT_POLICY does.
+ */
+export function evaluatePolicies(policies: CompiledPolicy[], ctx: PolicyContext): PolicyEvaluation {
+  const jurisdiction = String(ctx.jurisdiction || "").toUpperCase();
+  const applicable = policies.filter((p) => !p.jurisdiction || p.jurisdiction.toUpperCase() === jurisdiction);
+  const active = applicable.length ? applicable : [DEFAULT_POLICY];
+  const out: PolicyEvaluation = {
+    issues: [],
+    required_fields: [],
+    needs_info: [],
+    human_approval: [],
+    min_confidence: null,
+    fired: [],
+    policies: [],
+  };
+
+  for (const policy of active) {
+    out.policies.push({ id: policy.id, name: policy.name });
+
+    for (const rule of policy.rules) {
+      if (!ruleApplies(rule, ctx)) continue;
+      const fire = (outcome: FiredRule["outcome"]) =>
+        out.fired.push({ policy_id: policy.id, policy_name: policy.name, rule_id: rule.id, kind: rule.kind, outcome });
+
+      if (rule.kind === "require_fields") {
+        const missing = rule.fields.filter((f) => isBlank(getPath(ctx, f)));
+        if (missing.length) {
+          out.required_fields.push(...missing.filter((f) => !out.required_fields.includes(f)));
+          fire("require");
+        }
+      } else if (rule.kind === "confidence_threshold") {
+        out.min_confidence = Math.max(out.min_confidence ?? 0, rule.min);
+      } else if (rule.kind === "amount_threshold") {
+        const amount = amountFor(rule, ctx);
+        if (amount === null || amount <= rule.max) continue;
+        const outcome = rule.outcome || "human_approval";
+        const cur = String(rule.currency || "EUR").toUpperCase();
+        const message = `Total exceeds ${cur} ${rule.max} (≈ ${cur} ${amount.toFixed(2)}) under "${policy.name}".`;
+        if (outcome === "human_approval") out.human_approval.push(`${message} Human approval required.`);
+        else out.issues.push({ code: "AMOUNT_LIMIT", message, severity: SEVERITY_BY_OUTCOME[outcome], policy_id: policy.id, rule_id: rule.id });
+        if (outcome === "needs_info") out.needs_info.push({ reason: message, fields: [] });
+        fire(outcome);
+      } else {
+        out.issues.push({ code: rule.code, message: rule.message, severity: SEVERITY_BY_OUTCOME[rule.outcome], policy_id: policy.id, rule_id: rule.id });
+        if (rule.outcome === "needs_info") out.needs_info.push({ reason: rule.message, fields: rule.fields || [] });
+        if (rule.outcome === "human_approval") out.human_approval.push(rule.message);
+        fire(rule.outcome);
+      }
+    }
+  }
+
+  return out;
+}
+
+const BASE_REQUIRED_FIELDS = ["vendor_name", "invoice_number", "invoice_date", "total_amount", "currency"];
+
+/**
+ * Precedence: errors → missing fields → policy needs-info → human approval → confidence
+ * → evidence → remaining warnings → PASS.
+ */
+export function decide(args: {
+  fields: Record<string, unknown>;
+  evidenceScore: number;
+  overallConfidence: number;
+  issues: PolicyIssue[];
+  evaluation: PolicyEvaluation;
+}) {
+  const { evaluation: ev, overallConfidence: conf } = args;
+  const clamp = (lo: number, hi: number) => Math.min(hi, Math.max(lo, conf));
+
+  if (args.issues.some((x) => x.severity === "error")) {
+    return { decision: "FAIL" as Decision, confidence: clamp(0.6, 0.85), reasons: args.issues.filter((x) => x.severity === "error").map((x) => x.message), needs_info_fields: [] as string[] };
+  }
+
+  const missingRequired = [
+    ...BASE_REQUIRED_FIELDS.filter((k) => !args.fields[k]),
+    ...ev.required_fields.filter((k) => !BASE_REQUIRED_FIELDS.includes(k)),
+  ];
+  if (missingRequired.length > 0) {
+    return { decision: "NEEDS_INFO" as Decision, confidence: clamp(0.45, 0.75), reasons: ["Missing required fields."], needs_info_fields: missingRequired };
+  }
+
+  if (ev.needs_info.length) {
+    return {
+      decision: "NEEDS_INFO" as Decision,
+      confidence: clamp(0.45, 0.75),
+      reasons: ev.needs_info.map((n) => n.reason),
+      needs_info_fields: Array.from(new Set(ev.needs_info.flatMap((n) => n.fields))),
+    };
+  }
+
+  if (ev.human_approval.length) {
+    return { decision: "HUMAN_APPROVAL" as Decision, confidence: clamp(0.55, 0.85), reasons: ev.human_approval, needs_info_fields: [] };
+  }
+
+  if (ev.min_confidence !== null && conf < ev.min_confidence) {
+    return { decision: "NEEDS_INFO" as Decision, confidence: Math.max(0.45, conf), reasons: ["Low confidence — need clarification."], needs_info_fields: [] };
+  }
+
+  if (args.evidenceScore < 1) {
+    return { decision: "NEEDS_INFO" as Decision, confidence: clamp(0.5, 0.75), reasons: ["Evidence missing for one or more required fields."], needs_info_fields: [] };
+  }
+
+  const warningMsgs = args.issues.filter((x) => x.severity === "warning").map((x) => x.message);
+  if (warningMsgs.length) {
+    return { decision: "NEEDS_INFO" as Decision, confidence: clamp(0.55, 0.8), reasons: warningMsgs, needs_info_fields: [] };
+  }
+
+  return { decision: "PASS" as Decision, confidence: clamp(0.7, 0.95), reasons: ["All checks passed with evidence."], needs_info_fields: [] };
+}
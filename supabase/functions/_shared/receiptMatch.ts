@@ -0,0 +1,150 @@
+// supabase/functions/_shared/receiptMatch.ts
+// Matches receipts (invoices with doc_class = receipt) to card transactions on amount, merchant name and date.
+import { round2 } from "./amounts.ts";
+import { convert, type FxRates } from "./reconcile.ts";
+
+export type CardTxnForMatch = {
+  id: string;
+  txn_date: string;
+  merchant: string | null;
+  amount: number;
+  currency: string;
+  original_amount: number | null;
+  original_currency: string | null;
+};
+
+export type ReceiptForMatch = {
+  id: string;
+  vendor_name: string | null;
+  total_amount: number | null;
+  currency: string | null;
+  invoice_date: string | null;
+};
+
+export type ReceiptSignals = { amount: number; merchant: number; date: number };
+
+export type ReceiptMatch = {
+  transaction_id: string;
+  invoice_id: string;
+  score: number;
+  signals: ReceiptSignals;
+  reasons: string[];
+};
+
+export const RECEIPT_WEIGHTS: ReceiptSignals = { amount: 0.5, merchant: 0.3, date: 0.2 };
+export const AUTO_MATCH_SCORE = 0.75;
+export const SUGGEST_MATCH_SCORE = 0.45;
+
+const TOLERANCE = 0.01;
+const FX_TOLERANCE = 0.03; // issuer rate and foreign-transaction fee
+const TIP_TOLERANCE = 0.2; // restaurants and taxis charge the receipt plus tip
+
+// Acquirer and wallet prefixes that card descriptors put in front of the merchant ("SQ *CAFE", "PAYPAL *SHOP")
+const DESCRIPTOR_PREFIXES = /^(sq|sp|tst|pp|paypal|zettle|sumup|izettle|amzn mktp|amzn|google|apple\.com\/bill|ec|pos|kartenzahlung)\s*\*+\s*/i;
+
+const STOP_WORDS = new Set(["gmbh", "ag", "kg", "ug", "ltd", "limited", "llc", "inc", "corp", "co", "plc", "sa", "sarl", "sas", "bv", "nv", "srl", "spa", "the", "und", "and", "www", "com", "de", "uk"]);
+
+const merchantTokens = (s: string | null | undefined) =>
+  String(s || "")
+    .replace(DESCRIPTOR_PREFIXES, "")
+    .replace(/\bamzn\b/gi, "amazon")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z]+/) // store numbers and terminal ids carry no name information
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+
+const bigrams = (s: string) => {
+  const out = new Set<string>();
+  for (let i = 0; i < s.length - 1; i++) out.add(s.slice(i, i + 2));
+  return out;
+};
+
+/** 0..1: best of token overlap and bigram (Dice) similarity, so "AMZN Mktp DE*2X4" still meets "Amazon EU S.a.r.l.". */
+export function merchantSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const ta = merchantTokens(a);
+  const tb = merchantTokens(b);
+  if (!ta.length || !tb.length) return 0;
+  const sb = new Set(tb);
+  const overlap = ta.filter((t) => sb.has(t)).length / Math.min(ta.length, tb.length);
+  const prefix = ta.some((x) => tb.some((y) => x.length >= 4 && y.length >= 4 && (x.startsWith(y) || y.startsWith(x)))) ? 0.8 : 0;
+  const ga = bigrams(ta.join(""));
+  const gb = bigrams(tb.join(""));
+  const dice = ga.size && gb.size ? (2 * [...ga].filter((g) => gb.has(g)).length) / (ga.size + gb.size) : 0;
+  return round2(Math.min(1, Math.max(overlap, prefix, dice)));
+}
+
+const days = (a: string, b: string) => Math.round((Date.parse(a.slice(0, 10)) - Date.parse(b.slice(0, 10))) / 86400000);
+
+function amountSignal(tx: CardTxnForMatch, r: ReceiptForMatch, fx: FxRates): { score: number; reason: string | null } {
+  const total = Number(r.total_amount);
+  if (!(total > 0) || !(tx.amount > 0)) return { score: 0, reason: null };
+  const cur = String(r.currency || tx.currency).toUpperCase();
+
+  if (cur === tx.currency.toUpperCase()) {
+    if (Math.abs(tx.amount - total) <= TOLERANCE) return { score: 1, reason: "exact amount" };
+    if (tx.amount > total && tx.amount <= total * (1 + TIP_TOLERANCE)) return { score: 0.6, reason: "amount incl. tip" };
+    return { score: 0, reason: null };
+  }
+  if (tx.original_amount !== null && tx.original_currency && cur === tx.original_currency.toUpperCase()) {
+    if (Math.abs(tx.original_amount - total) <= TOLERANCE) return { score: 1, reason: `exact ${cur} amount` };
+    if (tx.original_amount > total && tx.original_amount <= total * (1 + TIP_TOLERANCE)) return { score: 0.6, reason: `${cur} amount incl. tip` };
+  }
+  const converted = convert(total, cur, tx.currency, fx);
+  if (converted === null) return { score: 0, reason: null };
+  const diff = Math.abs(tx.amount - converted) / converted;
+  if (diff <= FX_TOLERANCE) return { score: 0.8, reason: `amount after ${cur}→${tx.currency} conversion` };
+  if (diff <= FX_TOLERANCE * 2) return { score: 0.4, reason: `approximate amount after ${cur}→${tx.currency} conversion` };
+  return { score: 0, reason: null };
+}
+
+function dateSignal(tx: CardTxnForMatch, r: ReceiptForMatch): number {
+  if (!r.invoice_date) return 0.4;
+  const d = days(tx.txn_date, r.invoice_date); // card date minus receipt date
+  if (d >= 0 && d <= 1) return 1;
+  if (d >= -1 && d <= 3) return 0.8; // pre-authorisation and settlement lag
+  if (d >= -3 && d <= 7) return 0.5;
+  if (Math.abs(d) <= 30) return 0.2;
+  return 0;
+}
+
+export function scoreReceipt(tx: CardTxnForMatch, r: ReceiptForMatch, fx: FxRates = {}) {
+  const amount = amountSignal(tx, r, fx);
+  const merchant = merchantSimilarity(tx.merchant, r.vendor_name);
+  const date = dateSignal(tx, r);
+  const signals: ReceiptSignals = { amount: amount.score, merchant, date };
+  const reasons = [
+    amount.reason,
+    merchant >= 0.5 ? `merchant "${tx.merchant}" ≈ "${r.vendor_name}"` : null,
+    date >= 0.8 ? "same date" : null,
+  ].filter((x): x is string => !!x);
+  // Without an amount fit the pair is never proposed, however similar the names are
+  const score = amount.score
+    ? round2(amount.score * RECEIPT_WEIGHTS.amount + merchant * RECEIPT_WEIGHTS.merchant + date * RECEIPT_WEIGHTS.date)
+    : 0;
+  return { score, signals, reasons };
+}
+
+/** Greedy one-to-one assignment, best pairs first; returns every pair at or above SUGGEST_MATCH_SCORE. */
+export function matchReceipts(args: { transactions: CardTxnForMatch[]; receipts: ReceiptForMatch[]; fx?: FxRates }): ReceiptMatch[] {
+  const fx = args.fx ?? {};
+  const pairs: ReceiptMatch[] = [];
+  for (const tx of args.transactions) {
+    for (const r of args.receipts) {
+      const s = scoreReceipt(tx, r, fx);
+      if (s.score >= SUGGEST_MATCH_SCORE) pairs.push({ transaction_id: tx.id, invoice_id: r.id, ...s });
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score);
+
+  const usedTx = new Set<string>();
+  const usedReceipts = new Set<string>();
+  const out: ReceiptMatch[] = [];
+  for (const p of pairs) {
+    if (usedTx.has(p.transaction_id) || usedReceipts.has(p.invoice_id)) continue;
+    usedTx.add(p.transaction_id);
+    usedReceipts.add(p.invoice_id);
+    out.push(p);
+  }
+  return out;
+}
@@ -0,0 +1,217 @@
+// supabase/functions/_shared/receiptTasks.ts
+// Missing-receipt workflow: card holder tasks for long-unmatched card spend and signed missing-receipt declarations.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { sha256 } from "./bankStatement.ts";
+
+type Db = ReturnType<typeof createClient>;
+type Row = Record<string, unknown>;
+
+const MAX_ROWS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days a card transaction may stay without a receipt before its holder gets a task (RECEIPT_TASK_AFTER_DAYS). */
+export function receiptTaskAfterDays(): number {
+  const n = Number(Deno.env.get("RECEIPT_TASK_AFTER_DAYS") ?? "");
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : 7;
+}
+export const RECEIPT_TASK_DUE_DAYS = 7;
+
+export type TaskResolution = "receipt" | "declaration" | "not_required";
+
+export type DeclarationInput = {
+  businessPurpose: string;
+  reason: string;
+  signatureName: string;
+  userAgent?: string | null;
+};
+
+const isoDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+/** Owner (importer) and card holder may both resolve a transaction's receipt. */
+export const canActOnTransaction = (tx: Row, userId: string) => tx.user_id === userId || tx.card_holder_id === userId;
+
+/**
+ * Opens one task per transaction that has been without receipt or declaration for `afterDays`,
+ * assigned to the card holder (the importer when the holder has no account), and notifies each assignee once.
+ * Without `userId` every user's transactions are scanned (scheduled run with the service role).
+ */
+export async function createReceiptTasks(supabase: Db, opts: { userId?: string; afterDays?: number } = {}) {
+  const afterDays = opts.afterDays ?? receiptTaskAfterDays();
+  let query = supabase
+    .from("card_transactions")
+    .select("id,user_id,card_holder_id,txn_date,merchant,amount,currency")
+    .is("matched_invoice_id", null)
+    .is("declaration_id", null)
+    .eq("receipt_required", true)
+    .gt("amount", 0)
+    .lte("txn_date", isoDate(Date.now() - afterDays * DAY_MS))
+    .order("txn_date", { ascending: true })
+    .limit(MAX_ROWS);
+  if (opts.userId) query = query.eq("user_id", opts.userId);
+  const { data: rows, error } = await query;
+  if (error) throw new Error(error.message);
+  if (!rows?.length) return { created: 0, assignees: 0 };
+
+  const { data: existing, error: exErr } = await supabase
+    .from("card_receipt_tasks")
+    .select("card_transaction_id")
+    .in("card_transaction_id", rows.map((r: Row) => r.id));
+  if (exErr) throw new Error(exErr.message);
+  const hasTask = new Set((existing || []).map((t: Row) => String(t.card_transaction_id)));
+
+  const fresh = rows.filter((r: Row) => !hasTask.has(String(r.id)));
+  if (!fresh.length) return { created: 0, assignees: 0 };
+
+  const dueDate = isoDate(Date.now() + RECEIPT_TASK_DUE_DAYS * DAY_MS);
+  const { data: created, error: insErr } = await supabase
+    .from("card_receipt_tasks")
+    .upsert(
+      fresh.map((r: Row) => ({
+        user_id: r.user_id,
+        assignee_id: r.card_holder_id || r.user_id,
+        card_transaction_id: r.id,
+        due_date: dueDate,
+      })),
+      { onConflict: "card_transaction_id", ignoreDuplicates: true },
+    )
+    .select("card_transaction_id,assignee_id,user_id");
+  if (insErr) throw new Error(insErr.message);
+
+  const byId = new Map(fresh.map((r: Row) => [String(r.id), r]));
+  const byAssignee = new Map<string, Row[]>();
+  for (const t of created || []) {
+    const key = `${t.assignee_id}|${t.user_id}`;
+    byAssignee.set(key, [...(byAssignee.get(key) ?? []), byId.get(String(t.card_transaction_id)) as Row]);
+  }
+
+  for (const [key, txs] of byAssignee) {
+    const [assignee, owner] = key.split("|");
+    const lines = txs
+      .slice(0, 10)
+      .map((t) => `${t.txn_date} ${t.merchant || "Unknown merchant"} ${Number(t.amount).toFixed(2)} ${t.currency || ""}`.trim());
+    await supabase.from("notifications").insert({
+      user_id: assignee,
+      created_by: owner,
+      kind: "card_receipt_task",
+      title: `Receipt task: ${txs.length} card transaction(s) due by ${dueDate}`,
+      body:
+        lines.join("\n") +
+        (txs.length > lines.length ? `\n… and ${txs.length - lines.length} more` : "") +
+        "\nUpload the receipt or sign a missing-receipt declaration.",
+      link: "/dashboard/cards",
+      entity_type: txs.length === 1 ? "card_transaction" : null,
+      entity_id: txs.length === 1 ? txs[0].id : null,
+    });
+  }
+
+  const owners = new Set((created || []).map((t: Row) => String(t.user_id)));
+  for (const owner of owners) {
+    try {
+      await supabase.from("audit_logs").insert({
+        user_id: owner,
+        step: "card_receipt_tasks_created",
+        payload: {
+          after_days: afterDays,
+          due_date: dueDate,
+          card_transaction_ids: (created || []).filter((t: Row) => t.user_id === owner).map((t: Row) => t.card_transaction_id),
+        },
+      });
+    } catch {
+      // ignore
+    }
+  }
+  return { created: created?.length ?? 0, assignees: byAssignee.size };
+}
+
+/** Completes the open tasks of these transactions; no-op for transactions without a task. */
+export async function completeReceiptTasks(supabase: Db, transactionIds: string[], resolution: TaskResolution, resolvedBy: string) {
+  if (!transactionIds.length) return;
+  const { error } = await supabase
+    .from("card_receipt_tasks")
+    .update({ status: "completed", resolution, resolved_by: resolvedBy, resolved_at: new Date().toISOString() })
+    .in("card_transaction_id", transactionIds)
+    .eq("status", "open");
+  if (error) throw new Error(error.message);
+}
+
+/** The exact text the card holder signs; its hash is stored with the declaration. */
+export function declarationStatement(tx: Row, input: DeclarationInput, signer: { id: string; signedAt: string }): string {
+  return [
+    "MISSING RECEIPT DECLARATION",
+    `Transaction: ${tx.id}`,
+    `Date: ${tx.txn_date ?? "unknown"}`,
+    `Merchant: ${tx.merchant || "unknown"}`,
+    `Amount: ${Number(tx.amount).toFixed(2)} ${tx.currency || "EUR"}`,
+    `Card: ${tx.card_last4 ? `**** ${tx.card_last4}` : "unknown"}`,
+    `Business purpose: ${input.businessPurpose.trim()}`,
+    `Reason the receipt is missing: ${input.reason.trim()}`,
+    "I declare that this expense was incurred for business purposes, that no receipt can be obtained,",
+    "and that it has not been and will not be claimed elsewhere.",
+    `Signed: ${input.signatureName.trim()} (${signer.id}) at ${signer.signedAt}`,
+  ].join("\n");
+}
+
+/**
+ * Records a signed declaration for a transaction that has no receipt and closes its task.
+ * Declarations are append-only; the transaction then no longer counts as missing a receipt.
+ */
+export async function submitDeclaration(supabase: Db, userId: string, transactionId: string, input: DeclarationInput) {
+  if (!input.businessPurpose?.trim()) throw new Error("Business purpose is required");
+  if (!input.reason?.trim()) throw new Error("Reason is required");
+  if (!input.signatureName?.trim()) throw new Error("Signature (full name) is required");
+
+  const { data: tx, error: txErr } = await supabase.from("card_transactions").select("*").eq("id", transactionId).maybeSingle();
+  if (txErr) throw new Error(txErr.message);
+  if (!tx || !canActOnTransaction(tx, userId)) throw new Error("Card transaction not found");
+  if (tx.matched_invoice_id) throw new Error("Card transaction already has a receipt");
+  if (tx.declaration_id) throw new Error("A missing-receipt declaration was already submitted for this transaction");
+
+  const signedAt = new Date().toISOString();
+  const statement = declarationStatement(tx, input, { id: userId, signedAt });
+  const { data: declaration, error } = await supabase
+    .from("missing_receipt_declarations")
+    .insert({
+      card_transaction_id: tx.id,
+      user_id: tx.user_id,
+      declared_by: userId,
+      txn_date: tx.txn_date,
+      merchant: tx.merchant,
+      amount: tx.amount,
+      currency: tx.currency || "EUR",
+      business_purpose: input.businessPurpose.trim(),
+      reason: input.reason.trim(),
+      statement,
+      signature_name: input.signatureName.trim(),
+      signature_hash: await sha256(statement),
+      signed_at: signedAt,
+      user_agent: input.userAgent ?? null,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.code === "23505" ? "A missing-receipt declaration was already submitted for this transaction" : error.message);
+
+  const { error: updErr } = await supabase
+    .from("card_transactions")
+    .update({ declaration_id: declaration.id, suggested_invoice_id: null, match_score: null, match_reasons: null })
+    .eq("id", tx.id);
+  if (updErr) throw new Error(updErr.message);
+  await completeReceiptTasks(supabase, [String(tx.id)], "declaration", userId);
+
+  try {
+    await supabase.from("audit_logs").insert({
+      user_id: userId,
+      step: "missing_receipt_declared",
+      payload: {
+        card_transaction_id: tx.id,
+        declaration_id: declaration.id,
+        owner_id: tx.user_id,
+        amount: tx.amount,
+        currency: tx.currency,
+        signature_hash: declaration.signature_hash,
+      },
+    });
+  } catch {
+    // ignore
+  }
+  return declaration;
+}
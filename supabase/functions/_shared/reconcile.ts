@@ -0,0 +1,312 @@
+// supabase/functions/_shared/reconcile.ts
+// Invoice ↔ bank transaction matching: scores candidates on amount (FX-tolerant), references in
+// the remittance text, counterparty and date, and finds combined (one-to-many), split
+// (many-to-one) and partial payments.
+import { round2 } from "./amounts.ts";
+
+export type ReconInvoice = {
+  id: string;
+  vendor_name: string | null;
+  invoice_number: string | null;
+  payment_reference: string | null;
+  iban: string | null;
+  currency: string;
+  open_amount: number; // total minus what earlier confirmed matches already cleared
+  invoice_date: string | null;
+  due_date: string | null;
+  direction: string | null; // incoming invoices are paid by debits, outgoing ones by credits
+  discount_percent?: number | null;
+  discount_due_date?: string | null;
+  end_to_end_ids?: string[]; // from payment runs
+};
+
+export type ReconTransaction = {
+  id: string;
+  booking_date: string;
+  amount: number; // signed open amount
+  currency: string;
+  counterparty_name: string | null;
+  counterparty_iban: string | null;
+  remittance: string | null;
+  end_to_end_id: string | null;
+};
+
+export type FxRates = Record<string, number>; // 1 EUR = rate × currency
+
+export type MatchSignals = { amount: number; reference: number; counterparty: number; date: number };
+
+export type ReconAllocation = {
+  transaction_id: string;
+  invoice_id: string;
+  amount: number; // taken from the transaction, transaction currency
+  invoice_amount: number; // cleared on the invoice, invoice currency
+};
+
+export type ReconMatch = {
+  kind: "one_to_one" | "one_to_many" | "many_to_one" | "partial";
+  transaction_ids: string[];
+  invoice_ids: string[];
+  allocations: ReconAllocation[];
+  score: number;
+  signals: MatchSignals;
+  reasons: string[];
+  auto: boolean; // safe to confirm without review
+};
+
+export const WEIGHTS: MatchSignals = { amount: 0.4, reference: 0.3, counterparty: 0.2, date: 0.1 };
+export const AUTO_CONFIRM_SCORE = 0.9;
+export const SUGGEST_SCORE = 0.45;
+
+const TOLERANCE = 0.01;
+const FX_TOLERANCE = 0.03; // rate differences and conversion spread between invoice and booking day
+const MAX_COMBINATION = 6;
+
+const norm = (s: string | null | undefined) =>
+  String(s || "")
+    .toUpperCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Z0-9]/g, "");
+
+const LEGAL_FORMS = new Set(["gmbh", "ag", "kg", "ohg", "ug", "ltd", "limited", "llc", "inc", "corp", "co", "plc", "sa", "sarl", "sas", "bv", "nv", "srl", "spa", "ab", "oy", "as", "the", "und", "and", "e", "k"]);
+
+const nameTokens = (s: string | null | undefined) =>
+  new Set(
+    String(s || "")
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length > 1 && !LEGAL_FORMS.has(t)),
+  );
+
+const days = (a: string, b: string) => Math.round((Date.parse(a.slice(0, 10)) - Date.parse(b.slice(0, 10))) / 86400000);
+
+export function convert(amount: number, from: string, to: string, fx: FxRates): number | null {
+  const f = from.toUpperCase();
+  const t = to.toUpperCase();
+  if (f === t) return amount;
+  const rf = f === "EUR" ? 1 : Number(fx[f]);
+  const rt = t === "EUR" ? 1 : Number(fx[t]);
+  if (!(rf > 0) || !(rt > 0)) return null;
+  return (amount / rf) * rt;
+}
+
+const directionFits = (tx: ReconTransaction, inv: ReconInvoice) =>
+  inv.direction === "incoming" ? tx.amount < 0 : inv.direction === "outgoing" ? tx.amount > 0 : true;
+
+/** Amount the transaction should show for the invoice: open amount, or the discounted one in time. */
+function targets(inv: ReconInvoice, bookingDate: string): { amount: number; label: string }[] {
+  const out = [{ amount: inv.open_amount, label: "exact amount" }];
+  if (inv.discount_percent && inv.discount_due_date && days(bookingDate, inv.discount_due_date) <= 3) {
+    out.push({ amount: round2(inv.open_amount * (1 - inv.discount_percent / 100)), label: `amount less ${inv.discount_percent}% discount` });
+  }
+  return out;
+}
+
+function amountSignal(tx: ReconTransaction, inv: ReconInvoice, fx: FxRates): { score: number; reason: string | null } {
+  const paid = Math.abs(tx.amount);
+  let best = { score: 0, reason: null as string | null };
+  for (const t of targets(inv, tx.booking_date)) {
+    const expected = convert(t.amount, inv.currency, tx.currency, fx);
+    if (expected === null || expected <= 0) continue;
+    const diff = Math.abs(paid - expected);
+    const sameCcy = inv.currency.toUpperCase() === tx.currency.toUpperCase();
+    let s = 0;
+    let reason = "";
+    if (sameCcy && diff <= TOLERANCE) [s, reason] = [1, t.label];
+    else if (sameCcy && paid < expected && (diff <= 1 || diff / expected <= 0.005)) [s, reason] = [0.8, `${t.label} minus ${diff.toFixed(2)} bank charges`];
+    else if (!sameCcy && diff / expected <= FX_TOLERANCE) [s, reason] = [0.7, `${t.label} after FX (${inv.currency}→${tx.currency}, ${((diff / expected) * 100).toFixed(1)}% off)`];
+    if (s > best.score) best = { score: s, reason };
+  }
+  return best;
+}
+
+function referenceSignal(tx: ReconTransaction, inv: ReconInvoice): { score: number; reason: string | null } {
+  if (tx.end_to_end_id && (inv.end_to_end_ids || []).includes(tx.end_to_end_id)) return { score: 1, reason: "end-to-end ID of our payment" };
+  const remittance = norm(`${tx.remittance || ""} ${tx.end_to_end_id || ""}`);
+  const ref = norm(inv.payment_reference);
+  if (ref.length >= 4 && remittance.includes(ref)) return { score: 1, reason: `payment reference ${inv.payment_reference}` };
+  const no = norm(inv.invoice_number);
+  if (!no) return { score: 0, reason: null };
+  if (/\D/.test(no) && no.length >= 4 && remittance.includes(no)) return { score: 1, reason: `invoice number ${inv.invoice_number}` };
+  // Purely numeric invoice numbers must appear as a whole token, not inside other digits
+  const tokens = String(tx.remittance || "").toUpperCase().split(/[^A-Z0-9]+/).map((t) => t.replace(/^0+/, ""));
+  if (no.length >= 3 && tokens.includes(no.replace(/^0+/, ""))) return { score: 0.9, reason: `invoice number ${inv.invoice_number}` };
+  return { score: 0, reason: null };
+}
+
+function counterpartySignal(tx: ReconTransaction, inv: ReconInvoice): { score: number; reason: string | null } {
+  if (tx.counterparty_iban && inv.iban && norm(tx.counterparty_iban) === norm(inv.iban)) return { score: 1, reason: "counterparty IBAN" };
+  const a = nameTokens(tx.counterparty_name || "");
+  const b = nameTokens(inv.vendor_name);
+  if (!a.size || !b.size) return { score: 0, reason: null };
+  const overlap = [...a].filter((t) => b.has(t)).length / Math.min(a.size, b.size);
+  if (overlap >= 1) return { score: 0.8, reason: `counterparty name "${tx.counterparty_name}"` };
+  return { score: round2(overlap * 0.6), reason: overlap ? `partial name match "${tx.counterparty_name}"` : null };
+}
+
+function dateSignal(tx: ReconTransaction, inv: ReconInvoice): number {
+  if (inv.invoice_date && days(tx.booking_date, inv.invoice_date) < -3) return 0.1; // paid before it was issued
+  const ref = inv.due_date || inv.invoice_date;
+  if (!ref) return 0.5;
+  const d = Math.abs(days(tx.booking_date, ref));
+  return d <= 3 ? 1 : d <= 10 ? 0.8 : d <= 30 ? 0.6 : d <= 60 ? 0.3 : 0.1;
+}
+
+const weighted = (s: MatchSignals) =>
+  round2(s.amount * WEIGHTS.amount + s.reference * WEIGHTS.reference + s.counterparty * WEIGHTS.counterparty + s.date * WEIGHTS.date);
+
+export function scorePair(tx: ReconTransaction, inv: ReconInvoice, fx: FxRates = {}) {
+  const amount = amountSignal(tx, inv, fx);
+  const reference = referenceSignal(tx, inv);
+  const counterparty = counterpartySignal(tx, inv);
+  const signals: MatchSignals = { amount: amount.score, reference: reference.score, counterparty: counterparty.score, date: dateSignal(tx, inv) };
+  return {
+    signals,
+    score: weighted(signals),
+    reasons: [amount.reason, reference.reason, counterparty.reason].filter((r): r is string => !!r),
+  };
+}
+
+const average = (xs: number[]) => (xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : 0);
+
+function averageSignals(list: MatchSignals[], amount: number): MatchSignals {
+  return {
+    amount,
+    reference: round2(average(list.map((s) => s.reference))),
+    counterparty: round2(average(list.map((s) => s.counterparty))),
+    date: round2(average(list.map((s) => s.date))),
+  };
+}
+
+/** Smallest subset (up to MAX_COMBINATION items) whose values add up to `target`. */
+function subsetSum<T>(items: T[], value: (t: T) => number, target: number): T[] | null {
+  const pool = items.slice(0, 14);
+  let best: T[] | null = null;
+  for (let mask = 1; mask < 1 << pool.length; mask++) {
+    const size = mask.toString(2).replace(/0/g, "").length;
+    if (size < 2 || size > MAX_COMBINATION || (best && size >= best.length)) continue;
+    const picked = pool.filter((_, i) => mask & (1 << i));
+    if (Math.abs(picked.reduce((s, t) => s + value(t), 0) - target) <= TOLERANCE) best = picked;
+  }
+  return best;
+}
+
+export function reconcile(args: {
+  transactions: ReconTransaction[];
+  invoices: ReconInvoice[];
+  fx?: FxRates;
+  rejected?: Set<string>; // "transactionId|invoiceId" pairs a reviewer already turned down
+}): ReconMatch[] {
+  const fx = args.fx ?? {};
+  const rejected = args.rejected ?? new Set<string>();
+  const txs = args.transactions.filter((t) => Math.abs(t.amount) > TOLERANCE);
+  const invoices = args.invoices.filter((i) => i.open_amount > TOLERANCE);
+  const matches: ReconMatch[] = [];
+  const usedTx = new Set<string>();
+  const usedInv = new Set<string>();
+
+  // 1) One-to-one, best pairs first
+  const pairs = txs.flatMap((tx) =>
+    invoices.filter((inv) => directionFits(tx, inv) && !rejected.has(`${tx.id}|${inv.id}`)).map((inv) => ({ tx, inv, ...scorePair(tx, inv, fx) })),
+  );
+  const candidates = pairs.filter((p) => p.signals.amount > 0 && p.score >= SUGGEST_SCORE).sort((a, b) => b.score - a.score);
+  for (const p of candidates) {
+    if (usedTx.has(p.tx.id) || usedInv.has(p.inv.id)) continue;
+    // Only confirm automatically when nothing else comes close for either side
+    const rival = candidates.find(
+      (q) => q !== p && (q.tx.id === p.tx.id || q.inv.id === p.inv.id) && q.score > p.score - 0.15 && !usedTx.has(q.tx.id) && !usedInv.has(q.inv.id),
+    );
+    const strongId = p.signals.reference >= 0.9 || p.signals.counterparty === 1;
+    usedTx.add(p.tx.id);
+    usedInv.add(p.inv.id);
+    matches.push({
+      kind: "one_to_one",
+      transaction_ids: [p.tx.id],
+      invoice_ids: [p.inv.id],
+      allocations: [{ transaction_id: p.tx.id, invoice_id: p.inv.id, amount: Math.abs(p.tx.amount), invoice_amount: p.inv.open_amount }],
+      score: p.score,
+      signals: p.signals,
+      reasons: p.reasons,
+      auto: p.score >= AUTO_CONFIRM_SCORE && p.signals.amount >= 0.8 && strongId && !rival,
+    });
+  }
+
+  const related = (tx: ReconTransaction, inv: ReconInvoice) => {
+    const p = pairs.find((x) => x.tx.id === tx.id && x.inv.id === inv.id);
+    return p && (p.signals.reference >= 0.9 || p.signals.counterparty >= 0.6) ? p : null;
+  };
+
+  // 2) One transaction settling several invoices of the same counterparty (combined payment)
+  for (const tx of txs) {
+    if (usedTx.has(tx.id)) continue;
+    const paid = Math.abs(tx.amount);
+    const open = invoices
+      .filter((inv) => !usedInv.has(inv.id) && directionFits(tx, inv) && inv.currency.toUpperCase() === tx.currency.toUpperCase())
+      .map((inv) => ({ inv, pair: related(tx, inv) }))
+      .filter((x): x is { inv: ReconInvoice; pair: NonNullable<ReturnType<typeof related>> } => !!x.pair && x.inv.open_amount < paid)
+      .sort((a, b) => b.pair.signals.reference - a.pair.signals.reference);
+    const subset = subsetSum(open, (x) => x.inv.open_amount, paid);
+    if (!subset) continue;
+    const signals = averageSignals(subset.map((x) => x.pair.signals), 1);
+    subset.forEach((x) => usedInv.add(x.inv.id));
+    usedTx.add(tx.id);
+    matches.push({
+      kind: "one_to_many",
+      transaction_ids: [tx.id],
+      invoice_ids: subset.map((x) => x.inv.id),
+      allocations: subset.map((x) => ({ transaction_id: tx.id, invoice_id: x.inv.id, amount: x.inv.open_amount, invoice_amount: x.inv.open_amount })),
+      score: weighted(signals),
+      signals,
+      reasons: [`${subset.length} invoices add up to ${paid.toFixed(2)} ${tx.currency}`, ...new Set(subset.flatMap((x) => x.pair.reasons))],
+      auto: false,
+    });
+  }
+
+  // 3) Several transactions settling one invoice (instalments / split payments)
+  for (const inv of invoices) {
+    if (usedInv.has(inv.id)) continue;
+    const open = txs
+      .filter((tx) => !usedTx.has(tx.id) && directionFits(tx, inv) && inv.currency.toUpperCase() === tx.currency.toUpperCase())
+      .map((tx) => ({ tx, pair: related(tx, inv) }))
+      .filter((x): x is { tx: ReconTransaction; pair: NonNullable<ReturnType<typeof related>> } => !!x.pair && Math.abs(x.tx.amount) < inv.open_amount);
+    const subset = subsetSum(open, (x) => Math.abs(x.tx.amount), inv.open_amount);
+    if (!subset) continue;
+    const signals = averageSignals(subset.map((x) => x.pair.signals), 1);
+    subset.forEach((x) => usedTx.add(x.tx.id));
+    usedInv.add(inv.id);
+    matches.push({
+      kind: "many_to_one",
+      transaction_ids: subset.map((x) => x.tx.id),
+      invoice_ids: [inv.id],
+      allocations: subset.map((x) => ({ transaction_id: x.tx.id, invoice_id: inv.id, amount: Math.abs(x.tx.amount), invoice_amount: Math.abs(x.tx.amount) })),
+      score: weighted(signals),
+      signals,
+      reasons: [`${subset.length} payments add up to ${inv.open_amount.toFixed(2)} ${inv.currency}`, ...new Set(subset.flatMap((x) => x.pair.reasons))],
+      auto: false,
+    });
+  }
+
+  // 4) Partial payments: a referenced transaction for less than the open amount
+  for (const p of pairs.filter((x) => x.signals.reference >= 0.9).sort((a, b) => b.score - a.score)) {
+    if (usedTx.has(p.tx.id) || usedInv.has(p.inv.id)) continue;
+    if (p.tx.currency.toUpperCase() !== p.inv.currency.toUpperCase() || Math.abs(p.tx.amount) >= p.inv.open_amount) continue;
+    const paid = Math.abs(p.tx.amount);
+    const signals = { ...p.signals, amount: 0.5 };
+    usedTx.add(p.tx.id);
+    usedInv.add(p.inv.id);
+    matches.push({
+      kind: "partial",
+      transaction_ids: [p.tx.id],
+      invoice_ids: [p.inv.id],
+      allocations: [{ transaction_id: p.tx.id, invoice_id: p.inv.id, amount: paid, invoice_amount: paid }],
+      score: weighted(signals),
+      signals,
+      reasons: [`partial payment ${paid.toFixed(2)} of ${p.inv.open_amount.toFixed(2)} ${p.inv.currency}`, ...p.reasons],
+      auto: false,
+    });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
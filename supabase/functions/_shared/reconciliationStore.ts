@@ -0,0 +1,308 @@
+// supabase/functions/_shared/reconciliationStore.ts
+// Persists reconciliation: refreshes suggested matches from open transactions/invoices, and
+// confirming a match books the allocations and marks fully settled invoices paid.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { round2 } from "./amounts.ts";
+import { canTransition, invoicePaymentUpdate, isPaymentStatus, transitionPath, type PaymentStatus } from "./paymentStatus.ts";
+import { reconcile, type FxRates, type ReconInvoice, type ReconMatch, type ReconTransaction } from "./reconcile.ts";
+
+type Db = ReturnType<typeof createClient>;
+type Row = Record<string, unknown>;
+
+const TOLERANCE = 0.01;
+const MAX_ROWS = 1000;
+
+export type ReconciliationRun = { suggested: number; auto_confirmed: number; matches: ReconMatch[] };
+
+// Reconciliation covers the organization's transactions, invoices and payments; `userId` is who acts
+export type ReconScope = { userId: string; organizationId: string };
+
+export async function runReconciliation(supabase: Db, scope: ReconScope, opts: { fx?: FxRates } = {}): Promise<ReconciliationRun> {
+  const { userId, organizationId } = scope;
+  // Suggestions are recomputed from scratch; confirmed and rejected decisions are kept
+  await supabase.from("reconciliation_matches").delete().eq("organization_id", organizationId).eq("status", "suggested");
+  await supabase.from("bank_transactions").update({ reconciliation_status: "unmatched" }).eq("organization_id", organizationId).eq("reconciliation_status", "suggested");
+
+  const { data: txRows, error: txErr } = await supabase
+    .from("bank_transactions")
+    .select("id,booking_date,amount,reconciled_amount,currency,counterparty_name,counterparty_iban,remittance,end_to_end_id")
+    .eq("organization_id", organizationId)
+    .in("reconciliation_status", ["unmatched", "partial"])
+    .order("booking_date", { ascending: false })
+    .limit(MAX_ROWS);
+  if (txErr) throw new Error(txErr.message);
+
+  const { data: invRows, error: invErr } = await supabase
+    .from("invoices")
+    .select("id,vendor_name,invoice_number,payment_reference,iban,currency,total_amount,paid_amount,invoice_date,due_date,direction,discount_percent,discount_due_date,payment_status")
+    .eq("organization_id", organizationId)
+    .or("reconciliation_status.is.null,reconciliation_status.eq.partial")
+    .or("approval.is.null,approval.neq.fail")
+    .order("created_at", { ascending: false })
+    .limit(MAX_ROWS);
+  if (invErr) throw new Error(invErr.message);
+
+  const invoiceIds = (invRows || []).map((i: Row) => String(i.id));
+  const { data: payRows } = invoiceIds.length
+    ? await supabase.from("payments").select("invoice_id,end_to_end_id").eq("organization_id", organizationId).in("invoice_id", invoiceIds)
+    : { data: [] as Row[] };
+  const e2eByInvoice = new Map<string, string[]>();
+  for (const p of payRows || []) {
+    if (p.end_to_end_id) e2eByInvoice.set(String(p.invoice_id), [...(e2eByInvoice.get(String(p.invoice_id)) ?? []), String(p.end_to_end_id)]);
+  }
+
+  const { data: rejectedMatches } = await supabase.from("reconciliation_matches").select("id").eq("organization_id", organizationId).eq("status", "rejected").limit(MAX_ROWS);
+  const rejectedIds = (rejectedMatches || []).map((m: Row) => String(m.id));
+  const { data: rejectedAllocs } = rejectedIds.length
+    ? await supabase.from("reconciliation_allocations").select("transaction_id,invoice_id").in("match_id", rejectedIds)
+    : { data: [] as Row[] };
+
+  const transactions: ReconTransaction[] = (txRows || []).map((t: Row) => {
+    const amount = Number(t.amount);
+    const open = Math.max(0, Math.abs(amount) - Number(t.reconciled_amount ?? 0));
+    return {
+      id: String(t.id),
+      booking_date: String(t.booking_date),
+      amount: round2(Math.sign(amount) * open),
+      currency: String(t.currency || "EUR").toUpperCase(),
+      counterparty_name: (t.counterparty_name as string | null) ?? null,
+      counterparty_iban: (t.counterparty_iban as string | null) ?? null,
+      remittance: (t.remittance as string | null) ?? null,
+      end_to_end_id: (t.end_to_end_id as string | null) ?? null,
+    };
+  });
+
+  const invoices: ReconInvoice[] = (invRows || [])
+    .filter((i: Row) => i.payment_status !== "canceled")
+    .map((i: Row) => ({
+      id: String(i.id),
+      vendor_name: (i.vendor_name as string | null) ?? null,
+      invoice_number: (i.invoice_number as string | null) ?? null,
+      payment_reference: (i.payment_reference as string | null) ?? null,
+      iban: (i.iban as string | null) ?? null,
+      currency: String(i.currency || "EUR").toUpperCase(),
+      open_amount: round2(Number(i.total_amount ?? 0) - Number(i.paid_amount ?? 0)),
+      invoice_date: (i.invoice_date as string | null) ?? null,
+      due_date: (i.due_date as string | null) ?? null,
+      direction: (i.direction as string | null) ?? null,
+      discount_percent: i.discount_percent === null ? null : Number(i.discount_percent),
+      discount_due_date: (i.discount_due_date as string | null) ?? null,
+      end_to_end_ids: e2eByInvoice.get(String(i.id)) ?? [],
+    }));
+
+  const matches = reconcile({
+    transactions,
+    invoices,
+    fx: opts.fx,
+    rejected: new Set((rejectedAllocs || []).map((a: Row) => `${a.transaction_id}|${a.invoice_id}`)),
+  });
+
+  let autoConfirmed = 0;
+  for (const m of matches) {
+    const { data: row, error } = await supabase
+      .from("reconciliation_matches")
+      .insert({ user_id: userId, organization_id: organizationId, kind: m.kind, status: "suggested", score: m.score, signals: m.signals, reasons: m.reasons, auto: m.auto })
+      .select("id")
+      .single();
+    if (error || !row) throw new Error(error?.message || "Could not store reconciliation match");
+
+    const { error: allocErr } = await supabase
+      .from("reconciliation_allocations")
+      .insert(m.allocations.map((a) => ({ ...a, match_id: row.id, user_id: userId, organization_id: organizationId })));
+    if (allocErr) throw new Error(allocErr.message);
+
+    const blocked = m.auto ? await settlementBlocker(supabase, organizationId, String(row.id)) : null;
+    if (m.auto && !blocked) {
+      await confirmMatch(supabase, scope, String(row.id), { auto: true });
+      autoConfirmed++;
+    } else {
+      if (blocked) await supabase.from("reconciliation_matches").update({ auto: false, reasons: [...m.reasons, blocked] }).eq("id", row.id);
+      await supabase.from("bank_transactions").update({ reconciliation_status: "suggested" }).in("id", m.transaction_ids).eq("reconciliation_status", "unmatched");
+    }
+  }
+
+  return { suggested: matches.length - autoConfirmed, auto_confirmed: autoConfirmed, matches };
+}
+
+/**
+ * Why confirming the match would not be able to settle an invoice, or null. A payment that can no
+ * longer reach `paid` (canceled) needs a person to look at it before the money is booked against it.
+ */
+export async function settlementBlocker(supabase: Db, organizationId: string, matchId: string): Promise<string | null> {
+  const { data: allocations, error } = await supabase.from("reconciliation_allocations").select("invoice_id,invoice_amount").eq("match_id", matchId);
+  if (error) throw new Error(error.message);
+  const invIds = [...new Set((allocations || []).map((a: Row) => String(a.invoice_id)))];
+  if (!invIds.length) return null;
+
+  const { data: invs } = await supabase.from("invoices").select("id,invoice_number,total_amount,paid_amount").in("id", invIds);
+  const settling = (invs || []).filter((inv: Row) => {
+    const added = (allocations || []).filter((a: Row) => a.invoice_id === inv.id).reduce((s: number, a: Row) => s + Number(a.invoice_amount), 0);
+    return round2(Number(inv.paid_amount ?? 0) + added) >= Number(inv.total_amount ?? 0) - TOLERANCE;
+  });
+  if (!settling.length) return null;
+
+  const { data: payments } = await supabase
+    .from("payments")
+    .select("invoice_id,status")
+    .eq("organization_id", organizationId)
+    .in("invoice_id", settling.map((i: Row) => String(i.id)));
+  for (const p of payments || []) {
+    if (p.status === "paid" || (isPaymentStatus(p.status) && transitionPath(p.status, "paid"))) continue;
+    const inv = settling.find((i: Row) => i.id === p.invoice_id);
+    return `Payment for invoice ${inv?.invoice_number || p.invoice_id} is ${p.status} and cannot be settled`;
+  }
+  return null;
+}
+
+/**
+ * Walks the payment through legal transitions to `paid`, creating the payment if there is none, and
+ * marks the invoice paid. Returns false, leaving the invoice as it is, when the payment cannot get there.
+ */
+async function settlePayment(supabase: Db, scope: ReconScope, invoice: Row, paidAt: string, matchId: string): Promise<boolean> {
+  const { userId, organizationId } = scope;
+  const now = new Date().toISOString();
+  const reason = "Settled by bank reconciliation";
+  const { data: payment, error } = await supabase.from("payments").select("id,status").eq("organization_id", organizationId).eq("invoice_id", invoice.id).maybeSingle();
+  if (error) return false;
+
+  if (!payment) {
+    const { data: created, error: insErr } = await supabase
+      .from("payments")
+      .insert({
+        user_id: userId,
+        organization_id: organizationId,
+        invoice_id: invoice.id,
+        amount: invoice.total_amount,
+        currency: invoice.currency,
+        status: "paid",
+        status_changed_at: now,
+        provider: "bank_reconciliation",
+      })
+      .select("id")
+      .single();
+    if (insErr || !created) return false;
+    await supabase.from("payment_events").insert({
+      payment_id: created.id,
+      invoice_id: invoice.id,
+      user_id: userId,
+      organization_id: organizationId,
+      actor_id: userId,
+      from_status: null,
+      to_status: "paid",
+      reason,
+      metadata: { match_id: matchId },
+    });
+  } else if (payment.status !== "paid") {
+    if (!isPaymentStatus(payment.status)) return false;
+    let from: PaymentStatus = payment.status;
+    const path = transitionPath(from, "paid");
+    if (!path) return false;
+    for (const to of path) {
+      if (!canTransition(from, to)) return false;
+      const { data: moved, error: upErr } = await supabase
+        .from("payments")
+        .update({ status: to, status_changed_at: now, updated_at: now })
+        .eq("id", payment.id)
+        .eq("status", from)
+        .select("id")
+        .maybeSingle();
+      // Someone else moved the payment in the meantime
+      if (upErr || !moved) return false;
+      await supabase.from("payment_events").insert({
+        payment_id: payment.id,
+        invoice_id: invoice.id,
+        user_id: userId,
+        organization_id: organizationId,
+        actor_id: userId,
+        from_status: from,
+        to_status: to,
+        reason,
+        metadata: { match_id: matchId },
+      });
+      from = to;
+    }
+  }
+
+  const { error: invErr } = await supabase.from("invoices").update({ ...invoicePaymentUpdate("paid", paidAt), updated_at: now }).eq("id", invoice.id);
+  return !invErr;
+}
+
+export async function confirmMatch(supabase: Db, scope: ReconScope, matchId: string, opts: { auto?: boolean } = {}) {
+  const { userId, organizationId } = scope;
+  const now = new Date().toISOString();
+  // Claim the suggestion first so a double click cannot book it twice
+  const { data: match, error } = await supabase
+    .from("reconciliation_matches")
+    .update({ status: "confirmed", decided_by: opts.auto ? null : userId, decided_at: now })
+    .eq("id", matchId)
+    .eq("organization_id", organizationId)
+    .eq("status", "suggested")
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!match) return null;
+
+  const { data: allocations, error: allocErr } = await supabase.from("reconciliation_allocations").select("*").eq("match_id", matchId);
+  if (allocErr) throw new Error(allocErr.message);
+
+  const txIds = [...new Set((allocations || []).map((a: Row) => String(a.transaction_id)))];
+  const invIds = [...new Set((allocations || []).map((a: Row) => String(a.invoice_id)))];
+  const { data: txs } = await supabase.from("bank_transactions").select("id,amount,reconciled_amount,booking_date").in("id", txIds);
+  const { data: invs } = await supabase.from("invoices").select("id,total_amount,paid_amount,currency").in("id", invIds);
+
+  let lastBooking = "";
+  for (const tx of txs || []) {
+    const added = (allocations || []).filter((a: Row) => a.transaction_id === tx.id).reduce((s: number, a: Row) => s + Number(a.amount), 0);
+    const reconciled = round2(Number(tx.reconciled_amount ?? 0) + added);
+    await supabase
+      .from("bank_transactions")
+      .update({ reconciled_amount: reconciled, reconciliation_status: reconciled >= Math.abs(Number(tx.amount)) - TOLERANCE ? "matched" : "partial" })
+      .eq("id", tx.id);
+    if (String(tx.booking_date) > lastBooking) lastBooking = String(tx.booking_date);
+  }
+
+  const unsettled: string[] = [];
+  for (const inv of invs || []) {
+    const added = (allocations || []).filter((a: Row) => a.invoice_id === inv.id).reduce((s: number, a: Row) => s + Number(a.invoice_amount), 0);
+    const paid = round2(Number(inv.paid_amount ?? 0) + added);
+    const settled = paid >= Number(inv.total_amount ?? 0) - TOLERANCE;
+    await supabase.from("invoices").update({ paid_amount: paid, reconciliation_status: settled ? "matched" : "partial" }).eq("id", inv.id);
+    if (settled && !(await settlePayment(supabase, scope, inv, lastBooking || now, matchId))) unsettled.push(String(inv.id));
+  }
+
+  try {
+    await supabase.from("audit_logs").insert(
+      invIds.map((invoiceId) => ({
+        user_id: userId,
+        invoice_id: invoiceId,
+        step: "reconciliation_confirmed",
+        payload: { match_id: matchId, kind: match.kind, score: match.score, auto: !!opts.auto, transaction_ids: txIds, payment_settled: !unsettled.includes(invoiceId) },
+      })),
+    );
+  } catch {
+    // ignore
+  }
+
+  return match;
+}
+
+export async function rejectMatch(supabase: Db, scope: ReconScope, matchId: string) {
+  const { userId, organizationId } = scope;
+  const { data: match, error } = await supabase
+    .from("reconciliation_matches")
+    .update({ status: "rejected", decided_by: userId, decided_at: new Date().toISOString() })
+    .eq("id", matchId)
+    .eq("organization_id", organizationId)
+    .eq("status", "suggested")
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!match) return null;
+
+  const { data: allocations } = await supabase.from("reconciliation_allocations").select("transaction_id").eq("match_id", matchId);
+  const txIds = (allocations || []).map((a: Row) => String(a.transaction_id));
+  if (txIds.length) {
+    await supabase.from("bank_transactions").update({ reconciliation_status: "unmatched" }).in("id", txIds).eq("reconciliation_status", "suggested");
+  }
+  return match;
+}
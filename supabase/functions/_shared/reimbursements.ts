@@ -0,0 +1,313 @@
+// supabase/functions/_shared/reimbursements.ts
+// Employee reimbursement claims: receipt, mileage and per-diem items converted into the claim's reimbursement currency,
+// submission to the submitter's manager, the manager decision and the finance payout file.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { round2 } from "./amounts.ts";
+import { convert, type FxRates } from "./reconcile.ts";
+import {
+  mileageAllowance,
+  perDiemAllowance,
+  type MileageInput,
+  type MileageRate,
+  type PerDiemInput,
+  type PerDiemRate,
+} from "./travelAllowances.ts";
+
+type Db = ReturnType<typeof createClient>;
+type Row = Record<string, unknown>;
+
+export type ClaimStage = "draft" | "submitted" | "needs_info" | "approved" | "rejected" | "exported" | "paid";
+export type ClaimDecision = "pass" | "fail" | "needs_info";
+
+/** Lifecycle on top of the approval_status enum: drafts are `pending` without submitted_at. */
+export function claimStage(c: Row): ClaimStage {
+  if (c.paid_at) return "paid";
+  if (c.exported_at) return "exported";
+  if (c.status === "pass") return "approved";
+  if (c.status === "fail") return "rejected";
+  if (c.status === "needs_info") return "needs_info";
+  return c.submitted_at ? "submitted" : "draft";
+}
+
+export const isEditable = (c: Row) => ["draft", "needs_info"].includes(claimStage(c));
+
+/** Amount of an item in the claim currency; null when no rate is known for the pair. */
+export function convertItem(amount: number, currency: string, claimCurrency: string, fx: FxRates) {
+  const rate = convert(1, currency, claimCurrency, fx);
+  if (rate === null) return null;
+  return { fx_rate: Math.round(rate * 1e6) / 1e6, converted_amount: round2(amount * rate) };
+}
+
+async function loadClaim(supabase: Db, claimId: string) {
+  const { data, error } = await supabase.from("reimbursements").select("*").eq("id", claimId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Claim not found");
+  return data;
+}
+
+async function loadEditableClaim(supabase: Db, userId: string, claimId: string) {
+  const claim = await loadClaim(supabase, claimId);
+  if (claim.user_id !== userId) throw new Error("Claim not found");
+  if (!isEditable(claim)) throw new Error("Only draft claims or claims returned for information can be changed");
+  return claim;
+}
+
+/** Re-converts every item into the claim currency and stores the claim total. */
+export async function recalculateClaim(supabase: Db, claimId: string, fx: FxRates) {
+  const claim = await loadClaim(supabase, claimId);
+  const claimCurrency = String(claim.currency || "EUR").toUpperCase();
+  const { data: items, error } = await supabase.from("reimbursement_items").select("*").eq("reimbursement_id", claimId);
+  if (error) throw new Error(error.message);
+
+  let total = 0;
+  const unconverted: string[] = [];
+  for (const item of items || []) {
+    const c = convertItem(Number(item.amount), String(item.currency || "EUR"), claimCurrency, fx);
+    if (!c) unconverted.push(String(item.id));
+    else total += c.converted_amount;
+    const { error: upErr } = await supabase
+      .from("reimbursement_items")
+      .update(c ?? { fx_rate: null, converted_amount: null })
+      .eq("id", item.id);
+    if (upErr) throw new Error(upErr.message);
+  }
+
+  const amount = round2(total);
+  const { error: claimErr } = await supabase.from("reimbursements").update({ amount, currency: claimCurrency }).eq("id", claimId);
+  if (claimErr) throw new Error(claimErr.message);
+  return { amount, currency: claimCurrency, items: items?.length ?? 0, unconverted };
+}
+
+/** Attaches a receipt the claimant uploaded (read by process-invoice) as a claim item. */
+export async function addReceiptToClaim(supabase: Db, userId: string, claimId: string, invoiceId: string, fx: FxRates) {
+  const claim = await loadEditableClaim(supabase, userId, claimId);
+
+  const { data: receipt } = await supabase
+    .from("invoices")
+    .select("id,user_id,vendor_name,invoice_number,invoice_date,total_amount,currency")
+    .eq("id", invoiceId)
+    .maybeSingle();
+  if (!receipt || receipt.user_id !== userId) throw new Error("Receipt not found");
+  if (!(Number(receipt.total_amount) > 0)) throw new Error("Receipt has no total amount; correct it before claiming");
+
+  const { error } = await supabase.from("reimbursement_items").insert({
+    reimbursement_id: claimId,
+    user_id: userId,
+    invoice_id: invoiceId,
+    item_type: "receipt",
+    description: [receipt.vendor_name, receipt.invoice_number].filter(Boolean).join(" ") || "Receipt",
+    expense_date: receipt.invoice_date,
+    amount: Number(receipt.total_amount),
+    currency: String(receipt.currency || claim.currency || "EUR").toUpperCase(),
+  });
+  if (error) throw new Error(error.code === "23505" ? "This receipt is already part of a claim" : error.message);
+  return await recalculateClaim(supabase, claimId, fx);
+}
+
+/** Distance × the mileage rate in force on the trip date; the rate row and calculation are kept on the item. */
+export async function addMileageToClaim(
+  supabase: Db,
+  userId: string,
+  claimId: string,
+  input: MileageInput & { description?: string | null },
+  fx: FxRates,
+) {
+  await loadEditableClaim(supabase, userId, claimId);
+  const { data: rates, error: rErr } = await supabase
+    .from("mileage_rates")
+    .select("*")
+    .eq("country", input.country.toUpperCase())
+    .eq("vehicle_type", input.vehicle_type);
+  if (rErr) throw new Error(rErr.message);
+
+  const calc = mileageAllowance(input, (rates || []) as MileageRate[]);
+  const { error } = await supabase.from("reimbursement_items").insert({
+    reimbursement_id: claimId,
+    user_id: userId,
+    item_type: "mileage",
+    description: input.description?.trim() || `Mileage ${input.distance} ${input.unit} (${input.vehicle_type}, ${calc.details.country})`,
+    expense_date: input.date,
+    amount: calc.amount,
+    currency: calc.currency,
+    rate_id: calc.rate_id,
+    details: calc.details,
+  });
+  if (error) throw new Error(error.message);
+  return await recalculateClaim(supabase, claimId, fx);
+}
+
+/** Per diem for a trip, day by day with the rate versions in force on each day (see perDiemAllowance). */
+export async function addPerDiemToClaim(
+  supabase: Db,
+  userId: string,
+  claimId: string,
+  input: PerDiemInput & { description?: string | null },
+  fx: FxRates,
+) {
+  await loadEditableClaim(supabase, userId, claimId);
+  const { data: rates, error: rErr } = await supabase.from("per_diem_rates").select("*").eq("country", input.country.toUpperCase());
+  if (rErr) throw new Error(rErr.message);
+
+  const calc = perDiemAllowance(input, (rates || []) as PerDiemRate[]);
+  if (!(calc.amount > 0)) throw new Error("This trip does not qualify for a per diem");
+  const place = [input.city, calc.details.country].filter(Boolean).join(", ");
+  const { error } = await supabase.from("reimbursement_items").insert({
+    reimbursement_id: claimId,
+    user_id: userId,
+    item_type: "per_diem",
+    description: input.description?.trim() || `Per diem ${place} (${calc.details.days.length} day(s))`,
+    expense_date: input.departure.slice(0, 10),
+    amount: calc.amount,
+    currency: calc.currency,
+    rate_id: calc.rate_id,
+    details: calc.details,
+  });
+  if (error) throw new Error(error.message);
+  return await recalculateClaim(supabase, claimId, fx);
+}
+
+export async function removeClaimItem(supabase: Db, userId: string, itemId: string, fx: FxRates) {
+  const { data: item } = await supabase.from("reimbursement_items").select("id,reimbursement_id,user_id").eq("id", itemId).maybeSingle();
+  if (!item || item.user_id !== userId) throw new Error("Claim item not found");
+  const claim = await loadClaim(supabase, String(item.reimbursement_id));
+  if (!isEditable(claim)) throw new Error("Only draft claims or claims returned for information can be changed");
+
+  const { error } = await supabase.from("reimbursement_items").delete().eq("id", itemId);
+  if (error) throw new Error(error.message);
+  return await recalculateClaim(supabase, String(item.reimbursement_id), fx);
+}
+
+/**
+ * Sends a draft to the claimant's manager (profiles.manager_id); without a manager the claim
+ * waits for any admin. Needs the service client: RLS keeps submitted claims read-only for owners.
+ */
+export async function submitClaim(writer: Db, userId: string, claimId: string, fx: FxRates) {
+  const claim = await loadClaim(writer, claimId);
+  if (claim.user_id !== userId) throw new Error("Claim not found");
+  if (!isEditable(claim)) throw new Error("Claim was already submitted");
+
+  const totals = await recalculateClaim(writer, claimId, fx);
+  if (!totals.items) throw new Error("Add at least one receipt, mileage or per-diem line before submitting");
+  if (totals.unconverted.length) throw new Error(`No exchange rate into ${totals.currency} for ${totals.unconverted.length} item(s)`);
+  if (!(totals.amount > 0)) throw new Error("Claim total must be greater than zero");
+
+  const { data: profile } = await writer.from("profiles").select("manager_id").eq("user_id", userId).maybeSingle();
+  const approverId = profile?.manager_id && profile.manager_id !== userId ? String(profile.manager_id) : null;
+
+  const now = new Date().toISOString();
+  const { data, error } = await writer
+    .from("reimbursements")
+    .update({ status: "pending", submitted_at: now, approver_id: approverId, decided_by: null, decided_at: null, decision_note: null })
+    .eq("id", claimId)
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  if (approverId) {
+    await writer.from("notifications").insert({
+      user_id: approverId,
+      created_by: userId,
+      kind: "reimbursement_submitted",
+      title: `Reimbursement claim to approve: ${totals.amount.toFixed(2)} ${totals.currency}`,
+      body: String(claim.title || "Expense claim"),
+      link: "/dashboard/reimbursements",
+      entity_type: "reimbursement",
+      entity_id: claimId,
+    });
+  }
+
+  try {
+    await writer.from("audit_logs").insert({
+      user_id: userId,
+      step: "reimbursement_submitted",
+      payload: { reimbursement_id: claimId, amount: totals.amount, currency: totals.currency, approver_id: approverId },
+    });
+  } catch {
+    // ignore
+  }
+  return data;
+}
+
+/** Manager (or admin) decision; `needs_info` sends the claim back to the claimant as an editable draft. */
+export async function decideClaim(
+  writer: Db,
+  actor: { id: string; admin: boolean },
+  claimId: string,
+  decision: ClaimDecision,
+  note: string | null,
+) {
+  const claim = await loadClaim(writer, claimId);
+  if (claimStage(claim) !== "submitted") throw new Error("Claim is not awaiting approval");
+  if (claim.user_id === actor.id) throw new Error("You cannot approve your own claim");
+  if (claim.approver_id !== actor.id && !actor.admin) throw new Error("You are not the approver of this claim");
+  if (decision !== "pass" && !note?.trim()) throw new Error("Add a note explaining the decision");
+
+  const now = new Date().toISOString();
+  const { data, error } = await writer
+    .from("reimbursements")
+    .update({
+      status: decision,
+      decided_by: actor.id,
+      decided_at: now,
+      decision_note: note?.trim() || null,
+      ...(decision === "needs_info" ? { submitted_at: null } : {}),
+    })
+    .eq("id", claimId)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Claim is not awaiting approval");
+
+  const verdict = decision === "pass" ? "approved" : decision === "fail" ? "rejected" : "returned for more information";
+  await writer.from("notifications").insert({
+    user_id: claim.user_id,
+    created_by: actor.id,
+    kind: "reimbursement_decided",
+    title: `Your reimbursement claim was ${verdict}`,
+    body: note?.trim() || null,
+    link: "/dashboard/reimbursements",
+    entity_type: "reimbursement",
+    entity_id: claimId,
+  });
+
+  try {
+    await writer.from("audit_logs").insert({
+      user_id: actor.id,
+      step: "reimbursement_decided",
+      payload: { reimbursement_id: claimId, claimant_id: claim.user_id, decision, note: note?.trim() || null, amount: claim.amount, currency: claim.currency },
+    });
+  } catch {
+    // ignore
+  }
+  return data;
+}
+
+export type PayoutLine = {
+  claim_id: string;
+  employee: string;
+  email: string | null;
+  iban: string | null;
+  bic: string | null;
+  amount: number;
+  currency: string;
+  reference: string;
+  method: "sepa" | "manual";
+  note: string | null;
+};
+
+const csvCell = (v: unknown) => {
+  const s = String(v ?? "");
+  return /[",;\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** Payout list for finance: every approved claim, with the SEPA ones also in the pain.001 file. */
+export function payoutCsv(lines: PayoutLine[]): string {
+  const header = ["claim_id", "employee", "email", "iban", "bic", "amount", "currency", "reference", "method", "note"];
+  return [
+    header.join(","),
+    ...lines.map((l) =>
+      [l.claim_id, l.employee, l.email, l.iban, l.bic, round2(l.amount).toFixed(2), l.currency, l.reference, l.method, l.note].map(csvCell).join(","),
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,118 @@
+// supabase/functions/_shared/segregationOfDuties.ts
+// Four-eyes checks for invoices: the uploader may not approve and an approver may not release the payment.
+// Admins relax or keep each check per organization and EUR amount band (public.sod_rules); refusals land in
+// public.sod_violations.
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { invoiceAmountEur } from "./approvalChains.ts";
+
+type Db = ReturnType<typeof createClient>;
+type Row = Record<string, unknown>;
+
+export type SodKind = "self_approval" | "approver_release";
+
+export type SodRule = {
+  id: string | null;
+  name: string;
+  min_amount: number;
+  max_amount: number | null;
+  block_self_approval: boolean;
+  block_approver_release: boolean;
+  is_active: boolean;
+  created_at: string;
+};
+
+/** Applies to every amount band no admin has configured. */
+export const DEFAULT_SOD_RULE: SodRule = {
+  id: null,
+  name: "Default",
+  min_amount: 0,
+  max_amount: null,
+  block_self_approval: true,
+  block_approver_release: true,
+  is_active: true,
+  created_at: "",
+};
+
+/** The active rule whose band contains `amount` (same banding as approval chains), else the default. */
+export function pickSodRule(rules: SodRule[], amount: number): SodRule {
+  const fits = rules.filter(
+    (r) => r.is_active && amount >= Number(r.min_amount || 0) && (r.max_amount === null || amount < Number(r.max_amount)),
+  );
+  fits.sort((a, b) => Number(b.min_amount || 0) - Number(a.min_amount || 0) || b.created_at.localeCompare(a.created_at));
+  return fits[0] ?? DEFAULT_SOD_RULE;
+}
+
+export type SodViolation = { kind: SodKind; rule: SodRule; amount: number; message: string };
+
+/** Approving (passing) an invoice: refused for its uploader unless the band allows self-approval. */
+export function checkApproval(rule: SodRule, inv: Row, actorId: string): SodViolation | null {
+  if (!rule.block_self_approval || inv.user_id !== actorId) return null;
+  return {
+    kind: "self_approval",
+    rule,
+    amount: invoiceAmountEur(inv),
+    message: "Segregation of duties: the uploader cannot approve their own invoice",
+  };
+}
+
+/** Releasing a payment: refused for anyone who approved the invoice unless the band allows it. */
+export function checkRelease(rule: SodRule, inv: Row, approverIds: string[], actorId: string): SodViolation | null {
+  if (!rule.block_approver_release || !approverIds.includes(actorId)) return null;
+  return {
+    kind: "approver_release",
+    rule,
+    amount: invoiceAmountEur(inv),
+    message: "Segregation of duties: whoever approved an invoice cannot also release its payment",
+  };
+}
+
+/** The organization's active rules; invoices of an organization without any get DEFAULT_SOD_RULE. */
+export async function loadSodRules(db: Db, organizationId: string | null | undefined): Promise<SodRule[]> {
+  if (!organizationId) return [];
+  const { data, error } = await db.from("sod_rules").select("*").eq("organization_id", organizationId).eq("is_active", true);
+  if (error) throw new Error(error.message);
+  return (data || []) as SodRule[];
+}
+
+/**
+ * Everyone who approved the invoice's current state: the passing steps of its latest approval cycle,
+ * or whoever set approval = 'pass' directly.
+ */
+export async function loadApprovers(db: Db, inv: Row): Promise<string[]> {
+  const { data, error } = await db
+    .from("approvals")
+    .select("cycle,status,decided_by")
+    .eq("invoice_id", inv.id)
+    .order("cycle", { ascending: false });
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as Row[];
+  const cycle = rows[0]?.cycle;
+  const ids = rows.filter((r) => r.cycle === cycle && r.status === "pass" && r.decided_by).map((r) => String(r.decided_by));
+  if (inv.approved_by) ids.push(String(inv.approved_by));
+  return [...new Set(ids)];
+}
+
+/** Stores a refused attempt for the Admin page and the invoice's audit trail. `writer` must be a service-role client. */
+export async function recordViolation(writer: Db, actorId: string, invoiceId: unknown, action: string, v: SodViolation) {
+  const { error } = await writer.from("sod_violations").insert({
+    user_id: actorId,
+    invoice_id: invoiceId,
+    rule_id: v.rule.id,
+    kind: v.kind,
+    action,
+    amount_eur: v.amount,
+    message: v.message,
+  });
+  if (error) throw new Error(error.message);
+
+  try {
+    await writer.from("audit_logs").insert({
+      user_id: actorId,
+      invoice_id: invoiceId,
+      step: "sod_violation",
+      payload: { kind: v.kind, action, rule: v.rule.id ? { id: v.rule.id, name: v.rule.name } : null, amount_eur: v.amount },
+    });
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,146 @@
+// supabase/functions/_shared/swissQr.ts
+// Swiss QR-bill "SPC" payload (Swiss Implementation Guidelines QR-bill, version 2.3).
+import { normalizeIban, validateCreditorReference, validateIban } from "./bankDetails.ts";
+
+export type SwissAddress = {
+  name: string;
+  street?: string | null;
+  building_number?: string | null;
+  postcode?: string | null;
+  city?: string | null;
+  country?: string | null; // ISO 3166-1 alpha-2
+};
+
+export type SwissQrInput = {
+  iban: string;
+  creditor: SwissAddress;
+  amount: number | null; // null leaves the amount open for the payer
+  currency: string;
+  debtor?: SwissAddress | null;
+  reference?: string | null; // 27-digit QR reference or RF creditor reference
+  message?: string | null;
+};
+
+export type SwissQrIssue = { field: string; message: string; severity: "error" | "warning" };
+
+export type SwissQrResult = {
+  payload: string | null;
+  reference_type: "QRR" | "SCOR" | "NON";
+  issues: SwissQrIssue[];
+};
+
+const MOD10_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+/** Recursive mod-10 check digit used by QR references (and the old ISR/ESR). */
+export function mod10Recursive(digits: string): number {
+  let carry = 0;
+  for (const d of digits) carry = MOD10_TABLE[(carry + Number(d)) % 10];
+  return (10 - carry) % 10;
+}
+
+export function validateQrReference(raw: string): boolean {
+  const ref = String(raw || "").replace(/\s/g, "");
+  return /^\d{27}$/.test(ref) && mod10Recursive(ref.slice(0, 26)) === Number(ref[26]);
+}
+
+/** Builds a QR reference from up to 26 digits of payer/invoice data, left-padded with zeros. */
+export function makeQrReference(digits: string): string {
+  const body = String(digits || "").replace(/\D/g, "").slice(-26).padStart(26, "0");
+  return `${body}${mod10Recursive(body)}`;
+}
+
+/** QR-IBANs carry an institution ID (positions 5-9) in the reserved range 30000-31999. */
+export function isQrIban(raw: string): boolean {
+  const iban = normalizeIban(raw);
+  if (!/^(CH|LI)\d{19}$/.test(iban)) return false;
+  const iid = Number(iban.slice(4, 9));
+  return iid >= 30000 && iid <= 31999;
+}
+
+// Swiss Payment Standards "extended Latin" character set, approximated by Latin-1 + € and a few ligatures
+const SPC_INVALID = /[^\x20-\x7E\xA0-\xFFŒœŠšŽžŸ€]/g;
+
+/**
+ * Returns the newline-separated SPC payload. Creditor (and debtor) addresses use the structured
+ * address type "S"; the combined type "K" is no longer accepted by banks.
+ */
+export function buildSwissQrPayload(input: SwissQrInput): SwissQrResult {
+  const issues: SwissQrIssue[] = [];
+  const err = (field: string, message: string) => issues.push({ field, message, severity: "error" });
+
+  const text = (field: string, raw: string | null | undefined, max: number) => {
+    const cleaned = String(raw || "").replace(/[\r\n]+/g, " ").trim();
+    const t = cleaned.replace(SPC_INVALID, "");
+    if (t !== cleaned) issues.push({ field, message: `Unsupported characters removed from ${field}.`, severity: "warning" });
+    if (t.length > max) {
+      issues.push({ field, message: `${field} truncated to ${max} characters.`, severity: "warning" });
+      return t.slice(0, max);
+    }
+    return t;
+  };
+
+  const address = (prefix: string, a: SwissAddress) => {
+    const name = text(`${prefix}.name`, a.name, 70);
+    const postcode = text(`${prefix}.postcode`, a.postcode, 16);
+    const city = text(`${prefix}.city`, a.city, 35);
+    const country = String(a.country || "").toUpperCase();
+    if (!name) err(`${prefix}.name`, "Name is required.");
+    if (!postcode || !city) err(`${prefix}.address`, "Postcode and town are required.");
+    if (!/^[A-Z]{2}$/.test(country)) err(`${prefix}.country`, "Country must be an ISO 3166-1 alpha-2 code.");
+    return ["S", name, text(`${prefix}.street`, a.street, 70), text(`${prefix}.building_number`, a.building_number, 16), postcode, city, country];
+  };
+
+  const iban = normalizeIban(input.iban);
+  if (!/^(CH|LI)/.test(iban) || !validateIban(iban)) err("iban", "A valid Swiss or Liechtenstein IBAN is required.");
+  const qrIban = isQrIban(iban);
+
+  const currency = String(input.currency || "").toUpperCase();
+  if (currency !== "CHF" && currency !== "EUR") err("currency", `QR-bill supports CHF and EUR only (got ${currency}).`);
+
+  let amount = "";
+  if (input.amount !== null && input.amount !== undefined) {
+    const a = Math.round(Number(input.amount) * 100) / 100;
+    if (!Number.isFinite(a) || a < 0.01 || a > 999999999.99) err("amount", "Amount must be between 0.01 and 999999999.99.");
+    else amount = a.toFixed(2);
+  }
+
+  const ref = String(input.reference || "").replace(/\s/g, "").toUpperCase();
+  let referenceType: SwissQrResult["reference_type"] = "NON";
+  let reference = "";
+  if (qrIban) {
+    // A QR-IBAN must be paired with a QR reference
+    referenceType = "QRR";
+    reference = validateQrReference(ref) ? ref : "";
+    if (!reference) err("reference", "QR-IBAN requires a 27-digit QR reference with a valid check digit.");
+  } else if (ref && validateCreditorReference(ref)) {
+    referenceType = "SCOR";
+    reference = ref;
+  } else if (ref && validateQrReference(ref)) {
+    err("reference", "QR references may only be used with a QR-IBAN.");
+  }
+
+  // Unstructured message: reuse a non-reference remittance text when nothing else is given
+  const message = text("message", input.message ?? (referenceType === "NON" ? input.reference : null), 140);
+
+  const debtor = input.debtor ? address("debtor", input.debtor) : ["", "", "", "", "", "", ""];
+
+  const lines = [
+    "SPC",
+    "0200",
+    "1",
+    iban,
+    ...address("creditor", input.creditor),
+    "", "", "", "", "", "", "", // ultimate creditor: reserved, must stay empty
+    amount,
+    currency,
+    ...debtor,
+    referenceType,
+    reference,
+    message,
+    "EPD",
+  ];
+  const payload = lines.join("\n");
+  if (payload.length > 997) err("payload", "Payload exceeds 997 characters.");
+
+  return { payload: issues.some((i) => i.severity === "error") ? null : payload, reference_type: referenceType, issues };
+}
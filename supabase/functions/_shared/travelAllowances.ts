@@ -0,0 +1,159 @@
+// supabase/functions/_shared/travelAllowances.ts
+// Mileage and per-diem allowances for reimbursement claims, computed from rate tables versioned by effective date.
+import { round2 } from "./amounts.ts";
+
+export type MileageRate = {
+  id: string;
+  country: string;
+  vehicle_type: string;
+  rate: number;
+  unit: "km" | "mi";
+  currency: string;
+  effective_from: string; // YYYY-MM-DD
+};
+
+export type PerDiemRate = {
+  id: string;
+  country: string;
+  city: string | null;
+  full_day: number;
+  partial_day: number;
+  min_partial_hours: number;
+  breakfast_deduction_pct: number;
+  lunch_deduction_pct: number;
+  dinner_deduction_pct: number;
+  currency: string;
+  effective_from: string;
+};
+
+export type MileageInput = { date: string; distance: number; unit: "km" | "mi"; vehicle_type: string; country: string };
+
+export type MealsProvided = { date: string; breakfast?: boolean; lunch?: boolean; dinner?: boolean };
+
+export type PerDiemInput = {
+  country: string;
+  city?: string | null;
+  departure: string; // YYYY-MM-DDTHH:mm, local time at the destination
+  return: string;
+  meals?: MealsProvided[];
+};
+
+export type PerDiemDay = {
+  date: string;
+  kind: "full" | "partial" | "none";
+  allowance: number;
+  deduction: number;
+  amount: number;
+  rate_id: string | null;
+  meals: string[];
+};
+
+const KM_PER_MILE = 1.609344;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The version in force on `date`: latest effective_from on or before it. */
+export function pickRate<T extends { effective_from: string }>(rates: T[], date: string): T | null {
+  let best: T | null = null;
+  for (const r of rates) {
+    if (r.effective_from <= date && (!best || r.effective_from > best.effective_from)) best = r;
+  }
+  return best;
+}
+
+export function mileageAllowance(input: MileageInput, rates: MileageRate[]) {
+  if (!(input.distance > 0)) throw new Error("Distance must be greater than zero");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) throw new Error("Trip date must be YYYY-MM-DD");
+  const country = input.country.toUpperCase();
+  const candidates = rates.filter((r) => r.country.toUpperCase() === country && r.vehicle_type === input.vehicle_type);
+  const rate = pickRate(candidates, input.date);
+  if (!rate) throw new Error(`No mileage rate for ${input.vehicle_type} in ${country} on ${input.date}`);
+
+  const distance =
+    input.unit === rate.unit ? input.distance : input.unit === "km" ? input.distance / KM_PER_MILE : input.distance * KM_PER_MILE;
+  const amount = round2(distance * Number(rate.rate));
+  return {
+    amount,
+    currency: rate.currency,
+    rate_id: rate.id,
+    details: {
+      date: input.date,
+      country,
+      vehicle_type: input.vehicle_type,
+      distance: input.distance,
+      unit: input.unit,
+      distance_in_rate_unit: Math.round(distance * 100) / 100,
+      rate: Number(rate.rate),
+      rate_unit: rate.unit,
+      rate_effective_from: rate.effective_from,
+    },
+  };
+}
+
+// Naive local timestamps are compared as if they were UTC so that day boundaries stay put
+const parseLocal = (s: string) => {
+  const m = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})/.exec(String(s || ""));
+  if (!m) throw new Error("Departure and return must be YYYY-MM-DDTHH:mm");
+  return Date.parse(`${m[1]}T${m[2]}:${m[3]}:00Z`);
+};
+
+/**
+ * Per diem per calendar day: a one-day trip earns the partial rate once it exceeds min_partial_hours;
+ * on overnight trips the travel days earn the partial rate and the days in between the full rate.
+ * Each provided meal deducts its percentage of the full-day rate, never below zero for the day.
+ * Every day uses the rate version in force on that day, preferring a city rate over the country rate.
+ */
+export function perDiemAllowance(input: PerDiemInput, rates: PerDiemRate[]) {
+  const start = parseLocal(input.departure);
+  const end = parseLocal(input.return);
+  if (!(end > start)) throw new Error("Return must be after departure");
+  if (end - start > 366 * DAY_MS) throw new Error("Trips longer than a year are not supported");
+
+  const country = input.country.toUpperCase();
+  const city = String(input.city || "").trim().toLowerCase();
+  const countryRates = rates.filter((r) => r.country.toUpperCase() === country);
+  const cityRates = city ? countryRates.filter((r) => String(r.city || "").toLowerCase() === city) : [];
+  const baseRates = countryRates.filter((r) => !r.city);
+  const mealsByDate = new Map((input.meals || []).map((m) => [m.date, m]));
+
+  const firstDay = new Date(start).toISOString().slice(0, 10);
+  const lastDay = new Date(end).toISOString().slice(0, 10);
+  const hours = (end - start) / 3600000;
+
+  const days: PerDiemDay[] = [];
+  let currency: string | null = null;
+  for (let t = Date.parse(`${firstDay}T00:00:00Z`); t <= Date.parse(`${lastDay}T00:00:00Z`); t += DAY_MS) {
+    const date = new Date(t).toISOString().slice(0, 10);
+    const rate = pickRate(cityRates, date) ?? pickRate(baseRates, date);
+    if (!rate) throw new Error(`No per-diem rate for ${input.city ? `${input.city}, ` : ""}${country} on ${date}`);
+    if (currency && rate.currency !== currency) throw new Error("Per-diem rates for this trip use different currencies");
+    currency = rate.currency;
+
+    const kind: PerDiemDay["kind"] =
+      firstDay === lastDay ? (hours > Number(rate.min_partial_hours) ? "partial" : "none") : date === firstDay || date === lastDay ? "partial" : "full";
+    const allowance = kind === "full" ? Number(rate.full_day) : kind === "partial" ? Number(rate.partial_day) : 0;
+
+    const m = mealsByDate.get(date);
+    const meals = (["breakfast", "lunch", "dinner"] as const).filter((k) => m?.[k]);
+    const pct = meals.reduce((s, k) => s + Number(rate[`${k}_deduction_pct`]), 0);
+    const deduction = round2(Math.min(allowance, (Number(rate.full_day) * pct) / 100));
+
+    days.push({ date, kind, allowance, deduction, amount: round2(allowance - deduction), rate_id: rate.id, meals });
+  }
+
+  const amount = round2(days.reduce((s, d) => s + d.amount, 0));
+  const rateIds = [...new Set(days.map((d) => d.rate_id).filter((x): x is string => !!x))];
+  return {
+    amount,
+    currency: currency || "EUR",
+    rate_id: rateIds[0] ?? null,
+    details: {
+      country,
+      city: input.city || null,
+      departure: input.departure,
+      return: input.return,
+      hours: Math.round(hours * 10) / 10,
+      days,
+      rate_ids: rateIds,
+    },
+  };
+}
@@ -0,0 +1,285 @@
+// supabase/functions/_shared/ubl.ts
+// Outgoing e-invoices: totals, EN 16931 business-rule validation and UBL 2.1 serialization
+// for XRechnung 3.0 (UBL syntax) and Peppol BIS Billing 3.0.
+import { round2 } from "./amounts.ts";
+
+export type EInvoiceFormat = "xrechnung" | "peppol";
+
+// UNCL5305 VAT category codes used by EN 16931
+export type VatCategory = "S" | "Z" | "E" | "AE" | "K" | "G" | "O";
+
+export type OutgoingParty = {
+  name: string;
+  street?: string | null;
+  city?: string | null;
+  postcode?: string | null;
+  country?: string | null; // ISO 3166-1 alpha-2
+  vat_id?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  contact_name?: string | null;
+};
+
+export type OutgoingLine = {
+  description: string;
+  quantity: number;
+  unit_code?: string | null; // UN/ECE Rec 20, default C62 (one)
+  unit_price: number;
+  vat_rate: number; // fraction, 0.19 = 19 %
+  vat_category?: VatCategory | null;
+};
+
+export type OutgoingInvoice = {
+  invoice_number: string;
+  issue_date: string; // YYYY-MM-DD
+  due_date?: string | null;
+  type_code?: string | null; // 380 invoice, 381 credit note
+  currency: string;
+  buyer_reference?: string | null; // Leitweg-ID for German public buyers
+  payment_terms?: string | null;
+  payment_reference?: string | null;
+  iban?: string | null;
+  bic?: string | null;
+  note?: string | null;
+  seller: OutgoingParty;
+  buyer: OutgoingParty;
+  lines: OutgoingLine[];
+};
+
+export type TaxSubtotal = { category: VatCategory; rate: number; taxable: number; tax: number };
+
+export type OutgoingTotals = {
+  line_net: number[];
+  line_extension: number;
+  tax_exclusive: number;
+  tax_total: number;
+  tax_inclusive: number;
+  payable: number;
+  breakdown: TaxSubtotal[];
+};
+
+export type ValidationIssue = { rule: string; message: string; severity: "error" | "warning" };
+
+const SPEC_ID: Record<EInvoiceFormat, string> = {
+  xrechnung: "urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0",
+  peppol: "urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0",
+};
+const PROFILE_ID = "urn:fdc:peppol.eu:2017:poacc:billing:01:1.0";
+
+export const categoryOf = (l: OutgoingLine): VatCategory => l.vat_category || (l.vat_rate > 0 ? "S" : "Z");
+
+export function computeTotals(inv: OutgoingInvoice): OutgoingTotals {
+  const line_net = inv.lines.map((l) => round2(l.quantity * l.unit_price));
+  const groups = new Map<string, TaxSubtotal>();
+  inv.lines.forEach((l, i) => {
+    const category = categoryOf(l);
+    const key = `${category}|${l.vat_rate}`;
+    const g = groups.get(key) ?? { category, rate: l.vat_rate, taxable: 0, tax: 0 };
+    g.taxable = round2(g.taxable + line_net[i]);
+    groups.set(key, g);
+  });
+  // EN 16931 computes VAT per category/rate on the summed taxable amount (BR-S-09), not per line
+  const breakdown = Array.from(groups.values()).map((g) => ({ ...g, tax: round2(g.taxable * g.rate) }));
+
+  const line_extension = round2(line_net.reduce((s, n) => s + n, 0));
+  const tax_total = round2(breakdown.reduce((s, g) => s + g.tax, 0));
+  const tax_inclusive = round2(line_extension + tax_total);
+  return { line_net, line_extension, tax_exclusive: line_extension, tax_total, tax_inclusive, payable: tax_inclusive, breakdown };
+}
+
+const blank = (v: unknown) => v === null || v === undefined || String(v).trim() === "";
+const isDate = (v: unknown) => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v));
+
+/**
+ * Subset of the EN 16931 business rules (BR-*, BR-CO-*, BR-S/AE-*) plus the national
+ * CIUS rules (BR-DE-* for XRechnung, PEPPOL-EN16931-* for Peppol) that can be checked
+ * from our invoice model. Errors block generation; warnings are reported only.
+ */
+export function validateEn16931(inv: OutgoingInvoice, format: EInvoiceFormat): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const err = (rule: string, message: string) => issues.push({ rule, message, severity: "error" });
+  const warn = (rule: string, message: string) => issues.push({ rule, message, severity: "warning" });
+
+  if (blank(inv.invoice_number)) err("BR-02", "An invoice shall have an invoice number.");
+  if (!isDate(inv.issue_date)) err("BR-03", "An invoice shall have an issue date (YYYY-MM-DD).");
+  if (!["380", "381", "384", "389", "326"].includes(inv.type_code || "380")) err("BR-04", "Invoice type code is not supported.");
+  if (!/^[A-Z]{3}$/.test(inv.currency || "")) err("BR-05", "An invoice shall have an ISO 4217 currency code.");
+  if (!blank(inv.due_date) && !isDate(inv.due_date)) err("BR-CO-25", "Payment due date must be a valid date.");
+
+  if (blank(inv.seller?.name)) err("BR-06", "An invoice shall contain the seller name.");
+  if (blank(inv.buyer?.name)) err("BR-07", "An invoice shall contain the buyer name.");
+  if (blank(inv.seller?.city) || blank(inv.seller?.postcode) || blank(inv.seller?.street)) err("BR-08", "Seller postal address (street, postcode, city) is required.");
+  if (!/^[A-Z]{2}$/.test(inv.seller?.country || "")) err("BR-09", "Seller country code (ISO 3166-1 alpha-2) is required.");
+  if (blank(inv.buyer?.city) || blank(inv.buyer?.postcode)) err("BR-10", "Buyer postal address (postcode, city) is required.");
+  if (!/^[A-Z]{2}$/.test(inv.buyer?.country || "")) err("BR-11", "Buyer country code (ISO 3166-1 alpha-2) is required.");
+
+  for (const [who, p] of [["Seller", inv.seller], ["Buyer", inv.buyer]] as const) {
+    if (!blank(p?.vat_id) && !/^[A-Z]{2}[A-Z0-9+*.]{2,13}$/.test(String(p.vat_id).replace(/\s/g, ""))) {
+      err("BR-CO-09", `${who} VAT identifier must start with an ISO country prefix.`);
+    }
+  }
+
+  if (!inv.lines?.length) err("BR-16", "An invoice shall have at least one invoice line.");
+  (inv.lines || []).forEach((l, i) => {
+    const n = i + 1;
+    if (blank(l.description)) err("BR-25", `Line ${n}: item name is required.`);
+    if (!Number.isFinite(l.quantity) || l.quantity === 0) err("BR-22", `Line ${n}: invoiced quantity is required.`);
+    if (!Number.isFinite(l.unit_price) || l.unit_price < 0) err("BR-27", `Line ${n}: item net price shall not be negative.`);
+    if (!Number.isFinite(l.vat_rate) || l.vat_rate < 0 || l.vat_rate >= 1) err("BR-CO-04", `Line ${n}: VAT rate is invalid.`);
+    const cat = categoryOf(l);
+    if (cat === "S" && !(l.vat_rate > 0)) err("BR-S-05", `Line ${n}: standard-rated lines need a VAT rate greater than zero.`);
+    if (["Z", "E", "AE", "K", "G", "O"].includes(cat) && l.vat_rate !== 0) err(`BR-${cat}-05`, `Line ${n}: category ${cat} requires a VAT rate of 0.`);
+  });
+
+  const cats = new Set((inv.lines || []).map(categoryOf));
+  if (cats.has("S") && blank(inv.seller?.vat_id)) err("BR-S-02", "Standard-rated invoices require the seller VAT identifier.");
+  if (cats.has("AE") && (blank(inv.seller?.vat_id) || blank(inv.buyer?.vat_id))) err("BR-AE-02", "Reverse-charge invoices require seller and buyer VAT identifiers.");
+  if (cats.has("K") && (blank(inv.seller?.vat_id) || blank(inv.buyer?.vat_id))) err("BR-IC-02", "Intra-community supplies require seller and buyer VAT identifiers.");
+  if ((cats.has("E") || cats.has("AE") || cats.has("K")) && blank(inv.note)) warn("BR-E-10", "Exempt / reverse-charge invoices should state the exemption reason in the note.");
+
+  const totals = computeTotals(inv);
+  if (totals.payable < 0 && (inv.type_code || "380") === "380") err("BR-CO-16", "Amount due for payment shall not be negative on an invoice.");
+
+  if (format === "xrechnung") {
+    if (blank(inv.buyer_reference)) err("BR-DE-15", "XRechnung requires the buyer reference (Leitweg-ID).");
+    if (blank(inv.seller?.contact_name) || blank(inv.seller?.phone) || blank(inv.seller?.email)) err("BR-DE-2", "XRechnung requires seller contact name, phone and email.");
+    if (blank(inv.iban)) err("BR-DE-23-a", "Credit transfer requires the payee IBAN.");
+    if (blank(inv.payment_terms) && blank(inv.due_date)) warn("BR-CO-25", "Provide payment terms or a due date.");
+  } else {
+    if (blank(inv.buyer_reference) && blank(inv.payment_reference)) err("PEPPOL-EN16931-R003", "A buyer reference or purchase order reference must be provided.");
+    if (blank(inv.seller?.email) || blank(inv.buyer?.email)) err("PEPPOL-EN16931-R020", "Seller and buyer electronic addresses (endpoint IDs) are required.");
+    if (blank(inv.iban)) warn("PEPPOL-EN16931-R061", "No payee account given for credit transfer.");
+  }
+
+  return issues;
+}
+
+const esc = (v: unknown) =>
+  String(v ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const amt = (n: number) => round2(n).toFixed(2);
+const pct = (rate: number) => String(Math.round(rate * 10000) / 100);
+
+function partyXml(tag: "AccountingSupplierParty" | "AccountingCustomerParty", p: OutgoingParty, withContact: boolean) {
+  const vat = (p.vat_id || "").replace(/\s/g, "");
+  return [
+    `  <cac:${tag}>`,
+    `    <cac:Party>`,
+    p.email ? `      <cbc:EndpointID schemeID="EM">${esc(p.email)}</cbc:EndpointID>` : "",
+    `      <cac:PartyName><cbc:Name>${esc(p.name)}</cbc:Name></cac:PartyName>`,
+    `      <cac:PostalAddress>`,
+    p.street ? `        <cbc:StreetName>${esc(p.street)}</cbc:StreetName>` : "",
+    p.city ? `        <cbc:CityName>${esc(p.city)}</cbc:CityName>` : "",
+    p.postcode ? `        <cbc:PostalZone>${esc(p.postcode)}</cbc:PostalZone>` : "",
+    `        <cac:Country><cbc:IdentificationCode>${esc(p.country)}</cbc:IdentificationCode></cac:Country>`,
+    `      </cac:PostalAddress>`,
+    vat ? `      <cac:PartyTaxScheme><cbc:CompanyID>${esc(vat)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>` : "",
+    `      <cac:PartyLegalEntity><cbc:RegistrationName>${esc(p.name)}</cbc:RegistrationName></cac:PartyLegalEntity>`,
+    withContact && (p.contact_name || p.phone || p.email)
+      ? [
+          `      <cac:Contact>`,
+          p.contact_name ? `        <cbc:Name>${esc(p.contact_name)}</cbc:Name>` : "",
+          p.phone ? `        <cbc:Telephone>${esc(p.phone)}</cbc:Telephone>` : "",
+          p.email ? `        <cbc:ElectronicMail>${esc(p.email)}</cbc:ElectronicMail>` : "",
+          `      </cac:Contact>`,
+        ].filter(Boolean).join("\n")
+      : "",
+    `    </cac:Party>`,
+    `  </cac:${tag}>`,
+  ].filter(Boolean).join("\n");
+}
+
+/** Serializes the invoice as UBL 2.1 with the CustomizationID of the requested CIUS. */
+export function buildUblInvoice(inv: OutgoingInvoice, format: EInvoiceFormat): string {
+  const t = computeTotals(inv);
+  const cur = esc(inv.currency);
+  const a = (n: number) => `currencyID="${cur}">${amt(n)}`;
+
+  const taxSubtotals = t.breakdown
+    .map((g) =>
+      [
+        `    <cac:TaxSubtotal>`,
+        `      <cbc:TaxableAmount ${a(g.taxable)}</cbc:TaxableAmount>`,
+        `      <cbc:TaxAmount ${a(g.tax)}</cbc:TaxAmount>`,
+        `      <cac:TaxCategory>`,
+        `        <cbc:ID>${g.category}</cbc:ID>`,
+        `        <cbc:Percent>${pct(g.rate)}</cbc:Percent>`,
+        g.category === "AE" ? `        <cbc:TaxExemptionReasonCode>VATEX-EU-AE</cbc:TaxExemptionReasonCode>` : "",
+        g.category === "K" ? `        <cbc:TaxExemptionReasonCode>VATEX-EU-IC</cbc:TaxExemptionReasonCode>` : "",
+        `        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>`,
+        `      </cac:TaxCategory>`,
+        `    </cac:TaxSubtotal>`,
+      ].filter(Boolean).join("\n"),
+    )
+    .join("\n");
+
+  const lines = inv.lines
+    .map((l, i) =>
+      [
+        `  <cac:InvoiceLine>`,
+        `    <cbc:ID>${i + 1}</cbc:ID>`,
+        `    <cbc:InvoicedQuantity unitCode="${esc(l.unit_code || "C62")}">${l.quantity}</cbc:InvoicedQuantity>`,
+        `    <cbc:LineExtensionAmount ${a(t.line_net[i])}</cbc:LineExtensionAmount>`,
+        `    <cac:Item>`,
+        `      <cbc:Name>${esc(l.description)}</cbc:Name>`,
+        `      <cac:ClassifiedTaxCategory>`,
+        `        <cbc:ID>${categoryOf(l)}</cbc:ID>`,
+        `        <cbc:Percent>${pct(l.vat_rate)}</cbc:Percent>`,
+        `        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>`,
+        `      </cac:ClassifiedTaxCategory>`,
+        `    </cac:Item>`,
+        `    <cac:Price><cbc:PriceAmount currencyID="${cur}">${l.unit_price}</cbc:PriceAmount></cac:Price>`,
+        `  </cac:InvoiceLine>`,
+      ].join("\n"),
+    )
+    .join("\n");
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"`,
+    `         xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"`,
+    `         xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">`,
+    `  <cbc:CustomizationID>${SPEC_ID[format]}</cbc:CustomizationID>`,
+    `  <cbc:ProfileID>${PROFILE_ID}</cbc:ProfileID>`,
+    `  <cbc:ID>${esc(inv.invoice_number)}</cbc:ID>`,
+    `  <cbc:IssueDate>${esc(inv.issue_date)}</cbc:IssueDate>`,
+    inv.due_date ? `  <cbc:DueDate>${esc(inv.due_date)}</cbc:DueDate>` : "",
+    `  <cbc:InvoiceTypeCode>${esc(inv.type_code || "380")}</cbc:InvoiceTypeCode>`,
+    inv.note ? `  <cbc:Note>${esc(inv.note)}</cbc:Note>` : "",
+    `  <cbc:DocumentCurrencyCode>${cur}</cbc:DocumentCurrencyCode>`,
+    inv.buyer_reference ? `  <cbc:BuyerReference>${esc(inv.buyer_reference)}</cbc:BuyerReference>` : "",
+    partyXml("AccountingSupplierParty", inv.seller, true),
+    partyXml("AccountingCustomerParty", inv.buyer, false),
+    inv.iban
+      ? [
+          `  <cac:PaymentMeans>`,
+          `    <cbc:PaymentMeansCode>58</cbc:PaymentMeansCode>`,
+          inv.payment_reference ? `    <cbc:PaymentID>${esc(inv.payment_reference)}</cbc:PaymentID>` : "",
+          `    <cac:PayeeFinancialAccount>`,
+          `      <cbc:ID>${esc(inv.iban.replace(/\s/g, ""))}</cbc:ID>`,
+          `      <cbc:Name>${esc(inv.seller.name)}</cbc:Name>`,
+          inv.bic ? `      <cac:FinancialInstitutionBranch><cbc:ID>${esc(inv.bic)}</cbc:ID></cac:FinancialInstitutionBranch>` : "",
+          `    </cac:PayeeFinancialAccount>`,
+          `  </cac:PaymentMeans>`,
+        ].filter(Boolean).join("\n")
+      : "",
+    inv.payment_terms ? `  <cac:PaymentTerms><cbc:Note>${esc(inv.payment_terms)}</cbc:Note></cac:PaymentTerms>` : "",
+    `  <cac:TaxTotal>`,
+    `    <cbc:TaxAmount ${a(t.tax_total)}</cbc:TaxAmount>`,
+    taxSubtotals,
+    `  </cac:TaxTotal>`,
+    `  <cac:LegalMonetaryTotal>`,
+    `    <cbc:LineExtensionAmount ${a(t.line_extension)}</cbc:LineExtensionAmount>`,
+    `    <cbc:TaxExclusiveAmount ${a(t.tax_exclusive)}</cbc:TaxExclusiveAmount>`,
+    `    <cbc:TaxInclusiveAmount ${a(t.tax_inclusive)}</cbc:TaxInclusiveAmount>`,
+    `    <cbc:PayableAmount ${a(t.payable)}</cbc:PayableAmount>`,
+    `  </cac:LegalMonetaryTotal>`,
+    lines,
+    `</Invoice>`,
+    ``,
+  ].filter((x) => x !== "").join("\n");
+}
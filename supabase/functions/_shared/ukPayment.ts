@@ -0,0 +1,76 @@
+// supabase/functions/_shared/ukPayment.ts
+// UK Faster Payments details (sort code + account number) and a scannable payload for them.
+// There is no interbank UK payment-QR standard; the payload is line-based so any scanner shows
+// the details readably and our own apps can parse them.
+import { normalizeIban, validateIban } from "./bankDetails.ts";
+
+export type UkAccount = { sort_code: string; account_number: string };
+
+export type UkPaymentInput = {
+  payee: string;
+  sort_code?: string | null;
+  account_number?: string | null;
+  iban?: string | null; // GB IBANs embed the sort code and account number
+  amount: number;
+  currency?: string | null;
+  reference?: string | null;
+};
+
+export type UkPaymentIssue = { field: string; message: string; severity: "error" | "warning" };
+
+export type UkPaymentResult = {
+  payload: string | null;
+  account: UkAccount | null;
+  issues: UkPaymentIssue[];
+};
+
+/** "GBkk BANK SSSSSS AAAAAAAA" → sort code SSSSSS, account AAAAAAAA. */
+export function ukAccountFromIban(raw: string): UkAccount | null {
+  const iban = normalizeIban(raw);
+  if (!/^GB\d{2}[A-Z]{4}\d{14}$/.test(iban) || !validateIban(iban)) return null;
+  return { sort_code: iban.slice(8, 14), account_number: iban.slice(14, 22) };
+}
+
+export const formatSortCode = (s: string) => s.replace(/(\d{2})(\d{2})(\d{2})/, "$1-$2-$3");
+
+export function normalizeUkAccount(sortCode: string, accountNumber: string): UkAccount | null {
+  const sort_code = String(sortCode || "").replace(/\D/g, "");
+  let account_number = String(accountNumber || "").replace(/\D/g, "");
+  // Some banks issue 6- or 7-digit account numbers; Faster Payments expects 8
+  if (account_number.length >= 6 && account_number.length < 8) account_number = account_number.padStart(8, "0");
+  if (!/^\d{6}$/.test(sort_code) || !/^\d{8}$/.test(account_number)) return null;
+  return { sort_code, account_number };
+}
+
+// Faster Payments carries an 18-character reference of A-Z, 0-9 and a few symbols
+const FPS_REFERENCE_INVALID = /[^A-Z0-9 &./-]/g;
+
+export function buildUkPaymentPayload(input: UkPaymentInput): UkPaymentResult {
+  const issues: UkPaymentIssue[] = [];
+  const err = (field: string, message: string) => issues.push({ field, message, severity: "error" });
+
+  const account =
+    (input.sort_code && input.account_number ? normalizeUkAccount(input.sort_code, input.account_number) : null) ??
+    (input.iban ? ukAccountFromIban(input.iban) : null);
+  if (!account) err("account", "A 6-digit sort code and 8-digit account number (or a valid GB IBAN) are required.");
+
+  const payee = String(input.payee || "").replace(/[\r\n|]+/g, " ").trim().slice(0, 140);
+  if (!payee) err("payee", "Payee name is required.");
+
+  const currency = String(input.currency || "GBP").toUpperCase();
+  if (currency !== "GBP") err("currency", `Faster Payments are GBP only (got ${currency}).`);
+  const amount = Math.round(Number(input.amount) * 100) / 100;
+  if (!Number.isFinite(amount) || amount < 0.01) err("amount", "Amount must be at least GBP 0.01.");
+
+  let reference = String(input.reference || "").toUpperCase().replace(FPS_REFERENCE_INVALID, "").trim();
+  if (reference.length > 18) {
+    issues.push({ field: "reference", message: "Reference truncated to 18 characters.", severity: "warning" });
+    reference = reference.slice(0, 18);
+  }
+
+  const payload = account
+    ? ["UKFP", "1", payee, formatSortCode(account.sort_code), account.account_number, `GBP${amount.toFixed(2)}`, reference].join("\n")
+    : null;
+
+  return { payload: issues.some((i) => i.severity === "error") ? null : payload, account, issues };
+}
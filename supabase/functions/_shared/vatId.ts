@@ -0,0 +1,242 @@
+// supabase/functions/_shared/vatId.ts
+// VAT registration number extraction and offline validation (per-country format + check digits).
+
+export type VatIdCheck = {
+  raw: string;
+  normalized: string; // country prefix + number, no separators
+  country: string; // VAT prefix (EL for Greece, XI for Northern Ireland, CHE, AE, SA)
+  valid_format: boolean;
+  valid_checksum: boolean | null; // null when the country has no public check-digit algorithm
+  valid: boolean;
+};
+
+export type ExtractedVatIds = {
+  supplier: VatIdCheck | null;
+  buyer: VatIdCheck | null;
+  all: VatIdCheck[];
+};
+
+const digits = (s: string) => s.split("").map(Number);
+
+// --- check-digit algorithms (number part only, without prefix) ---
+
+function checkDE(n: string) {
+  let product = 10;
+  for (const d of digits(n.slice(0, 8))) {
+    let sum = (d + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  const check = 11 - product === 10 ? 0 : 11 - product;
+  return check === Number(n[8]);
+}
+
+function checkAT(n: string) {
+  const d = digits(n.slice(1)); // "U" + 8 digits
+  const s = (x: number) => Math.floor(x / 10) + (x % 10);
+  const r = d[0] + s(2 * d[1]) + d[2] + s(2 * d[3]) + d[4] + s(2 * d[5]) + d[6];
+  return (10 - ((r + 4) % 10)) % 10 === d[7];
+}
+
+function checkFR(n: string) {
+  const key = n.slice(0, 2);
+  // Alphanumeric keys (new scheme) have no published algorithm
+  if (!/^\d{2}$/.test(key)) return null;
+  const siren = Number(n.slice(2));
+  return (12 + 3 * (siren % 97)) % 97 === Number(key);
+}
+
+function mod97(numeric: string) {
+  let r = 0;
+  for (const ch of numeric) r = (r * 10 + Number(ch)) % 97;
+  return r;
+}
+
+function checkNL(n: string) {
+  const d = digits(n.slice(0, 9));
+  const weighted = d.slice(0, 8).reduce((s, x, i) => s + x * (9 - i), 0) % 11;
+  if (weighted !== 10 && weighted === d[8]) return true;
+  // Sole-proprietor numbers issued since 2020 use ISO 7064 mod 97-10 over "NL" + number (N=23, L=21, B=11)
+  return mod97(`2321${n.slice(0, 9)}11${n.slice(10)}`) === 1;
+}
+
+function luhn(n: string) {
+  let sum = 0;
+  digits(n).reverse().forEach((d, i) => {
+    if (i % 2 === 1) {
+      const x = d * 2;
+      sum += x > 9 ? x - 9 : x;
+    } else sum += d;
+  });
+  return sum % 10 === 0;
+}
+
+function checkES(n: string) {
+  const NIF_LETTERS = "TRWAGMYFPDXBNJZSQVHLCKE";
+  if (/^\d{8}[A-Z]$/.test(n)) return NIF_LETTERS[Number(n.slice(0, 8)) % 23] === n[8];
+  if (/^[XYZ]\d{7}[A-Z]$/.test(n)) {
+    const num = String("XYZ".indexOf(n[0])) + n.slice(1, 8);
+    return NIF_LETTERS[Number(num) % 23] === n[8];
+  }
+  // CIF (legal entities) and K/L/M personal numbers
+  const d = digits(n.slice(1, 8));
+  const even = d[1] + d[3] + d[5];
+  const odd = [d[0], d[2], d[4], d[6]].reduce((s, x) => s + Math.floor((2 * x) / 10) + ((2 * x) % 10), 0);
+  const control = (10 - ((even + odd) % 10)) % 10;
+  return n[8] === String(control) || n[8] === "JABCDEFGHI"[control];
+}
+
+function checkBE(n: string) {
+  const num = n.length === 9 ? `0${n}` : n;
+  return 97 - (Number(num.slice(0, 8)) % 97) === Number(num.slice(8));
+}
+
+function checkGB(n: string) {
+  if (/^(GD|HA)\d{3}$/.test(n)) return null; // government departments / health authorities
+  const d = digits(n.slice(0, 7));
+  const total = d.reduce((s, x, i) => s + x * (8 - i), 0) + Number(n.slice(7, 9));
+  return total % 97 === 0 || (total + 55) % 97 === 0;
+}
+
+function checkPL(n: string) {
+  const w = [6, 5, 7, 2, 3, 4, 5, 6, 7];
+  const r = digits(n).slice(0, 9).reduce((s, x, i) => s + x * w[i], 0) % 11;
+  return r !== 10 && r === Number(n[9]);
+}
+
+function checkDK(n: string) {
+  const w = [2, 7, 6, 5, 4, 3, 2, 1];
+  return digits(n).reduce((s, x, i) => s + x * w[i], 0) % 11 === 0;
+}
+
+function checkFI(n: string) {
+  const w = [7, 9, 10, 5, 8, 4, 2];
+  const r = digits(n).slice(0, 7).reduce((s, x, i) => s + x * w[i], 0) % 11;
+  if (r === 1) return false;
+  return (r === 0 ? 0 : 11 - r) === Number(n[7]);
+}
+
+function checkPT(n: string) {
+  const r = digits(n).slice(0, 8).reduce((s, x, i) => s + x * (9 - i), 0) % 11;
+  return (r < 2 ? 0 : 11 - r) === Number(n[8]);
+}
+
+function checkCH(n: string) {
+  const w = [5, 4, 3, 2, 7, 6, 5, 4];
+  const r = 11 - (digits(n).slice(0, 8).reduce((s, x, i) => s + x * w[i], 0) % 11);
+  if (r === 10) return false;
+  return (r === 11 ? 0 : r) === Number(n[8]);
+}
+
+type CountryRule = { format: RegExp; checksum?: (n: string) => boolean | null };
+
+// Number formats after the prefix, per the EU VIES specification (plus GB/XI, CH, UAE TRN, KSA)
+const RULES: Record<string, CountryRule> = {
+  AT: { format: /^U\d{8}$/, checksum: checkAT },
+  BE: { format: /^[01]?\d{9}$/, checksum: checkBE },
+  BG: { format: /^\d{9,10}$/ },
+  CY: { format: /^\d{8}[A-Z]$/ },
+  CZ: { format: /^\d{8,10}$/ },
+  DE: { format: /^[1-9]\d{8}$/, checksum: checkDE },
+  DK: { format: /^\d{8}$/, checksum: checkDK },
+  EE: { format: /^\d{9}$/ },
+  EL: { format: /^\d{9}$/ },
+  ES: { format: /^([A-Z]\d{7}[A-Z0-9]|\d{8}[A-Z])$/, checksum: checkES },
+  FI: { format: /^\d{8}$/, checksum: checkFI },
+  FR: { format: /^[A-HJ-NP-Z0-9]{2}\d{9}$/, checksum: checkFR },
+  HR: { format: /^\d{11}$/ },
+  HU: { format: /^\d{8}$/ },
+  IE: { format: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/ },
+  IT: { format: /^\d{11}$/, checksum: luhn },
+  LT: { format: /^(\d{9}|\d{12})$/ },
+  LU: { format: /^\d{8}$/, checksum: (n) => Number(n.slice(0, 6)) % 89 === Number(n.slice(6)) },
+  LV: { format: /^\d{11}$/ },
+  MT: { format: /^\d{8}$/ },
+  NL: { format: /^\d{9}B\d{2}$/, checksum: checkNL },
+  PL: { format: /^\d{10}$/, checksum: checkPL },
+  PT: { format: /^\d{9}$/, checksum: checkPT },
+  RO: { format: /^\d{2,10}$/ },
+  SE: { format: /^\d{10}01$/, checksum: (n) => luhn(n.slice(0, 10)) },
+  SI: { format: /^\d{8}$/ },
+  SK: { format: /^\d{10}$/ },
+  GB: { format: /^(\d{9}|\d{12}|(GD|HA)\d{3})$/, checksum: checkGB },
+  XI: { format: /^(\d{9}|\d{12}|(GD|HA)\d{3})$/, checksum: checkGB },
+  CHE: { format: /^\d{9}(MWST|TVA|IVA)?$/, checksum: checkCH },
+  AE: { format: /^1\d{14}$/ }, // UAE TRN
+  SA: { format: /^3\d{13}3$/ }, // KSA VAT number
+};
+
+export const EU_VAT_PREFIXES = Object.keys(RULES).filter((c) => !["GB", "XI", "CHE", "AE", "SA"].includes(c));
+
+export function normalizeVatId(raw: string): string {
+  let s = String(raw || "").toUpperCase().replace(/[\s.\-/:]/g, "");
+  if (s.startsWith("GR")) s = `EL${s.slice(2)}`; // ISO code used instead of the VAT prefix
+  return s;
+}
+
+function splitPrefix(normalized: string): [string, string] | null {
+  if (normalized.startsWith("CHE")) return ["CHE", normalized.slice(3)];
+  const cc = normalized.slice(0, 2);
+  return RULES[cc] ? [cc, normalized.slice(2)] : null;
+}
+
+/** Validates a VAT ID with its country prefix. Unknown prefixes are invalid. */
+export function validateVatId(raw: string, countryHint?: string | null): VatIdCheck {
+  let normalized = normalizeVatId(raw);
+  // UAE TRN / KSA VAT numbers carry no prefix
+  if (/^\d{15}$/.test(normalized)) normalized = `${countryHint === "SA" || /^3\d{13}3$/.test(normalized) ? "SA" : "AE"}${normalized}`;
+
+  const parts = splitPrefix(normalized);
+  if (!parts) return { raw, normalized, country: normalized.slice(0, 2), valid_format: false, valid_checksum: null, valid: false };
+
+  const [country, number] = parts;
+  const rule = RULES[country];
+  const valid_format = rule.format.test(number);
+  const valid_checksum = valid_format && rule.checksum ? rule.checksum(number) : valid_format ? null : false;
+  return { raw, normalized, country, valid_format, valid_checksum, valid: valid_format && valid_checksum !== false };
+}
+
+const PREFIXED_CANDIDATE = new RegExp(
+  `\\b(${[...Object.keys(RULES).filter((c) => c.length === 2 && c !== "AE" && c !== "SA"), "GR", "CHE"].join("|")})[\\s.:-]?((?:[0-9A-Z][\\s.-]?){5,14})`,
+  "g",
+);
+const LABELLED_TRN = /\b(?:TRN|VAT\s*(?:Reg(?:istration)?\.?\s*)?(?:No|Number|#)?)\s*[.:#]?\s*(\d{15})\b/gi;
+const BUYER_LABEL = /(kunde|customer|buyer|bill(?:ed)?\s*to|invoice\s*to|sold\s*to|ship\s*to|empfänger|rechnungsempfänger|client|acheteur|destinataire|your\s*vat|ihre\s*ust)/i;
+
+/** Longest prefix of the captured body that forms a valid-format ID (OCR often glues words on). */
+function bestCandidate(prefix: string, body: string, raw: string): VatIdCheck | null {
+  const compact = body.replace(/[\s.-]/g, "");
+  for (let len = compact.length; len >= 2; len--) {
+    const check = validateVatId(`${prefix}${compact.slice(0, len)}`);
+    if (check.valid_format) return { ...check, raw: raw.trim() };
+  }
+  return null;
+}
+
+/**
+ * Finds VAT IDs in OCR/PDF text. IDs on a line (or right after a line) labelled as the
+ * customer/buyer are the buyer's; the first other ID is the supplier's.
+ */
+export function extractVatIds(text: string): ExtractedVatIds {
+  const lines = (text || "").split("\n");
+  const found: { check: VatIdCheck; buyerHint: boolean }[] = [];
+  const seen = new Set<string>();
+
+  lines.forEach((line, idx) => {
+    const context = `${lines[idx - 1] || ""} ${line}`;
+    const push = (check: VatIdCheck | null, at: number) => {
+      if (!check || seen.has(check.normalized)) return;
+      seen.add(check.normalized);
+      const before = line.slice(0, at);
+      found.push({ check, buyerHint: BUYER_LABEL.test(before) || (!before.trim() && BUYER_LABEL.test(context)) });
+    };
+
+    for (const m of line.toUpperCase().matchAll(PREFIXED_CANDIDATE)) push(bestCandidate(m[1], m[2], m[0]), m.index ?? 0);
+    for (const m of line.matchAll(LABELLED_TRN)) push(validateVatId(m[1]), m.index ?? 0);
+  });
+
+  const buyer = found.find((f) => f.buyerHint)?.check ?? null;
+  const supplier = found.find((f) => !f.buyerHint)?.check ?? null;
+  const fallbackBuyer = buyer ?? found.find((f) => f.check !== supplier)?.check ?? null;
+  return { supplier, buyer: fallbackBuyer, all: found.map((f) => f.check) };
+}
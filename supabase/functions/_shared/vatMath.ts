@@ -0,0 +1,211 @@
+// supabase/functions/_shared/vatMath.ts
+// Net / VAT / gross consistency, per-rate breakdown and reverse-charge detection.
+import { round2 } from "./amounts.ts";
+import type { LineItem } from "./lineItems.ts";
+import type { PolicyIssue } from "./policyEngine.ts";
+
+export type VatTreatment = "standard" | "reverse_charge" | "intra_community" | "exempt";
+
+export type VatBreakdownRow = {
+  rate: number; // fraction
+  net: number;
+  vat: number;
+};
+
+export type VatReconciliation = {
+  country: string | null;
+  treatment: VatTreatment;
+  net_amount: number | null;
+  tax_amount: number | null;
+  gross_amount: number | null;
+  vat_rate: number | null; // single rate, or the effective rate on mixed-rate invoices
+  vat_amount_computed: number | null;
+  mixed_rate: boolean;
+  breakdown: VatBreakdownRow[];
+  issues: PolicyIssue[];
+};
+
+// Standard and reduced rates in percent (0 % is always accepted). Recently superseded rates are
+// kept so invoices dated before a change still reconcile.
+const LEGAL_RATES: Record<string, number[]> = {
+  AT: [20, 13, 10],
+  BE: [21, 12, 6],
+  BG: [20, 9],
+  CY: [19, 9, 5, 3],
+  CZ: [21, 15, 12, 10],
+  DE: [19, 7, 16, 5],
+  DK: [25],
+  EE: [24, 22, 20, 13, 9],
+  EL: [24, 13, 6],
+  ES: [21, 10, 5, 4],
+  FI: [25.5, 24, 14, 13.5, 10],
+  FR: [20, 10, 5.5, 2.1],
+  HR: [25, 13, 5],
+  HU: [27, 18, 5],
+  IE: [23, 13.5, 9, 4.8],
+  IT: [22, 10, 5, 4],
+  LT: [21, 12, 9, 5],
+  LU: [17, 16, 14, 13, 8, 7, 3],
+  LV: [21, 12, 5],
+  MT: [18, 12, 7, 5],
+  NL: [21, 9],
+  PL: [23, 8, 5],
+  PT: [23, 13, 6],
+  RO: [21, 19, 11, 9, 5],
+  SE: [25, 12, 6],
+  SI: [22, 9.5, 5],
+  SK: [23, 20, 19, 10, 5],
+  GB: [20, 5],
+  AE: [5],
+  SA: [15],
+  CH: [8.1, 7.7, 3.8, 3.7, 2.6, 2.5],
+};
+
+const JURISDICTION_COUNTRY: Record<string, string> = { DE: "DE", UK: "GB", UAE: "AE", KSA: "SA" };
+
+const REVERSE_CHARGE =
+  /reverse[\s-]*charge|steuerschuldnerschaft\s+des\s+leistungsempf|§\s*13b\s*UStG|autoliquidation|inversione\s+contabile|inversi[oó]n\s+del\s+sujeto\s+pasivo|btw\s+verlegd|omv[äa]nd\s+skattskyldighet|art(?:icle|\.)?\s*196\b/i;
+const INTRA_COMMUNITY =
+  /intra[\s-]*(?:community|communautaire|comunitari[ao])|innergemeinschaftlich|§\s*4\s*Nr\.?\s*1\s*b\s*UStG|§\s*6a\s*UStG|art(?:icle|\.)?\s*138\b/i;
+const EXEMPT = /\b(?:steuerfrei|umsatzsteuerbefreit|vat\s+exempt|exempt\s+from\s+vat|exonér[ée]|§\s*19\s*UStG|kleinunternehmer|art(?:icle|\.)?\s*293\s*B)/i;
+
+/** Legal rates as fractions; null when the country is unknown. */
+export function legalRates(country: string | null): number[] | null {
+  const rates = country ? LEGAL_RATES[country === "GR" ? "EL" : country] : null;
+  return rates ? [0, ...rates.map((r) => r / 100)] : null;
+}
+
+/** VAT ID prefix → e-invoice seller country → jurisdiction code. */
+export function vatCountry(args: { supplierVatId?: unknown; sellerCountry?: unknown; jurisdiction?: unknown }): string | null {
+  const prefix = String(args.supplierVatId || "").slice(0, 2).toUpperCase();
+  if (/^[A-Z]{2}$/.test(prefix) && LEGAL_RATES[prefix === "XI" ? "GB" : prefix]) return prefix === "XI" ? "GB" : prefix;
+  const seller = String(args.sellerCountry || "").toUpperCase();
+  if (LEGAL_RATES[seller === "GR" ? "EL" : seller]) return seller === "GR" ? "EL" : seller;
+  return JURISDICTION_COUNTRY[String(args.jurisdiction || "").toUpperCase()] ?? null;
+}
+
+export function detectVatTreatment(text: string): VatTreatment {
+  if (INTRA_COMMUNITY.test(text || "")) return "intra_community";
+  if (REVERSE_CHARGE.test(text || "")) return "reverse_charge";
+  if (EXEMPT.test(text || "")) return "exempt";
+  return "standard";
+}
+
+const pct = (r: number) => `${round2(r * 100)}%`;
+
+function breakdownFromLines(lines: LineItem[]): VatBreakdownRow[] | null {
+  const priced = lines.filter((l) => l.net_amount !== null);
+  if (!priced.length || priced.some((l) => l.vat_rate === null)) return null;
+  const groups = new Map<number, number>();
+  for (const l of priced) groups.set(l.vat_rate as number, (groups.get(l.vat_rate as number) ?? 0) + (l.net_amount as number));
+  // VAT is rounded once per rate group (EN 16931 BR-CO-17), not per line
+  return [...groups.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([rate, net]) => ({ rate, net: round2(net), vat: round2(net * rate) }));
+}
+
+/**
+ * Rebuilds net / VAT / gross from the line rates (or from the header when lines carry no rate),
+ * snaps the effective rate to the country's legal rates and flags rounding, rate and
+ * reverse-charge inconsistencies.
+ */
+export function reconcileVat(args: {
+  net_amount: number | null;
+  tax_amount: number | null;
+  total_amount: number | null;
+  line_items: LineItem[];
+  text: string;
+  country: string | null;
+  buyer_vat_id?: unknown;
+}): VatReconciliation {
+  const issues: PolicyIssue[] = [];
+  const tax = args.tax_amount;
+  const gross = args.total_amount;
+  const treatment = detectVatTreatment(args.text);
+  const rates = legalRates(args.country);
+  const isLegal = (r: number) => !rates || rates.some((x) => Math.abs(x - r) < 0.00005);
+
+  let breakdown = breakdownFromLines(args.line_items) ?? [];
+  let net = args.net_amount ?? (breakdown.length ? round2(breakdown.reduce((s, b) => s + b.net, 0)) : null);
+  if (net === null && gross !== null && tax !== null) net = round2(gross - tax);
+
+  const tol = Math.max(0.02, breakdown.length * 0.01);
+
+  if (!breakdown.length && net !== null && net > 0 && tax !== null) {
+    // Header only: snap the effective rate to the closest legal rate that explains the VAT
+    const effective = tax / net;
+    const candidates = rates ?? [effective];
+    const snapped = candidates.reduce((best, r) => (Math.abs(r - effective) < Math.abs(best - effective) ? r : best), candidates[0]);
+    const rate = Math.abs(round2(net * snapped) - tax) <= tol ? snapped : Math.round(effective * 10000) / 10000;
+    breakdown = [{ rate, net, vat: round2(net * rate) }];
+  }
+
+  const mixed_rate = breakdown.length > 1;
+  const vat_amount_computed = breakdown.length ? round2(breakdown.reduce((s, b) => s + b.vat, 0)) : null;
+  const vat_rate =
+    breakdown.length === 1 ? breakdown[0].rate : mixed_rate && net ? Math.round(((vat_amount_computed ?? 0) / net) * 10000) / 10000 : null;
+
+  const illegal = breakdown.filter((b) => !isLegal(b.rate));
+  if (illegal.length) {
+    issues.push({
+      code: "VAT_RATE_NOT_LEGAL",
+      message: `VAT rate ${illegal.map((b) => pct(b.rate)).join(", ")} is not a legal rate in ${args.country}.`,
+      severity: "warning",
+    });
+  }
+
+  if (tax !== null && vat_amount_computed !== null && treatment === "standard") {
+    const diff = round2(tax - vat_amount_computed);
+    if (Math.abs(diff) > tol) {
+      issues.push({
+        code: "VAT_AMOUNT_MISMATCH",
+        message: `Stated VAT ${tax.toFixed(2)} differs from the computed ${vat_amount_computed.toFixed(2)} (${breakdown.map((b) => `${pct(b.rate)} on ${b.net.toFixed(2)}`).join(" + ")}).`,
+        severity: "warning",
+      });
+    } else if (diff !== 0) {
+      issues.push({ code: "VAT_ROUNDING", message: `VAT differs from the computed amount by ${diff.toFixed(2)} (rounding).`, severity: "info" });
+    }
+  }
+
+  if (net !== null && tax !== null && gross !== null && args.net_amount !== null) {
+    const diff = round2(gross - (net + tax));
+    if (Math.abs(diff) > tol) {
+      issues.push({
+        code: "VAT_GROSS_MISMATCH",
+        message: `Net ${net.toFixed(2)} + VAT ${tax.toFixed(2)} does not equal the total ${gross.toFixed(2)} (difference ${diff.toFixed(2)}).`,
+        severity: "warning",
+      });
+    }
+  }
+
+  if (treatment !== "standard") {
+    if (tax !== null && tax > tol) {
+      issues.push({
+        code: "VAT_CHARGED_DESPITE_EXEMPTION",
+        message: `Invoice refers to ${treatment.replace("_", " ")} but charges VAT of ${tax.toFixed(2)}.`,
+        severity: "warning",
+      });
+    }
+    if (treatment === "intra_community" && !String(args.buyer_vat_id || "").trim()) {
+      issues.push({
+        code: "INTRA_COMMUNITY_BUYER_VAT_ID",
+        message: "Intra-community supply without the customer's VAT ID (Art. 138 Directive 2006/112/EC).",
+        severity: "warning",
+      });
+    }
+  }
+
+  const zeroRated = treatment !== "standard" && (tax === null || tax <= tol);
+  return {
+    country: args.country,
+    treatment,
+    net_amount: net,
+    tax_amount: tax,
+    gross_amount: gross,
+    vat_rate: zeroRated ? 0 : vat_rate,
+    vat_amount_computed: zeroRated ? 0 : vat_amount_computed,
+    mixed_rate,
+    breakdown,
+    issues,
+  };
+}
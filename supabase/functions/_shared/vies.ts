@@ -0,0 +1,78 @@
+// supabase/functions/_shared/vies.ts
+// VIES (EU VAT Information Exchange System) lookup behind an adapter, so live checks can be
+// switched on per environment. VIES_MODE=live uses the EC REST API; anything else uses the stub.
+import { EU_VAT_PREFIXES, type VatIdCheck } from "./vatId.ts";
+
+export type ViesStatus = "valid" | "invalid" | "not_checked" | "unavailable";
+
+export type ViesResult = {
+  status: ViesStatus;
+  source: "stub" | "vies";
+  name?: string | null;
+  address?: string | null;
+  checked_at: string;
+  message?: string;
+};
+
+export interface ViesAdapter {
+  check(vat: VatIdCheck): Promise<ViesResult>;
+}
+
+/** Offline stand-in: mirrors the local checksum result, never calls out. */
+export class StubViesAdapter implements ViesAdapter {
+  check(vat: VatIdCheck): Promise<ViesResult> {
+    const checked_at = new Date().toISOString();
+    if (!EU_VAT_PREFIXES.includes(vat.country) && vat.country !== "XI") {
+      return Promise.resolve({ status: "not_checked", source: "stub", checked_at, message: "Not an EU VAT number." });
+    }
+    return Promise.resolve({
+      status: vat.valid ? "valid" : "invalid",
+      source: "stub",
+      checked_at,
+      message: "Offline format/checksum result; VIES not queried.",
+    });
+  }
+}
+
+export class HttpViesAdapter implements ViesAdapter {
+  constructor(
+    private baseUrl = "https://ec.europa.eu/taxation_customs/vies/rest-api",
+    private timeoutMs = 5000,
+  ) {}
+
+  async check(vat: VatIdCheck): Promise<ViesResult> {
+    const checked_at = new Date().toISOString();
+    if (!EU_VAT_PREFIXES.includes(vat.country) && vat.country !== "XI") {
+      return { status: "not_checked", source: "vies", checked_at, message: "Not an EU VAT number." };
+    }
+
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), this.timeoutMs);
+    try {
+      const res = await fetch(`${this.baseUrl}/ms/${vat.country}/vat/${encodeURIComponent(vat.normalized.slice(2))}`, {
+        signal: ctrl.signal,
+        headers: { Accept: "application/json" },
+      });
+      if (!res.ok) return { status: "unavailable", source: "vies", checked_at, message: `VIES HTTP ${res.status}` };
+      const data = (await res.json()) as { isValid?: boolean; name?: string; address?: string; userError?: string };
+      if (data.userError && data.userError !== "VALID" && data.userError !== "INVALID") {
+        return { status: "unavailable", source: "vies", checked_at, message: data.userError };
+      }
+      return {
+        status: data.isValid ? "valid" : "invalid",
+        source: "vies",
+        name: data.name && data.name !== "---" ? data.name : null,
+        address: data.address && data.address !== "---" ? data.address : null,
+        checked_at,
+      };
+    } catch (e) {
+      return { status: "unavailable", source: "vies", checked_at, message: String((e as Error)?.message || e) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export function getViesAdapter(): ViesAdapter {
+  return Deno.env.get("VIES_MODE") === "live" ? new HttpViesAdapter() : new StubViesAdapter();
+}
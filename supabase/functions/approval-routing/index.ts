@@ -0,0 +1,159 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { isAdmin } from "../_shared/auth.ts";
+import { applyDelegation, escalateOverdueSteps } from "../_shared/approvalChains.ts";
+import { memberIds, resolveOrganization } from "../_shared/organizations.ts";
+
+type Body = {
+  action?: "delegate" | "revoke" | "escalate" | "scheduled";
+  organizationId?: string; // delegate: the workspace whose steps are handed over (default: the active one)
+  userId?: string; // delegate: admins may set up a delegation for someone else
+  delegateId?: string;
+  delegateEmail?: string; // non-admins cannot list profiles, so they name the substitute by email
+  startsOn?: string; // YYYY-MM-DD
+  endsOn?: string;
+  reason?: string;
+  delegationId?: string; // revoke
+};
+
+type Row = Record<string, unknown>;
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const action = body.action || "escalate";
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    if (!serviceKey) return json(500, { error: "Missing SUPABASE_SERVICE_ROLE_KEY" });
+    const writer = createClient(supabaseUrl, serviceKey);
+
+    // pg_cron calls hourly with the service role key and escalates every lapsed step
+    if (action === "scheduled") {
+      if (authHeader !== `Bearer ${serviceKey}`) return json(403, { error: "Forbidden" });
+      return json(200, { ok: true, ...(await escalateOverdueSteps(writer, null)) });
+    }
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+    const admin = await isAdmin(supabase, userId);
+
+    switch (action) {
+      case "delegate": {
+        const membership = await resolveOrganization(writer, userId, body.organizationId);
+        if (!membership) return json(403, { error: "Not a member of this organization" });
+        const owner = String(body.userId || userId);
+        let delegateId = String(body.delegateId || "");
+        const delegateEmail = String(body.delegateEmail || "").trim().toLowerCase();
+        if (!delegateId && delegateEmail) {
+          const { data: profile } = await writer.from("profiles").select("user_id").eq("email", delegateEmail).maybeSingle();
+          if (!profile) return json(404, { error: `No user with email ${delegateEmail}` });
+          delegateId = String(profile.user_id);
+        }
+        const startsOn = String(body.startsOn || "");
+        const endsOn = String(body.endsOn || "");
+        if (owner !== userId && !admin) return json(403, { error: "Only admins can set up delegations for other users" });
+        if (!delegateId) return json(400, { error: "Choose a substitute" });
+        if (delegateId === owner) return json(400, { error: "Choose someone else as substitute" });
+        if (!DATE_RE.test(startsOn) || !DATE_RE.test(endsOn)) return json(400, { error: "Dates must be YYYY-MM-DD" });
+        if (endsOn < startsOn) return json(400, { error: "The end date is before the start date" });
+        const members = await memberIds(writer, membership.organizationId);
+        if (!members.has(owner)) return json(400, { error: "The approver is not a member of this organization" });
+        if (!members.has(delegateId)) return json(400, { error: "The substitute is not a member of this organization" });
+
+        const { data: delegation, error } = await writer
+          .from("approval_delegations")
+          .insert({
+            organization_id: membership.organizationId,
+            user_id: owner,
+            delegate_id: delegateId,
+            starts_on: startsOn,
+            ends_on: endsOn,
+            reason: body.reason?.trim() || null,
+            created_by: userId,
+          })
+          .select("*")
+          .single();
+        if (error) return json(400, { error: error.message });
+
+        await writer.from("notifications").insert({
+          user_id: delegateId,
+          created_by: userId,
+          kind: "approval_delegation",
+          title: `You are the approval substitute from ${startsOn} to ${endsOn}`,
+          body: body.reason?.trim() || null,
+          link: "/dashboard/approvals",
+        });
+        try {
+          await writer.from("audit_logs").insert({
+            user_id: userId,
+            step: "approval_delegation_created",
+            payload: { delegation_id: delegation.id, user_id: owner, delegate_id: delegateId, starts_on: startsOn, ends_on: endsOn },
+          });
+        } catch {
+          // ignore
+        }
+
+        const moved = await applyDelegation(writer, membership.organizationId, owner, userId);
+        return json(200, { ok: true, delegation, ...moved });
+      }
+
+      case "revoke": {
+        if (!body.delegationId) return json(400, { error: "Missing delegationId" });
+        const { data: existing } = await writer.from("approval_delegations").select("*").eq("id", body.delegationId).maybeSingle();
+        if (!existing || (existing.user_id !== userId && !admin)) return json(404, { error: "Delegation not found" });
+
+        const { data: delegation, error } = await writer
+          .from("approval_delegations")
+          .update({ revoked_at: new Date().toISOString() })
+          .eq("id", body.delegationId)
+          .is("revoked_at", null)
+          .select("*")
+          .maybeSingle();
+        if (error) return json(400, { error: error.message });
+        if (!delegation) return json(409, { error: "Delegation was already revoked" });
+
+        try {
+          await writer.from("audit_logs").insert({
+            user_id: userId,
+            step: "approval_delegation_revoked",
+            payload: { delegation_id: delegation.id, user_id: (existing as Row).user_id, delegate_id: (existing as Row).delegate_id },
+          });
+        } catch {
+          // ignore
+        }
+        // Steps already handed over stay with the substitute; the original approver can still decide them
+        return json(200, { ok: true, delegation });
+      }
+
+      case "escalate":
+        if (!admin) return json(403, { error: "Only admins can run escalation" });
+        return json(200, { ok: true, ...(await escalateOverdueSteps(writer, userId)) });
+
+      default:
+        return json(400, { error: `Unknown action "${action}"` });
+    }
+  } catch (e) {
+    return json(500, { error: "approval-routing crashed", message: String(e) });
+  }
+});
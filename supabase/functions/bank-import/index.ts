@@ -0,0 +1,129 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { fingerprintTransactions, parseStatement, type StatementFormat } from "../_shared/bankStatement.ts";
+import { getFxRates } from "../_shared/fx.ts";
+import { runReconciliation } from "../_shared/reconciliationStore.ts";
+import { BOOKKEEPING_ROLES, resolveOrganization } from "../_shared/organizations.ts";
+
+type Body = {
+  fileName?: string;
+  content?: string; // statement file as text (decoded on the client)
+  format?: StatementFormat; // auto-detected when omitted
+};
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const MAX_CONTENT_CHARS = 10_000_000;
+const CHUNK = 500;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const fileName = String(body.fileName || "statement").slice(0, 200);
+    const content = String(body.content || "");
+    if (!content.trim()) return json(400, { error: "Missing statement content" });
+    if (content.length > MAX_CONTENT_CHARS) return json(413, { error: "Statement file too large" });
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+    const membership = await resolveOrganization(supabase, userId);
+    if (!membership) return json(403, { error: "Join or create an organization first" });
+    if (!BOOKKEEPING_ROLES.includes(membership.role)) return json(403, { error: "Only owners and accountants can import statements" });
+
+    let parsed;
+    try {
+      parsed = parseStatement(content, fileName, body.format);
+    } catch (e) {
+      return json(422, { error: e instanceof Error ? e.message : String(e) });
+    }
+    if (!parsed.transactions.length) {
+      return json(422, { error: "No booked transactions found in the statement", issues: parsed.issues });
+    }
+
+    const dates = parsed.transactions.map((t) => t.booking_date).sort();
+    const { data: statement, error: stErr } = await supabase
+      .from("bank_statements")
+      .insert({
+        user_id: userId,
+        file_name: fileName,
+        format: parsed.format,
+        account_iban: parsed.account_iban,
+        currency: parsed.currency,
+        period_from: dates[0],
+        period_to: dates[dates.length - 1],
+        transaction_count: parsed.transactions.length,
+        issues: parsed.issues,
+      })
+      .select("*")
+      .single();
+    if (stErr || !statement) return json(400, { error: stErr?.message || "Could not record statement" });
+
+    const keys = await fingerprintTransactions(parsed.transactions);
+    const rows = parsed.transactions.map((t, i) => ({ ...t, user_id: userId, statement_id: statement.id, dedupe_key: keys[i] }));
+
+    // Rows already imported from an overlapping statement hit the unique key and are skipped
+    let imported = 0;
+    for (let i = 0; i < rows.length; i += CHUNK) {
+      const { data, error } = await supabase
+        .from("bank_transactions")
+        .upsert(rows.slice(i, i + CHUNK), { onConflict: "user_id,dedupe_key", ignoreDuplicates: true })
+        .select("id");
+      if (error) return json(400, { error: error.message, statement_id: statement.id, imported });
+      imported += data?.length ?? 0;
+    }
+    const duplicates = rows.length - imported;
+
+    const { data: updated } = await supabase
+      .from("bank_statements")
+      .update({ imported_count: imported, duplicate_count: duplicates })
+      .eq("id", statement.id)
+      .select("*")
+      .single();
+
+    try {
+      await supabase.from("audit_logs").insert({
+        user_id: userId,
+        step: "bank_statement_imported",
+        payload: { statement_id: statement.id, format: parsed.format, file_name: fileName, transactions: rows.length, imported, duplicates },
+      });
+    } catch {
+      // ignore
+    }
+
+    // Matching is best-effort here; the review queue can re-run it
+    let reconciliation: { suggested: number; auto_confirmed: number } | null = null;
+    if (imported > 0) {
+      try {
+        const fx = await getFxRates("EUR").catch(() => ({}));
+        // Settlements change payment status, which only the service role may write
+        const writer = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || anonKey);
+        const run = await runReconciliation(writer, { userId, organizationId: membership.organizationId }, { fx });
+        reconciliation = { suggested: run.suggested, auto_confirmed: run.auto_confirmed };
+      } catch {
+        // ignore
+      }
+    }
+
+    return json(200, { ok: true, statement: updated ?? statement, imported, duplicates, issues: parsed.issues, reconciliation });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "bank-import crashed", message });
+  }
+});
@@ -0,0 +1,146 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { BANK_PROVIDERS } from "../_shared/bankConnector.ts";
+import { createConnection, isSyncDue, syncConnection, type SyncResult } from "../_shared/bankSync.ts";
+import { getFxRates } from "../_shared/fx.ts";
+import { runReconciliation } from "../_shared/reconciliationStore.ts";
+import { BOOKKEEPING_ROLES, resolveOrganization } from "../_shared/organizations.ts";
+
+type Body = {
+  action?: "connect" | "sync" | "disconnect" | "scheduled";
+  provider?: string;
+  connectionId?: string; // sync: omit to sync all of the organization's connections
+};
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+type Db = ReturnType<typeof createClient>;
+
+/**
+ * New transactions go straight into matching, like a statement import, once per organization. `writer` is a
+ * service-role client: settlements change payment status.
+ */
+async function reconcileAfterSync(writer: Db, results: SyncResult[]) {
+  const scopes = new Map<string, string>();
+  for (const r of results) if (r.imported > 0 && r.organization_id && !scopes.has(r.organization_id)) scopes.set(r.organization_id, r.user_id);
+  if (!scopes.size) return;
+  let fx: Record<string, number> = {};
+  try {
+    fx = await getFxRates("EUR");
+  } catch {
+    // ignore
+  }
+  for (const [organizationId, userId] of scopes) {
+    try {
+      await runReconciliation(writer, { userId, organizationId }, { fx });
+    } catch {
+      // ignore
+    }
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const action = body.action || "sync";
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    // pg_cron calls with the service role key and syncs every connection that is due
+    if (action === "scheduled") {
+      if (!serviceKey || authHeader !== `Bearer ${serviceKey}`) return json(403, { error: "Forbidden" });
+      const admin = createClient(supabaseUrl, serviceKey);
+      const { data: connections, error } = await admin
+        .from("bank_connections")
+        .select("*")
+        .in("status", ["active", "error"])
+        .order("last_synced_at", { ascending: true, nullsFirst: true })
+        .limit(200);
+      if (error) return json(400, { error: error.message });
+
+      const results: SyncResult[] = [];
+      for (const c of (connections || []).filter((c) => isSyncDue(c))) results.push(await syncConnection(admin, c));
+      await reconcileAfterSync(admin, results);
+      return json(200, { ok: true, synced: results.length, results });
+    }
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+    const membership = await resolveOrganization(supabase, userId);
+    if (!membership) return json(403, { error: "Join or create an organization first" });
+    if (!BOOKKEEPING_ROLES.includes(membership.role)) return json(403, { error: "Only owners and accountants can manage bank connections" });
+    const writer = createClient(supabaseUrl, serviceKey || anonKey);
+
+    if (action === "connect") {
+      const provider = String(body.provider || "sandbox");
+      if (!(BANK_PROVIDERS as readonly string[]).includes(provider)) return json(400, { error: `Unknown bank provider "${provider}"` });
+      const connection = await createConnection(supabase, userId, provider);
+      const result = await syncConnection(supabase, connection);
+      await reconcileAfterSync(writer, [result]);
+
+      try {
+        await supabase.from("audit_logs").insert({
+          user_id: userId,
+          step: "bank_connected",
+          payload: { connection_id: connection.id, provider, consent_expires_at: connection.consent_expires_at, imported: result.imported },
+        });
+      } catch {
+        // ignore
+      }
+      return json(200, { ok: true, connection, result });
+    }
+
+    const connectionId = String(body.connectionId || "").trim();
+    let query = supabase.from("bank_connections").select("*").eq("organization_id", membership.organizationId);
+    if (connectionId) query = query.eq("id", connectionId);
+    const { data: connections, error } = await query;
+    if (error) return json(400, { error: error.message });
+    if (connectionId && !connections?.length) return json(404, { error: "Bank connection not found" });
+
+    if (action === "disconnect") {
+      if (!connectionId) return json(400, { error: "Missing connectionId" });
+      // Imported transactions stay; only the consent is dropped
+      const { error: updErr } = await supabase
+        .from("bank_connections")
+        .update({ status: "revoked", consent_id: null, last_error: null })
+        .eq("id", connectionId);
+      if (updErr) return json(400, { error: updErr.message });
+
+      try {
+        await supabase.from("audit_logs").insert({ user_id: userId, step: "bank_disconnected", payload: { connection_id: connectionId } });
+      } catch {
+        // ignore
+      }
+      return json(200, { ok: true });
+    }
+
+    if (action !== "sync") return json(400, { error: `Unknown action "${action}"` });
+
+    const results: SyncResult[] = [];
+    for (const c of connections || []) {
+      if (c.status !== "revoked") results.push(await syncConnection(supabase, c));
+    }
+    await reconcileAfterSync(writer, results);
+    return json(200, { ok: true, results, imported: results.reduce((s, r) => s + r.imported, 0) });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "bank-sync crashed", message });
+  }
+});
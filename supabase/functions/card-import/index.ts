@@ -0,0 +1,113 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { fingerprintCardTransactions, parseCardStatement, type CardStatementFormat } from "../_shared/cardStatement.ts";
+import { runReceiptMatching } from "../_shared/cardReceipts.ts";
+import { getFxRates } from "../_shared/fx.ts";
+
+type Body = {
+  fileName?: string;
+  content?: string; // statement file as text (decoded on the client)
+  format?: CardStatementFormat; // auto-detected when omitted
+};
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const MAX_CONTENT_CHARS = 10_000_000;
+const CHUNK = 500;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const fileName = String(body.fileName || "card-statement").slice(0, 200);
+    const content = String(body.content || "");
+    if (!content.trim()) return json(400, { error: "Missing statement content" });
+    if (content.length > MAX_CONTENT_CHARS) return json(413, { error: "Statement file too large" });
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+
+    let parsed;
+    try {
+      parsed = parseCardStatement(content, fileName, body.format);
+    } catch (e) {
+      return json(422, { error: e instanceof Error ? e.message : String(e) });
+    }
+    if (!parsed.transactions.length) {
+      return json(422, { error: "No card transactions found in the file", issues: parsed.issues });
+    }
+
+    // Card holders are users of this workspace; profiles are only readable with the service role
+    const holderIds = new Map<string, string>();
+    const emails = [...new Set(parsed.transactions.map((t) => t.card_holder_email).filter((e): e is string => !!e))];
+    if (emails.length && serviceKey) {
+      const admin = createClient(supabaseUrl, serviceKey);
+      const { data: profiles } = await admin.from("profiles").select("user_id,email").in("email", emails);
+      for (const p of profiles || []) if (p.email) holderIds.set(String(p.email).toLowerCase(), String(p.user_id));
+    }
+
+    const keys = await fingerprintCardTransactions(parsed.transactions);
+    const rows = parsed.transactions.map(({ reference, ...t }, i) => ({
+      ...t,
+      user_id: userId,
+      card_holder_id: t.card_holder_email ? holderIds.get(t.card_holder_email) ?? null : null,
+      source: parsed.format,
+      dedupe_key: keys[i],
+      receipt_required: t.amount > 0,
+      raw: { reference, file_name: fileName },
+    }));
+
+    let imported = 0;
+    for (let i = 0; i < rows.length; i += CHUNK) {
+      const { data, error } = await supabase
+        .from("card_transactions")
+        .upsert(rows.slice(i, i + CHUNK), { onConflict: "user_id,dedupe_key", ignoreDuplicates: true })
+        .select("id");
+      if (error) return json(400, { error: error.message, imported });
+      imported += data?.length ?? 0;
+    }
+    const duplicates = rows.length - imported;
+
+    try {
+      await supabase.from("audit_logs").insert({
+        user_id: userId,
+        step: "card_statement_imported",
+        payload: { format: parsed.format, file_name: fileName, transactions: rows.length, imported, duplicates },
+      });
+    } catch {
+      // ignore
+    }
+
+    let matching: { matched: number; suggested: number } | null = null;
+    if (imported > 0) {
+      try {
+        const fx = await getFxRates("EUR").catch(() => ({}));
+        matching = await runReceiptMatching(supabase, userId, { fx });
+      } catch {
+        // ignore
+      }
+    }
+
+    return json(200, { ok: true, format: parsed.format, imported, duplicates, issues: parsed.issues, matching });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "card-import crashed", message });
+  }
+});
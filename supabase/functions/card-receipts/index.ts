@@ -0,0 +1,107 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { linkReceipt, runReceiptMatching, sendReceiptReminders, unlinkReceipt } from "../_shared/cardReceipts.ts";
+import { getFxRates } from "../_shared/fx.ts";
+import { createReceiptTasks, submitDeclaration } from "../_shared/receiptTasks.ts";
+
+type Body = {
+  action?: "match" | "link" | "unlink" | "remind" | "tasks" | "declare" | "scheduled";
+  transactionId?: string;
+  invoiceId?: string;
+  transactionIds?: string[]; // remind: limit to these rows
+  businessPurpose?: string; // declare
+  reason?: string;
+  signatureName?: string;
+};
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const action = body.action || "match";
+    const transactionId = String(body.transactionId || "").trim();
+    const invoiceId = String(body.invoiceId || "").trim();
+    if ((action === "link" || action === "unlink" || action === "declare") && !transactionId) return json(400, { error: "Missing transactionId" });
+    if (action === "link" && !invoiceId) return json(400, { error: "Missing invoiceId" });
+    if (action === "declare" && !(body.businessPurpose?.trim() && body.reason?.trim() && body.signatureName?.trim())) {
+      return json(400, { error: "Business purpose, reason and signature are required" });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    // pg_cron calls daily with the service role key and opens receipt tasks for every user
+    if (action === "scheduled") {
+      if (!serviceKey || authHeader !== `Bearer ${serviceKey}`) return json(403, { error: "Forbidden" });
+      return json(200, { ok: true, ...(await createReceiptTasks(createClient(supabaseUrl, serviceKey))) });
+    }
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+
+    // Card holders may only read card_transactions under RLS; their receipts and declarations are
+    // written with the service role after the shared helpers have checked owner/holder access.
+    const writer = serviceKey ? createClient(supabaseUrl, serviceKey) : supabase;
+
+    switch (action) {
+      case "match": {
+        let fx: Record<string, number> = {};
+        try {
+          fx = await getFxRates("EUR");
+        } catch {
+          // ignore
+        }
+        return json(200, { ok: true, ...(await runReceiptMatching(supabase, userId, { fx })) });
+      }
+      case "link":
+      case "unlink": {
+        try {
+          const transaction =
+            action === "link" ? await linkReceipt(writer, userId, transactionId, invoiceId) : await unlinkReceipt(supabase, userId, transactionId);
+          return json(200, { ok: true, transaction });
+        } catch (e) {
+          return json(409, { error: e instanceof Error ? e.message : String(e) });
+        }
+      }
+      case "remind":
+        return json(200, { ok: true, ...(await sendReceiptReminders(supabase, userId, { transactionIds: body.transactionIds })) });
+      case "tasks":
+        return json(200, { ok: true, ...(await createReceiptTasks(supabase, { userId })) });
+      case "declare": {
+        try {
+          const declaration = await submitDeclaration(writer, userId, transactionId, {
+            businessPurpose: String(body.businessPurpose || ""),
+            reason: String(body.reason || ""),
+            signatureName: String(body.signatureName || ""),
+            userAgent: req.headers.get("user-agent"),
+          });
+          return json(200, { ok: true, declaration });
+        } catch (e) {
+          return json(409, { error: e instanceof Error ? e.message : String(e) });
+        }
+      }
+      default:
+        return json(400, { error: `Unknown action "${action}"` });
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "card-receipts crashed", message });
+  }
+});
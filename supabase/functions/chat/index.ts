@@ -90,10 +90,17 @@ serve(async (req) => {
       const { data: { user }, error: userErr } = await supabaseAdmin.auth.getUser(token);
 
       if (!userErr && user?.id) {
-        const { data: invoices } = await supabaseAdmin
+        // Submitters talk about their own uploads, every other role about the whole organization's inbox
+        const { data: orgId } = await supabaseAdmin.rpc("active_organization_id", { _user_id: user.id });
+        const { data: member } = orgId
+          ? await supabaseAdmin.from("organization_members").select("role").eq("organization_id", orgId).eq("user_id", user.id).maybeSingle()
+          : { data: null };
+        const scoped = supabaseAdmin
           .from("invoices")
-          .select("vendor_name,total_amount,compliance_status,risk_score,is_flagged,created_at,invoice_number")
-          .eq("user_id", user.id)
+          .select("vendor_name,total_amount,compliance_status,risk_score,is_flagged,created_at,invoice_number");
+        const { data: invoices } = await (member && member.role !== "submitter"
+          ? scoped.eq("organization_id", orgId)
+          : scoped.eq("user_id", user.id))
           .order("created_at", { ascending: false })
           .limit(50);
 
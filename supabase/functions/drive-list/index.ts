@@ -14,7 +14,7 @@ Deno.serve(async (req) => {
     }
 
     const q = encodeURIComponent(
-      "trashed=false and (mimeType='application/pdf' or mimeType='image/png' or mimeType='image/jpeg')"
+      "trashed=false and (mimeType='application/pdf' or mimeType='image/png' or mimeType='image/jpeg' or mimeType='text/xml' or mimeType='application/xml')"
     );
 
     const url =
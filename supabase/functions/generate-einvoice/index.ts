@@ -0,0 +1,190 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import {
+  buildUblInvoice,
+  computeTotals,
+  validateEn16931,
+  type EInvoiceFormat,
+  type OutgoingInvoice,
+  type OutgoingLine,
+  type OutgoingParty,
+  type VatCategory,
+} from "../_shared/ubl.ts";
+import { renderInvoicePdf } from "../_shared/invoicePdf.ts";
+
+type Body = {
+  invoiceId?: string;
+  format?: EInvoiceFormat;
+  dryRun?: boolean; // validate only, nothing is stored
+};
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const asParty = (v: unknown): OutgoingParty => {
+  const o = (v && typeof v === "object" ? v : {}) as Record<string, unknown>;
+  const s = (k: string) => (o[k] === null || o[k] === undefined ? null : String(o[k]).trim() || null);
+  return {
+    name: s("name") || "",
+    street: s("street"),
+    city: s("city"),
+    postcode: s("postcode"),
+    country: s("country")?.toUpperCase() ?? null,
+    vat_id: s("vat_id"),
+    email: s("email"),
+    phone: s("phone"),
+    contact_name: s("contact_name"),
+  };
+};
+
+type Row = Record<string, unknown>;
+
+function toOutgoingInvoice(inv: Row, rows: Row[]): OutgoingInvoice {
+  const seller = asParty(inv.seller);
+  const sellerRaw = (inv.seller || {}) as Record<string, unknown>;
+  const lines: OutgoingLine[] = rows.map((r) => ({
+    description: String(r.description || ""),
+    quantity: Number(r.quantity ?? 1),
+    unit_code: r.unit_code ? String(r.unit_code) : "C62",
+    unit_price: Number(r.unit_price ?? r.net_amount ?? 0),
+    vat_rate: Number(r.vat_rate ?? 0),
+    vat_category: (r.vat_category || null) as VatCategory | null,
+  }));
+
+  return {
+    invoice_number: String(inv.invoice_number || ""),
+    issue_date: String(inv.invoice_date || ""),
+    due_date: inv.due_date ? String(inv.due_date) : null,
+    type_code: "380",
+    currency: String(inv.currency || "EUR").toUpperCase(),
+    buyer_reference: inv.buyer_reference ? String(inv.buyer_reference) : null,
+    payment_terms: inv.payment_terms ? String(inv.payment_terms) : null,
+    payment_reference: inv.invoice_number ? String(inv.invoice_number) : null,
+    iban: sellerRaw.iban ? String(sellerRaw.iban) : null,
+    bic: sellerRaw.bic ? String(sellerRaw.bic) : null,
+    note: inv.invoice_note ? String(inv.invoice_note) : null,
+    seller,
+    buyer: asParty(inv.buyer),
+    lines,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const invoiceId = String(body.invoiceId || "").trim();
+    const format: EInvoiceFormat = body.format === "peppol" ? "peppol" : "xrechnung";
+    if (!invoiceId) return json(400, { error: "Missing invoiceId" });
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+
+    // User-scoped client: RLS restricts reads/writes and storage to the caller's own rows/folder
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+
+    const { data: inv, error: invErr } = await supabase
+      .from("invoices")
+      .select("*")
+      .eq("id", invoiceId)
+      .single();
+    if (invErr || !inv) return json(404, { error: "Invoice not found" });
+    if (inv.user_id !== userId) return json(403, { error: "Forbidden" });
+    if (inv.direction !== "outgoing") return json(400, { error: "Only outgoing invoices can be issued as e-invoices" });
+
+    const { data: rows, error: rowsErr } = await supabase
+      .from("invoice_line_items")
+      .select("*")
+      .eq("invoice_id", invoiceId)
+      .order("line_index", { ascending: true });
+    if (rowsErr) return json(400, { error: rowsErr.message });
+
+    const doc = toOutgoingInvoice(inv, rows || []);
+    const issues = validateEn16931(doc, format);
+    const errors = issues.filter((i) => i.severity === "error");
+    const totals = computeTotals(doc);
+    const validation = { format, valid: errors.length === 0, issues, checked_at: new Date().toISOString() };
+
+    if (body.dryRun) return json(200, { ok: errors.length === 0, validation, totals });
+
+    if (errors.length) {
+      await supabase
+        .from("invoices")
+        .update({ einvoice_validation: validation, compliance_status: "non_compliant" })
+        .eq("id", invoiceId);
+      return json(422, { error: "EN 16931 validation failed", validation, totals });
+    }
+
+    const xml = buildUblInvoice(doc, format);
+    const pdf = await renderInvoicePdf(doc);
+
+    const base = `${userId}/outgoing/${doc.invoice_number.replace(/[^\w.-]+/g, "_")}`;
+    const xmlPath = `${base}.xml`;
+    const pdfPath = `${base}.pdf`;
+
+    const xmlUp = await supabase.storage
+      .from("invoices")
+      .upload(xmlPath, new Blob([xml], { type: "application/xml" }), { upsert: true, contentType: "application/xml" });
+    if (xmlUp.error) return json(400, { error: "XML upload failed", message: xmlUp.error.message });
+
+    const pdfUp = await supabase.storage
+      .from("invoices")
+      .upload(pdfPath, new Blob([pdf], { type: "application/pdf" }), { upsert: true, contentType: "application/pdf" });
+    if (pdfUp.error) return json(400, { error: "PDF upload failed", message: pdfUp.error.message });
+
+    const xmlUrl = supabase.storage.from("invoices").getPublicUrl(xmlPath).data?.publicUrl || "";
+    const pdfUrl = supabase.storage.from("invoices").getPublicUrl(pdfPath).data?.publicUrl || "";
+
+    const { error: updErr } = await supabase
+      .from("invoices")
+      .update({
+        file_url: pdfUrl,
+        file_name: `${doc.invoice_number}.pdf`,
+        file_type: "application/pdf",
+        storage_path: pdfPath,
+        einvoice_format: format,
+        einvoice_xml_path: xmlPath,
+        einvoice_validation: validation,
+        total_amount: totals.payable,
+        tax_amount: totals.tax_total,
+        vat_amount_computed: totals.tax_total,
+        vat_rate: totals.breakdown.length === 1 ? totals.breakdown[0].rate : null,
+        vat_breakdown: totals.breakdown.map((b) => ({ rate: b.rate, net: b.taxable, vat: b.tax, category: b.category })),
+        vat_treatment: totals.breakdown.some((b) => b.category === "AE") ? "reverse_charge" : totals.breakdown.some((b) => b.category === "K") ? "intra_community" : "standard",
+        compliance_status: "compliant",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", invoiceId);
+    if (updErr) return json(400, { error: updErr.message });
+
+    try {
+      await supabase.from("audit_logs").insert({
+        user_id: userId,
+        invoice_id: invoiceId,
+        step: "einvoice_generated",
+        payload: { format, xml_path: xmlPath, pdf_path: pdfPath, warnings: issues.length },
+      });
+    } catch {
+      // ignore
+    }
+
+    return json(200, { ok: true, format, validation, totals, xml, xml_url: xmlUrl, pdf_url: pdfUrl });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "generate-einvoice crashed", message });
+  }
+});
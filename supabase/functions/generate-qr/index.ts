@@ -1,8 +1,32 @@
 // supabase/functions/generate-qr/index.ts
 import { corsHeaders } from "../_shared/cors.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
-
-type Body = { invoiceId?: string; method?: "sepa" | "zakat" | "custom" };
+import { normalizeBic, normalizeIban, validateBic, validateIban } from "../_shared/bankDetails.ts";
+import { buildEpcPayload } from "../_shared/epcQr.ts";
+import { BOOKKEEPING_ROLES, hasOrgRoleFor } from "../_shared/organizations.ts";
+import { buildSwissQrPayload, type SwissAddress } from "../_shared/swissQr.ts";
+import { buildUkPaymentPayload } from "../_shared/ukPayment.ts";
+
+type Method = "auto" | "sepa" | "swiss_qr" | "uk_fp" | "zakat" | "custom";
+type QrFormat = "epc" | "spc" | "ukfp" | "internal";
+type QrIssue = { field: string; message: string; severity: "error" | "warning" };
+
+type Body = {
+  invoiceId?: string;
+  method?: Method;
+  // Creditor address for Swiss QR-bills when the invoice has no structured seller address
+  creditor?: Partial<SwissAddress>;
+};
+
+/** CHF or a CH/LI account → QR-bill, GBP → Faster Payments, EUR → GiroCode. */
+function pickMethod(currency: string, iban: string | null, jurisdiction: string | null): Exclude<Method, "auto"> {
+  const cc = String(iban || "").slice(0, 2);
+  if (currency === "CHF" || cc === "CH" || cc === "LI") return "swiss_qr";
+  if (currency === "GBP" || jurisdiction === "UK") return "uk_fp";
+  if (currency === "SAR" || jurisdiction === "KSA") return "zakat";
+  if (currency === "EUR") return "sepa";
+  return "custom";
+}
 
 function json(status: number, data: unknown) {
   return new Response(JSON.stringify(data), {
@@ -51,21 +75,37 @@ Deno.serve(async (req) => {
 
     const body = (await req.json().catch(() => ({}))) as Body;
     const invoiceId = String(body.invoiceId || "").trim();
-    const method = body.method || "sepa";
     if (!invoiceId) return json(400, { error: "Missing invoiceId" });
 
     const { data: inv, error: invErr } = await supabase
       .from("invoices")
-      .select("id,user_id,total_amount,currency,vendor_name,invoice_number,due_date")
+      .select("id,user_id,organization_id,total_amount,currency,vendor_name,invoice_number,due_date,jurisdiction,iban,bic,account_holder,payment_reference,sort_code,account_number,seller")
       .eq("id", invoiceId)
       .single();
 
     if (invErr || !inv) return json(404, { error: "Invoice not found" });
-    if (inv.user_id !== userId) return json(403, { error: "Forbidden" });
+    if (inv.user_id !== userId && !(await hasOrgRoleFor(supabase, inv.organization_id, userId, BOOKKEEPING_ROLES))) {
+      return json(403, { error: "Forbidden" });
+    }
 
     const amount = Number(inv.total_amount ?? 0);
-    const currency = inv.currency ?? "EUR";
+    const currency = String(inv.currency ?? "EUR").toUpperCase();
+
+    const iban = inv.iban ? normalizeIban(inv.iban) : null;
+    const bic = inv.bic ? normalizeBic(inv.bic) : null;
+    const method = !body.method || body.method === "auto" ? pickMethod(currency, iban, inv.jurisdiction ?? null) : body.method;
+
+    if (method === "sepa" || method === "swiss_qr") {
+      if (!iban || !validateIban(iban)) {
+        return json(422, { error: "Missing or invalid IBAN", needs_info_fields: ["iban"], iban });
+      }
+      if (bic && !validateBic(bic)) {
+        return json(422, { error: "Invalid BIC", needs_info_fields: ["bic"], bic });
+      }
+    }
 
+    const beneficiary = inv.account_holder || inv.vendor_name || null;
+    const reference = inv.payment_reference || inv.invoice_number || null;
     const payload = {
       method,
       invoiceId,
@@ -74,40 +114,121 @@ Deno.serve(async (req) => {
       amount,
       currency,
       dueDate: inv.due_date,
+      beneficiary,
+      iban,
+      bic,
+      sortCode: inv.sort_code ?? null,
+      accountNumber: inv.account_number ?? null,
+      reference,
       createdAt: new Date().toISOString(),
     };
 
-    const qrString = `PAYMENT|${method.toUpperCase()}|${invoiceId}|${amount.toFixed(2)}|${currency}`;
+    let qrString: string;
+    let qrFormat: QrFormat = "internal";
+    let qrIssues: QrIssue[] = [];
+    const reject = (label: string, issues: QrIssue[]) => {
+      const reasons = issues.filter((i) => i.severity === "error").map((i) => i.message);
+      return json(422, { error: `Cannot build ${label}: ${reasons.join(" ")}`, method, issues });
+    };
+
+    if (method === "sepa") {
+      const epc = buildEpcPayload({ beneficiary: String(beneficiary || ""), iban: iban || "", bic, amount, currency, reference });
+      if (!epc.payload) return reject("GiroCode", epc.issues);
+      qrString = epc.payload;
+      qrFormat = "epc";
+      qrIssues = epc.issues;
+    } else if (method === "swiss_qr") {
+      const seller = (inv.seller && typeof inv.seller === "object" ? inv.seller : {}) as Record<string, unknown>;
+      const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+      const spc = buildSwissQrPayload({
+        iban: iban || "",
+        creditor: {
+          name: str(body.creditor?.name) ?? String(beneficiary || ""),
+          street: str(body.creditor?.street) ?? str(seller.street),
+          building_number: str(body.creditor?.building_number) ?? str(seller.building_number),
+          postcode: str(body.creditor?.postcode) ?? str(seller.postcode),
+          city: str(body.creditor?.city) ?? str(seller.city),
+          country: str(body.creditor?.country) ?? str(seller.country) ?? iban?.slice(0, 2) ?? null,
+        },
+        amount: amount > 0 ? amount : null,
+        currency,
+        reference: inv.payment_reference ?? null,
+        message: inv.payment_reference ? null : inv.invoice_number ? `Invoice ${inv.invoice_number}` : null,
+      });
+      if (!spc.payload) return reject("Swiss QR-bill", spc.issues);
+      qrString = spc.payload;
+      qrFormat = "spc";
+      qrIssues = spc.issues;
+    } else if (method === "uk_fp") {
+      const uk = buildUkPaymentPayload({
+        payee: String(beneficiary || ""),
+        sort_code: inv.sort_code,
+        account_number: inv.account_number,
+        iban,
+        amount,
+        currency,
+        reference,
+      });
+      if (!uk.payload) return reject("UK payment details", uk.issues);
+      qrString = uk.payload;
+      qrFormat = "ukfp";
+      qrIssues = uk.issues;
+    } else {
+      qrString = `PAYMENT|${method.toUpperCase()}|${invoiceId}|${amount.toFixed(2)}|${currency}`;
+    }
 
     const { data: existing, error: exErr } = await supabase
       .from("payments")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id,status")
       .eq("invoice_id", invoiceId)
       .maybeSingle();
     if (exErr) return json(400, { error: exErr.message });
+    // Once a payment leaves draft (queued, sent, paid, ...) its amount and payload are what the bank got
+    if (existing?.id && existing.status !== "draft") {
+      return json(409, { error: `Payment is already ${existing.status}; its payment details can no longer change`, status: existing.status });
+    }
 
     if (existing?.id) {
       const { error: upPayErr } = await supabase
         .from("payments")
-        .update({ amount, currency, updated_at: new Date().toISOString() })
+        .update({ amount, currency, payload, updated_at: new Date().toISOString() })
         .eq("id", existing.id);
       if (upPayErr) return json(400, { error: upPayErr.message });
     } else {
-      const { error: insPayErr } = await supabase.from("payments").insert({
-        user_id: userId,
+      const { data: created, error: insPayErr } = await supabase
+        .from("payments")
+        .insert({
+          user_id: userId,
+          organization_id: inv.organization_id,
+          invoice_id: invoiceId,
+          amount,
+          currency,
+          payload,
+          status: "draft",
+          status_changed_at: new Date().toISOString(),
+        })
+        .select("id")
+        .single();
+      if (insPayErr) return json(400, { error: insPayErr.message });
+
+      // First entry of the payment timeline; the timeline is written by the service role only
+      const writer = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || supabaseAnonKey);
+      await writer.from("payment_events").insert({
+        payment_id: created.id,
+        organization_id: inv.organization_id,
         invoice_id: invoiceId,
-        amount,
-        currency,
-        status: "draft",
+        user_id: userId,
+        actor_id: userId,
+        from_status: null,
+        to_status: "draft",
+        reason: `${qrFormat} payload generated`,
       });
-      if (insPayErr) return json(400, { error: insPayErr.message });
     }
 
     const { error: updInvErr } = await supabase
       .from("invoices")
       .update({
-        payment_payload: payload,
+        payment_payload: { ...payload, qrFormat, qrIssues },
         payment_qr_string: qrString,
         updated_at: new Date().toISOString(),
       })
@@ -115,7 +236,7 @@ Deno.serve(async (req) => {
 
     if (updInvErr) return json(400, { error: updInvErr.message });
 
-    return json(200, { ok: true, invoiceId, payload, qrString });
+    return json(200, { ok: true, invoiceId, payload, qrString, qrFormat, qrIssues });
   } catch (e) {
     return json(500, { error: "generate-qr crashed", message: String(e) });
   }
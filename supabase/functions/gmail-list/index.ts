@@ -51,7 +51,7 @@ Deno.serve(async (req) => {
       });
     }
 
-    const q = "newer_than:90d has:attachment (filename:pdf OR filename:png OR filename:jpg OR filename:jpeg)";
+    const q = "newer_than:90d has:attachment (filename:pdf OR filename:png OR filename:jpg OR filename:jpeg OR filename:xml)";
     const listUrl =
       `https://gmail.googleapis.com/gmail/v1/users/me/messages?maxResults=${encodeURIComponent(String(maxResults))}&q=${encodeURIComponent(q)}`;
 
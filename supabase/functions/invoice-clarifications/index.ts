@@ -0,0 +1,240 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { isAdmin } from "../_shared/auth.ts";
+import {
+  addMessage,
+  applyPipelineResult,
+  CLARIFIABLE_FIELDS,
+  cleanFieldValues,
+  fallbackText,
+  findByToken,
+  looksLikeEInvoiceXml,
+  openClarification,
+  pipelineFields,
+  type AuthorKind,
+  type Clarification,
+  type ClarificationRecipient,
+} from "../_shared/clarifications.ts";
+
+type Body = {
+  // request/respond/cancel act for a signed-in user; view/respond with `token` serve the vendor link (no account)
+  action?: "request" | "view" | "respond" | "cancel";
+  invoiceId?: string;
+  clarificationId?: string;
+  token?: string;
+  recipient?: ClarificationRecipient; // request
+  recipientEmail?: string;
+  fields?: string[];
+  message?: string; // request / respond
+  values?: Record<string, unknown>; // respond: field -> corrected value
+  // respond: corrected document; `text` is what the browser could read from it (PDF text layer, XML)
+  document?: { fileName?: string; fileType?: string; dataBase64?: string; text?: string };
+};
+
+type Row = Record<string, unknown>;
+
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const INVOICE_FIELDS =
+  "id,user_id,organization_id,file_name,file_type,vendor_name,invoice_number,invoice_date,total_amount,tax_amount,currency,supplier_vat_id,buyer_vat_id,iban,bic,account_holder,payment_reference,due_date,payment_terms,approval,approval_reasons,needs_info_fields,extracted_text";
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function decodeBase64(b64: string): Uint8Array {
+  const bin = atob(b64.replace(/^data:[^,]*,/, ""));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const action = body.action || "view";
+    const token = String(body.token || "").trim();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    if (!serviceKey) return json(500, { error: "Service role key is not configured" });
+
+    // Clarifications and their messages are written with the service role once access has been checked:
+    // by the link token for vendors, by invoice ownership / approver / admin for signed-in users
+    const writer = createClient(supabaseUrl, serviceKey);
+
+    const loadInvoice = async (id: string) => {
+      const { data, error } = await writer.from("invoices").select(INVOICE_FIELDS).eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data as Row | null;
+    };
+
+    // --- Vendor link: no account, the token is the credential ---
+    if (token && (action === "view" || action === "respond")) {
+      let c: Clarification;
+      try {
+        c = await findByToken(writer, token);
+      } catch (e) {
+        return json(404, { error: e instanceof Error ? e.message : String(e) });
+      }
+      const inv = await loadInvoice(c.invoice_id);
+      if (!inv) return json(404, { error: "Invoice not found" });
+
+      if (action === "view") {
+        const { data: messages, error } = await writer
+          .from("invoice_clarification_messages")
+          .select("id,author_kind,body,field_values,document_name,created_at")
+          .eq("clarification_id", c.id)
+          .order("created_at");
+        if (error) return json(400, { error: error.message });
+        return json(200, {
+          ok: true,
+          clarification: { id: c.id, requested_fields: c.requested_fields, status: c.status, expires_at: c.token_expires_at },
+          invoice: {
+            vendor_name: inv.vendor_name,
+            invoice_number: inv.invoice_number,
+            invoice_date: inv.invoice_date,
+            total_amount: inv.total_amount,
+            currency: inv.currency,
+          },
+          fields: Object.fromEntries(c.requested_fields.map((f) => [f, { label: CLARIFIABLE_FIELDS[f] || f, value: inv[f] ?? null }])),
+          messages: messages || [],
+        });
+      }
+      return await respond(c, inv, "vendor", null);
+    }
+
+    // --- Signed-in users ---
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+
+    const canAccess = async (inv: Row, c?: Clarification | null) => {
+      if (inv.user_id === userId || c?.requested_by === userId) return true;
+      const { data } = await writer.rpc("is_invoice_approver", { _invoice_id: inv.id, _user_id: userId });
+      return !!data || (await isAdmin(supabase, userId));
+    };
+
+    if (action === "request") {
+      const invoiceId = String(body.invoiceId || "").trim();
+      if (!invoiceId) return json(400, { error: "Missing invoiceId" });
+      const recipient = body.recipient === "vendor" ? "vendor" : "submitter";
+      const inv = await loadInvoice(invoiceId);
+      if (!inv) return json(404, { error: "Invoice not found" });
+      if (!(await canAccess(inv))) return json(403, { error: "Forbidden" });
+
+      const fields = Array.isArray(body.fields) ? body.fields.map(String).filter((f) => f in CLARIFIABLE_FIELDS) : undefined;
+      const res = await openClarification(writer, inv, {
+        requestedBy: userId,
+        recipient,
+        recipientEmail: body.recipientEmail,
+        fields,
+        message: body.message,
+      });
+      return json(200, { ok: true, ...res });
+    }
+
+    const clarificationId = String(body.clarificationId || "").trim();
+    if (!clarificationId) return json(400, { error: "Missing clarificationId" });
+    const { data: found, error: cErr } = await writer
+      .from("invoice_clarifications")
+      .select("id,invoice_id,user_id,requested_by,recipient,recipient_email,requested_fields,status,token_expires_at")
+      .eq("id", clarificationId)
+      .maybeSingle();
+    if (cErr) return json(400, { error: cErr.message });
+    if (!found) return json(404, { error: "Clarification not found" });
+    const c = found as Clarification;
+    const inv = await loadInvoice(c.invoice_id);
+    if (!inv) return json(404, { error: "Invoice not found" });
+    if (!(await canAccess(inv, c))) return json(403, { error: "Forbidden" });
+    if (c.status !== "open") return json(409, { error: "This clarification is already closed" });
+
+    if (action === "cancel") {
+      const { error } = await writer.from("invoice_clarifications").update({ status: "canceled", token_hash: null }).eq("id", c.id);
+      if (error) return json(400, { error: error.message });
+      await addMessage(writer, c, { author_kind: "system", body: "Clarification closed without an answer." });
+      return json(200, { ok: true });
+    }
+    if (action === "respond") return await respond(c, inv, inv.user_id === userId ? "submitter" : "requester", userId);
+    return json(400, { error: "Unknown action" });
+
+    // Stores the answer (values, note, corrected document) and, when it carries data, re-runs process-invoice
+    // for the invoice owner and applies the outcome
+    async function respond(c: Clarification, inv: Row, author: AuthorKind, actorId: string | null) {
+      const { values, errors } = cleanFieldValues(body.values, author === "vendor" ? c.requested_fields : undefined);
+      if (errors.length) return json(400, { error: errors.join("; "), errors });
+      const note = String(body.message || "").trim();
+      const doc = body.document?.dataBase64 ? body.document : null;
+      if (!Object.keys(values).length && !note && !doc) return json(400, { error: "Send the missing values, a message or a corrected document" });
+
+      let documentPath: string | null = null;
+      let documentName: string | null = null;
+      if (doc) {
+        const bytes = decodeBase64(String(doc.dataBase64));
+        if (bytes.length > MAX_DOCUMENT_BYTES) return json(413, { error: "Documents can be at most 10 MB" });
+        documentName = String(doc.fileName || "document").slice(0, 200);
+        const safeName = documentName.replace(/[^\w.-]+/g, "_");
+        documentPath = `${inv.user_id}/clarifications/${c.id}/${Date.now()}_${safeName}`;
+        const up = await writer.storage
+          .from("invoices")
+          .upload(documentPath, new Blob([bytes], { type: doc.fileType || "application/octet-stream" }), {
+            contentType: doc.fileType || "application/octet-stream",
+          });
+        if (up.error) return json(400, { error: "Document upload failed", message: up.error.message });
+      }
+
+      const message = await addMessage(writer, c, {
+        author_kind: author,
+        author_id: actorId,
+        body: note || null,
+        field_values: Object.keys(values).length ? values : null,
+        document_path: documentPath,
+        document_name: documentName,
+      });
+
+      const docText = String(doc?.text || "").trim();
+      if (!Object.keys(values).length && !docText) {
+        // A note (or a document the browser could not read) alone goes to the thread for a person to act on
+        return json(200, { ok: true, message, rerun: null });
+      }
+
+      const text = docText || String(inv.extracted_text || "").trim() || fallbackText(inv, values);
+      const xml = looksLikeEInvoiceXml(text);
+      const res = await fetch(`${supabaseUrl}/functions/v1/process-invoice`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${serviceKey}` },
+        body: JSON.stringify({
+          actingUserId: inv.user_id,
+          invoiceId: inv.id,
+          fileName: documentName || inv.file_name || "invoice",
+          fileType: doc?.fileType || inv.file_type || "application/pdf",
+          ...(xml ? { einvoiceXml: text } : { extractedText: text }),
+          vision: pipelineFields(inv, values),
+        }),
+      });
+      const result = (await res.json().catch(() => null)) as Row | null;
+      if (!res.ok || !result) {
+        await addMessage(writer, c, { author_kind: "system", body: "The answer was saved but the invoice could not be re-checked automatically." });
+        return json(502, { error: "process-invoice failed", message: result?.error ?? res.statusText, saved: message });
+      }
+
+      const rerun = await applyPipelineResult(writer, c, inv, result, actorId, docText || null);
+      return json(200, { ok: true, message, rerun });
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "invoice-clarifications crashed", message });
+  }
+});
@@ -0,0 +1,191 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { ORG_ROLES, orgRole, type OrgRole } from "../_shared/organizations.ts";
+
+type Body = {
+  action?: "create" | "rename" | "members" | "add_member" | "update_member" | "remove_member";
+  organizationId?: string;
+  name?: string; // create / rename
+  email?: string; // add_member: members are named by email, profiles are not readable across users
+  role?: OrgRole; // add_member / update_member
+  memberId?: string; // update_member / remove_member
+};
+
+type Row = Record<string, unknown>;
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const action = body.action || "members";
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    if (!serviceKey) return json(500, { error: "Missing SUPABASE_SERVICE_ROLE_KEY" });
+
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+
+    // Organizations and memberships are written with the service role once the caller's role has been checked
+    const writer = createClient(supabaseUrl, serviceKey);
+
+    const audit = async (organizationId: string, step: string, payload: Row) => {
+      try {
+        await writer.from("audit_logs").insert({ user_id: userId, step, payload: { organization_id: organizationId, ...payload } });
+      } catch {
+        // ignore
+      }
+    };
+
+    if (action === "create") {
+      const name = String(body.name || "").trim();
+      if (!name) return json(400, { error: "Name the organization" });
+      const { data: org, error } = await writer.from("organizations").insert({ name: name.slice(0, 120), created_by: userId }).select("*").single();
+      if (error) return json(400, { error: error.message });
+      const { error: mErr } = await writer.from("organization_members").insert({ organization_id: org.id, user_id: userId, role: "owner" });
+      if (mErr) return json(400, { error: mErr.message });
+      // The creator switches to the new workspace right away
+      await writer.from("profiles").update({ active_organization_id: org.id }).eq("user_id", userId);
+      await audit(String(org.id), "organization_created", { name });
+      return json(200, { ok: true, organization: org });
+    }
+
+    const organizationId = String(body.organizationId || "").trim();
+    if (!organizationId) return json(400, { error: "Missing organizationId" });
+    const role = await orgRole(writer, organizationId, userId);
+    if (!role) return json(404, { error: "Organization not found" });
+    const isOwner = role === "owner";
+
+    const owners = async () => {
+      const { count } = await writer
+        .from("organization_members")
+        .select("id", { count: "exact", head: true })
+        .eq("organization_id", organizationId)
+        .eq("role", "owner");
+      return count ?? 0;
+    };
+
+    const loadMember = async (memberId: string) => {
+      const { data } = await writer
+        .from("organization_members")
+        .select("id,organization_id,user_id,role")
+        .eq("id", memberId)
+        .eq("organization_id", organizationId)
+        .maybeSingle();
+      return data as Row | null;
+    };
+
+    switch (action) {
+      case "members": {
+        const { data: members, error } = await writer
+          .from("organization_members")
+          .select("id,user_id,role,created_at")
+          .eq("organization_id", organizationId)
+          .order("created_at");
+        if (error) return json(400, { error: error.message });
+        const ids = (members || []).map((m) => m.user_id);
+        const { data: profiles } = ids.length
+          ? await writer.from("profiles").select("user_id,email,full_name").in("user_id", ids)
+          : { data: [] as Row[] };
+        const byUser = new Map((profiles || []).map((p) => [p.user_id, p]));
+        return json(200, {
+          ok: true,
+          role,
+          members: (members || []).map((m) => ({
+            ...m,
+            email: byUser.get(m.user_id)?.email ?? null,
+            full_name: byUser.get(m.user_id)?.full_name ?? null,
+          })),
+        });
+      }
+
+      case "rename": {
+        if (!isOwner) return json(403, { error: "Only owners can rename the organization" });
+        const name = String(body.name || "").trim();
+        if (!name) return json(400, { error: "Name the organization" });
+        const { data: org, error } = await writer.from("organizations").update({ name: name.slice(0, 120) }).eq("id", organizationId).select("*").single();
+        if (error) return json(400, { error: error.message });
+        await audit(organizationId, "organization_renamed", { name });
+        return json(200, { ok: true, organization: org });
+      }
+
+      case "add_member": {
+        if (!isOwner) return json(403, { error: "Only owners can add members" });
+        // Exact match: auth stores emails lower-cased, and ilike would read "_" and "%" as wildcards
+        const email = String(body.email || "").trim().toLowerCase();
+        const newRole = body.role && ORG_ROLES.includes(body.role) ? body.role : "submitter";
+        if (!email) return json(400, { error: "Missing email" });
+        const { data: profile } = await writer.from("profiles").select("user_id").eq("email", email).maybeSingle();
+        if (!profile) return json(404, { error: `No user with email ${email} — they need to sign up first` });
+
+        const { data: member, error } = await writer
+          .from("organization_members")
+          .insert({ organization_id: organizationId, user_id: profile.user_id, role: newRole, invited_by: userId })
+          .select("*")
+          .single();
+        if (error) return json(error.code === "23505" ? 409 : 400, { error: error.code === "23505" ? `${email} is already a member` : error.message });
+
+        const { data: org } = await writer.from("organizations").select("name").eq("id", organizationId).maybeSingle();
+        await writer.from("notifications").insert({
+          user_id: profile.user_id,
+          created_by: userId,
+          kind: "organization_member_added",
+          title: `You were added to ${org?.name || "an organization"} as ${newRole}`,
+          link: "/dashboard/organization",
+        });
+        await audit(organizationId, "organization_member_added", { member_id: member.id, user_id: profile.user_id, role: newRole });
+        return json(200, { ok: true, member });
+      }
+
+      case "update_member": {
+        if (!isOwner) return json(403, { error: "Only owners can change roles" });
+        const member = await loadMember(String(body.memberId || ""));
+        if (!member) return json(404, { error: "Member not found" });
+        if (!body.role || !ORG_ROLES.includes(body.role)) return json(400, { error: `Role must be one of ${ORG_ROLES.join(", ")}` });
+        if (member.role === "owner" && body.role !== "owner" && (await owners()) <= 1) {
+          return json(409, { error: "An organization needs at least one owner" });
+        }
+        const { data: updated, error } = await writer.from("organization_members").update({ role: body.role }).eq("id", member.id).select("*").single();
+        if (error) return json(400, { error: error.message });
+        await audit(organizationId, "organization_member_role_changed", { member_id: member.id, user_id: member.user_id, from: member.role, to: body.role });
+        return json(200, { ok: true, member: updated });
+      }
+
+      case "remove_member": {
+        const member = await loadMember(String(body.memberId || ""));
+        if (!member) return json(404, { error: "Member not found" });
+        // Members may leave on their own; removing someone else takes an owner
+        if (member.user_id !== userId && !isOwner) return json(403, { error: "Only owners can remove members" });
+        if (member.role === "owner" && (await owners()) <= 1) return json(409, { error: "An organization needs at least one owner" });
+        const { error } = await writer.from("organization_members").delete().eq("id", member.id);
+        if (error) return json(400, { error: error.message });
+        // Their rows stay with the organization; their next writes land in another workspace of theirs
+        await writer.from("profiles").update({ active_organization_id: null }).eq("user_id", member.user_id).eq("active_organization_id", organizationId);
+        await audit(organizationId, "organization_member_removed", { member_id: member.id, user_id: member.user_id, role: member.role });
+        return json(200, { ok: true });
+      }
+
+      default:
+        return json(400, { error: `Unknown action "${action}"` });
+    }
+  } catch (e) {
+    return json(500, { error: "organizations crashed", message: String(e) });
+  }
+});
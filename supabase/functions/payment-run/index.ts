@@ -0,0 +1,278 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { validateIban } from "../_shared/bankDetails.ts";
+import { buildPain001, sepaId, type PainPayment } from "../_shared/pain001.ts";
+import { invoicePaymentUpdate, transitionError } from "../_shared/paymentStatus.ts";
+import { checkRelease, loadApprovers, loadSodRules, pickSodRule, recordViolation } from "../_shared/segregationOfDuties.ts";
+import { invoiceAmountEur } from "../_shared/approvalChains.ts";
+import { BOOKKEEPING_ROLES, resolveOrganization } from "../_shared/organizations.ts";
+
+type Body = {
+  invoiceIds?: string[];
+  debtorAccountId?: string; // defaults to the organization's default bank account
+  executionDate?: string; // YYYY-MM-DD, defaults to the next business day
+  // Per-invoice overrides of the debtor account / execution date
+  items?: { invoiceId: string; debtorAccountId?: string; executionDate?: string }[];
+};
+
+type Row = Record<string, unknown>;
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function nextBusinessDay(from = new Date()): string {
+  const d = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() + 1));
+  while (d.getUTCDay() === 0 || d.getUTCDay() === 6) d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const overrides = new Map((body.items || []).map((i) => [String(i.invoiceId), i]));
+    const invoiceIds = Array.from(new Set([...(body.invoiceIds || []), ...overrides.keys()].map(String).filter(Boolean)));
+    if (!invoiceIds.length) return json(400, { error: "Select at least one invoice" });
+
+    const today = new Date().toISOString().slice(0, 10);
+    const defaultDate = body.executionDate || nextBusinessDay();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(defaultDate) || defaultDate < today) {
+      return json(400, { error: "Execution date must be today or later (YYYY-MM-DD)" });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+
+    // Runs cover the active organization's approved invoices, whoever uploaded them
+    const membership = await resolveOrganization(supabase, userId);
+    if (!membership) return json(403, { error: "Join or create an organization first" });
+    if (!BOOKKEEPING_ROLES.includes(membership.role)) return json(403, { error: "Only owners and accountants can create payment runs" });
+    const organizationId = membership.organizationId;
+
+    const { data: accounts, error: accErr } = await supabase.from("bank_accounts").select("*").eq("organization_id", organizationId);
+    if (accErr) return json(400, { error: accErr.message });
+    const accountById = new Map((accounts || []).map((a: Row) => [String(a.id), a]));
+    const defaultAccount =
+      (body.debtorAccountId ? accountById.get(body.debtorAccountId) : null) ??
+      (accounts || []).find((a: Row) => a.is_default) ??
+      (accounts || [])[0] ??
+      null;
+    if (!defaultAccount) return json(400, { error: "Add a debtor bank account before creating a payment run" });
+
+    const { data: invoices, error: invErr } = await supabase
+      .from("invoices")
+      .select("id,user_id,vendor_name,invoice_number,total_amount,total_eur,currency,approval,approved_by,iban,bic,account_holder,payment_reference")
+      .eq("organization_id", organizationId)
+      // Outgoing invoices (CreateInvoice) are owed to us, never paid by credit transfer; uploads stay "unknown"
+      .neq("direction", "outgoing")
+      .in("id", invoiceIds);
+    if (invErr) return json(400, { error: invErr.message });
+
+    const { data: existing, error: payErr } = await supabase
+      .from("payments")
+      .select("id,invoice_id,user_id,status")
+      .eq("organization_id", organizationId)
+      .in("invoice_id", invoiceIds);
+    if (payErr) return json(400, { error: payErr.message });
+    const paymentByInvoice = new Map((existing || []).map((p: Row) => [String(p.invoice_id), p]));
+
+    // Four-eyes: an approver of an invoice cannot release its payment (violations are recorded with the service role)
+    const writer = createClient(supabaseUrl, serviceKey || anonKey);
+    const sodRules = await loadSodRules(writer, organizationId);
+
+    const skipped: { invoice_id: string; reason: string }[] = [];
+    const candidates: { invoice: Row; account: Row; payment: PainPayment }[] = [];
+    for (const id of invoiceIds) {
+      const inv = (invoices || []).find((i: Row) => i.id === id);
+      if (!inv) {
+        skipped.push({ invoice_id: id, reason: "Invoice not found" });
+        continue;
+      }
+      if (inv.approval !== "pass") {
+        skipped.push({ invoice_id: id, reason: "Invoice is not approved" });
+        continue;
+      }
+      const violation = checkRelease(pickSodRule(sodRules, invoiceAmountEur(inv)), inv, await loadApprovers(writer, inv), userId);
+      if (violation) {
+        await recordViolation(writer, userId, id, "payment-run", violation);
+        skipped.push({ invoice_id: id, reason: violation.message });
+        continue;
+      }
+      const prior = paymentByInvoice.get(id);
+      // Payments already handed to the bank, settled or canceled are never queued again
+      const blocked = prior ? transitionError(prior.status, "queued") : null;
+      if (blocked) {
+        skipped.push({ invoice_id: id, reason: blocked });
+        continue;
+      }
+      if (!inv.iban || !validateIban(String(inv.iban))) {
+        skipped.push({ invoice_id: id, reason: "Missing or invalid creditor IBAN" });
+        continue;
+      }
+
+      const o = overrides.get(id);
+      if (o?.executionDate && o.executionDate < today) {
+        skipped.push({ invoice_id: id, reason: "Execution date lies in the past" });
+        continue;
+      }
+      const account = (o?.debtorAccountId ? accountById.get(o.debtorAccountId) : null) ?? defaultAccount;
+      candidates.push({
+        invoice: inv,
+        account,
+        payment: {
+          end_to_end_id: sepaId(`${String(inv.id).slice(0, 8)}-${inv.invoice_number || ""}`),
+          amount: Number(inv.total_amount ?? 0),
+          currency: String(inv.currency || "EUR").toUpperCase(),
+          execution_date: o?.executionDate || defaultDate,
+          debtor: { name: String(account.holder_name), iban: String(account.iban), bic: account.bic ? String(account.bic) : null },
+          creditor: {
+            name: String(inv.account_holder || inv.vendor_name || ""),
+            iban: String(inv.iban),
+            bic: inv.bic ? String(inv.bic) : null,
+          },
+          remittance: String(inv.payment_reference || (inv.invoice_number ? `Invoice ${inv.invoice_number}` : "")),
+        },
+      });
+    }
+
+    const createdAt = new Date().toISOString();
+    const messageId = `RUN-${createdAt.replace(/\D/g, "").slice(0, 14)}-${crypto.randomUUID().slice(0, 8)}`;
+    const initiatingParty = String(defaultAccount.holder_name || "");
+    const pain = buildPain001({
+      message_id: messageId,
+      initiating_party: initiatingParty,
+      created_at: createdAt,
+      payments: candidates.map((c) => c.payment),
+    });
+    for (const issue of pain.issues) {
+      const c = candidates.find((x) => x.payment.end_to_end_id === issue.end_to_end_id);
+      skipped.push({ invoice_id: String(c?.invoice.id ?? issue.end_to_end_id), reason: issue.message });
+    }
+    if (!pain.count) return json(422, { error: "No payable invoices in the selection", skipped });
+
+    // Every payment row is built before anything is written, so the run and its payments land together or not at all
+    const included = new Set(pain.included);
+    const queued = candidates.filter((x) => included.has(x.payment.end_to_end_id));
+    const runId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const rows = queued.map((c) => {
+      const invoiceId = String(c.invoice.id);
+      const prior = paymentByInvoice.get(invoiceId);
+      return {
+        id: prior ? String(prior.id) : crypto.randomUUID(),
+        user_id: prior ? String(prior.user_id) : userId,
+        organization_id: organizationId,
+        invoice_id: invoiceId,
+        amount: c.payment.amount,
+        currency: c.payment.currency,
+        status: "queued",
+        status_changed_at: now,
+        provider: "pain.001",
+        provider_reference: messageId,
+        payment_run_id: runId,
+        debtor_account_id: c.account.id,
+        execution_date: c.payment.execution_date,
+        end_to_end_id: c.payment.end_to_end_id,
+        creditor_name: c.payment.creditor.name,
+        creditor_iban: c.payment.creditor.iban,
+        creditor_bic: c.payment.creditor.bic,
+        remittance: c.payment.remittance,
+        updated_at: now,
+      };
+    });
+
+    const filePath = `${userId}/payment-runs/${messageId}.xml`;
+    const up = await supabase.storage
+      .from("invoices")
+      .upload(filePath, new Blob([pain.xml], { type: "application/xml" }), { upsert: true, contentType: "application/xml" });
+    if (up.error) return json(400, { error: "pain.001 upload failed", message: up.error.message });
+
+    const { data: run, error: runErr } = await supabase
+      .from("payment_runs")
+      .insert({
+        id: runId,
+        user_id: userId,
+        organization_id: organizationId,
+        message_id: messageId,
+        status: "exported",
+        payment_count: pain.count,
+        control_sum: pain.control_sum,
+        currency: "EUR",
+        file_path: filePath,
+        summary: { groups: pain.groups, skipped },
+      })
+      .select("*")
+      .single();
+    if (runErr || !run) {
+      await supabase.storage.from("invoices").remove([filePath]);
+      return json(400, { error: runErr?.message || "Could not record payment run" });
+    }
+
+    // One statement queues every payment; queuing is a status change, which only the service role may write (see guard_payment_status)
+    const { error: queueErr } = await writer.from("payments").upsert(rows, { onConflict: "id" });
+    if (queueErr) {
+      await writer.from("payment_runs").delete().eq("id", runId);
+      await supabase.storage.from("invoices").remove([filePath]);
+      return json(400, { error: queueErr.message });
+    }
+
+    const { error: evErr } = await writer.from("payment_events").insert(
+      rows.map((r, i) => ({
+        payment_id: r.id,
+        invoice_id: r.invoice_id,
+        user_id: r.user_id,
+        organization_id: organizationId,
+        actor_id: userId,
+        from_status: paymentByInvoice.get(r.invoice_id)?.status ?? null,
+        to_status: "queued",
+        reason: `Payment run ${messageId}`,
+        metadata: { run_id: runId, end_to_end_id: queued[i].payment.end_to_end_id },
+      })),
+    );
+    if (evErr) return json(400, { error: evErr.message, run_id: runId });
+
+    await writer
+      .from("invoices")
+      .update({ ...invoicePaymentUpdate("queued", now), updated_at: now })
+      .in("id", rows.map((r) => r.invoice_id));
+
+    try {
+      await supabase.from("audit_logs").insert([
+        {
+          user_id: userId,
+          step: "payment_run_exported",
+          payload: { run_id: run.id, message_id: messageId, count: pain.count, control_sum: pain.control_sum, groups: pain.groups, skipped },
+        },
+        ...queued.map((c) => ({
+            user_id: userId,
+            invoice_id: c.invoice.id,
+            step: "payment_queued",
+            payload: { run_id: run.id, end_to_end_id: c.payment.end_to_end_id, from: paymentByInvoice.get(String(c.invoice.id))?.status ?? null, to: "queued" },
+          })),
+      ]);
+    } catch {
+      // ignore
+    }
+
+    return json(200, { ok: true, run, groups: pain.groups, skipped, xml: pain.xml, file_path: filePath });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "payment-run crashed", message });
+  }
+});
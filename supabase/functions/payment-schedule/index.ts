@@ -0,0 +1,94 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { round2 } from "../_shared/amounts.ts";
+import { computeSchedule, parsePaymentTerms, proposePayDate, type PaymentTerms } from "../_shared/paymentTerms.ts";
+import { resolveOrganization } from "../_shared/organizations.ts";
+
+type Body = {
+  costOfCapital?: number; // yearly rate, e.g. 0.08 for 8%
+  today?: string; // YYYY-MM-DD, for what-if planning
+};
+
+type Row = Record<string, unknown>;
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Invoices whose payment is settled, on its way or deliberately dropped are not scheduled
+const SCHEDULED_OUT = new Set(["queued", "processing", "paid", "canceled"]);
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const today = /^\d{4}-\d{2}-\d{2}$/.test(String(body.today || "")) ? String(body.today) : new Date().toISOString().slice(0, 10);
+    const costOfCapital = Number.isFinite(Number(body.costOfCapital)) && Number(body.costOfCapital) >= 0 ? Number(body.costOfCapital) : 0.08;
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const membership = await resolveOrganization(supabase, u.user.id);
+    if (!membership) return json(403, { error: "Join or create an organization first" });
+
+    const { data: invoices, error } = await supabase
+      .from("invoices")
+      .select("id,vendor_name,invoice_number,invoice_date,due_date,payment_terms,payment_terms_parsed,total_amount,currency,approval,payment_status")
+      .eq("organization_id", membership.organizationId)
+      .neq("direction", "outgoing")
+      .or("approval.is.null,approval.neq.fail")
+      .order("created_at", { ascending: false })
+      .limit(500);
+    if (error) return json(400, { error: error.message });
+
+    const items = (invoices || [])
+      .filter((inv: Row) => !SCHEDULED_OUT.has(String(inv.payment_status || "")))
+      .map((inv: Row) => {
+        // Older invoices were saved before terms were parsed; parse the stored text on the fly
+        const terms = (inv.payment_terms_parsed as PaymentTerms | null) ?? parsePaymentTerms(inv.payment_terms as string | null);
+        const schedule = computeSchedule(terms, inv.invoice_date as string | null, inv.due_date as string | null);
+        const proposal = proposePayDate({ amount: Number(inv.total_amount ?? 0), schedule, today, costOfCapital });
+        return {
+          invoice_id: inv.id,
+          vendor_name: inv.vendor_name,
+          invoice_number: inv.invoice_number,
+          invoice_date: inv.invoice_date,
+          currency: String(inv.currency || "EUR").toUpperCase(),
+          amount: Number(inv.total_amount ?? 0),
+          approval: inv.approval,
+          payment_terms: inv.payment_terms,
+          terms,
+          ...proposal,
+        };
+      })
+      .sort((a, b) => String(a.pay_date ?? "9999").localeCompare(String(b.pay_date ?? "9999")));
+
+    // Totals per currency: discounts the proposals capture, and outstanding cash out
+    const totals: Record<string, { count: number; outstanding: number; savings: number; pay_amount: number; overdue: number }> = {};
+    for (const it of items) {
+      const t = (totals[it.currency] ??= { count: 0, outstanding: 0, savings: 0, pay_amount: 0, overdue: 0 });
+      t.count++;
+      t.outstanding = round2(t.outstanding + it.amount);
+      t.savings = round2(t.savings + it.discount_amount);
+      t.pay_amount = round2(t.pay_amount + it.pay_amount);
+      if (it.status === "overdue") t.overdue++;
+    }
+
+    return json(200, { ok: true, today, cost_of_capital: costOfCapital, items, totals });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "payment-schedule crashed", message });
+  }
+});
@@ -0,0 +1,138 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { invoicePaymentUpdate, transitionError, type PaymentStatus } from "../_shared/paymentStatus.ts";
+import { checkRelease, loadApprovers, loadSodRules, pickSodRule, recordViolation } from "../_shared/segregationOfDuties.ts";
+import { invoiceAmountEur } from "../_shared/approvalChains.ts";
+import { BOOKKEEPING_ROLES, resolveOrganization } from "../_shared/organizations.ts";
+
+type Body = {
+  paymentId?: string;
+  status?: PaymentStatus;
+  reason?: string;
+  metadata?: Record<string, unknown>; // e.g. bank reference, return reason code
+};
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const paymentId = String(body.paymentId || "").trim();
+    if (!paymentId) return json(400, { error: "Missing paymentId" });
+    if (!body.status) return json(400, { error: "Missing status" });
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+
+    // Payment status only changes here (and in payment runs / reconciliation): writes use the service role
+    // once the caller is known to keep the books of the payment's organization
+    const writer = createClient(supabaseUrl, serviceKey || anonKey);
+    const { data: payment, error: payErr } = await writer
+      .from("payments")
+      .select("id,user_id,organization_id,invoice_id,status")
+      .eq("id", paymentId)
+      .maybeSingle();
+    if (payErr) return json(400, { error: payErr.message });
+    if (!payment) return json(404, { error: "Payment not found" });
+    const membership = payment.organization_id ? await resolveOrganization(writer, userId, payment.organization_id) : null;
+    if (!membership) return json(404, { error: "Payment not found" });
+    if (payment.user_id !== userId && !BOOKKEEPING_ROLES.includes(membership.role)) return json(403, { error: "Forbidden" });
+
+    const from = payment.status as PaymentStatus;
+    const to = body.status;
+    const illegal = transitionError(from, to);
+    if (illegal) return json(409, { error: illegal, from, to });
+
+    // Handing a payment to the bank releases it: not allowed for whoever approved the invoice
+    if ((to === "queued" || to === "processing") && payment.invoice_id) {
+      const { data: inv, error: invErr } = await writer
+        .from("invoices")
+        .select("id,user_id,total_amount,total_eur,approved_by")
+        .eq("id", payment.invoice_id)
+        .maybeSingle();
+      if (invErr) return json(400, { error: invErr.message });
+      const violation = inv
+        ? checkRelease(pickSodRule(await loadSodRules(writer, payment.organization_id), invoiceAmountEur(inv)), inv, await loadApprovers(writer, inv), userId)
+        : null;
+      if (violation) {
+        await recordViolation(writer, userId, payment.invoice_id, "payment-status", violation);
+        return json(403, { error: violation.message, sod: violation.kind, from, to });
+      }
+    }
+
+    // Compare-and-set on the old status so two concurrent transitions cannot both win
+    const now = new Date().toISOString();
+    const { data: updated, error: updErr } = await writer
+      .from("payments")
+      .update({ status: to, status_changed_at: now, updated_at: now })
+      .eq("id", paymentId)
+      .eq("status", from)
+      .select("*")
+      .maybeSingle();
+    if (updErr) return json(400, { error: updErr.message });
+    if (!updated) return json(409, { error: "Payment status changed concurrently; reload and retry", from, to });
+
+    const { data: event, error: evErr } = await writer
+      .from("payment_events")
+      .insert({
+        payment_id: paymentId,
+        invoice_id: payment.invoice_id,
+        user_id: userId,
+        organization_id: payment.organization_id,
+        actor_id: userId,
+        from_status: from,
+        to_status: to,
+        reason: body.reason?.trim() || null,
+        metadata: body.metadata ?? null,
+      })
+      .select("*")
+      .single();
+    if (evErr) return json(400, { error: evErr.message, payment: updated });
+
+    let invoice: Record<string, unknown> | null = null;
+    if (payment.invoice_id) {
+      const { data: inv, error: invErr } = await writer
+        .from("invoices")
+        .update({ ...invoicePaymentUpdate(to, now), updated_at: now })
+        .eq("id", payment.invoice_id)
+        .select("id,payment_status,paid_at")
+        .maybeSingle();
+      if (invErr) return json(400, { error: invErr.message, payment: updated, event });
+      invoice = inv;
+    }
+
+    try {
+      await supabase.from("audit_logs").insert({
+        user_id: userId,
+        invoice_id: payment.invoice_id,
+        step: "payment_status_changed",
+        payload: { payment_id: paymentId, from, to, reason: body.reason ?? null },
+      });
+    } catch {
+      // ignore
+    }
+
+    return json(200, { ok: true, payment: updated, event, invoice });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "payment-status crashed", message });
+  }
+});
@@ -0,0 +1,131 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import {
+  compilePolicy,
+  decide,
+  evaluatePolicies,
+  loadActivePolicies,
+  type CompiledPolicy,
+  type PolicyIssue,
+  type PolicyRow,
+} from "../_shared/policyEngine.ts";
+import { resolveOrganization } from "../_shared/organizations.ts";
+
+type Body = {
+  // Unsaved policy from the editor; when omitted the organization's active policies are tested
+  policy?: Partial<PolicyRow> & { name?: string };
+  limit?: number;
+};
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const num = (v: unknown) => (v === null || v === undefined || v === "" || !Number.isFinite(Number(v)) ? null : Number(v));
+
+const LEGACY_APPROVAL: Record<string, string> = {
+  pass: "PASS",
+  approved: "PASS",
+  fail: "FAIL",
+  rejected: "FAIL",
+  needs_info: "NEEDS_INFO",
+  human_approval: "HUMAN_APPROVAL",
+  needs_human: "HUMAN_APPROVAL",
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const limit = Math.min(200, Math.max(1, Number(body.limit) || 50));
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const membership = await resolveOrganization(supabase, u.user.id);
+    if (!membership) return json(403, { error: "Join or create an organization first" });
+
+    let policies: CompiledPolicy[];
+    if (body.policy) {
+      policies = [
+        compilePolicy({
+          id: body.policy.id || "draft",
+          name: body.policy.name || "Draft policy",
+          jurisdiction: body.policy.jurisdiction || null,
+          max_amount: num(body.policy.max_amount),
+          require_invoice_number: !!body.policy.require_invoice_number,
+          require_vat_id: !!body.policy.require_vat_id,
+          raw: body.policy.raw ?? null,
+        }),
+      ];
+    } else {
+      policies = await loadActivePolicies(supabase, membership.organizationId);
+    }
+
+    const { data: invoices, error } = await supabase
+      .from("invoices")
+      .select("*")
+      .eq("organization_id", membership.organizationId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) return json(400, { error: error.message });
+
+    const results = (invoices || []).map((inv: Record<string, unknown>) => {
+      const currency = String(inv.currency || "").toUpperCase();
+      const total = num(inv.total_amount);
+      const total_eur = num(inv.total_eur) ?? (currency === "EUR" ? total : null);
+      const overall_confidence = num(inv.approval_confidence) ?? 1;
+      const jurisdiction = String(inv.jurisdiction || (currency === "EUR" ? "EU" : currency === "AED" ? "UAE" : currency === "SAR" ? "KSA" : "EU"));
+
+      const fields: Record<string, unknown> = { ...inv, currency, total_amount: total, tax_amount: num(inv.tax_amount) };
+      const evaluation = evaluatePolicies(policies, { ...fields, jurisdiction, total_eur, overall_confidence, evidence_score: 1 });
+      // Stored invoices already passed extraction; only re-apply the policy-driven part of the decision
+      const issues: PolicyIssue[] = [...evaluation.issues];
+      const d = decide({ fields, evidenceScore: 1, overallConfidence: overall_confidence, issues, evaluation });
+
+      const previous = LEGACY_APPROVAL[String(inv.approval || "")] ?? null;
+      return {
+        invoice_id: inv.id,
+        vendor_name: inv.vendor_name ?? null,
+        invoice_number: inv.invoice_number ?? null,
+        total_amount: total,
+        currency,
+        previous_decision: previous,
+        decision: d.decision,
+        reasons: d.reasons,
+        needs_info_fields: d.needs_info_fields,
+        fired: evaluation.fired,
+        changed: previous !== null && previous !== d.decision,
+      };
+    });
+
+    const summary = results.reduce<Record<string, number>>((acc, r) => {
+      acc[r.decision] = (acc[r.decision] || 0) + 1;
+      return acc;
+    }, {});
+
+    return json(200, {
+      ok: true,
+      policies: policies.map((p) => ({ id: p.id, name: p.name, rules: p.rules.length })),
+      tested: results.length,
+      changed: results.filter((r) => r.changed).length,
+      summary,
+      results,
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "policy-test crashed", message });
+  }
+});
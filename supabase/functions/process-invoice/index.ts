@@ -2,8 +2,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
 import { corsHeaders } from "../_shared/cors.ts";
-
-type Decision = "PASS" | "NEEDS_INFO" | "FAIL" | "HUMAN_APPROVAL";
+import { extractLineItems, reconcileLineItems, type LineItem } from "../_shared/lineItems.ts";
+import { describeEInvoice, parseEInvoice, type EInvoice } from "../_shared/einvoice.ts";
+import { complianceStatus, inferJurisdiction, runJurisdictionPack } from "../_shared/jurisdictions/index.ts";
+import { extractVatIds, validateVatId, type VatIdCheck } from "../_shared/vatId.ts";
+import { getViesAdapter, type ViesResult } from "../_shared/vies.ts";
+import { reconcileVat, vatCountry } from "../_shared/vatMath.ts";
+import { extractBankDetails, resolveBankDetails } from "../_shared/bankDetails.ts";
+import { toEur } from "../_shared/fx.ts";
+import { computeSchedule, findPaymentTermsText, parsePaymentTerms } from "../_shared/paymentTerms.ts";
+import { decide, evaluatePolicies, loadActivePolicies, type CompiledPolicy, type PolicyIssue } from "../_shared/policyEngine.ts";
+import { resolveOrganization } from "../_shared/organizations.ts";
 
 type Citation = {
   field: string;
@@ -24,6 +33,8 @@ type InputBody = {
   fileName?: string;
   fileType?: string;
   extractedText?: string;
+  // Standalone XML or the XML embedded in a ZUGFeRD/Factur-X PDF/A-3
+  einvoiceXml?: string;
 
   vision?: {
     vendor_name?: string | null;
@@ -32,13 +43,29 @@ type InputBody = {
     tax_amount?: number | null;
     total_amount?: number | null;
     currency?: string | null;
+    subtotal_amount?: number | null;
+    supplier_vat_id?: string | null;
+    buyer_vat_id?: string | null;
+    iban?: string | null;
+    bic?: string | null;
+    account_holder?: string | null;
+    payment_reference?: string | null;
+    sort_code?: string | null;
+    account_number?: string | null;
+    due_date?: string | null;
+    payment_terms?: string | null;
+    line_items?: unknown[] | null;
     field_confidence?: Record<string, number>;
     raw_json?: unknown;
   };
 
   jurisdiction?: string;
+  // Raw QR contents decoded on the client (e.g. the ZATCA TLV payload on Saudi invoices)
+  qrPayloads?: string[];
   companyName?: string;
   invoiceId?: string;
+  // Service-role calls from other functions (e.g. invoice-clarifications re-runs) name the user they act for
+  actingUserId?: string;
 };
 
 const json = (status: number, data: unknown, extraHeaders: HeadersInit = {}) =>
@@ -54,44 +81,6 @@ const json = (status: number, data: unknown, extraHeaders: HeadersInit = {}) =>
 
 const nowIso = () => new Date().toISOString();
 
-// -----------------------------
-// FX conversion helper (server-side)
-// Uses Frankfurter API
-// Caches rates for 12 hours in Edge runtime memory
-// -----------------------------
-let _fxCache: { ts: number; base: string; rates: Record<string, number> } | null = null;
-
-async function getFxRates(base = "EUR"): Promise<Record<string, number>> {
-  const now = Date.now();
-  if (_fxCache && _fxCache.base === base && now - _fxCache.ts < 12 * 60 * 60 * 1000) return _fxCache.rates;
-
-  const url = `https://api.frankfurter.app/latest?from=${encodeURIComponent(base)}`;
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`FX fetch failed: ${res.status}`);
-  const data = await res.json();
-
-  const rates = (data?.rates || {}) as Record<string, number>;
-  if (!rates || typeof rates !== "object") throw new Error("FX rates missing");
-
-  _fxCache = { ts: now, base, rates };
-  return rates;
-}
-
-async function toEur(amount: number, currency: string): Promise<number | null> {
-  if (!Number.isFinite(amount)) return null;
-  const cur = (currency || "").toUpperCase().trim();
-  if (!cur) return null;
-  if (cur === "EUR") return amount;
-
-  // Frankfurter base EUR -> rates[cur] = 1 EUR in CUR
-  const rates = await getFxRates("EUR");
-  const r = Number(rates[cur]);
-  if (!Number.isFinite(r) || r <= 0) return null;
-
-  // If 1 EUR = r CUR => amount CUR = amount / r EUR
-  return amount / r;
-}
-
 const normKey = (k: string) =>
   k.toLowerCase().trim().replace(/\s+/g, "_").replace(/[^a-z0-9_]/g, "");
 
@@ -266,11 +255,30 @@ function computeFieldConfidence(fields: Record<string, unknown>, citations: Cita
   return { field_confidence: conf, overall_confidence: avg };
 }
 
-function policyChecks(fields: Record<string, unknown>, jurisdiction: string, evidenceScore: number) {
-  const issues: { code: string; message: string; severity: "info" | "warning" | "error" }[] = [];
+// Structured e-invoices are deterministic: every value present in the XML is evidence with full confidence.
+function buildXmlEvidence(einvoice: EInvoice): { citations: Citation[]; evidenceScore: number } {
+  const required = ["vendor_name", "invoice_number", "invoice_date", "total_amount", "currency"];
+  const citations: Citation[] = einvoice.citations;
+  const foundRequired = required.filter((k) => citations.some((c) => c.field === k)).length;
+  return { citations, evidenceScore: foundRequired / required.length };
+}
+
+function computeXmlFieldConfidence(fields: Record<string, unknown>) {
+  const keys = ["vendor_name", "invoice_number", "invoice_date", "total_amount", "currency", "tax_amount"];
+  const conf: Record<string, number> = {};
+  for (const k of keys) conf[k] = fields[k] !== null && fields[k] !== undefined && String(fields[k]).trim() ? 1 : 0;
+  const avg = keys.reduce((s, k) => s + conf[k], 0) / keys.length;
+  return { field_confidence: conf, overall_confidence: avg };
+}
+
+// Built-in sanity checks; approval thresholds and required fields come from the policy engine.
+// Documents settled by card / direct debit (or already paid) carry no payee bank details
+const PAID_OR_DEBITED = /\b(bereits\s+bezahlt|already\s+paid|paid\s+in\s+full|bezahlt|beglichen|lastschrift|direct\s+debit|sepa[\s-]*mandat|card\s+payment|kartenzahlung|paid\s+by\s+card)\b/i;
+
+function policyChecks(fields: Record<string, unknown>, evidenceScore: number) {
+  const issues: PolicyIssue[] = [];
   const total = toNumber(fields.total_amount);
   const tax = toNumber(fields.tax_amount);
-  const currency = String(fields.currency || "").toUpperCase();
   const vendor = String(fields.vendor_name || "").toLowerCase();
 
   if (/(crypto|bitcoin|gift\s*card|western\s*union|moneygram)/i.test(vendor)) {
@@ -281,12 +289,6 @@ function policyChecks(fields: Record<string, unknown>, jurisdiction: string, evi
 
   if (evidenceScore < 1) issues.push({ code: "EVIDENCE_INSUFFICIENT", message: "Not enough evidence found for required fields.", severity: "warning" });
 
-  const j = (jurisdiction || "").toUpperCase();
-  const isEU = j === "EU" || currency === "EUR";
-  if (isEU) {
-    if (tax === null || tax <= 0) issues.push({ code: "VAT_MISSING", message: "VAT missing or invalid (EU).", severity: "warning" });
-  }
-
   return {
     issues,
     hasError: issues.some((x) => x.severity === "error"),
@@ -294,57 +296,36 @@ function policyChecks(fields: Record<string, unknown>, jurisdiction: string, evi
   };
 }
 
-function decide(args: {
-  fields: Record<string, unknown>;
-  evidenceScore: number;
-  overallConfidence: number;
-  issues: { code: string; message: string; severity: "info" | "warning" | "error" }[];
-  jurisdiction: string;
-  total_eur: number | null;
-}) {
-  const required = ["vendor_name", "invoice_number", "invoice_date", "total_amount", "currency"];
-  const missingRequired = required.filter((k) => !args.fields[k]);
-
-  const currency = String(args.fields.currency || "").toUpperCase();
-  const tax = toNumber(args.fields.tax_amount);
-  const isEU = (args.jurisdiction || "").toUpperCase() === "EU" || currency === "EUR";
-
-  if (args.issues.some((x) => x.severity === "error")) {
-    return { decision: "FAIL" as Decision, confidence: Math.min(0.85, Math.max(0.6, args.overallConfidence)), reasons: args.issues.filter((x) => x.severity === "error").map((x) => x.message), needs_info_fields: [] as string[] };
-  }
-
-  if (missingRequired.length > 0) {
-    return { decision: "NEEDS_INFO" as Decision, confidence: Math.min(0.75, Math.max(0.45, args.overallConfidence)), reasons: ["Missing required fields."], needs_info_fields: missingRequired };
-  }
-
-  if (isEU && (tax === null || tax <= 0)) {
-    return { decision: "NEEDS_INFO" as Decision, confidence: Math.min(0.75, Math.max(0.45, args.overallConfidence)), reasons: ["VAT is missing or invalid."], needs_info_fields: ["tax_amount"] };
-  }
-
-  if (args.total_eur !== null && args.total_eur > 5000) {
-    return {
-      decision: "HUMAN_APPROVAL" as Decision,
-      confidence: Math.min(0.85, Math.max(0.55, args.overallConfidence)),
-      reasons: [`Total exceeds €5000 equivalent (≈ €${args.total_eur.toFixed(2)}). Human approval required.`],
-      needs_info_fields: [],
-    };
-  }
-
-  const CONF_THRESHOLD = 0.65;
-  if (args.overallConfidence < CONF_THRESHOLD) {
-    return { decision: "NEEDS_INFO" as Decision, confidence: Math.max(0.45, args.overallConfidence), reasons: ["Low confidence — need clarification."], needs_info_fields: [] };
-  }
-
-  if (args.evidenceScore < 1) {
-    return { decision: "NEEDS_INFO" as Decision, confidence: Math.min(0.75, Math.max(0.5, args.overallConfidence)), reasons: ["Evidence missing for one or more required fields."], needs_info_fields: [] };
-  }
-
-  const warningMsgs = args.issues.filter((x) => x.severity === "warning").map((x) => x.message);
-  if (warningMsgs.length) {
-    return { decision: "NEEDS_INFO" as Decision, confidence: Math.min(0.8, Math.max(0.55, args.overallConfidence)), reasons: warningMsgs, needs_info_fields: [] };
-  }
-
-  return { decision: "PASS" as Decision, confidence: Math.min(0.95, Math.max(0.7, args.overallConfidence)), reasons: ["All checks passed with evidence."], needs_info_fields: [] };
+// Re-processing an existing invoice replaces its extracted lines; manually coded lines are kept.
+async function saveLineItems(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  organizationId: string | null,
+  invoiceId: string,
+  items: LineItem[],
+) {
+  const { error: delErr } = await supabase
+    .from("invoice_line_items")
+    .delete()
+    .eq("invoice_id", invoiceId)
+    .neq("source", "manual");
+  if (delErr) throw new Error(delErr.message);
+  if (!items.length) return;
+
+  const rows = items.map((i) => ({
+    invoice_id: invoiceId,
+    user_id: userId,
+    organization_id: organizationId,
+    line_index: i.line_index,
+    description: i.description,
+    quantity: i.quantity,
+    unit_price: i.unit_price,
+    net_amount: i.net_amount,
+    vat_rate: i.vat_rate,
+    source: i.source,
+  }));
+  const { error: insErr } = await supabase.from("invoice_line_items").insert(rows);
+  if (insErr) throw new Error(insErr.message);
 }
 
 serve(async (req) => {
@@ -363,50 +344,203 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
-    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const internal = !!serviceKey && authHeader === `Bearer ${serviceKey}`;
+    const supabase = internal
+      ? createClient(supabaseUrl, serviceKey)
+      : createClient(supabaseUrl, supabaseAnonKey, {
+          global: { headers: { Authorization: authHeader } },
+        });
 
-    const { data: userRes } = await supabase.auth.getUser();
-    const user = userRes?.user;
+    const rawBody = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    const body = normalizeIncomingKeys(rawBody) as InputBody;
+
+    const actingUserId = String(body.actingUserId || "").trim();
+    const user = internal ? (actingUserId ? { id: actingUserId } : null) : (await supabase.auth.getUser()).data?.user;
     if (!user) {
       audit.push({ step: "auth_invalid", at: nowIso(), ok: false });
       return json(401, { error: "Unauthorized", audit_steps: audit });
     }
-    audit.push({ step: "auth_ok", at: nowIso(), ok: true, detail: { user_id: user.id } });
-
-    const rawBody = (await req.json().catch(() => ({}))) as Record<string, unknown>;
-    const body = normalizeIncomingKeys(rawBody) as InputBody;
+    audit.push({ step: "auth_ok", at: nowIso(), ok: true, detail: { user_id: user.id, internal } });
 
     const fileName = String(body.fileName || "").trim();
     const fileType = String(body.fileType || "").trim();
     const extractedText = String(body.extractedText || "").trim();
-    if (!fileName || !fileType || !extractedText) {
-      audit.push({ step: "body_invalid", at: nowIso(), ok: false, detail: { fileName, fileType, text_len: extractedText.length } });
-      return json(400, { error: "Missing fileName, fileType, or extractedText", audit_steps: audit });
+    const einvoiceXml = String(body.einvoiceXml || "").trim();
+    if (!fileName || !fileType || (!extractedText && !einvoiceXml)) {
+      audit.push({ step: "body_invalid", at: nowIso(), ok: false, detail: { fileName, fileType, text_len: extractedText.length, xml_len: einvoiceXml.length } });
+      return json(400, { error: "Missing fileName, fileType, or extractedText/einvoiceXml", audit_steps: audit });
+    }
+
+    let einvoice: EInvoice | null = null;
+    if (einvoiceXml) {
+      try {
+        einvoice = parseEInvoice(einvoiceXml);
+        audit.push({ step: "einvoice_parsed", at: nowIso(), ok: true, detail: { format: describeEInvoice(einvoice), profile: einvoice.profile, lines: einvoice.line_items.length } });
+      } catch (e) {
+        const message = String((e as Error)?.message || e);
+        audit.push({ step: "einvoice_parse_failed", at: nowIso(), ok: false, detail: { message } });
+        if (!extractedText) return json(422, { error: "Unsupported e-invoice XML", message, audit_steps: audit });
+      }
     }
 
-    const heuristic = extractHeuristic(extractedText, fileName);
     const vision = body.vision || {};
+    let fields: Record<string, unknown>;
+    if (einvoice) {
+      fields = {
+        vendor_name: einvoice.seller.name,
+        invoice_number: einvoice.invoice_number,
+        invoice_date: einvoice.invoice_date,
+        total_amount: einvoice.total_amount ?? einvoice.payable_amount,
+        tax_amount: einvoice.tax_amount,
+        currency: String(einvoice.currency || "EUR").toUpperCase(),
+        file_name: fileName,
+        file_type: fileType,
+      };
+    } else {
+      const heuristic = extractHeuristic(extractedText, fileName);
+      fields = {
+        vendor_name: vision.vendor_name ?? heuristic.vendor_name,
+        invoice_number: vision.invoice_number ?? heuristic.invoice_number,
+        invoice_date: normalizeDate(vision.invoice_date ?? heuristic.invoice_date),
+        total_amount: (vision.total_amount ?? heuristic.total_amount) as unknown,
+        tax_amount: (vision.tax_amount ?? heuristic.tax_amount) as unknown,
+        currency: String((vision.currency ?? heuristic.currency) || "USD").toUpperCase(),
+        file_name: fileName,
+        file_type: fileType,
+      };
+    }
 
-    const fields: Record<string, unknown> = {
-      vendor_name: vision.vendor_name ?? heuristic.vendor_name,
-      invoice_number: vision.invoice_number ?? heuristic.invoice_number,
-      invoice_date: normalizeDate(vision.invoice_date ?? heuristic.invoice_date),
-      total_amount: (vision.total_amount ?? heuristic.total_amount) as unknown,
-      tax_amount: (vision.tax_amount ?? heuristic.tax_amount) as unknown,
-      currency: String((vision.currency ?? heuristic.currency) || "USD").toUpperCase(),
-      file_name: fileName,
-      file_type: fileType,
-    };
+    // VAT IDs: structured XML first, then vision, then a text scan
+    const scanned = extractVatIds(extractedText);
+    const vatCheck = (raw: unknown, fallback: VatIdCheck | null) =>
+      typeof raw === "string" && raw.trim() ? validateVatId(raw) : fallback;
+    const supplierVat = vatCheck(einvoice?.seller.vat_id ?? vision.supplier_vat_id, scanned.supplier);
+    const buyerVat = vatCheck(einvoice?.buyer.vat_id ?? vision.buyer_vat_id, scanned.buyer);
+
+    const vies = getViesAdapter();
+    const viesResults: Record<string, ViesResult> = {};
+    for (const [role, vat] of [["supplier", supplierVat], ["buyer", buyerVat]] as const) {
+      if (!vat?.valid) continue;
+      viesResults[role] = await vies.check(vat);
+    }
+    fields.supplier_vat_id = supplierVat?.normalized ?? null;
+    fields.supplier_vat_id_valid = supplierVat ? supplierVat.valid : null;
+    fields.buyer_vat_id = buyerVat?.normalized ?? null;
+    fields.buyer_vat_id_valid = buyerVat ? buyerVat.valid : null;
+    audit.push({
+      step: "vat_ids_checked",
+      at: nowIso(),
+      ok: true,
+      detail: { supplier: fields.supplier_vat_id, buyer: fields.buyer_vat_id, vies: Object.fromEntries(Object.entries(viesResults).map(([k, v]) => [k, v.status])) },
+    });
+
+    const bank = resolveBankDetails([
+      einvoice
+        ? { source: "xml", iban: einvoice.iban, bic: einvoice.bic, account_holder: einvoice.seller.name, payment_reference: einvoice.payment_reference }
+        : null,
+      {
+        source: "vision",
+        iban: vision.iban,
+        bic: vision.bic,
+        account_holder: vision.account_holder,
+        payment_reference: vision.payment_reference,
+        sort_code: vision.sort_code,
+        account_number: vision.account_number,
+      },
+      extractBankDetails(extractedText),
+    ]);
+    fields.iban = bank.iban;
+    fields.iban_valid = bank.iban_valid;
+    fields.bic = bank.bic;
+    fields.account_holder = bank.account_holder;
+    fields.payment_reference = bank.payment_reference;
+    fields.sort_code = bank.sort_code;
+    fields.account_number = bank.account_number;
+    audit.push({ step: "bank_details_extracted", at: nowIso(), ok: true, detail: { source: bank.source, iban_valid: bank.iban_valid, bic_valid: bank.bic_valid } });
+
+    // Payment terms: structured XML first, then vision, then the first terms-like sentence in the text
+    const paymentTermsText = einvoice?.payment_terms || vision.payment_terms || findPaymentTermsText(extractedText);
+    const paymentTerms = parsePaymentTerms(paymentTermsText);
+    const schedule = computeSchedule(
+      paymentTerms,
+      typeof fields.invoice_date === "string" ? fields.invoice_date : null,
+      einvoice?.due_date ?? normalizeDate(vision.due_date),
+    );
+    // The largest discount is the one worth chasing; the scheduler re-checks deadlines at pay time
+    const bestDiscount = [...schedule.discounts].sort((a, b) => b.percent - a.percent)[0] ?? null;
+    fields.due_date = schedule.due_date;
+    fields.payment_terms = paymentTermsText || null;
+    audit.push({
+      step: "payment_terms_parsed",
+      at: nowIso(),
+      ok: true,
+      detail: { terms: paymentTerms, due_date: schedule.due_date, discounts: schedule.discounts },
+    });
 
     const jurisdiction =
-      String(body.jurisdiction || "").trim() ||
-      (String(fields.currency) === "EUR" ? "EU" : String(fields.currency) === "AED" ? "UAE" : String(fields.currency) === "SAR" ? "KSA" : "EU");
+      String(body.jurisdiction || "").trim().toUpperCase() ||
+      inferJurisdiction({ text: extractedText, currency: String(fields.currency || ""), einvoice });
+
+    const { citations, evidenceScore } = einvoice ? buildXmlEvidence(einvoice) : buildEvidence(extractedText, fields);
+    const { field_confidence, overall_confidence } = einvoice
+      ? computeXmlFieldConfidence(fields)
+      : computeFieldConfidence(fields, citations, vision.field_confidence);
+    const checks = policyChecks(fields, evidenceScore);
+
+    for (const [label, vat] of [["Supplier", supplierVat], ["Buyer", buyerVat]] as const) {
+      if (vat && !vat.valid) {
+        checks.issues.push({
+          code: `${label.toUpperCase()}_VAT_ID_INVALID`,
+          message: `${label} VAT ID ${vat.raw} fails the ${vat.valid_format ? "check-digit" : "format"} check for ${vat.country}.`,
+          severity: "info",
+        });
+      }
+    }
+    if (viesResults.supplier?.status === "invalid") {
+      checks.issues.push({ code: "SUPPLIER_VAT_ID_NOT_REGISTERED", message: `VIES reports ${supplierVat?.normalized} as not registered.`, severity: "warning" });
+    }
+
+    const lineItems = einvoice ? einvoice.line_items : extractLineItems(extractedText, vision.line_items);
+    const lineReconciliation = reconcileLineItems(lineItems, {
+      total_amount: toNumber(fields.total_amount),
+      tax_amount: toNumber(fields.tax_amount),
+    });
+    if (lineItems.length && lineReconciliation.header_total !== null && !lineReconciliation.matched) {
+      checks.issues.push({
+        code: "LINE_ITEMS_TOTAL_MISMATCH",
+        message: `Line items (net ${lineReconciliation.net_total.toFixed(2)}, expected ${String(lineReconciliation.expected_total ?? "n/a")}) do not add up to the invoice total ${lineReconciliation.header_total.toFixed(2)}.`,
+        severity: "warning",
+      });
+    }
+    const vat = reconcileVat({
+      net_amount: toNumber(einvoice ? einvoice.net_amount : vision.subtotal_amount),
+      tax_amount: toNumber(fields.tax_amount),
+      total_amount: toNumber(fields.total_amount),
+      line_items: lineItems,
+      text: extractedText,
+      country: vatCountry({ supplierVatId: fields.supplier_vat_id, sellerCountry: einvoice?.seller.country, jurisdiction }),
+      buyer_vat_id: fields.buyer_vat_id,
+    });
+    checks.issues.push(...vat.issues);
+    fields.vat_treatment = vat.treatment;
+    audit.push({
+      step: "vat_reconciled",
+      at: nowIso(),
+      ok: true,
+      detail: { country: vat.country, treatment: vat.treatment, vat_rate: vat.vat_rate, computed: vat.vat_amount_computed, issues: vat.issues.map((i) => i.code) },
+    });
+    audit.push({ step: "line_items_extracted", at: nowIso(), ok: true, detail: { count: lineItems.length, source: lineItems[0]?.source ?? null, matched: lineReconciliation.matched } });
 
-    const { citations, evidenceScore } = buildEvidence(extractedText, fields);
-    const { field_confidence, overall_confidence } = computeFieldConfidence(fields, citations, vision.field_confidence);
-    const checks = policyChecks(fields, jurisdiction, evidenceScore);
+    const pack = runJurisdictionPack(jurisdiction, {
+      text: extractedText,
+      fields,
+      line_items: lineItems,
+      einvoice,
+      qr_payloads: Array.isArray(body.qrPayloads) ? body.qrPayloads.map(String) : [],
+    });
+    checks.issues.push(...pack.issues);
+    audit.push({ step: "jurisdiction_checked", at: nowIso(), ok: true, detail: { jurisdiction, pack: pack.pack, issues: pack.issues.map((i) => i.code) } });
 
     const totalNum = toNumber(fields.total_amount) ?? 0;
 
@@ -419,15 +553,71 @@ serve(async (req) => {
       total_eur = null;
     }
 
+    const invoiceId = String(body.invoiceId || "").trim();
+    let organizationId: string | null = null;
+    let policies: CompiledPolicy[] = [];
+    try {
+      // Every member's uploads are checked against the organization's policies; a re-processed
+      // invoice stays with its own organization, whichever one the caller has active
+      if (invoiceId) {
+        const { data: inv, error: invErr } = await supabase
+          .from("invoices")
+          .select("organization_id")
+          .eq("id", invoiceId)
+          .maybeSingle();
+        if (invErr) throw new Error(invErr.message);
+        organizationId = (inv?.organization_id as string | null) ?? null;
+      } else {
+        organizationId = (await resolveOrganization(supabase, user.id))?.organizationId ?? null;
+      }
+      if (organizationId) policies = await loadActivePolicies(supabase, organizationId);
+      audit.push({ step: "policies_loaded", at: nowIso(), ok: true, detail: { count: policies.length } });
+    } catch (e) {
+      audit.push({ step: "policies_load_failed", at: nowIso(), ok: false, detail: { message: String((e as Error)?.message || e) } });
+    }
+
+    const policyEvaluation = evaluatePolicies(policies, {
+      ...fields,
+      jurisdiction,
+      total_eur,
+      overall_confidence,
+      evidence_score: evidenceScore,
+      line_count: lineItems.length,
+    });
+    checks.issues.push(...policyEvaluation.issues);
+    audit.push({ step: "policies_evaluated", at: nowIso(), ok: true, detail: { policies: policyEvaluation.policies, fired: policyEvaluation.fired } });
+
+    // Transfer payments need a valid IBAN; direct-debit or already-paid documents don't
+    if (!PAID_OR_DEBITED.test(extractedText)) {
+      if (!bank.iban && !(bank.sort_code && bank.account_number)) {
+        policyEvaluation.needs_info.push({ reason: "Bank details (IBAN) not found on the invoice.", fields: ["iban"] });
+      } else if (!bank.iban_valid) {
+        checks.issues.push({ code: "IBAN_INVALID", message: `IBAN ${bank.iban} fails the mod-97 check.`, severity: "info" });
+        policyEvaluation.needs_info.push({ reason: `IBAN ${bank.iban} is invalid (mod-97 check failed).`, fields: ["iban"] });
+      }
+      if (bank.bic && !bank.bic_valid) {
+        checks.issues.push({ code: "BIC_INVALID", message: `BIC ${bank.bic} is not a valid ISO 9362 code.`, severity: "info" });
+        policyEvaluation.needs_info.push({ reason: `BIC ${bank.bic} is invalid.`, fields: ["bic"] });
+      }
+    }
+
     const decision = decide({
       fields,
       evidenceScore,
       overallConfidence: overall_confidence,
       issues: checks.issues,
-      jurisdiction,
-      total_eur,
+      evaluation: policyEvaluation,
     });
 
+    if (invoiceId) {
+      try {
+        await saveLineItems(supabase, user.id, organizationId, invoiceId, lineItems);
+        audit.push({ step: "line_items_saved", at: nowIso(), ok: true, detail: { invoice_id: invoiceId, count: lineItems.length } });
+      } catch (e) {
+        audit.push({ step: "line_items_save_failed", at: nowIso(), ok: false, detail: { message: String((e as Error)?.message || e) } });
+      }
+    }
+
     const result = {
       vendor_name: fields.vendor_name,
       invoice_number: fields.invoice_number,
@@ -437,8 +627,55 @@ serve(async (req) => {
       currency: fields.currency,
       jurisdiction,
 
+      supplier_vat_id: fields.supplier_vat_id,
+      buyer_vat_id: fields.buyer_vat_id,
+      supplier_vat_id_valid: fields.supplier_vat_id_valid,
+      buyer_vat_id_valid: fields.buyer_vat_id_valid,
+      vat_id_check: { supplier: supplierVat, buyer: buyerVat, vies: viesResults },
+
       total_eur,
 
+      iban: bank.iban,
+      iban_valid: bank.iban_valid,
+      bic: bank.bic,
+      bic_valid: bank.bic_valid,
+      account_holder: bank.account_holder,
+      payment_reference: bank.payment_reference,
+      sort_code: bank.sort_code,
+      account_number: bank.account_number,
+
+      vat_rate: vat.vat_rate,
+      vat_amount_computed: vat.vat_amount_computed,
+      vat_treatment: vat.treatment,
+      vat_breakdown: vat.breakdown,
+      vat_reconciliation: vat,
+
+      line_items: lineItems,
+      line_reconciliation: lineReconciliation,
+
+      source: einvoice ? "einvoice_xml" : "ocr",
+      einvoice: einvoice
+        ? {
+            format: describeEInvoice(einvoice),
+            syntax: einvoice.syntax,
+            profile: einvoice.profile,
+            document_type: einvoice.document_type,
+            seller: einvoice.seller,
+            buyer: einvoice.buyer,
+            buyer_reference: einvoice.buyer_reference,
+            net_amount: einvoice.net_amount,
+            payable_amount: einvoice.payable_amount,
+            iban: einvoice.iban,
+            bic: einvoice.bic,
+            payment_reference: einvoice.payment_reference,
+          }
+        : null,
+      due_date: schedule.due_date,
+      payment_terms: paymentTermsText || null,
+      payment_terms_parsed: paymentTerms,
+      discount_percent: bestDiscount?.percent ?? null,
+      discount_due_date: bestDiscount?.deadline ?? null,
+
       evidence: {
         required_evidence_score: evidenceScore,
         citations,
@@ -461,6 +698,12 @@ serve(async (req) => {
       flag_reason: decision.reasons?.join(" | ") ?? null,
 
       compliance_issues: checks.issues,
+      compliance_status: complianceStatus(pack.issues),
+      jurisdiction_pack: pack.pack,
+      policy_evaluation: {
+        policies: policyEvaluation.policies,
+        fired: policyEvaluation.fired,
+      },
       field_confidence,
       overall_confidence,
 
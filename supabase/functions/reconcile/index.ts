@@ -0,0 +1,71 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { getFxRates } from "../_shared/fx.ts";
+import { confirmMatch, rejectMatch, runReconciliation, settlementBlocker } from "../_shared/reconciliationStore.ts";
+import { BOOKKEEPING_ROLES, resolveOrganization } from "../_shared/organizations.ts";
+
+type Body = {
+  action?: "run" | "confirm" | "reject";
+  matchId?: string;
+};
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const action = body.action || "run";
+    if (!["run", "confirm", "reject"].includes(action)) return json(400, { error: `Unknown action "${action}"` });
+    const matchId = String(body.matchId || "").trim();
+    if (action !== "run" && !matchId) return json(400, { error: "Missing matchId" });
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const membership = await resolveOrganization(supabase, u.user.id);
+    if (!membership) return json(403, { error: "Join or create an organization first" });
+    if (!BOOKKEEPING_ROLES.includes(membership.role)) return json(403, { error: "Only owners and accountants can reconcile" });
+    const scope = { userId: u.user.id, organizationId: membership.organizationId };
+    // Settling moves payments to paid, which only the service role may write; every query is scoped to the organization
+    const writer = createClient(supabaseUrl, serviceKey || anonKey);
+
+    if (action === "run") {
+      // Without rates, cross-currency candidates are simply not scored
+      let fx: Record<string, number> = {};
+      try {
+        fx = await getFxRates("EUR");
+      } catch {
+        // ignore
+      }
+      const run = await runReconciliation(writer, scope, { fx });
+      return json(200, { ok: true, suggested: run.suggested, auto_confirmed: run.auto_confirmed });
+    }
+
+    if (action === "confirm") {
+      const blocked = await settlementBlocker(writer, scope.organizationId, matchId);
+      if (blocked) return json(409, { error: blocked });
+    }
+    const match = action === "confirm" ? await confirmMatch(writer, scope, matchId) : await rejectMatch(writer, scope, matchId);
+    if (!match) return json(409, { error: "Match is no longer awaiting review" });
+    return json(200, { ok: true, match });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "reconcile crashed", message });
+  }
+});
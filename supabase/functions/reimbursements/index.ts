@@ -0,0 +1,346 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { isAdmin } from "../_shared/auth.ts";
+import { validateIban } from "../_shared/bankDetails.ts";
+import { getFxRates } from "../_shared/fx.ts";
+import { BOOKKEEPING_ROLES, resolveOrganization } from "../_shared/organizations.ts";
+import { buildPain001, sepaId, type PainPayment } from "../_shared/pain001.ts";
+import type { MealsProvided } from "../_shared/travelAllowances.ts";
+import {
+  addMileageToClaim,
+  addPerDiemToClaim,
+  addReceiptToClaim,
+  decideClaim,
+  payoutCsv,
+  recalculateClaim,
+  removeClaimItem,
+  submitClaim,
+  type ClaimDecision,
+  type PayoutLine,
+} from "../_shared/reimbursements.ts";
+
+type Body = {
+  action?: "add_receipt" | "add_mileage" | "add_per_diem" | "remove_item" | "recalculate" | "submit" | "decide" | "payout" | "mark_paid";
+  claimId?: string;
+  invoiceId?: string; // add_receipt
+  description?: string; // add_mileage / add_per_diem
+  country?: string;
+  date?: string; // add_mileage
+  distance?: number;
+  unit?: "km" | "mi";
+  vehicleType?: string;
+  city?: string; // add_per_diem
+  departure?: string; // YYYY-MM-DDTHH:mm
+  return?: string;
+  meals?: MealsProvided[];
+  itemId?: string; // remove_item
+  decision?: ClaimDecision; // decide
+  note?: string;
+  claimIds?: string[]; // payout / mark_paid: defaults to every approved, unpaid claim
+  organizationId?: string; // payout / mark_paid: defaults to the active organization
+  debtorAccountId?: string; // defaults to the organization's default bank account
+  executionDate?: string;
+};
+
+type Row = Record<string, unknown>;
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function nextBusinessDay(from = new Date()): string {
+  const d = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() + 1));
+  while (d.getUTCDay() === 0 || d.getUTCDay() === 6) d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const authHeader = req.headers.get("Authorization") || "";
+    if (!authHeader) return json(401, { error: "Missing Authorization header" });
+
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const action = body.action || "recalculate";
+    const claimId = String(body.claimId || "").trim();
+    if (["add_receipt", "add_mileage", "add_per_diem", "recalculate", "submit", "decide"].includes(action) && !claimId) {
+      return json(400, { error: "Missing claimId" });
+    }
+    if ((action === "add_mileage" || action === "add_per_diem") && !body.country) return json(400, { error: "Missing country" });
+    if (action === "add_receipt" && !body.invoiceId) return json(400, { error: "Missing invoiceId" });
+    if (action === "remove_item" && !body.itemId) return json(400, { error: "Missing itemId" });
+    if (action === "decide" && !["pass", "fail", "needs_info"].includes(String(body.decision))) {
+      return json(400, { error: "Decision must be pass, fail or needs_info" });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: u } = await supabase.auth.getUser();
+    if (!u?.user) return json(401, { error: "Unauthorized" });
+    const userId = u.user.id;
+
+    // Submitted claims are read-only under RLS; state changes are written with the service role
+    // after the shared helpers have checked who may make them.
+    if (!serviceKey) return json(500, { error: "Missing SUPABASE_SERVICE_ROLE_KEY" });
+    const writer = createClient(supabaseUrl, serviceKey);
+
+    let fx: Record<string, number> = {};
+    try {
+      fx = await getFxRates("EUR");
+    } catch {
+      // ignore
+    }
+
+    const guarded = async (fn: () => Promise<unknown>) => {
+      try {
+        return json(200, { ok: true, result: await fn() });
+      } catch (e) {
+        return json(409, { error: e instanceof Error ? e.message : String(e) });
+      }
+    };
+
+    switch (action) {
+      case "add_receipt":
+        return guarded(() => addReceiptToClaim(supabase, userId, claimId, String(body.invoiceId), fx));
+      case "add_mileage":
+        return guarded(() =>
+          addMileageToClaim(
+            supabase,
+            userId,
+            claimId,
+            {
+              date: String(body.date || ""),
+              distance: Number(body.distance),
+              unit: body.unit === "mi" ? "mi" : "km",
+              vehicle_type: String(body.vehicleType || "car"),
+              country: String(body.country),
+              description: body.description ?? null,
+            },
+            fx,
+          ),
+        );
+      case "add_per_diem":
+        return guarded(() =>
+          addPerDiemToClaim(
+            supabase,
+            userId,
+            claimId,
+            {
+              country: String(body.country),
+              city: body.city || null,
+              departure: String(body.departure || ""),
+              return: String(body.return || ""),
+              meals: Array.isArray(body.meals) ? body.meals : [],
+              description: body.description ?? null,
+            },
+            fx,
+          ),
+        );
+      case "remove_item":
+        return guarded(() => removeClaimItem(supabase, userId, String(body.itemId), fx));
+      case "recalculate":
+        return guarded(() => recalculateClaim(supabase, claimId, fx));
+      case "submit":
+        return guarded(() => submitClaim(writer, userId, claimId, fx));
+      case "decide": {
+        const admin = await isAdmin(supabase, userId);
+        return guarded(() => decideClaim(writer, { id: userId, admin }, claimId, body.decision as ClaimDecision, body.note ?? null));
+      }
+      case "payout":
+      case "mark_paid":
+        break;
+      default:
+        return json(400, { error: `Unknown action "${action}"` });
+    }
+
+    // Finance actions cover one organization's claims, paid from that organization's bank account
+    const admin = await isAdmin(supabase, userId);
+    const membership = await resolveOrganization(supabase, userId, body.organizationId);
+    const organizationId = membership?.organizationId ?? (admin && body.organizationId ? String(body.organizationId) : null);
+    if (!organizationId) return json(403, { error: "Join or create an organization first" });
+    if (!admin && !BOOKKEEPING_ROLES.includes(membership!.role)) {
+      return json(403, { error: "Only owners, accountants and finance admins can pay out claims" });
+    }
+
+    if (action === "mark_paid") {
+      if (!body.claimIds?.length) return json(400, { error: "Select at least one claim" });
+      const now = new Date().toISOString();
+      const { data: paid, error } = await writer
+        .from("reimbursements")
+        .update({ paid_at: now })
+        .in("id", body.claimIds)
+        .eq("organization_id", organizationId)
+        .eq("status", "pass")
+        .not("exported_at", "is", null)
+        .is("paid_at", null)
+        .select("id,user_id,amount,currency");
+      if (error) return json(400, { error: error.message });
+
+      for (const c of paid || []) {
+        await writer.from("notifications").insert({
+          user_id: c.user_id,
+          created_by: userId,
+          kind: "reimbursement_paid",
+          title: `Your reimbursement of ${Number(c.amount).toFixed(2)} ${c.currency} was paid`,
+          link: "/dashboard/reimbursements",
+          entity_type: "reimbursement",
+          entity_id: c.id,
+        });
+      }
+      try {
+        await supabase.from("audit_logs").insert({
+          user_id: userId,
+          step: "reimbursements_paid",
+          payload: { reimbursement_ids: (paid || []).map((c: Row) => c.id) },
+        });
+      } catch {
+        // ignore
+      }
+      return json(200, { ok: true, paid: paid?.length ?? 0 });
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const executionDate = body.executionDate || nextBusinessDay();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(executionDate) || executionDate < today) {
+      return json(400, { error: "Execution date must be today or later (YYYY-MM-DD)" });
+    }
+
+    let query = writer
+      .from("reimbursements")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .eq("status", "pass")
+      .is("exported_at", null)
+      .is("paid_at", null);
+    if (body.claimIds?.length) query = query.in("id", body.claimIds);
+    const { data: claims, error: claimErr } = await query.order("decided_at", { ascending: true }).limit(500);
+    if (claimErr) return json(400, { error: claimErr.message });
+    if (!claims?.length) return json(422, { error: "No approved claims waiting for payout" });
+
+    const { data: profiles } = await writer
+      .from("profiles")
+      .select("user_id,full_name,email,payout_iban,payout_bic")
+      .in("user_id", [...new Set(claims.map((c: Row) => c.user_id))]);
+    const profileByUser = new Map((profiles || []).map((p: Row) => [String(p.user_id), p]));
+
+    const { data: accounts, error: accErr } = await writer.from("bank_accounts").select("*").eq("organization_id", organizationId);
+    if (accErr) return json(400, { error: accErr.message });
+    const account =
+      (body.debtorAccountId ? (accounts || []).find((a: Row) => a.id === body.debtorAccountId) : null) ??
+      (accounts || []).find((a: Row) => a.is_default) ??
+      (accounts || [])[0] ??
+      null;
+
+    const lines: PayoutLine[] = [];
+    const payments: PainPayment[] = [];
+    for (const c of claims) {
+      const p = profileByUser.get(String(c.user_id));
+      const iban = p?.payout_iban ? String(p.payout_iban) : null;
+      const currency = String(c.currency || "EUR").toUpperCase();
+      const reference = sepaId(`REIMB-${String(c.id).slice(0, 8)}`);
+      const problem = !account
+        ? "No debtor bank account"
+        : currency !== "EUR"
+          ? `${currency} claims are paid manually`
+          : !iban || !validateIban(iban)
+            ? "Employee payout IBAN missing or invalid"
+            : null;
+      lines.push({
+        claim_id: String(c.id),
+        employee: String(p?.full_name || p?.email || c.user_id),
+        email: p?.email ? String(p.email) : null,
+        iban,
+        bic: p?.payout_bic ? String(p.payout_bic) : null,
+        amount: Number(c.amount),
+        currency,
+        reference,
+        method: problem ? "manual" : "sepa",
+        note: problem,
+      });
+      if (!problem && account) {
+        payments.push({
+          end_to_end_id: reference,
+          amount: Number(c.amount),
+          currency,
+          execution_date: executionDate,
+          debtor: { name: String(account.holder_name), iban: String(account.iban), bic: account.bic ? String(account.bic) : null },
+          creditor: { name: String(p?.full_name || p?.email || ""), iban: String(iban), bic: p?.payout_bic ? String(p.payout_bic) : null },
+          remittance: `Expense reimbursement ${String(c.title || "").trim()}`.trim(),
+        });
+      }
+    }
+
+    const createdAt = new Date().toISOString();
+    const messageId = `REIMB-${createdAt.replace(/\D/g, "").slice(0, 14)}-${crypto.randomUUID().slice(0, 8)}`;
+    const pain = payments.length
+      ? buildPain001({ message_id: messageId, initiating_party: String(account?.holder_name || ""), created_at: createdAt, payments })
+      : null;
+    for (const issue of pain?.issues ?? []) {
+      const line = lines.find((l) => l.reference === issue.end_to_end_id);
+      if (line) Object.assign(line, { method: "manual", note: issue.message });
+    }
+
+    let run: Row | null = null;
+    if (pain?.count) {
+      const filePath = `${userId}/payment-runs/${messageId}.xml`;
+      const up = await supabase.storage
+        .from("invoices")
+        .upload(filePath, new Blob([pain.xml], { type: "application/xml" }), { upsert: true, contentType: "application/xml" });
+      if (up.error) return json(400, { error: "pain.001 upload failed", message: up.error.message });
+
+      const { data, error } = await writer
+        .from("payment_runs")
+        .insert({
+          user_id: userId,
+          organization_id: organizationId,
+          message_id: messageId,
+          status: "exported",
+          payment_count: pain.count,
+          control_sum: pain.control_sum,
+          currency: "EUR",
+          file_path: filePath,
+          summary: { kind: "reimbursements", groups: pain.groups, claims: lines.filter((l) => l.method === "sepa").map((l) => l.claim_id) },
+        })
+        .select("*")
+        .single();
+      if (error) return json(400, { error: error.message });
+      run = data;
+    }
+
+    for (const line of lines) {
+      const { error } = await writer
+        .from("reimbursements")
+        .update({ exported_at: createdAt, payout_run_id: line.method === "sepa" ? (run?.id ?? null) : null })
+        .eq("id", line.claim_id);
+      if (error) return json(400, { error: error.message, run_id: run?.id ?? null });
+    }
+
+    try {
+      await supabase.from("audit_logs").insert({
+        user_id: userId,
+        step: "reimbursements_exported",
+        payload: {
+          run_id: run?.id ?? null,
+          message_id: pain?.count ? messageId : null,
+          claims: lines.map((l) => ({ id: l.claim_id, amount: l.amount, currency: l.currency, method: l.method })),
+        },
+      });
+    } catch {
+      // ignore
+    }
+
+    return json(200, { ok: true, run, lines, csv: payoutCsv(lines), xml: pain?.count ? pain.xml : null });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return json(500, { error: "reimbursements crashed", message });
+  }
+});
@@ -1,5 +1,6 @@
 import { corsHeaders } from "../_shared/cors.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { BOOKKEEPING_ROLES, hasOrgRoleFor } from "../_shared/organizations.ts";
 
 type Body = { invoiceId?: string };
 
@@ -48,21 +49,26 @@ Deno.serve(async (req) => {
 
     const { data: invoice, error: invErr } = await supabase
       .from("invoices")
-      .select("id,user_id,document_hash,total_amount,vendor_name,currency,invoice_date")
+      .select("id,user_id,organization_id,document_hash,total_amount,vendor_name,currency,invoice_date")
       .eq("id", invoiceId)
       .single();
     if (invErr || !invoice) return json(404, { error: "Invoice not found" });
-    if (invoice.user_id !== userId) return json(403, { error: "Forbidden" });
+    if (invoice.user_id !== userId && !(await hasOrgRoleFor(supabase, invoice.organization_id, userId, BOOKKEEPING_ROLES))) {
+      return json(403, { error: "Forbidden" });
+    }
 
     const anomalyFlags: string[] = [];
     let fraudScore = 0.05;
 
-    // Duplicate detection
+    // Duplicate detection across the whole organization; submitters only see their own invoices, so the
+    // lookup runs with the service role when it is configured
     if (invoice.document_hash) {
-      const { data: dups } = await supabase
+      const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+      const reader = serviceKey ? createClient(supabaseUrl, serviceKey) : supabase;
+      const { data: dups } = await reader
         .from("invoices")
         .select("id")
-        .eq("user_id", userId)
+        .eq("organization_id", invoice.organization_id)
         .eq("document_hash", invoice.document_hash)
         .neq("id", invoiceId)
         .limit(1);
@@ -1,9 +1,24 @@
 import { corsHeaders } from "../_shared/cors.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { isAdmin } from "../_shared/auth.ts";
+import { APPROVING_ROLES, hasOrgRoleFor } from "../_shared/organizations.ts";
+import {
+  activeStep,
+  decideApprovalStep,
+  invoiceAmountEur,
+  loadApprovalSteps,
+  startApprovalChain,
+  type StepDecision,
+} from "../_shared/approvalChains.ts";
+import { openClarification } from "../_shared/clarifications.ts";
+import { checkApproval, loadSodRules, pickSodRule, recordViolation } from "../_shared/segregationOfDuties.ts";
 
 type Body = {
   invoiceId?: string;
-  status?: "pass" | "fail" | "needs_info" | "pending";
+  // "submit" starts the configured approval chain (no-op when none applies); "set" (default) records a decision
+  action?: "set" | "submit";
+  // with "submit": the pipeline's outcome, applied when no chain starts (uploads are saved as pending)
+  status?: "pass" | "fail" | "needs_info" | "pending" | "needs_human";
   reasons?: string[];
 };
 
@@ -24,13 +39,15 @@ Deno.serve(async (req) => {
 
     const body = (await req.json().catch(() => ({}))) as Body;
     const invoiceId = String(body.invoiceId || "").trim();
-    const status = body.status;
+    const action = body.action || "set";
+    let status = body.status;
+    const reasons = (Array.isArray(body.reasons) ? body.reasons : []).map((r) => String(r).trim()).filter(Boolean);
 
     if (!invoiceId) return json(400, { error: "Missing invoiceId" });
-    if (!status) return json(400, { error: "Missing status" });
+    if (action === "set" && !status) return json(400, { error: "Missing status" });
 
-    const allowed = new Set(["pass", "fail", "needs_info", "pending"]);
-    if (!allowed.has(status)) return json(400, { error: "Invalid status" });
+    const allowed = new Set(action === "submit" ? ["pass", "needs_human"] : ["pass", "fail", "needs_info", "pending"]);
+    if (status && !allowed.has(status)) return json(400, { error: "Invalid status" });
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
     const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
@@ -47,27 +64,85 @@ Deno.serve(async (req) => {
     // 2) Use service role for DB writes (avoids RLS update errors)
     const db = createClient(supabaseUrl, serviceKey || anonKey);
 
-    // Check invoice ownership
     const { data: inv, error: invErr } = await db
       .from("invoices")
-      .select("id,user_id,approval,is_duplicate")
+      .select("id,user_id,organization_id,approval,is_duplicate,total_amount,total_eur,vendor_name,invoice_number,needs_info_fields,approval_reasons")
       .eq("id", invoiceId)
       .single();
 
     if (invErr || !inv) return json(404, { error: "Invoice not found" });
-    if (inv.user_id !== userId) return json(403, { error: "Forbidden" });
+
+    // Four-eyes: nobody passes an invoice they uploaded unless its amount band allows it
+    const refuseSelfApproval = async () => {
+      const violation = checkApproval(pickSodRule(await loadSodRules(db, inv.organization_id as string | null), invoiceAmountEur(inv)), inv, userId);
+      if (!violation) return null;
+      await recordViolation(db, userId, invoiceId, "set-approval", violation);
+      return json(403, { error: violation.message, sod: violation.kind });
+    };
+
+    // Asking for information opens a clarification thread with the submitter; the decision stands without it
+    const askSubmitter = async () => {
+      try {
+        await openClarification(db, inv, { requestedBy: userId, recipient: "submitter", message: reasons.join("\n") || null });
+      } catch {
+        // ignore
+      }
+    };
+
+    // 3) While an approval chain is running, decisions go to its active step
+    const steps = await loadApprovalSteps(db, invoiceId);
+    const open = activeStep(steps);
+    // Owners and approvers of the invoice's organization decide like admins do, within that organization
+    const admin =
+      (await isAdmin(supabaseUser, userId)) ||
+      (inv.user_id !== userId && (await hasOrgRoleFor(db, inv.organization_id, userId, APPROVING_ROLES)));
+    if (open) {
+      if (action === "submit" || status === "pending") return json(409, { error: "Invoice is already going through its approval chain" });
+      const refused = status === "pass" ? await refuseSelfApproval() : null;
+      if (refused) return refused;
+      try {
+        const res = await decideApprovalStep(db, { id: userId, admin }, invoiceId, status as StepDecision, reasons);
+        if (res.approval === "needs_info") await askSubmitter();
+        return json(200, { ok: true, invoiceId, status: res.approval, step: res.step, next: res.next });
+      } catch (e) {
+        return json(409, { error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    // Outside a chain the owner submits and decides; admins and organization approvers may decide for them
+    if (inv.user_id !== userId && (action === "submit" || !admin)) return json(403, { error: "Forbidden" });
+
+    // 4) Submitting (or passing) an invoice hands it to the configured chain when one applies
+    if (status === "pass" && inv.approval === "pass") return json(200, { ok: true, invoiceId, status, reasons });
+    if (action === "submit" || status === "pass") {
+      try {
+        const started = await startApprovalChain(db, invoiceId, userId);
+        if (started) return json(200, { ok: true, invoiceId, status: "pending", chain: started.chain, steps: started.steps });
+      } catch (e) {
+        return json(409, { error: e instanceof Error ? e.message : String(e) });
+      }
+      if (action === "submit" && !status) return json(200, { ok: true, invoiceId, status: inv.approval, chain: null });
+      // A passing upload still needs a second person when its band blocks self-approval; that is not a violation
+      if (action === "submit" && status === "pass" && checkApproval(pickSodRule(await loadSodRules(db, inv.organization_id as string | null), invoiceAmountEur(inv)), inv, userId)) {
+        status = "needs_human";
+      }
+      const refused = status === "pass" ? await refuseSelfApproval() : null;
+      if (refused) return refused;
+    }
 
     // ✅ Update correct column: approval
     const { error: updErr } = await db
       .from("invoices")
       .update({
         approval: status,
+        approved_by: status === "pass" ? userId : null,
         updated_at: new Date().toISOString(),
         is_flagged: status === "fail" ? true : undefined,
       })
       .eq("id", invoiceId);
 
     if (updErr) return json(400, { error: updErr.message });
+    if (status === "needs_info" && inv.user_id !== userId) await askSubmitter();
 
     // Optional: save action log if you have table (ignore if missing)
     try {
@@ -75,12 +150,12 @@ Deno.serve(async (req) => {
         user_id: userId,
         invoice_id: invoiceId,
         event_type: "approval_action",
-        payload: { status, reasons: body.reasons ?? [] },
+        payload: { action, status, reasons },
         created_at: new Date().toISOString(),
       });
     } catch (_e) {}
 
-    return json(200, { ok: true, invoiceId, status, reasons: body.reasons ?? [] });
+    return json(200, { ok: true, invoiceId, status, reasons });
   } catch (e) {
     return json(500, { error: "set-approval crashed", message: String(e) });
   }
@@ -1,5 +1,6 @@
 import { corsHeaders } from "../_shared/cors.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { resolveOrganization } from "../_shared/organizations.ts";
 
 function json(status: number, data: unknown) {
   return new Response(JSON.stringify(data), {
@@ -32,11 +33,13 @@ Deno.serve(async (req) => {
     const { data: userRes } = await supabase.auth.getUser();
     if (!userRes?.user) return json(401, { error: "Unauthorized" });
     const userId = userRes.user.id;
+    const membership = await resolveOrganization(supabase, userId);
+    if (!membership) return json(403, { error: "Join or create an organization first" });
 
     const { data: rows, error } = await supabase
       .from("invoices")
       .select("vendor_name,total_amount,invoice_date,currency,category,cost_center")
-      .eq("user_id", userId);
+      .eq("organization_id", membership.organizationId);
 
     if (error) return json(400, { error: error.message });
 
@@ -53,6 +53,19 @@ Fields:
   "subtotal_amount": number|null,
   "tax_amount": number|null,
   "total_amount": number|null,
+  "supplier_vat_id": string|null,  // seller VAT ID incl. country prefix (e.g. DE123456789)
+  "buyer_vat_id": string|null,     // customer VAT ID, if shown
+  "iban": string|null,             // payee IBAN, no spaces
+  "bic": string|null,
+  "account_holder": string|null,   // payee / beneficiary name of the bank account
+  "payment_reference": string|null, // remittance text or RF creditor reference to quote on the transfer
+  "sort_code": string|null,        // UK sort code (6 digits), if no IBAN is given
+  "account_number": string|null,   // UK account number (8 digits)
+  "due_date": string|null,         // YYYY-MM-DD, only if printed on the invoice
+  "payment_terms": string|null,    // verbatim terms, e.g. "2/10 net 30" or "14 Tage 2% Skonto, 30 Tage netto"
+  "line_items": [
+    { "description": string, "quantity": number|null, "unit_price": number|null, "net_amount": number|null, "vat_rate": number|null }  // vat_rate in percent (19 = 19%)
+  ],
   "field_confidence": { "vendor_name": number, "invoice_number": number, "invoice_date": number, "currency": number, "subtotal_amount": number, "tax_amount": number, "total_amount": number },
   "evidence": [
     { "field": string, "page": number, "quote": string, "source": "image"|"ocr", "note": string|null }
@@ -62,6 +75,8 @@ Rules:
 - Confidence must be 0..1
 - Evidence: include at least one evidence item per extracted field when possible.
 - If you cannot find evidence, set the field to null and confidence low.
+- VAT IDs: copy exactly as printed; do not confuse the supplier's and the customer's number.
+- line_items: one entry per invoice table row (goods/services only, not subtotal/VAT/total rows); [] if there is no table.
 File: ${fileName} (${mimeType})
 OCR text (may contain errors) is below:\n\n${String(ocrText || "").slice(0, 12000)}`;
 
@@ -77,7 +92,7 @@ OCR text (may contain errors) is below:\n\n${String(ocrText || "").slice(0, 1200
         },
       ],
       temperature: 0.0,
-      max_output_tokens: 1200,
+      max_output_tokens: 2400,
     };
 
     const resp = await fetch("https://router.huggingface.co/v1/responses", {
@@ -0,0 +1,82 @@
+-- invoice_line_items.sql
+-- Line items extracted by process-invoice (OCR text / vision / e-invoice XML) or entered manually.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.invoice_line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  line_index integer NOT NULL DEFAULT 0,
+  description text,
+  quantity numeric,
+  unit_price numeric,
+  net_amount numeric,
+  vat_rate numeric,
+  gl_account text,
+  source text NOT NULL DEFAULT 'text' CHECK (source IN ('text','vision','xml','manual')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_line_items_invoice_id_fkey' AND conrelid='public.invoice_line_items'::regclass) THEN
+    ALTER TABLE public.invoice_line_items
+      ADD CONSTRAINT invoice_line_items_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_line_items_user_id_fkey' AND conrelid='public.invoice_line_items'::regclass) THEN
+    ALTER TABLE public.invoice_line_items
+      ADD CONSTRAINT invoice_line_items_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS invoice_line_items_invoice_id_idx ON public.invoice_line_items(invoice_id, line_index);
+
+ALTER TABLE public.invoice_line_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_invoice_line_items_updated_at') THEN
+    CREATE TRIGGER update_invoice_line_items_updated_at
+      BEFORE UPDATE ON public.invoice_line_items
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoice_line_items' AND policyname='Users can view their own line items') THEN
+    CREATE POLICY "Users can view their own line items"
+      ON public.invoice_line_items FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoice_line_items' AND policyname='Users can insert their own line items') THEN
+    CREATE POLICY "Users can insert their own line items"
+      ON public.invoice_line_items FOR INSERT
+      WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.user_id = auth.uid())
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoice_line_items' AND policyname='Users can update their own line items') THEN
+    CREATE POLICY "Users can update their own line items"
+      ON public.invoice_line_items FOR UPDATE
+      USING (auth.uid() = user_id)
+      WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.user_id = auth.uid())
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoice_line_items' AND policyname='Users can delete their own line items') THEN
+    CREATE POLICY "Users can delete their own line items"
+      ON public.invoice_line_items FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoice_line_items' AND policyname='Admins can view all line items') THEN
+    CREATE POLICY "Admins can view all line items"
+      ON public.invoice_line_items FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
@@ -0,0 +1,29 @@
+-- outgoing_einvoices.sql
+-- Outgoing invoices authored in the app and issued as XRechnung / Peppol BIS UBL (generate-einvoice).
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS seller jsonb,
+  ADD COLUMN IF NOT EXISTS buyer jsonb,
+  ADD COLUMN IF NOT EXISTS buyer_reference text,
+  ADD COLUMN IF NOT EXISTS invoice_note text,
+  ADD COLUMN IF NOT EXISTS einvoice_format text,
+  ADD COLUMN IF NOT EXISTS einvoice_xml_path text,
+  ADD COLUMN IF NOT EXISTS einvoice_validation jsonb;
+
+ALTER TABLE public.invoice_line_items
+  ADD COLUMN IF NOT EXISTS unit_code text,
+  ADD COLUMN IF NOT EXISTS vat_category text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoices_einvoice_format_check' AND conrelid='public.invoices'::regclass) THEN
+    ALTER TABLE public.invoices
+      ADD CONSTRAINT invoices_einvoice_format_check CHECK (einvoice_format IS NULL OR einvoice_format IN ('xrechnung','peppol'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_line_items_vat_category_check' AND conrelid='public.invoice_line_items'::regclass) THEN
+    ALTER TABLE public.invoice_line_items
+      ADD CONSTRAINT invoice_line_items_vat_category_check CHECK (vat_category IS NULL OR vat_category IN ('S','Z','E','AE','K','G','O'));
+  END IF;
+END $$;
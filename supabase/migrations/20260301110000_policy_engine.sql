@@ -0,0 +1,51 @@
+-- policy_engine.sql
+-- Policies become declarative rule sets evaluated by process-invoice (see _shared/policyEngine.ts).
+-- raw.rules holds the rules; the legacy columns (max_amount, require_*) are still honoured.
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.policies
+  ADD COLUMN IF NOT EXISTS description text,
+  ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS policies_user_active_idx ON public.policies(user_id, is_active);
+
+ALTER TABLE public.policies ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_policies_updated_at') THEN
+    CREATE TRIGGER update_policies_updated_at
+      BEFORE UPDATE ON public.policies
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='policies' AND policyname='Users can view their own policies') THEN
+    CREATE POLICY "Users can view their own policies"
+      ON public.policies FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='policies' AND policyname='Users can insert their own policies') THEN
+    CREATE POLICY "Users can insert their own policies"
+      ON public.policies FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='policies' AND policyname='Users can update their own policies') THEN
+    CREATE POLICY "Users can update their own policies"
+      ON public.policies FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='policies' AND policyname='Users can delete their own policies') THEN
+    CREATE POLICY "Users can delete their own policies"
+      ON public.policies FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='policies' AND policyname='Admins can view all policies') THEN
+    CREATE POLICY "Admins can view all policies"
+      ON public.policies FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
@@ -0,0 +1,13 @@
+-- vat_ids.sql
+-- Supplier / buyer VAT registration numbers extracted by process-invoice (see _shared/vatId.ts).
+-- *_valid holds the offline format/checksum result; vat_id_check keeps the full check incl. VIES.
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS supplier_vat_id text,
+  ADD COLUMN IF NOT EXISTS buyer_vat_id text,
+  ADD COLUMN IF NOT EXISTS supplier_vat_id_valid boolean,
+  ADD COLUMN IF NOT EXISTS buyer_vat_id_valid boolean,
+  ADD COLUMN IF NOT EXISTS vat_id_check jsonb;
+
+CREATE INDEX IF NOT EXISTS invoices_supplier_vat_id_idx ON public.invoices(user_id, supplier_vat_id);
@@ -0,0 +1,17 @@
+-- vat_reconciliation.sql
+-- process-invoice now fills vat_rate / vat_amount_computed (see _shared/vatMath.ts).
+-- vat_breakdown holds one { rate, net, vat } row per rate; vat_treatment marks reverse charge etc.
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS vat_breakdown jsonb,
+  ADD COLUMN IF NOT EXISTS vat_treatment text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'invoices_vat_treatment_check') THEN
+    ALTER TABLE public.invoices
+      ADD CONSTRAINT invoices_vat_treatment_check
+      CHECK (vat_treatment IS NULL OR vat_treatment IN ('standard', 'reverse_charge', 'intra_community', 'exempt'));
+  END IF;
+END $$;
@@ -0,0 +1,11 @@
+-- bank_details.sql
+-- Payee bank details extracted by process-invoice (see _shared/bankDetails.ts) and used by generate-qr.
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS iban text,
+  ADD COLUMN IF NOT EXISTS iban_valid boolean,
+  ADD COLUMN IF NOT EXISTS bic text,
+  ADD COLUMN IF NOT EXISTS bic_valid boolean,
+  ADD COLUMN IF NOT EXISTS account_holder text,
+  ADD COLUMN IF NOT EXISTS payment_reference text;
@@ -0,0 +1,7 @@
+-- uk_bank_details.sql
+-- UK domestic bank details for Faster Payments (generate-qr method "uk_fp").
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS sort_code text,
+  ADD COLUMN IF NOT EXISTS account_number text;
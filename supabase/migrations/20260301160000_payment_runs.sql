@@ -0,0 +1,134 @@
+-- payment_runs.sql
+-- Batch payments: the user's own (debtor) bank accounts, payment runs exported as ISO 20022
+-- pain.001.001.09 by the payment-run function, and the run/debtor/execution data on payments.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.bank_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  holder_name text NOT NULL,
+  iban text NOT NULL,
+  bic text,
+  currency text NOT NULL DEFAULT 'EUR',
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.payment_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  message_id text NOT NULL,
+  status text NOT NULL DEFAULT 'exported' CHECK (status IN ('exported','submitted','completed','canceled')),
+  payment_count integer NOT NULL DEFAULT 0,
+  control_sum numeric NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'EUR',
+  file_path text,
+  summary jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS payment_run_id uuid,
+  ADD COLUMN IF NOT EXISTS debtor_account_id uuid,
+  ADD COLUMN IF NOT EXISTS execution_date date,
+  ADD COLUMN IF NOT EXISTS end_to_end_id text,
+  ADD COLUMN IF NOT EXISTS creditor_name text,
+  ADD COLUMN IF NOT EXISTS creditor_iban text,
+  ADD COLUMN IF NOT EXISTS creditor_bic text,
+  ADD COLUMN IF NOT EXISTS remittance text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_accounts_user_id_fkey' AND conrelid='public.bank_accounts'::regclass) THEN
+    ALTER TABLE public.bank_accounts
+      ADD CONSTRAINT bank_accounts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='payment_runs_user_id_fkey' AND conrelid='public.payment_runs'::regclass) THEN
+    ALTER TABLE public.payment_runs
+      ADD CONSTRAINT payment_runs_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='payments_payment_run_id_fkey' AND conrelid='public.payments'::regclass) THEN
+    ALTER TABLE public.payments
+      ADD CONSTRAINT payments_payment_run_id_fkey FOREIGN KEY (payment_run_id) REFERENCES public.payment_runs(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='payments_debtor_account_id_fkey' AND conrelid='public.payments'::regclass) THEN
+    ALTER TABLE public.payments
+      ADD CONSTRAINT payments_debtor_account_id_fkey FOREIGN KEY (debtor_account_id) REFERENCES public.bank_accounts(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS bank_accounts_user_iban_idx ON public.bank_accounts(user_id, iban);
+CREATE INDEX IF NOT EXISTS payment_runs_user_idx ON public.payment_runs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS payments_run_idx ON public.payments(payment_run_id);
+
+ALTER TABLE public.bank_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_runs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_bank_accounts_updated_at') THEN
+    CREATE TRIGGER update_bank_accounts_updated_at
+      BEFORE UPDATE ON public.bank_accounts
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_payment_runs_updated_at') THEN
+    CREATE TRIGGER update_payment_runs_updated_at
+      BEFORE UPDATE ON public.payment_runs
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_accounts' AND policyname='Users can view their own bank accounts') THEN
+    CREATE POLICY "Users can view their own bank accounts"
+      ON public.bank_accounts FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_accounts' AND policyname='Users can insert their own bank accounts') THEN
+    CREATE POLICY "Users can insert their own bank accounts"
+      ON public.bank_accounts FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_accounts' AND policyname='Users can update their own bank accounts') THEN
+    CREATE POLICY "Users can update their own bank accounts"
+      ON public.bank_accounts FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_accounts' AND policyname='Users can delete their own bank accounts') THEN
+    CREATE POLICY "Users can delete their own bank accounts"
+      ON public.bank_accounts FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='payment_runs' AND policyname='Users can view their own payment runs') THEN
+    CREATE POLICY "Users can view their own payment runs"
+      ON public.payment_runs FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='payment_runs' AND policyname='Users can insert their own payment runs') THEN
+    CREATE POLICY "Users can insert their own payment runs"
+      ON public.payment_runs FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='payment_runs' AND policyname='Users can update their own payment runs') THEN
+    CREATE POLICY "Users can update their own payment runs"
+      ON public.payment_runs FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='payment_runs' AND policyname='Admins can view all payment runs') THEN
+    CREATE POLICY "Admins can view all payment runs"
+      ON public.payment_runs FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
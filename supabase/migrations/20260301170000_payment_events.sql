@@ -0,0 +1,58 @@
+-- payment_events.sql
+-- Payment lifecycle: one append-only row per status transition (actor + timestamp), and the
+-- payment status mirrored onto the invoice so it can be marked paid.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.payment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL,
+  invoice_id uuid,
+  user_id uuid NOT NULL,
+  actor_id uuid,
+  from_status public.payment_status,
+  to_status public.payment_status NOT NULL,
+  reason text,
+  metadata jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS payment_status public.payment_status,
+  ADD COLUMN IF NOT EXISTS paid_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='payment_events_payment_id_fkey' AND conrelid='public.payment_events'::regclass) THEN
+    ALTER TABLE public.payment_events
+      ADD CONSTRAINT payment_events_payment_id_fkey FOREIGN KEY (payment_id) REFERENCES public.payments(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='payment_events_user_id_fkey' AND conrelid='public.payment_events'::regclass) THEN
+    ALTER TABLE public.payment_events
+      ADD CONSTRAINT payment_events_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS payment_events_payment_idx ON public.payment_events(payment_id, created_at);
+CREATE INDEX IF NOT EXISTS invoices_payment_status_idx ON public.invoices(user_id, payment_status);
+
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+-- No insert/update/delete policies: the timeline is an audit trail, written by edge functions with the service role
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='payment_events' AND policyname='Users can view their own payment events') THEN
+    CREATE POLICY "Users can view their own payment events"
+      ON public.payment_events FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='payment_events' AND policyname='Admins can view all payment events') THEN
+    CREATE POLICY "Admins can view all payment events"
+      ON public.payment_events FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
@@ -0,0 +1,19 @@
+-- payment_terms.sql
+-- Structured payment terms (net days, early-payment discounts) parsed from `payment_terms`, and
+-- the best discount and its deadline for payment scheduling.
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS payment_terms_parsed jsonb,
+  ADD COLUMN IF NOT EXISTS discount_percent numeric,
+  ADD COLUMN IF NOT EXISTS discount_due_date date;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoices_discount_percent_check' AND conrelid='public.invoices'::regclass) THEN
+    ALTER TABLE public.invoices
+      ADD CONSTRAINT invoices_discount_percent_check CHECK (discount_percent IS NULL OR (discount_percent > 0 AND discount_percent <= 100));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS invoices_due_date_idx ON public.invoices(user_id, due_date);
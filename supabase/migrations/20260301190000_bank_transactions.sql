@@ -0,0 +1,128 @@
+-- bank_transactions.sql
+-- Bank statement imports (camt.053, MT940, CSV) and the booked transactions they contain.
+-- Transactions are unique per user on a content fingerprint so overlapping imports add nothing twice.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.bank_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  file_name text NOT NULL,
+  format text NOT NULL CHECK (format IN ('camt053','mt940','csv')),
+  account_iban text,
+  currency text,
+  period_from date,
+  period_to date,
+  transaction_count integer NOT NULL DEFAULT 0,
+  imported_count integer NOT NULL DEFAULT 0,
+  duplicate_count integer NOT NULL DEFAULT 0,
+  issues jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.bank_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  statement_id uuid,
+  account_iban text,
+  booking_date date NOT NULL,
+  value_date date,
+  amount numeric NOT NULL,
+  currency text NOT NULL DEFAULT 'EUR',
+  counterparty_name text,
+  counterparty_iban text,
+  counterparty_bic text,
+  remittance text,
+  end_to_end_id text,
+  bank_reference text,
+  dedupe_key text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_statements_user_id_fkey' AND conrelid='public.bank_statements'::regclass) THEN
+    ALTER TABLE public.bank_statements
+      ADD CONSTRAINT bank_statements_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_transactions_user_id_fkey' AND conrelid='public.bank_transactions'::regclass) THEN
+    ALTER TABLE public.bank_transactions
+      ADD CONSTRAINT bank_transactions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_transactions_statement_id_fkey' AND conrelid='public.bank_transactions'::regclass) THEN
+    ALTER TABLE public.bank_transactions
+      ADD CONSTRAINT bank_transactions_statement_id_fkey FOREIGN KEY (statement_id) REFERENCES public.bank_statements(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS bank_transactions_user_dedupe_idx ON public.bank_transactions(user_id, dedupe_key);
+CREATE INDEX IF NOT EXISTS bank_transactions_user_date_idx ON public.bank_transactions(user_id, booking_date DESC);
+CREATE INDEX IF NOT EXISTS bank_statements_user_idx ON public.bank_statements(user_id, created_at DESC);
+
+ALTER TABLE public.bank_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_transactions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_bank_transactions_updated_at') THEN
+    CREATE TRIGGER update_bank_transactions_updated_at
+      BEFORE UPDATE ON public.bank_transactions
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_statements' AND policyname='Users can view their own bank statements') THEN
+    CREATE POLICY "Users can view their own bank statements"
+      ON public.bank_statements FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_statements' AND policyname='Users can insert their own bank statements') THEN
+    CREATE POLICY "Users can insert their own bank statements"
+      ON public.bank_statements FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_statements' AND policyname='Users can update their own bank statements') THEN
+    CREATE POLICY "Users can update their own bank statements"
+      ON public.bank_statements FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_statements' AND policyname='Users can delete their own bank statements') THEN
+    CREATE POLICY "Users can delete their own bank statements"
+      ON public.bank_statements FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_transactions' AND policyname='Users can view their own bank transactions') THEN
+    CREATE POLICY "Users can view their own bank transactions"
+      ON public.bank_transactions FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_transactions' AND policyname='Users can insert their own bank transactions') THEN
+    CREATE POLICY "Users can insert their own bank transactions"
+      ON public.bank_transactions FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_transactions' AND policyname='Users can update their own bank transactions') THEN
+    CREATE POLICY "Users can update their own bank transactions"
+      ON public.bank_transactions FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_transactions' AND policyname='Users can delete their own bank transactions') THEN
+    CREATE POLICY "Users can delete their own bank transactions"
+      ON public.bank_transactions FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_transactions' AND policyname='Admins can view all bank transactions') THEN
+    CREATE POLICY "Admins can view all bank transactions"
+      ON public.bank_transactions FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
@@ -0,0 +1,136 @@
+-- reconciliation.sql
+-- Invoice ↔ bank transaction reconciliation: suggested/confirmed matches, the amounts each match
+-- allocates between transactions and invoices, and the reconciled totals on both sides.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.reconciliation_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('one_to_one','one_to_many','many_to_one','partial')),
+  status text NOT NULL DEFAULT 'suggested' CHECK (status IN ('suggested','confirmed','rejected')),
+  score numeric NOT NULL DEFAULT 0,
+  signals jsonb,
+  reasons text[],
+  auto boolean NOT NULL DEFAULT false,
+  decided_by uuid,
+  decided_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.reconciliation_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  match_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  transaction_id uuid NOT NULL,
+  invoice_id uuid NOT NULL,
+  amount numeric NOT NULL,
+  invoice_amount numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bank_transactions
+  ADD COLUMN IF NOT EXISTS reconciled_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reconciliation_status text NOT NULL DEFAULT 'unmatched';
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS paid_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reconciliation_status text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_transactions_reconciliation_status_check' AND conrelid='public.bank_transactions'::regclass) THEN
+    ALTER TABLE public.bank_transactions
+      ADD CONSTRAINT bank_transactions_reconciliation_status_check CHECK (reconciliation_status IN ('unmatched','suggested','partial','matched'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoices_reconciliation_status_check' AND conrelid='public.invoices'::regclass) THEN
+    ALTER TABLE public.invoices
+      ADD CONSTRAINT invoices_reconciliation_status_check CHECK (reconciliation_status IS NULL OR reconciliation_status IN ('partial','matched'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reconciliation_matches_user_id_fkey' AND conrelid='public.reconciliation_matches'::regclass) THEN
+    ALTER TABLE public.reconciliation_matches
+      ADD CONSTRAINT reconciliation_matches_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reconciliation_allocations_match_id_fkey' AND conrelid='public.reconciliation_allocations'::regclass) THEN
+    ALTER TABLE public.reconciliation_allocations
+      ADD CONSTRAINT reconciliation_allocations_match_id_fkey FOREIGN KEY (match_id) REFERENCES public.reconciliation_matches(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reconciliation_allocations_transaction_id_fkey' AND conrelid='public.reconciliation_allocations'::regclass) THEN
+    ALTER TABLE public.reconciliation_allocations
+      ADD CONSTRAINT reconciliation_allocations_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.bank_transactions(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reconciliation_allocations_invoice_id_fkey' AND conrelid='public.reconciliation_allocations'::regclass) THEN
+    ALTER TABLE public.reconciliation_allocations
+      ADD CONSTRAINT reconciliation_allocations_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS reconciliation_matches_user_status_idx ON public.reconciliation_matches(user_id, status);
+CREATE INDEX IF NOT EXISTS reconciliation_allocations_match_idx ON public.reconciliation_allocations(match_id);
+CREATE INDEX IF NOT EXISTS reconciliation_allocations_invoice_idx ON public.reconciliation_allocations(invoice_id);
+CREATE INDEX IF NOT EXISTS bank_transactions_reconciliation_idx ON public.bank_transactions(user_id, reconciliation_status);
+
+ALTER TABLE public.reconciliation_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reconciliation_allocations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_reconciliation_matches_updated_at') THEN
+    CREATE TRIGGER update_reconciliation_matches_updated_at
+      BEFORE UPDATE ON public.reconciliation_matches
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reconciliation_matches' AND policyname='Users can view their own reconciliation matches') THEN
+    CREATE POLICY "Users can view their own reconciliation matches"
+      ON public.reconciliation_matches FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reconciliation_matches' AND policyname='Users can insert their own reconciliation matches') THEN
+    CREATE POLICY "Users can insert their own reconciliation matches"
+      ON public.reconciliation_matches FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reconciliation_matches' AND policyname='Users can update their own reconciliation matches') THEN
+    CREATE POLICY "Users can update their own reconciliation matches"
+      ON public.reconciliation_matches FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reconciliation_matches' AND policyname='Users can delete their own reconciliation matches') THEN
+    CREATE POLICY "Users can delete their own reconciliation matches"
+      ON public.reconciliation_matches FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reconciliation_allocations' AND policyname='Users can view their own reconciliation allocations') THEN
+    CREATE POLICY "Users can view their own reconciliation allocations"
+      ON public.reconciliation_allocations FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reconciliation_allocations' AND policyname='Users can insert their own reconciliation allocations') THEN
+    CREATE POLICY "Users can insert their own reconciliation allocations"
+      ON public.reconciliation_allocations FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reconciliation_allocations' AND policyname='Users can delete their own reconciliation allocations') THEN
+    CREATE POLICY "Users can delete their own reconciliation allocations"
+      ON public.reconciliation_allocations FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reconciliation_matches' AND policyname='Admins can view all reconciliation matches') THEN
+    CREATE POLICY "Admins can view all reconciliation matches"
+      ON public.reconciliation_matches FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
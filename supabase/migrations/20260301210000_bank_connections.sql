@@ -0,0 +1,162 @@
+-- bank_connections.sql
+-- Open-banking connections (provider consent, sync state), the accounts and balances they expose,
+-- and an hourly pg_cron job that calls the bank-sync function for connections that are due.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.bank_connections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  provider text NOT NULL,
+  institution_name text,
+  consent_id text,
+  consent_created_at timestamptz,
+  consent_expires_at timestamptz,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active','expired','error','revoked')),
+  sync_interval_minutes integer NOT NULL DEFAULT 360,
+  last_synced_at timestamptz,
+  last_sync_imported integer NOT NULL DEFAULT 0,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.bank_connection_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  external_id text NOT NULL,
+  iban text,
+  name text,
+  currency text NOT NULL DEFAULT 'EUR',
+  balance_booked numeric,
+  balance_available numeric,
+  balance_date date,
+  last_synced_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS connection_id uuid;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_connections_user_id_fkey' AND conrelid='public.bank_connections'::regclass) THEN
+    ALTER TABLE public.bank_connections
+      ADD CONSTRAINT bank_connections_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_connection_accounts_connection_id_fkey' AND conrelid='public.bank_connection_accounts'::regclass) THEN
+    ALTER TABLE public.bank_connection_accounts
+      ADD CONSTRAINT bank_connection_accounts_connection_id_fkey FOREIGN KEY (connection_id) REFERENCES public.bank_connections(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_connection_accounts_user_id_fkey' AND conrelid='public.bank_connection_accounts'::regclass) THEN
+    ALTER TABLE public.bank_connection_accounts
+      ADD CONSTRAINT bank_connection_accounts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='bank_transactions_connection_id_fkey' AND conrelid='public.bank_transactions'::regclass) THEN
+    ALTER TABLE public.bank_transactions
+      ADD CONSTRAINT bank_transactions_connection_id_fkey FOREIGN KEY (connection_id) REFERENCES public.bank_connections(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS bank_connection_accounts_external_idx ON public.bank_connection_accounts(connection_id, external_id);
+CREATE INDEX IF NOT EXISTS bank_connections_user_idx ON public.bank_connections(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS bank_connections_due_idx ON public.bank_connections(status, last_synced_at);
+
+ALTER TABLE public.bank_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_connection_accounts ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_bank_connections_updated_at') THEN
+    CREATE TRIGGER update_bank_connections_updated_at
+      BEFORE UPDATE ON public.bank_connections
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_bank_connection_accounts_updated_at') THEN
+    CREATE TRIGGER update_bank_connection_accounts_updated_at
+      BEFORE UPDATE ON public.bank_connection_accounts
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connections' AND policyname='Users can view their own bank connections') THEN
+    CREATE POLICY "Users can view their own bank connections"
+      ON public.bank_connections FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connections' AND policyname='Users can insert their own bank connections') THEN
+    CREATE POLICY "Users can insert their own bank connections"
+      ON public.bank_connections FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connections' AND policyname='Users can update their own bank connections') THEN
+    CREATE POLICY "Users can update their own bank connections"
+      ON public.bank_connections FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connections' AND policyname='Users can delete their own bank connections') THEN
+    CREATE POLICY "Users can delete their own bank connections"
+      ON public.bank_connections FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connections' AND policyname='Admins can view all bank connections') THEN
+    CREATE POLICY "Admins can view all bank connections"
+      ON public.bank_connections FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connection_accounts' AND policyname='Users can view their own bank connection accounts') THEN
+    CREATE POLICY "Users can view their own bank connection accounts"
+      ON public.bank_connection_accounts FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connection_accounts' AND policyname='Users can insert their own bank connection accounts') THEN
+    CREATE POLICY "Users can insert their own bank connection accounts"
+      ON public.bank_connection_accounts FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connection_accounts' AND policyname='Users can update their own bank connection accounts') THEN
+    CREATE POLICY "Users can update their own bank connection accounts"
+      ON public.bank_connection_accounts FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='bank_connection_accounts' AND policyname='Admins can view all bank connection accounts') THEN
+    CREATE POLICY "Admins can view all bank connection accounts"
+      ON public.bank_connection_accounts FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
+
+-- Scheduled sync: needs pg_cron + pg_net and the Vault secrets `project_url` and `service_role_key`.
+-- Projects without them skip this; syncs then only run from the Open Banking page.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname='pg_cron') AND EXISTS (SELECT 1 FROM pg_extension WHERE extname='pg_net') THEN
+    IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname='bank-sync') THEN
+      PERFORM cron.schedule(
+        'bank-sync',
+        '0 * * * *',
+        $job$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/bank-sync',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"scheduled"}'::jsonb
+        );
+        $job$
+      );
+    END IF;
+  END IF;
+END $$;
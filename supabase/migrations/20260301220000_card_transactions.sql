@@ -0,0 +1,141 @@
+-- card_transactions.sql
+-- Corporate card statement import (CSV/OFX) with receipt matching, plus in-app notifications
+-- used to remind card holders about receipts that are still missing.
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.card_transactions
+  ADD COLUMN IF NOT EXISTS posted_date date,
+  ADD COLUMN IF NOT EXISTS description text,
+  ADD COLUMN IF NOT EXISTS merchant_category text,
+  ADD COLUMN IF NOT EXISTS original_amount numeric,
+  ADD COLUMN IF NOT EXISTS original_currency text,
+  ADD COLUMN IF NOT EXISTS card_last4 text,
+  ADD COLUMN IF NOT EXISTS card_holder_name text,
+  ADD COLUMN IF NOT EXISTS card_holder_email text,
+  ADD COLUMN IF NOT EXISTS card_holder_id uuid,
+  ADD COLUMN IF NOT EXISTS source text,
+  ADD COLUMN IF NOT EXISTS dedupe_key text,
+  ADD COLUMN IF NOT EXISTS receipt_required boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS match_score numeric,
+  ADD COLUMN IF NOT EXISTS match_reasons text[],
+  ADD COLUMN IF NOT EXISTS match_method text,
+  ADD COLUMN IF NOT EXISTS matched_at timestamptz,
+  ADD COLUMN IF NOT EXISTS suggested_invoice_id uuid,
+  ADD COLUMN IF NOT EXISTS reminder_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_reminded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  created_by uuid,
+  kind text NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  entity_type text,
+  entity_id uuid,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='card_transactions_match_method_check' AND conrelid='public.card_transactions'::regclass) THEN
+    ALTER TABLE public.card_transactions
+      ADD CONSTRAINT card_transactions_match_method_check CHECK (match_method IS NULL OR match_method IN ('auto','manual'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='card_transactions_card_holder_id_fkey' AND conrelid='public.card_transactions'::regclass) THEN
+    ALTER TABLE public.card_transactions
+      ADD CONSTRAINT card_transactions_card_holder_id_fkey FOREIGN KEY (card_holder_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='card_transactions_suggested_invoice_id_fkey' AND conrelid='public.card_transactions'::regclass) THEN
+    ALTER TABLE public.card_transactions
+      ADD CONSTRAINT card_transactions_suggested_invoice_id_fkey FOREIGN KEY (suggested_invoice_id) REFERENCES public.invoices(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='notifications_user_id_fkey' AND conrelid='public.notifications'::regclass) THEN
+    ALTER TABLE public.notifications
+      ADD CONSTRAINT notifications_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS card_transactions_user_dedupe_idx ON public.card_transactions(user_id, dedupe_key);
+CREATE INDEX IF NOT EXISTS card_transactions_user_date_idx ON public.card_transactions(user_id, txn_date DESC);
+CREATE INDEX IF NOT EXISTS card_transactions_holder_idx ON public.card_transactions(card_holder_id) WHERE matched_invoice_id IS NULL;
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.card_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_card_transactions_updated_at') THEN
+    CREATE TRIGGER update_card_transactions_updated_at
+      BEFORE UPDATE ON public.card_transactions
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_transactions' AND policyname='Users can view their own card transactions') THEN
+    CREATE POLICY "Users can view their own card transactions"
+      ON public.card_transactions FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_transactions' AND policyname='Card holders can view their card transactions') THEN
+    CREATE POLICY "Card holders can view their card transactions"
+      ON public.card_transactions FOR SELECT
+      USING (auth.uid() = card_holder_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_transactions' AND policyname='Users can insert their own card transactions') THEN
+    CREATE POLICY "Users can insert their own card transactions"
+      ON public.card_transactions FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_transactions' AND policyname='Users can update their own card transactions') THEN
+    CREATE POLICY "Users can update their own card transactions"
+      ON public.card_transactions FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_transactions' AND policyname='Users can delete their own card transactions') THEN
+    CREATE POLICY "Users can delete their own card transactions"
+      ON public.card_transactions FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_transactions' AND policyname='Admins can view all card transactions') THEN
+    CREATE POLICY "Admins can view all card transactions"
+      ON public.card_transactions FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='notifications' AND policyname='Users can view their own notifications') THEN
+    CREATE POLICY "Users can view their own notifications"
+      ON public.notifications FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='notifications' AND policyname='Users can update their own notifications') THEN
+    CREATE POLICY "Users can update their own notifications"
+      ON public.notifications FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  -- Senders may notify other users (e.g. a card holder), but only under their own name
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='notifications' AND policyname='Users can send notifications') THEN
+    CREATE POLICY "Users can send notifications"
+      ON public.notifications FOR INSERT
+      WITH CHECK (auth.uid() = created_by);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='notifications' AND policyname='Users can delete their own notifications') THEN
+    CREATE POLICY "Users can delete their own notifications"
+      ON public.notifications FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+END $$;
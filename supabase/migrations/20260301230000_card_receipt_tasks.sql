@@ -0,0 +1,141 @@
+-- card_receipt_tasks.sql
+-- Missing-receipt workflow for card spend: a task for the card holder once a transaction has gone
+-- unmatched for N days, and signed missing-receipt declarations that close a transaction without a receipt.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.card_receipt_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  assignee_id uuid NOT NULL,
+  card_transaction_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open','completed','cancelled')),
+  due_date date,
+  resolution text CHECK (resolution IS NULL OR resolution IN ('receipt','declaration','not_required')),
+  resolved_by uuid,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.missing_receipt_declarations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_transaction_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  declared_by uuid NOT NULL,
+  txn_date date,
+  merchant text,
+  amount numeric NOT NULL,
+  currency text NOT NULL DEFAULT 'EUR',
+  business_purpose text NOT NULL,
+  reason text NOT NULL,
+  statement text NOT NULL,
+  signature_name text NOT NULL,
+  signature_hash text NOT NULL,
+  signed_at timestamptz NOT NULL DEFAULT now(),
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.card_transactions
+  ADD COLUMN IF NOT EXISTS declaration_id uuid;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='card_receipt_tasks_card_transaction_id_fkey' AND conrelid='public.card_receipt_tasks'::regclass) THEN
+    ALTER TABLE public.card_receipt_tasks
+      ADD CONSTRAINT card_receipt_tasks_card_transaction_id_fkey FOREIGN KEY (card_transaction_id) REFERENCES public.card_transactions(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='card_receipt_tasks_assignee_id_fkey' AND conrelid='public.card_receipt_tasks'::regclass) THEN
+    ALTER TABLE public.card_receipt_tasks
+      ADD CONSTRAINT card_receipt_tasks_assignee_id_fkey FOREIGN KEY (assignee_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  -- Declarations are audit evidence: the transaction cannot be deleted while one exists
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='missing_receipt_declarations_card_transaction_id_fkey' AND conrelid='public.missing_receipt_declarations'::regclass) THEN
+    ALTER TABLE public.missing_receipt_declarations
+      ADD CONSTRAINT missing_receipt_declarations_card_transaction_id_fkey FOREIGN KEY (card_transaction_id) REFERENCES public.card_transactions(id) ON DELETE RESTRICT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='card_transactions_declaration_id_fkey' AND conrelid='public.card_transactions'::regclass) THEN
+    ALTER TABLE public.card_transactions
+      ADD CONSTRAINT card_transactions_declaration_id_fkey FOREIGN KEY (declaration_id) REFERENCES public.missing_receipt_declarations(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS card_receipt_tasks_transaction_idx ON public.card_receipt_tasks(card_transaction_id);
+CREATE INDEX IF NOT EXISTS card_receipt_tasks_assignee_idx ON public.card_receipt_tasks(assignee_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS missing_receipt_declarations_transaction_idx ON public.missing_receipt_declarations(card_transaction_id);
+
+ALTER TABLE public.card_receipt_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.missing_receipt_declarations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_card_receipt_tasks_updated_at') THEN
+    CREATE TRIGGER update_card_receipt_tasks_updated_at
+      BEFORE UPDATE ON public.card_receipt_tasks
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_receipt_tasks' AND policyname='Users can view their own card receipt tasks') THEN
+    CREATE POLICY "Users can view their own card receipt tasks"
+      ON public.card_receipt_tasks FOR SELECT
+      USING (auth.uid() = user_id OR auth.uid() = assignee_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_receipt_tasks' AND policyname='Users can insert their own card receipt tasks') THEN
+    CREATE POLICY "Users can insert their own card receipt tasks"
+      ON public.card_receipt_tasks FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_receipt_tasks' AND policyname='Users can update their own card receipt tasks') THEN
+    CREATE POLICY "Users can update their own card receipt tasks"
+      ON public.card_receipt_tasks FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='card_receipt_tasks' AND policyname='Admins can view all card receipt tasks') THEN
+    CREATE POLICY "Admins can view all card receipt tasks"
+      ON public.card_receipt_tasks FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  -- Declarations are written by the card-receipts function (service role) and never updated or deleted
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='missing_receipt_declarations' AND policyname='Users can view their own missing receipt declarations') THEN
+    CREATE POLICY "Users can view their own missing receipt declarations"
+      ON public.missing_receipt_declarations FOR SELECT
+      USING (auth.uid() = user_id OR auth.uid() = declared_by);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='missing_receipt_declarations' AND policyname='Admins can view all missing receipt declarations') THEN
+    CREATE POLICY "Admins can view all missing receipt declarations"
+      ON public.missing_receipt_declarations FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
+
+-- Daily task creation: needs pg_cron + pg_net and the Vault secrets `project_url` and `service_role_key`
+-- (see bank_connections.sql). Without them tasks are created from the Corporate Cards page.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname='pg_cron') AND EXISTS (SELECT 1 FROM pg_extension WHERE extname='pg_net') THEN
+    IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname='card-receipt-tasks') THEN
+      PERFORM cron.schedule(
+        'card-receipt-tasks',
+        '0 6 * * *',
+        $job$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/card-receipts',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"scheduled"}'::jsonb
+        );
+        $job$
+      );
+    END IF;
+  END IF;
+END $$;
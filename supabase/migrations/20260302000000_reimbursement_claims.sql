@@ -0,0 +1,208 @@
+-- reimbursement_claims.sql
+-- Employee reimbursement claims: public.reimbursements becomes the claim header (total in the
+-- reimbursement currency, manager decision, payout), receipts are attached as reimbursement_items,
+-- and profiles gain the manager who approves claims and the employee's payout account.
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS manager_id uuid,
+  ADD COLUMN IF NOT EXISTS payout_iban text,
+  ADD COLUMN IF NOT EXISTS payout_bic text;
+
+ALTER TABLE public.reimbursements
+  ADD COLUMN IF NOT EXISTS title text,
+  ADD COLUMN IF NOT EXISTS submitted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS approver_id uuid,
+  ADD COLUMN IF NOT EXISTS decided_by uuid,
+  ADD COLUMN IF NOT EXISTS decided_at timestamptz,
+  ADD COLUMN IF NOT EXISTS decision_note text,
+  ADD COLUMN IF NOT EXISTS payout_run_id uuid,
+  ADD COLUMN IF NOT EXISTS exported_at timestamptz,
+  ADD COLUMN IF NOT EXISTS paid_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.reimbursement_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reimbursement_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  invoice_id uuid,
+  description text,
+  expense_date date,
+  amount numeric NOT NULL,
+  currency text NOT NULL DEFAULT 'EUR',
+  fx_rate numeric,
+  converted_amount numeric,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='profiles_manager_id_fkey' AND conrelid='public.profiles'::regclass) THEN
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_manager_id_fkey FOREIGN KEY (manager_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reimbursements_approver_id_fkey' AND conrelid='public.reimbursements'::regclass) THEN
+    ALTER TABLE public.reimbursements
+      ADD CONSTRAINT reimbursements_approver_id_fkey FOREIGN KEY (approver_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reimbursements_payout_run_id_fkey' AND conrelid='public.reimbursements'::regclass) THEN
+    ALTER TABLE public.reimbursements
+      ADD CONSTRAINT reimbursements_payout_run_id_fkey FOREIGN KEY (payout_run_id) REFERENCES public.payment_runs(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reimbursement_items_reimbursement_id_fkey' AND conrelid='public.reimbursement_items'::regclass) THEN
+    ALTER TABLE public.reimbursement_items
+      ADD CONSTRAINT reimbursement_items_reimbursement_id_fkey FOREIGN KEY (reimbursement_id) REFERENCES public.reimbursements(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reimbursement_items_invoice_id_fkey' AND conrelid='public.reimbursement_items'::regclass) THEN
+    ALTER TABLE public.reimbursement_items
+      ADD CONSTRAINT reimbursement_items_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- A receipt can be claimed once
+CREATE UNIQUE INDEX IF NOT EXISTS reimbursement_items_invoice_idx ON public.reimbursement_items(invoice_id) WHERE invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS reimbursement_items_claim_idx ON public.reimbursement_items(reimbursement_id);
+CREATE INDEX IF NOT EXISTS reimbursements_user_idx ON public.reimbursements(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS reimbursements_approver_idx ON public.reimbursements(approver_id, status);
+
+ALTER TABLE public.reimbursements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reimbursement_items ENABLE ROW LEVEL SECURITY;
+
+-- Only admins assign managers; users keep editing the rest of their own profile
+CREATE OR REPLACE FUNCTION public.guard_profile_manager()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.manager_id IS DISTINCT FROM OLD.manager_id
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign managers';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'guard_profiles_manager') THEN
+    CREATE TRIGGER guard_profiles_manager
+      BEFORE UPDATE ON public.profiles
+      FOR EACH ROW EXECUTE FUNCTION public.guard_profile_manager();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_reimbursements_updated_at') THEN
+    CREATE TRIGGER update_reimbursements_updated_at
+      BEFORE UPDATE ON public.reimbursements
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_reimbursement_items_updated_at') THEN
+    CREATE TRIGGER update_reimbursement_items_updated_at
+      BEFORE UPDATE ON public.reimbursement_items
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  -- profiles
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='profiles' AND policyname='Admins can update all profiles') THEN
+    CREATE POLICY "Admins can update all profiles"
+      ON public.profiles FOR UPDATE
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='profiles' AND policyname='Managers can view their reports'' profiles') THEN
+    CREATE POLICY "Managers can view their reports' profiles"
+      ON public.profiles FOR SELECT
+      USING (auth.uid() = manager_id);
+  END IF;
+
+  -- reimbursements: owners create and edit drafts; decisions and payouts go through the reimbursements function
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursements' AND policyname='Users can view their own reimbursements') THEN
+    CREATE POLICY "Users can view their own reimbursements"
+      ON public.reimbursements FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursements' AND policyname='Approvers can view assigned reimbursements') THEN
+    CREATE POLICY "Approvers can view assigned reimbursements"
+      ON public.reimbursements FOR SELECT
+      USING (auth.uid() = approver_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursements' AND policyname='Users can insert their own reimbursements') THEN
+    CREATE POLICY "Users can insert their own reimbursements"
+      ON public.reimbursements FOR INSERT
+      WITH CHECK (auth.uid() = user_id AND status = 'pending' AND submitted_at IS NULL);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursements' AND policyname='Users can update their own draft reimbursements') THEN
+    CREATE POLICY "Users can update their own draft reimbursements"
+      ON public.reimbursements FOR UPDATE
+      USING (auth.uid() = user_id AND submitted_at IS NULL AND status IN ('pending','needs_info'))
+      WITH CHECK (auth.uid() = user_id AND submitted_at IS NULL AND status IN ('pending','needs_info'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursements' AND policyname='Users can delete their own draft reimbursements') THEN
+    CREATE POLICY "Users can delete their own draft reimbursements"
+      ON public.reimbursements FOR DELETE
+      USING (auth.uid() = user_id AND submitted_at IS NULL AND decided_at IS NULL);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursements' AND policyname='Admins can view all reimbursements') THEN
+    CREATE POLICY "Admins can view all reimbursements"
+      ON public.reimbursements FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  -- reimbursement_items
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursement_items' AND policyname='Users can view their own reimbursement items') THEN
+    CREATE POLICY "Users can view their own reimbursement items"
+      ON public.reimbursement_items FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursement_items' AND policyname='Users can insert items on their own draft reimbursements') THEN
+    CREATE POLICY "Users can insert items on their own draft reimbursements"
+      ON public.reimbursement_items FOR INSERT
+      WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.reimbursements r WHERE r.id = reimbursement_id AND r.user_id = auth.uid() AND r.submitted_at IS NULL)
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursement_items' AND policyname='Users can update items on their own draft reimbursements') THEN
+    CREATE POLICY "Users can update items on their own draft reimbursements"
+      ON public.reimbursement_items FOR UPDATE
+      USING (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.reimbursements r WHERE r.id = reimbursement_id AND r.user_id = auth.uid() AND r.submitted_at IS NULL)
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursement_items' AND policyname='Users can delete items on their own draft reimbursements') THEN
+    CREATE POLICY "Users can delete items on their own draft reimbursements"
+      ON public.reimbursement_items FOR DELETE
+      USING (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.reimbursements r WHERE r.id = reimbursement_id AND r.user_id = auth.uid() AND r.submitted_at IS NULL)
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursement_items' AND policyname='Approvers can view assigned reimbursement items') THEN
+    CREATE POLICY "Approvers can view assigned reimbursement items"
+      ON public.reimbursement_items FOR SELECT
+      USING (EXISTS (SELECT 1 FROM public.reimbursements r WHERE r.id = reimbursement_id AND r.approver_id = auth.uid()));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='reimbursement_items' AND policyname='Admins can view all reimbursement items') THEN
+    CREATE POLICY "Admins can view all reimbursement items"
+      ON public.reimbursement_items FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
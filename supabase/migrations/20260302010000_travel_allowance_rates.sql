@@ -0,0 +1,116 @@
+-- travel_allowance_rates.sql
+-- Mileage and per-diem lines on reimbursement claims, with rate tables versioned by effective date:
+-- a new rate is a new row, and every claim line keeps the rate row and the calculation it used.
+-- Idempotent: safe to re-run.
+
+ALTER TABLE public.reimbursement_items
+  ADD COLUMN IF NOT EXISTS item_type text NOT NULL DEFAULT 'receipt',
+  ADD COLUMN IF NOT EXISTS rate_id uuid,
+  ADD COLUMN IF NOT EXISTS details jsonb;
+
+CREATE TABLE IF NOT EXISTS public.mileage_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  country text NOT NULL,
+  vehicle_type text NOT NULL,
+  rate numeric NOT NULL CHECK (rate >= 0),
+  unit text NOT NULL DEFAULT 'km' CHECK (unit IN ('km','mi')),
+  currency text NOT NULL,
+  effective_from date NOT NULL,
+  notes text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Deductions are percentages of the full-day rate for each meal provided (e.g. 20/40/40 in Germany)
+CREATE TABLE IF NOT EXISTS public.per_diem_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  country text NOT NULL,
+  city text,
+  full_day numeric NOT NULL CHECK (full_day >= 0),
+  partial_day numeric NOT NULL CHECK (partial_day >= 0),
+  min_partial_hours numeric NOT NULL DEFAULT 8,
+  breakfast_deduction_pct numeric NOT NULL DEFAULT 20,
+  lunch_deduction_pct numeric NOT NULL DEFAULT 40,
+  dinner_deduction_pct numeric NOT NULL DEFAULT 40,
+  currency text NOT NULL,
+  effective_from date NOT NULL,
+  notes text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='reimbursement_items_item_type_check' AND conrelid='public.reimbursement_items'::regclass) THEN
+    ALTER TABLE public.reimbursement_items
+      ADD CONSTRAINT reimbursement_items_item_type_check CHECK (item_type IN ('receipt','mileage','per_diem'));
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS mileage_rates_version_idx ON public.mileage_rates(country, vehicle_type, effective_from);
+CREATE UNIQUE INDEX IF NOT EXISTS per_diem_rates_version_idx ON public.per_diem_rates(country, COALESCE(city, ''), effective_from);
+
+ALTER TABLE public.mileage_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.per_diem_rates ENABLE ROW LEVEL SECURITY;
+
+-- Rates are read by every claimant and maintained by admins. Versions are never updated in place
+-- once claims refer to them; admins add a row with a later effective_from instead.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mileage_rates' AND policyname='Authenticated users can view mileage rates') THEN
+    CREATE POLICY "Authenticated users can view mileage rates"
+      ON public.mileage_rates FOR SELECT
+      USING (auth.uid() IS NOT NULL);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mileage_rates' AND policyname='Admins can insert mileage rates') THEN
+    CREATE POLICY "Admins can insert mileage rates"
+      ON public.mileage_rates FOR INSERT
+      WITH CHECK (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mileage_rates' AND policyname='Admins can delete unused mileage rates') THEN
+    CREATE POLICY "Admins can delete unused mileage rates"
+      ON public.mileage_rates FOR DELETE
+      USING (
+        public.has_role(auth.uid(), 'admin')
+        AND NOT EXISTS (SELECT 1 FROM public.reimbursement_items i WHERE i.rate_id = mileage_rates.id)
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='per_diem_rates' AND policyname='Authenticated users can view per diem rates') THEN
+    CREATE POLICY "Authenticated users can view per diem rates"
+      ON public.per_diem_rates FOR SELECT
+      USING (auth.uid() IS NOT NULL);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='per_diem_rates' AND policyname='Admins can insert per diem rates') THEN
+    CREATE POLICY "Admins can insert per diem rates"
+      ON public.per_diem_rates FOR INSERT
+      WITH CHECK (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='per_diem_rates' AND policyname='Admins can delete unused per diem rates') THEN
+    CREATE POLICY "Admins can delete unused per diem rates"
+      ON public.per_diem_rates FOR DELETE
+      USING (
+        public.has_role(auth.uid(), 'admin')
+        AND NOT EXISTS (SELECT 1 FROM public.reimbursement_items i WHERE i.rate_id = per_diem_rates.id OR i.details -> 'rate_ids' ? per_diem_rates.id::text)
+      );
+  END IF;
+END $$;
+
+-- Statutory defaults: German BRKG/EStG, UK HMRC approved mileage, US IRS standard mileage
+INSERT INTO public.mileage_rates (country, vehicle_type, rate, unit, currency, effective_from, notes) VALUES
+  ('DE', 'car', 0.30, 'km', 'EUR', '2014-01-01', 'Wegstreckenentschädigung'),
+  ('DE', 'motorcycle', 0.20, 'km', 'EUR', '2014-01-01', 'Other motor vehicles'),
+  ('GB', 'car', 0.45, 'mi', 'GBP', '2011-04-06', 'HMRC AMAP, first 10,000 business miles'),
+  ('GB', 'motorcycle', 0.24, 'mi', 'GBP', '2011-04-06', 'HMRC AMAP'),
+  ('GB', 'bicycle', 0.20, 'mi', 'GBP', '2011-04-06', 'HMRC AMAP'),
+  ('US', 'car', 0.67, 'mi', 'USD', '2024-01-01', 'IRS standard mileage rate'),
+  ('US', 'car', 0.70, 'mi', 'USD', '2025-01-01', 'IRS standard mileage rate')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.per_diem_rates (country, city, full_day, partial_day, currency, effective_from, notes) VALUES
+  ('DE', NULL, 28, 14, 'EUR', '2020-01-01', 'Verpflegungsmehraufwand Inland')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,194 @@
+-- approval_chains.sql
+-- Configurable multi-step invoice approval: admins define an organization's chains (e.g. department
+-- head -> finance -> CFO above a threshold) and every step an invoice goes through is a row in
+-- public.approvals.
+-- The invoice only reaches approval = 'pass' once all required steps of its current cycle have passed.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.approval_chains (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Chains only apply to invoices of their organization (foreign key and policies in organizations.sql)
+  organization_id uuid,
+  name text NOT NULL,
+  description text,
+  -- Invoice total in EUR (total_eur, falling back to total_amount) the chain applies to
+  min_amount numeric NOT NULL DEFAULT 0,
+  max_amount numeric,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- approver_type: 'manager' = the uploader's manager (profiles.manager_id), 'user' = approver_id,
+-- 'admin' = any admin. A step with min_amount is only required at or above that EUR amount.
+CREATE TABLE IF NOT EXISTS public.approval_chain_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chain_id uuid NOT NULL,
+  position integer NOT NULL,
+  name text NOT NULL,
+  approver_type text NOT NULL DEFAULT 'admin',
+  approver_id uuid,
+  min_amount numeric,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- approvals.user_id stays the invoice owner; the step's assignee is approver_id (NULL = any admin).
+-- Each (re)submission of an invoice starts a new cycle so earlier decisions are kept.
+ALTER TABLE public.approvals
+  ADD COLUMN IF NOT EXISTS chain_id uuid,
+  ADD COLUMN IF NOT EXISTS cycle integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS step_index integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS step_name text,
+  ADD COLUMN IF NOT EXISTS approver_id uuid,
+  ADD COLUMN IF NOT EXISTS decided_by uuid,
+  ADD COLUMN IF NOT EXISTS decided_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approval_chain_steps_chain_id_fkey' AND conrelid='public.approval_chain_steps'::regclass) THEN
+    ALTER TABLE public.approval_chain_steps
+      ADD CONSTRAINT approval_chain_steps_chain_id_fkey FOREIGN KEY (chain_id) REFERENCES public.approval_chains(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approval_chain_steps_approver_type_check' AND conrelid='public.approval_chain_steps'::regclass) THEN
+    ALTER TABLE public.approval_chain_steps
+      ADD CONSTRAINT approval_chain_steps_approver_type_check CHECK (
+        approver_type IN ('manager','user','admin') AND (approver_type <> 'user' OR approver_id IS NOT NULL)
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approval_chain_steps_approver_id_fkey' AND conrelid='public.approval_chain_steps'::regclass) THEN
+    ALTER TABLE public.approval_chain_steps
+      ADD CONSTRAINT approval_chain_steps_approver_id_fkey FOREIGN KEY (approver_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approvals_chain_id_fkey' AND conrelid='public.approvals'::regclass) THEN
+    ALTER TABLE public.approvals
+      ADD CONSTRAINT approvals_chain_id_fkey FOREIGN KEY (chain_id) REFERENCES public.approval_chains(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approvals_approver_id_fkey' AND conrelid='public.approvals'::regclass) THEN
+    ALTER TABLE public.approvals
+      ADD CONSTRAINT approvals_approver_id_fkey FOREIGN KEY (approver_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS approval_chain_steps_position_idx ON public.approval_chain_steps(chain_id, position);
+CREATE UNIQUE INDEX IF NOT EXISTS approvals_step_idx ON public.approvals(invoice_id, cycle, step_index);
+CREATE INDEX IF NOT EXISTS approvals_approver_idx ON public.approvals(approver_id, status);
+
+-- True while the invoice's latest cycle still has pending steps and nobody has rejected it or asked for information
+CREATE OR REPLACE FUNCTION public.approval_chain_open(_invoice_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest AS (
+    SELECT a.status
+    FROM public.approvals a
+    WHERE a.invoice_id = _invoice_id
+      AND a.cycle = (SELECT max(cycle) FROM public.approvals WHERE invoice_id = _invoice_id)
+  )
+  SELECT EXISTS (SELECT 1 FROM latest WHERE status = 'pending')
+     AND NOT EXISTS (SELECT 1 FROM latest WHERE status IN ('fail','needs_info'));
+$$;
+
+-- Anyone assigned to (or who decided) a step sees the invoice and its whole chain; a definer function
+-- so the approvals policy can look at the invoice's other steps without recursing into itself
+CREATE OR REPLACE FUNCTION public.is_invoice_approver(_invoice_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.approvals
+    WHERE invoice_id = _invoice_id AND (approver_id = _user_id OR decided_by = _user_id)
+  );
+$$;
+
+-- While a chain is running only the set-approval function (service role) may change the invoice's approval
+CREATE OR REPLACE FUNCTION public.guard_invoice_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.approval IS DISTINCT FROM OLD.approval
+     AND auth.uid() IS NOT NULL
+     AND public.approval_chain_open(NEW.id) THEN
+    RAISE EXCEPTION 'Invoice approval is decided by its approval chain';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_chain_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approvals ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'guard_invoices_approval') THEN
+    CREATE TRIGGER guard_invoices_approval
+      BEFORE UPDATE ON public.invoices
+      FOR EACH ROW EXECUTE FUNCTION public.guard_invoice_approval();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_approval_chains_updated_at') THEN
+    CREATE TRIGGER update_approval_chains_updated_at
+      BEFORE UPDATE ON public.approval_chains
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_approvals_updated_at') THEN
+    CREATE TRIGGER update_approvals_updated_at
+      BEFORE UPDATE ON public.approvals
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  -- approval_chains / approval_chain_steps: maintained by admins; organizations.sql opens them to their organization
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approval_chains' AND policyname='Admins can manage approval chains') THEN
+    CREATE POLICY "Admins can manage approval chains"
+      ON public.approval_chains FOR ALL
+      USING (public.has_role(auth.uid(), 'admin'))
+      WITH CHECK (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approval_chain_steps' AND policyname='Admins can manage approval chain steps') THEN
+    CREATE POLICY "Admins can manage approval chain steps"
+      ON public.approval_chain_steps FOR ALL
+      USING (public.has_role(auth.uid(), 'admin'))
+      WITH CHECK (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  -- approvals: written only by the set-approval function
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approvals' AND policyname='Users can view approvals of their own invoices') THEN
+    CREATE POLICY "Users can view approvals of their own invoices"
+      ON public.approvals FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approvals' AND policyname='Approvers can view the chains they take part in') THEN
+    CREATE POLICY "Approvers can view the chains they take part in"
+      ON public.approvals FOR SELECT
+      USING (public.is_invoice_approver(invoice_id, auth.uid()));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approvals' AND policyname='Admins can view all approvals') THEN
+    CREATE POLICY "Admins can view all approvals"
+      ON public.approvals FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoices' AND policyname='Approvers can view invoices assigned to them') THEN
+    CREATE POLICY "Approvers can view invoices assigned to them"
+      ON public.invoices FOR SELECT
+      USING (public.is_invoice_approver(id, auth.uid()));
+  END IF;
+END $$;
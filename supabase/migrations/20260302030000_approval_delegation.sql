@@ -0,0 +1,124 @@
+-- approval_delegation.sql
+-- Out-of-office delegation and SLA escalation for approval chains: approvers hand their steps to a
+-- substitute for a date range, each chain step can have an SLA in hours and an escalation target,
+-- and lapsed steps move on to the next approver. Delegations and escalations are written to audit_logs
+-- by the approval-routing function.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.approval_delegations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- A delegation covers the steps of one organization's invoices (foreign key in organizations.sql)
+  organization_id uuid,
+  user_id uuid NOT NULL,
+  delegate_id uuid NOT NULL,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  reason text,
+  created_by uuid,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- sla_hours: time the step's approver has once the step becomes active; escalate_to: who gets it
+-- when that lapses (NULL = the approver's manager, then any admin)
+ALTER TABLE public.approval_chain_steps
+  ADD COLUMN IF NOT EXISTS sla_hours integer,
+  ADD COLUMN IF NOT EXISTS escalate_to uuid;
+
+-- original_approver_id keeps the assignee a step was reassigned away from (delegation or escalation);
+-- they may still decide it
+ALTER TABLE public.approvals
+  ADD COLUMN IF NOT EXISTS sla_hours integer,
+  ADD COLUMN IF NOT EXISTS escalate_to uuid,
+  ADD COLUMN IF NOT EXISTS due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS original_approver_id uuid,
+  ADD COLUMN IF NOT EXISTS escalation_level integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS escalated_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approval_delegations_user_id_fkey' AND conrelid='public.approval_delegations'::regclass) THEN
+    ALTER TABLE public.approval_delegations
+      ADD CONSTRAINT approval_delegations_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approval_delegations_delegate_id_fkey' AND conrelid='public.approval_delegations'::regclass) THEN
+    ALTER TABLE public.approval_delegations
+      ADD CONSTRAINT approval_delegations_delegate_id_fkey FOREIGN KEY (delegate_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approval_delegations_range_check' AND conrelid='public.approval_delegations'::regclass) THEN
+    ALTER TABLE public.approval_delegations
+      ADD CONSTRAINT approval_delegations_range_check CHECK (ends_on >= starts_on AND delegate_id <> user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approval_chain_steps_escalate_to_fkey' AND conrelid='public.approval_chain_steps'::regclass) THEN
+    ALTER TABLE public.approval_chain_steps
+      ADD CONSTRAINT approval_chain_steps_escalate_to_fkey FOREIGN KEY (escalate_to) REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='approval_chain_steps_sla_hours_check' AND conrelid='public.approval_chain_steps'::regclass) THEN
+    ALTER TABLE public.approval_chain_steps
+      ADD CONSTRAINT approval_chain_steps_sla_hours_check CHECK (sla_hours IS NULL OR sla_hours > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS approval_delegations_user_idx ON public.approval_delegations(user_id, starts_on, ends_on) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS approvals_due_idx ON public.approvals(due_at) WHERE status = 'pending';
+
+-- Substitutes and former assignees keep seeing the chains they were part of
+CREATE OR REPLACE FUNCTION public.is_invoice_approver(_invoice_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.approvals
+    WHERE invoice_id = _invoice_id
+      AND (approver_id = _user_id OR decided_by = _user_id OR original_approver_id = _user_id)
+  );
+$$;
+
+ALTER TABLE public.approval_delegations ENABLE ROW LEVEL SECURITY;
+
+-- Delegations are created and revoked through the approval-routing function, which also moves open steps
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approval_delegations' AND policyname='Users can view delegations from or to them') THEN
+    CREATE POLICY "Users can view delegations from or to them"
+      ON public.approval_delegations FOR SELECT
+      USING (auth.uid() = user_id OR auth.uid() = delegate_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approval_delegations' AND policyname='Admins can view all delegations') THEN
+    CREATE POLICY "Admins can view all delegations"
+      ON public.approval_delegations FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
+
+-- Hourly SLA check: needs pg_cron + pg_net and the Vault secrets `project_url` and `service_role_key`
+-- (see bank_connections.sql). Without them admins run escalation from the My Approvals page.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname='pg_cron') AND EXISTS (SELECT 1 FROM pg_extension WHERE extname='pg_net') THEN
+    IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname='approval-escalation') THEN
+      PERFORM cron.schedule(
+        'approval-escalation',
+        '15 * * * *',
+        $job$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/approval-routing',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"scheduled"}'::jsonb
+        );
+        $job$
+      );
+    END IF;
+  END IF;
+END $$;
@@ -0,0 +1,144 @@
+-- segregation_of_duties.sql
+-- Four-eyes rules: the uploader of an invoice may not approve it and whoever approved it may not release
+-- its payment. Admins can relax or keep each check per EUR amount band; attempts that break a rule are
+-- blocked by the edge functions and recorded in public.sod_violations for the Admin page.
+-- Idempotent: safe to re-run.
+
+-- An amount band without an active rule of the invoice's organization enforces both checks
+CREATE TABLE IF NOT EXISTS public.sod_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Rules only apply to invoices of their organization (foreign key and policies in organizations.sql)
+  organization_id uuid,
+  name text NOT NULL,
+  -- Invoice total in EUR (total_eur, falling back to total_amount), same banding as approval_chains
+  min_amount numeric NOT NULL DEFAULT 0,
+  max_amount numeric,
+  block_self_approval boolean NOT NULL DEFAULT true,
+  block_approver_release boolean NOT NULL DEFAULT true,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- kind: 'self_approval' | 'approver_release'; action: the function that refused the request
+CREATE TABLE IF NOT EXISTS public.sod_violations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  invoice_id uuid,
+  rule_id uuid,
+  kind text NOT NULL,
+  action text NOT NULL,
+  amount_eur numeric,
+  message text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Who set approval = 'pass' outside an approval chain (chain approvers are in public.approvals)
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS approved_by uuid;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='sod_rules_band_check' AND conrelid='public.sod_rules'::regclass) THEN
+    ALTER TABLE public.sod_rules
+      ADD CONSTRAINT sod_rules_band_check CHECK (min_amount >= 0 AND (max_amount IS NULL OR max_amount > min_amount));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='sod_violations_kind_check' AND conrelid='public.sod_violations'::regclass) THEN
+    ALTER TABLE public.sod_violations
+      ADD CONSTRAINT sod_violations_kind_check CHECK (kind IN ('self_approval','approver_release'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='sod_violations_user_id_fkey' AND conrelid='public.sod_violations'::regclass) THEN
+    ALTER TABLE public.sod_violations
+      ADD CONSTRAINT sod_violations_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='sod_violations_invoice_id_fkey' AND conrelid='public.sod_violations'::regclass) THEN
+    ALTER TABLE public.sod_violations
+      ADD CONSTRAINT sod_violations_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='sod_violations_rule_id_fkey' AND conrelid='public.sod_violations'::regclass) THEN
+    ALTER TABLE public.sod_violations
+      ADD CONSTRAINT sod_violations_rule_id_fkey FOREIGN KEY (rule_id) REFERENCES public.sod_rules(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoices_approved_by_fkey' AND conrelid='public.invoices'::regclass) THEN
+    ALTER TABLE public.invoices
+      ADD CONSTRAINT invoices_approved_by_fkey FOREIGN KEY (approved_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS sod_violations_created_idx ON public.sod_violations(created_at DESC);
+
+-- Mirrors pickSodRule() in supabase/functions/_shared/segregationOfDuties.ts
+CREATE OR REPLACE FUNCTION public.sod_blocks_self_approval_for_amount(_organization_id uuid, _amount numeric)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT r.block_self_approval
+    FROM public.sod_rules r
+    WHERE r.organization_id = _organization_id
+      AND r.is_active AND _amount >= r.min_amount AND (r.max_amount IS NULL OR _amount < r.max_amount)
+    ORDER BY r.min_amount DESC, r.created_at DESC
+    LIMIT 1
+  ), true);
+$$;
+
+-- Uploaders cannot approve their own invoice by inserting or updating it directly either; the edge
+-- functions write with the service role (auth.uid() IS NULL) after running the same check
+CREATE OR REPLACE FUNCTION public.guard_invoice_self_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.approval = 'pass'
+     AND (TG_OP = 'INSERT' OR NEW.approval IS DISTINCT FROM OLD.approval)
+     AND auth.uid() = NEW.user_id
+     AND public.sod_blocks_self_approval_for_amount(NEW.organization_id, COALESCE(NEW.total_eur, NEW.total_amount, 0)) THEN
+    RAISE EXCEPTION 'Segregation of duties: the uploader cannot approve their own invoice';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.sod_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sod_violations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'guard_invoices_self_approval') THEN
+    CREATE TRIGGER guard_invoices_self_approval
+      BEFORE INSERT OR UPDATE ON public.invoices
+      FOR EACH ROW EXECUTE FUNCTION public.guard_invoice_self_approval();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_sod_rules_updated_at') THEN
+    CREATE TRIGGER update_sod_rules_updated_at
+      BEFORE UPDATE ON public.sod_rules
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  -- sod_rules: maintained by admins; organizations.sql opens them to their organization (so the UI can explain a refusal)
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='sod_rules' AND policyname='Admins can manage SoD rules') THEN
+    CREATE POLICY "Admins can manage SoD rules"
+      ON public.sod_rules FOR ALL
+      USING (public.has_role(auth.uid(), 'admin'))
+      WITH CHECK (public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  -- sod_violations: written only by the edge functions (service role)
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='sod_violations' AND policyname='Admins can view SoD violations') THEN
+    CREATE POLICY "Admins can view SoD violations"
+      ON public.sod_violations FOR SELECT
+      USING (public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
@@ -0,0 +1,126 @@
+-- invoice_clarifications.sql
+-- Needs-info loop: when an invoice lacks fields (or an approver asks for information) a clarification
+-- request lists what is missing; the submitter answers in the app or the vendor through a tokenised link,
+-- process-invoice re-runs on the answer and every message stays on the invoice as a thread.
+-- Idempotent: safe to re-run.
+
+-- Text (or e-invoice XML) the document was read from, so the pipeline can re-run without the client
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS extracted_text text;
+
+-- recipient: 'submitter' (the invoice owner, in the app) | 'vendor' (public link, token stored hashed)
+-- status: 'open' until an answer clears the missing fields ('resolved') or someone closes it ('canceled')
+CREATE TABLE IF NOT EXISTS public.invoice_clarifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  requested_by uuid,
+  recipient text NOT NULL DEFAULT 'submitter',
+  recipient_email text,
+  requested_fields text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'open',
+  token_hash text,
+  token_expires_at timestamptz,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- author_kind: 'requester' | 'submitter' | 'vendor' | 'system' (pipeline re-run outcome in `result`)
+CREATE TABLE IF NOT EXISTS public.invoice_clarification_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  clarification_id uuid NOT NULL,
+  invoice_id uuid NOT NULL,
+  author_kind text NOT NULL,
+  author_id uuid,
+  body text,
+  field_values jsonb,
+  document_path text,
+  document_name text,
+  result jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_clarifications_invoice_id_fkey' AND conrelid='public.invoice_clarifications'::regclass) THEN
+    ALTER TABLE public.invoice_clarifications
+      ADD CONSTRAINT invoice_clarifications_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_clarifications_user_id_fkey' AND conrelid='public.invoice_clarifications'::regclass) THEN
+    ALTER TABLE public.invoice_clarifications
+      ADD CONSTRAINT invoice_clarifications_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_clarifications_recipient_check' AND conrelid='public.invoice_clarifications'::regclass) THEN
+    ALTER TABLE public.invoice_clarifications
+      ADD CONSTRAINT invoice_clarifications_recipient_check CHECK (recipient IN ('submitter','vendor'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_clarifications_status_check' AND conrelid='public.invoice_clarifications'::regclass) THEN
+    ALTER TABLE public.invoice_clarifications
+      ADD CONSTRAINT invoice_clarifications_status_check CHECK (status IN ('open','resolved','canceled'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_clarification_messages_clarification_id_fkey' AND conrelid='public.invoice_clarification_messages'::regclass) THEN
+    ALTER TABLE public.invoice_clarification_messages
+      ADD CONSTRAINT invoice_clarification_messages_clarification_id_fkey FOREIGN KEY (clarification_id) REFERENCES public.invoice_clarifications(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_clarification_messages_invoice_id_fkey' AND conrelid='public.invoice_clarification_messages'::regclass) THEN
+    ALTER TABLE public.invoice_clarification_messages
+      ADD CONSTRAINT invoice_clarification_messages_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='invoice_clarification_messages_author_kind_check' AND conrelid='public.invoice_clarification_messages'::regclass) THEN
+    ALTER TABLE public.invoice_clarification_messages
+      ADD CONSTRAINT invoice_clarification_messages_author_kind_check CHECK (author_kind IN ('requester','submitter','vendor','system'));
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS invoice_clarifications_token_idx ON public.invoice_clarifications(token_hash) WHERE token_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS invoice_clarifications_invoice_idx ON public.invoice_clarifications(invoice_id, status);
+CREATE INDEX IF NOT EXISTS invoice_clarification_messages_thread_idx ON public.invoice_clarification_messages(invoice_id, created_at);
+
+ALTER TABLE public.invoice_clarifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_clarification_messages ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_invoice_clarifications_updated_at') THEN
+    CREATE TRIGGER update_invoice_clarifications_updated_at
+      BEFORE UPDATE ON public.invoice_clarifications
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  -- Both tables are written only by the invoice-clarifications function (service role); the thread is
+  -- visible to the invoice owner, its approvers and admins
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoice_clarifications' AND policyname='Invoice participants can view clarifications') THEN
+    CREATE POLICY "Invoice participants can view clarifications"
+      ON public.invoice_clarifications FOR SELECT
+      USING (
+        auth.uid() = user_id
+        OR auth.uid() = requested_by
+        OR public.is_invoice_approver(invoice_id, auth.uid())
+        OR public.has_role(auth.uid(), 'admin')
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoice_clarification_messages' AND policyname='Invoice participants can view clarification messages') THEN
+    CREATE POLICY "Invoice participants can view clarification messages"
+      ON public.invoice_clarification_messages FOR SELECT
+      USING (
+        EXISTS (
+          SELECT 1 FROM public.invoice_clarifications c
+          WHERE c.id = clarification_id
+            AND (
+              auth.uid() = c.user_id
+              OR auth.uid() = c.requested_by
+              OR public.is_invoice_approver(c.invoice_id, auth.uid())
+              OR public.has_role(auth.uid(), 'admin')
+            )
+        )
+      );
+  END IF;
+END $$;
@@ -0,0 +1,491 @@
+-- organizations.sql
+-- Multi-tenant workspaces: invoices, payments, policies, banking and card data belong to an organization
+-- instead of a single user, so a finance team shares one inbox. Members hold an organization role next to
+-- the platform-wide app_role (admin/user); every existing user gets a personal workspace their data moves to.
+-- Idempotent: safe to re-run.
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- role: 'owner' (members and settings) | 'accountant' (books, payments, banking) | 'approver' (reads all,
+-- decides approvals) | 'submitter' (uploads, sees own invoices) | 'viewer' (read-only)
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  role text NOT NULL DEFAULT 'submitter',
+  invited_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- The workspace the org switcher last selected; new rows without organization_id land there
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS active_organization_id uuid;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='organizations_created_by_fkey' AND conrelid='public.organizations'::regclass) THEN
+    ALTER TABLE public.organizations
+      ADD CONSTRAINT organizations_created_by_fkey FOREIGN KEY (created_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='organization_members_organization_id_fkey' AND conrelid='public.organization_members'::regclass) THEN
+    ALTER TABLE public.organization_members
+      ADD CONSTRAINT organization_members_organization_id_fkey FOREIGN KEY (organization_id) REFERENCES public.organizations(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='organization_members_user_id_fkey' AND conrelid='public.organization_members'::regclass) THEN
+    ALTER TABLE public.organization_members
+      ADD CONSTRAINT organization_members_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='organization_members_role_check' AND conrelid='public.organization_members'::regclass) THEN
+    ALTER TABLE public.organization_members
+      ADD CONSTRAINT organization_members_role_check CHECK (role IN ('owner','accountant','approver','submitter','viewer'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname='profiles_active_organization_id_fkey' AND conrelid='public.profiles'::regclass) THEN
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_active_organization_id_fkey FOREIGN KEY (active_organization_id) REFERENCES public.organizations(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS organization_members_member_idx ON public.organization_members(organization_id, user_id);
+CREATE INDEX IF NOT EXISTS organization_members_user_idx ON public.organization_members(user_id);
+
+-- Membership checks used by the policies below; definer functions so policies on organization_members
+-- can use them without recursing into themselves
+CREATE OR REPLACE FUNCTION public.is_org_member(_organization_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = _organization_id AND user_id = _user_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_org_role(_organization_id uuid, _user_id uuid, _roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = _organization_id AND user_id = _user_id AND role = ANY(_roles)
+  );
+$$;
+
+-- The selected workspace while the user is still a member of it, otherwise the one they joined first
+CREATE OR REPLACE FUNCTION public.active_organization_id(_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT p.active_organization_id
+       FROM public.profiles p
+      WHERE p.user_id = _user_id
+        AND public.is_org_member(p.active_organization_id, _user_id)),
+    (SELECT m.organization_id
+       FROM public.organization_members m
+      WHERE m.user_id = _user_id
+      ORDER BY m.created_at
+      LIMIT 1)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_personal_organization(_user_id uuid, _email text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org uuid;
+BEGIN
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(split_part(_email, '@', 1), ''), 'My') || '''s workspace', _user_id)
+  RETURNING id INTO _org;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (_org, _user_id, 'owner')
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE public.profiles SET active_organization_id = _org
+  WHERE user_id = _user_id AND active_organization_id IS NULL;
+
+  RETURN _org;
+END;
+$$;
+
+-- Runs after handle_new_user (triggers fire in name order), so the profile already exists
+CREATE OR REPLACE FUNCTION public.handle_new_user_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.organization_members WHERE user_id = NEW.id) THEN
+    PERFORM public.create_personal_organization(NEW.id, NEW.email);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Rows written without an organization (the app, edge functions, imports) land in the writer's active
+-- workspace; naming one the row's user does not belong to is refused. Only the service role moves rows
+-- between organizations.
+CREATE OR REPLACE FUNCTION public.set_organization_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND auth.uid() IS NOT NULL AND NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    RAISE EXCEPTION 'Rows cannot move to another organization';
+  END IF;
+  IF NEW.organization_id IS NULL THEN
+    NEW.organization_id := public.active_organization_id(NEW.user_id);
+  ELSIF TG_OP = 'INSERT' OR NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+    IF NOT public.is_org_member(NEW.organization_id, NEW.user_id) THEN
+      RAISE EXCEPTION 'User % is not a member of organization %', NEW.user_id, NEW.organization_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'on_auth_user_created_organization') THEN
+    CREATE TRIGGER on_auth_user_created_organization
+      AFTER INSERT ON auth.users
+      FOR EACH ROW EXECUTE FUNCTION public.handle_new_user_organization();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_organizations_updated_at') THEN
+    CREATE TRIGGER update_organizations_updated_at
+      BEFORE UPDATE ON public.organizations
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_organization_members_updated_at') THEN
+    CREATE TRIGGER update_organization_members_updated_at
+      BEFORE UPDATE ON public.organization_members
+      FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+  END IF;
+
+  -- Membership changes go through the organizations function (service role)
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='organizations' AND policyname='Members can view their organizations') THEN
+    CREATE POLICY "Members can view their organizations"
+      ON public.organizations FOR SELECT
+      USING (public.is_org_member(id, auth.uid()) OR public.has_role(auth.uid(), 'admin'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='organizations' AND policyname='Owners can rename their organizations') THEN
+    CREATE POLICY "Owners can rename their organizations"
+      ON public.organizations FOR UPDATE
+      USING (public.has_org_role(id, auth.uid(), ARRAY['owner']));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='organization_members' AND policyname='Members can view their organization members') THEN
+    CREATE POLICY "Members can view their organization members"
+      ON public.organization_members FOR SELECT
+      USING (public.is_org_member(organization_id, auth.uid()) OR public.has_role(auth.uid(), 'admin'));
+  END IF;
+END $$;
+
+-- Every user without a workspace gets a personal one (backfill for accounts created before this migration)
+DO $$
+DECLARE
+  u record;
+BEGIN
+  FOR u IN
+    SELECT au.id, au.email FROM auth.users au
+    WHERE NOT EXISTS (SELECT 1 FROM public.organization_members m WHERE m.user_id = au.id)
+  LOOP
+    PERFORM public.create_personal_organization(u.id, u.email);
+  END LOOP;
+END $$;
+
+-- Organization-scoped tables: add the column, move existing rows into the owner's workspace, fill it on
+-- insert and open the rows to members by role. Users keep their own-row policies, which is how submitters
+-- see the invoices they uploaded, but only while they belong to the row's organization. chat_messages is
+-- tagged with the workspace but stays private.
+DO $$
+DECLARE
+  t text;
+  -- readable by owners, accountants, approvers and viewers
+  shared text[] := ARRAY[
+    'invoices','invoice_line_items','approvals','invoice_clarifications',
+    'payments','payment_runs','payment_events',
+    'bank_accounts','bank_connections','bank_connection_accounts','bank_statements','bank_transactions',
+    'reconciliation_matches','reconciliation_allocations',
+    'card_transactions','card_receipt_tasks','missing_receipt_declarations',
+    'reimbursements','reimbursement_items'
+  ];
+  -- approvals and clarifications are written by their edge functions only; payment events and signed
+  -- missing-receipt declarations are append-only records, readable through `shared`
+  managed text[] := ARRAY[
+    'invoices',
+    'payments','payment_runs','policies',
+    'bank_accounts','bank_connections','bank_connection_accounts','bank_statements','bank_transactions',
+    'reconciliation_matches','reconciliation_allocations',
+    'card_transactions','card_receipt_tasks',
+    'reimbursements','reimbursement_items'
+  ];
+  -- besides owners and accountants, submitters add rows here (uploads and expense claims)
+  submitted text[] := ARRAY['invoices','invoice_line_items','reimbursements','reimbursement_items'];
+BEGIN
+  FOREACH t IN ARRAY shared || ARRAY['policies','chat_messages'] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS organization_id uuid', t);
+
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = t || '_organization_id_fkey' AND conrelid = format('public.%I', t)::regclass) THEN
+      EXECUTE format(
+        'ALTER TABLE public.%I ADD CONSTRAINT %I FOREIGN KEY (organization_id) REFERENCES public.organizations(id) ON DELETE CASCADE',
+        t, t || '_organization_id_fkey'
+      );
+    END IF;
+
+    EXECUTE format('UPDATE public.%I SET organization_id = public.active_organization_id(user_id) WHERE organization_id IS NULL', t);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I(organization_id)', t || '_organization_idx', t);
+
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_' || t || '_organization_id') THEN
+      EXECUTE format(
+        'CREATE TRIGGER %I BEFORE INSERT OR UPDATE OF organization_id ON public.%I FOR EACH ROW EXECUTE FUNCTION public.set_organization_id()',
+        'set_' || t || '_organization_id', t
+      );
+    END IF;
+  END LOOP;
+
+  FOREACH t IN ARRAY shared LOOP
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename=t AND policyname='Organization members can view ' || replace(t, '_', ' ')) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR SELECT USING (public.has_org_role(organization_id, auth.uid(), ARRAY[''owner'',''accountant'',''approver'',''viewer'']))',
+        'Organization members can view ' || replace(t, '_', ' '), t
+      );
+    END IF;
+  END LOOP;
+
+  FOREACH t IN ARRAY managed LOOP
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename=t AND policyname='Organization accountants can manage ' || replace(t, '_', ' ')) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR ALL USING (public.has_org_role(organization_id, auth.uid(), ARRAY[''owner'',''accountant''])) WITH CHECK (public.has_org_role(organization_id, auth.uid(), ARRAY[''owner'',''accountant'']))',
+        'Organization accountants can manage ' || replace(t, '_', ' '), t
+      );
+    END IF;
+  END LOOP;
+
+  -- Line items only attach to invoices of the same organization
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='invoice_line_items' AND policyname='Organization accountants can manage invoice line items') THEN
+    CREATE POLICY "Organization accountants can manage invoice line items"
+      ON public.invoice_line_items FOR ALL
+      USING (public.has_org_role(organization_id, auth.uid(), ARRAY['owner','accountant']))
+      WITH CHECK (
+        public.has_org_role(organization_id, auth.uid(), ARRAY['owner','accountant'])
+        AND EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.organization_id = invoice_line_items.organization_id)
+      );
+  END IF;
+
+  -- Restrictive policies apply on top of the own-row ones: a user who leaves an organization loses its rows,
+  -- and approvers and viewers read the books but do not add to them
+  FOREACH t IN ARRAY shared || ARRAY['policies'] LOOP
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename=t AND policyname='Only organization members can access ' || replace(t, '_', ' ')) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR ALL USING (public.is_org_member(organization_id, auth.uid()) OR public.has_role(auth.uid(), ''admin'')) WITH CHECK (public.is_org_member(organization_id, auth.uid()) OR public.has_role(auth.uid(), ''admin''))',
+        'Only organization members can access ' || replace(t, '_', ' '), t
+      );
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename=t AND policyname='Only writing organization roles can add ' || replace(t, '_', ' ')) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR INSERT WITH CHECK (public.has_org_role(organization_id, auth.uid(), %L::text[]))',
+        'Only writing organization roles can add ' || replace(t, '_', ' '), t,
+        CASE WHEN t = ANY(submitted) THEN ARRAY['owner','accountant','submitter'] ELSE ARRAY['owner','accountant'] END
+      );
+    END IF;
+  END LOOP;
+
+  -- Uploads of every member are checked against the organization's policies, so all members read them
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='policies' AND policyname='Organization members can view policies') THEN
+    CREATE POLICY "Organization members can view policies"
+      ON public.policies FOR SELECT
+      USING (public.is_org_member(organization_id, auth.uid()));
+  END IF;
+END $$;
+
+-- Approval chains, SoD rules and out-of-office delegations are configured per organization: members read
+-- their organization's, owners maintain them. Delegations move with their user; chains and rules with
+-- whoever created them.
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['approval_chains','sod_rules','approval_delegations'] LOOP
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = t || '_organization_id_fkey' AND conrelid = format('public.%I', t)::regclass) THEN
+      EXECUTE format(
+        'ALTER TABLE public.%I ADD CONSTRAINT %I FOREIGN KEY (organization_id) REFERENCES public.organizations(id) ON DELETE CASCADE',
+        t, t || '_organization_id_fkey'
+      );
+    END IF;
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I(organization_id)', t || '_organization_idx', t);
+  END LOOP;
+
+  UPDATE public.approval_chains SET organization_id = public.active_organization_id(created_by) WHERE organization_id IS NULL AND created_by IS NOT NULL;
+  UPDATE public.sod_rules SET organization_id = public.active_organization_id(created_by) WHERE organization_id IS NULL AND created_by IS NOT NULL;
+  UPDATE public.approval_delegations SET organization_id = public.active_organization_id(user_id) WHERE organization_id IS NULL;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_approval_delegations_organization_id') THEN
+    CREATE TRIGGER set_approval_delegations_organization_id
+      BEFORE INSERT OR UPDATE OF organization_id ON public.approval_delegations
+      FOR EACH ROW EXECUTE FUNCTION public.set_organization_id();
+  END IF;
+
+  FOREACH t IN ARRAY ARRAY['approval_chains','sod_rules'] LOOP
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename=t AND policyname='Organization members can view ' || replace(t, '_', ' ')) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR SELECT USING (public.is_org_member(organization_id, auth.uid()))',
+        'Organization members can view ' || replace(t, '_', ' '), t
+      );
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename=t AND policyname='Organization owners can manage ' || replace(t, '_', ' ')) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR ALL USING (public.has_org_role(organization_id, auth.uid(), ARRAY[''owner''])) WITH CHECK (public.has_org_role(organization_id, auth.uid(), ARRAY[''owner'']))',
+        'Organization owners can manage ' || replace(t, '_', ' '), t
+      );
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approval_chain_steps' AND policyname='Organization members can view approval chain steps') THEN
+    CREATE POLICY "Organization members can view approval chain steps"
+      ON public.approval_chain_steps FOR SELECT
+      USING (EXISTS (SELECT 1 FROM public.approval_chains c WHERE c.id = chain_id AND public.is_org_member(c.organization_id, auth.uid())));
+  END IF;
+
+  -- Step approvers are members of the chain's organization
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='approval_chain_steps' AND policyname='Organization owners can manage approval chain steps') THEN
+    CREATE POLICY "Organization owners can manage approval chain steps"
+      ON public.approval_chain_steps FOR ALL
+      USING (EXISTS (SELECT 1 FROM public.approval_chains c WHERE c.id = chain_id AND public.has_org_role(c.organization_id, auth.uid(), ARRAY['owner'])))
+      WITH CHECK (
+        EXISTS (
+          SELECT 1 FROM public.approval_chains c
+          WHERE c.id = chain_id
+            AND public.has_org_role(c.organization_id, auth.uid(), ARRAY['owner'])
+            AND (approver_id IS NULL OR public.is_org_member(c.organization_id, approver_id))
+            AND (escalate_to IS NULL OR public.is_org_member(c.organization_id, escalate_to))
+        )
+      );
+  END IF;
+END $$;
+
+-- Step assignees see an invoice only while they belong to its organization
+CREATE OR REPLACE FUNCTION public.is_invoice_approver(_invoice_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.approvals a
+    JOIN public.invoices i ON i.id = a.invoice_id
+    WHERE a.invoice_id = _invoice_id
+      AND (a.approver_id = _user_id OR a.decided_by = _user_id OR a.original_approver_id = _user_id)
+      AND public.is_org_member(i.organization_id, _user_id)
+  );
+$$;
+
+-- Accountants edit invoices and payments, but approval decisions and payment status only change through
+-- set-approval / payment-status / payment-run / reconciliation, which check four-eyes and the payment
+-- state machine and then write with the service role (auth.uid() IS NULL). The amount an approver signed
+-- off on stays fixed while the approval stands.
+CREATE OR REPLACE FUNCTION public.guard_invoice_approval_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.approval = 'pass' OR NEW.approved_by IS NOT NULL THEN
+      RAISE EXCEPTION 'Invoices are saved unapproved; approvals go through set-approval';
+    END IF;
+    IF NEW.payment_status IS NOT NULL OR NEW.paid_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Invoices are saved unpaid; payment status changes go through payment-status';
+    END IF;
+    RETURN NEW;
+  END IF;
+  IF NEW.approval IS DISTINCT FROM OLD.approval OR NEW.approved_by IS DISTINCT FROM OLD.approved_by THEN
+    RAISE EXCEPTION 'Approval decisions go through set-approval';
+  END IF;
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status OR NEW.paid_at IS DISTINCT FROM OLD.paid_at THEN
+    RAISE EXCEPTION 'Payment status changes go through payment-status';
+  END IF;
+  IF OLD.approval = 'pass'
+     AND (NEW.total_amount IS DISTINCT FROM OLD.total_amount
+          OR NEW.total_eur IS DISTINCT FROM OLD.total_eur
+          OR NEW.currency IS DISTINCT FROM OLD.currency) THEN
+    RAISE EXCEPTION 'The amount of an approved invoice cannot change';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'draft' THEN
+      RAISE EXCEPTION 'Payments are created as drafts; status changes go through payment-status';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Payment status changes go through payment-status';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'guard_invoices_approval_columns') THEN
+    CREATE TRIGGER guard_invoices_approval_columns
+      BEFORE INSERT OR UPDATE ON public.invoices
+      FOR EACH ROW EXECUTE FUNCTION public.guard_invoice_approval_columns();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'guard_payments_status') THEN
+    CREATE TRIGGER guard_payments_status
+      BEFORE INSERT OR UPDATE ON public.payments
+      FOR EACH ROW EXECUTE FUNCTION public.guard_payment_status();
+  END IF;
+END $$;